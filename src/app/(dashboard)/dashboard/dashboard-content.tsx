@@ -1,56 +1,105 @@
 'use client'
 
 import Link from 'next/link'
+import type { ReactNode } from 'react'
 import { Box } from '@/components/atoms/box'
 import { Button } from '@/components/atoms/button'
-import { Icon } from '@/components/atoms/icon'
-import { CircuitBreakerStatus } from '@/components/molecules'
+import { Icon, type IconName } from '@/components/atoms/icon'
+import { Skeleton } from '@/components/atoms/skeleton'
+import { ApiErrorDisplay, CircuitBreakerStatus } from '@/components/molecules'
+import { EventCard } from '@/components/organisms'
+import { type OverviewMetric, useDashboardOverview } from '@/hooks'
+import { formatDateTime, formatNumber } from '@/lib/format'
+
+/** Props for a single overview stat tile */
+interface OverviewStatProps {
+  label: string
+  icon: IconName
+  metric: OverviewMetric<number>
+}
+
+/**
+ * Stat tile with skeleton and error states
+ */
+function OverviewStat({ label, icon, metric }: OverviewStatProps) {
+  return (
+    <Box variant="default" padding="lg">
+      <div className="flex items-center justify-between mb-2">
+        <span className="typo-ui text-terminal-dim">&gt; {label}</span>
+        <Icon name={icon} size="sm" className="text-terminal-green" />
+      </div>
+      {metric.isLoading ? (
+        <Skeleton className="h-9 w-20" aria-label={`Loading ${label.toLowerCase()}`} />
+      ) : metric.error ? (
+        <p
+          className="typo-ui text-destructive flex items-center gap-2"
+          title={metric.error.message}
+        >
+          <Icon name="warning" size="sm" />
+          [ERR]
+        </p>
+      ) : (
+        <p className="typo-header text-terminal-green text-3xl">{formatNumber(metric.data ?? 0)}</p>
+      )}
+    </Box>
+  )
+}
+
+/** Props for an overview list panel */
+interface OverviewPanelProps<T> {
+  metric: OverviewMetric<T[]>
+  errorTitle: string
+  emptyMessage: string
+  children: (items: T[]) => ReactNode
+}
+
+/**
+ * List panel body with skeleton, error, and empty states
+ */
+function OverviewPanel<T>({ metric, errorTitle, emptyMessage, children }: OverviewPanelProps<T>) {
+  if (metric.isLoading) {
+    return (
+      <div className="space-y-2">
+        {[...Array(3)].map((_, i) => (
+          // biome-ignore lint/suspicious/noArrayIndexKey: static skeleton placeholders
+          <Skeleton key={i} className="h-12 w-full" />
+        ))}
+      </div>
+    )
+  }
+
+  if (metric.error) {
+    return <ApiErrorDisplay error={metric.error} title={errorTitle} />
+  }
+
+  const items = metric.data ?? []
+  if (items.length === 0) {
+    return <p className="typo-ui text-terminal-dim">{emptyMessage}</p>
+  }
+
+  return <div className="space-y-2">{children(items)}</div>
+}
 
 export function DashboardContent() {
+  const overview = useDashboardOverview()
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div className="border-b-2 border-terminal pb-6">
         <h1 className="typo-header text-terminal-green glow mb-2">[#] DASHBOARD</h1>
         <p className="typo-ui text-terminal-dim">
-          Welcome to your ERC-8004 Reputation Dashboard. Monitor blockchain events, create
-          automated triggers, and query agent reputation data.
+          Welcome to your ERC-8004 Reputation Dashboard. Monitor blockchain events, create automated
+          triggers, and query agent reputation data.
         </p>
       </div>
 
       {/* Stats Grid */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        <Box variant="default" padding="lg">
-          <div className="flex items-center justify-between mb-2">
-            <span className="typo-ui text-terminal-dim">&gt; TOTAL TRIGGERS</span>
-            <Icon name="triggers" size="sm" className="text-terminal-green" />
-          </div>
-          <p className="typo-header text-terminal-green text-3xl">0</p>
-        </Box>
-
-        <Box variant="default" padding="lg">
-          <div className="flex items-center justify-between mb-2">
-            <span className="typo-ui text-terminal-dim">&gt; ACTIVE TRIGGERS</span>
-            <Icon name="check" size="sm" className="text-terminal-green" />
-          </div>
-          <p className="typo-header text-terminal-green text-3xl">0</p>
-        </Box>
-
-        <Box variant="default" padding="lg">
-          <div className="flex items-center justify-between mb-2">
-            <span className="typo-ui text-terminal-dim">&gt; EVENTS (24H)</span>
-            <Icon name="events" size="sm" className="text-terminal-green" />
-          </div>
-          <p className="typo-header text-terminal-green text-3xl">0</p>
-        </Box>
-
-        <Box variant="default" padding="lg">
-          <div className="flex items-center justify-between mb-2">
-            <span className="typo-ui text-terminal-dim">&gt; API CALLS (24H)</span>
-            <Icon name="api-keys" size="sm" className="text-terminal-green" />
-          </div>
-          <p className="typo-header text-terminal-green text-3xl">0</p>
-        </Box>
+        <OverviewStat label="TOTAL TRIGGERS" icon="triggers" metric={overview.totalTriggers} />
+        <OverviewStat label="ACTIVE TRIGGERS" icon="check" metric={overview.activeTriggers} />
+        <OverviewStat label="EVENTS (24H)" icon="events" metric={overview.events24h} />
+        <OverviewStat label="API CALLS (24H)" icon="api-keys" metric={overview.apiCalls24h} />
       </div>
 
       {/* System Status */}
@@ -65,7 +114,13 @@ export function DashboardContent() {
               <Link href="/dashboard/events">[VIEW ALL]</Link>
             </Button>
           </div>
-          <p className="typo-ui text-terminal-dim">No events yet.</p>
+          <OverviewPanel
+            metric={overview.recentEvents}
+            errorTitle="ERROR LOADING EVENTS"
+            emptyMessage="No events yet."
+          >
+            {(events) => events.map((event) => <EventCard key={event.id} event={event} compact />)}
+          </OverviewPanel>
         </Box>
 
         <Box variant="default" padding="lg">
@@ -75,7 +130,28 @@ export function DashboardContent() {
               <Link href="/dashboard/triggers">[VIEW ALL]</Link>
             </Button>
           </div>
-          <p className="typo-ui text-terminal-dim">No executions yet.</p>
+          <OverviewPanel
+            metric={overview.recentExecutions}
+            errorTitle="ERROR LOADING EXECUTIONS"
+            emptyMessage="No executions yet."
+          >
+            {(executions) =>
+              executions.map((execution) => (
+                <Link
+                  key={execution.id}
+                  href={`/dashboard/triggers/${execution.triggerId}`}
+                  className="flex items-center justify-between gap-3 p-3 border-2 border-terminal bg-terminal hover:border-terminal-green transition-colors"
+                >
+                  <span className="typo-ui text-terminal-green text-sm truncate">
+                    {execution.triggerName}
+                  </span>
+                  <span className="typo-ui text-terminal-dim text-xs shrink-0">
+                    {execution.status.toUpperCase()} &middot; {formatDateTime(execution.startedAt)}
+                  </span>
+                </Link>
+              ))
+            }
+          </OverviewPanel>
         </Box>
       </div>
 
@@ -33,7 +33,7 @@ export default function EventsPage() {
       </div>
 
       {/* Events List */}
-      <EventsList />
+      <EventsList liveToggle />
     </div>
   )
 }
@@ -0,0 +1,45 @@
+'use client'
+
+import Link from 'next/link'
+import { use } from 'react'
+import { Button } from '@/components/atoms/button'
+import { DetailPageHeader } from '@/components/molecules'
+import { ExplorerAgentDetail } from '@/components/organisms'
+import { CHAIN_NAMES } from '@/lib/constants'
+
+interface ExplorerAgentPageProps {
+  params: Promise<{ chainId: string; agentId: string }>
+}
+
+export default function ExplorerAgentPage({ params }: ExplorerAgentPageProps) {
+  const { chainId: chainParam, agentId: agentParam } = use(params)
+  const chainId = Number(chainParam)
+  const agentId = Number(agentParam)
+
+  if (!CHAIN_NAMES[chainId] || !Number.isInteger(agentId) || agentId < 0) {
+    return (
+      <div className="h-screen bg-terminal flex flex-col items-center justify-center gap-4">
+        <p className="text-destructive typo-ui glow">[!] INVALID AGENT</p>
+        <p className="text-terminal-dim typo-ui">
+          Agent #{agentParam} on chain {chainParam} is not a valid lookup
+        </p>
+        <Button asChild variant="outline" className="typo-ui">
+          <Link href="/dashboard/explorer">[&lt;] BACK TO EXPLORER</Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <DetailPageHeader
+        backHref="/dashboard/explorer"
+        backLabel="EXPLORER"
+        title={`AGENT #${agentId}`}
+        subtitle={CHAIN_NAMES[chainId]}
+      />
+
+      <ExplorerAgentDetail chainId={chainId} agentId={agentId} />
+    </div>
+  )
+}
@@ -0,0 +1,19 @@
+'use client'
+
+import { AgentExplorerSearch } from '@/components/organisms'
+
+export default function ExplorerPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="border-b-2 border-terminal pb-6">
+        <h1 className="typo-header text-terminal-green glow mb-2">[?] AGENT EXPLORER</h1>
+        <p className="typo-ui text-terminal-dim">
+          Look up any ERC-8004 agent by ID or owner address, linked or not
+        </p>
+      </div>
+
+      <AgentExplorerSearch />
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { Box, Button } from '@/components/atoms'
+import { OrganizationAuditLog } from '@/components/organisms'
+import { useOrganization, usePermission } from '@/hooks'
+
+export default function OrganizationAuditLogPage() {
+  const params = useParams()
+  const orgId = params.id as string
+
+  const { data: organization, isLoading } = useOrganization(orgId)
+  const canView = usePermission('view', 'audit_log', orgId)
+
+  if (isLoading) {
+    return (
+      <div className="h-screen bg-terminal flex items-center justify-center">
+        <p className="text-terminal-green typo-ui glow animate-pulse">
+          {'>'} LOADING AUDIT LOG_
+        </p>
+      </div>
+    )
+  }
+
+  if (!organization) {
+    return (
+      <div className="h-screen bg-terminal flex flex-col items-center justify-center gap-4">
+        <p className="text-destructive typo-ui glow">[!] ORGANIZATION NOT FOUND</p>
+        <Link href="/dashboard/organizations">
+          <Button variant="outline" className="typo-ui">
+            [BACK TO ORGANIZATIONS]
+          </Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6 max-w-5xl">
+      {/* Breadcrumb */}
+      <div className="flex items-center gap-2 text-terminal-dim typo-ui">
+        <Link href="/dashboard/organizations" className="hover:text-terminal-green">
+          ORGANIZATIONS
+        </Link>
+        <span>/</span>
+        <Link
+          href={`/dashboard/organizations/${orgId}`}
+          className="hover:text-terminal-green"
+        >
+          {organization.name}
+        </Link>
+        <span>/</span>
+        <span className="text-terminal-green">AUDIT LOG</span>
+      </div>
+
+      {/* Header */}
+      <div className="border-b-2 border-terminal pb-6">
+        <h1 className="typo-header text-terminal-green glow mb-2">
+          [#] AUDIT LOG
+        </h1>
+        <p className="typo-ui text-terminal-dim">
+          Who changed what in {organization.name}, and when
+        </p>
+      </div>
+
+      {canView.allowed ? (
+        <OrganizationAuditLog organizationId={orgId} organizationSlug={organization.slug} />
+      ) : (
+        <Box variant="subtle" padding="lg">
+          <p className="typo-ui text-terminal-dim">{canView.reason}</p>
+        </Box>
+      )}
+    </div>
+  )
+}
@@ -18,13 +18,14 @@ import {
   SelectValue,
 } from '@/components/atoms'
 import { Icon } from '@/components/atoms/icon'
-import { ConfirmDialog } from '@/components/molecules'
+import { ConfirmDialog, PermissionTooltip } from '@/components/molecules'
 import {
   useOrganization,
   useOrganizationMembers,
   useInviteMember,
   useUpdateMemberRole,
   useRemoveMember,
+  usePermission,
 } from '@/hooks'
 import { cn } from '@/lib/utils'
 import { inviteMemberRequestSchema, type InviteMemberRequest } from '@/lib/validations'
@@ -59,7 +60,9 @@ export default function OrganizationMembersPage() {
   const organization = orgData
   const myRole = orgData?.my_role
   const members = membersData?.data ?? []
-  const canManage = myRole === 'owner' || myRole === 'admin'
+  const canInvite = usePermission('create', 'member', orgId)
+  const canChangeRole = usePermission('update', 'member', orgId)
+  const canRemove = usePermission('delete', 'member', orgId)
 
   const {
     register,
@@ -171,64 +174,66 @@ export default function OrganizationMembersPage() {
       </div>
 
       {/* Invite Member Form */}
-      {canManage && (
-        <Box variant="default" padding="lg">
-          <h2 className="typo-ui text-terminal-green glow mb-4">&gt; INVITE MEMBER</h2>
-          <form onSubmit={handleSubmit(onInvite)} className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="md:col-span-2 space-y-2">
-                <Label htmlFor="email" className="typo-ui text-terminal-dim">
-                  &gt; EMAIL
-                </Label>
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="user@example.com"
-                  {...register('email')}
-                  className="typo-ui border-terminal-dim bg-terminal focus:border-terminal-green"
-                />
-                {errors.email && (
-                  <p className="text-destructive text-sm">{errors.email.message}</p>
-                )}
-              </div>
-              <div className="space-y-2">
-                <Label htmlFor="role" className="typo-ui text-terminal-dim">
-                  &gt; ROLE
-                </Label>
-                <Select
-                  value={selectedRole}
-                  onValueChange={(value) => setValue('role', value as Exclude<OrganizationRole, 'owner'>)}
-                >
-                  <SelectTrigger className="typo-ui border-terminal-dim bg-terminal">
-                    <SelectValue placeholder="Select role" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-terminal border-terminal-green">
-                    {ROLE_OPTIONS.map((option) => (
-                      <SelectItem
-                        key={option.value}
-                        value={option.value}
-                        className="typo-ui text-terminal-dim hover:text-terminal-green"
-                      >
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                {errors.role && (
-                  <p className="text-destructive text-sm">{errors.role.message}</p>
-                )}
-              </div>
+      <Box variant="default" padding="lg">
+        <h2 className="typo-ui text-terminal-green glow mb-4">&gt; INVITE MEMBER</h2>
+        <form onSubmit={handleSubmit(onInvite)} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2 space-y-2">
+              <Label htmlFor="email" className="typo-ui text-terminal-dim">
+                &gt; EMAIL
+              </Label>
+              <Input
+                id="email"
+                type="email"
+                placeholder="user@example.com"
+                {...register('email')}
+                disabled={!canInvite.allowed}
+                className="typo-ui border-terminal-dim bg-terminal focus:border-terminal-green"
+              />
+              {errors.email && (
+                <p className="text-destructive text-sm">{errors.email.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role" className="typo-ui text-terminal-dim">
+                &gt; ROLE
+              </Label>
+              <Select
+                value={selectedRole}
+                onValueChange={(value) => setValue('role', value as Exclude<OrganizationRole, 'owner'>)}
+                disabled={!canInvite.allowed}
+              >
+                <SelectTrigger className="typo-ui border-terminal-dim bg-terminal">
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent className="bg-terminal border-terminal-green">
+                  {ROLE_OPTIONS.map((option) => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      className="typo-ui text-terminal-dim hover:text-terminal-green"
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {errors.role && (
+                <p className="text-destructive text-sm">{errors.role.message}</p>
+              )}
             </div>
+          </div>
+          <PermissionTooltip reason={canInvite.reason}>
             <Button
               type="submit"
-              disabled={inviteMember.isPending}
+              disabled={!canInvite.allowed || inviteMember.isPending}
               className="typo-ui"
             >
               {inviteMember.isPending ? '[INVITING...]' : '[INVITE]'}
             </Button>
-          </form>
-        </Box>
-      )}
+          </PermissionTooltip>
+        </form>
+      </Box>
 
       {/* Members List */}
       <Box variant="default" padding="lg">
@@ -246,7 +251,6 @@ export default function OrganizationMembersPage() {
           <div className="space-y-2">
             {members.map((member) => {
               const isOwner = member.role === 'owner'
-              const canModify = canManage && !isOwner
 
               return (
                 <div
@@ -270,38 +274,43 @@ export default function OrganizationMembersPage() {
                     </p>
                   </div>
 
-                  {canModify && (
+                  {!isOwner && (
                     <div className="flex items-center gap-2">
-                      <Select
-                        value={member.role}
-                        onValueChange={(value) =>
-                          handleRoleChange(member.id, value as Exclude<OrganizationRole, 'owner'>)
-                        }
-                        disabled={updateMemberRole.isPending}
-                      >
-                        <SelectTrigger className="w-32 typo-ui border-terminal-dim bg-terminal text-sm">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent className="bg-terminal border-terminal-green">
-                          {ROLE_OPTIONS.map((option) => (
-                            <SelectItem
-                              key={option.value}
-                              value={option.value}
-                              className="typo-ui text-terminal-dim hover:text-terminal-green text-sm"
-                            >
-                              {option.label}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleRemoveClick(member.id, member.username)}
-                        className="typo-ui text-destructive hover:text-destructive border-destructive"
-                      >
-                        <Icon name="close" size="sm" />
-                      </Button>
+                      <PermissionTooltip reason={canChangeRole.reason}>
+                        <Select
+                          value={member.role}
+                          onValueChange={(value) =>
+                            handleRoleChange(member.id, value as Exclude<OrganizationRole, 'owner'>)
+                          }
+                          disabled={!canChangeRole.allowed || updateMemberRole.isPending}
+                        >
+                          <SelectTrigger className="w-32 typo-ui border-terminal-dim bg-terminal text-sm">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent className="bg-terminal border-terminal-green">
+                            {ROLE_OPTIONS.map((option) => (
+                              <SelectItem
+                                key={option.value}
+                                value={option.value}
+                                className="typo-ui text-terminal-dim hover:text-terminal-green text-sm"
+                              >
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </PermissionTooltip>
+                      <PermissionTooltip reason={canRemove.reason}>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRemoveClick(member.id, member.username)}
+                          disabled={!canRemove.allowed}
+                          className="typo-ui text-destructive hover:text-destructive border-destructive"
+                        >
+                          <Icon name="close" size="sm" />
+                        </Button>
+                      </PermissionTooltip>
                     </div>
                   )}
 
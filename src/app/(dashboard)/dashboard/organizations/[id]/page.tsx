@@ -5,12 +5,13 @@ import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Box, Button, Badge, Input, Label, Textarea } from '@/components/atoms'
 import { Icon } from '@/components/atoms/icon'
-import { ConfirmDialog } from '@/components/molecules'
+import { ConfirmDialog, PermissionTooltip } from '@/components/molecules'
 import {
   useOrganization,
   useUpdateOrganization,
   useDeleteOrganization,
   useSwitchOrganization,
+  usePermission,
 } from '@/hooks'
 import { useOrganizationStore } from '@/stores/organization-store'
 import type { OrganizationRole } from '@/lib/constants'
@@ -40,8 +41,9 @@ export default function OrganizationDetailPage() {
 
   const organization = orgData
   const myRole = orgData?.my_role
-  const canEdit = myRole === 'owner' || myRole === 'admin'
-  const canDelete = myRole === 'owner'
+  const canEdit = usePermission('update', 'organization', orgId)
+  const canDelete = usePermission('delete', 'organization', orgId)
+  const canViewAuditLog = usePermission('view', 'audit_log', orgId)
   const isCurrent = currentOrganizationId === orgId
 
   const handleStartEdit = () => {
@@ -151,11 +153,19 @@ export default function OrganizationDetailPage() {
       <Box variant="default" padding="lg">
         <div className="flex items-center justify-between mb-6">
           <h2 className="typo-ui text-terminal-green glow">&gt; DETAILS</h2>
-          {canEdit && !isEditing && (
-            <Button variant="outline" size="sm" onClick={handleStartEdit} className="typo-ui">
-              <Icon name="edit" size="sm" className="mr-1" />
-              [EDIT]
-            </Button>
+          {!isEditing && (
+            <PermissionTooltip reason={canEdit.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleStartEdit}
+                disabled={!canEdit.allowed}
+                className="typo-ui"
+              >
+                <Icon name="edit" size="sm" className="mr-1" />
+                [EDIT]
+              </Button>
+            </PermissionTooltip>
           )}
         </div>
 
@@ -248,27 +258,45 @@ export default function OrganizationDetailPage() {
         </p>
       </Box>
 
+      {/* Audit Log Section */}
+      {canViewAuditLog.allowed && (
+        <Box variant="default" padding="lg">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="typo-ui text-terminal-green glow">&gt; AUDIT LOG</h2>
+            <Link href={`/dashboard/organizations/${orgId}/audit-log`}>
+              <Button variant="outline" size="sm" className="typo-ui">
+                [VIEW AUDIT LOG]
+              </Button>
+            </Link>
+          </div>
+          <p className="typo-ui text-terminal-dim">
+            Review changes to members, triggers, API keys, agents and settings.
+          </p>
+        </Box>
+      )}
+
       {/* Danger Zone */}
-      {canDelete && (
-        <Box variant="error" padding="lg">
-          <h2 className="typo-ui text-destructive mb-4">&gt; DANGER ZONE</h2>
-          <div className="flex items-center justify-between">
-            <div>
-              <div className="typo-ui text-destructive">DELETE ORGANIZATION</div>
-              <div className="typo-ui text-destructive/70 text-sm">
-                Permanently delete this organization and all its data
-              </div>
+      <Box variant="error" padding="lg">
+        <h2 className="typo-ui text-destructive mb-4">&gt; DANGER ZONE</h2>
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="typo-ui text-destructive">DELETE ORGANIZATION</div>
+            <div className="typo-ui text-destructive/70 text-sm">
+              Permanently delete this organization and all its data
             </div>
+          </div>
+          <PermissionTooltip reason={canDelete.reason}>
             <Button
               variant="destructive"
               onClick={() => setDeleteDialogOpen(true)}
+              disabled={!canDelete.allowed}
               className="typo-ui"
             >
               [DELETE]
             </Button>
-          </div>
-        </Box>
-      )}
+          </PermissionTooltip>
+        </div>
+      </Box>
 
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
@@ -5,21 +5,45 @@ import { use, useState } from 'react'
 import { Box } from '@/components/atoms/box'
 import { Button } from '@/components/atoms/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/atoms/tabs'
-import { ChainBadge, DetailPageHeader, LoadingSkeleton, RegistryBadge, StatusBadge } from '@/components/molecules'
-import { TriggerForm } from '@/components/organisms'
-import { useCurrentOrganization, useTrigger } from '@/hooks'
+import {
+  ChainBadge,
+  ConditionTreeView,
+  DetailPageHeader,
+  LoadingSkeleton,
+  PermissionTooltip,
+  RegistryBadge,
+  StatusBadge,
+} from '@/components/molecules'
+import {
+  SaveTriggerTemplateDialog,
+  TriggerExecutionsList,
+  TriggerForm,
+  TriggerRevisionHistory,
+  TriggerStatePanel,
+} from '@/components/organisms'
+import { useCurrentOrganization, usePermission, useTrigger } from '@/hooks'
+import {
+  CONDITION_GROUP_LOGIC_LABELS,
+  countConditions,
+  isConditionGroup,
+} from '@/lib/condition-tree'
 import { sanitizeHtml, sanitizeConfigValue } from '@/lib/sanitize'
 
+type TriggerDetailTab = 'view' | 'edit' | 'executions' | 'history'
+
 interface TriggerDetailPageProps {
   params: Promise<{ id: string }>
 }
 
 export default function TriggerDetailPage({ params }: TriggerDetailPageProps) {
   const { id } = use(params)
-  const [activeTab, setActiveTab] = useState<'view' | 'edit'>('view')
+  const [activeTab, setActiveTab] = useState<TriggerDetailTab>('view')
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false)
 
   const { data: orgData } = useCurrentOrganization()
   const organization = orgData
+  const canCreate = usePermission('create', 'trigger')
+  const canUpdate = usePermission('update', 'trigger')
 
   const { data: trigger, isLoading, error } = useTrigger(id)
 
@@ -52,17 +76,40 @@ export default function TriggerDetailPage({ params }: TriggerDetailPageProps) {
         backHref="/dashboard/triggers"
         title={sanitizeHtml(trigger.name)}
         subtitle={trigger.description ? sanitizeHtml(trigger.description) : undefined}
-        action={<StatusBadge enabled={trigger.enabled} />}
+        action={
+          <div className="flex items-center gap-3">
+            <PermissionTooltip reason={canCreate.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="typo-ui"
+                onClick={() => setSaveTemplateOpen(true)}
+                disabled={!canCreate.allowed}
+              >
+                [SAVE AS TEMPLATE]
+              </Button>
+            </PermissionTooltip>
+            <StatusBadge enabled={trigger.enabled} />
+          </div>
+        }
       />
 
       {/* Tabs */}
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'view' | 'edit')}>
+      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as TriggerDetailTab)}>
         <TabsList className="border-2 border-terminal">
           <TabsTrigger value="view" className="typo-ui">
             [VIEW]
           </TabsTrigger>
-          <TabsTrigger value="edit" className="typo-ui">
-            [EDIT]
+          <PermissionTooltip reason={canUpdate.reason}>
+            <TabsTrigger value="edit" className="typo-ui" disabled={!canUpdate.allowed}>
+              [EDIT]
+            </TabsTrigger>
+          </PermissionTooltip>
+          <TabsTrigger value="executions" className="typo-ui">
+            [EXECUTIONS]
+          </TabsTrigger>
+          <TabsTrigger value="history" className="typo-ui">
+            [HISTORY]
           </TabsTrigger>
         </TabsList>
 
@@ -122,41 +169,55 @@ export default function TriggerDetailPage({ params }: TriggerDetailPageProps) {
             </Box>
           </div>
 
+          {/* State */}
+          {trigger.isStateful && (
+            <TriggerStatePanel triggerId={trigger.id} stateConfig={trigger.stateConfig} />
+          )}
+
           {/* Conditions */}
           <Box variant="secondary" padding="md">
             <div className="typo-ui text-terminal-green glow mb-4">
-              [?] CONDITIONS ({trigger.conditions?.length ?? 0})
+              [?] CONDITIONS ({countConditions(trigger.conditions)})
             </div>
             <div className="space-y-3">
-              {trigger.conditions?.map((condition, index) => (
-                <Box key={condition.id} variant="subtle" padding="md">
-                  <div className="typo-ui text-terminal-dim mb-2">
-                    CONDITION {index + 1}
-                  </div>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 typo-ui">
-                    <div>
-                      <span className="text-terminal-dim">TYPE:</span>{' '}
-                      <span className="text-terminal-green">
-                        {sanitizeHtml(condition.conditionType)}
-                      </span>
-                    </div>
-                    <div>
-                      <span className="text-terminal-dim">FIELD:</span>{' '}
-                      <span className="text-terminal-green">{sanitizeHtml(condition.field)}</span>
+              {trigger.conditions?.map((condition, index) =>
+                isConditionGroup(condition) ? (
+                  <Box key={condition.id ?? index} variant="subtle" padding="md">
+                    <div className="typo-ui text-terminal-dim mb-2">
+                      CONDITION {index + 1}: {CONDITION_GROUP_LOGIC_LABELS[condition.logic]}
                     </div>
-                    <div>
-                      <span className="text-terminal-dim">OPERATOR:</span>{' '}
-                      <span className="text-terminal-green">
-                        {sanitizeHtml(condition.operator)}
-                      </span>
+                    <ConditionTreeView conditions={condition.conditions} showType />
+                  </Box>
+                ) : (
+                  <Box key={condition.id} variant="subtle" padding="md">
+                    <div className="typo-ui text-terminal-dim mb-2">
+                      CONDITION {index + 1}
                     </div>
-                    <div>
-                      <span className="text-terminal-dim">VALUE:</span>{' '}
-                      <span className="text-terminal-green">{sanitizeHtml(condition.value)}</span>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 typo-ui">
+                      <div>
+                        <span className="text-terminal-dim">TYPE:</span>{' '}
+                        <span className="text-terminal-green">
+                          {sanitizeHtml(condition.conditionType)}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="text-terminal-dim">FIELD:</span>{' '}
+                        <span className="text-terminal-green">{sanitizeHtml(condition.field)}</span>
+                      </div>
+                      <div>
+                        <span className="text-terminal-dim">OPERATOR:</span>{' '}
+                        <span className="text-terminal-green">
+                          {sanitizeHtml(condition.operator)}
+                        </span>
+                      </div>
+                      <div>
+                        <span className="text-terminal-dim">VALUE:</span>{' '}
+                        <span className="text-terminal-green">{sanitizeHtml(condition.value)}</span>
+                      </div>
                     </div>
-                  </div>
-                </Box>
-              )) ?? (
+                  </Box>
+                )
+              ) ?? (
                 <div className="typo-ui text-terminal-dim">No conditions defined</div>
               )}
             </div>
@@ -195,11 +256,27 @@ export default function TriggerDetailPage({ params }: TriggerDetailPageProps) {
 
         {/* Edit Tab */}
         <TabsContent value="edit">
-          {organization && (
+          {organization && canUpdate.allowed && (
             <TriggerForm organizationId={organization.id} trigger={trigger} mode="edit" />
           )}
         </TabsContent>
+
+        {/* Executions Tab */}
+        <TabsContent value="executions">
+          <TriggerExecutionsList triggerId={trigger.id} />
+        </TabsContent>
+
+        {/* History Tab */}
+        <TabsContent value="history">
+          <TriggerRevisionHistory triggerId={trigger.id} />
+        </TabsContent>
       </Tabs>
+
+      <SaveTriggerTemplateDialog
+        trigger={trigger}
+        open={saveTemplateOpen}
+        onOpenChange={setSaveTemplateOpen}
+      />
     </div>
   )
 }
@@ -1,19 +1,35 @@
 'use client'
 
+import Link from 'next/link'
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
 import { DetailPageHeader } from '@/components/molecules'
-import { TriggerForm } from '@/components/organisms'
-import { useCurrentOrganization } from '@/hooks'
+import { TriggerForm, TriggerTemplateGallery } from '@/components/organisms'
+import { useCurrentOrganization, usePermission } from '@/hooks'
+import {
+  type CreateTriggerFormValues,
+  findRedactedSecretPaths,
+  REDACTED_SECRET,
+} from '@/lib/validations'
 
 export default function NewTriggerPage() {
+  // Null until a template is picked or the user starts from scratch
+  const [initialValues, setInitialValues] = useState<Partial<CreateTriggerFormValues> | null>(
+    null
+  )
   const { data: orgData, isLoading } = useCurrentOrganization()
   const organization = orgData
+  const canCreate = usePermission('create', 'trigger')
+  // Templates saved from a trigger keep placeholders instead of its secrets
+  const redactedSecrets = findRedactedSecretPaths(initialValues?.actions).map(
+    ([, index, , ...key]) => `action ${Number(index) + 1} ${key.join('.')}`
+  )
 
   if (isLoading) {
     return (
       <div className="h-screen bg-terminal flex items-center justify-center">
-        <p className="text-terminal-green typo-ui glow animate-pulse">
-          {'>'} LOADING_
-        </p>
+        <p className="text-terminal-green typo-ui glow animate-pulse">{'>'} LOADING_</p>
       </div>
     )
   }
@@ -29,6 +45,18 @@ export default function NewTriggerPage() {
     )
   }
 
+  if (!canCreate.allowed) {
+    return (
+      <div className="h-screen bg-terminal flex flex-col items-center justify-center gap-4">
+        <p className="text-destructive typo-ui glow">[!] ACCESS DENIED</p>
+        <p className="text-terminal-dim typo-ui">{canCreate.reason}</p>
+        <Button asChild variant="outline" className="typo-ui">
+          <Link href="/dashboard/triggers">[&lt;] BACK TO TRIGGERS</Link>
+        </Button>
+      </div>
+    )
+  }
+
   return (
     <div className="max-w-5xl mx-auto space-y-6">
       <DetailPageHeader
@@ -37,8 +65,42 @@ export default function NewTriggerPage() {
         subtitle="Set up automated monitoring and actions for blockchain events"
       />
 
-      {/* Form */}
-      <TriggerForm organizationId={organization.id} mode="create" />
+      {initialValues === null ? (
+        <TriggerTemplateGallery onUse={setInitialValues} onSkip={() => setInitialValues({})} />
+      ) : (
+        <>
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            onClick={() => setInitialValues(null)}
+          >
+            [&lt; TEMPLATES]
+          </Button>
+
+          {redactedSecrets.length > 0 && (
+            <div className="border-2 border-yellow-500/50 bg-yellow-500/10 p-3" aria-live="polite">
+              <div className="flex items-start gap-2">
+                <Icon name="warning" size="sm" className="text-yellow-500 shrink-0 mt-0.5" />
+                <div>
+                  <p className="typo-ui text-yellow-500 font-bold">RE-ENTER SECRETS</p>
+                  <p className="typo-ui text-yellow-500/80 text-sm">
+                    Secrets were left out when this template was saved. Replace {REDACTED_SECRET} in{' '}
+                    {redactedSecrets.join(', ')} before creating the trigger.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Form */}
+          <TriggerForm
+            organizationId={organization.id}
+            mode="create"
+            initialValues={initialValues}
+          />
+        </>
+      )}
     </div>
   )
 }
@@ -3,12 +3,14 @@
 import Link from 'next/link'
 import { Box } from '@/components/atoms/box'
 import { Button } from '@/components/atoms/button'
+import { PermissionTooltip } from '@/components/molecules'
 import { TriggersList } from '@/components/organisms'
-import { useCurrentOrganization } from '@/hooks'
+import { useCurrentOrganization, usePermission } from '@/hooks'
 
 export default function TriggersPage() {
   const { data: orgData, isLoading } = useCurrentOrganization()
   const organization = orgData
+  const canCreate = usePermission('create', 'trigger')
 
   if (isLoading) {
     return (
@@ -43,11 +45,19 @@ export default function TriggersPage() {
             Monitor blockchain events and automate actions
           </p>
         </div>
-        <Button asChild className="typo-ui">
-          <Link href="/dashboard/triggers/new">
-            [+] NEW TRIGGER
-          </Link>
-        </Button>
+        <PermissionTooltip reason={canCreate.reason}>
+          {canCreate.allowed ? (
+            <Button asChild className="typo-ui">
+              <Link href="/dashboard/triggers/new">
+                [+] NEW TRIGGER
+              </Link>
+            </Button>
+          ) : (
+            <Button disabled className="typo-ui">
+              [+] NEW TRIGGER
+            </Button>
+          )}
+        </PermissionTooltip>
       </div>
 
       {/* Stats Cards */}
@@ -0,0 +1,23 @@
+'use client'
+
+import { useRouter } from 'next/navigation'
+import { use } from 'react'
+import { DetailPageHeader } from '@/components/molecules'
+import { WatchlistDetail } from '@/components/organisms'
+
+interface WatchlistDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default function WatchlistDetailPage({ params }: WatchlistDetailPageProps) {
+  const { id } = use(params)
+  const router = useRouter()
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <DetailPageHeader backHref="/dashboard/watchlists" backLabel="WATCHLISTS" title="WATCHLIST" />
+
+      <WatchlistDetail watchlistId={id} onDeleted={() => router.push('/dashboard/watchlists')} />
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useState } from 'react'
+import { Box, Button } from '@/components/atoms'
+import { Icon } from '@/components/atoms/icon'
+import { ApiErrorDisplay, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
+import { CreateWatchlistDialog } from '@/components/organisms'
+import { usePermission, useWatchlists } from '@/hooks'
+import { formatDate } from '@/lib/format'
+
+export default function WatchlistsPage() {
+  const router = useRouter()
+  const [createDialogOpen, setCreateDialogOpen] = useState(false)
+  const { data: watchlists, isLoading, error } = useWatchlists()
+  const canCreate = usePermission('create', 'watchlist')
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 border-b-2 border-terminal pb-6">
+        <div>
+          <h1 className="typo-header text-terminal-green glow mb-2">[*] WATCHLISTS</h1>
+          <p className="typo-ui text-terminal-dim">
+            Named sets of agents to target together in triggers and event filters
+          </p>
+        </div>
+        <PermissionTooltip reason={canCreate.reason}>
+          <Button
+            onClick={() => setCreateDialogOpen(true)}
+            disabled={!canCreate.allowed}
+            className="typo-ui"
+          >
+            <Icon name="add" size="sm" className="mr-2" />
+            [CREATE NEW]
+          </Button>
+        </PermissionTooltip>
+      </div>
+
+      {/* Watchlists */}
+      {isLoading ? (
+        <LoadingSkeleton count={3} height={120} />
+      ) : error ? (
+        <ApiErrorDisplay
+          error={error instanceof Error ? error : new Error('An unexpected error occurred')}
+          title="ERROR LOADING WATCHLISTS"
+        />
+      ) : !watchlists?.length ? (
+        <Box variant="default" padding="lg" className="text-center">
+          <Icon name="star" size="lg" className="mx-auto mb-4 text-terminal-dim" />
+          <h3 className="typo-ui text-terminal-green mb-2">NO WATCHLISTS</h3>
+          <p className="typo-ui text-terminal-dim mb-4">
+            Create a watchlist to monitor a fleet of agents with one trigger
+          </p>
+          <PermissionTooltip reason={canCreate.reason}>
+            <Button
+              onClick={() => setCreateDialogOpen(true)}
+              disabled={!canCreate.allowed}
+              className="typo-ui"
+            >
+              [CREATE WATCHLIST]
+            </Button>
+          </PermissionTooltip>
+        </Box>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {watchlists.map((watchlist) => (
+            <Link key={watchlist.id} href={`/dashboard/watchlists/${watchlist.id}`}>
+              <Box
+                variant="default"
+                padding="lg"
+                className="cursor-pointer transition-all hover:border-terminal-green h-full"
+              >
+                <h3 className="typo-ui text-terminal-green truncate mb-1">{watchlist.name}</h3>
+                {watchlist.description && (
+                  <p className="typo-ui text-terminal-dim text-sm line-clamp-2 mb-3">
+                    {watchlist.description}
+                  </p>
+                )}
+                <p className="typo-ui text-terminal-dim text-sm">
+                  {watchlist.agents.length} AGENT{watchlist.agents.length !== 1 ? 'S' : ''} /
+                  UPDATED {formatDate(watchlist.updatedAt)}
+                </p>
+              </Box>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {/* Create Watchlist Dialog */}
+      <CreateWatchlistDialog
+        open={createDialogOpen}
+        onOpenChange={setCreateDialogOpen}
+        onSuccess={(watchlist) => router.push(`/dashboard/watchlists/${watchlist.id}`)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { diffAgentCards } from '@/lib/agent-card'
+import { AgentCardDiff } from './AgentCardDiff'
+
+const meta = {
+  title: 'Shared/AgentCardDiff',
+  component: AgentCardDiff,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+} satisfies Meta<typeof AgentCardDiff>
+
+export default meta
+type Story = StoryObj<typeof AgentCardDiff>
+
+export const Default: Story = {
+  args: {
+    changes: diffAgentCards(
+      {
+        name: 'Research Agent',
+        description: 'Summarizes on-chain activity',
+        endpoints: [
+          { name: 'A2A', endpoint: 'https://agent.example.com/.well-known/agent-card.json' },
+          { name: 'ENS', endpoint: 'research.eth' },
+        ],
+        supportedTrust: ['reputation'],
+      },
+      {
+        name: 'Research Agent v2',
+        description: 'Summarizes on-chain activity',
+        endpoints: [
+          { name: 'A2A', endpoint: 'https://agent.example.com/.well-known/agent-card.json' },
+          { name: 'MCP', endpoint: 'https://mcp.example.com', version: '2025-06-18' },
+        ],
+        supportedTrust: ['reputation', 'crypto-economic'],
+      }
+    ),
+  },
+}
+
+export const NoChanges: Story = {
+  args: {
+    changes: [],
+  },
+}
@@ -0,0 +1,77 @@
+/**
+ * AgentCardDiff
+ *
+ * Line-by-line diff of two agent card versions, as produced by
+ * `diffAgentCards`. Added fields are prefixed with `+`, removed fields
+ * with `-`, and changed fields show the old and new value.
+ *
+ * @module components/molecules/AgentCardDiff
+ *
+ * @example
+ * ```tsx
+ * <AgentCardDiff
+ *   changes={[
+ *     { path: 'name', type: 'changed', before: 'Old', after: 'New' },
+ *     { path: 'endpoints.MCP.endpoint', type: 'added', after: 'https://mcp.example.com' },
+ *   ]}
+ * />
+ * ```
+ */
+
+import type { AgentCardChange } from '@/lib/agent-card'
+import { cn } from '@/lib/utils'
+
+/** Props for the AgentCardDiff component */
+interface AgentCardDiffProps {
+  changes: AgentCardChange[]
+  className?: string
+}
+
+const CHANGE_STYLES: Record<AgentCardChange['type'], { prefix: string; className: string }> = {
+  added: { prefix: '+', className: 'text-terminal-green' },
+  removed: { prefix: '-', className: 'text-destructive' },
+  changed: { prefix: '~', className: 'text-yellow-500' },
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * Renders agent card changes, or a note when the versions are identical.
+ */
+export function AgentCardDiff({ changes, className }: AgentCardDiffProps) {
+  if (changes.length === 0) {
+    return (
+      <p data-slot="agent-card-diff" className={cn('typo-ui text-terminal-dim', className)}>
+        No card fields changed.
+      </p>
+    )
+  }
+
+  return (
+    <ul
+      data-slot="agent-card-diff"
+      className={cn('space-y-1 font-mono text-sm border-2 border-terminal p-3', className)}
+    >
+      {changes.map((change) => {
+        const style = CHANGE_STYLES[change.type]
+        return (
+          <li key={`${change.type}-${change.path}`} className={cn('break-all', style.className)}>
+            <span aria-hidden="true">{style.prefix} </span>
+            <span className="text-terminal-dim">{change.path}: </span>
+            {change.type === 'changed' ? (
+              <>
+                <span className="line-through opacity-70">{formatValue(change.before)}</span>
+                {' → '}
+                <span>{formatValue(change.after)}</span>
+              </>
+            ) : (
+              <span>{formatValue(change.type === 'added' ? change.after : change.before)}</span>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
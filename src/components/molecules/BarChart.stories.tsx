@@ -0,0 +1,37 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { BarChart } from './BarChart'
+
+const meta = {
+  title: 'Shared/BarChart',
+  component: BarChart,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+} satisfies Meta<typeof BarChart>
+
+export default meta
+type Story = StoryObj<typeof BarChart>
+
+export const Vertical: Story = {
+  args: {
+    data: [3, 7, 2, 0, 9, 12, 5].map((value, index) => ({ label: `Day ${index + 1}`, value })),
+    height: 120,
+    ariaLabel: 'Feedback per day',
+  },
+}
+
+export const Horizontal: Story = {
+  args: {
+    orientation: 'horizontal',
+    data: [
+      { label: 'ReputationUpdated', value: 42 },
+      { label: 'ValidationCompleted', value: 17 },
+      { label: 'AgentRegistered', value: 1 },
+    ],
+  },
+}
+
+export const Empty: Story = {
+  args: {
+    data: Array.from({ length: 24 }, (_, index) => ({ label: `${index}:00`, value: 0 })),
+  },
+}
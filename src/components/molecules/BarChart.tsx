@@ -0,0 +1,103 @@
+/**
+ * BarChart
+ *
+ * Minimal terminal-styled bar chart built from divs. Vertical bars suit
+ * time series (one bar per bucket); horizontal bars suit labelled
+ * breakdowns and show each label and value next to its bar.
+ *
+ * @module components/molecules/BarChart
+ *
+ * @example
+ * ```tsx
+ * <BarChart
+ *   data={[
+ *     { label: 'MON', value: 4 },
+ *     { label: 'TUE', value: 9 },
+ *   ]}
+ *   height={120}
+ * />
+ * ```
+ */
+
+import { cn } from '@/lib/utils'
+
+/** A single bar */
+export interface BarChartDatum {
+  label: string
+  value: number
+}
+
+/** Props for the BarChart component */
+interface BarChartProps {
+  data: BarChartDatum[]
+  /** Bar direction (vertical bars for time series) */
+  orientation?: 'vertical' | 'horizontal'
+  /** Plot height in pixels (vertical only) */
+  height?: number
+  /** Formats values in tooltips and horizontal labels */
+  formatValue?: (value: number) => string
+  /** Accessible chart description */
+  ariaLabel?: string
+  className?: string
+}
+
+/**
+ * Renders a bar chart scaled to the largest value.
+ */
+export function BarChart({
+  data,
+  orientation = 'vertical',
+  height = 120,
+  formatValue = (value) => value.toLocaleString(),
+  ariaLabel,
+  className,
+}: BarChartProps) {
+  const max = Math.max(0, ...data.map((datum) => datum.value))
+  const percent = (value: number) => (max > 0 ? (value / max) * 100 : 0)
+
+  if (orientation === 'horizontal') {
+    return (
+      <div role="img" aria-label={ariaLabel} className={cn('space-y-2 typo-ui', className)}>
+        {data.map((datum) => (
+          <div
+            key={datum.label}
+            className="grid grid-cols-[minmax(0,10rem)_1fr_auto] gap-3 items-center"
+          >
+            <span className="text-terminal-dim truncate" title={datum.label}>
+              {datum.label}
+            </span>
+            <div className="h-3 border border-terminal-dim/50">
+              <div
+                className="h-full bg-terminal-green/70"
+                style={{ width: `${percent(datum.value)}%` }}
+              />
+            </div>
+            <span className="text-terminal-green text-right">{formatValue(datum.value)}</span>
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      role="img"
+      aria-label={ariaLabel}
+      className={cn('flex items-end gap-px border-b-2 border-l-2 border-terminal-dim', className)}
+      style={{ height }}
+    >
+      {data.map((datum) => (
+        <div
+          key={datum.label}
+          title={`${datum.label}: ${formatValue(datum.value)}`}
+          className="flex-1 min-w-px h-full flex items-end hover:bg-terminal-green/10"
+        >
+          <div
+            className="w-full bg-terminal-green/70 hover:bg-terminal-green"
+            style={{ height: `${percent(datum.value)}%` }}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,63 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { ConditionTreeView } from './ConditionTreeView'
+
+const meta = {
+  title: 'Shared/ConditionTreeView',
+  component: ConditionTreeView,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+} satisfies Meta<typeof ConditionTreeView>
+
+export default meta
+type Story = StoryObj<typeof ConditionTreeView>
+
+export const Flat: Story = {
+  args: {
+    conditions: [
+      { field: 'event_type', operator: 'eq', value: 'ReputationUpdated' },
+      { field: 'reputation_score', operator: 'lt', value: '50' },
+    ],
+  },
+}
+
+export const WithGroups: Story = {
+  args: {
+    showType: true,
+    conditions: [
+      {
+        conditionType: 'event_filter',
+        field: 'event_type',
+        operator: 'eq',
+        value: 'ReputationUpdated',
+      },
+      {
+        logic: 'or',
+        conditions: [
+          {
+            conditionType: 'reputation_threshold',
+            field: 'reputation_score',
+            operator: 'lt',
+            value: '50',
+          },
+          {
+            logic: 'not',
+            conditions: [
+              {
+                conditionType: 'agent_filter',
+                field: 'agent_address',
+                operator: 'in',
+                value: '0x1234..., 0x5678...',
+              },
+            ],
+          },
+        ],
+      },
+    ],
+  },
+}
+
+export const Empty: Story = {
+  args: {
+    conditions: [],
+  },
+}
@@ -0,0 +1,120 @@
+/**
+ * ConditionTreeView
+ *
+ * Read-only rendering of a trigger condition tree. Top-level nodes are
+ * combined with AND; nested AND/OR/NOT groups are indented with their
+ * logic label so the structure reads top to bottom.
+ *
+ * @module components/molecules/ConditionTreeView
+ *
+ * @example
+ * ```tsx
+ * <ConditionTreeView
+ *   conditions={[
+ *     { field: 'event_type', operator: 'eq', value: 'ReputationUpdated' },
+ *     {
+ *       logic: 'or',
+ *       conditions: [
+ *         { field: 'reputation_score', operator: 'lt', value: '50' },
+ *         { field: 'agent_id', operator: 'in', value: '1,2,3' },
+ *       ],
+ *     },
+ *   ]}
+ * />
+ * ```
+ */
+
+import {
+  CONDITION_GROUP_LOGIC_LABELS,
+  type ConditionNodeLike,
+  isConditionGroup,
+} from '@/lib/condition-tree'
+import { getOperatorLabel } from '@/lib/config-helpers'
+import { sanitizeHtml } from '@/lib/sanitize'
+import { cn } from '@/lib/utils'
+
+/** Leaf fields rendered by the view */
+interface ConditionLeaf {
+  conditionType?: string
+  field?: string
+  operator?: string
+  value?: string
+}
+
+/** Props for the ConditionTreeView component */
+interface ConditionTreeViewProps {
+  /** Top-level condition nodes */
+  conditions: Array<ConditionNodeLike<ConditionLeaf>>
+  /** Show the condition type next to each condition */
+  showType?: boolean
+  /** Message shown when there are no conditions */
+  emptyMessage?: string
+  className?: string
+}
+
+function ConditionNodeView({
+  node,
+  label,
+  showType,
+}: {
+  node: ConditionNodeLike<ConditionLeaf>
+  label: string
+  showType: boolean
+}) {
+  if (isConditionGroup(node)) {
+    return (
+      <div data-slot="condition-group" className="space-y-1">
+        <div className="typo-ui text-terminal-dim">
+          [{label}]{' '}
+          <span className="text-terminal-green">{CONDITION_GROUP_LOGIC_LABELS[node.logic]}</span>
+        </div>
+        <div className="ml-3 pl-3 border-l-2 border-terminal-dim space-y-1">
+          {node.conditions.map((child, index) => (
+            <ConditionNodeView
+              // biome-ignore lint/suspicious/noArrayIndexKey: conditions have no stable identity in form state
+              key={index}
+              node={child}
+              label={`${label}.${index + 1}`}
+              showType={showType}
+            />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div data-slot="condition-leaf" className="typo-ui text-terminal-dim">
+      [{label}]{' '}
+      {showType && node.conditionType && (
+        <span className="text-terminal-dim">{sanitizeHtml(node.conditionType)}: </span>
+      )}
+      <span className="text-terminal-green">{sanitizeHtml(node.field ?? '')}</span>{' '}
+      <span title={getOperatorLabel(node.operator ?? '')}>{sanitizeHtml(node.operator ?? '')}</span>{' '}
+      <span className="text-terminal-green">{sanitizeHtml(node.value ?? '')}</span>
+    </div>
+  )
+}
+
+export function ConditionTreeView({
+  conditions,
+  showType = false,
+  emptyMessage = 'No conditions defined',
+  className,
+}: ConditionTreeViewProps) {
+  if (conditions.length === 0) {
+    return <div className={cn('typo-ui text-terminal-dim', className)}>{emptyMessage}</div>
+  }
+
+  return (
+    <div data-slot="condition-tree" className={cn('space-y-1', className)}>
+      {conditions.map((node, index) => (
+        // biome-ignore lint/suspicious/noArrayIndexKey: conditions have no stable identity in form state
+        <div key={index}>
+          {index > 0 && <div className="typo-ui text-terminal-dim/70">AND</div>}
+          <ConditionNodeView node={node} label={String(index + 1)} showType={showType} />
+        </div>
+      ))}
+    </div>
+  )
+}
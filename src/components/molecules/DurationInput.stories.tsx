@@ -0,0 +1,41 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { useState } from 'react'
+import { DurationInput } from './DurationInput'
+
+const meta = {
+  title: 'Shared/DurationInput',
+  component: DurationInput,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+} satisfies Meta<typeof DurationInput>
+
+export default meta
+type Story = StoryObj<typeof DurationInput>
+
+function InteractiveDurationInput({
+  initial,
+  allowEmpty,
+}: {
+  initial: number | null
+  allowEmpty?: boolean
+}) {
+  const [value, setValue] = useState<number | null>(initial)
+  return (
+    <div className="space-y-2 max-w-md">
+      <DurationInput value={value} onChange={setValue} allowEmpty={allowEmpty} />
+      <div className="typo-ui text-terminal-dim">Seconds: {value ?? 'null'}</div>
+    </div>
+  )
+}
+
+export const Hours: Story = {
+  render: () => <InteractiveDurationInput initial={86400 / 4} />,
+}
+
+export const Days: Story = {
+  render: () => <InteractiveDurationInput initial={7 * 86400} />,
+}
+
+export const Empty: Story = {
+  render: () => <InteractiveDurationInput initial={null} allowEmpty />,
+}
@@ -0,0 +1,104 @@
+/**
+ * DurationInput
+ *
+ * Number input with a unit select (minutes, hours, days) for durations
+ * stored in seconds, such as trigger time windows and cooldowns.
+ *
+ * @module components/molecules/DurationInput
+ *
+ * @example
+ * ```tsx
+ * <DurationInput value={windowSeconds} onChange={setWindowSeconds} allowEmpty />
+ * ```
+ */
+
+'use client'
+
+import { useState } from 'react'
+import { Input } from '@/components/atoms/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { DURATION_UNITS, type DurationUnit, splitDuration, toSeconds } from '@/lib/trigger-state'
+import { cn } from '@/lib/utils'
+
+/** Props for the DurationInput component */
+interface DurationInputProps {
+  /** Duration in seconds (null when empty) */
+  value: number | null | undefined
+  /** Called with the new duration in seconds (null when cleared and `allowEmpty`) */
+  onChange: (seconds: number | null) => void
+  /** Id for the amount input */
+  id?: string
+  /** Whether clearing the input yields null instead of 0 */
+  allowEmpty?: boolean
+  placeholder?: string
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Renders an amount input and a unit select for a duration in seconds.
+ */
+export function DurationInput({
+  value,
+  onChange,
+  id,
+  allowEmpty = false,
+  placeholder = 'e.g., 24',
+  disabled = false,
+  className,
+}: DurationInputProps) {
+  const [unit, setUnit] = useState<DurationUnit>(() =>
+    value ? splitDuration(value).unit : 'hours'
+  )
+  const unitSeconds = DURATION_UNITS.find((candidate) => candidate.value === unit)?.seconds ?? 1
+  const amount = value === null || value === undefined ? '' : String(value / unitSeconds)
+
+  const handleAmountChange = (raw: string) => {
+    if (raw === '') {
+      onChange(allowEmpty ? null : 0)
+      return
+    }
+    const parsed = Number(raw)
+    if (Number.isFinite(parsed) && parsed >= 0) onChange(toSeconds(parsed, unit))
+  }
+
+  const handleUnitChange = (next: string) => {
+    const nextUnit = next as DurationUnit
+    setUnit(nextUnit)
+    if (amount !== '') onChange(toSeconds(Number(amount), nextUnit))
+  }
+
+  return (
+    <div className={cn('flex gap-2', className)} data-slot="duration-input">
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step="any"
+        placeholder={placeholder}
+        value={amount}
+        onChange={(e) => handleAmountChange(e.target.value)}
+        disabled={disabled}
+        className="typo-ui flex-1"
+      />
+      <Select value={unit} onValueChange={handleUnitChange} disabled={disabled}>
+        <SelectTrigger className="typo-ui w-32" aria-label="Duration unit">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {DURATION_UNITS.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="typo-ui">
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { LineChart } from './LineChart'
+
+const meta = {
+  title: 'Shared/LineChart',
+  component: LineChart,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+} satisfies Meta<typeof LineChart>
+
+export default meta
+type Story = StoryObj<typeof LineChart>
+
+export const Default: Story = {
+  args: {
+    data: [72, 75, 74, 80, 85, 83, 90].map((value, index) => ({
+      label: `Jan ${index + 1}`,
+      value,
+    })),
+    ariaLabel: 'Reputation score',
+  },
+}
+
+export const SinglePoint: Story = {
+  args: {
+    data: [{ label: 'Jan 1', value: 85 }],
+  },
+}
+
+export const Percentages: Story = {
+  args: {
+    data: [0.4, 0.55, 0.5, 0.8].map((value, index) => ({ label: `Week ${index + 1}`, value })),
+    formatValue: (value: number) => `${Math.round(value * 100)}%`,
+    height: 100,
+  },
+}
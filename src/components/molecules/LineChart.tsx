@@ -0,0 +1,106 @@
+/**
+ * LineChart
+ *
+ * Minimal terminal-styled line chart drawn as an SVG polyline. Points are
+ * spread evenly along the x axis and scaled between the smallest and
+ * largest value, with each point shown as a square marker.
+ *
+ * @module components/molecules/LineChart
+ *
+ * @example
+ * ```tsx
+ * <LineChart
+ *   data={[
+ *     { label: 'Jan 1', value: 72 },
+ *     { label: 'Jan 2', value: 85 },
+ *   ]}
+ *   height={160}
+ * />
+ * ```
+ */
+
+import { cn } from '@/lib/utils'
+
+/** A single point */
+export interface LineChartDatum {
+  label: string
+  value: number
+}
+
+/** Props for the LineChart component */
+interface LineChartProps {
+  data: LineChartDatum[]
+  /** Plot height in pixels */
+  height?: number
+  /** Formats values in tooltips and axis labels */
+  formatValue?: (value: number) => string
+  /** Accessible chart description */
+  ariaLabel?: string
+  className?: string
+}
+
+/** Internal SVG coordinate width (the chart scales to its container) */
+const VIEW_WIDTH = 1000
+/** Vertical padding so markers at the extremes are not clipped */
+const PADDING = 8
+
+/**
+ * Renders a line chart with min/max axis labels.
+ */
+export function LineChart({
+  data,
+  height = 160,
+  formatValue = (value) => value.toLocaleString(),
+  ariaLabel,
+  className,
+}: LineChartProps) {
+  const values = data.map((datum) => datum.value)
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const span = max - min || 1
+
+  const points = data.map((datum, index) => ({
+    ...datum,
+    x: data.length > 1 ? (index / (data.length - 1)) * VIEW_WIDTH : VIEW_WIDTH / 2,
+    y: PADDING + (1 - (datum.value - min) / span) * (height - PADDING * 2),
+  }))
+
+  return (
+    <div className={cn('flex gap-2', className)}>
+      {data.length > 0 && (
+        <div className="typo-ui text-terminal-dim flex flex-col justify-between text-right">
+          <span>{formatValue(max)}</span>
+          <span>{formatValue(min)}</span>
+        </div>
+      )}
+      <svg
+        role="img"
+        aria-label={ariaLabel}
+        viewBox={`0 0 ${VIEW_WIDTH} ${height}`}
+        preserveAspectRatio="none"
+        className="flex-1 border-b-2 border-l-2 border-terminal-dim text-terminal-green"
+        style={{ height }}
+      >
+        <polyline
+          points={points.map((point) => `${point.x},${point.y}`).join(' ')}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.map((point) => (
+          <rect
+            key={`${point.label}-${point.x}`}
+            x={point.x - 3}
+            y={point.y - 3}
+            width={6}
+            height={6}
+            fill="currentColor"
+          >
+            <title>{`${point.label}: ${formatValue(point.value)}`}</title>
+          </rect>
+        ))}
+      </svg>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { Button } from '@/components/atoms/button'
+import { getPermissionDeniedReason } from '@/lib/permissions'
+import { PermissionTooltip } from './PermissionTooltip'
+
+const meta: Meta<typeof PermissionTooltip> = {
+  title: 'Molecules/PermissionTooltip',
+  component: PermissionTooltip,
+  parameters: {
+    layout: 'centered',
+  },
+  tags: ['autodocs'],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Denied: Story = {
+  args: {
+    reason: getPermissionDeniedReason('viewer', 'create', 'trigger'),
+    children: (
+      <Button disabled className="typo-ui">
+        [+ NEW TRIGGER]
+      </Button>
+    ),
+  },
+}
+
+export const DeniedDestructive: Story = {
+  args: {
+    reason: getPermissionDeniedReason('member', 'delete', 'member'),
+    children: (
+      <Button variant="destructive" size="sm" disabled className="typo-ui">
+        [REMOVE]
+      </Button>
+    ),
+  },
+}
+
+export const Allowed: Story = {
+  args: {
+    reason: null,
+    children: <Button className="typo-ui">[+ NEW TRIGGER]</Button>,
+  },
+}
@@ -0,0 +1,57 @@
+/**
+ * PermissionTooltip
+ *
+ * Explains why a control is disabled for the user's role. Wraps the
+ * control in an element that receives hover, since disabled buttons
+ * don't; renders the control as-is when there is no reason.
+ *
+ * @module components/molecules/PermissionTooltip
+ *
+ * @example
+ * ```tsx
+ * const { allowed, reason } = usePermission('delete', 'api_key')
+ *
+ * <PermissionTooltip reason={reason}>
+ *   <Button disabled={!allowed}>[DELETE]</Button>
+ * </PermissionTooltip>
+ * ```
+ */
+
+'use client'
+
+import type { ReactNode } from 'react'
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/atoms/tooltip'
+import { cn } from '@/lib/utils'
+
+/** Props for the PermissionTooltip component */
+interface PermissionTooltipProps {
+  /** Why the control is disabled; null when it's allowed */
+  reason: string | null
+  /** The gated control */
+  children: ReactNode
+  /** Additional CSS classes for the wrapper */
+  className?: string
+}
+
+/**
+ * Renders a denied control with a tooltip explaining the missing permission.
+ */
+export function PermissionTooltip({ reason, children, className }: PermissionTooltipProps) {
+  if (!reason) return <>{children}</>
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span
+          data-slot="permission-tooltip"
+          className={cn('inline-flex cursor-not-allowed', className)}
+        >
+          {children}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs border-2 border-terminal-dim bg-terminal text-terminal-green">
+        {reason}
+      </TooltipContent>
+    </Tooltip>
+  )
+}
@@ -0,0 +1,39 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { TransactionStatus } from './TransactionStatus'
+
+const HASH = `0x${'ab'.repeat(32)}` as const
+
+const meta = {
+  title: 'Shared/TransactionStatus',
+  component: TransactionStatus,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+} satisfies Meta<typeof TransactionStatus>
+
+export default meta
+type Story = StoryObj<typeof TransactionStatus>
+
+export const Pending: Story = {
+  args: { chainId: 11155111, hash: HASH, status: 'pending' },
+}
+
+export const Indexing: Story = {
+  args: { chainId: 11155111, hash: HASH, status: 'confirmed' },
+}
+
+export const Indexed: Story = {
+  args: {
+    chainId: 11155111,
+    hash: HASH,
+    status: 'confirmed',
+    eventId: '550e8400-e29b-41d4-a716-446655440000',
+  },
+}
+
+export const Failed: Story = {
+  args: { chainId: 11155111, hash: HASH, status: 'failed' },
+}
+
+export const UnknownExplorer: Story = {
+  args: { chainId: 31337, hash: HASH, status: 'confirmed', eventId: null },
+}
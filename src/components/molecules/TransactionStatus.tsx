@@ -0,0 +1,107 @@
+/**
+ * TransactionStatus
+ *
+ * Progress of a registry transaction sent from the connected wallet: the
+ * transaction hash with a block explorer link, then a link to the resulting
+ * event once the indexer has picked it up.
+ *
+ * @module components/molecules/TransactionStatus
+ *
+ * @example
+ * ```tsx
+ * <TransactionStatus
+ *   chainId={11155111}
+ *   hash="0xabc..."
+ *   status="confirmed"
+ *   eventId={indexedEvent?.id}
+ * />
+ * ```
+ */
+
+import Link from 'next/link'
+import type { Hash } from 'viem'
+import { Icon } from '@/components/atoms/icon'
+import { formatTxHash } from '@/lib/format'
+import { getTransactionUrl } from '@/lib/onchain'
+import { cn } from '@/lib/utils'
+
+/** Props for the TransactionStatus component */
+interface TransactionStatusProps {
+  /** Chain the transaction was sent on */
+  chainId: number
+  /** Transaction hash */
+  hash: Hash
+  /** Receipt status of the transaction */
+  status: 'pending' | 'confirmed' | 'failed'
+  /** ID of the indexed event, null or undefined while indexing */
+  eventId?: string | null
+  className?: string
+}
+
+/**
+ * Renders the transaction hash, confirmation state and indexed event link.
+ */
+export function TransactionStatus({
+  chainId,
+  hash,
+  status,
+  eventId,
+  className,
+}: TransactionStatusProps) {
+  const explorerUrl = getTransactionUrl(chainId, hash)
+
+  return (
+    <div
+      data-slot="transaction-status"
+      className={cn('rounded border-2 border-terminal-dim p-3 space-y-2 typo-ui', className)}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-terminal-dim">&gt; TRANSACTION</span>
+        {explorerUrl ? (
+          <a
+            href={explorerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-terminal-green font-mono hover:underline"
+          >
+            {formatTxHash(hash)}
+          </a>
+        ) : (
+          <span className="text-terminal-green font-mono">{formatTxHash(hash)}</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        {status === 'pending' && (
+          <span className="text-yellow-500 animate-pulse">[PENDING CONFIRMATION...]</span>
+        )}
+        {status === 'confirmed' && (
+          <span className="text-terminal-green flex items-center gap-2">
+            <Icon name="check" size="sm" />
+            CONFIRMED
+          </span>
+        )}
+        {status === 'failed' && (
+          <span className="text-destructive flex items-center gap-2">
+            <Icon name="warning" size="sm" />
+            FAILED
+          </span>
+        )}
+      </div>
+
+      {status === 'confirmed' &&
+        (eventId ? (
+          <Link
+            href={`/dashboard/events/${eventId}`}
+            className="text-terminal-green hover:underline inline-block"
+          >
+            [VIEW EVENT]
+          </Link>
+        ) : (
+          <span className="text-terminal-dim animate-pulse inline-block">
+            WAITING FOR INDEXER...
+          </span>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { WagmiProvider } from 'wagmi'
+import { wagmiConfig } from '@/lib/wagmi-config'
+import { WalletConnectionPanel } from './WalletConnectionPanel'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const meta = {
+  title: 'Shared/WalletConnectionPanel',
+  component: WalletConnectionPanel,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <WagmiProvider config={wagmiConfig}>
+        <QueryClientProvider client={queryClient}>
+          <Story />
+        </QueryClientProvider>
+      </WagmiProvider>
+    ),
+  ],
+} satisfies Meta<typeof WalletConnectionPanel>
+
+export default meta
+type Story = StoryObj<typeof WalletConnectionPanel>
+
+/** Disconnected: lists the configured wallet connectors */
+export const Disconnected: Story = {
+  args: { chainId: 11155111 },
+}
@@ -0,0 +1,80 @@
+/**
+ * WalletConnectionPanel
+ *
+ * Wallet step of an on-chain action: lists the wallet connectors while
+ * disconnected, and once connected shows the account, whether the wallet
+ * will be switched to the target chain, and whether the account is one of
+ * the wallets the user signed in with.
+ *
+ * @module components/molecules/WalletConnectionPanel
+ *
+ * @example
+ * ```tsx
+ * <WalletConnectionPanel chainId={agent.chainId} />
+ * ```
+ */
+
+'use client'
+
+import { useAccount, useDisconnect } from 'wagmi'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import { useSession } from '@/hooks'
+import { CHAIN_NAMES } from '@/lib/constants'
+import { formatAddress } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import { WalletOptions } from './WalletOptions'
+
+/** Props for the WalletConnectionPanel component */
+interface WalletConnectionPanelProps {
+  /** Chain the transaction will be sent on */
+  chainId: number
+  className?: string
+}
+
+/**
+ * Renders wallet connectors or the connected account with chain and
+ * session checks.
+ */
+export function WalletConnectionPanel({ chainId, className }: WalletConnectionPanelProps) {
+  const { address, chainId: walletChainId, isConnected } = useAccount()
+  const { disconnect } = useDisconnect()
+  const { data: session } = useSession()
+
+  if (!isConnected || !address) {
+    return <WalletOptions className={className} />
+  }
+
+  const chainName = CHAIN_NAMES[chainId] ?? `Chain ${chainId}`
+  const isSessionWallet = session?.wallets.some(
+    (wallet) => wallet.address.toLowerCase() === address.toLowerCase()
+  )
+
+  return (
+    <div data-slot="wallet-connection-panel" className={cn('space-y-2', className)}>
+      <div className="rounded border-2 border-terminal-dim p-3">
+        <div className="flex items-center justify-between gap-2">
+          <p className="typo-ui text-terminal-dim">&gt; CONNECTED AS</p>
+          <Button variant="outline" size="sm" className="typo-ui" onClick={() => disconnect()}>
+            [DISCONNECT]
+          </Button>
+        </div>
+        <p className="typo-ui text-terminal-green font-mono">{formatAddress(address)}</p>
+      </div>
+
+      {walletChainId !== chainId && (
+        <p className="typo-ui text-yellow-500 text-sm flex items-center gap-2">
+          <Icon name="info" size="sm" />
+          Your wallet will be switched to {chainName} before sending.
+        </p>
+      )}
+
+      {session && !isSessionWallet && (
+        <p className="typo-ui text-terminal-dim text-sm flex items-center gap-2">
+          <Icon name="warning" size="sm" />
+          This wallet is not one you signed in with. The transaction is sent from it anyway.
+        </p>
+      )}
+    </div>
+  )
+}
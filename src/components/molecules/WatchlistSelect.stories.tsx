@@ -0,0 +1,87 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { useState } from 'react'
+import { WatchlistSelect } from './WatchlistSelect'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const mockWatchlists = [
+  {
+    id: '550e8400-e29b-41d4-a716-446655440010',
+    organizationId: '550e8400-e29b-41d4-a716-446655440000',
+    name: 'Production fleet',
+    description: 'Agents serving customer traffic',
+    agents: [
+      { agentId: 42, chainId: 11155111 },
+      { agentId: 43, chainId: 11155111 },
+      { agentId: 7, chainId: 84532 },
+    ],
+    createdAt: '2026-01-15T10:00:00Z',
+    updatedAt: '2026-01-15T10:00:00Z',
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440011',
+    organizationId: '550e8400-e29b-41d4-a716-446655440000',
+    name: 'Competitors',
+    description: null,
+    agents: [{ agentId: 101, chainId: 11155111 }],
+    createdAt: '2026-01-16T10:00:00Z',
+    updatedAt: '2026-01-16T10:00:00Z',
+  },
+]
+
+const meta = {
+  title: 'Shared/WatchlistSelect',
+  component: WatchlistSelect,
+  parameters: { layout: 'padded' },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="max-w-sm">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+} satisfies Meta<typeof WatchlistSelect>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+/** Watchlists of the current organization with their agent counts */
+export const Default: Story = {
+  args: { value: null, onChange: () => {} },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/organizations/:orgId/watchlists', () =>
+          HttpResponse.json({ data: mockWatchlists })
+        ),
+      ],
+    },
+  },
+  render: function Render(args) {
+    const [value, setValue] = useState<string | null>(args.value)
+    return <WatchlistSelect {...args} value={value} onChange={setValue} />
+  },
+}
+
+/** Organization without watchlists: links to the watchlists page */
+export const NoWatchlists: Story = {
+  args: { value: null, onChange: () => {} },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/organizations/:orgId/watchlists', () => HttpResponse.json({ data: [] })),
+      ],
+    },
+  },
+}
@@ -0,0 +1,78 @@
+/**
+ * WatchlistSelect
+ *
+ * Select for one of the current organization's watchlists. Used as a
+ * condition value (`watchlist:<id>`) and as an events filter.
+ *
+ * @module components/molecules/WatchlistSelect
+ *
+ * @example
+ * ```tsx
+ * <WatchlistSelect
+ *   value={parseWatchlistReference(condition.value)}
+ *   onChange={(id) => onChange({ ...condition, value: toWatchlistReference(id) })}
+ * />
+ * ```
+ */
+'use client'
+
+import Link from 'next/link'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { useWatchlists } from '@/hooks'
+
+/** Props for the WatchlistSelect component */
+interface WatchlistSelectProps {
+  /** Selected watchlist ID */
+  value: string | null
+  /** Called with the selected watchlist ID */
+  onChange: (watchlistId: string) => void
+  id?: string
+  placeholder?: string
+  className?: string
+}
+
+/**
+ * Renders the watchlist options with their agent counts, or a link to
+ * create one when the organization has none.
+ */
+export function WatchlistSelect({
+  value,
+  onChange,
+  id,
+  placeholder = 'Select watchlist...',
+  className,
+}: WatchlistSelectProps) {
+  const { data: watchlists, isLoading } = useWatchlists()
+
+  if (!isLoading && watchlists?.length === 0) {
+    return (
+      <div className="typo-ui text-terminal-dim">
+        No watchlists yet.{' '}
+        <Link href="/dashboard/watchlists" className="text-terminal-green hover:underline">
+          [CREATE WATCHLIST]
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <Select value={value ?? ''} onValueChange={onChange} disabled={isLoading}>
+      <SelectTrigger id={id} className={className ?? 'typo-ui'}>
+        <SelectValue placeholder={isLoading ? 'Loading watchlists...' : placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {watchlists?.map((watchlist) => (
+          <SelectItem key={watchlist.id} value={watchlist.id} className="typo-ui">
+            {watchlist.name} ({watchlist.agents.length})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -4,6 +4,8 @@
 export { ArrayFieldBuilder, FormArrayFieldBuilder } from './ArrayFieldBuilder'
 export { FormStepIndicator } from './FormStepIndicator'
 export { SearchInput } from './SearchInput'
+export { DurationInput } from './DurationInput'
+export { WatchlistSelect } from './WatchlistSelect'
 
 // Display molecules
 export { InfoCard, InfoCardItem, InfoCardList } from './InfoCard'
@@ -12,6 +14,11 @@ export { AlertBanner } from './AlertBanner'
 export { CodeBlock } from './CodeBlock'
 export { EmptyState } from './EmptyState'
 export { ApiErrorDisplay } from './ApiErrorDisplay'
+export { ConditionTreeView } from './ConditionTreeView'
+export { BarChart } from './BarChart'
+export { LineChart } from './LineChart'
+export { AgentCardDiff } from './AgentCardDiff'
+export { TransactionStatus } from './TransactionStatus'
 
 // Filter molecules
 export { FilterBar } from './FilterBar'
@@ -21,6 +28,7 @@ export { LoadingSkeleton, PageSkeleton, CardSkeleton, TableSkeleton, FormSkeleto
 
 // Interactive molecules
 export { ConfirmDialog } from './ConfirmDialog'
+export { PermissionTooltip } from './PermissionTooltip'
 export { Pagination } from './Pagination'
 
 // Badge molecules (specialized badges with icons)
@@ -40,6 +48,7 @@ export { WarpNavMenu } from './WarpNavMenu'
 
 // Auth molecules
 export { WalletOptions } from './WalletOptions'
+export { WalletConnectionPanel } from './WalletConnectionPanel'
 export { OAuthButtons } from './OAuthButtons'
 
 // Organization molecules
@@ -1,8 +1,17 @@
 import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { useState } from 'react'
 import { ActionBuilder } from './ActionBuilder'
 import type { TriggerAction } from '@/lib/validations/trigger'
 
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
 const meta = {
   title: 'Triggers/ActionBuilder',
   component: ActionBuilder,
@@ -11,15 +20,17 @@ const meta = {
     docs: {
       description: {
         component:
-          'Builder component for creating trigger actions. Supports multiple action types (Telegram, REST API, MCP) with validation and template variables.',
+          'Builder component for creating trigger actions. Supports multiple action types (Telegram, REST API, MCP, email, Slack, Discord) with validation, templates and a live preview.',
       },
     },
   },
   decorators: [
     (Story) => (
-      <div className="max-w-2xl">
-        <Story />
-      </div>
+      <QueryClientProvider client={queryClient}>
+        <div className="max-w-2xl">
+          <Story />
+        </div>
+      </QueryClientProvider>
     ),
   ],
   tags: ['autodocs'],
@@ -133,6 +144,95 @@ export const McpAction: Story = {
   },
 }
 
+/**
+ * Email action.
+ * Sends a templated email to one or more recipients.
+ */
+export const EmailAction: Story = {
+  args: {
+    action: {
+      tempId: 'action-email',
+      actionType: 'email',
+      priority: 0,
+      config: {
+        to: ['ops@example.com', 'alerts@example.com'],
+        subject: '[8004] {{eventType}} for agent {{agentId}}',
+        body: 'Trigger {{triggerName}} fired on block {{blockNumber}}.\nTx: {{transactionHash}}',
+      },
+    },
+    onChange: () => {},
+    onRemove: () => {},
+    canRemove: true,
+  },
+}
+
+/**
+ * Slack action.
+ * Posts a message to a Slack incoming webhook.
+ */
+export const SlackAction: Story = {
+  args: {
+    action: {
+      tempId: 'action-slack',
+      actionType: 'slack',
+      priority: 0,
+      config: {
+        webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX',
+        channel: '#agent-alerts',
+        message: ':rotating_light: *{{eventType}}* on agent {{agentId}} (score {{reputationScore}})',
+      },
+    },
+    onChange: () => {},
+    onRemove: () => {},
+    canRemove: true,
+  },
+}
+
+/**
+ * Discord action.
+ * Posts a message to a Discord webhook.
+ */
+export const DiscordAction: Story = {
+  args: {
+    action: {
+      tempId: 'action-discord',
+      actionType: 'discord',
+      priority: 0,
+      config: {
+        webhookUrl: 'https://discord.com/api/webhooks/123456789/abcdef',
+        username: '8004 Alerts',
+        content: '**{{eventType}}** on agent {{agentId}}',
+      },
+    },
+    onChange: () => {},
+    onRemove: () => {},
+    canRemove: true,
+  },
+}
+
+/**
+ * Templates with payload paths, filters and conditionals.
+ * The live preview renders them against a sample reputation event.
+ */
+export const TemplateFilters: Story = {
+  args: {
+    action: {
+      tempId: 'action-template',
+      actionType: 'slack',
+      priority: 0,
+      config: {
+        webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX',
+        message:
+          '*{{eventType}}* on {{chainId | chainName}}\nScore: {{data.score | number}} from {{data.clientAddress | formatAddress}}\n{{#if data.note}}{{data.note | truncate(40)}}{{else}}No note{{/if}}',
+      },
+    },
+    onChange: () => {},
+    onRemove: () => {},
+    canRemove: true,
+    previewContext: { registry: 'reputation', triggerName: 'Reputation Watch' },
+  },
+}
+
 /**
  * High priority action.
  * Shows action with priority 100 (executes first).
@@ -2,7 +2,9 @@
  * ActionBuilder
  *
  * A form component for building trigger actions with type-specific configuration.
- * Supports Telegram, REST API, and MCP action types with validation and sanitization.
+ * Supports Telegram, REST API, MCP, email, Slack and Discord action types with
+ * validation and sanitization. Message templates are rendered in a live
+ * preview against a sample or recent event (see `lib/template-engine`).
  *
  * @module components/organisms/ActionBuilder
  *
@@ -13,6 +15,7 @@
  *   onChange={(updated) => console.log(updated)}
  *   onRemove={() => console.log('Remove action')}
  *   canRemove={true}
+ *   previewContext={{ chainId: 11155111, registry: 'reputation', triggerName: 'Alerts' }}
  * />
  * ```
  */
@@ -25,15 +28,34 @@ import { Input } from '@/components/atoms/input'
 import { Label } from '@/components/atoms/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/atoms/select'
 import { Textarea } from '@/components/atoms/textarea'
-import { ACTION_TYPES, type ActionType } from '@/lib/constants'
+import { ACTION_TYPES, type ActionType, type Registry } from '@/lib/constants'
 import {
   isValidJson,
   sanitizeJson,
   sanitizeWebhookUrl,
   validateTemplateVariables,
 } from '@/lib/sanitize'
+import { getTemplateFormat } from '@/lib/template-engine'
 import { cn } from '@/lib/utils'
-import type { TriggerAction } from '@/lib/validations/trigger'
+import {
+  discordActionConfigSchema,
+  slackActionConfigSchema,
+  type TriggerAction,
+} from '@/lib/validations/trigger'
+import { TemplatePreview } from './TemplatePreview'
+
+/** Templated config fields of each action type, with preview labels */
+const ACTION_TEMPLATE_FIELDS: Record<ActionType, ReadonlyArray<{ key: string; label: string }>> = {
+  telegram: [{ key: 'message', label: 'MESSAGE' }],
+  rest: [{ key: 'body', label: 'BODY' }],
+  mcp: [{ key: 'parameters', label: 'PARAMETERS' }],
+  email: [
+    { key: 'subject', label: 'SUBJECT' },
+    { key: 'body', label: 'BODY' },
+  ],
+  slack: [{ key: 'message', label: 'MESSAGE' }],
+  discord: [{ key: 'content', label: 'MESSAGE' }],
+}
 
 /**
  * Props for the ActionBuilder component.
@@ -47,13 +69,22 @@ interface ActionBuilderProps {
   onRemove: () => void
   /** Whether the remove button should be enabled */
   canRemove: boolean
+  /** Trigger settings used to pick events for the template preview */
+  previewContext?: { chainId?: number; registry?: Registry; triggerName?: string }
 }
 
-export function ActionBuilder({ action, onChange, onRemove, canRemove }: ActionBuilderProps) {
+export function ActionBuilder({
+  action,
+  onChange,
+  onRemove,
+  canRemove,
+  previewContext,
+}: ActionBuilderProps) {
   const actionType = action.actionType
   const [jsonErrors, setJsonErrors] = useState<Record<string, string>>({})
   const [urlError, setUrlError] = useState<string>('')
-  const [templateError, setTemplateError] = useState<string>('')
+  const [templateErrors, setTemplateErrors] = useState<Record<string, string>>({})
+  const [webhookError, setWebhookError] = useState<string>('')
 
   const updateConfig = (key: string, value: unknown) => {
     onChange({
@@ -121,20 +152,50 @@ export function ActionBuilder({ action, onChange, onRemove, canRemove }: ActionB
   const handleTemplateChange = (key: string, value: string) => {
     updateConfig(key, value)
 
+    const validation = validateTemplateVariables(value)
+    if (value.trim() && !validation.isValid) {
+      setTemplateErrors((prev) => ({ ...prev, [key]: validation.errors.join(' · ') }))
+    } else {
+      setTemplateErrors((prev) => {
+        const newErrors = { ...prev }
+        delete newErrors[key]
+        return newErrors
+      })
+    }
+  }
+
+  const handleWebhookChange = (
+    schema: typeof slackActionConfigSchema.shape.webhookUrl,
+    value: string
+  ) => {
+    updateConfig('webhookUrl', value)
+
     if (value.trim()) {
-      const validation = validateTemplateVariables(value)
-      if (!validation.isValid) {
-        setTemplateError(
-          `Invalid template variables: ${validation.invalidVars.join(', ')}`
-        )
-      } else {
-        setTemplateError('')
-      }
+      const result = schema.safeParse(value)
+      setWebhookError(result.success ? '' : (result.error.issues[0]?.message ?? 'Invalid URL'))
     } else {
-      setTemplateError('')
+      setWebhookError('')
     }
   }
 
+  const getRecipients = (): string => {
+    const value = action.config?.to
+    return Array.isArray(value) ? value.join(', ') : getConfigValue('to')
+  }
+
+  const handleRecipientsChange = (value: string) => {
+    updateConfig(
+      'to',
+      value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    )
+  }
+
+  const renderTemplateError = (key: string) =>
+    templateErrors[key] && <p className="typo-ui text-destructive">{templateErrors[key]}</p>
+
   return (
     <Box variant="secondary" padding="md" className="space-y-4">
       <div className="flex items-center justify-between mb-2">
@@ -158,7 +219,11 @@ export function ActionBuilder({ action, onChange, onRemove, canRemove }: ActionB
           </Label>
           <Select
             value={actionType ?? ''}
-            onValueChange={(value) => onChange({ ...action, actionType: value as ActionType, config: {} })}
+            onValueChange={(value) => {
+              setTemplateErrors({})
+              setWebhookError('')
+              onChange({ ...action, actionType: value as ActionType, config: {} })
+            }}
           >
             <SelectTrigger id={`action-type-${action.tempId}`} className="typo-ui">
               <SelectValue placeholder="Select type..." />
@@ -221,14 +286,12 @@ export function ActionBuilder({ action, onChange, onRemove, canRemove }: ActionB
               onChange={(e) => handleTemplateChange('message', e.target.value)}
               className={cn(
                 'typo-code',
-                templateError && 'border-destructive'
+                templateErrors.message && 'border-destructive'
               )}
               rows={3}
               maxLength={1000}
             />
-            {templateError && (
-              <p className="typo-ui text-destructive">{templateError}</p>
-            )}
+            {renderTemplateError('message')}
             <div className="typo-ui text-terminal-dim/80">
               Use {'{{'}{'}}'} for variables like agentId, eventType, etc.
             </div>
@@ -369,6 +432,204 @@ export function ActionBuilder({ action, onChange, onRemove, canRemove }: ActionB
         </div>
       )}
 
+      {actionType === 'email' && (
+        <div className="space-y-4 pt-2 border-t-2 border-terminal-dim">
+          <div className="typo-ui text-terminal-green">&gt; EMAIL CONFIG</div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-to-${action.tempId}`} className="typo-ui">
+              TO
+            </Label>
+            <Input
+              id={`action-to-${action.tempId}`}
+              type="text"
+              placeholder="ops@example.com, alerts@example.com"
+              value={getRecipients()}
+              onChange={(e) => handleRecipientsChange(e.target.value)}
+              className="typo-ui"
+            />
+            <div className="typo-ui text-terminal-dim/80">Up to 10 addresses, comma separated</div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-subject-${action.tempId}`} className="typo-ui">
+              SUBJECT TEMPLATE
+            </Label>
+            <Input
+              id={`action-subject-${action.tempId}`}
+              type="text"
+              placeholder="[8004] {{eventType}} for agent {{agentId}}"
+              value={getConfigValue('subject')}
+              onChange={(e) => handleTemplateChange('subject', e.target.value)}
+              className={cn('typo-ui', templateErrors.subject && 'border-destructive')}
+              maxLength={200}
+            />
+            {renderTemplateError('subject')}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-body-${action.tempId}`} className="typo-ui">
+              BODY TEMPLATE
+            </Label>
+            <Textarea
+              id={`action-body-${action.tempId}`}
+              placeholder="Trigger {{triggerName}} fired on block {{blockNumber}}"
+              value={getConfigValue('body')}
+              onChange={(e) => handleTemplateChange('body', e.target.value)}
+              className={cn('typo-code', templateErrors.body && 'border-destructive')}
+              rows={5}
+              maxLength={5000}
+            />
+            {renderTemplateError('body')}
+            <div className="typo-ui text-terminal-dim/80">
+              Use {'{{'}{'}}'} for variables like agentId, eventType, etc.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {actionType === 'slack' && (
+        <div className="space-y-4 pt-2 border-t-2 border-terminal-dim">
+          <div className="typo-ui text-terminal-green">&gt; SLACK CONFIG</div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-webhook-${action.tempId}`} className="typo-ui">
+              WEBHOOK URL
+            </Label>
+            <Input
+              id={`action-webhook-${action.tempId}`}
+              type="url"
+              placeholder="https://hooks.slack.com/services/T000/B000/XXXX"
+              value={getConfigValue('webhookUrl')}
+              onChange={(e) =>
+                handleWebhookChange(slackActionConfigSchema.shape.webhookUrl, e.target.value)
+              }
+              className={cn('typo-ui', webhookError && 'border-destructive')}
+            />
+            {webhookError && <p className="typo-ui text-destructive">{webhookError}</p>}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`action-channel-${action.tempId}`} className="typo-ui">
+                CHANNEL (OPTIONAL)
+              </Label>
+              <Input
+                id={`action-channel-${action.tempId}`}
+                type="text"
+                placeholder="#alerts"
+                value={getConfigValue('channel')}
+                onChange={(e) => updateConfig('channel', e.target.value || undefined)}
+                className="typo-ui"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`action-username-${action.tempId}`} className="typo-ui">
+                USERNAME (OPTIONAL)
+              </Label>
+              <Input
+                id={`action-username-${action.tempId}`}
+                type="text"
+                placeholder="8004 Alerts"
+                value={getConfigValue('username')}
+                onChange={(e) => updateConfig('username', e.target.value || undefined)}
+                className="typo-ui"
+                maxLength={80}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-message-${action.tempId}`} className="typo-ui">
+              MESSAGE TEMPLATE
+            </Label>
+            <Textarea
+              id={`action-message-${action.tempId}`}
+              placeholder=":rotating_light: {{eventType}} on agent {{agentId}}"
+              value={getConfigValue('message')}
+              onChange={(e) => handleTemplateChange('message', e.target.value)}
+              className={cn('typo-code', templateErrors.message && 'border-destructive')}
+              rows={3}
+              maxLength={3000}
+            />
+            {renderTemplateError('message')}
+            <div className="typo-ui text-terminal-dim/80">
+              Slack mrkdwn is supported. Use {'{{'}{'}}'} for variables
+            </div>
+          </div>
+        </div>
+      )}
+
+      {actionType === 'discord' && (
+        <div className="space-y-4 pt-2 border-t-2 border-terminal-dim">
+          <div className="typo-ui text-terminal-green">&gt; DISCORD CONFIG</div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-webhook-${action.tempId}`} className="typo-ui">
+              WEBHOOK URL
+            </Label>
+            <Input
+              id={`action-webhook-${action.tempId}`}
+              type="url"
+              placeholder="https://discord.com/api/webhooks/123/abc"
+              value={getConfigValue('webhookUrl')}
+              onChange={(e) =>
+                handleWebhookChange(discordActionConfigSchema.shape.webhookUrl, e.target.value)
+              }
+              className={cn('typo-ui', webhookError && 'border-destructive')}
+            />
+            {webhookError && <p className="typo-ui text-destructive">{webhookError}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-username-${action.tempId}`} className="typo-ui">
+              USERNAME (OPTIONAL)
+            </Label>
+            <Input
+              id={`action-username-${action.tempId}`}
+              type="text"
+              placeholder="8004 Alerts"
+              value={getConfigValue('username')}
+              onChange={(e) => updateConfig('username', e.target.value || undefined)}
+              className="typo-ui"
+              maxLength={80}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`action-content-${action.tempId}`} className="typo-ui">
+              MESSAGE TEMPLATE
+            </Label>
+            <Textarea
+              id={`action-content-${action.tempId}`}
+              placeholder="**{{eventType}}** on agent {{agentId}}"
+              value={getConfigValue('content')}
+              onChange={(e) => handleTemplateChange('content', e.target.value)}
+              className={cn('typo-code', templateErrors.content && 'border-destructive')}
+              rows={3}
+              maxLength={2000}
+            />
+            {renderTemplateError('content')}
+            <div className="typo-ui text-terminal-dim/80">
+              Discord markdown is supported. Use {'{{'}{'}}'} for variables
+            </div>
+          </div>
+        </div>
+      )}
+
+      {actionType && (
+        <TemplatePreview
+          templates={ACTION_TEMPLATE_FIELDS[actionType].map(({ key, label }) => ({
+            label,
+            template: getConfigValue(key),
+            format: getTemplateFormat(actionType, key),
+          }))}
+          chainId={previewContext?.chainId}
+          registry={previewContext?.registry}
+          trigger={{ name: previewContext?.triggerName }}
+        />
+      )}
+
       {/* Help Text */}
       <div className="typo-ui text-terminal-dim/80 mt-2">
         <span>&gt;</span> Actions execute in priority order (higher = first)
@@ -0,0 +1,101 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { AgentAnalytics } from './AgentAnalytics'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const HOUR = 60 * 60 * 1000
+
+const makeEvent = (index: number, eventType: string, data: Record<string, unknown>) => ({
+  id: `550e8400-e29b-41d4-a716-${String(index).padStart(12, '0')}`,
+  eventType: eventType,
+  agentId: 42,
+  chainId: 11155111,
+  registry: eventType.startsWith('Validation') ? 'validation' : 'reputation',
+  blockNumber: 5000000 + index,
+  transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+  data,
+  timestamp: new Date(Date.now() - index * 7 * HOUR).toISOString(),
+  createdAt: new Date(Date.now() - index * 7 * HOUR).toISOString(),
+})
+
+const mockEvents = Array.from({ length: 40 }, (_, index) => {
+  if (index % 5 === 0)
+    return makeEvent(index, 'ValidationCompleted', { response: index % 3 ? 90 : 20 })
+  if (index % 7 === 0) return makeEvent(index, 'MetadataUpdated', { key: 'endpoint' })
+  return makeEvent(index, 'ReputationUpdated', { score: 90 - index, clientAddress: '0x1234' })
+})
+
+const eventsResponse = (data: unknown[]) => ({
+  data,
+  pagination: { total: data.length, limit: 100, offset: 0, has_more: false },
+})
+
+const meta: Meta<typeof AgentAnalytics> = {
+  title: 'Organisms/AgentAnalytics',
+  component: AgentAnalytics,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    agentId: 42,
+    chainId: 11155111,
+  },
+  parameters: {
+    msw: {
+      handlers: [http.get('/api/v1/events', () => HttpResponse.json(eventsResponse(mockEvents)))],
+    },
+  },
+}
+
+export const LastDay: Story = {
+  args: {
+    agentId: 42,
+    chainId: 11155111,
+    defaultRange: '24h',
+  },
+  parameters: {
+    msw: {
+      handlers: [http.get('/api/v1/events', () => HttpResponse.json(eventsResponse(mockEvents)))],
+    },
+  },
+}
+
+export const Empty: Story = {
+  args: {
+    agentId: 7,
+    chainId: 11155111,
+  },
+  parameters: {
+    msw: {
+      handlers: [http.get('/api/v1/events', () => HttpResponse.json(eventsResponse([])))],
+    },
+  },
+}
@@ -0,0 +1,215 @@
+/**
+ * AgentAnalytics
+ *
+ * Reputation analytics for a single agent: score timeline, feedback volume,
+ * validation pass/fail ratio and event type breakdown, for the last 24
+ * hours, 7 days, 30 days or all time.
+ *
+ * @module components/organisms/AgentAnalytics
+ *
+ * @example
+ * ```tsx
+ * <AgentAnalytics agentId={42} chainId={11155111} />
+ * ```
+ */
+'use client'
+
+import { type ReactNode, useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import {
+  ApiErrorDisplay,
+  BarChart,
+  LineChart,
+  LoadingSkeleton,
+  StatCard,
+} from '@/components/molecules'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import { MAX_ANALYTICS_EVENTS, useAgentAnalytics } from '@/hooks'
+import {
+  ANALYTICS_RANGE_INFO,
+  ANALYTICS_RANGES,
+  type AnalyticsRange,
+  VALIDATION_PASS_THRESHOLD,
+} from '@/lib/agent-analytics'
+import { formatDate, formatDateTime, formatNumber } from '@/lib/format'
+import { cn } from '@/lib/utils'
+
+/**
+ * Props for the AgentAnalytics component.
+ */
+interface AgentAnalyticsProps {
+  /** On-chain agent ID */
+  agentId: number
+  /** Chain the agent is registered on */
+  chainId: number
+  /** Initially selected range */
+  defaultRange?: AnalyticsRange
+  /** Additional CSS classes */
+  className?: string
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '--' : `${Math.round(value * 100)}%`
+}
+
+function ChartPanel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-3 border-2 border-terminal p-4">
+      <div className="typo-ui text-terminal-dim">&gt; {title}</div>
+      {children}
+    </div>
+  )
+}
+
+function NoData({ message }: { message: string }) {
+  return <div className="typo-ui text-terminal-dim/70 py-6 text-center">{message}</div>
+}
+
+export function AgentAnalytics({
+  agentId,
+  chainId,
+  defaultRange = '7d',
+  className,
+}: AgentAnalyticsProps) {
+  const [range, setRange] = useState<AnalyticsRange>(defaultRange)
+  const { data, isLoading, error } = useAgentAnalytics(agentId, chainId, range)
+  const formatBucket = range === '24h' ? formatDateTime : formatDate
+
+  return (
+    <Box variant="default" padding="md" className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="typo-ui text-terminal-green glow">&gt; REPUTATION ANALYTICS</h3>
+        <div className="flex gap-2">
+          {ANALYTICS_RANGES.map((option) => (
+            <Button
+              key={option}
+              variant={option === range ? 'default' : 'outline'}
+              size="sm"
+              className="typo-ui"
+              aria-pressed={option === range}
+              onClick={() => setRange(option)}
+            >
+              [{ANALYTICS_RANGE_INFO[option].label}]
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <LoadingSkeleton count={3} height={120} />
+      ) : error ? (
+        <ApiErrorDisplay
+          error={error instanceof Error ? error : new Error('Analytics could not be loaded')}
+          title="ERROR LOADING ANALYTICS"
+        />
+      ) : !data || data.totalEvents === 0 ? (
+        <EmptyState
+          icon="events"
+          title="NO EVENTS IN RANGE"
+          description="Analytics appear here once events for this agent are indexed."
+          variant="subtle"
+          size="sm"
+        />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <StatCard
+              label="Reputation"
+              value={data.currentScore ?? '--'}
+              variant="highlight"
+              size="sm"
+            />
+            <StatCard
+              label="Score Change"
+              value={
+                data.scoreChange === null
+                  ? '--'
+                  : `${data.scoreChange > 0 ? '+' : ''}${formatNumber(data.scoreChange)}`
+              }
+              size="sm"
+            />
+            <StatCard label="Events" value={formatNumber(data.totalEvents)} size="sm" />
+            <StatCard
+              label="Validation Pass"
+              value={formatPercent(data.validation.passRate)}
+              description={`${data.validation.total} validations`}
+              size="sm"
+            />
+          </div>
+
+          {data.isTruncated && (
+            <div className="typo-ui text-yellow-500">
+              Showing the latest {formatNumber(MAX_ANALYTICS_EVENTS)} events in this range.
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <ChartPanel title="REPUTATION SCORE">
+              {data.reputation.length === 0 ? (
+                <NoData message="NO REPUTATION UPDATES IN RANGE" />
+              ) : (
+                <LineChart
+                  data={data.reputation.map((point) => ({
+                    label: formatDateTime(point.timestamp),
+                    value: point.score,
+                  }))}
+                  ariaLabel="Reputation score over time"
+                />
+              )}
+            </ChartPanel>
+
+            <ChartPanel title={range === '24h' ? 'FEEDBACK PER HOUR' : 'FEEDBACK PER DAY'}>
+              <BarChart
+                data={data.feedbackVolume.map((bucket) => ({
+                  label: formatBucket(bucket.start),
+                  value: bucket.count,
+                }))}
+                height={160}
+                ariaLabel="Feedback volume"
+              />
+            </ChartPanel>
+
+            <ChartPanel title="VALIDATIONS">
+              {data.validation.total === 0 ? (
+                <NoData message="NO VALIDATIONS IN RANGE" />
+              ) : (
+                <div className="space-y-2 typo-ui">
+                  <div
+                    className="flex h-4 border-2 border-terminal-dim"
+                    role="img"
+                    aria-label={`${data.validation.passed} passed, ${data.validation.failed} failed`}
+                  >
+                    <div
+                      className="bg-terminal-green"
+                      style={{ width: `${(data.validation.passRate ?? 0) * 100}%` }}
+                    />
+                    <div className="flex-1 bg-destructive/70" />
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-terminal-green">PASSED: {data.validation.passed}</span>
+                    <span className="text-destructive">FAILED: {data.validation.failed}</span>
+                  </div>
+                  <div className="text-terminal-dim/70">
+                    Responses of {VALIDATION_PASS_THRESHOLD} or more count as passed.
+                  </div>
+                </div>
+              )}
+            </ChartPanel>
+
+            <ChartPanel title="EVENT TYPES">
+              <BarChart
+                orientation="horizontal"
+                data={data.eventTypes.map((entry) => ({
+                  label: entry.eventType,
+                  value: entry.count,
+                }))}
+                ariaLabel="Events by type"
+              />
+            </ChartPanel>
+          </div>
+        </>
+      )}
+    </Box>
+  )
+}
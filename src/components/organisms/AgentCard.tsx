@@ -1,8 +1,10 @@
 /**
  * AgentCard
  *
- * Displays a summary card for a linked agent with chain badge and wallet address.
- * Includes actions to view details and unlink the agent from the organization.
+ * Displays a summary card for a linked agent with chain badge, wallet address,
+ * and the name and endpoint protocols from its agent card (with a warning count
+ * when the card is malformed or unreachable). Includes actions to view details
+ * and unlink the agent from the organization.
  *
  * @module components/organisms/AgentCard
  *
@@ -24,6 +26,7 @@
 
 import Link from 'next/link'
 import { useState } from 'react'
+import { Badge } from '@/components/atoms/badge'
 import { Button } from '@/components/atoms/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/atoms/card'
 import { Icon } from '@/components/atoms/icon'
@@ -35,9 +38,10 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/atoms/dialog'
-import { ChainBadge } from '@/components/molecules'
+import { ChainBadge, PermissionTooltip } from '@/components/molecules'
 import { AgentAddressBadge } from '@/components/molecules/AgentAddressBadge'
-import { useUnlinkAgent } from '@/hooks'
+import { useAgentCard, usePermission, useUnlinkAgent } from '@/hooks'
+import { AGENT_CARD_ENDPOINT_KINDS, groupAgentCardEndpoints } from '@/lib/agent-card'
 import { cn } from '@/lib/utils'
 import type { LinkedAgent } from '@/types/models'
 
@@ -56,6 +60,8 @@ interface AgentCardProps {
 export function AgentCard({ agent, organizationId, className }: AgentCardProps) {
   const [unlinkDialogOpen, setUnlinkDialogOpen] = useState(false)
   const unlinkMutation = useUnlinkAgent(organizationId)
+  const canUnlink = usePermission('delete', 'agent')
+  const { data: agentCard } = useAgentCard(agent.chainId, agent.agentId)
 
   const handleUnlink = async () => {
     try {
@@ -67,6 +73,10 @@ export function AgentCard({ agent, organizationId, className }: AgentCardProps)
   }
 
   const linkedAt = new Date(agent.linkedAt).toLocaleDateString()
+  const endpointGroups = groupAgentCardEndpoints(agentCard?.card?.endpoints ?? [])
+  const endpointKinds = AGENT_CARD_ENDPOINT_KINDS.filter(
+    (kind) => kind !== 'OTHER' && endpointGroups[kind].length > 0
+  )
 
   return (
     <>
@@ -89,6 +99,28 @@ export function AgentCard({ agent, organizationId, className }: AgentCardProps)
 
         <CardContent className="pt-4">
           <div className="space-y-4 mb-4">
+            {agentCard && (
+              <div>
+                <div className="typo-ui text-terminal-dim mb-1">&gt; AGENT CARD</div>
+                <div className="typo-ui text-terminal-green truncate">
+                  {agentCard.card?.name ?? '--'}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 mt-1">
+                  {endpointKinds.map((kind) => (
+                    <Badge key={kind} variant="outline" className="typo-ui">
+                      {kind}
+                    </Badge>
+                  ))}
+                  {agentCard.warnings.length > 0 && (
+                    <span className="typo-ui text-yellow-500 text-sm flex items-center gap-1">
+                      <Icon name="warning" size="sm" />
+                      {agentCard.warnings.length}{' '}
+                      {agentCard.warnings.length === 1 ? 'WARNING' : 'WARNINGS'}
+                    </span>
+                  )}
+                </div>
+              </div>
+            )}
             <div>
               <div className="typo-ui text-terminal-dim mb-1">&gt; WALLET ADDRESS</div>
               <AgentAddressBadge address={agent.walletAddress} />
@@ -109,15 +141,18 @@ export function AgentCard({ agent, organizationId, className }: AgentCardProps)
             <Button variant="outline" size="sm" asChild className="typo-ui">
               <Link href={`/dashboard/agents/${agent.walletAddress}`}>[VIEW]</Link>
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setUnlinkDialogOpen(true)}
-              className="typo-ui text-destructive hover:text-destructive"
-              aria-label={`Unlink agent ${agent.agentId}`}
-            >
-              [UNLINK]
-            </Button>
+            <PermissionTooltip reason={canUnlink.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setUnlinkDialogOpen(true)}
+                disabled={!canUnlink.allowed}
+                className="typo-ui text-destructive hover:text-destructive"
+                aria-label={`Unlink agent ${agent.agentId}`}
+              >
+                [UNLINK]
+              </Button>
+            </PermissionTooltip>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,110 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { diffAgentCards } from '@/lib/agent-card'
+import { AgentCardPanel } from './AgentCardPanel'
+
+const mockCard = {
+  type: 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1',
+  name: 'Research Agent',
+  description: 'Summarizes on-chain activity for DAO treasuries',
+  endpoints: [
+    {
+      name: 'A2A',
+      endpoint: 'https://agent.example.com/.well-known/agent-card.json',
+      version: '0.3.0',
+    },
+    { name: 'MCP', endpoint: 'https://mcp.example.com', version: '2025-06-18' },
+    { name: 'ENS', endpoint: 'research.eth' },
+    { name: 'DID', endpoint: 'did:web:agent.example.com' },
+    { name: 'agentWallet', endpoint: 'eip155:11155111:0x1234567890abcdef1234567890abcdef12345678' },
+  ],
+  registrations: [
+    { agentId: 42, agentRegistry: 'eip155:11155111:0x1111111111111111111111111111111111111111' },
+  ],
+  supportedTrust: ['reputation', 'crypto-economic'],
+}
+
+const meta: Meta<typeof AgentCardPanel> = {
+  title: 'Organisms/AgentCardPanel',
+  component: AgentCardPanel,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <div className="bg-terminal p-4 max-w-3xl">
+        <Story />
+      </div>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    agentCard: mockCard,
+    tokenUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+    agentId: 42,
+    chainId: 11155111,
+  },
+}
+
+export const WithWarnings: Story = {
+  args: {
+    agentCard: {
+      name: 'Sloppy Agent',
+      image: 'not a url',
+      endpoints: [
+        { name: 'MCP', endpoint: 'mcp.example.com' },
+        { name: 'ENS', endpoint: 'sloppy' },
+        { endpoint: 'https://missing-name.example.com' },
+      ],
+      supportedTrust: ['vibes'],
+    },
+    tokenUri: 'https://example.com/agent.json',
+    agentId: 7,
+    chainId: 84532,
+  },
+}
+
+export const Unreachable: Story = {
+  args: {
+    agentCard: null,
+    tokenUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+    agentId: 42,
+    chainId: 11155111,
+  },
+}
+
+export const WithLastUpdate: Story = {
+  args: {
+    agentCard: mockCard,
+    tokenUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+    agentId: 42,
+    chainId: 11155111,
+    change: {
+      event: {
+        id: '11155111-0xabc-1',
+        eventType: 'AgentUpdated',
+        agentId: 42,
+        chainId: 11155111,
+        registry: 'identity',
+        blockNumber: 7654321,
+        transactionHash: `0x${'c'.repeat(64)}`,
+        data: {},
+        timestamp: '2025-01-14T08:00:00Z',
+        createdAt: '2025-01-14T08:00:05Z',
+      },
+      changes: diffAgentCards(
+        { ...mockCard, name: 'Research Bot', supportedTrust: ['reputation'] },
+        mockCard
+      ),
+    },
+  },
+}
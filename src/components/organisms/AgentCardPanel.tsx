@@ -0,0 +1,197 @@
+/**
+ * AgentCardPanel
+ *
+ * Viewer for an ERC-8004 agent card (the registration file behind the
+ * identity token URI): name and description, endpoints grouped by protocol
+ * (A2A, MCP, ENS, DID, other), supported trust models, and validation
+ * warnings for malformed or unreachable fields. When the agent's latest
+ * `AgentUpdated` event carries card snapshots, the change is shown as a diff.
+ *
+ * @module components/organisms/AgentCardPanel
+ *
+ * @example
+ * ```tsx
+ * <AgentCardPanel
+ *   agentCard={agent.agentCard}
+ *   tokenUri={agent.tokenUri}
+ *   agentId={agent.agentId}
+ *   chainId={agent.chainId}
+ * />
+ * ```
+ */
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Badge } from '@/components/atoms/badge'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import { AgentCardDiff, CodeBlock } from '@/components/molecules'
+import {
+  AGENT_CARD_ENDPOINT_KINDS,
+  type AgentCardChange,
+  groupAgentCardEndpoints,
+  validateAgentCard,
+} from '@/lib/agent-card'
+import { formatDateTime } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { BlockchainEvent } from '@/lib/validations/event'
+
+/**
+ * Props for the AgentCardPanel component.
+ */
+interface AgentCardPanelProps {
+  /** Raw card JSON from the token URI (null when missing or unreachable) */
+  agentCard: unknown
+  /** Token URI the card was fetched from */
+  tokenUri: string | null
+  /** On-chain agent ID the card should list */
+  agentId: number
+  /** Chain the agent is registered on */
+  chainId: number
+  /** Latest card update and its field changes */
+  change?: { event: BlockchainEvent; changes: AgentCardChange[] } | null
+  /** Additional CSS classes */
+  className?: string
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value)
+}
+
+export function AgentCardPanel({
+  agentCard,
+  tokenUri,
+  agentId,
+  chainId,
+  change,
+  className,
+}: AgentCardPanelProps) {
+  const [showRaw, setShowRaw] = useState(false)
+  const { card, warnings } = useMemo(
+    () => validateAgentCard(agentCard, { agentId, chainId, tokenUri }),
+    [agentCard, agentId, chainId, tokenUri]
+  )
+  const endpointGroups = groupAgentCardEndpoints(card?.endpoints ?? [])
+
+  return (
+    <Box variant="default" padding="md" data-slot="agent-card-panel" className={className}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="typo-ui text-terminal-green glow">&gt; AGENT CARD</h3>
+        {agentCard !== null && agentCard !== undefined && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            onClick={() => setShowRaw((value) => !value)}
+          >
+            {showRaw ? '[HIDE JSON]' : '[RAW JSON]'}
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-4">
+        {card && (
+          <div>
+            <div className="typo-header text-terminal-green">{card.name}</div>
+            {card.description && (
+              <p className="typo-ui text-terminal-dim mt-1">{card.description}</p>
+            )}
+          </div>
+        )}
+
+        {card && card.endpoints.length > 0 && (
+          <div className="space-y-3">
+            {AGENT_CARD_ENDPOINT_KINDS.filter((kind) => endpointGroups[kind].length > 0).map(
+              (kind) => (
+                <div key={kind}>
+                  <div className="typo-ui text-terminal-dim mb-1">&gt; {kind}</div>
+                  <ul className="space-y-1">
+                    {endpointGroups[kind].map((endpoint, index) => (
+                      <li
+                        key={`${endpoint.name}-${index}`}
+                        className="flex flex-wrap items-center gap-2 typo-ui text-sm"
+                      >
+                        {kind === 'OTHER' && (
+                          <span className="text-terminal-dim">{endpoint.name}:</span>
+                        )}
+                        {isHttpUrl(endpoint.endpoint) ? (
+                          <a
+                            href={endpoint.endpoint}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-terminal-green font-mono break-all hover:underline"
+                          >
+                            {endpoint.endpoint}
+                          </a>
+                        ) : (
+                          <span className="text-terminal-green font-mono break-all">
+                            {endpoint.endpoint}
+                          </span>
+                        )}
+                        {endpoint.version && (
+                          <span className="text-terminal-dim">v{endpoint.version}</span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )
+            )}
+          </div>
+        )}
+
+        {card && card.supportedTrust.length > 0 && (
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">&gt; SUPPORTED TRUST</div>
+            <div className="flex flex-wrap gap-2">
+              {card.supportedTrust.map((model) => (
+                <Badge key={model} variant="outline" className="typo-ui">
+                  {model.toUpperCase()}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div>
+            <div className="typo-ui text-yellow-500 mb-1">
+              &gt; {warnings.length} {warnings.length === 1 ? 'WARNING' : 'WARNINGS'}
+            </div>
+            <ul className="space-y-1">
+              {warnings.map((warning, index) => (
+                <li
+                  key={`${warning.path}-${index}`}
+                  className={cn(
+                    'typo-ui text-sm flex items-start gap-2',
+                    warning.severity === 'error' ? 'text-destructive' : 'text-yellow-500'
+                  )}
+                >
+                  <Icon name="warning" size="sm" />
+                  <span>
+                    {warning.path && <span className="font-mono">{warning.path}: </span>}
+                    {warning.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {change && (
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">
+              &gt; LAST UPDATE {formatDateTime(change.event.timestamp)}
+            </div>
+            <AgentCardDiff changes={change.changes} />
+          </div>
+        )}
+
+        {showRaw && (
+          <CodeBlock code={JSON.stringify(agentCard, null, 2)} language="json" maxHeight="320px" />
+        )}
+      </div>
+    </Box>
+  )
+}
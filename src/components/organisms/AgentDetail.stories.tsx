@@ -1,7 +1,10 @@
 import type { Meta, StoryObj } from '@storybook/nextjs-vite'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { http, HttpResponse } from 'msw'
+import { WagmiProvider } from 'wagmi'
+import { wagmiConfig } from '@/lib/wagmi-config'
 import { AgentDetail } from './AgentDetail'
+import { useOrganizationStore } from '@/stores/organization-store'
 import type { LinkedAgent } from '@/types/models'
 
 const queryClient = new QueryClient({
@@ -21,6 +24,30 @@ const mockAgent: LinkedAgent = {
   organizationId: 'org-123',
 }
 
+const mockExplorerAgent = {
+  agentId: 42,
+  chainId: 1,
+  owner: mockAgent.walletAddress,
+  tokenUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+  registeredAt: '2024-01-15T10:00:00Z',
+  agentCard: {
+    type: 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1',
+    name: 'Research Agent',
+    description: 'Summarizes on-chain activity',
+    endpoints: [
+      { name: 'A2A', endpoint: 'https://agent.example.com/.well-known/agent-card.json' },
+      { name: 'MCP', endpoint: 'https://mcp.example.com', version: '2025-06-18' },
+      { name: 'ENS', endpoint: 'research.eth' },
+    ],
+    registrations: [
+      { agentId: 42, agentRegistry: 'eip155:1:0x1111111111111111111111111111111111111111' },
+    ],
+    supportedTrust: ['reputation'],
+  },
+  reputation: { score: 75, feedbackCount: 8, lastUpdatedAt: '2024-01-15T11:00:00Z' },
+  validations: { total: 0, passed: 0, failed: 0, pending: 0 },
+}
+
 const meta: Meta<typeof AgentDetail> = {
   title: 'Organisms/AgentDetail',
   component: AgentDetail,
@@ -32,13 +59,18 @@ const meta: Meta<typeof AgentDetail> = {
     },
   },
   tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
   decorators: [
     (Story) => (
-      <QueryClientProvider client={queryClient}>
-        <div className="bg-terminal p-4 max-w-4xl">
-          <Story />
-        </div>
-      </QueryClientProvider>
+      <WagmiProvider config={wagmiConfig}>
+        <QueryClientProvider client={queryClient}>
+          <div className="bg-terminal p-4 max-w-4xl">
+            <Story />
+          </div>
+        </QueryClientProvider>
+      </WagmiProvider>
     ),
   ],
 }
@@ -54,6 +86,9 @@ export const Default: Story = {
   parameters: {
     msw: {
       handlers: [
+        http.get('/api/v1/explorer/agents/:chainId/:agentId', () => {
+          return HttpResponse.json(mockExplorerAgent)
+        }),
         http.get('/api/events', () => {
           return HttpResponse.json({
             data: [
@@ -130,3 +165,26 @@ export const BaseSepolia: Story = {
     },
   },
 }
+
+export const IndexerDown: Story = {
+  args: {
+    agent: mockAgent,
+    organizationId: 'org-123',
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/health', () => {
+          return HttpResponse.json({
+            status: 'degraded',
+            timestamp: '2025-01-15T10:00:00Z',
+            services: { database: 'connected', indexer: 'down', cache: 'up' },
+          })
+        }),
+        http.get('/api/events', () => {
+          return HttpResponse.json({ message: 'Indexer unavailable' }, { status: 503 })
+        }),
+      ],
+    },
+  },
+}
@@ -2,7 +2,13 @@
  * AgentDetail
  *
  * Displays detailed information about a linked agent including wallet address,
- * chain, linked date, and recent events. Provides actions to unlink the agent.
+ * chain, linked date, agent card, on-chain registry verification, reputation
+ * analytics, and recent events. Provides actions to give feedback, request
+ * validation (on-chain transactions from the connected wallet), and unlink
+ * the agent.
+ *
+ * When the indexer is down, a banner explains that analytics and events may be
+ * stale; the agent basics and the on-chain registry panel keep working.
  *
  * @module components/organisms/AgentDetail
  *
@@ -36,12 +42,24 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/atoms/dialog'
-import { ChainBadge, LoadingSkeleton } from '@/components/molecules'
+import { AlertBanner, ChainBadge, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
 import { AgentAddressBadge } from '@/components/molecules/AgentAddressBadge'
-import { useAgentEvents, useUnlinkAgent } from '@/hooks'
+import {
+  useAgentCardChange,
+  useAgentEvents,
+  useExplorerAgent,
+  useIndexerDown,
+  usePermission,
+  useUnlinkAgent,
+} from '@/hooks'
 import { cn } from '@/lib/utils'
 import type { LinkedAgent } from '@/types/models'
+import { AgentAnalytics } from './AgentAnalytics'
+import { AgentCardPanel } from './AgentCardPanel'
 import { EventCard } from './EventCard'
+import { GiveFeedbackDialog } from './GiveFeedbackDialog'
+import { OnchainAgentPanel } from './OnchainAgentPanel'
+import { RequestValidationDialog } from './RequestValidationDialog'
 
 /**
  * Props for the AgentDetail component.
@@ -57,7 +75,16 @@ interface AgentDetailProps {
 
 export function AgentDetail({ agent, organizationId, className }: AgentDetailProps) {
   const [unlinkDialogOpen, setUnlinkDialogOpen] = useState(false)
+  const [feedbackDialogOpen, setFeedbackDialogOpen] = useState(false)
+  const [validationDialogOpen, setValidationDialogOpen] = useState(false)
   const unlinkMutation = useUnlinkAgent(organizationId)
+  const canUnlink = usePermission('delete', 'agent')
+  const indexerDown = useIndexerDown()
+  const { data: explorerAgent, isLoading: cardLoading } = useExplorerAgent(
+    agent.chainId,
+    agent.agentId
+  )
+  const { data: cardChange } = useAgentCardChange(agent.agentId, agent.chainId)
 
   // Fetch recent events for this agent
   const { data: eventsData, isLoading: eventsLoading } = useAgentEvents(
@@ -87,6 +114,14 @@ export function AgentDetail({ agent, organizationId, className }: AgentDetailPro
         <span className="typo-header text-terminal-green glow">AGENT #{agent.agentId}</span>
       </div>
 
+      {indexerDown && (
+        <AlertBanner
+          variant="warning"
+          title="INDEXER UNAVAILABLE"
+          message="Analytics and recent events may be out of date. Registry data below is read directly from the chain."
+        />
+      )}
+
       {/* Basic Information */}
       <Box variant="default" padding="md">
         <h3 className="typo-ui text-terminal-green glow mb-4">&gt; AGENT INFORMATION</h3>
@@ -116,6 +151,29 @@ export function AgentDetail({ agent, organizationId, className }: AgentDetailPro
         </div>
       </Box>
 
+      {/* Agent Card */}
+      {cardLoading ? (
+        <LoadingSkeleton count={1} height={160} />
+      ) : explorerAgent ? (
+        <AgentCardPanel
+          agentCard={explorerAgent.agentCard}
+          tokenUri={explorerAgent.tokenUri}
+          agentId={agent.agentId}
+          chainId={agent.chainId}
+          change={cardChange}
+        />
+      ) : null}
+
+      {/* On-chain Verification */}
+      <OnchainAgentPanel
+        chainId={agent.chainId}
+        agentId={agent.agentId}
+        expectedOwner={agent.walletAddress}
+      />
+
+      {/* Reputation Analytics */}
+      <AgentAnalytics agentId={agent.agentId} chainId={agent.chainId} />
+
       {/* Recent Events */}
       <Box variant="default" padding="md">
         <div className="flex items-center justify-between mb-4">
@@ -149,15 +207,42 @@ export function AgentDetail({ agent, organizationId, className }: AgentDetailPro
         <Button variant="outline" asChild className="typo-ui">
           <Link href="/dashboard/agents">[&lt; BACK TO AGENTS]</Link>
         </Button>
+        <Button variant="outline" className="typo-ui" onClick={() => setFeedbackDialogOpen(true)}>
+          [GIVE FEEDBACK]
+        </Button>
         <Button
           variant="outline"
-          className="typo-ui text-destructive hover:text-destructive"
-          onClick={() => setUnlinkDialogOpen(true)}
+          className="typo-ui"
+          onClick={() => setValidationDialogOpen(true)}
         >
-          [UNLINK AGENT]
+          [REQUEST VALIDATION]
         </Button>
+        <PermissionTooltip reason={canUnlink.reason}>
+          <Button
+            variant="outline"
+            className="typo-ui text-destructive hover:text-destructive"
+            onClick={() => setUnlinkDialogOpen(true)}
+            disabled={!canUnlink.allowed}
+          >
+            [UNLINK AGENT]
+          </Button>
+        </PermissionTooltip>
       </div>
 
+      {/* Registry Transaction Dialogs */}
+      <GiveFeedbackDialog
+        agentId={agent.agentId}
+        chainId={agent.chainId}
+        open={feedbackDialogOpen}
+        onOpenChange={setFeedbackDialogOpen}
+      />
+      <RequestValidationDialog
+        agentId={agent.agentId}
+        chainId={agent.chainId}
+        open={validationDialogOpen}
+        onOpenChange={setValidationDialogOpen}
+      />
+
       {/* Unlink Confirmation Dialog */}
       <Dialog open={unlinkDialogOpen} onOpenChange={setUnlinkDialogOpen}>
         <DialogContent className="border-2 border-terminal bg-terminal">
@@ -0,0 +1,75 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { AgentExplorerSearch } from './AgentExplorerSearch'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const owner = '0x1234567890abcdef1234567890abcdef12345678'
+
+const meta: Meta<typeof AgentExplorerSearch> = {
+  title: 'Organisms/AgentExplorerSearch',
+  component: AgentExplorerSearch,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+    nextjs: { appDirectory: true },
+    msw: {
+      handlers: [
+        http.get('/api/v1/explorer/agents', () =>
+          HttpResponse.json({
+            data: [
+              {
+                agentId: 42,
+                chainId: 11155111,
+                owner,
+                tokenUri: 'ipfs://bafy...',
+                registeredAt: '2024-12-01T10:00:00Z',
+              },
+              {
+                agentId: 7,
+                chainId: 84532,
+                owner,
+                tokenUri: null,
+                registeredAt: null,
+              },
+            ],
+            pagination: { total: 2, limit: 20, offset: 0, has_more: false },
+          })
+        ),
+      ],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const ByAgentId: Story = {
+  args: {},
+}
+
+export const ByOwner: Story = {
+  args: {
+    defaultMode: 'owner',
+  },
+}
@@ -0,0 +1,234 @@
+/**
+ * AgentExplorerSearch
+ *
+ * Lookup form for the agent explorer. Searching by agent ID opens the
+ * agent's explorer page; searching by owner address lists every agent the
+ * address owns, across all chains or on the selected one.
+ *
+ * @module components/organisms/AgentExplorerSearch
+ *
+ * @example
+ * ```tsx
+ * <AgentExplorerSearch />
+ * ```
+ */
+'use client'
+
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { type FormEvent, useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { ApiErrorDisplay, ChainBadge, LoadingSkeleton } from '@/components/molecules'
+import { AgentAddressBadge } from '@/components/molecules/AgentAddressBadge'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import { useExplorerSearch } from '@/hooks'
+import { SUPPORTED_CHAINS } from '@/lib/constants'
+import { formatDate } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import { explorerSearchSchema } from '@/lib/validations/explorer'
+
+/** Select value for "all chains" in owner searches */
+const ALL_CHAINS = 'all'
+
+/**
+ * Props for the AgentExplorerSearch component.
+ */
+interface AgentExplorerSearchProps {
+  /** Initial search mode */
+  defaultMode?: 'agent' | 'owner'
+  /** Additional CSS classes */
+  className?: string
+}
+
+export function AgentExplorerSearch({
+  defaultMode = 'agent',
+  className,
+}: AgentExplorerSearchProps) {
+  const router = useRouter()
+  const [mode, setMode] = useState(defaultMode)
+  const [agentId, setAgentId] = useState('')
+  const [owner, setOwner] = useState('')
+  const [chainId, setChainId] = useState<string>(ALL_CHAINS)
+  const [error, setError] = useState<string | null>(null)
+  const [ownerQuery, setOwnerQuery] = useState<{ owner: string; chainId?: number } | null>(null)
+
+  const {
+    data: results,
+    isLoading,
+    error: searchError,
+  } = useExplorerSearch(ownerQuery?.owner ?? null, ownerQuery?.chainId)
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const parsed = explorerSearchSchema.safeParse({
+      agentId: mode === 'agent' && agentId.trim() ? agentId.trim() : undefined,
+      owner: mode === 'owner' && owner.trim() ? owner.trim() : undefined,
+      chainId: chainId === ALL_CHAINS ? undefined : chainId,
+    })
+
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Invalid search')
+      return
+    }
+
+    setError(null)
+    const { agentId: parsedAgentId, chainId: parsedChainId, owner: parsedOwner } = parsed.data
+    if (parsedAgentId !== undefined && parsedChainId !== undefined) {
+      router.push(`/dashboard/explorer/${parsedChainId}/${parsedAgentId}`)
+    } else if (parsedOwner) {
+      setOwnerQuery({ owner: parsedOwner, chainId: parsedChainId })
+    }
+  }
+
+  const switchMode = (next: 'agent' | 'owner') => {
+    setMode(next)
+    setError(null)
+    setOwnerQuery(null)
+  }
+
+  const agents = results?.data ?? []
+
+  return (
+    <div data-slot="agent-explorer-search" className={cn('space-y-6', className)}>
+      <Box variant="default" padding="md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={mode === 'agent' ? 'default' : 'outline'}
+              className="typo-ui"
+              onClick={() => switchMode('agent')}
+            >
+              [BY AGENT ID]
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={mode === 'owner' ? 'default' : 'outline'}
+              className="typo-ui"
+              onClick={() => switchMode('owner')}
+            >
+              [BY OWNER]
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_16rem_auto] gap-4 items-end">
+            {mode === 'agent' ? (
+              <div className="space-y-2">
+                <Label htmlFor="explorer-agent-id" className="typo-ui text-terminal-dim">
+                  &gt; AGENT ID
+                </Label>
+                <Input
+                  id="explorer-agent-id"
+                  type="number"
+                  min={0}
+                  placeholder="e.g. 42"
+                  value={agentId}
+                  onChange={(e) => setAgentId(e.target.value)}
+                  className="typo-ui"
+                />
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="explorer-owner" className="typo-ui text-terminal-dim">
+                  &gt; OWNER ADDRESS
+                </Label>
+                <Input
+                  id="explorer-owner"
+                  placeholder="0x..."
+                  value={owner}
+                  onChange={(e) => setOwner(e.target.value)}
+                  className="typo-ui font-mono"
+                />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="explorer-chain" className="typo-ui text-terminal-dim">
+                &gt; CHAIN
+              </Label>
+              <Select value={chainId} onValueChange={setChainId}>
+                <SelectTrigger id="explorer-chain" className="typo-ui">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CHAINS} className="typo-ui">
+                    {mode === 'agent' ? '[SELECT CHAIN]' : '[ALL CHAINS]'}
+                  </SelectItem>
+                  {Object.entries(SUPPORTED_CHAINS).map(([name, id]) => (
+                    <SelectItem key={id} value={id.toString()} className="typo-ui">
+                      [{name}]
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <Button type="submit" className="typo-ui">
+              <Icon name="search" size="sm" />
+              [LOOK UP]
+            </Button>
+          </div>
+
+          {error && (
+            <p className="typo-ui text-destructive flex items-center gap-2">
+              <Icon name="warning" size="sm" />
+              {error}
+            </p>
+          )}
+        </form>
+      </Box>
+
+      {ownerQuery &&
+        (isLoading ? (
+          <LoadingSkeleton count={3} height={56} />
+        ) : searchError ? (
+          <ApiErrorDisplay
+            error={searchError instanceof Error ? searchError : new Error('Search failed')}
+            title="ERROR SEARCHING AGENTS"
+          />
+        ) : agents.length === 0 ? (
+          <EmptyState
+            icon="agents"
+            title="NO AGENTS FOUND"
+            description="This address does not own any registered agents on the selected chains."
+            variant="subtle"
+            size="sm"
+          />
+        ) : (
+          <div className="space-y-2">
+            <div className="typo-ui text-terminal-dim">
+              &gt; {results?.pagination.total ?? agents.length} AGENTS OWNED BY{' '}
+              <AgentAddressBadge address={ownerQuery.owner} />
+            </div>
+            {agents.map((agent) => (
+              <Link
+                key={`${agent.chainId}-${agent.agentId}`}
+                href={`/dashboard/explorer/${agent.chainId}/${agent.agentId}`}
+                className="flex flex-wrap items-center gap-4 p-3 border-2 border-terminal bg-terminal typo-ui hover:border-terminal-green"
+              >
+                <span className="text-terminal-green min-w-24">AGENT #{agent.agentId}</span>
+                <ChainBadge chainId={agent.chainId} />
+                <span className="text-terminal-dim">
+                  REGISTERED: {agent.registeredAt ? formatDate(agent.registeredAt) : '--'}
+                </span>
+                <span className="ml-auto text-terminal-dim">[VIEW &gt;]</span>
+              </Link>
+            ))}
+          </div>
+        ))}
+    </div>
+  )
+}
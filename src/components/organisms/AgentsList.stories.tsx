@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from '@storybook/nextjs-vite'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { http, HttpResponse } from 'msw'
 import { AgentsList } from './AgentsList'
+import { useOrganizationStore } from '@/stores/organization-store'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -49,6 +50,9 @@ const meta: Meta<typeof AgentsList> = {
     },
   },
   tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
   decorators: [
     (Story) => (
       <QueryClientProvider client={queryClient}>
@@ -27,11 +27,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/atoms/select'
-import { ApiErrorDisplay, LoadingSkeleton } from '@/components/molecules'
+import { ApiErrorDisplay, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
 import { FilterBar, FilterGroup, FilterItem } from '@/components/molecules/FilterBar'
 import { SearchInput } from '@/components/molecules/SearchInput'
 import { EmptyListState, NoResultsState } from '@/components/molecules/EmptyState'
-import { useAgents } from '@/hooks'
+import { useAgents, usePermission } from '@/hooks'
 import { SUPPORTED_CHAINS, type SupportedChainId } from '@/lib/constants'
 import type { AgentFilters } from '@/lib/validations/agent'
 import { AgentCard } from './AgentCard'
@@ -52,6 +52,8 @@ export function AgentsList({ organizationId, showLinkButton = true, onLinkAgent
   const [filters, setFilters] = useState<AgentFilters>({})
   const [search, setSearch] = useState('')
 
+  const canLink = usePermission('create', 'agent')
+
   const { data, isLoading, error } = useAgents(organizationId, {
     ...filters,
     search: search || undefined,
@@ -97,13 +99,16 @@ export function AgentsList({ organizationId, showLinkButton = true, onLinkAgent
       {/* Header with Link Button */}
       {showLinkButton && (
         <div className="flex justify-end">
-          <Button
-            onClick={onLinkAgent}
-            className="typo-ui"
-          >
-            <Icon name="add" size="sm" className="mr-1" />
-            [LINK AGENT]
-          </Button>
+          <PermissionTooltip reason={canLink.reason}>
+            <Button
+              onClick={onLinkAgent}
+              disabled={!canLink.allowed}
+              className="typo-ui"
+            >
+              <Icon name="add" size="sm" className="mr-1" />
+              [LINK AGENT]
+            </Button>
+          </PermissionTooltip>
         </div>
       )}
 
@@ -154,7 +159,7 @@ export function AgentsList({ organizationId, showLinkButton = true, onLinkAgent
         ) : (
           <EmptyListState
             itemName="agent"
-            onCreate={showLinkButton ? onLinkAgent : undefined}
+            onCreate={showLinkButton && canLink.allowed ? onLinkAgent : undefined}
           />
         )
       ) : (
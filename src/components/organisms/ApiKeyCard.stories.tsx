@@ -1,9 +1,12 @@
 import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { Badge } from '@/components/atoms/badge'
 import { Button } from '@/components/atoms/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/atoms/card'
 import { Icon } from '@/components/atoms/icon'
 import { StatusBadge } from '@/components/molecules/StatusBadge'
 import { TierBadge } from '@/components/molecules/TierBadge'
+import { formatTimeRemaining, getPreviousKeyStatus } from '@/lib/api-key-rotation'
+import { API_KEY_SCOPES } from '@/lib/constants'
 import { cn } from '@/lib/utils'
 import type { ApiKey } from '@/types/models'
 
@@ -21,6 +24,8 @@ function ApiKeyCardMock({ apiKey, className }: ApiKeyCardMockProps) {
   const expiresAt = apiKey.expiresAt
     ? new Date(apiKey.expiresAt).toLocaleDateString()
     : 'Never'
+  const hasAllScopes = API_KEY_SCOPES.every((scope) => apiKey.scopes.includes(scope))
+  const previousKey = getPreviousKeyStatus(apiKey)
 
   return (
     <Card
@@ -57,6 +62,38 @@ function ApiKeyCardMock({ apiKey, className }: ApiKeyCardMockProps) {
               <Icon name="copy" size="xs" />
             </button>
           </div>
+          {previousKey && (
+            <div
+              className={cn(
+                'border-2 p-2',
+                previousKey.expiringSoon ? 'border-yellow-500' : 'border-terminal-dim'
+              )}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="typo-ui text-terminal-dim">&gt; PREVIOUS KEY</div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="typo-ui text-destructive hover:text-destructive"
+                >
+                  [REVOKE NOW]
+                </Button>
+              </div>
+              <div className="typo-ui text-terminal-green font-mono">
+                {previousKey.keyPrefix}...
+              </div>
+              <div
+                className={cn(
+                  'typo-ui text-sm',
+                  previousKey.expiringSoon ? 'text-yellow-500' : 'text-terminal-dim'
+                )}
+              >
+                {previousKey.expiringSoon && '[!] '}
+                STOPS WORKING IN {formatTimeRemaining(previousKey.remainingMs)}
+                {previousKey.expiringSoon && ' - switch remaining integrations to the new key'}
+              </div>
+            </div>
+          )}
           <div className="grid grid-cols-3 gap-4">
             <div>
               <div className="typo-ui text-terminal-dim mb-1">&gt; CREATED</div>
@@ -71,14 +108,76 @@ function ApiKeyCardMock({ apiKey, className }: ApiKeyCardMockProps) {
               <div className="typo-ui text-terminal-green text-sm">{expiresAt}</div>
             </div>
           </div>
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">&gt; SCOPES</div>
+            <div className="flex flex-wrap gap-1">
+              {hasAllScopes ? (
+                <Badge variant="outline" className="typo-ui text-terminal-green">
+                  [FULL ACCESS]
+                </Badge>
+              ) : (
+                apiKey.scopes.map((scope) => (
+                  <Badge key={scope} variant="outline" className="typo-ui font-mono">
+                    {scope}
+                  </Badge>
+                ))
+              )}
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <div className="typo-ui text-terminal-dim mb-1">&gt; REQUESTS 24H</div>
+              <div className="typo-ui text-terminal-green text-sm">1,284</div>
+            </div>
+            <div>
+              <div className="typo-ui text-terminal-dim mb-1">&gt; ERROR RATE</div>
+              <div className="typo-ui text-terminal-green text-sm">1.2%</div>
+            </div>
+            <div>
+              <div className="typo-ui text-terminal-dim mb-1">&gt; LAST IP</div>
+              <div className="typo-ui text-terminal-green text-sm font-mono break-all">
+                203.0.113.7
+              </div>
+            </div>
+          </div>
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">&gt; AUTO-ROTATION</div>
+            <div className="typo-ui text-terminal-green text-sm">
+              {apiKey.rotationPolicy
+                ? `EVERY ${apiKey.rotationPolicy.intervalDays} DAYS`
+                : 'OFF'}
+            </div>
+          </div>
+          {(apiKey.allowedIps.length > 0 || apiKey.allowedOrigins.length > 0) && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <div className="typo-ui text-terminal-dim mb-1">&gt; ALLOWED IPS</div>
+                <div className="typo-ui text-terminal-green text-sm font-mono break-all">
+                  {apiKey.allowedIps.length > 0 ? apiKey.allowedIps.join(', ') : 'Any'}
+                </div>
+              </div>
+              <div>
+                <div className="typo-ui text-terminal-dim mb-1">&gt; ALLOWED ORIGINS</div>
+                <div className="typo-ui text-terminal-green text-sm font-mono break-all">
+                  {apiKey.allowedOrigins.length > 0 ? apiKey.allowedOrigins.join(', ') : 'Any'}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" className="typo-ui">
+            [USAGE]
+          </Button>
           <Button variant="outline" size="sm" className="typo-ui">
             {apiKey.enabled ? '[DISABLE]' : '[ENABLE]'}
           </Button>
           <Button variant="outline" size="sm" className="typo-ui">
-            [REGENERATE]
+            [ROTATE]
+          </Button>
+          <Button variant="outline" size="sm" className="typo-ui">
+            [AUTO-ROTATION]
           </Button>
           <Button
             variant="outline"
@@ -123,6 +222,11 @@ const mockApiKey: ApiKey = {
   createdAt: '2025-01-01T00:00:00Z',
   lastUsedAt: '2025-01-15T10:30:00Z',
   expiresAt: null,
+  scopes: ['events:read', 'agents:read', 'reputation:query'],
+  allowedIps: [],
+  allowedOrigins: [],
+  previousKey: null,
+  rotationPolicy: null,
 }
 
 export const Default: Story = {
@@ -188,6 +292,28 @@ export const WithExpiration: Story = {
   },
 }
 
+export const FullAccess: Story = {
+  args: {
+    apiKey: {
+      ...mockApiKey,
+      name: 'Admin Key',
+      scopes: [...API_KEY_SCOPES],
+    },
+  },
+}
+
+export const WithRestrictions: Story = {
+  args: {
+    apiKey: {
+      ...mockApiKey,
+      name: 'Browser Widget Key',
+      scopes: ['reputation:query'],
+      allowedIps: ['203.0.113.0/24', '198.51.100.7'],
+      allowedOrigins: ['https://app.example.com'],
+    },
+  },
+}
+
 export const AllTiers: Story = {
   render: () => (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -223,3 +349,35 @@ export const AllTiers: Story = {
     </div>
   ),
 }
+
+export const RotationInGracePeriod: Story = {
+  args: {
+    apiKey: {
+      ...mockApiKey,
+      keyPrefix: 'auri_live_def456',
+      previousKey: {
+        keyPrefix: 'auri_live_abc123',
+        expiresAt: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString(),
+      },
+      rotationPolicy: {
+        intervalDays: 90,
+        gracePeriodHours: 72,
+        nextRotationAt: new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(),
+        lastRotatedAt: new Date().toISOString(),
+      },
+    },
+  },
+}
+
+export const PreviousKeyExpiringSoon: Story = {
+  args: {
+    apiKey: {
+      ...mockApiKey,
+      keyPrefix: 'auri_live_def456',
+      previousKey: {
+        keyPrefix: 'auri_live_abc123',
+        expiresAt: new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString(),
+      },
+    },
+  },
+}
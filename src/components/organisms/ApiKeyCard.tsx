@@ -1,8 +1,12 @@
 /**
  * ApiKeyCard
  *
- * Displays a summary card for an API key with status and tier badges.
- * Includes actions to enable/disable, regenerate, and delete the key.
+ * Displays a summary card for an API key with status and tier badges,
+ * its scopes, any IP or origin restrictions and its last 24h of usage.
+ * After a rotation the previous key is shown until its grace period
+ * ends, with a warning once it is about to expire.
+ * Includes actions to view detailed usage, enable/disable, rotate or
+ * regenerate, manage auto-rotation, and delete the key.
  *
  * @module components/organisms/ApiKeyCard
  *
@@ -23,6 +27,7 @@
 'use client'
 
 import { useState } from 'react'
+import { Badge } from '@/components/atoms/badge'
 import { Button } from '@/components/atoms/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/atoms/card'
 import { Icon } from '@/components/atoms/icon'
@@ -34,12 +39,44 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/atoms/dialog'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { ConfirmDialog, PermissionTooltip } from '@/components/molecules'
 import { StatusBadge } from '@/components/molecules/StatusBadge'
 import { TierBadge } from '@/components/molecules/TierBadge'
-import { useDeleteApiKey, useUpdateApiKey, useRegenerateApiKey, useCopyToClipboard } from '@/hooks'
-import { formatDate, formatDateOrDefault } from '@/lib/format'
+import {
+  useApiKeyUsage,
+  useDeleteApiKey,
+  useUpdateApiKey,
+  useRegenerateApiKey,
+  useRevokePreviousApiKey,
+  useRotateApiKey,
+  useCopyToClipboard,
+  usePermission,
+} from '@/hooks'
+import {
+  API_KEY_GRACE_PERIOD_OPTIONS,
+  DEFAULT_API_KEY_GRACE_PERIOD_HOURS,
+  formatGracePeriod,
+  formatTimeRemaining,
+  getPreviousKeyStatus,
+} from '@/lib/api-key-rotation'
+import { formatUsageErrorRate } from '@/lib/api-key-usage'
+import { formatDate, formatDateOrDefault, formatDateTime, formatNumber } from '@/lib/format'
+import { API_KEY_SCOPES } from '@/lib/constants'
 import { cn } from '@/lib/utils'
 import type { ApiKey } from '@/types/models'
+import { ApiKeyRotationDialog } from './ApiKeyRotationDialog'
+import { ApiKeyUsageDrawer } from './ApiKeyUsageDrawer'
+
+/** Grace period select value that revokes the current key immediately */
+const NO_GRACE_PERIOD = 'none'
 
 /**
  * Props for the ApiKeyCard component.
@@ -49,18 +86,27 @@ interface ApiKeyCardProps {
   apiKey: ApiKey
   /** Additional CSS classes */
   className?: string
-  /** Callback when a key is regenerated with the new key value */
+  /** Callback when a key is rotated or regenerated with the new key value */
   onRegenerate?: (newKey: string) => void
 }
 
 export function ApiKeyCard({ apiKey, className, onRegenerate }: ApiKeyCardProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [regenerateDialogOpen, setRegenerateDialogOpen] = useState(false)
+  const [usageOpen, setUsageOpen] = useState(false)
+  const [rotationOpen, setRotationOpen] = useState(false)
+  const [revokePreviousOpen, setRevokePreviousOpen] = useState(false)
+  const [gracePeriod, setGracePeriod] = useState(String(DEFAULT_API_KEY_GRACE_PERIOD_HOURS))
 
   const { copied, copy } = useCopyToClipboard({ successMessage: 'Key prefix copied' })
   const deleteMutation = useDeleteApiKey()
   const updateMutation = useUpdateApiKey()
   const regenerateMutation = useRegenerateApiKey()
+  const rotateMutation = useRotateApiKey()
+  const revokePreviousMutation = useRevokePreviousApiKey()
+  const { data: usage } = useApiKeyUsage(apiKey.id)
+  const canUpdate = usePermission('update', 'api_key')
+  const canDelete = usePermission('delete', 'api_key')
 
   const handleToggleEnabled = async () => {
     try {
@@ -84,17 +130,35 @@ export function ApiKeyCard({ apiKey, className, onRegenerate }: ApiKeyCardProps)
 
   const handleRegenerate = async () => {
     try {
-      const response = await regenerateMutation.mutateAsync(apiKey.id)
+      const response =
+        gracePeriod === NO_GRACE_PERIOD
+          ? await regenerateMutation.mutateAsync(apiKey.id)
+          : await rotateMutation.mutateAsync({
+              keyId: apiKey.id,
+              gracePeriodHours: Number(gracePeriod),
+            })
       setRegenerateDialogOpen(false)
       onRegenerate?.(response.key)
     } catch (error) {
-      console.error('Failed to regenerate API key:', error)
+      console.error('Failed to rotate API key:', error)
+    }
+  }
+
+  const handleRevokePrevious = async () => {
+    try {
+      await revokePreviousMutation.mutateAsync(apiKey.id)
+      setRevokePreviousOpen(false)
+    } catch (error) {
+      console.error('Failed to revoke previous API key:', error)
     }
   }
 
   const createdAt = formatDate(apiKey.createdAt)
   const lastUsed = formatDateOrDefault(apiKey.lastUsedAt)
   const expiresAt = formatDateOrDefault(apiKey.expiresAt)
+  const hasAllScopes = API_KEY_SCOPES.every((scope) => apiKey.scopes.includes(scope))
+  const previousKey = getPreviousKeyStatus(apiKey)
+  const isRotating = regenerateMutation.isPending || rotateMutation.isPending
 
   return (
     <>
@@ -133,6 +197,44 @@ export function ApiKeyCard({ apiKey, className, onRegenerate }: ApiKeyCardProps)
                 <Icon name={copied ? 'check' : 'copy'} size="xs" />
               </button>
             </div>
+            {previousKey && (
+              <div
+                className={cn(
+                  'border-2 p-2',
+                  previousKey.expiringSoon ? 'border-yellow-500' : 'border-terminal-dim'
+                )}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="typo-ui text-terminal-dim">&gt; PREVIOUS KEY</div>
+                  <PermissionTooltip reason={canUpdate.reason}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRevokePreviousOpen(true)}
+                      disabled={!canUpdate.allowed}
+                      className="typo-ui text-destructive hover:text-destructive"
+                    >
+                      [REVOKE NOW]
+                    </Button>
+                  </PermissionTooltip>
+                </div>
+                <div className="typo-ui text-terminal-green font-mono">
+                  {previousKey.keyPrefix}...
+                </div>
+                <div
+                  className={cn(
+                    'typo-ui text-sm',
+                    previousKey.expiringSoon ? 'text-yellow-500' : 'text-terminal-dim'
+                  )}
+                  aria-live="polite"
+                >
+                  {previousKey.expiringSoon && '[!] '}
+                  STOPS WORKING IN {formatTimeRemaining(previousKey.remainingMs)} (
+                  {formatDateTime(previousKey.expiresAt)})
+                  {previousKey.expiringSoon && ' - switch remaining integrations to the new key'}
+                </div>
+              </div>
+            )}
             <div className="grid grid-cols-3 gap-4">
               <div>
                 <div className="typo-ui text-terminal-dim mb-1">&gt; CREATED</div>
@@ -147,39 +249,130 @@ export function ApiKeyCard({ apiKey, className, onRegenerate }: ApiKeyCardProps)
                 <div className="typo-ui text-terminal-green text-sm">{expiresAt}</div>
               </div>
             </div>
+            <div>
+              <div className="typo-ui text-terminal-dim mb-1">&gt; SCOPES</div>
+              <div className="flex flex-wrap gap-1">
+                {hasAllScopes ? (
+                  <Badge variant="outline" className="typo-ui text-terminal-green">
+                    [FULL ACCESS]
+                  </Badge>
+                ) : (
+                  apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="outline" className="typo-ui font-mono">
+                      {scope}
+                    </Badge>
+                  ))
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <div className="typo-ui text-terminal-dim mb-1">&gt; REQUESTS 24H</div>
+                <div className="typo-ui text-terminal-green text-sm">
+                  {usage ? formatNumber(usage.totalRequests) : '--'}
+                </div>
+              </div>
+              <div>
+                <div className="typo-ui text-terminal-dim mb-1">&gt; ERROR RATE</div>
+                <div className="typo-ui text-terminal-green text-sm">
+                  {usage ? formatUsageErrorRate(usage) : '--'}
+                </div>
+              </div>
+              <div>
+                <div className="typo-ui text-terminal-dim mb-1">&gt; LAST IP</div>
+                <div className="typo-ui text-terminal-green text-sm font-mono break-all">
+                  {usage?.lastSeen?.ip ?? '--'}
+                </div>
+              </div>
+            </div>
+            <div>
+              <div className="typo-ui text-terminal-dim mb-1">&gt; AUTO-ROTATION</div>
+              <div className="typo-ui text-terminal-green text-sm">
+                {apiKey.rotationPolicy
+                  ? `EVERY ${apiKey.rotationPolicy.intervalDays} DAYS${
+                      apiKey.rotationPolicy.nextRotationAt
+                        ? `, NEXT ${formatDate(apiKey.rotationPolicy.nextRotationAt)}`
+                        : ''
+                    }`
+                  : 'OFF'}
+              </div>
+            </div>
+            {(apiKey.allowedIps.length > 0 || apiKey.allowedOrigins.length > 0) && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="typo-ui text-terminal-dim mb-1">&gt; ALLOWED IPS</div>
+                  <div className="typo-ui text-terminal-green text-sm font-mono break-all">
+                    {apiKey.allowedIps.length > 0 ? apiKey.allowedIps.join(', ') : 'Any'}
+                  </div>
+                </div>
+                <div>
+                  <div className="typo-ui text-terminal-dim mb-1">&gt; ALLOWED ORIGINS</div>
+                  <div className="typo-ui text-terminal-green text-sm font-mono break-all">
+                    {apiKey.allowedOrigins.length > 0 ? apiKey.allowedOrigins.join(', ') : 'Any'}
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="flex flex-wrap gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={handleToggleEnabled}
-              disabled={updateMutation.isPending}
+              onClick={() => setUsageOpen(true)}
               className="typo-ui"
             >
-              {apiKey.enabled ? '[DISABLE]' : '[ENABLE]'}
+              [USAGE]
             </Button>
+            <PermissionTooltip reason={canUpdate.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleToggleEnabled}
+                disabled={!canUpdate.allowed || updateMutation.isPending}
+                className="typo-ui"
+              >
+                {apiKey.enabled ? '[DISABLE]' : '[ENABLE]'}
+              </Button>
+            </PermissionTooltip>
+            <PermissionTooltip reason={canUpdate.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRegenerateDialogOpen(true)}
+                disabled={!canUpdate.allowed}
+                className="typo-ui"
+              >
+                [ROTATE]
+              </Button>
+            </PermissionTooltip>
             <Button
               variant="outline"
               size="sm"
-              onClick={() => setRegenerateDialogOpen(true)}
+              onClick={() => setRotationOpen(true)}
               className="typo-ui"
             >
-              [REGENERATE]
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setDeleteDialogOpen(true)}
-              className="typo-ui text-destructive hover:text-destructive"
-              aria-label={`Delete API key ${apiKey.name}`}
-            >
-              [DELETE]
+              [AUTO-ROTATION]
             </Button>
+            <PermissionTooltip reason={canDelete.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDeleteDialogOpen(true)}
+                disabled={!canDelete.allowed}
+                className="typo-ui text-destructive hover:text-destructive"
+                aria-label={`Delete API key ${apiKey.name}`}
+              >
+                [DELETE]
+              </Button>
+            </PermissionTooltip>
           </div>
         </CardContent>
       </Card>
 
+      <ApiKeyUsageDrawer apiKey={apiKey} open={usageOpen} onOpenChange={setUsageOpen} />
+      <ApiKeyRotationDialog apiKey={apiKey} open={rotationOpen} onOpenChange={setRotationOpen} />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent className="border-2 border-terminal bg-terminal">
@@ -215,19 +408,49 @@ export function ApiKeyCard({ apiKey, className, onRegenerate }: ApiKeyCardProps)
         </DialogContent>
       </Dialog>
 
-      {/* Regenerate Confirmation Dialog */}
+      {/* Rotate/Regenerate Confirmation Dialog */}
       <Dialog open={regenerateDialogOpen} onOpenChange={setRegenerateDialogOpen}>
         <DialogContent className="border-2 border-terminal bg-terminal">
           <DialogHeader>
             <DialogTitle className="typo-ui text-terminal-green glow flex items-center gap-2">
               <Icon name="warning" size="sm" />
-              REGENERATE API KEY
+              ROTATE API KEY
             </DialogTitle>
             <DialogDescription className="typo-ui text-terminal-dim">
-              Regenerating will create a new key and invalidate the current one.
-              Any applications using the old key will need to be updated.
+              Rotating creates a new key. The current key keeps working for the grace period
+              so applications can be updated without downtime.
             </DialogDescription>
           </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`gracePeriod-${apiKey.id}`} className="typo-ui text-terminal-dim">
+              &gt; CURRENT KEY VALID FOR
+            </Label>
+            <Select value={gracePeriod} onValueChange={setGracePeriod}>
+              <SelectTrigger id={`gracePeriod-${apiKey.id}`} className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {API_KEY_GRACE_PERIOD_OPTIONS.map((hours) => (
+                  <SelectItem key={hours} value={String(hours)} className="typo-ui">
+                    {formatGracePeriod(hours).toUpperCase()}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NO_GRACE_PERIOD} className="typo-ui">
+                  REVOKE IMMEDIATELY
+                </SelectItem>
+              </SelectContent>
+            </Select>
+            {gracePeriod === NO_GRACE_PERIOD && (
+              <div className="typo-ui text-destructive">
+                [!] Applications using the current key stop working immediately.
+              </div>
+            )}
+            {previousKey && (
+              <div className="typo-ui text-yellow-500">
+                [!] The previous key {previousKey.keyPrefix}... is revoked by this rotation.
+              </div>
+            )}
+          </div>
           <DialogFooter className="gap-2">
             <Button
               variant="outline"
@@ -240,14 +463,25 @@ export function ApiKeyCard({ apiKey, className, onRegenerate }: ApiKeyCardProps)
             <Button
               size="sm"
               onClick={handleRegenerate}
-              disabled={regenerateMutation.isPending}
+              disabled={isRotating}
               className="typo-ui"
             >
-              {regenerateMutation.isPending ? '[REGENERATING...]' : '[CONFIRM REGENERATE]'}
+              {isRotating ? '[ROTATING...]' : '[CONFIRM ROTATE]'}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <ConfirmDialog
+        open={revokePreviousOpen}
+        onOpenChange={setRevokePreviousOpen}
+        title="Revoke previous key"
+        description={`Applications still using ${previousKey ? `${previousKey.keyPrefix}...` : 'the previous key'} stop working immediately instead of at the end of the grace period.`}
+        confirmLabel="Revoke"
+        variant="destructive"
+        onConfirm={handleRevokePrevious}
+        isLoading={revokePreviousMutation.isPending}
+      />
     </>
   )
 }
@@ -0,0 +1,134 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import type { ApiKey } from '@/types/models'
+import { ApiKeyRotationDialog } from './ApiKeyRotationDialog'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const DAY = 24 * 60 * 60 * 1000
+const KEY_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const mockApiKey: ApiKey = {
+  id: KEY_ID,
+  organizationId: '550e8400-e29b-41d4-a716-446655440001',
+  name: 'Production API Key',
+  keyPrefix: 'auri_live_def456',
+  tier: 'standard',
+  enabled: true,
+  createdAt: '2025-01-01T00:00:00Z',
+  lastUsedAt: '2025-01-15T10:30:00Z',
+  expiresAt: null,
+  scopes: ['events:read', 'agents:read', 'reputation:query'],
+  allowedIps: [],
+  allowedOrigins: [],
+  previousKey: null,
+  rotationPolicy: {
+    intervalDays: 90,
+    gracePeriodHours: 24,
+    nextRotationAt: new Date(Date.now() + 60 * DAY).toISOString(),
+    lastRotatedAt: new Date(Date.now() - 30 * DAY).toISOString(),
+  },
+}
+
+const event = (index: number, eventType: string, extra: Record<string, unknown>) => ({
+  id: `550e8400-e29b-41d4-a716-${String(index + 100).padStart(12, '0')}`,
+  key_id: KEY_ID,
+  event_type: eventType,
+  actor: null,
+  created_at: new Date(Date.now() - index * 15 * DAY).toISOString(),
+  ...extra,
+})
+
+const mockEvents = [
+  event(2, 'previous_key_expired', { previous_key_prefix: 'auri_live_abc123' }),
+  event(2, 'auto_rotated', {
+    key_prefix: 'auri_live_def456',
+    previous_key_prefix: 'auri_live_abc123',
+    grace_period_hours: 24,
+  }),
+  event(3, 'policy_updated', {
+    actor: { id: '550e8400-e29b-41d4-a716-446655440009', name: 'Alice' },
+    interval_days: 90,
+    grace_period_hours: 24,
+  }),
+  event(4, 'rotated', {
+    actor: { id: '550e8400-e29b-41d4-a716-446655440009', name: 'Alice' },
+    key_prefix: 'auri_live_abc123',
+    previous_key_prefix: 'auri_live_xyz789',
+    grace_period_hours: 168,
+  }),
+]
+
+const meta: Meta<typeof ApiKeyRotationDialog> = {
+  title: 'Organisms/ApiKeyRotationDialog',
+  component: ApiKeyRotationDialog,
+  parameters: {
+    layout: 'centered',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+  args: {
+    apiKey: mockApiKey,
+    open: true,
+    onOpenChange: () => {},
+  },
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/api-keys/:id/rotations', () =>
+          HttpResponse.json({
+            data: mockEvents,
+            pagination: { total: mockEvents.length, limit: 10, offset: 0, has_more: false },
+          })
+        ),
+      ],
+    },
+  },
+}
+
+export const NoPolicy: Story = {
+  args: {
+    apiKey: { ...mockApiKey, rotationPolicy: null },
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/api-keys/:id/rotations', () =>
+          HttpResponse.json({
+            data: [],
+            pagination: { total: 0, limit: 10, offset: 0, has_more: false },
+          })
+        ),
+      ],
+    },
+  },
+}
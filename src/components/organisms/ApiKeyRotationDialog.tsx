@@ -0,0 +1,285 @@
+/**
+ * ApiKeyRotationDialog
+ *
+ * Rotation settings of an API key: the scheduled auto-rotation policy
+ * (interval and grace period) and the rotation audit trail, listing
+ * manual and scheduled rotations, regenerations, revoked or expired
+ * previous keys and policy changes with who made them.
+ *
+ * @module components/organisms/ApiKeyRotationDialog
+ *
+ * @example
+ * ```tsx
+ * <ApiKeyRotationDialog apiKey={apiKey} open={isOpen} onOpenChange={setIsOpen} />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import { Checkbox } from '@/components/atoms/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/atoms/dialog'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { ApiErrorDisplay, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
+import { useApiKeyRotations, usePermission, useUpdateApiKeyRotationPolicy } from '@/hooks'
+import {
+  API_KEY_GRACE_PERIOD_OPTIONS,
+  API_KEY_ROTATION_INTERVAL_OPTIONS,
+  DEFAULT_API_KEY_GRACE_PERIOD_HOURS,
+  DEFAULT_API_KEY_ROTATION_INTERVAL_DAYS,
+  formatGracePeriod,
+} from '@/lib/api-key-rotation'
+import { formatDateTime } from '@/lib/format'
+import type { ApiKeyRotationEvent, ApiKeyRotationEventType } from '@/lib/validations'
+import type { ApiKey } from '@/types/models'
+
+/** Number of rotation events loaded per page */
+const PAGE_SIZE = 10
+
+/**
+ * Props for the ApiKeyRotationDialog component.
+ */
+interface ApiKeyRotationDialogProps {
+  /** The API key to manage rotation for */
+  apiKey: ApiKey
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+}
+
+const EVENT_LABELS: Record<ApiKeyRotationEventType, string> = {
+  rotated: 'ROTATED',
+  auto_rotated: 'AUTO-ROTATED',
+  regenerated: 'REGENERATED',
+  previous_key_revoked: 'OLD KEY REVOKED',
+  previous_key_expired: 'OLD KEY EXPIRED',
+  policy_updated: 'POLICY UPDATED',
+  policy_disabled: 'POLICY DISABLED',
+}
+
+/**
+ * Details of a rotation event, e.g. `8004_old... -> 8004_new..., 24 hours grace`
+ */
+function describeEvent(event: ApiKeyRotationEvent): string {
+  const parts: string[] = []
+  if (event.previousKeyPrefix && event.keyPrefix) {
+    parts.push(`${event.previousKeyPrefix}... -> ${event.keyPrefix}...`)
+  } else if (event.previousKeyPrefix ?? event.keyPrefix) {
+    parts.push(`${event.previousKeyPrefix ?? event.keyPrefix}...`)
+  }
+  if (event.intervalDays !== null) parts.push(`every ${event.intervalDays} days`)
+  if (event.gracePeriodHours !== null) {
+    parts.push(`${formatGracePeriod(event.gracePeriodHours)} grace`)
+  }
+  return parts.join(', ')
+}
+
+function RotationHistory({ keyId }: { keyId: string }) {
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const { data, isLoading, error } = useApiKeyRotations(keyId, { limit })
+  const events = data?.data ?? []
+
+  if (isLoading) return <LoadingSkeleton count={3} height={40} />
+
+  if (error) {
+    return (
+      <ApiErrorDisplay
+        error={error instanceof Error ? error : new Error('An unexpected error occurred')}
+        title="ERROR LOADING ROTATION HISTORY"
+      />
+    )
+  }
+
+  if (events.length === 0) {
+    return <div className="typo-ui text-terminal-dim/70">This key has never been rotated.</div>
+  }
+
+  return (
+    <div className="space-y-2">
+      <ul className="max-h-64 space-y-2 overflow-y-auto">
+        {events.map((event) => (
+          <li key={event.id} className="border-2 border-terminal-dim p-2 typo-ui">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <span className="text-terminal-green">{EVENT_LABELS[event.eventType]}</span>
+              <span className="text-terminal-dim">{formatDateTime(event.createdAt)}</span>
+            </div>
+            <div className="text-terminal-dim break-all">
+              BY {event.actor?.name ?? (event.actor ? 'UNKNOWN USER' : 'SYSTEM')}
+              {describeEvent(event) && (
+                <span className="font-mono text-terminal-dim/80"> / {describeEvent(event)}</span>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+      {data?.pagination.hasMore && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="typo-ui"
+          onClick={() => setLimit((value) => value + PAGE_SIZE)}
+        >
+          [LOAD MORE]
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function ApiKeyRotationDialog({ apiKey, open, onOpenChange }: ApiKeyRotationDialogProps) {
+  const policy = apiKey.rotationPolicy
+  const [enabled, setEnabled] = useState(policy !== null)
+  const [intervalDays, setIntervalDays] = useState(
+    policy?.intervalDays ?? DEFAULT_API_KEY_ROTATION_INTERVAL_DAYS
+  )
+  const [gracePeriodHours, setGracePeriodHours] = useState(
+    policy?.gracePeriodHours ?? DEFAULT_API_KEY_GRACE_PERIOD_HOURS
+  )
+
+  const updatePolicy = useUpdateApiKeyRotationPolicy()
+  const canUpdate = usePermission('update', 'api_key')
+
+  // Keep a custom interval or grace period set through the API selectable
+  const intervalOptions = [...new Set([...API_KEY_ROTATION_INTERVAL_OPTIONS, intervalDays])].sort(
+    (a, b) => a - b
+  )
+  const graceOptions = [...new Set([...API_KEY_GRACE_PERIOD_OPTIONS, gracePeriodHours])].sort(
+    (a, b) => a - b
+  )
+
+  const isUnchanged = enabled
+    ? policy?.intervalDays === intervalDays && policy.gracePeriodHours === gracePeriodHours
+    : policy === null
+
+  const handleSave = () => {
+    updatePolicy.mutate({
+      keyId: apiKey.id,
+      policy: enabled ? { intervalDays, gracePeriodHours } : null,
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="typo-ui text-terminal-green glow">
+            [&gt;] ROTATION: {apiKey.name}
+          </DialogTitle>
+          <DialogDescription className="typo-ui text-terminal-dim">
+            Scheduled rotations issue a new secret and keep the previous one working for the grace
+            period. Your integrations must fetch the new secret before it ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="autoRotate"
+              checked={enabled}
+              onCheckedChange={(checked) => setEnabled(checked === true)}
+              disabled={!canUpdate.allowed}
+            />
+            <Label htmlFor="autoRotate" className="typo-ui text-terminal-green">
+              ROTATE AUTOMATICALLY
+            </Label>
+          </div>
+
+          {enabled && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rotationInterval" className="typo-ui text-terminal-dim">
+                  &gt; EVERY
+                </Label>
+                <Select
+                  value={String(intervalDays)}
+                  onValueChange={(value) => setIntervalDays(Number(value))}
+                  disabled={!canUpdate.allowed}
+                >
+                  <SelectTrigger id="rotationInterval" className="typo-ui">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {intervalOptions.map((days) => (
+                      <SelectItem key={days} value={String(days)} className="typo-ui">
+                        {days} DAYS
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rotationGracePeriod" className="typo-ui text-terminal-dim">
+                  &gt; OLD KEY VALID FOR
+                </Label>
+                <Select
+                  value={String(gracePeriodHours)}
+                  onValueChange={(value) => setGracePeriodHours(Number(value))}
+                  disabled={!canUpdate.allowed}
+                >
+                  <SelectTrigger id="rotationGracePeriod" className="typo-ui">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {graceOptions.map((hours) => (
+                      <SelectItem key={hours} value={String(hours)} className="typo-ui">
+                        {formatGracePeriod(hours).toUpperCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {policy?.nextRotationAt && (
+            <div className="typo-ui text-terminal-dim">
+              &gt; NEXT ROTATION:{' '}
+              <span className="text-terminal-green">{formatDateTime(policy.nextRotationAt)}</span>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="typo-ui text-terminal-dim">&gt; ROTATION HISTORY</div>
+            {open && <RotationHistory keyId={apiKey.id} />}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onOpenChange(false)}
+            className="typo-ui"
+          >
+            [CLOSE]
+          </Button>
+          <PermissionTooltip reason={canUpdate.reason}>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={!canUpdate.allowed || isUnchanged || updatePolicy.isPending}
+              className="typo-ui"
+            >
+              {updatePolicy.isPending ? '[SAVING...]' : '[SAVE POLICY]'}
+            </Button>
+          </PermissionTooltip>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,144 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import type { ApiKey } from '@/types/models'
+import { ApiKeyUsageDrawer } from './ApiKeyUsageDrawer'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const HOUR = 60 * 60 * 1000
+
+const mockApiKey: ApiKey = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  organizationId: '550e8400-e29b-41d4-a716-446655440001',
+  name: 'Production API Key',
+  keyPrefix: 'auri_live_abc123',
+  tier: 'standard',
+  enabled: true,
+  createdAt: '2025-01-01T00:00:00Z',
+  lastUsedAt: '2025-01-15T10:30:00Z',
+  expiresAt: null,
+  scopes: ['events:read', 'agents:read', 'reputation:query'],
+  allowedIps: [],
+  allowedOrigins: [],
+  previousKey: null,
+  rotationPolicy: null,
+}
+
+const series = Array.from({ length: 24 }, (_, index) => {
+  const requests = 20 + ((index * 37) % 80)
+  return {
+    timestamp: new Date(Date.now() - (23 - index) * HOUR).toISOString(),
+    requests,
+    errors: index % 6 === 0 ? Math.round(requests / 10) : 0,
+  }
+})
+
+const usageResponse = {
+  data: {
+    key_id: mockApiKey.id,
+    range: '24h',
+    total_requests: series.reduce((sum, point) => sum + point.requests, 0),
+    error_requests: series.reduce((sum, point) => sum + point.errors, 0),
+    rate_limited_requests: 4,
+    series,
+    top_endpoints: [
+      { method: 'GET', path: '/api/v1/events', requests: 812, errors: 6, p95_latency_ms: 140 },
+      { method: 'GET', path: '/api/v1/agents/:id', requests: 301, errors: 2, p95_latency_ms: 95 },
+      {
+        method: 'POST',
+        path: '/api/v1/reputation/query',
+        requests: 88,
+        errors: 9,
+        p95_latency_ms: 410,
+      },
+    ],
+    status_codes: { '200': 1180, '304': 20, '404': 8, '429': 4, '500': 5 },
+    latency_ms: { p50: 42, p95: 180, p99: 520 },
+    last_seen: {
+      at: new Date(Date.now() - 5 * 60 * 1000).toISOString(),
+      ip: '203.0.113.7',
+      user_agent: 'agent-monitor/2.3 (+https://example.com)',
+    },
+  },
+}
+
+const meta: Meta<typeof ApiKeyUsageDrawer> = {
+  title: 'Organisms/ApiKeyUsageDrawer',
+  component: ApiKeyUsageDrawer,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+  args: {
+    apiKey: mockApiKey,
+    open: true,
+    onOpenChange: () => {},
+  },
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  parameters: {
+    msw: {
+      handlers: [http.get('/api/v1/api-keys/:id/usage', () => HttpResponse.json(usageResponse))],
+    },
+  },
+}
+
+export const Unused: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/api-keys/:id/usage', () =>
+          HttpResponse.json({
+            data: {
+              ...usageResponse.data,
+              total_requests: 0,
+              error_requests: 0,
+              rate_limited_requests: 0,
+              series: [],
+              top_endpoints: [],
+              status_codes: {},
+              latency_ms: null,
+              last_seen: null,
+            },
+          })
+        ),
+      ],
+    },
+  },
+}
+
+export const ErrorState: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/api-keys/:id/usage', () =>
+          HttpResponse.json({ message: 'Internal server error' }, { status: 500 })
+        ),
+      ],
+    },
+  },
+}
@@ -0,0 +1,302 @@
+/**
+ * ApiKeyUsageDrawer
+ *
+ * Side drawer with the usage analytics of a single API key over the last
+ * 24 hours, 7 days or 30 days: requests and errors over time, the busiest
+ * endpoints, status code distribution, latency percentiles and the IP and
+ * user agent that last used the key. The timeline and endpoint breakdown
+ * can be downloaded as CSV.
+ *
+ * @module components/organisms/ApiKeyUsageDrawer
+ *
+ * @example
+ * ```tsx
+ * <ApiKeyUsageDrawer apiKey={apiKey} open={isOpen} onOpenChange={setIsOpen} />
+ * ```
+ */
+'use client'
+
+import { type ReactNode, useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/atoms/sheet'
+import { ApiErrorDisplay, BarChart, LoadingSkeleton, StatCard } from '@/components/molecules'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import { useApiKeyUsage } from '@/hooks'
+import {
+  API_KEY_USAGE_RANGE_LABELS,
+  type ApiKeyUsageExport,
+  formatUsageErrorRate,
+  getUsageCsvFilename,
+  groupStatusClasses,
+  toUsageEndpointsCsv,
+  toUsageTimelineCsv,
+} from '@/lib/api-key-usage'
+import { formatDate, formatDateTime, formatNumber } from '@/lib/format'
+import { API_KEY_USAGE_RANGES, type ApiKeyUsage, type ApiKeyUsageRange } from '@/lib/validations'
+import type { ApiKey } from '@/types/models'
+
+/**
+ * Props for the ApiKeyUsageDrawer component.
+ */
+interface ApiKeyUsageDrawerProps {
+  /** The API key to show usage for */
+  apiKey: ApiKey
+  /** Whether the drawer is open */
+  open: boolean
+  /** Callback to control drawer open state */
+  onOpenChange: (open: boolean) => void
+  /** Initially selected range */
+  defaultRange?: ApiKeyUsageRange
+}
+
+const STATUS_CLASS_STYLES: Record<string, string> = {
+  '2XX': 'text-terminal-green',
+  '3XX': 'text-terminal-dim',
+  '4XX': 'text-yellow-500',
+  '5XX': 'text-destructive',
+}
+
+function formatLatency(ms: number | null | undefined): string {
+  return ms == null ? '--' : `${formatNumber(Math.round(ms))}ms`
+}
+
+function Panel({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-3 border-2 border-terminal p-4">
+      <div className="typo-ui text-terminal-dim">&gt; {title}</div>
+      {children}
+    </div>
+  )
+}
+
+/** Save a CSV through a temporary download link */
+function downloadCsv(content: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: 'text/csv' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function UsageDetails({ apiKey, usage }: { apiKey: ApiKey; usage: ApiKeyUsage }) {
+  const formatBucket = usage.range === '24h' ? formatDateTime : formatDate
+
+  const handleExport = (part: ApiKeyUsageExport) => {
+    const content = part === 'timeline' ? toUsageTimelineCsv(usage) : toUsageEndpointsCsv(usage)
+    downloadCsv(content, getUsageCsvFilename(apiKey.name, usage, part))
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <StatCard
+          label="Requests"
+          value={formatNumber(usage.totalRequests)}
+          variant="highlight"
+          size="sm"
+        />
+        <StatCard
+          label="Error Rate"
+          value={formatUsageErrorRate(usage)}
+          description={`${formatNumber(usage.errorRequests)} errors`}
+          size="sm"
+        />
+        <StatCard label="Rate Limited" value={formatNumber(usage.rateLimitedRequests)} size="sm" />
+        <StatCard
+          label="Latency P95"
+          value={formatLatency(usage.latency?.p95Ms)}
+          description={`p50 ${formatLatency(usage.latency?.p50Ms)} / p99 ${formatLatency(usage.latency?.p99Ms)}`}
+          size="sm"
+        />
+      </div>
+
+      <Panel title={usage.range === '24h' ? 'REQUESTS PER HOUR' : 'REQUESTS PER DAY'}>
+        <BarChart
+          data={usage.series.map((point) => ({
+            label: formatBucket(point.timestamp),
+            value: point.requests,
+          }))}
+          height={140}
+          ariaLabel="Requests over time"
+        />
+      </Panel>
+
+      <Panel title="ERRORS OVER TIME">
+        <BarChart
+          data={usage.series.map((point) => ({
+            label: formatBucket(point.timestamp),
+            value: point.errors,
+          }))}
+          height={80}
+          ariaLabel="Errors over time"
+        />
+      </Panel>
+
+      <Panel title="TOP ENDPOINTS">
+        {usage.topEndpoints.length === 0 ? (
+          <div className="typo-ui text-terminal-dim/70">No requests in range</div>
+        ) : (
+          <ul className="space-y-2 typo-ui">
+            {usage.topEndpoints.map((endpoint) => (
+              <li
+                key={`${endpoint.method} ${endpoint.path}`}
+                className="flex flex-wrap items-baseline justify-between gap-2"
+              >
+                <span className="font-mono break-all">
+                  <span className="text-terminal-dim">{endpoint.method}</span>{' '}
+                  <span className="text-terminal-green">{endpoint.path}</span>
+                </span>
+                <span className="text-terminal-dim">
+                  {formatNumber(endpoint.requests)} REQ
+                  {endpoint.errors > 0 && (
+                    <span className="text-destructive"> / {formatNumber(endpoint.errors)} ERR</span>
+                  )}
+                  {endpoint.p95LatencyMs !== null &&
+                    ` / P95 ${formatLatency(endpoint.p95LatencyMs)}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Panel>
+
+      <Panel title="STATUS CODES">
+        {usage.statusCodes.length === 0 ? (
+          <div className="typo-ui text-terminal-dim/70">No requests in range</div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-3 typo-ui">
+              {groupStatusClasses(usage.statusCodes).map((group) => (
+                <span key={group.label} className={STATUS_CLASS_STYLES[group.label]}>
+                  {group.label}: {formatNumber(group.count)}
+                </span>
+              ))}
+            </div>
+            <BarChart
+              orientation="horizontal"
+              data={usage.statusCodes.map((entry) => ({
+                label: String(entry.status),
+                value: entry.count,
+              }))}
+              ariaLabel="Requests by status code"
+            />
+          </>
+        )}
+      </Panel>
+
+      <Panel title="LAST SEEN">
+        {usage.lastSeen ? (
+          <div className="space-y-1 typo-ui">
+            <div className="text-terminal-green">{formatDateTime(usage.lastSeen.at)}</div>
+            <div>
+              <span className="text-terminal-dim">IP:</span>{' '}
+              <span className="font-mono text-terminal-green">
+                {usage.lastSeen.ip ?? 'Unknown'}
+              </span>
+            </div>
+            <div className="break-all">
+              <span className="text-terminal-dim">USER AGENT:</span>{' '}
+              <span className="font-mono text-terminal-green">
+                {usage.lastSeen.userAgent ?? 'Unknown'}
+              </span>
+            </div>
+          </div>
+        ) : (
+          <div className="typo-ui text-terminal-dim/70">This key has not been used yet</div>
+        )}
+      </Panel>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="typo-ui"
+          onClick={() => handleExport('timeline')}
+          disabled={usage.series.length === 0}
+        >
+          [EXPORT TIMELINE CSV]
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="typo-ui"
+          onClick={() => handleExport('endpoints')}
+          disabled={usage.topEndpoints.length === 0}
+        >
+          [EXPORT ENDPOINTS CSV]
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export function ApiKeyUsageDrawer({
+  apiKey,
+  open,
+  onOpenChange,
+  defaultRange = '24h',
+}: ApiKeyUsageDrawerProps) {
+  const [range, setRange] = useState<ApiKeyUsageRange>(defaultRange)
+  const { data: usage, isLoading, error } = useApiKeyUsage(open ? apiKey.id : null, range)
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side="right"
+        className="border-l-2 border-terminal bg-terminal w-full sm:max-w-xl overflow-y-auto"
+      >
+        <SheetHeader>
+          <SheetTitle className="typo-ui text-terminal-green glow">
+            [&gt;] USAGE: {apiKey.name}
+          </SheetTitle>
+          <SheetDescription className="typo-ui text-terminal-dim font-mono">
+            {apiKey.keyPrefix}...
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-4 px-4 pb-4">
+          <div className="flex gap-2">
+            {API_KEY_USAGE_RANGES.map((option) => (
+              <Button
+                key={option}
+                variant={option === range ? 'default' : 'outline'}
+                size="sm"
+                className="typo-ui"
+                aria-pressed={option === range}
+                onClick={() => setRange(option)}
+              >
+                [{API_KEY_USAGE_RANGE_LABELS[option]}]
+              </Button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <LoadingSkeleton count={4} height={100} />
+          ) : error ? (
+            <ApiErrorDisplay
+              error={error instanceof Error ? error : new Error('Usage could not be loaded')}
+              title="ERROR LOADING USAGE"
+            />
+          ) : !usage || usage.totalRequests === 0 ? (
+            <EmptyState
+              icon="api-keys"
+              title="NO REQUESTS IN RANGE"
+              description="Usage appears here once applications call the API with this key."
+              variant="subtle"
+              size="sm"
+            />
+          ) : (
+            <UsageDetails apiKey={apiKey} usage={usage} />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from '@storybook/nextjs-vite'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { http, HttpResponse } from 'msw'
 import { ApiKeysList } from './ApiKeysList'
+import { useOrganizationStore } from '@/stores/organization-store'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -52,6 +53,9 @@ const meta: Meta<typeof ApiKeysList> = {
     },
   },
   tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
   decorators: [
     (Story) => (
       <QueryClientProvider client={queryClient}>
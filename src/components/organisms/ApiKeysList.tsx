@@ -2,6 +2,7 @@
  * ApiKeysList
  *
  * Displays a grid of API key cards with a create button.
+ * Warns when rotated-out keys are about to stop working.
  * Handles loading states, errors, and empty states.
  *
  * @module components/organisms/ApiKeysList
@@ -19,9 +20,10 @@
 import { useState } from 'react'
 import { Button } from '@/components/atoms/button'
 import { Icon } from '@/components/atoms/icon'
-import { ApiErrorDisplay, LoadingSkeleton } from '@/components/molecules'
+import { ApiErrorDisplay, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
 import { EmptyListState } from '@/components/molecules/EmptyState'
-import { useApiKeys } from '@/hooks'
+import { useApiKeys, usePermission } from '@/hooks'
+import { getPreviousKeyStatus, PREVIOUS_KEY_WARNING_HOURS } from '@/lib/api-key-rotation'
 import { ApiKeyCard } from './ApiKeyCard'
 import { ApiKeyCreatedDialog } from './ApiKeyCreatedDialog'
 
@@ -40,6 +42,7 @@ export function ApiKeysList({ organizationId, onCreateKey }: ApiKeysListProps) {
   const [keyCreatedDialogOpen, setKeyCreatedDialogOpen] = useState(false)
 
   const { data, isLoading, error } = useApiKeys(organizationId)
+  const canCreate = usePermission('create', 'api_key')
 
   const handleRegenerate = (key: string) => {
     setNewKey(key)
@@ -64,20 +67,31 @@ export function ApiKeysList({ organizationId, onCreateKey }: ApiKeysListProps) {
   }
 
   const apiKeys = data?.data ?? []
+  const expiringPreviousKeys = apiKeys.filter((apiKey) => getPreviousKeyStatus(apiKey)?.expiringSoon)
 
   return (
     <div data-slot="api-keys-list" className="space-y-6">
       {/* Header with Create Button */}
       <div className="flex justify-end">
-        <Button onClick={onCreateKey} className="typo-ui">
-          <Icon name="add" size="sm" className="mr-1" />
-          [CREATE API KEY]
-        </Button>
+        <PermissionTooltip reason={canCreate.reason}>
+          <Button onClick={onCreateKey} disabled={!canCreate.allowed} className="typo-ui">
+            <Icon name="add" size="sm" className="mr-1" />
+            [CREATE API KEY]
+          </Button>
+        </PermissionTooltip>
       </div>
 
+      {expiringPreviousKeys.length > 0 && (
+        <div className="border-2 border-yellow-500 p-3 typo-ui text-yellow-500" aria-live="polite">
+          [!] PREVIOUS KEYS OF {expiringPreviousKeys.map((apiKey) => apiKey.name).join(', ')} STOP
+          WORKING WITHIN {PREVIOUS_KEY_WARNING_HOURS}H. Switch remaining integrations to the new
+          keys.
+        </div>
+      )}
+
       {/* API Keys Grid */}
       {apiKeys.length === 0 ? (
-        <EmptyListState itemName="API key" onCreate={onCreateKey} />
+        <EmptyListState itemName="API key" onCreate={canCreate.allowed ? onCreateKey : undefined} />
       ) : (
         <div className="grid grid-cols-[repeat(auto-fit,minmax(320px,1fr))] gap-4">
           {apiKeys.map((apiKey) => (
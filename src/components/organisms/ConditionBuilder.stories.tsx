@@ -1,8 +1,17 @@
 import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { useState } from 'react'
 import { ConditionBuilder } from './ConditionBuilder'
 import type { TriggerCondition } from '@/lib/validations/trigger'
 
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
 const meta = {
   title: 'Triggers/ConditionBuilder',
   component: ConditionBuilder,
@@ -17,9 +26,11 @@ const meta = {
   },
   decorators: [
     (Story) => (
-      <div className="max-w-2xl">
-        <Story />
-      </div>
+      <QueryClientProvider client={queryClient}>
+        <div className="max-w-2xl">
+          <Story />
+        </div>
+      </QueryClientProvider>
     ),
   ],
   tags: ['autodocs'],
@@ -88,6 +99,26 @@ export const AgentFilter: Story = {
   },
 }
 
+/**
+ * Agent filter matching a watchlist.
+ * Matches every agent ID and chain pair in the selected watchlist.
+ */
+export const AgentWatchlist: Story = {
+  args: {
+    condition: {
+      tempId: 'condition-2',
+      conditionType: 'agent_filter',
+      field: 'agent_id',
+      operator: 'in',
+      value: 'watchlist:550e8400-e29b-41d4-a716-446655440010',
+      config: {},
+    },
+    onChange: () => {},
+    onRemove: () => {},
+    canRemove: true,
+  },
+}
+
 /**
  * Event filter condition.
  * Filters events by type or name.
@@ -168,6 +199,27 @@ export const CannotRemove: Story = {
   },
 }
 
+/**
+ * Field comparison scoped to an event type.
+ * Only the event's schema fields are offered and the value is type-checked.
+ */
+export const TypedFieldComparison: Story = {
+  args: {
+    condition: {
+      tempId: 'condition-typed',
+      conditionType: 'field_comparison',
+      field: 'clientAddress',
+      operator: 'eq',
+      value: '0xab5801a7D398351b8bE11C439e05C5B3259aeC9B',
+      config: {},
+    },
+    eventType: 'ReputationUpdated',
+    onChange: () => {},
+    onRemove: () => {},
+    canRemove: true,
+  },
+}
+
 /**
  * Interactive example with state management.
  * Demonstrates real-time updates as fields are edited.
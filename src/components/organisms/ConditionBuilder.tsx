@@ -2,7 +2,16 @@
  * ConditionBuilder
  *
  * A form component for building trigger conditions with type-specific configuration.
- * Supports reputation thresholds, agent filters, event filters, field comparisons, and time conditions.
+ * Supports reputation thresholds, agent filters, event filters, field comparisons, and time conditions,
+ * plus event count thresholds and time windows for stateful triggers.
+ *
+ * Fields, operators and value inputs follow the event schema registry: when
+ * an event type is given, only its fields are offered, and values are
+ * validated against the field type (number, checksummed address, bytes32,
+ * timestamp or enum).
+ *
+ * Agent ID conditions can match a whole watchlist with the `in` operator
+ * (`agentId in watchlist:<id>`) instead of a hand-typed list.
  *
  * @module components/organisms/ConditionBuilder
  *
@@ -25,7 +34,23 @@ import { Input } from '@/components/atoms/input'
 import { Label } from '@/components/atoms/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/atoms/select'
 import { Textarea } from '@/components/atoms/textarea'
+import { DurationInput } from '@/components/molecules/DurationInput'
+import { WatchlistSelect } from '@/components/molecules/WatchlistSelect'
+import { getConditionFieldOptions } from '@/lib/config-helpers'
+import {
+  dateTimeInputToUnix,
+  type EventFieldDefinition,
+  findEventField,
+  getFieldOperators,
+  unixToDateTimeInput,
+  validateConditionValue,
+} from '@/lib/event-schemas'
 import type { TriggerCondition } from '@/lib/validations/trigger'
+import {
+  parseWatchlistReference,
+  supportsWatchlistReference,
+  toWatchlistReference,
+} from '@/lib/watchlists'
 import { ConditionTypeSelector, type ConditionType } from './ConditionTypeSelector'
 
 /**
@@ -40,6 +65,8 @@ interface ConditionBuilderProps {
   onRemove: () => void
   /** Whether the remove button should be enabled */
   canRemove: boolean
+  /** Event type the trigger listens for (scopes the available fields) */
+  eventType?: string
 }
 
 const OPERATORS: Array<{ value: string; label: string; types: string[] }> = [
@@ -55,9 +82,134 @@ const OPERATORS: Array<{ value: string; label: string; types: string[] }> = [
   { value: 'endsWith', label: 'Ends With', types: ['text'] },
 ]
 
-export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: ConditionBuilderProps) {
+/**
+ * Value input matching the field type
+ *
+ * `in` always takes a comma-separated list, or a watchlist for agent ID
+ * fields; unknown fields get a text input.
+ */
+function TypedValueInput({
+  id,
+  field,
+  operator,
+  value,
+  onChange,
+}: {
+  id: string
+  field: EventFieldDefinition | undefined
+  operator: TriggerCondition['operator'] | undefined
+  value: string
+  onChange: (value: string) => void
+}) {
+  if (operator === 'in' && supportsWatchlistReference(field?.name)) {
+    return (
+      <div className="space-y-2">
+        <Input
+          id={id}
+          type="text"
+          placeholder="Comma-separated values"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="typo-ui"
+        />
+        <WatchlistSelect
+          value={parseWatchlistReference(value)}
+          onChange={(watchlistId) => onChange(toWatchlistReference(watchlistId))}
+          placeholder="...or match a watchlist"
+        />
+      </div>
+    )
+  }
+
+  if (!field || operator === 'in') {
+    return (
+      <Input
+        id={id}
+        type="text"
+        placeholder={operator === 'in' ? 'Comma-separated values' : 'Comparison value'}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="typo-ui"
+      />
+    )
+  }
+
+  switch (field.type) {
+    case 'numeric':
+      return (
+        <Input
+          id={id}
+          type="number"
+          step="any"
+          placeholder="e.g., 80"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="typo-ui"
+        />
+      )
+    case 'timestamp':
+      return (
+        <div className="space-y-1">
+          <Input
+            id={id}
+            type="datetime-local"
+            value={unixToDateTimeInput(value)}
+            onChange={(e) => onChange(dateTimeInputToUnix(e.target.value))}
+            className="typo-ui"
+          />
+          {value && <div className="typo-ui text-terminal-dim/80">Unix: {value}</div>}
+        </div>
+      )
+    case 'enum':
+      return (
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger id={id} className="typo-ui">
+            <SelectValue placeholder="Select value..." />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option} value={option} className="typo-ui">
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )
+    default:
+      return (
+        <Input
+          id={id}
+          type="text"
+          placeholder={field.type === 'address' ? '0x1234567890abcdef...' : '0x... (32 bytes)'}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="typo-code"
+        />
+      )
+  }
+}
+
+export function ConditionBuilder({
+  condition,
+  onChange,
+  onRemove,
+  canRemove,
+  eventType,
+}: ConditionBuilderProps) {
   const [preview, setPreview] = useState('')
   const conditionType = condition.conditionType as ConditionType | undefined
+  const fieldDefinition = condition.field ? findEventField(condition.field, eventType) : undefined
+  const valueError =
+    fieldDefinition && condition.value
+      ? validateConditionValue(fieldDefinition, condition.operator ?? 'eq', condition.value)
+      : null
+  const fieldOptions = getConditionFieldOptions('field_comparison', eventType)
+  const agentWatchlistId =
+    conditionType === 'agent_filter' ? parseWatchlistReference(condition.value) : null
+  const agentMatchType =
+    agentWatchlistId !== null || condition.field === 'agent_id'
+      ? 'watchlist'
+      : (condition.operator ?? 'in')
 
   // Update preview when condition changes
   const updatePreview = () => {
@@ -118,6 +270,22 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
           value: '',
         })
         break
+      case 'threshold':
+        onChange({
+          ...baseUpdate,
+          field: 'match_count',
+          operator: 'gte',
+          value: '',
+        })
+        break
+      case 'time_window':
+        onChange({
+          ...baseUpdate,
+          field: 'seconds_since_last_match',
+          operator: 'lte',
+          value: '',
+        })
+        break
       default:
         onChange(baseUpdate)
     }
@@ -125,6 +293,10 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
 
   // Get relevant operators for current field type
   const getRelevantOperators = () => {
+    if (fieldDefinition) {
+      const allowed = getFieldOperators(fieldDefinition)
+      return OPERATORS.filter((op) => allowed.includes(op.value as TriggerCondition['operator']))
+    }
     if (!conditionType) return OPERATORS
 
     switch (conditionType) {
@@ -141,6 +313,31 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
     }
   }
 
+  const handleFieldChange = (field: string) => {
+    const allowed = getFieldOperators(findEventField(field, eventType))
+    const operator =
+      condition.operator && allowed.includes(condition.operator) ? condition.operator : allowed[0]
+    onChange({ ...condition, field, operator, value: '' })
+  }
+
+  const handleAgentMatchTypeChange = (matchType: string) => {
+    if (matchType === 'watchlist') {
+      onChange({ ...condition, field: 'agent_id', operator: 'in', value: '' })
+    } else {
+      onChange({
+        ...condition,
+        field: 'agent_address',
+        operator: matchType as TriggerCondition['operator'],
+        value: agentMatchType === 'watchlist' ? '' : condition.value,
+      })
+    }
+    updatePreview()
+  }
+
+  const valueErrorMessage = valueError && (
+    <p className="typo-ui text-destructive">{valueError}</p>
+  )
+
   return (
     <Box variant="secondary" padding="md" className="space-y-4">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-2">
@@ -204,7 +401,7 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
               <Input
                 id={`cond-value-${condition.tempId}`}
                 type="number"
-                placeholder="e.g., 800"
+                placeholder="e.g., 80"
                 value={condition.value ?? ''}
                 onChange={(e) => {
                   onChange({ ...condition, value: e.target.value })
@@ -213,6 +410,7 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
                 onBlur={updatePreview}
                 className="typo-ui"
               />
+              {valueErrorMessage}
             </div>
           </div>
         </div>
@@ -226,13 +424,7 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
             <Label htmlFor={`cond-operator-${condition.tempId}`} className="typo-ui">
               MATCH TYPE
             </Label>
-            <Select
-              value={condition.operator ?? 'in'}
-              onValueChange={(value) => {
-                onChange({ ...condition, operator: value as TriggerCondition['operator'] })
-                updatePreview()
-              }}
-            >
+            <Select value={agentMatchType} onValueChange={handleAgentMatchTypeChange}>
               <SelectTrigger id={`cond-operator-${condition.tempId}`} className="typo-ui">
                 <SelectValue />
               </SelectTrigger>
@@ -243,36 +435,60 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
                 <SelectItem value="in" className="typo-ui">
                   In List (comma-separated)
                 </SelectItem>
+                <SelectItem value="watchlist" className="typo-ui">
+                  In Watchlist
+                </SelectItem>
               </SelectContent>
             </Select>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
-              AGENT ADDRESS(ES)
-            </Label>
-            <Textarea
-              id={`cond-value-${condition.tempId}`}
-              placeholder={
-                condition.operator === 'in'
-                  ? '0x1234...,0x5678...,0x9abc...'
-                  : '0x1234567890abcdef...'
-              }
-              value={condition.value ?? ''}
-              onChange={(e) => {
-                onChange({ ...condition, value: e.target.value })
-                updatePreview()
-              }}
-              onBlur={updatePreview}
-              className="typo-code"
-              rows={2}
-            />
-            <div className="typo-ui text-terminal-dim/80">
-              {condition.operator === 'in'
-                ? 'Enter multiple addresses separated by commas'
-                : 'Enter a single Ethereum address'}
+          {agentMatchType === 'watchlist' ? (
+            <div className="space-y-2">
+              <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
+                WATCHLIST
+              </Label>
+              <WatchlistSelect
+                id={`cond-value-${condition.tempId}`}
+                value={agentWatchlistId}
+                onChange={(watchlistId) => {
+                  onChange({ ...condition, value: toWatchlistReference(watchlistId) })
+                  updatePreview()
+                }}
+              />
+              <div className="typo-ui text-terminal-dim/80">
+                Matches any agent ID and chain pair in the watchlist
+              </div>
+              {valueErrorMessage}
             </div>
-          </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
+                AGENT ADDRESS(ES)
+              </Label>
+              <Textarea
+                id={`cond-value-${condition.tempId}`}
+                placeholder={
+                  condition.operator === 'in'
+                    ? '0x1234...,0x5678...,0x9abc...'
+                    : '0x1234567890abcdef...'
+                }
+                value={condition.value ?? ''}
+                onChange={(e) => {
+                  onChange({ ...condition, value: e.target.value })
+                  updatePreview()
+                }}
+                onBlur={updatePreview}
+                className="typo-code"
+                rows={2}
+              />
+              <div className="typo-ui text-terminal-dim/80">
+                {condition.operator === 'in'
+                  ? 'Enter multiple addresses separated by commas'
+                  : 'Enter a single Ethereum address'}
+              </div>
+              {valueErrorMessage}
+            </div>
+          )}
         </div>
       )}
 
@@ -299,15 +515,12 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
                   <SelectItem value="eq" className="typo-ui">
                     Exact Match
                   </SelectItem>
+                  <SelectItem value="ne" className="typo-ui">
+                    Any Except
+                  </SelectItem>
                   <SelectItem value="in" className="typo-ui">
                     In List
                   </SelectItem>
-                  <SelectItem value="contains" className="typo-ui">
-                    Contains
-                  </SelectItem>
-                  <SelectItem value="startsWith" className="typo-ui">
-                    Starts With
-                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -316,24 +529,19 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
               <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
                 EVENT TYPE
               </Label>
-              <Input
+              <TypedValueInput
                 id={`cond-value-${condition.tempId}`}
-                type="text"
-                placeholder="e.g., ReputationUpdated"
+                field={fieldDefinition}
+                operator={condition.operator}
                 value={condition.value ?? ''}
-                onChange={(e) => {
-                  onChange({ ...condition, value: e.target.value })
+                onChange={(value) => {
+                  onChange({ ...condition, value })
                   updatePreview()
                 }}
-                onBlur={updatePreview}
-                className="typo-ui"
               />
             </div>
           </div>
-
-          <div className="typo-ui text-terminal-dim/80 p-2 bg-terminal/20 border border-terminal-dim">
-            💡 Common events: ReputationUpdated, ReputationCreated, AgentRegistered
-          </div>
+          {valueErrorMessage}
         </div>
       )}
 
@@ -345,21 +553,32 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
             <Label htmlFor={`cond-field-${condition.tempId}`} className="typo-ui">
               FIELD PATH
             </Label>
-            <Input
-              id={`cond-field-${condition.tempId}`}
-              type="text"
-              placeholder="e.g., metadata.score, data.value"
-              value={condition.field ?? ''}
-              onChange={(e) => {
-                onChange({ ...condition, field: e.target.value })
+            <Select
+              value={fieldDefinition?.name ?? condition.field ?? ''}
+              onValueChange={(field) => {
+                handleFieldChange(field)
                 updatePreview()
               }}
-              onBlur={updatePreview}
-              className="typo-code"
-            />
-            <div className="typo-ui text-terminal-dim/80">
-              Use dot notation for nested fields (e.g., metadata.score)
-            </div>
+            >
+              <SelectTrigger id={`cond-field-${condition.tempId}`} className="typo-code">
+                <SelectValue placeholder="Select field..." />
+              </SelectTrigger>
+              <SelectContent>
+                {fieldOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="typo-ui">
+                    {option.label} ({option.type})
+                  </SelectItem>
+                ))}
+                {condition.field && !fieldDefinition && (
+                  <SelectItem value={condition.field} className="typo-ui">
+                    {condition.field} (custom)
+                  </SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            {fieldDefinition?.description && (
+              <div className="typo-ui text-terminal-dim/80">{fieldDefinition.description}</div>
+            )}
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -391,20 +610,19 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
               <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
                 VALUE
               </Label>
-              <Input
+              <TypedValueInput
                 id={`cond-value-${condition.tempId}`}
-                type="text"
-                placeholder="Comparison value"
+                field={fieldDefinition}
+                operator={condition.operator}
                 value={condition.value ?? ''}
-                onChange={(e) => {
-                  onChange({ ...condition, value: e.target.value })
+                onChange={(value) => {
+                  onChange({ ...condition, value })
                   updatePreview()
                 }}
-                onBlur={updatePreview}
-                className="typo-ui"
               />
             </div>
           </div>
+          {valueErrorMessage}
         </div>
       )}
 
@@ -446,25 +664,155 @@ export function ConditionBuilder({ condition, onChange, onRemove, canRemove }: C
 
             <div className="space-y-2">
               <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
-                UNIX TIMESTAMP
+                DATE &amp; TIME
+              </Label>
+              <TypedValueInput
+                id={`cond-value-${condition.tempId}`}
+                field={fieldDefinition}
+                operator={condition.operator}
+                value={condition.value ?? ''}
+                onChange={(value) => {
+                  onChange({ ...condition, value })
+                  updatePreview()
+                }}
+              />
+              <div className="typo-ui text-terminal-dim/80">
+                Stored as a Unix timestamp in seconds (local time shown)
+              </div>
+              {valueErrorMessage}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {conditionType === 'threshold' && (
+        <div className="space-y-4 pt-2 border-t-2 border-terminal-dim">
+          <div className="typo-ui text-terminal-green">&gt; EVENT COUNT CONFIG</div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`cond-operator-${condition.tempId}`} className="typo-ui">
+                COMPARISON
+              </Label>
+              <Select
+                value={condition.operator ?? 'gte'}
+                onValueChange={(value) => {
+                  onChange({ ...condition, operator: value as TriggerCondition['operator'] })
+                  updatePreview()
+                }}
+              >
+                <SelectTrigger id={`cond-operator-${condition.tempId}`} className="typo-ui">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gte" className="typo-ui">
+                    At Least (≥)
+                  </SelectItem>
+                  <SelectItem value="gt" className="typo-ui">
+                    More Than (&gt;)
+                  </SelectItem>
+                  <SelectItem value="eq" className="typo-ui">
+                    Exactly (=)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
+                MATCHING EVENTS
               </Label>
               <Input
                 id={`cond-value-${condition.tempId}`}
                 type="number"
-                placeholder="e.g., 1704067200"
+                min={1}
+                placeholder="e.g., 3"
                 value={condition.value ?? ''}
                 onChange={(e) => {
                   onChange({ ...condition, value: e.target.value })
                   updatePreview()
                 }}
-                onBlur={updatePreview}
-                className="typo-code"
+                className="typo-ui"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`cond-window-${condition.tempId}`} className="typo-ui">
+              COUNT WITHIN (OPTIONAL)
+            </Label>
+            <DurationInput
+              id={`cond-window-${condition.tempId}`}
+              value={
+                typeof condition.config?.windowSeconds === 'number'
+                  ? condition.config.windowSeconds
+                  : null
+              }
+              onChange={(seconds) => {
+                const { windowSeconds: _, ...config } = condition.config ?? {}
+                onChange({
+                  ...condition,
+                  config: seconds ? { ...config, windowSeconds: seconds } : config,
+                })
+              }}
+              placeholder="Trigger window"
+              allowEmpty
+            />
+            <div className="typo-ui text-terminal-dim/80">
+              Leave empty to use the trigger&apos;s time window. Requires a stateful trigger.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {conditionType === 'time_window' && (
+        <div className="space-y-4 pt-2 border-t-2 border-terminal-dim">
+          <div className="typo-ui text-terminal-green">&gt; TIME WINDOW CONFIG</div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor={`cond-operator-${condition.tempId}`} className="typo-ui">
+                SINCE PREVIOUS MATCH
+              </Label>
+              <Select
+                value={condition.operator ?? 'lte'}
+                onValueChange={(value) => {
+                  onChange({ ...condition, operator: value as TriggerCondition['operator'] })
+                  updatePreview()
+                }}
+              >
+                <SelectTrigger id={`cond-operator-${condition.tempId}`} className="typo-ui">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="lte" className="typo-ui">
+                    Within (≤)
+                  </SelectItem>
+                  <SelectItem value="gt" className="typo-ui">
+                    More Than (&gt;)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor={`cond-value-${condition.tempId}`} className="typo-ui">
+                DURATION
+              </Label>
+              <DurationInput
+                id={`cond-value-${condition.tempId}`}
+                value={/^\d+$/.test(condition.value ?? '') ? Number(condition.value) : null}
+                onChange={(seconds) => {
+                  onChange({ ...condition, value: seconds === null ? '' : String(seconds) })
+                  updatePreview()
+                }}
+                allowEmpty
               />
-              <div className="typo-ui text-terminal-dim/80">
-                Enter Unix timestamp in seconds
-              </div>
             </div>
           </div>
+          <div className="typo-ui text-terminal-dim/80">
+            Stored in seconds. Requires a stateful trigger.
+          </div>
         </div>
       )}
 
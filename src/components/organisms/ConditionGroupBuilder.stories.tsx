@@ -0,0 +1,114 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { useState } from 'react'
+import type { CreateConditionGroupInput } from '@/lib/validations/trigger'
+import { ConditionGroupBuilder } from './ConditionGroupBuilder'
+
+const meta = {
+  title: 'Triggers/ConditionGroupBuilder',
+  component: ConditionGroupBuilder,
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'Builder for nested condition groups. Children are combined with AND, OR or NOT and can contain further groups up to three levels deep.',
+      },
+    },
+  },
+  decorators: [
+    (Story) => (
+      <div className="max-w-2xl">
+        <Story />
+      </div>
+    ),
+  ],
+  tags: ['autodocs'],
+} satisfies Meta<typeof ConditionGroupBuilder>
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+/**
+ * OR group with two conditions.
+ * Fires when either agent filter matches.
+ */
+export const AnyOf: Story = {
+  args: {
+    group: {
+      _key: 'group-1',
+      logic: 'or',
+      conditions: [
+        {
+          _key: 'condition-1',
+          conditionType: 'reputation_threshold',
+          field: 'reputation_score',
+          operator: 'lt',
+          value: '50',
+          config: {},
+        },
+        {
+          _key: 'condition-2',
+          conditionType: 'agent_filter',
+          field: 'agent_address',
+          operator: 'in',
+          value: '0x123...,0x456...',
+          config: {},
+        },
+      ],
+    },
+    onChange: () => {},
+    onRemove: () => {},
+  },
+}
+
+/**
+ * Group at the maximum nesting depth.
+ * The nested group button is hidden.
+ */
+export const MaxDepth: Story = {
+  args: {
+    ...AnyOf.args,
+    group: { ...AnyOf.args.group, logic: 'not' },
+    depth: 3,
+    onChange: () => {},
+    onRemove: () => {},
+  },
+}
+
+/**
+ * Interactive example with state management.
+ * Demonstrates adding conditions and nested groups.
+ */
+export const Interactive = {
+  render: () => {
+    const [group, setGroup] = useState<CreateConditionGroupInput>({
+      _key: 'interactive-group',
+      logic: 'or',
+      conditions: [
+        {
+          _key: 'interactive-1',
+          conditionType: 'event_filter',
+          field: 'event_type',
+          operator: 'eq',
+          value: 'ReputationUpdated',
+          config: {},
+        },
+      ],
+    })
+
+    return (
+      <div className="space-y-4">
+        <ConditionGroupBuilder
+          group={group}
+          onChange={setGroup}
+          onRemove={() => console.log('Remove clicked')}
+        />
+
+        <div className="border-2 border-terminal bg-terminal/30 p-4">
+          <div className="typo-ui text-terminal-green mb-2">&gt; Current State:</div>
+          <pre className="typo-code text-terminal-dim">{JSON.stringify(group, null, 2)}</pre>
+        </div>
+      </div>
+    )
+  },
+}
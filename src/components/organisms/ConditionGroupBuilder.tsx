@@ -0,0 +1,194 @@
+/**
+ * ConditionGroupBuilder
+ *
+ * Editor for a nested condition group. Children are combined with the
+ * group's logic (AND/OR/NOT) and can be single conditions, edited with
+ * `ConditionBuilder`, or further groups up to the maximum nesting depth.
+ *
+ * @module components/organisms/ConditionGroupBuilder
+ *
+ * @example
+ * ```tsx
+ * <ConditionGroupBuilder
+ *   group={createConditionGroup('or')}
+ *   onChange={(updated) => console.log(updated)}
+ *   onRemove={() => console.log('Remove group')}
+ * />
+ * ```
+ */
+'use client'
+
+import { ActionLabel } from '@/components/atoms/action-label'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { CONDITION_GROUP_LOGIC_LABELS, isConditionGroup } from '@/lib/condition-tree'
+import {
+  CONDITION_GROUP_LOGIC,
+  type ConditionGroupLogic,
+  type CreateConditionGroupInput,
+  type CreateConditionInput,
+  type CreateConditionNodeInput,
+  MAX_CONDITION_GROUP_DEPTH,
+} from '@/lib/validations/trigger'
+import { ConditionBuilder } from './ConditionBuilder'
+
+/**
+ * Props for the ConditionGroupBuilder component.
+ */
+interface ConditionGroupBuilderProps {
+  /** The group to edit */
+  group: CreateConditionGroupInput
+  /** Callback when the group or any of its children is modified */
+  onChange: (group: CreateConditionGroupInput) => void
+  /** Callback when the group should be removed */
+  onRemove: () => void
+  /** Nesting level of this group (1 = top-level group) */
+  depth?: number
+  /** Event type the trigger listens for (scopes condition fields) */
+  eventType?: string
+}
+
+function createEmptyCondition(): CreateConditionInput {
+  return {
+    _key: crypto.randomUUID(),
+    conditionType: '',
+    field: '',
+    operator: 'eq',
+    value: '',
+    config: {},
+  }
+}
+
+/**
+ * Create a new condition group with one blank condition
+ *
+ * @param logic - Group logic (defaults to OR)
+ * @returns Group ready to be added to the form
+ */
+export function createConditionGroup(logic: ConditionGroupLogic = 'or'): CreateConditionGroupInput {
+  return { _key: crypto.randomUUID(), logic, conditions: [createEmptyCondition()] }
+}
+
+export function ConditionGroupBuilder({
+  group,
+  onChange,
+  onRemove,
+  depth = 1,
+  eventType,
+}: ConditionGroupBuilderProps) {
+  const canNest = depth < MAX_CONDITION_GROUP_DEPTH
+
+  const updateChild = (index: number, child: CreateConditionNodeInput) => {
+    const conditions = [...group.conditions]
+    conditions[index] = child
+    onChange({ ...group, conditions })
+  }
+
+  const removeChild = (index: number) => {
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) })
+  }
+
+  const addChild = (child: CreateConditionNodeInput) => {
+    onChange({ ...group, conditions: [...group.conditions, child] })
+  }
+
+  return (
+    <Box variant="subtle" padding="sm" className="space-y-3" data-slot="condition-group-builder">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Label className="typo-ui text-terminal-green">[GROUP]</Label>
+          <Select
+            value={group.logic}
+            onValueChange={(logic) => onChange({ ...group, logic: logic as ConditionGroupLogic })}
+          >
+            <SelectTrigger className="typo-ui w-44" aria-label="Group logic">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONDITION_GROUP_LOGIC.map((logic) => (
+                <SelectItem key={logic} value={logic} className="typo-ui">
+                  {CONDITION_GROUP_LOGIC_LABELS[logic]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <ActionLabel
+          variant="destructive"
+          icon="close"
+          onClick={onRemove}
+          className="self-end sm:self-auto"
+        >
+          REMOVE GROUP
+        </ActionLabel>
+      </div>
+
+      <div className="ml-2 pl-3 border-l-2 border-terminal-dim space-y-3">
+        {group.conditions.map((child, index) =>
+          isConditionGroup(child) ? (
+            <ConditionGroupBuilder
+              key={child._key ?? `group-${index}`}
+              group={child}
+              onChange={(updated) => updateChild(index, updated)}
+              onRemove={() => removeChild(index)}
+              depth={depth + 1}
+              eventType={eventType}
+            />
+          ) : (
+            <ConditionBuilder
+              key={child._key ?? `condition-${index}`}
+              condition={{ ...child, tempId: child._key ?? `condition-${index}` }}
+              onChange={(updated) => {
+                updateChild(index, {
+                  _key: child._key ?? crypto.randomUUID(),
+                  conditionType: updated.conditionType ?? '',
+                  field: updated.field ?? '',
+                  operator: updated.operator ?? 'eq',
+                  value: updated.value ?? '',
+                  config: updated.config ?? {},
+                })
+              }}
+              onRemove={() => removeChild(index)}
+              canRemove={group.conditions.length > 1}
+              eventType={eventType}
+            />
+          )
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => addChild(createEmptyCondition())}
+          className="typo-ui"
+        >
+          <Icon name="add" size="sm" className="mr-1" />
+          ADD CONDITION
+        </Button>
+        {canNest && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => addChild(createConditionGroup('and'))}
+            className="typo-ui"
+          >
+            <Icon name="add" size="sm" className="mr-1" />
+            ADD NESTED GROUP
+          </Button>
+        )}
+      </div>
+    </Box>
+  )
+}
@@ -23,7 +23,14 @@ import { Icon, type IconName } from '@/components/atoms/icon'
 import { cn } from '@/lib/utils'
 
 /** Available condition types for trigger configuration */
-export type ConditionType = 'event_filter' | 'agent_filter' | 'reputation_threshold' | 'field_comparison' | 'time_condition'
+export type ConditionType =
+  | 'event_filter'
+  | 'agent_filter'
+  | 'reputation_threshold'
+  | 'field_comparison'
+  | 'time_condition'
+  | 'threshold'
+  | 'time_window'
 
 /**
  * Information about a condition type including label, description, and example.
@@ -84,6 +91,24 @@ const CONDITION_TYPES: ConditionTypeInfo[] = [
     exampleValue: '1704067200',
     icon: 'clock',
   },
+  {
+    value: 'threshold',
+    label: 'Event Count Threshold',
+    description: 'Fire once enough matching events occurred (stateful triggers)',
+    exampleField: 'match_count',
+    exampleOperator: 'gte',
+    exampleValue: '3',
+    icon: 'chart',
+  },
+  {
+    value: 'time_window',
+    label: 'Time Window',
+    description: 'Compare time since the previous matching event (stateful triggers)',
+    exampleField: 'seconds_since_last_match',
+    exampleOperator: 'lte',
+    exampleValue: '3600',
+    icon: 'clock',
+  },
 ]
 
 /**
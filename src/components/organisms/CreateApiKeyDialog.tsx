@@ -1,7 +1,9 @@
 /**
  * CreateApiKeyDialog
  *
- * A dialog for creating new API keys with name and access tier selection.
+ * A dialog for creating new API keys with name, access tier and scope
+ * selection. Keys can optionally be restricted to IP addresses or CIDR
+ * ranges, and to browser origins for use from a web app.
  * Returns the created key value via the onSuccess callback.
  *
  * @module components/organisms/CreateApiKeyDialog
@@ -20,6 +22,7 @@
 
 import { useState } from 'react'
 import { Button } from '@/components/atoms/button'
+import { Checkbox } from '@/components/atoms/checkbox'
 import {
   Dialog,
   DialogContent,
@@ -38,8 +41,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/atoms/select'
+import { Textarea } from '@/components/atoms/textarea'
 import { useCreateApiKey } from '@/hooks'
-import { QUERY_TIERS, type QueryTier } from '@/lib/constants'
+import { API_KEY_SCOPES, type ApiKeyScope, QUERY_TIERS, type QueryTier } from '@/lib/constants'
+import { createApiKeyRequestSchema } from '@/lib/validations'
 
 /**
  * Props for the CreateApiKeyDialog component.
@@ -55,6 +60,26 @@ interface CreateApiKeyDialogProps {
   onSuccess?: (key: string) => void
 }
 
+const SCOPE_DESCRIPTIONS: Record<ApiKeyScope, string> = {
+  'events:read': 'Read indexed blockchain events',
+  'agents:read': 'Read linked agents and their reputation',
+  'agents:write': 'Link and unlink agents',
+  'triggers:read': 'Read triggers and their executions',
+  'triggers:write': 'Create, edit and delete triggers',
+  'reputation:query': 'Run reputation queries',
+}
+
+/** New keys start read-only */
+const DEFAULT_SCOPES: ApiKeyScope[] = API_KEY_SCOPES.filter((scope) => !scope.endsWith(':write'))
+
+/** Split a textarea into entries, one per line or comma-separated */
+function parseList(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
+
 export function CreateApiKeyDialog({
   organizationId,
   open,
@@ -63,6 +88,9 @@ export function CreateApiKeyDialog({
 }: CreateApiKeyDialogProps) {
   const [name, setName] = useState('')
   const [tier, setTier] = useState<QueryTier>('basic')
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(DEFAULT_SCOPES)
+  const [allowedIps, setAllowedIps] = useState('')
+  const [allowedOrigins, setAllowedOrigins] = useState('')
   const [error, setError] = useState<string | null>(null)
 
   const createMutation = useCreateApiKey(organizationId)
@@ -78,13 +106,22 @@ export function CreateApiKeyDialog({
       return
     }
 
+    const parsed = createApiKeyRequestSchema.safeParse({
+      name: name.trim(),
+      tier,
+      scopes,
+      allowedIps: parseList(allowedIps),
+      allowedOrigins: parseList(allowedOrigins),
+    })
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Invalid API key settings')
+      return
+    }
+
     setError(null)
 
     try {
-      const response = await createMutation.mutateAsync({
-        name: name.trim(),
-        tier,
-      })
+      const response = await createMutation.mutateAsync(parsed.data)
       // Success - reset and close
       resetForm()
       onOpenChange(false)
@@ -97,9 +134,20 @@ export function CreateApiKeyDialog({
   const resetForm = () => {
     setName('')
     setTier('basic')
+    setScopes(DEFAULT_SCOPES)
+    setAllowedIps('')
+    setAllowedOrigins('')
     setError(null)
   }
 
+  const toggleScope = (scope: ApiKeyScope, checked: boolean) => {
+    setScopes((current) =>
+      checked
+        ? API_KEY_SCOPES.filter((s) => s === scope || current.includes(s))
+        : current.filter((s) => s !== scope)
+    )
+  }
+
   const handleOpenChange = (open: boolean) => {
     if (!open) {
       resetForm()
@@ -109,7 +157,7 @@ export function CreateApiKeyDialog({
 
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
-      <DialogContent className="border-2 border-terminal bg-terminal">
+      <DialogContent className="border-2 border-terminal bg-terminal max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="typo-ui text-terminal-green glow flex items-center gap-2">
             <Icon name="api-keys" size="sm" />
@@ -158,6 +206,83 @@ export function CreateApiKeyDialog({
             </p>
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="typo-ui text-terminal-dim">&gt; SCOPES</span>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="typo-ui"
+                  onClick={() => setScopes(DEFAULT_SCOPES)}
+                >
+                  [READ ONLY]
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="typo-ui"
+                  onClick={() => setScopes([...API_KEY_SCOPES])}
+                >
+                  [ALL]
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2 border-2 border-terminal-dim p-3">
+              {API_KEY_SCOPES.map((scope) => (
+                <div key={scope} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked)}
+                  />
+                  <Label htmlFor={`scope-${scope}`} className="typo-ui flex flex-col items-start">
+                    <span className="text-terminal-green font-mono">{scope}</span>
+                    <span className="text-terminal-dim/70 text-xs">
+                      {SCOPE_DESCRIPTIONS[scope]}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="allowedIps" className="typo-ui text-terminal-dim">
+              &gt; IP ALLOWLIST (OPTIONAL)
+            </Label>
+            <Textarea
+              id="allowedIps"
+              placeholder={'203.0.113.10\n10.0.0.0/8'}
+              value={allowedIps}
+              onChange={(e) => setAllowedIps(e.target.value)}
+              className="typo-code"
+              rows={2}
+            />
+            <p className="typo-ui text-terminal-dim/70 text-xs">
+              IP addresses or CIDR ranges, one per line. Leave empty to allow any IP.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="allowedOrigins" className="typo-ui text-terminal-dim">
+              &gt; ALLOWED ORIGINS (OPTIONAL)
+            </Label>
+            <Textarea
+              id="allowedOrigins"
+              placeholder="https://app.example.com"
+              value={allowedOrigins}
+              onChange={(e) => setAllowedOrigins(e.target.value)}
+              className="typo-code"
+              rows={2}
+            />
+            <p className="typo-ui text-terminal-dim/70 text-xs">
+              Browser origins that may use this key, one per line. Leave empty to allow any origin.
+            </p>
+          </div>
+
           {error && (
             <p className="typo-ui text-destructive flex items-center gap-2">
               <Icon name="warning" size="sm" />
@@ -178,7 +303,7 @@ export function CreateApiKeyDialog({
           <Button
             size="sm"
             onClick={handleSubmit}
-            disabled={createMutation.isPending || !name.trim()}
+            disabled={createMutation.isPending || !name.trim() || scopes.length === 0}
             className="typo-ui"
           >
             {createMutation.isPending ? '[CREATING...]' : '[CREATE KEY]'}
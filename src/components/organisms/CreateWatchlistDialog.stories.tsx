@@ -0,0 +1,55 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import { CreateWatchlistDialog } from './CreateWatchlistDialog'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const meta: Meta<typeof CreateWatchlistDialog> = {
+  title: 'Organisms/CreateWatchlistDialog',
+  component: CreateWatchlistDialog,
+  parameters: {
+    layout: 'centered',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <Story />
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  render: () => {
+    const [open, setOpen] = useState(false)
+    return (
+      <>
+        <Button onClick={() => setOpen(true)}>[CREATE WATCHLIST]</Button>
+        <CreateWatchlistDialog open={open} onOpenChange={setOpen} />
+      </>
+    )
+  },
+}
+
+export const OpenedDialog: Story = {
+  args: {
+    open: true,
+    onOpenChange: () => {},
+  },
+}
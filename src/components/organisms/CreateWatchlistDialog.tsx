@@ -0,0 +1,175 @@
+/**
+ * CreateWatchlistDialog
+ *
+ * A dialog for creating an empty agent watchlist with a name and an
+ * optional description. Agents are added afterwards, one by one or from
+ * a CSV import.
+ *
+ * @module components/organisms/CreateWatchlistDialog
+ *
+ * @example
+ * ```tsx
+ * <CreateWatchlistDialog
+ *   open={isOpen}
+ *   onOpenChange={setIsOpen}
+ *   onSuccess={(watchlist) => router.push(`/dashboard/watchlists/${watchlist.id}`)}
+ * />
+ * ```
+ */
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  Input,
+  Textarea,
+} from '@/components/atoms'
+import { useCreateWatchlist } from '@/hooks'
+import {
+  type CreateWatchlistRequest,
+  createWatchlistRequestSchema,
+  type Watchlist,
+} from '@/lib/validations'
+
+/**
+ * Props for the CreateWatchlistDialog component.
+ */
+interface CreateWatchlistDialogProps {
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+  /** Callback when the watchlist is successfully created */
+  onSuccess?: (watchlist: Watchlist) => void
+}
+
+/** Form fields; agents are added after creation */
+const createWatchlistFormSchema = createWatchlistRequestSchema.pick({
+  name: true,
+  description: true,
+})
+
+type CreateWatchlistForm = Pick<CreateWatchlistRequest, 'name' | 'description'>
+
+export function CreateWatchlistDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: CreateWatchlistDialogProps) {
+  const createWatchlist = useCreateWatchlist()
+
+  const form = useForm<CreateWatchlistForm>({
+    resolver: zodResolver(createWatchlistFormSchema),
+    defaultValues: {
+      name: '',
+      description: '',
+    },
+  })
+
+  const onSubmit = async (data: CreateWatchlistForm) => {
+    try {
+      const result = await createWatchlist.mutateAsync({
+        name: data.name,
+        description: data.description || undefined,
+      })
+      form.reset()
+      onOpenChange(false)
+      onSuccess?.(result)
+    } catch {
+      // Error handling is done by the mutation
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      form.reset()
+    }
+    onOpenChange(newOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-terminal-green glow">[+] CREATE WATCHLIST</DialogTitle>
+          <DialogDescription className="text-terminal-dim">
+            Group agents to target them together in triggers and event filters.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-terminal-green typo-ui">&gt; NAME</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      placeholder="Production fleet"
+                      className="bg-terminal border-terminal-dim focus:border-terminal-green typo-ui"
+                      autoFocus
+                    />
+                  </FormControl>
+                  <FormMessage className="text-destructive" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-terminal-green typo-ui">&gt; DESCRIPTION</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="Optional description..."
+                      className="bg-terminal border-terminal-dim focus:border-terminal-green typo-ui resize-none"
+                      rows={3}
+                    />
+                  </FormControl>
+                  <FormDescription className="text-terminal-dim text-xs">
+                    Max 500 characters (optional)
+                  </FormDescription>
+                  <FormMessage className="text-destructive" />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                className="typo-ui"
+              >
+                [CANCEL]
+              </Button>
+              <Button type="submit" disabled={createWatchlist.isPending} className="typo-ui">
+                {createWatchlist.isPending ? '[CREATING...]' : '[CREATE]'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,6 +2,7 @@ import type { Meta, StoryObj } from '@storybook/nextjs-vite'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { http, HttpResponse } from 'msw'
 import { CreditBalanceCard } from './CreditBalanceCard'
+import { useOrganizationStore } from '@/stores/organization-store'
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -22,6 +23,9 @@ const meta: Meta<typeof CreditBalanceCard> = {
     },
   },
   tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
   decorators: [
     (Story) => (
       <QueryClientProvider client={queryClient}>
@@ -113,6 +117,13 @@ export const WithBuyButton: Story = {
   },
 }
 
+export const ViewerRole: Story = {
+  ...WithBuyButton,
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'viewer' })
+  },
+}
+
 export const ZeroBalance: Story = {
   args: {
     organizationId: 'org-123',
@@ -2,7 +2,8 @@
  * CreditBalanceCard
  *
  * Displays the current credit balance for an organization with
- * lifetime purchased and used statistics. Includes optional buy credits button.
+ * lifetime purchased and used statistics. Includes optional buy credits button,
+ * disabled for roles that can't buy credits.
  *
  * @module components/organisms/CreditBalanceCard
  *
@@ -19,8 +20,8 @@
 import { Box } from '@/components/atoms/box'
 import { Button } from '@/components/atoms/button'
 import { Icon } from '@/components/atoms/icon'
-import { ApiErrorDisplay } from '@/components/molecules'
-import { useCreditBalance } from '@/hooks'
+import { ApiErrorDisplay, PermissionTooltip } from '@/components/molecules'
+import { useCreditBalance, usePermission } from '@/hooks'
 import { cn } from '@/lib/utils'
 
 /**
@@ -41,6 +42,7 @@ export function CreditBalanceCard({
   className,
 }: CreditBalanceCardProps) {
   const { data: balance, isLoading, error } = useCreditBalance(organizationId)
+  const canBuy = usePermission('create', 'billing')
 
   if (isLoading) {
     return (
@@ -77,10 +79,12 @@ export function CreditBalanceCard({
           <div className="typo-ui text-terminal-dim mt-1">credits available</div>
         </div>
         {onBuyCredits && (
-          <Button onClick={onBuyCredits} className="typo-ui">
-            <Icon name="add" size="sm" className="mr-1" />
-            [BUY CREDITS]
-          </Button>
+          <PermissionTooltip reason={canBuy.reason}>
+            <Button onClick={onBuyCredits} disabled={!canBuy.allowed} className="typo-ui">
+              <Icon name="add" size="sm" className="mr-1" />
+              [BUY CREDITS]
+            </Button>
+          </PermissionTooltip>
         )}
       </div>
 
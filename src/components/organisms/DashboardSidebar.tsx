@@ -39,6 +39,8 @@ const navItems: NavItem[] = [
   { href: '/dashboard/triggers', icon: 'triggers', label: 'TRIGGERS' },
   { href: '/dashboard/events', icon: 'events', label: 'EVENTS' },
   { href: '/dashboard/agents', icon: 'agents', label: 'AGENTS' },
+  { href: '/dashboard/explorer', icon: 'search', label: 'EXPLORER' },
+  { href: '/dashboard/watchlists', icon: 'star', label: 'WATCHLISTS' },
   { href: '/dashboard/api-keys', icon: 'api-keys', label: 'API KEYS' },
   { href: '/dashboard/billing', icon: 'chart', label: 'BILLING' },
   { href: '/dashboard/settings', icon: 'settings', label: 'SETTINGS' },
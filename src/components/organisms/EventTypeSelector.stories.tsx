@@ -1,6 +1,6 @@
 import { useState } from 'react'
 import type { Meta, StoryObj } from '@storybook/nextjs-vite'
-import type { EventType } from '@/lib/constants'
+import type { EventType } from '@/lib/event-catalog'
 import { EventTypeSelector } from './EventTypeSelector'
 
 const meta: Meta<typeof EventTypeSelector> = {
@@ -2,8 +2,9 @@
  * EventsList
  *
  * Displays a filterable grid of blockchain event cards with search,
- * chain, registry, and event type filters. Handles loading states,
- * errors, and empty states.
+ * chain, registry, event type, and watchlist filters. Handles loading states,
+ * errors, and empty states. Optionally streams new events in real time
+ * with pause/resume and a buffered "new events" banner.
  *
  * @module components/organisms/EventsList
  *
@@ -14,12 +15,16 @@
  *
  * // Events for a specific agent
  * <EventsList agentId={42} />
+ *
+ * // With LIVE streaming controls
+ * <EventsList liveToggle />
  * ```
  */
 'use client'
 
 import { useState } from 'react'
 import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
 import {
   Select,
   SelectContent,
@@ -27,13 +32,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/atoms/select'
-import { ApiErrorDisplay, LoadingSkeleton } from '@/components/molecules'
+import { AlertBanner, ApiErrorDisplay, LoadingSkeleton } from '@/components/molecules'
 import { FilterBar, FilterGroup, FilterItem } from '@/components/molecules/FilterBar'
 import { SearchInput } from '@/components/molecules/SearchInput'
 import { EmptyListState, NoResultsState } from '@/components/molecules/EmptyState'
-import { useEvents } from '@/hooks'
+import { useEvents, useEventStream, useWatchlists } from '@/hooks'
+import type { EventStreamStatus } from '@/lib/event-stream'
 import { REGISTRIES, SUPPORTED_CHAINS, type Registry, type SupportedChainId } from '@/lib/constants'
-import { EVENT_TYPES } from '@/lib/validations/event'
+import { EVENT_TYPE_LIST } from '@/lib/event-catalog'
 import type { EventFilters } from '@/lib/validations/event'
 import { EventCard } from './EventCard'
 
@@ -43,11 +49,25 @@ import { EventCard } from './EventCard'
 interface EventsListProps {
   /** Optional agent ID to filter events by */
   agentId?: number
+  /** Show the LIVE toggle for real-time streaming */
+  liveToggle?: boolean
+}
+
+/** Status labels shown next to the LIVE toggle */
+const STREAM_STATUS_LABELS: Record<EventStreamStatus, string> = {
+  connecting: 'CONNECTING...',
+  open: 'STREAMING',
+  reconnecting: 'RECONNECTING...',
+  closed: 'DISCONNECTED',
 }
 
-export function EventsList({ agentId }: EventsListProps) {
+export function EventsList({ agentId, liveToggle = false }: EventsListProps) {
   const [filters, setFilters] = useState<EventFilters>(agentId ? { agentId } : {})
   const [search, setSearch] = useState('')
+  const [isLive, setIsLive] = useState(false)
+
+  const stream = useEventStream({ enabled: liveToggle && isLive })
+  const { data: watchlists } = useWatchlists()
 
   const { data, isLoading, error } = useEvents({
     ...filters,
@@ -81,6 +101,15 @@ export function EventsList({ agentId }: EventsListProps) {
     }
   }
 
+  const handleWatchlistFilter = (value: string) => {
+    if (value === 'all') {
+      const { watchlistId, ...rest } = filters
+      setFilters(rest)
+    } else {
+      setFilters({ ...filters, watchlistId: value })
+    }
+  }
+
   const clearFilters = () => {
     setFilters(agentId ? { agentId } : {})
     setSearch('')
@@ -110,6 +139,53 @@ export function EventsList({ agentId }: EventsListProps) {
 
   return (
     <div data-slot="events-list" className="space-y-6">
+      {/* Live Controls */}
+      {liveToggle && (
+        <div className="flex flex-wrap items-center gap-3">
+          <Button
+            variant={isLive ? 'default' : 'outline'}
+            size="sm"
+            className="typo-ui"
+            aria-pressed={isLive}
+            onClick={() => setIsLive(!isLive)}
+          >
+            <Icon name={isLive ? 'active' : 'inactive'} size="xs" className="mr-1" />
+            LIVE
+          </Button>
+          {isLive && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                className="typo-ui"
+                onClick={stream.isPaused ? stream.resume : stream.pause}
+              >
+                {stream.isPaused ? '[RESUME]' : '[PAUSE]'}
+              </Button>
+              <span
+                className={
+                  stream.status === 'open'
+                    ? 'typo-ui text-terminal-green text-xs'
+                    : 'typo-ui text-terminal-dim text-xs'
+                }
+                aria-live="polite"
+              >
+                &gt; {stream.isPaused ? 'PAUSED' : STREAM_STATUS_LABELS[stream.status]}
+              </span>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Buffered events banner */}
+      {liveToggle && isLive && stream.bufferedCount > 0 && (
+        <AlertBanner
+          variant="info"
+          message={`${stream.bufferedCount} NEW EVENT${stream.bufferedCount !== 1 ? 'S' : ''}`}
+          action={{ label: '[SHOW]', onClick: stream.flush }}
+        />
+      )}
+
       {/* Filters */}
       <FilterBar
         onClearFilters={clearFilters}
@@ -177,7 +253,7 @@ export function EventsList({ agentId }: EventsListProps) {
                 <SelectItem value="all" className="typo-ui">
                   [ALL TYPES]
                 </SelectItem>
-                {EVENT_TYPES.map((type) => (
+                {EVENT_TYPE_LIST.map((type) => (
                   <SelectItem key={type} value={type} className="typo-ui">
                     [{type.toUpperCase()}]
                   </SelectItem>
@@ -185,6 +261,27 @@ export function EventsList({ agentId }: EventsListProps) {
               </SelectContent>
             </Select>
           </FilterItem>
+
+          {/* Watchlist Filter (redundant when scoped to one agent) */}
+          {!agentId && (
+            <FilterItem label="WATCHLIST">
+              <Select onValueChange={handleWatchlistFilter} value={filters.watchlistId ?? 'all'}>
+                <SelectTrigger className="typo-ui">
+                  <SelectValue placeholder="[ALL AGENTS]" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all" className="typo-ui">
+                    [ALL AGENTS]
+                  </SelectItem>
+                  {watchlists?.map((watchlist) => (
+                    <SelectItem key={watchlist.id} value={watchlist.id} className="typo-ui">
+                      [{watchlist.name.toUpperCase()}]
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FilterItem>
+          )}
         </FilterGroup>
       </FilterBar>
 
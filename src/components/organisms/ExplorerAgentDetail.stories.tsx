@@ -0,0 +1,189 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { WagmiProvider } from 'wagmi'
+import { wagmiConfig } from '@/lib/wagmi-config'
+import { ExplorerAgentDetail } from './ExplorerAgentDetail'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const mockAgent = {
+  agentId: 42,
+  chainId: 11155111,
+  owner: '0x1234567890abcdef1234567890abcdef12345678',
+  tokenUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+  registeredAt: '2024-12-01T10:00:00Z',
+  agentCard: {
+    name: 'Research Agent',
+    description: 'Summarizes on-chain activity',
+    endpoints: [{ name: 'A2A', endpoint: 'https://agent.example.com/.well-known/agent-card.json' }],
+    supportedTrust: ['reputation', 'crypto-economic'],
+  },
+  reputation: { score: 87, feedbackCount: 24, lastUpdatedAt: '2025-01-14T08:00:00Z' },
+  validations: { total: 5, passed: 4, failed: 1, pending: 1 },
+}
+
+const mockValidations = {
+  data: [
+    {
+      requestHash: `0x${'a'.repeat(64)}`,
+      validatorAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+      status: 'pending',
+      response: null,
+      tag: 'audit',
+      requestedAt: '2025-01-15T09:00:00Z',
+      completedAt: null,
+    },
+    {
+      requestHash: `0x${'b'.repeat(64)}`,
+      validatorAddress: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+      status: 'completed',
+      response: 95,
+      tag: null,
+      requestedAt: '2025-01-10T09:00:00Z',
+      completedAt: '2025-01-10T12:00:00Z',
+    },
+    {
+      requestHash: `0x${'c'.repeat(64)}`,
+      validatorAddress: '0x9876543210987654321098765432109876543210',
+      status: 'completed',
+      response: 20,
+      tag: 'latency',
+      requestedAt: '2025-01-05T09:00:00Z',
+      completedAt: '2025-01-05T09:30:00Z',
+    },
+  ],
+  pagination: { total: 3, limit: 10, offset: 0, has_more: false },
+}
+
+const meta: Meta<typeof ExplorerAgentDetail> = {
+  title: 'Organisms/ExplorerAgentDetail',
+  component: ExplorerAgentDetail,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
+  decorators: [
+    (Story) => (
+      <WagmiProvider config={wagmiConfig}>
+        <QueryClientProvider client={queryClient}>
+          <div className="bg-terminal p-4">
+            <Story />
+          </div>
+        </QueryClientProvider>
+      </WagmiProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    chainId: 11155111,
+    agentId: 42,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/explorer/agents/:chainId/:agentId/validations', () =>
+          HttpResponse.json(mockValidations)
+        ),
+        http.get('/api/v1/explorer/agents/:chainId/:agentId', () => HttpResponse.json(mockAgent)),
+        http.get('/api/v1/organizations/:orgId/agent-watches', () =>
+          HttpResponse.json({ data: [] })
+        ),
+      ],
+    },
+  },
+}
+
+export const WithoutAgentCard: Story = {
+  args: {
+    chainId: 84532,
+    agentId: 7,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/explorer/agents/:chainId/:agentId/validations', () =>
+          HttpResponse.json({ data: [], pagination: { total: 0, has_more: false } })
+        ),
+        http.get('/api/v1/explorer/agents/:chainId/:agentId', () =>
+          HttpResponse.json({
+            ...mockAgent,
+            agentId: 7,
+            chainId: 84532,
+            tokenUri: null,
+            agentCard: null,
+            reputation: { score: null, feedbackCount: 0, lastUpdatedAt: null },
+            validations: { total: 0, passed: 0, failed: 0, pending: 0 },
+          })
+        ),
+        http.get('/api/v1/organizations/:orgId/agent-watches', () =>
+          HttpResponse.json({ data: [] })
+        ),
+      ],
+    },
+  },
+}
+
+export const NotFound: Story = {
+  args: {
+    chainId: 11155111,
+    agentId: 999999,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/explorer/agents/:chainId/:agentId/validations', () =>
+          HttpResponse.json({ message: 'Agent not found' }, { status: 404 })
+        ),
+        http.get('/api/v1/explorer/agents/:chainId/:agentId', () =>
+          HttpResponse.json({ message: 'Agent not found' }, { status: 404 })
+        ),
+      ],
+    },
+  },
+}
+
+export const IndexerDown: Story = {
+  args: {
+    chainId: 11155111,
+    agentId: 42,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/health', () =>
+          HttpResponse.json({
+            status: 'degraded',
+            timestamp: '2025-01-15T10:00:00Z',
+            services: { database: 'connected', indexer: 'down', cache: 'up' },
+          })
+        ),
+        http.get('/api/v1/explorer/agents/:chainId/:agentId/validations', () =>
+          HttpResponse.json({ message: 'Indexer unavailable' }, { status: 503 })
+        ),
+        http.get('/api/v1/explorer/agents/:chainId/:agentId', () =>
+          HttpResponse.json({ message: 'Indexer unavailable' }, { status: 503 })
+        ),
+      ],
+    },
+  },
+}
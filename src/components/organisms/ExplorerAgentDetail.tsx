@@ -0,0 +1,294 @@
+/**
+ * ExplorerAgentDetail
+ *
+ * Explorer view of any ERC-8004 agent: identity registry record (owner,
+ * token URI), the validated agent card, reputation summary and validation
+ * history. The organization can watch the agent to receive its events
+ * without linking it, and the owner's connected wallet gets a shortcut
+ * into the link flow.
+ *
+ * If the explorer API fails while the indexer is down, the registries are
+ * read directly on-chain instead.
+ *
+ * @module components/organisms/ExplorerAgentDetail
+ *
+ * @example
+ * ```tsx
+ * <ExplorerAgentDetail chainId={11155111} agentId={42} />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { useAccount } from 'wagmi'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import {
+  AlertBanner,
+  ApiErrorDisplay,
+  ChainBadge,
+  LoadingSkeleton,
+  PermissionTooltip,
+  StatCard,
+} from '@/components/molecules'
+import { AgentAddressBadge } from '@/components/molecules/AgentAddressBadge'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import {
+  useAgentValidations,
+  useAgentWatches,
+  useExplorerAgent,
+  useIndexerDown,
+  usePermission,
+  useUnwatchAgent,
+  useWatchAgent,
+} from '@/hooks'
+import { VALIDATION_PASS_THRESHOLD } from '@/lib/agent-analytics'
+import type { SupportedChainId } from '@/lib/constants'
+import { formatAddress, formatDate, formatDateTime } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import type { ValidationRecord } from '@/lib/validations/explorer'
+import { useOrganizationStore } from '@/stores/organization-store'
+import { AgentCardPanel } from './AgentCardPanel'
+import { LinkAgentDialog } from './LinkAgentDialog'
+import { OnchainAgentPanel } from './OnchainAgentPanel'
+
+/**
+ * Props for the ExplorerAgentDetail component.
+ */
+interface ExplorerAgentDetailProps {
+  /** Chain the agent is registered on */
+  chainId: number
+  /** On-chain agent ID */
+  agentId: number
+  /** Additional CSS classes */
+  className?: string
+}
+
+/** Number of validation records shown */
+const VALIDATION_HISTORY_LIMIT = 10
+
+function ValidationRow({ record }: { record: ValidationRecord }) {
+  const passed = record.response !== null && record.response >= VALIDATION_PASS_THRESHOLD
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 p-3 border-2 border-terminal bg-terminal typo-ui">
+      <span
+        className={cn(
+          'min-w-24',
+          record.status === 'pending'
+            ? 'text-yellow-500'
+            : passed
+              ? 'text-terminal-green'
+              : 'text-destructive'
+        )}
+      >
+        {record.status === 'pending' ? 'PENDING' : `${record.response}/100`}
+      </span>
+      <span className="text-terminal-dim">VALIDATOR: {formatAddress(record.validatorAddress)}</span>
+      {record.tag && <span className="text-terminal-dim">TAG: {record.tag}</span>}
+      <span className="text-terminal-dim ml-auto">
+        {formatDateTime(record.completedAt ?? record.requestedAt)}
+      </span>
+    </div>
+  )
+}
+
+export function ExplorerAgentDetail({ chainId, agentId, className }: ExplorerAgentDetailProps) {
+  const [linkDialogOpen, setLinkDialogOpen] = useState(false)
+  const { currentOrganizationId } = useOrganizationStore()
+  const { address } = useAccount()
+
+  const { data: agent, isLoading, error } = useExplorerAgent(chainId, agentId)
+  const { data: validationsData, isLoading: validationsLoading } = useAgentValidations(
+    chainId,
+    agentId,
+    { limit: VALIDATION_HISTORY_LIMIT }
+  )
+  const { data: watches } = useAgentWatches()
+  const watchAgent = useWatchAgent()
+  const unwatchAgent = useUnwatchAgent()
+  const indexerDown = useIndexerDown()
+  const canLink = usePermission('create', 'agent')
+
+  if (isLoading) {
+    return <LoadingSkeleton count={3} height={160} />
+  }
+
+  if ((error || !agent) && indexerDown) {
+    return (
+      <div data-slot="explorer-agent-detail" className={cn('space-y-6', className)}>
+        <div className="flex flex-wrap items-center gap-3">
+          <ChainBadge chainId={chainId} />
+          <span className="typo-header text-terminal-green glow">AGENT #{agentId}</span>
+        </div>
+        <AlertBanner
+          variant="warning"
+          title="INDEXER UNAVAILABLE"
+          message="Showing registry data read directly from the chain. Agent card and validation history return once the indexer recovers."
+        />
+        <OnchainAgentPanel chainId={chainId} agentId={agentId} />
+      </div>
+    )
+  }
+
+  if (error || !agent) {
+    return (
+      <ApiErrorDisplay
+        error={error instanceof Error ? error : new Error('Agent not found')}
+        title="AGENT NOT FOUND"
+      />
+    )
+  }
+
+  const watch = watches?.find((entry) => entry.agentId === agentId && entry.chainId === chainId)
+  const isOwner = !!address && address.toLowerCase() === agent.owner
+  const validations = validationsData?.data ?? []
+
+  return (
+    <div data-slot="explorer-agent-detail" className={cn('space-y-6', className)}>
+      {/* Header with badges and actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        <ChainBadge chainId={agent.chainId} />
+        <span className="typo-header text-terminal-green glow">AGENT #{agent.agentId}</span>
+        <div className="ml-auto flex flex-wrap gap-2">
+          {watch ? (
+            <Button
+              variant="outline"
+              size="sm"
+              className="typo-ui"
+              onClick={() => unwatchAgent.mutate(watch.id)}
+              disabled={unwatchAgent.isPending}
+            >
+              <Icon name="close" size="sm" />
+              [UNWATCH]
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              className="typo-ui"
+              onClick={() => watchAgent.mutate({ agentId, chainId })}
+              disabled={!currentOrganizationId || watchAgent.isPending}
+            >
+              <Icon name="events" size="sm" />
+              [WATCH]
+            </Button>
+          )}
+          {isOwner && currentOrganizationId && (
+            <PermissionTooltip reason={canLink.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                className="typo-ui"
+                onClick={() => setLinkDialogOpen(true)}
+                disabled={!canLink.allowed}
+              >
+                <Icon name="add" size="sm" />
+                [LINK AGENT]
+              </Button>
+            </PermissionTooltip>
+          )}
+        </div>
+      </div>
+
+      {/* Identity */}
+      <Box variant="default" padding="md">
+        <h3 className="typo-ui text-terminal-green glow mb-4">&gt; IDENTITY</h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <div className="typo-ui text-terminal-dim mb-1">&gt; OWNER</div>
+            <AgentAddressBadge address={agent.owner} truncate={false} />
+            {isOwner && (
+              <span className="typo-ui text-terminal-green ml-2">(CONNECTED WALLET)</span>
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <div className="typo-ui text-terminal-dim mb-1">&gt; TOKEN URI</div>
+            <div className="typo-ui text-terminal-green font-mono break-all">
+              {agent.tokenUri ?? '--'}
+            </div>
+          </div>
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">&gt; REGISTERED</div>
+            <div className="typo-ui text-terminal-green">
+              {agent.registeredAt ? formatDate(agent.registeredAt) : '--'}
+            </div>
+          </div>
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">&gt; WATCHED</div>
+            <div className="typo-ui text-terminal-green">
+              {watch ? `SINCE ${formatDate(watch.createdAt)}` : 'NO'}
+            </div>
+          </div>
+        </div>
+      </Box>
+
+      {/* Reputation */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard
+          label="Reputation"
+          value={agent.reputation.score ?? '--'}
+          variant="highlight"
+          size="sm"
+        />
+        <StatCard label="Feedback" value={agent.reputation.feedbackCount} size="sm" />
+        <StatCard
+          label="Validations"
+          value={`${agent.validations.passed}/${agent.validations.total}`}
+          description="passed"
+          size="sm"
+        />
+        <StatCard
+          label="Last Update"
+          value={agent.reputation.lastUpdatedAt ? formatDate(agent.reputation.lastUpdatedAt) : '--'}
+          size="sm"
+        />
+      </div>
+
+      {/* Agent card */}
+      <AgentCardPanel
+        agentCard={agent.agentCard}
+        tokenUri={agent.tokenUri}
+        agentId={agent.agentId}
+        chainId={agent.chainId}
+      />
+
+      {/* Validation history */}
+      <Box variant="default" padding="md">
+        <h3 className="typo-ui text-terminal-green glow mb-4">&gt; VALIDATION HISTORY</h3>
+        {validationsLoading ? (
+          <LoadingSkeleton count={2} height={48} />
+        ) : validations.length === 0 ? (
+          <EmptyState
+            icon="check"
+            title="NO VALIDATIONS"
+            description="No validation requests have been made for this agent."
+            variant="subtle"
+            size="sm"
+          />
+        ) : (
+          <div className="space-y-2">
+            {validations.map((record) => (
+              <ValidationRow key={record.requestHash} record={record} />
+            ))}
+            {agent.validations.pending > 0 && (
+              <p className="typo-ui text-terminal-dim/70">
+                {agent.validations.pending} request(s) awaiting a response
+              </p>
+            )}
+          </div>
+        )}
+      </Box>
+
+      {currentOrganizationId && isOwner && (
+        <LinkAgentDialog
+          organizationId={currentOrganizationId}
+          open={linkDialogOpen}
+          onOpenChange={setLinkDialogOpen}
+          defaultAgentId={agent.agentId}
+          defaultChainId={agent.chainId as SupportedChainId}
+        />
+      )}
+    </div>
+  )
+}
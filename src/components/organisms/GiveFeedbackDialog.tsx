@@ -0,0 +1,215 @@
+/**
+ * GiveFeedbackDialog
+ *
+ * Dialog for giving an agent feedback on the ERC-8004 reputation registry
+ * from the connected wallet: score, two optional tags, and an optional
+ * feedback file. Once submitted, follows the transaction until it is
+ * confirmed and indexed.
+ *
+ * @module components/organisms/GiveFeedbackDialog
+ *
+ * @example
+ * ```tsx
+ * <GiveFeedbackDialog
+ *   agentId={42}
+ *   chainId={11155111}
+ *   open={isOpen}
+ *   onOpenChange={setIsOpen}
+ * />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import type { Hash } from 'viem'
+import { useAccount } from 'wagmi'
+import { Button } from '@/components/atoms/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/atoms/dialog'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import { TransactionStatus, WalletConnectionPanel } from '@/components/molecules'
+import { useGiveFeedback, useIndexedTransactionEvent } from '@/hooks'
+import { giveFeedbackSchema } from '@/lib/validations'
+
+/**
+ * Props for the GiveFeedbackDialog component.
+ */
+interface GiveFeedbackDialogProps {
+  /** On-chain agent ID to give feedback to */
+  agentId: number
+  /** Chain the agent is registered on */
+  chainId: number
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+}
+
+const EMPTY_FORM = {
+  score: '',
+  tag1: '',
+  tag2: '',
+  feedbackUri: '',
+  feedbackHash: '',
+  feedbackAuth: '',
+}
+
+const INPUT_CLASS = 'typo-ui border-terminal-dim bg-terminal focus:border-terminal-green'
+
+export function GiveFeedbackDialog({
+  agentId,
+  chainId,
+  open,
+  onOpenChange,
+}: GiveFeedbackDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [error, setError] = useState<string | null>(null)
+  const [txHash, setTxHash] = useState<Hash | null>(null)
+
+  const { isConnected } = useAccount()
+  const giveFeedback = useGiveFeedback(chainId, agentId, { onSubmitted: setTxHash })
+  const { data: indexedEvent } = useIndexedTransactionEvent(
+    chainId,
+    giveFeedback.isSuccess ? txHash : null
+  )
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (value: string) =>
+    setForm((current) => ({ ...current, [field]: value }))
+
+  const handleSubmit = () => {
+    const parsed = giveFeedbackSchema.safeParse(form)
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Invalid feedback')
+      return
+    }
+
+    setError(null)
+    setTxHash(null)
+    giveFeedback.mutate(parsed.data, {
+      onError: (err) => setError(err.message),
+    })
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && !giveFeedback.isPending) {
+      setForm(EMPTY_FORM)
+      setError(null)
+      setTxHash(null)
+      giveFeedback.reset()
+    }
+    onOpenChange(open)
+  }
+
+  const fields: { id: keyof typeof EMPTY_FORM; label: string; placeholder: string }[] = [
+    { id: 'tag1', label: 'TAG 1 (OPTIONAL)', placeholder: 'e.g. quality' },
+    { id: 'tag2', label: 'TAG 2 (OPTIONAL)', placeholder: 'e.g. latency' },
+    { id: 'feedbackUri', label: 'FEEDBACK URI (OPTIONAL)', placeholder: 'ipfs://...' },
+    { id: 'feedbackHash', label: 'FEEDBACK HASH (OPTIONAL)', placeholder: '0x...' },
+    { id: 'feedbackAuth', label: 'FEEDBACK AUTH (OPTIONAL)', placeholder: '0x...' },
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal">
+        <DialogHeader>
+          <DialogTitle className="typo-ui text-terminal-green glow flex items-center gap-2">
+            <Icon name="star" size="sm" />
+            GIVE FEEDBACK
+          </DialogTitle>
+          <DialogDescription className="typo-ui text-terminal-dim">
+            Rate Agent #{agentId} on the reputation registry. This sends a transaction from your
+            wallet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {txHash ? (
+          <div className="space-y-4 py-4">
+            <TransactionStatus
+              chainId={chainId}
+              hash={txHash}
+              status={
+                giveFeedback.isSuccess ? 'confirmed' : giveFeedback.isError ? 'failed' : 'pending'
+              }
+              eventId={indexedEvent?.id}
+            />
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="feedbackScore" className="typo-ui text-terminal-dim">
+                &gt; SCORE (0-100)
+              </Label>
+              <Input
+                id="feedbackScore"
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Enter a score..."
+                value={form.score}
+                onChange={(e) => setField('score')(e.target.value)}
+                className={INPUT_CLASS}
+              />
+            </div>
+
+            {fields.map((field) => (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={`feedback-${field.id}`} className="typo-ui text-terminal-dim">
+                  &gt; {field.label}
+                </Label>
+                <Input
+                  id={`feedback-${field.id}`}
+                  placeholder={field.placeholder}
+                  value={form[field.id]}
+                  onChange={(e) => setField(field.id)(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            ))}
+
+            <WalletConnectionPanel chainId={chainId} />
+          </div>
+        )}
+
+        {error && (
+          <p className="typo-ui text-destructive flex items-center gap-2">
+            <Icon name="warning" size="sm" />
+            {error}
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleOpenChange(false)}
+            className="typo-ui"
+          >
+            {giveFeedback.isSuccess ? '[CLOSE]' : '[CANCEL]'}
+          </Button>
+          {(!txHash || giveFeedback.isError) && (
+            <Button
+              size="sm"
+              onClick={handleSubmit}
+              disabled={!isConnected || !form.score || giveFeedback.isPending}
+              className="typo-ui"
+            >
+              {giveFeedback.isPending
+                ? '[CONFIRM IN WALLET...]'
+                : giveFeedback.isError
+                  ? '[RETRY]'
+                  : '[SUBMIT FEEDBACK]'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
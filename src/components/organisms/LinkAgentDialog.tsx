@@ -54,6 +54,10 @@ interface LinkAgentDialogProps {
   onOpenChange: (open: boolean) => void
   /** Callback when agent is successfully linked */
   onSuccess?: () => void
+  /** Prefilled agent ID (e.g. when linking from the explorer) */
+  defaultAgentId?: number
+  /** Prefilled chain */
+  defaultChainId?: SupportedChainId
 }
 
 export function LinkAgentDialog({
@@ -61,10 +65,12 @@ export function LinkAgentDialog({
   open,
   onOpenChange,
   onSuccess,
+  defaultAgentId,
+  defaultChainId,
 }: LinkAgentDialogProps) {
   const [step, setStep] = useState<'form' | 'connect' | 'sign'>('form')
-  const [agentId, setAgentId] = useState('')
-  const [chainId, setChainId] = useState<SupportedChainId | ''>('')
+  const [agentId, setAgentId] = useState(defaultAgentId?.toString() ?? '')
+  const [chainId, setChainId] = useState<SupportedChainId | ''>(defaultChainId ?? '')
   const [error, setError] = useState<string | null>(null)
 
   const { address, isConnected } = useAccount()
@@ -139,8 +145,8 @@ Issued At: ${issuedAt}`
 
   const resetForm = () => {
     setStep('form')
-    setAgentId('')
-    setChainId('')
+    setAgentId(defaultAgentId?.toString() ?? '')
+    setChainId(defaultChainId ?? '')
     setError(null)
   }
 
@@ -27,6 +27,8 @@ const menuItems: { href: string; icon: IconName; label: string }[] = [
   { href: '/dashboard/triggers', icon: 'triggers', label: 'TRIGGERS' },
   { href: '/dashboard/events', icon: 'events', label: 'EVENTS' },
   { href: '/dashboard/agents', icon: 'agents', label: 'AGENTS' },
+  { href: '/dashboard/explorer', icon: 'search', label: 'EXPLORER' },
+  { href: '/dashboard/watchlists', icon: 'star', label: 'WATCHLISTS' },
   { href: '/dashboard/api-keys', icon: 'api-keys', label: 'API KEYS' },
   { href: '/dashboard/settings', icon: 'settings', label: 'SETTINGS' },
 ]
@@ -0,0 +1,121 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import type { OnchainAgent } from '@/lib/onchain'
+import { queryKeys } from '@/lib/query-keys'
+import { OnchainAgentPanel } from './OnchainAgentPanel'
+
+const OWNER = '0x1234567890AbcdEF1234567890aBcdef12345678'
+
+const mockOnchainAgent: OnchainAgent = {
+  agentId: 42,
+  chainId: 11155111,
+  owner: OWNER,
+  tokenUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+  reputation: { feedbackCount: 24, averageScore: 87 },
+  validation: { count: 4, averageResponse: 92 },
+}
+
+/** Query client with the registry read already cached, so stories don't hit RPC */
+function createQueryClient(agent?: OnchainAgent) {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: {
+        retry: false,
+      },
+    },
+  })
+  if (agent) {
+    queryClient.setQueryData(queryKeys.onchain.agent(agent.chainId, agent.agentId), agent)
+  }
+  return queryClient
+}
+
+const meta: Meta<typeof OnchainAgentPanel> = {
+  title: 'Organisms/OnchainAgentPanel',
+  component: OnchainAgentPanel,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Verified: Story = {
+  args: {
+    chainId: 11155111,
+    agentId: 42,
+    expectedOwner: OWNER.toLowerCase(),
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={createQueryClient(mockOnchainAgent)}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export const OwnerMismatch: Story = {
+  args: {
+    chainId: 11155111,
+    agentId: 42,
+    expectedOwner: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd',
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={createQueryClient(mockOnchainAgent)}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export const WithoutFeedback: Story = {
+  args: {
+    chainId: 11155111,
+    agentId: 7,
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider
+        client={createQueryClient({
+          ...mockOnchainAgent,
+          agentId: 7,
+          tokenUri: null,
+          reputation: { feedbackCount: 0, averageScore: null },
+          validation: null,
+        })}
+      >
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export const NotConfigured: Story = {
+  args: {
+    chainId: 1,
+    agentId: 42,
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={createQueryClient()}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
@@ -0,0 +1,137 @@
+/**
+ * OnchainAgentPanel
+ *
+ * Agent data read directly from the ERC-8004 registries via viem: owner,
+ * registration file URI, and reputation and validation summaries. When an
+ * expected owner is given (e.g. the backend's linked wallet), the panel
+ * verifies it against the on-chain owner.
+ *
+ * @module components/organisms/OnchainAgentPanel
+ *
+ * @example
+ * ```tsx
+ * <OnchainAgentPanel
+ *   chainId={11155111}
+ *   agentId={42}
+ *   expectedOwner="0x1234567890123456789012345678901234567890"
+ * />
+ * ```
+ */
+'use client'
+
+import { Box } from '@/components/atoms/box'
+import { Icon } from '@/components/atoms/icon'
+import { LoadingSkeleton } from '@/components/molecules'
+import { AgentAddressBadge } from '@/components/molecules/AgentAddressBadge'
+import { useOnchainAgent } from '@/hooks'
+import { OnchainError } from '@/lib/onchain'
+import { cn } from '@/lib/utils'
+
+/**
+ * Props for the OnchainAgentPanel component.
+ */
+interface OnchainAgentPanelProps {
+  /** Chain the agent is registered on */
+  chainId: number
+  /** On-chain agent ID */
+  agentId: number
+  /** Owner reported by the backend, verified against the chain when set */
+  expectedOwner?: string
+  /** Additional CSS classes */
+  className?: string
+}
+
+type VerificationStatus = 'verified' | 'mismatch' | 'unavailable' | 'not_configured'
+
+const STATUS_STYLES: Record<VerificationStatus, { label: string; className: string }> = {
+  verified: { label: '[VERIFIED]', className: 'text-terminal-green' },
+  mismatch: { label: '[OWNER MISMATCH]', className: 'text-destructive' },
+  unavailable: { label: '[UNAVAILABLE]', className: 'text-yellow-500' },
+  not_configured: { label: '[NOT CONFIGURED]', className: 'text-terminal-dim' },
+}
+
+function formatScore(value: number | null | undefined): string {
+  return value === null || value === undefined ? '--' : `${value}/100`
+}
+
+export function OnchainAgentPanel({
+  chainId,
+  agentId,
+  expectedOwner,
+  className,
+}: OnchainAgentPanelProps) {
+  const { data: onchain, isLoading, error } = useOnchainAgent(chainId, agentId)
+
+  const notConfigured =
+    error instanceof OnchainError &&
+    (error.code === 'registry_not_configured' || error.code === 'unsupported_chain')
+
+  let status: VerificationStatus | null = null
+  if (notConfigured) {
+    status = 'not_configured'
+  } else if (error) {
+    status = 'unavailable'
+  } else if (onchain && expectedOwner) {
+    status = onchain.owner.toLowerCase() === expectedOwner.toLowerCase() ? 'verified' : 'mismatch'
+  }
+
+  return (
+    <Box variant="default" padding="md" data-slot="onchain-agent-panel" className={className}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <h3 className="typo-ui text-terminal-green glow">&gt; ON-CHAIN REGISTRY</h3>
+        {status && (
+          <span className={cn('typo-ui', STATUS_STYLES[status].className)}>
+            {STATUS_STYLES[status].label}
+          </span>
+        )}
+      </div>
+
+      {isLoading ? (
+        <LoadingSkeleton count={2} height={40} />
+      ) : error ? (
+        <p className="typo-ui text-terminal-dim flex items-center gap-2">
+          <Icon name="warning" size="sm" />
+          {notConfigured
+            ? 'Registry contracts are not configured for this chain.'
+            : error instanceof Error
+              ? error.message
+              : 'Failed to read the registries.'}
+        </p>
+      ) : onchain ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="md:col-span-2">
+            <div className="typo-ui text-terminal-dim mb-1">&gt; OWNER</div>
+            <AgentAddressBadge address={onchain.owner} truncate={false} />
+            {status === 'mismatch' && expectedOwner && (
+              <p className="typo-ui text-destructive text-sm mt-1">
+                Backend reports {expectedOwner}. The agent may have been transferred.
+              </p>
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <div className="typo-ui text-terminal-dim mb-1">&gt; TOKEN URI</div>
+            <div className="typo-ui text-terminal-green font-mono text-sm break-all">
+              {onchain.tokenUri ?? '--'}
+            </div>
+          </div>
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">&gt; REPUTATION</div>
+            <div className="typo-ui text-terminal-green">
+              {onchain.reputation
+                ? `${formatScore(onchain.reputation.averageScore)} (${onchain.reputation.feedbackCount} FEEDBACK)`
+                : '--'}
+            </div>
+          </div>
+          <div>
+            <div className="typo-ui text-terminal-dim mb-1">&gt; VALIDATIONS</div>
+            <div className="typo-ui text-terminal-green">
+              {onchain.validation
+                ? `${formatScore(onchain.validation.averageResponse)} (${onchain.validation.count} RESPONSES)`
+                : '--'}
+            </div>
+          </div>
+        </div>
+      ) : null}
+    </Box>
+  )
+}
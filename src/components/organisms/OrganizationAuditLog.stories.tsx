@@ -0,0 +1,148 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { OrganizationAuditLog } from './OrganizationAuditLog'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const HOUR = 60 * 60 * 1000
+const ORG_ID = '550e8400-e29b-41d4-a716-446655440001'
+const ALICE = {
+  id: '550e8400-e29b-41d4-a716-446655440009',
+  username: 'alice',
+  email: 'alice@example.com',
+}
+
+const entry = (index: number, action: string, extra: Record<string, unknown>) => ({
+  id: `550e8400-e29b-41d4-a716-${String(index + 100).padStart(12, '0')}`,
+  organization_id: ORG_ID,
+  action,
+  actor: ALICE,
+  ip_address: '203.0.113.42',
+  user_agent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 14_0) AppleWebKit/537.36',
+  created_at: new Date(Date.now() - index * 5 * HOUR).toISOString(),
+  ...extra,
+})
+
+const mockEntries = [
+  entry(0, 'member.role_updated', {
+    resource_type: 'member',
+    resource_id: '550e8400-e29b-41d4-a716-446655440010',
+    resource_name: 'bob',
+    before: { role: 'member' },
+    after: { role: 'admin' },
+  }),
+  entry(1, 'trigger.updated', {
+    resource_type: 'trigger',
+    resource_id: '550e8400-e29b-41d4-a716-446655440020',
+    resource_name: 'High value transfers',
+    before: { name: 'Transfers', conditions: { min_amount: 1000 } },
+    after: { name: 'High value transfers', conditions: { min_amount: 5000 } },
+  }),
+  entry(2, 'api_key.rotated', {
+    actor: null,
+    resource_type: 'api_key',
+    resource_id: '550e8400-e29b-41d4-a716-446655440030',
+    resource_name: 'Production API Key',
+    ip_address: null,
+    user_agent: null,
+  }),
+  entry(3, 'trigger.created', {
+    resource_type: 'trigger',
+    resource_id: '550e8400-e29b-41d4-a716-446655440020',
+    resource_name: 'Transfers',
+    before: null,
+    after: { name: 'Transfers', enabled: true },
+  }),
+]
+
+const membersHandler = http.get('/api/v1/organizations/:id/members', () =>
+  HttpResponse.json({
+    data: [
+      {
+        id: '550e8400-e29b-41d4-a716-446655440011',
+        userId: ALICE.id,
+        organizationId: ORG_ID,
+        role: 'owner',
+        username: ALICE.username,
+        email: ALICE.email,
+        createdAt: '2025-01-01T00:00:00Z',
+      },
+    ],
+    pagination: { total: 1, limit: 20, offset: 0, has_more: false },
+  })
+)
+
+const meta: Meta<typeof OrganizationAuditLog> = {
+  title: 'Organisms/OrganizationAuditLog',
+  component: OrganizationAuditLog,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+  args: {
+    organizationId: ORG_ID,
+    organizationSlug: 'acme',
+  },
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        membersHandler,
+        http.get('/api/v1/organizations/:id/audit-log', () =>
+          HttpResponse.json({ data: mockEntries, next_cursor: 'cursor_2' })
+        ),
+      ],
+    },
+  },
+}
+
+export const Empty: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        membersHandler,
+        http.get('/api/v1/organizations/:id/audit-log', () =>
+          HttpResponse.json({ data: [], next_cursor: null })
+        ),
+      ],
+    },
+  },
+}
+
+export const ErrorState: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        membersHandler,
+        http.get('/api/v1/organizations/:id/audit-log', () =>
+          HttpResponse.json({ message: 'Internal server error' }, { status: 500 })
+        ),
+      ],
+    },
+  },
+}
@@ -0,0 +1,435 @@
+/**
+ * OrganizationAuditLog
+ *
+ * Browses an organization's audit log, most recent first, filterable by
+ * actor, action, resource and date range. Each entry expands to the
+ * fields it changed and the IP address and user agent it came from.
+ * Entries matching the filters can be exported as CSV or JSON for
+ * compliance reviews.
+ *
+ * @module components/organisms/OrganizationAuditLog
+ *
+ * @example
+ * ```tsx
+ * <OrganizationAuditLog organizationId="org_123" organizationSlug="acme" />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/atoms/badge'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { AgentCardDiff, ApiErrorDisplay, LoadingSkeleton } from '@/components/molecules'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import { useAuditLog, useExportAuditLog, useOrganizationMembers } from '@/hooks'
+import {
+  AUDIT_LOG_RESOURCE_LABELS,
+  type AuditLogExportFormat,
+  diffAuditLogEntry,
+  formatAuditAction,
+  formatAuditActor,
+  getAuditLogFilename,
+  toAuditLogCsv,
+  toAuditLogJson,
+} from '@/lib/audit-log'
+import { formatDateTime } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import {
+  AUDIT_LOG_ACTIONS,
+  AUDIT_LOG_RESOURCE_TYPES,
+  type AuditLogAction,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type AuditLogResourceType,
+  auditLogFiltersSchema,
+} from '@/lib/validations/audit-log'
+
+/** Select value for "no filter" */
+const ALL = 'all'
+
+/**
+ * Props for the OrganizationAuditLog component.
+ */
+interface OrganizationAuditLogProps {
+  /** Organization to show the audit log of */
+  organizationId: string
+  /** Organization slug, used in export file names */
+  organizationSlug: string
+  /** Additional CSS classes */
+  className?: string
+}
+
+/**
+ * Filter form state; dates are `YYYY-MM-DD` from date inputs
+ */
+interface FilterState {
+  actorId: string
+  action: string
+  resourceType: string
+  resourceId: string
+  fromDate: string
+  toDate: string
+}
+
+const EMPTY_FILTERS: FilterState = {
+  actorId: ALL,
+  action: ALL,
+  resourceType: ALL,
+  resourceId: '',
+  fromDate: '',
+  toDate: '',
+}
+
+/**
+ * Convert the form state to API filters; dates cover whole local days
+ */
+function toAuditLogFilters(state: FilterState): AuditLogFilters {
+  return {
+    actorId: state.actorId === ALL ? undefined : state.actorId,
+    action: state.action === ALL ? undefined : (state.action as AuditLogAction),
+    resourceType:
+      state.resourceType === ALL ? undefined : (state.resourceType as AuditLogResourceType),
+    resourceId: state.resourceId.trim() || undefined,
+    fromDate: state.fromDate ? new Date(`${state.fromDate}T00:00:00`).toISOString() : undefined,
+    toDate: state.toDate ? new Date(`${state.toDate}T23:59:59.999`).toISOString() : undefined,
+  }
+}
+
+/** Save an export through a temporary download link */
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function resourceLabel(resourceType: string): string {
+  return (
+    AUDIT_LOG_RESOURCE_LABELS[resourceType as AuditLogResourceType] ?? resourceType.toUpperCase()
+  )
+}
+
+/**
+ * Changes and request details of an entry
+ */
+function EntryDetails({ entry }: { entry: AuditLogEntry }) {
+  const changes = diffAuditLogEntry(entry)
+
+  return (
+    <div className="space-y-3">
+      {entry.before || entry.after ? (
+        <AgentCardDiff changes={changes} />
+      ) : (
+        <div className="typo-ui text-terminal-dim">No field changes recorded.</div>
+      )}
+      <div className="grid gap-1 typo-ui text-terminal-dim sm:grid-cols-2">
+        {entry.resourceId && (
+          <div className="break-all">
+            RESOURCE ID: <span className="font-mono text-terminal-green">{entry.resourceId}</span>
+          </div>
+        )}
+        {entry.actor?.email && (
+          <div className="break-all">
+            ACTOR EMAIL: <span className="text-terminal-green">{entry.actor.email}</span>
+          </div>
+        )}
+        <div className="break-all">
+          IP: <span className="font-mono text-terminal-green">{entry.ipAddress ?? 'Unknown'}</span>
+        </div>
+        <div className="break-all">
+          USER AGENT:{' '}
+          <span className="font-mono text-terminal-green">{entry.userAgent ?? 'Unknown'}</span>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export function OrganizationAuditLog({
+  organizationId,
+  organizationSlug,
+  className,
+}: OrganizationAuditLogProps) {
+  const [form, setForm] = useState<FilterState>(EMPTY_FILTERS)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const parsedFilters = auditLogFiltersSchema.safeParse(toAuditLogFilters(form))
+  const filters = parsedFilters.success ? parsedFilters.data : {}
+  const filterError = parsedFilters.success ? null : parsedFilters.error.issues[0]?.message
+
+  const { data: membersData } = useOrganizationMembers(organizationId)
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useAuditLog(
+    parsedFilters.success ? organizationId : null,
+    filters
+  )
+  const exportLog = useExportAuditLog(organizationId)
+
+  const members = membersData?.data ?? []
+  const entries = data?.pages.flatMap((page) => page.data) ?? []
+  const hasFilters = JSON.stringify(form) !== JSON.stringify(EMPTY_FILTERS)
+
+  const updateForm = (patch: Partial<FilterState>) => {
+    setForm((current) => ({ ...current, ...patch }))
+    setExpandedId(null)
+  }
+
+  const handleExport = (format: AuditLogExportFormat) => {
+    exportLog.mutate(filters, {
+      onSuccess: ({ entries: exported }) => {
+        const content =
+          format === 'csv'
+            ? toAuditLogCsv(exported)
+            : toAuditLogJson(organizationId, exported, filters)
+        downloadFile(
+          content,
+          getAuditLogFilename(organizationSlug, format),
+          format === 'csv' ? 'text/csv' : 'application/json'
+        )
+      },
+    })
+  }
+
+  return (
+    <div data-slot="organization-audit-log" className={cn('space-y-4', className)}>
+      {/* Filters */}
+      <div className="space-y-3 border-2 border-terminal p-4">
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="auditActor" className="typo-ui text-terminal-dim">
+              &gt; ACTOR
+            </Label>
+            <Select value={form.actorId} onValueChange={(actorId) => updateForm({ actorId })}>
+              <SelectTrigger id="auditActor" className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} className="typo-ui">
+                  ALL ACTORS
+                </SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.userId} value={member.userId} className="typo-ui">
+                    {member.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditAction" className="typo-ui text-terminal-dim">
+              &gt; ACTION
+            </Label>
+            <Select value={form.action} onValueChange={(action) => updateForm({ action })}>
+              <SelectTrigger id="auditAction" className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} className="typo-ui">
+                  ALL ACTIONS
+                </SelectItem>
+                {AUDIT_LOG_ACTIONS.map((action) => (
+                  <SelectItem key={action} value={action} className="typo-ui">
+                    {formatAuditAction(action)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditResourceType" className="typo-ui text-terminal-dim">
+              &gt; RESOURCE
+            </Label>
+            <Select
+              value={form.resourceType}
+              onValueChange={(resourceType) => updateForm({ resourceType })}
+            >
+              <SelectTrigger id="auditResourceType" className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL} className="typo-ui">
+                  ALL RESOURCES
+                </SelectItem>
+                {AUDIT_LOG_RESOURCE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type} className="typo-ui">
+                    {AUDIT_LOG_RESOURCE_LABELS[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditResourceId" className="typo-ui text-terminal-dim">
+              &gt; RESOURCE ID
+            </Label>
+            <Input
+              id="auditResourceId"
+              placeholder="Any"
+              value={form.resourceId}
+              onChange={(e) => updateForm({ resourceId: e.target.value })}
+              className="typo-ui font-mono"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditFromDate" className="typo-ui text-terminal-dim">
+              &gt; FROM
+            </Label>
+            <Input
+              id="auditFromDate"
+              type="date"
+              value={form.fromDate}
+              onChange={(e) => updateForm({ fromDate: e.target.value })}
+              className="typo-ui"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="auditToDate" className="typo-ui text-terminal-dim">
+              &gt; TO
+            </Label>
+            <Input
+              id="auditToDate"
+              type="date"
+              value={form.toDate}
+              onChange={(e) => updateForm({ toDate: e.target.value })}
+              className="typo-ui"
+            />
+          </div>
+        </div>
+
+        {filterError && <p className="text-destructive text-sm">{filterError}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            onClick={() => handleExport('csv')}
+            disabled={!parsedFilters.success || exportLog.isPending || entries.length === 0}
+          >
+            [EXPORT CSV]
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            onClick={() => handleExport('json')}
+            disabled={!parsedFilters.success || exportLog.isPending || entries.length === 0}
+          >
+            [EXPORT JSON]
+          </Button>
+          {exportLog.isPending && (
+            <span className="typo-ui text-terminal-dim self-center" aria-live="polite">
+              &gt; EXPORTING...
+            </span>
+          )}
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="typo-ui ml-auto"
+              onClick={() => updateForm(EMPTY_FILTERS)}
+            >
+              [CLEAR FILTERS]
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Entries */}
+      {isLoading ? (
+        <LoadingSkeleton count={5} height={60} />
+      ) : error ? (
+        <ApiErrorDisplay
+          error={error instanceof Error ? error : new Error('An unexpected error occurred')}
+          title="ERROR LOADING AUDIT LOG"
+        />
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon="clock"
+          title={hasFilters ? 'NO MATCHING ENTRIES' : 'NO ACTIVITY YET'}
+          description={
+            hasFilters
+              ? 'No audit log entries match these filters.'
+              : 'Changes to members, triggers, API keys, agents and settings are recorded here.'
+          }
+          variant="subtle"
+          size="md"
+        />
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => {
+            const isExpanded = expandedId === entry.id
+            return (
+              <div
+                key={entry.id}
+                className={cn(
+                  'border-2 bg-terminal transition-colors',
+                  isExpanded
+                    ? 'border-terminal-green'
+                    : 'border-terminal hover:border-terminal-green'
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  aria-expanded={isExpanded}
+                  className="flex w-full flex-wrap items-center gap-3 p-4 text-left"
+                >
+                  <Icon
+                    name={isExpanded ? 'chevron-down' : 'chevron-right'}
+                    size="sm"
+                    className="text-terminal-dim"
+                  />
+                  <span className="typo-ui text-terminal-green">
+                    {formatDateTime(entry.createdAt)}
+                  </span>
+                  <Badge variant="outline" className="typo-ui border-2 bg-transparent">
+                    {formatAuditAction(entry.action)}
+                  </Badge>
+                  <span className="typo-ui text-terminal-dim break-all">
+                    {resourceLabel(entry.resourceType)}
+                    {entry.resourceName && (
+                      <span className="text-terminal-green"> {entry.resourceName}</span>
+                    )}
+                  </span>
+                  <span className="typo-ui text-terminal-dim ml-auto break-all">
+                    BY {formatAuditActor(entry)}
+                  </span>
+                </button>
+                {isExpanded && (
+                  <div className="border-t-2 border-terminal-dim p-4">
+                    <EntryDetails entry={entry} />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="text-center">
+          <Button
+            variant="outline"
+            className="typo-ui"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+          >
+            {isFetchingNextPage ? '[LOADING...]' : '[LOAD MORE]'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useState } from 'react'
+import { WagmiProvider } from 'wagmi'
+import { Button } from '@/components/atoms/button'
+import { wagmiConfig } from '@/lib/wagmi-config'
+import { RequestValidationDialog } from './RequestValidationDialog'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const meta: Meta<typeof RequestValidationDialog> = {
+  title: 'Organisms/RequestValidationDialog',
+  component: RequestValidationDialog,
+  parameters: {
+    layout: 'centered',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <WagmiProvider config={wagmiConfig}>
+        <QueryClientProvider client={queryClient}>
+          <Story />
+        </QueryClientProvider>
+      </WagmiProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  render: () => {
+    const [open, setOpen] = useState(false)
+    return (
+      <>
+        <Button onClick={() => setOpen(true)}>[REQUEST VALIDATION]</Button>
+        <RequestValidationDialog agentId={42} chainId={11155111} open={open} onOpenChange={setOpen} />
+      </>
+    )
+  },
+}
+
+export const Opened: Story = {
+  args: {
+    agentId: 42,
+    chainId: 11155111,
+    open: true,
+    onOpenChange: () => {},
+  },
+}
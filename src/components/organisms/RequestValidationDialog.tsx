@@ -0,0 +1,203 @@
+/**
+ * RequestValidationDialog
+ *
+ * Dialog for asking a validator to check an agent on the ERC-8004
+ * validation registry from the connected wallet. The request file tells
+ * the validator what to verify. Once submitted, follows the transaction
+ * until it is confirmed and indexed.
+ *
+ * @module components/organisms/RequestValidationDialog
+ *
+ * @example
+ * ```tsx
+ * <RequestValidationDialog
+ *   agentId={42}
+ *   chainId={11155111}
+ *   open={isOpen}
+ *   onOpenChange={setIsOpen}
+ * />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import type { Hash } from 'viem'
+import { useAccount } from 'wagmi'
+import { Button } from '@/components/atoms/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/atoms/dialog'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import { TransactionStatus, WalletConnectionPanel } from '@/components/molecules'
+import { useIndexedTransactionEvent, useRequestValidation } from '@/hooks'
+import { validationRequestSchema } from '@/lib/validations'
+
+/**
+ * Props for the RequestValidationDialog component.
+ */
+interface RequestValidationDialogProps {
+  /** On-chain agent ID to validate */
+  agentId: number
+  /** Chain the agent is registered on */
+  chainId: number
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+}
+
+const EMPTY_FORM = {
+  validatorAddress: '',
+  requestUri: '',
+  requestHash: '',
+}
+
+const INPUT_CLASS = 'typo-ui border-terminal-dim bg-terminal focus:border-terminal-green'
+
+export function RequestValidationDialog({
+  agentId,
+  chainId,
+  open,
+  onOpenChange,
+}: RequestValidationDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [error, setError] = useState<string | null>(null)
+  const [txHash, setTxHash] = useState<Hash | null>(null)
+
+  const { isConnected } = useAccount()
+  const requestValidation = useRequestValidation(chainId, agentId, { onSubmitted: setTxHash })
+  const { data: indexedEvent } = useIndexedTransactionEvent(
+    chainId,
+    requestValidation.isSuccess ? txHash : null
+  )
+
+  const setField = (field: keyof typeof EMPTY_FORM) => (value: string) =>
+    setForm((current) => ({ ...current, [field]: value }))
+
+  const handleSubmit = () => {
+    const parsed = validationRequestSchema.safeParse(form)
+    if (!parsed.success) {
+      setError(parsed.error.issues[0]?.message ?? 'Invalid validation request')
+      return
+    }
+
+    setError(null)
+    setTxHash(null)
+    requestValidation.mutate(parsed.data, {
+      onError: (err) => setError(err.message),
+    })
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open && !requestValidation.isPending) {
+      setForm(EMPTY_FORM)
+      setError(null)
+      setTxHash(null)
+      requestValidation.reset()
+    }
+    onOpenChange(open)
+  }
+
+  const fields: { id: keyof typeof EMPTY_FORM; label: string; placeholder: string }[] = [
+    { id: 'validatorAddress', label: 'VALIDATOR ADDRESS', placeholder: '0x...' },
+    { id: 'requestUri', label: 'REQUEST URI', placeholder: 'ipfs://...' },
+    { id: 'requestHash', label: 'REQUEST HASH (OPTIONAL)', placeholder: 'Derived from the URI' },
+  ]
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal">
+        <DialogHeader>
+          <DialogTitle className="typo-ui text-terminal-green glow flex items-center gap-2">
+            <Icon name="check" size="sm" />
+            REQUEST VALIDATION
+          </DialogTitle>
+          <DialogDescription className="typo-ui text-terminal-dim">
+            Ask a validator to verify Agent #{agentId} on the validation registry. This sends a
+            transaction from your wallet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {txHash ? (
+          <div className="space-y-4 py-4">
+            <TransactionStatus
+              chainId={chainId}
+              hash={txHash}
+              status={
+                requestValidation.isSuccess
+                  ? 'confirmed'
+                  : requestValidation.isError
+                    ? 'failed'
+                    : 'pending'
+              }
+              eventId={indexedEvent?.id}
+            />
+          </div>
+        ) : (
+          <div className="space-y-4 py-4">
+            {fields.map((field) => (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={`validation-${field.id}`} className="typo-ui text-terminal-dim">
+                  &gt; {field.label}
+                </Label>
+                <Input
+                  id={`validation-${field.id}`}
+                  placeholder={field.placeholder}
+                  value={form[field.id]}
+                  onChange={(e) => setField(field.id)(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+              </div>
+            ))}
+
+            <WalletConnectionPanel chainId={chainId} />
+          </div>
+        )}
+
+        {error && (
+          <p className="typo-ui text-destructive flex items-center gap-2">
+            <Icon name="warning" size="sm" />
+            {error}
+          </p>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleOpenChange(false)}
+            className="typo-ui"
+          >
+            {requestValidation.isSuccess ? '[CLOSE]' : '[CANCEL]'}
+          </Button>
+          {(!txHash || requestValidation.isError) && (
+            <Button
+              size="sm"
+              onClick={handleSubmit}
+              disabled={
+                !isConnected ||
+                !form.validatorAddress ||
+                !form.requestUri ||
+                requestValidation.isPending
+              }
+              className="typo-ui"
+            >
+              {requestValidation.isPending
+                ? '[CONFIRM IN WALLET...]'
+                : requestValidation.isError
+                  ? '[RETRY]'
+                  : '[SUBMIT REQUEST]'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,75 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import type { Trigger } from '@/lib/validations'
+import { SaveTriggerTemplateDialog } from './SaveTriggerTemplateDialog'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const mockTrigger: Trigger = {
+  id: '550e8400-e29b-41d4-a716-446655440001',
+  userId: '550e8400-e29b-41d4-a716-446655440002',
+  organizationId: '550e8400-e29b-41d4-a716-446655440000',
+  name: 'Low reputation alert',
+  description: 'Alerts when a score drops below 40',
+  chainId: 11155111,
+  registry: 'reputation',
+  enabled: true,
+  isStateful: false,
+  executionCount: 12,
+  lastExecutedAt: null,
+  createdAt: '2026-01-15T10:00:00Z',
+  updatedAt: '2026-01-15T10:00:00Z',
+  conditions: [],
+  actions: [],
+}
+
+const meta: Meta<typeof SaveTriggerTemplateDialog> = {
+  title: 'Organisms/SaveTriggerTemplateDialog',
+  component: SaveTriggerTemplateDialog,
+  parameters: {
+    layout: 'centered',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <Story />
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  render: () => {
+    const [open, setOpen] = useState(false)
+    return (
+      <>
+        <Button onClick={() => setOpen(true)}>[SAVE AS TEMPLATE]</Button>
+        <SaveTriggerTemplateDialog trigger={mockTrigger} open={open} onOpenChange={setOpen} />
+      </>
+    )
+  },
+}
+
+export const OpenedDialog: Story = {
+  args: {
+    trigger: mockTrigger,
+    open: true,
+    onOpenChange: () => {},
+  },
+}
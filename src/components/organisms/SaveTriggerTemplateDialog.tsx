@@ -0,0 +1,193 @@
+/**
+ * SaveTriggerTemplateDialog
+ *
+ * Saves an existing trigger as an organization template. The template
+ * copies the trigger's chain, conditions and actions and shows up in the
+ * template gallery when creating a new trigger.
+ *
+ * @module components/organisms/SaveTriggerTemplateDialog
+ *
+ * @example
+ * ```tsx
+ * <SaveTriggerTemplateDialog trigger={trigger} open={isOpen} onOpenChange={setIsOpen} />
+ * ```
+ */
+'use client'
+
+import { zodResolver } from '@hookform/resolvers/zod'
+import { useForm } from 'react-hook-form'
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  Input,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  Textarea,
+} from '@/components/atoms'
+import { getTriggerFormDefaults, useCreateTriggerTemplate } from '@/hooks'
+import { toTriggerTemplateBody } from '@/lib/trigger-templates'
+import {
+  TRIGGER_TEMPLATE_CATEGORIES,
+  type Trigger,
+  type TriggerTemplateInfo,
+  triggerTemplateInfoSchema,
+} from '@/lib/validations'
+
+/**
+ * Props for the SaveTriggerTemplateDialog component.
+ */
+interface SaveTriggerTemplateDialogProps {
+  /** Trigger to save as a template */
+  trigger: Trigger
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+}
+
+export function SaveTriggerTemplateDialog({
+  trigger,
+  open,
+  onOpenChange,
+}: SaveTriggerTemplateDialogProps) {
+  const createTemplate = useCreateTriggerTemplate()
+
+  const form = useForm<TriggerTemplateInfo>({
+    resolver: zodResolver(triggerTemplateInfoSchema),
+    defaultValues: {
+      name: trigger.name,
+      description: trigger.description ?? '',
+      category: trigger.registry,
+    },
+  })
+
+  const onSubmit = async (data: TriggerTemplateInfo) => {
+    try {
+      await createTemplate.mutateAsync({
+        name: data.name,
+        description: data.description || undefined,
+        category: data.category,
+        parameters: [],
+        trigger: toTriggerTemplateBody(getTriggerFormDefaults(trigger)),
+      })
+      onOpenChange(false)
+    } catch {
+      // Error handling is done by the mutation
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      form.reset()
+    }
+    onOpenChange(newOpen)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-terminal-green glow">[+] SAVE AS TEMPLATE</DialogTitle>
+          <DialogDescription className="text-terminal-dim">
+            Reuse this trigger&apos;s chain, conditions and actions when creating new triggers.
+            Webhook URLs, tokens and other action secrets are left out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-terminal-green typo-ui">&gt; NAME</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      className="bg-terminal border-terminal-dim focus:border-terminal-green typo-ui"
+                      autoFocus
+                    />
+                  </FormControl>
+                  <FormMessage className="text-destructive" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-terminal-green typo-ui">&gt; DESCRIPTION</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      placeholder="Optional description..."
+                      className="bg-terminal border-terminal-dim focus:border-terminal-green typo-ui resize-none"
+                      rows={3}
+                    />
+                  </FormControl>
+                  <FormMessage className="text-destructive" />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-terminal-green typo-ui">&gt; CATEGORY</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="typo-ui">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {TRIGGER_TEMPLATE_CATEGORIES.map((category) => (
+                        <SelectItem key={category} value={category} className="typo-ui">
+                          {category.toUpperCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage className="text-destructive" />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2 sm:gap-0">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+                className="typo-ui"
+              >
+                [CANCEL]
+              </Button>
+              <Button type="submit" disabled={createTemplate.isPending} className="typo-ui">
+                {createTemplate.isPending ? '[SAVING...]' : '[SAVE]'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,157 @@
+/**
+ * TemplatePreview
+ *
+ * Live preview of action message templates. Renders each template
+ * against a sample event built from the event catalog, or against one of
+ * the most recent real events for the trigger's chain and registry, and
+ * lists errors inline (syntax, unknown variables or filters, and paths
+ * missing from the selected event). Values are escaped for each
+ * template's output format, as they will be sent.
+ *
+ * @module components/organisms/TemplatePreview
+ *
+ * @example
+ * ```tsx
+ * <TemplatePreview
+ *   templates={[{ label: 'MESSAGE', template: '{{eventType}} on agent {{agentId}}' }]}
+ *   chainId={11155111}
+ *   registry="reputation"
+ * />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { useEvents } from '@/hooks'
+import type { Registry } from '@/lib/constants'
+import { EVENT_TYPE_LIST, getEventTypesForRegistry } from '@/lib/event-catalog'
+import { formatBlockNumber } from '@/lib/format'
+import {
+  createSampleEvent,
+  createTemplateContext,
+  renderTemplate,
+  TEMPLATE_FILTERS,
+  type TemplateFormat,
+} from '@/lib/template-engine'
+import { cn } from '@/lib/utils'
+
+/**
+ * Props for the TemplatePreview component.
+ */
+interface TemplatePreviewProps {
+  /** Templates to preview, with display labels and output formats (default: `text`) */
+  templates: Array<{ label: string; template: string; format?: TemplateFormat }>
+  /** Chain the trigger listens on (scopes sample and recent events) */
+  chainId?: number
+  /** Registry the trigger listens on (scopes sample and recent events) */
+  registry?: Registry
+  /** Trigger ID and name for `triggerId` / `triggerName` */
+  trigger?: { id?: string; name?: string }
+  /** Additional CSS classes */
+  className?: string
+}
+
+/** Number of recent events offered as preview sources */
+const RECENT_EVENT_LIMIT = 10
+
+const FILTER_USAGE = Object.values(TEMPLATE_FILTERS)
+  .map((filter) => filter.usage)
+  .join(', ')
+
+export function TemplatePreview({
+  templates,
+  chainId,
+  registry,
+  trigger,
+  className,
+}: TemplatePreviewProps) {
+  const sampleTypes = registry ? getEventTypesForRegistry(registry) : EVENT_TYPE_LIST
+  const [source, setSource] = useState<string>('')
+  const { data } = useEvents({ chainId, registry, limit: RECENT_EVENT_LIMIT })
+  const recentEvents = data?.data ?? []
+
+  const selected = source || `sample:${sampleTypes[0] ?? ''}`
+  const event =
+    recentEvents.find((candidate) => `event:${candidate.id}` === selected) ??
+    createSampleEvent(selected.replace(/^sample:/, '') || undefined, chainId)
+
+  const context = createTemplateContext(event, trigger)
+  const filled = templates.filter((entry) => entry.template.trim())
+
+  return (
+    <Box
+      variant="subtle"
+      padding="sm"
+      className={cn('space-y-3', className)}
+      data-slot="template-preview"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="typo-ui text-terminal-green">&gt; LIVE PREVIEW</div>
+        <Select value={selected} onValueChange={setSource}>
+          <SelectTrigger className="typo-ui w-full md:w-72" aria-label="Preview event">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel className="typo-ui">SAMPLE EVENTS</SelectLabel>
+              {sampleTypes.map((type) => (
+                <SelectItem key={type} value={`sample:${type}`} className="typo-ui">
+                  SAMPLE: {type}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {recentEvents.length > 0 && (
+              <SelectGroup>
+                <SelectLabel className="typo-ui">RECENT EVENTS</SelectLabel>
+                {recentEvents.map((recent) => (
+                  <SelectItem key={recent.id} value={`event:${recent.id}`} className="typo-ui">
+                    {recent.eventType} · #{recent.agentId ?? '--'} · BLOCK{' '}
+                    {formatBlockNumber(recent.blockNumber)}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {filled.length === 0 ? (
+        <div className="typo-ui text-terminal-dim">Write a template to see it rendered.</div>
+      ) : (
+        filled.map(({ label, template, format }) => {
+          const { output, errors } = renderTemplate(template, context, format)
+          return (
+            <div key={label} className="space-y-1">
+              <div className="typo-ui text-terminal-dim">{label}</div>
+              {output && (
+                <pre className="typo-code text-terminal-green whitespace-pre-wrap break-words border-2 border-terminal-dim p-2">
+                  {output}
+                </pre>
+              )}
+              {errors.map((error) => (
+                <p key={`${error.code}:${error.message}`} className="typo-ui text-destructive">
+                  {error.message}
+                </p>
+              ))}
+            </div>
+          )
+        })
+      )}
+
+      <div className="typo-ui text-terminal-dim/80">
+        Paths: {'{{data.field}}'} · Filters: {FILTER_USAGE} · Blocks: {'{{#if data.field}}'}
+        ...{'{{else}}'}...{'{{/if}}'}
+      </div>
+    </Box>
+  )
+}
@@ -0,0 +1,84 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { HttpResponse, http } from 'msw'
+import { TriggerBulkActionsBar } from './TriggerBulkActionsBar'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const ORG_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const meta: Meta<typeof TriggerBulkActionsBar> = {
+  title: 'Organisms/TriggerBulkActionsBar',
+  component: TriggerBulkActionsBar,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+    msw: {
+      handlers: [
+        http.get('/api/organizations', () =>
+          HttpResponse.json({
+            data: [
+              {
+                id: '550e8400-e29b-41d4-a716-446655440009',
+                name: 'Staging',
+                slug: 'staging',
+                description: null,
+                is_personal: false,
+                created_at: '2026-01-01T00:00:00Z',
+                updated_at: '2026-01-01T00:00:00Z',
+                my_role: 'admin',
+              },
+            ],
+            pagination: { total: 1, limit: 20, offset: 0, has_more: false },
+          })
+        ),
+        http.post('/api/triggers/:id/disable', () =>
+          HttpResponse.json(
+            { message: 'Trigger is locked', code: 'RESOURCE_CONFLICT' },
+            { status: 409 }
+          )
+        ),
+      ],
+    },
+  },
+  tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <Story />
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  args: {
+    organizationId: ORG_ID,
+    selectedIds: ['550e8400-e29b-41d4-a716-446655440001', '550e8400-e29b-41d4-a716-446655440002'],
+    onSelectionChange: () => {},
+    onExport: () => {},
+  },
+}
+
+export const SingleTrigger: Story = {
+  args: {
+    ...Default.args,
+    selectedIds: ['550e8400-e29b-41d4-a716-446655440001'],
+  },
+}
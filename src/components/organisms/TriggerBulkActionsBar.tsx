@@ -0,0 +1,313 @@
+/**
+ * TriggerBulkActionsBar
+ *
+ * Actions for the triggers selected in `TriggersList`: enable, disable,
+ * duplicate, move to another organization, export and delete. Shows the
+ * progress of the running action and, when some triggers fail, a summary
+ * of the failure reasons. Failed triggers stay selected so the action can
+ * be retried.
+ *
+ * @module components/organisms/TriggerBulkActionsBar
+ *
+ * @example
+ * ```tsx
+ * <TriggerBulkActionsBar
+ *   organizationId={orgId}
+ *   selectedIds={[...selected]}
+ *   onSelectionChange={(ids) => setSelected(new Set(ids))}
+ *   onExport={() => setExporting([...selected])}
+ * />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/atoms/dialog'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { ConfirmDialog, PermissionTooltip } from '@/components/molecules'
+import {
+  type BulkTriggerAction,
+  type BulkTriggerResult,
+  summarizeBulkFailures,
+  useBulkTriggerAction,
+  useOrganizations,
+  usePermission,
+} from '@/hooks'
+import { can } from '@/lib/permissions'
+import { cn } from '@/lib/utils'
+
+/**
+ * Props for the TriggerBulkActionsBar component.
+ */
+interface TriggerBulkActionsBarProps {
+  /** Organization the triggers belong to */
+  organizationId: string
+  /** Selected trigger IDs */
+  selectedIds: string[]
+  /** Called with the new selection: empty when cleared, the failed triggers after an action */
+  onSelectionChange: (ids: string[]) => void
+  /** Called to export the selected triggers */
+  onExport: () => void
+  className?: string
+}
+
+const PROGRESS_LABELS: Record<BulkTriggerAction, string> = {
+  enable: 'ENABLING',
+  disable: 'DISABLING',
+  delete: 'DELETING',
+  duplicate: 'DUPLICATING',
+  move: 'MOVING',
+}
+
+export function TriggerBulkActionsBar({
+  organizationId,
+  selectedIds,
+  onSelectionChange,
+  onExport,
+  className,
+}: TriggerBulkActionsBarProps) {
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const [isMoveOpen, setIsMoveOpen] = useState(false)
+  const [targetOrganizationId, setTargetOrganizationId] = useState('')
+  const [lastResult, setLastResult] = useState<BulkTriggerResult | null>(null)
+
+  const bulk = useBulkTriggerAction(organizationId)
+  const { data: organizations } = useOrganizations()
+  const moveTargets = (organizations?.data ?? []).filter(
+    (org) => org.id !== organizationId && can(org.my_role, 'create', 'trigger')
+  )
+  const canCreate = usePermission('create', 'trigger')
+  const canUpdate = usePermission('update', 'trigger')
+  const canDelete = usePermission('delete', 'trigger')
+  const moveDisabledReason =
+    canDelete.reason ??
+    (moveTargets.length === 0
+      ? 'No other organization where you can create triggers to move them to.'
+      : null)
+
+  const count = selectedIds.length
+  const label = `${count} TRIGGER${count !== 1 ? 'S' : ''}`
+
+  const run = (action: BulkTriggerAction, onDone?: () => void) => {
+    setLastResult(null)
+    bulk.mutate(
+      { action, triggerIds: selectedIds, targetOrganizationId },
+      {
+        onSuccess: (result) => {
+          setLastResult(result.failed.length > 0 ? result : null)
+          onSelectionChange(result.failed.map((f) => f.triggerId))
+          onDone?.()
+        },
+      }
+    )
+  }
+
+  if (count === 0 && !lastResult && !bulk.isPending) return null
+
+  return (
+    <div data-slot="trigger-bulk-actions" className={cn('space-y-3', className)}>
+      {count > 0 && (
+        <Box variant="secondary" padding="sm" className="flex flex-wrap items-center gap-2">
+          <span className="typo-ui text-terminal-green mr-2">&gt; {label} SELECTED</span>
+          <PermissionTooltip reason={canUpdate.reason}>
+            <Button
+              variant="outline"
+              size="sm"
+              className="typo-ui"
+              disabled={!canUpdate.allowed || bulk.isPending}
+              onClick={() => run('enable')}
+            >
+              [ENABLE]
+            </Button>
+          </PermissionTooltip>
+          <PermissionTooltip reason={canUpdate.reason}>
+            <Button
+              variant="outline"
+              size="sm"
+              className="typo-ui"
+              disabled={!canUpdate.allowed || bulk.isPending}
+              onClick={() => run('disable')}
+            >
+              [DISABLE]
+            </Button>
+          </PermissionTooltip>
+          <PermissionTooltip reason={canCreate.reason}>
+            <Button
+              variant="outline"
+              size="sm"
+              className="typo-ui"
+              disabled={!canCreate.allowed || bulk.isPending}
+              onClick={() => run('duplicate')}
+            >
+              [DUPLICATE]
+            </Button>
+          </PermissionTooltip>
+          <PermissionTooltip reason={moveDisabledReason}>
+            <Button
+              variant="outline"
+              size="sm"
+              className="typo-ui"
+              disabled={moveDisabledReason !== null || bulk.isPending}
+              onClick={() => setIsMoveOpen(true)}
+            >
+              [MOVE]
+            </Button>
+          </PermissionTooltip>
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            disabled={bulk.isPending}
+            onClick={onExport}
+          >
+            [EXPORT]
+          </Button>
+          <PermissionTooltip reason={canDelete.reason}>
+            <Button
+              variant="destructive"
+              size="sm"
+              className="typo-ui"
+              disabled={!canDelete.allowed || bulk.isPending}
+              onClick={() => setConfirmDelete(true)}
+            >
+              [DELETE]
+            </Button>
+          </PermissionTooltip>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="typo-ui ml-auto"
+            disabled={bulk.isPending}
+            onClick={() => onSelectionChange([])}
+          >
+            [CLEAR SELECTION]
+          </Button>
+        </Box>
+      )}
+
+      {bulk.isPending && bulk.variables && (
+        <div className="space-y-1" aria-live="polite">
+          <div className="typo-ui text-terminal-dim">
+            &gt; {PROGRESS_LABELS[bulk.variables.action]} {bulk.progress.done}/{bulk.progress.total}
+          </div>
+          <div className="h-2 border border-terminal-dim">
+            <div
+              className="h-full bg-terminal-green transition-all"
+              style={{
+                width: `${bulk.progress.total ? (bulk.progress.done / bulk.progress.total) * 100 : 0}%`,
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {lastResult && (
+        <Box variant="error" padding="sm" className="typo-ui space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-destructive">
+              [!] {lastResult.failed.length} FAILED, {lastResult.succeeded.length} SUCCEEDED
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="typo-ui ml-auto"
+              onClick={() => setLastResult(null)}
+            >
+              [DISMISS]
+            </Button>
+          </div>
+          {summarizeBulkFailures(lastResult.failed).map((line) => (
+            <div key={line} className="text-terminal-dim">
+              {line}
+            </div>
+          ))}
+          <ul className="text-terminal-dim/80">
+            {lastResult.failed.map((failure) => (
+              <li key={failure.triggerId} className="break-all">
+                - {failure.name ?? failure.triggerId}: {failure.message}
+              </li>
+            ))}
+          </ul>
+        </Box>
+      )}
+
+      <ConfirmDialog
+        open={confirmDelete}
+        onOpenChange={setConfirmDelete}
+        title={`Delete ${count} trigger${count !== 1 ? 's' : ''}`}
+        description="This permanently deletes the selected triggers."
+        confirmLabel="Delete"
+        variant="destructive"
+        onConfirm={() => run('delete', () => setConfirmDelete(false))}
+        isLoading={bulk.isPending}
+      />
+
+      <Dialog open={isMoveOpen} onOpenChange={setIsMoveOpen}>
+        <DialogContent className="border-2 border-terminal bg-terminal sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="typo-ui text-terminal-green glow">
+              [&gt;] MOVE {label}
+            </DialogTitle>
+            <DialogDescription className="typo-ui text-terminal-dim">
+              The triggers are recreated in the destination organization and deleted here. Execution
+              history stays with this organization.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="moveTriggersTarget" className="typo-ui text-terminal-dim">
+              &gt; DESTINATION
+            </Label>
+            <Select value={targetOrganizationId} onValueChange={setTargetOrganizationId}>
+              <SelectTrigger id="moveTriggersTarget" className="typo-ui">
+                <SelectValue placeholder="Select organization..." />
+              </SelectTrigger>
+              <SelectContent>
+                {moveTargets.map((org) => (
+                  <SelectItem key={org.id} value={org.id} className="typo-ui">
+                    {org.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsMoveOpen(false)}
+              className="typo-ui"
+            >
+              [CANCEL]
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => run('move', () => setIsMoveOpen(false))}
+              disabled={!targetOrganizationId || bulk.isPending}
+              className="typo-ui"
+            >
+              {bulk.isPending ? '[MOVING...]' : '[MOVE]'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
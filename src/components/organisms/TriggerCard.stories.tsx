@@ -1,6 +1,7 @@
 import type { Meta, StoryObj } from '@storybook/nextjs-vite'
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { TriggerCard } from './TriggerCard'
+import { useOrganizationStore } from '@/stores/organization-store'
 import type { Trigger } from '@/types/models'
 
 const queryClient = new QueryClient({
@@ -22,6 +23,9 @@ const meta = {
       },
     },
   },
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
   decorators: [
     (Story) => (
       <QueryClientProvider client={queryClient}>
@@ -426,3 +430,14 @@ export const TriggerGrid = {
     )
   },
 }
+
+/**
+ * Trigger seen by a viewer.
+ * Toggle and delete are disabled with a tooltip explaining the required role.
+ */
+export const ViewerRole: Story = {
+  args: ActiveTrigger.args,
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'viewer' })
+  },
+}
@@ -36,11 +36,12 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/atoms/dialog'
-import { useDeleteTrigger, useToggleTrigger } from '@/hooks'
+import { useDeleteTrigger, usePermission, useToggleTrigger } from '@/hooks'
+import { countConditions } from '@/lib/condition-tree'
 import { sanitizeHtml } from '@/lib/sanitize'
 import { cn } from '@/lib/utils'
 import type { Trigger } from '@/types/models'
-import { ChainBadge, RegistryBadge, StatusBadge } from '@/components/molecules'
+import { ChainBadge, PermissionTooltip, RegistryBadge, StatusBadge } from '@/components/molecules'
 
 /**
  * Props for the TriggerCard component.
@@ -56,6 +57,8 @@ export function TriggerCard({ trigger, className }: TriggerCardProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const { toggle: toggleTrigger, isPending: isToggling } = useToggleTrigger()
   const deleteMutation = useDeleteTrigger()
+  const canUpdate = usePermission('update', 'trigger')
+  const canDelete = usePermission('delete', 'trigger')
 
   const handleToggle = async () => {
     await toggleTrigger(trigger)
@@ -86,7 +89,7 @@ export function TriggerCard({ trigger, className }: TriggerCardProps) {
       >
         <CardHeader className="border-b-2 border-terminal-dim pb-4">
           <div className="flex-1 min-w-0">
-            <CardTitle className="typo-ui text-terminal-green glow mb-2 truncate">
+            <CardTitle className="typo-ui text-terminal-green glow mb-2 truncate pr-6">
               {sanitizeHtml(trigger.name)}
             </CardTitle>
             {trigger.description && (
@@ -121,7 +124,7 @@ export function TriggerCard({ trigger, className }: TriggerCardProps) {
             <div>
               <div className="typo-ui text-terminal-dim mb-1">&gt; CONDITIONS</div>
               <div className="typo-ui text-terminal-green">
-                {trigger.conditions?.length ?? 0}
+                {countConditions(trigger.conditions)}
               </div>
             </div>
             <div>
@@ -137,26 +140,31 @@ export function TriggerCard({ trigger, className }: TriggerCardProps) {
               <Link href={`/dashboard/triggers/${trigger.id}`}>[VIEW]</Link>
             </Button>
 
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleToggle}
-              disabled={isToggling}
-              className="typo-ui"
-              aria-label={`${trigger.enabled ? 'Disable' : 'Enable'} trigger ${trigger.name}`}
-            >
-              {isToggling ? '[...]' : trigger.enabled ? '[DISABLE]' : '[ENABLE]'}
-            </Button>
+            <PermissionTooltip reason={canUpdate.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleToggle}
+                disabled={isToggling || !canUpdate.allowed}
+                className="typo-ui"
+                aria-label={`${trigger.enabled ? 'Disable' : 'Enable'} trigger ${trigger.name}`}
+              >
+                {isToggling ? '[...]' : trigger.enabled ? '[DISABLE]' : '[ENABLE]'}
+              </Button>
+            </PermissionTooltip>
 
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setDeleteDialogOpen(true)}
-              className="typo-ui text-destructive hover:text-destructive"
-              aria-label={`Delete trigger ${trigger.name}`}
-            >
-              [DELETE]
-            </Button>
+            <PermissionTooltip reason={canDelete.reason}>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDeleteDialogOpen(true)}
+                disabled={!canDelete.allowed}
+                className="typo-ui text-destructive hover:text-destructive"
+                aria-label={`Delete trigger ${trigger.name}`}
+              >
+                [DELETE]
+              </Button>
+            </PermissionTooltip>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,197 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { TriggerExecutionsList } from './TriggerExecutionsList'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const TRIGGER_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const mockEvent = {
+  id: '550e8400-e29b-41d4-a716-446655440100',
+  eventType: 'ReputationUpdated',
+  agentId: 42,
+  chainId: 11155111,
+  registry: 'reputation' as const,
+  blockNumber: 7654321,
+  transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+  data: { score: 35 },
+  timestamp: '2024-01-15T10:30:00Z',
+  createdAt: '2024-01-15T10:30:05Z',
+}
+
+const mockExecutions = [
+  {
+    id: '550e8400-e29b-41d4-a716-446655440201',
+    triggerId: TRIGGER_ID,
+    status: 'success' as const,
+    eventId: mockEvent.id,
+    event: mockEvent,
+    startedAt: '2024-01-15T10:30:06Z',
+    completedAt: '2024-01-15T10:30:07Z',
+    durationMs: 842,
+    error: null,
+    actionResults: [
+      {
+        actionId: '550e8400-e29b-41d4-a716-446655440301',
+        actionType: 'telegram' as const,
+        status: 'success' as const,
+        durationMs: 410,
+        error: null,
+        deliveryStatus: 'delivered' as const,
+        messageId: '1842',
+      },
+      {
+        actionId: '550e8400-e29b-41d4-a716-446655440302',
+        actionType: 'rest' as const,
+        status: 'success' as const,
+        durationMs: 380,
+        error: null,
+        httpStatus: 200,
+        responseBody: { ok: true },
+      },
+    ],
+    replayOf: null,
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440202',
+    triggerId: TRIGGER_ID,
+    status: 'failed' as const,
+    eventId: mockEvent.id,
+    event: mockEvent,
+    startedAt: '2024-01-14T08:12:00Z',
+    completedAt: '2024-01-14T08:12:30Z',
+    durationMs: 30012,
+    error: 'All actions failed',
+    actionResults: [
+      {
+        actionId: '550e8400-e29b-41d4-a716-446655440302',
+        actionType: 'rest' as const,
+        status: 'failed' as const,
+        durationMs: 30000,
+        error: 'Request timed out after 30s',
+        httpStatus: 504,
+      },
+    ],
+    replayOf: null,
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440203',
+    triggerId: TRIGGER_ID,
+    status: 'partial' as const,
+    eventId: mockEvent.id,
+    event: mockEvent,
+    startedAt: '2024-01-13T16:00:00Z',
+    completedAt: '2024-01-13T16:00:02Z',
+    durationMs: 1520,
+    error: null,
+    actionResults: [
+      {
+        actionId: '550e8400-e29b-41d4-a716-446655440303',
+        actionType: 'mcp' as const,
+        status: 'success' as const,
+        durationMs: 900,
+        error: null,
+        mcpResponse: { acknowledged: true, taskId: 'task-77' },
+      },
+      {
+        actionId: '550e8400-e29b-41d4-a716-446655440301',
+        actionType: 'telegram' as const,
+        status: 'failed' as const,
+        durationMs: 600,
+        error: 'Bot was blocked by the user',
+        deliveryStatus: 'failed' as const,
+      },
+    ],
+    replayOf: null,
+  },
+]
+
+const meta: Meta<typeof TriggerExecutionsList> = {
+  title: 'Organisms/TriggerExecutionsList',
+  component: TriggerExecutionsList,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const WithExecutions: Story = {
+  args: {
+    triggerId: TRIGGER_ID,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/triggers/:triggerId/executions', () => {
+          return HttpResponse.json({
+            data: mockExecutions,
+            pagination: { total: 3, hasMore: false },
+          })
+        }),
+        http.get('/api/v1/triggers/:triggerId/executions/:executionId', ({ params }) => {
+          const execution = mockExecutions.find((e) => e.id === params.executionId)
+          return HttpResponse.json(execution ?? mockExecutions[0])
+        }),
+      ],
+    },
+  },
+}
+
+export const EmptyList: Story = {
+  args: {
+    triggerId: TRIGGER_ID,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/triggers/:triggerId/executions', () => {
+          return HttpResponse.json({
+            data: [],
+            pagination: { total: 0, hasMore: false },
+          })
+        }),
+      ],
+    },
+  },
+}
+
+export const WithPagination: Story = {
+  args: {
+    triggerId: TRIGGER_ID,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/triggers/:triggerId/executions', () => {
+          return HttpResponse.json({
+            data: mockExecutions,
+            pagination: { total: 120, hasMore: true },
+          })
+        }),
+      ],
+    },
+  },
+}
@@ -0,0 +1,375 @@
+/**
+ * TriggerExecutionsList
+ *
+ * Displays the execution history of a trigger with status filtering.
+ * Each run can be expanded to show the matched blockchain event and
+ * per-action results (HTTP status, Telegram delivery, MCP response).
+ * Failed runs offer a replay action.
+ *
+ * @module components/organisms/TriggerExecutionsList
+ *
+ * @example
+ * ```tsx
+ * <TriggerExecutionsList triggerId="trigger_123" />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/atoms/badge'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { ApiErrorDisplay, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import {
+  usePermission,
+  useReplayTriggerExecution,
+  useTriggerExecution,
+  useTriggerExecutions,
+} from '@/hooks'
+import type { ActionType } from '@/lib/constants'
+import { formatDateTime, formatDuration } from '@/lib/format'
+import { sanitizeConfigValue, sanitizeHtml } from '@/lib/sanitize'
+import { cn } from '@/lib/utils'
+import {
+  TRIGGER_EXECUTION_STATUSES,
+  type TriggerActionResult,
+  type TriggerExecution,
+  type TriggerExecutionStatus,
+} from '@/lib/validations/trigger'
+import { EventCard } from './EventCard'
+
+/** Number of executions loaded per page */
+const PAGE_SIZE = 20
+
+/**
+ * Props for the TriggerExecutionsList component.
+ */
+interface TriggerExecutionsListProps {
+  /** The trigger ID to fetch executions for */
+  triggerId: string
+  /** Additional CSS classes */
+  className?: string
+}
+
+const executionStatusConfig: Record<TriggerExecutionStatus, { label: string; className: string }> =
+  {
+    pending: { label: 'PENDING', className: 'border-terminal-dim text-terminal-dim' },
+    running: { label: 'RUNNING', className: 'border-blue-500 text-blue-500' },
+    success: { label: 'SUCCESS', className: 'border-terminal-green text-terminal-green' },
+    partial: { label: 'PARTIAL', className: 'border-yellow-500 text-yellow-500' },
+    failed: { label: 'FAILED', className: 'border-destructive text-destructive' },
+  }
+
+const actionStatusClassName: Record<TriggerActionResult['status'], string> = {
+  success: 'text-terminal-green',
+  failed: 'text-destructive',
+  skipped: 'text-terminal-dim',
+}
+
+/** Label of the HTTP status or delivery outcome of each action type */
+const actionOutcomeLabel: Record<ActionType, string> = {
+  telegram: 'DELIVERY',
+  rest: 'HTTP STATUS',
+  mcp: 'MCP STATUS',
+  email: 'EMAIL DELIVERY',
+  slack: 'SLACK WEBHOOK',
+  discord: 'DISCORD WEBHOOK',
+}
+
+/** Shown when a result has no type-specific details */
+const actionStatusFallback: Record<TriggerActionResult['status'], string> = {
+  success: 'Completed; no delivery details were reported',
+  failed: 'Failed; no error details were reported',
+  skipped: 'Skipped',
+}
+
+/** Failed and partially failed runs can be replayed */
+function isReplayable(execution: TriggerExecution): boolean {
+  return execution.status === 'failed' || execution.status === 'partial'
+}
+
+function ExecutionStatusBadge({ status }: { status: TriggerExecutionStatus }) {
+  const config = executionStatusConfig[status]
+  return (
+    <Badge variant="outline" className={cn('typo-ui border-2 bg-transparent', config.className)}>
+      {config.label}
+    </Badge>
+  )
+}
+
+/**
+ * Type-specific outcome of a single action
+ */
+function ActionResultRow({ result, index }: { result: TriggerActionResult; index: number }) {
+  const hasResponse = result.mcpResponse !== undefined || result.responseBody !== undefined
+  const hasDetails =
+    result.httpStatus != null || result.deliveryStatus != null || !!result.error || hasResponse
+
+  return (
+    <Box variant="subtle" padding="sm" data-slot="action-result">
+      <div className="flex flex-wrap items-center justify-between gap-2 typo-ui">
+        <div>
+          <span className="text-terminal-dim">ACTION {index + 1}:</span>{' '}
+          <span className="text-terminal-green">{result.actionType.toUpperCase()}</span>
+        </div>
+        <div className="flex items-center gap-3">
+          {result.durationMs !== null && (
+            <span className="text-terminal-dim">{formatDuration(result.durationMs)}</span>
+          )}
+          <span className={actionStatusClassName[result.status]}>
+            {result.status.toUpperCase()}
+          </span>
+        </div>
+      </div>
+
+      <div className="mt-2 space-y-1 typo-ui">
+        {result.httpStatus != null && (
+          <div>
+            <span className="text-terminal-dim">{actionOutcomeLabel[result.actionType]}:</span>{' '}
+            <span className={result.httpStatus < 400 ? 'text-terminal-green' : 'text-destructive'}>
+              {result.httpStatus}
+            </span>
+          </div>
+        )}
+        {result.deliveryStatus != null && (
+          <div>
+            <span className="text-terminal-dim">{actionOutcomeLabel[result.actionType]}:</span>{' '}
+            <span className="text-terminal-green">{result.deliveryStatus.toUpperCase()}</span>
+            {result.messageId && (
+              <span className="text-terminal-dim"> (MSG {sanitizeHtml(result.messageId)})</span>
+            )}
+          </div>
+        )}
+        {result.error && <div className="text-destructive">[!] {sanitizeHtml(result.error)}</div>}
+        {!hasDetails && (
+          <div className="text-terminal-dim">{actionStatusFallback[result.status]}</div>
+        )}
+      </div>
+
+      {hasResponse && (
+        <pre className="mt-2 typo-code text-terminal-dim overflow-x-auto max-h-48 p-2 bg-terminal/20 border border-terminal-dim">
+          <code>{sanitizeConfigValue(result.mcpResponse ?? result.responseBody)}</code>
+        </pre>
+      )}
+    </Box>
+  )
+}
+
+/**
+ * Drill-down for a single execution
+ *
+ * Fetches the full execution since list responses may omit the event.
+ */
+function ExecutionDetails({ triggerId, executionId }: { triggerId: string; executionId: string }) {
+  const { data: execution, isLoading, error } = useTriggerExecution(triggerId, executionId)
+
+  if (isLoading) {
+    return <LoadingSkeleton count={2} height={60} />
+  }
+
+  if (error || !execution) {
+    return (
+      <ApiErrorDisplay
+        error={error instanceof Error ? error : new Error('Execution could not be loaded')}
+        title="ERROR LOADING EXECUTION"
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-4" data-slot="execution-details">
+      {execution.error && (
+        <div className="typo-ui text-destructive">[!] {sanitizeHtml(execution.error)}</div>
+      )}
+
+      <div>
+        <div className="typo-ui text-terminal-dim mb-2">&gt; MATCHED EVENT</div>
+        {execution.event ? (
+          <EventCard event={execution.event} compact />
+        ) : (
+          <div className="typo-ui text-terminal-dim">
+            {execution.eventId ? `EVENT ${execution.eventId} NOT AVAILABLE` : 'NO EVENT'}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="typo-ui text-terminal-dim mb-2">
+          &gt; ACTION RESULTS ({execution.actionResults.length})
+        </div>
+        {execution.actionResults.length > 0 ? (
+          <div className="space-y-2">
+            {execution.actionResults.map((result, index) => (
+              <ActionResultRow key={result.actionId ?? index} result={result} index={index} />
+            ))}
+          </div>
+        ) : (
+          <div className="typo-ui text-terminal-dim">No actions were run</div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export function TriggerExecutionsList({ triggerId, className }: TriggerExecutionsListProps) {
+  const [status, setStatus] = useState<TriggerExecutionStatus | undefined>(undefined)
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  const { data, isLoading, error } = useTriggerExecutions(triggerId, { status, limit })
+  const replay = useReplayTriggerExecution(triggerId)
+  const canReplay = usePermission('update', 'trigger')
+
+  const handleStatusFilter = (value: string) => {
+    setStatus(value === 'all' ? undefined : (value as TriggerExecutionStatus))
+    setLimit(PAGE_SIZE)
+  }
+
+  const toggleExpanded = (executionId: string) => {
+    setExpandedId((current) => (current === executionId ? null : executionId))
+  }
+
+  const executions = data?.data ?? []
+
+  return (
+    <div data-slot="trigger-executions" className={cn('space-y-4', className)}>
+      {/* Filter */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="typo-ui text-terminal-dim">
+          {data
+            ? `${data.pagination.total} EXECUTION${data.pagination.total !== 1 ? 'S' : ''}`
+            : ''}
+        </div>
+        <Select onValueChange={handleStatusFilter} value={status ?? 'all'}>
+          <SelectTrigger className="typo-ui w-48" aria-label="Filter by status">
+            <SelectValue placeholder="[ALL STATUSES]" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" className="typo-ui">
+              [ALL STATUSES]
+            </SelectItem>
+            {TRIGGER_EXECUTION_STATUSES.map((value) => (
+              <SelectItem key={value} value={value} className="typo-ui">
+                [{value.toUpperCase()}]
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <LoadingSkeleton count={5} height={60} />
+      ) : error ? (
+        <ApiErrorDisplay
+          error={error instanceof Error ? error : new Error('An unexpected error occurred')}
+          title="ERROR LOADING EXECUTIONS"
+        />
+      ) : executions.length === 0 ? (
+        <EmptyState
+          icon="clock"
+          title="NO EXECUTIONS"
+          description={
+            status
+              ? `No ${status} executions for this trigger.`
+              : 'This trigger has not run yet. Executions appear here once a matching event is indexed.'
+          }
+          variant="subtle"
+          size="md"
+        />
+      ) : (
+        <div className="space-y-2">
+          {executions.map((execution) => {
+            const isExpanded = expandedId === execution.id
+            const succeeded = execution.actionResults.filter((r) => r.status === 'success').length
+
+            return (
+              <div
+                key={execution.id}
+                className={cn(
+                  'border-2 bg-terminal transition-colors',
+                  isExpanded
+                    ? 'border-terminal-green'
+                    : 'border-terminal hover:border-terminal-green'
+                )}
+              >
+                <div className="flex flex-wrap items-center gap-4 p-4">
+                  <button
+                    type="button"
+                    onClick={() => toggleExpanded(execution.id)}
+                    aria-expanded={isExpanded}
+                    className="flex flex-1 flex-wrap items-center gap-4 text-left min-w-0"
+                  >
+                    <Icon
+                      name={isExpanded ? 'chevron-down' : 'chevron-right'}
+                      size="sm"
+                      className="text-terminal-dim"
+                    />
+                    <ExecutionStatusBadge status={execution.status} />
+                    <span className="typo-ui text-terminal-green">
+                      {formatDateTime(execution.startedAt)}
+                    </span>
+                    <span className="typo-ui text-terminal-dim">
+                      {execution.durationMs !== null ? formatDuration(execution.durationMs) : '--'}
+                    </span>
+                    {execution.actionResults.length > 0 && (
+                      <span className="typo-ui text-terminal-dim">
+                        {succeeded}/{execution.actionResults.length} ACTIONS OK
+                      </span>
+                    )}
+                    {execution.replayOf && (
+                      <span className="typo-ui text-terminal-dim">[REPLAY]</span>
+                    )}
+                  </button>
+
+                  {isReplayable(execution) && (
+                    <PermissionTooltip reason={canReplay.reason}>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="typo-ui"
+                        onClick={() => replay.mutate(execution.id)}
+                        disabled={replay.isPending || !canReplay.allowed}
+                      >
+                        <Icon name="retry" size="sm" />
+                        {replay.isPending && replay.variables === execution.id
+                          ? 'REPLAYING...'
+                          : '[REPLAY]'}
+                      </Button>
+                    </PermissionTooltip>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="border-t-2 border-terminal-dim p-4">
+                    <ExecutionDetails triggerId={triggerId} executionId={execution.id} />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {data?.pagination?.hasMore && (
+        <div className="text-center">
+          <Button
+            variant="outline"
+            className="typo-ui"
+            onClick={() => setLimit((current) => current + PAGE_SIZE)}
+          >
+            [LOAD MORE]
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import { TriggerExportDialog } from './TriggerExportDialog'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const ORG_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const meta: Meta<typeof TriggerExportDialog> = {
+  title: 'Organisms/TriggerExportDialog',
+  component: TriggerExportDialog,
+  parameters: {
+    layout: 'centered',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <Story />
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  render: () => {
+    const [open, setOpen] = useState(false)
+    return (
+      <>
+        <Button onClick={() => setOpen(true)}>[EXPORT ALL]</Button>
+        <TriggerExportDialog
+          organizationId={ORG_ID}
+          triggerIds="all"
+          open={open}
+          onOpenChange={setOpen}
+        />
+      </>
+    )
+  },
+}
+
+export const SelectedTriggers: Story = {
+  args: {
+    organizationId: ORG_ID,
+    triggerIds: ['550e8400-e29b-41d4-a716-446655440001', '550e8400-e29b-41d4-a716-446655440002'],
+    open: true,
+    onOpenChange: () => {},
+  },
+}
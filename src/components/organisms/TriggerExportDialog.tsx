@@ -0,0 +1,187 @@
+/**
+ * TriggerExportDialog
+ *
+ * Exports triggers to a versioned JSON or YAML bundle and downloads it.
+ * Secrets such as REST auth headers are redacted unless the user opts in
+ * to keep them; a bundle can then be imported into another organization
+ * or environment with `TriggerImportDialog`.
+ *
+ * @module components/organisms/TriggerExportDialog
+ *
+ * @example
+ * ```tsx
+ * <TriggerExportDialog
+ *   organizationId={orgId}
+ *   triggerIds={[...selected]}
+ *   open={isOpen}
+ *   onOpenChange={setIsOpen}
+ * />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import { Checkbox } from '@/components/atoms/checkbox'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/atoms/dialog'
+import { Icon } from '@/components/atoms/icon'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { type ExportedTriggerBundle, useExportTriggers, useOrganization } from '@/hooks'
+import { TRIGGER_BUNDLE_FILE_FORMATS, type TriggerBundleFileFormat } from '@/lib/validations'
+
+/**
+ * Props for the TriggerExportDialog component.
+ */
+interface TriggerExportDialogProps {
+  /** Organization the triggers belong to */
+  organizationId: string
+  /** Triggers to export, or `all` */
+  triggerIds: string[] | 'all'
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+}
+
+/** Save the bundle through a temporary download link */
+function downloadBundle({ filename, content }: ExportedTriggerBundle, format: string) {
+  const blob = new Blob([content], {
+    type: format === 'yaml' ? 'application/yaml' : 'application/json',
+  })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function TriggerExportDialog({
+  organizationId,
+  triggerIds,
+  open,
+  onOpenChange,
+}: TriggerExportDialogProps) {
+  const [fileFormat, setFileFormat] = useState<TriggerBundleFileFormat>('json')
+  const [includeSecrets, setIncludeSecrets] = useState(false)
+  const { data: organization } = useOrganization(organizationId)
+  const exportTriggers = useExportTriggers(organizationId)
+
+  const count = triggerIds === 'all' ? null : triggerIds.length
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setIncludeSecrets(false)
+      exportTriggers.reset()
+    }
+    onOpenChange(newOpen)
+  }
+
+  const handleExport = () => {
+    exportTriggers.mutate(
+      { triggerIds, fileFormat, includeSecrets, organizationName: organization?.name },
+      {
+        onSuccess: (exported) => {
+          downloadBundle(exported, fileFormat)
+          handleOpenChange(false)
+        },
+      }
+    )
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="typo-ui text-terminal-green glow">
+            [&gt;] EXPORT{' '}
+            {count === null ? 'ALL TRIGGERS' : `${count} TRIGGER${count !== 1 ? 'S' : ''}`}
+          </DialogTitle>
+          <DialogDescription className="typo-ui text-terminal-dim">
+            Download a bundle with the triggers&apos; conditions and actions, to import into another
+            organization or environment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="triggerExportFormat" className="typo-ui text-terminal-dim">
+              &gt; FORMAT
+            </Label>
+            <Select
+              value={fileFormat}
+              onValueChange={(value) => setFileFormat(value as TriggerBundleFileFormat)}
+            >
+              <SelectTrigger id="triggerExportFormat" className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRIGGER_BUNDLE_FILE_FORMATS.map((format) => (
+                  <SelectItem key={format} value={format} className="typo-ui">
+                    [{format.toUpperCase()}]
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Checkbox
+              id="triggerExportSecrets"
+              checked={includeSecrets}
+              onCheckedChange={setIncludeSecrets}
+            />
+            <Label htmlFor="triggerExportSecrets" className="typo-ui text-terminal-dim">
+              INCLUDE SECRETS (AUTH HEADERS, TOKENS)
+            </Label>
+          </div>
+
+          {includeSecrets ? (
+            <p className="typo-ui text-yellow-500 flex items-center gap-2">
+              <Icon name="warning" size="sm" />
+              The file will contain credentials in plain text.
+            </p>
+          ) : (
+            <p className="typo-ui text-terminal-dim/80">
+              Secrets are replaced with [REDACTED]. Imported triggers with redacted secrets are
+              created disabled until you fill them in.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleOpenChange(false)}
+            className="typo-ui"
+          >
+            [CANCEL]
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleExport}
+            disabled={count === 0 || exportTriggers.isPending}
+            className="typo-ui"
+          >
+            {exportTriggers.isPending ? '[EXPORTING...]' : '[DOWNLOAD]'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -13,6 +13,9 @@
  *
  * // Edit existing trigger
  * <TriggerForm organizationId="org_123" trigger={existingTrigger} mode="edit" />
+ *
+ * // Create from a template
+ * <TriggerForm organizationId="org_123" initialValues={templateValues} />
  * ```
  */
 'use client'
@@ -27,7 +30,7 @@ import { Button } from '@/components/atoms/button'
 import { Icon } from '@/components/atoms/icon'
 import { Form } from '@/components/atoms/form'
 import { FormStepIndicator } from '@/components/molecules/FormStepIndicator'
-import { useCreateTrigger, useUpdateTrigger } from '@/hooks'
+import { getTriggerFormDefaults, useCreateTrigger, useUpdateTrigger } from '@/hooks'
 import { TESTNET_CHAINS } from '@/lib/constants'
 import {
   createTriggerRequestSchema,
@@ -52,13 +55,20 @@ interface TriggerFormProps {
   trigger?: Trigger
   /** Form mode - create new or edit existing */
   mode?: 'create' | 'edit'
+  /** Prefilled values for a new trigger, e.g. from a template */
+  initialValues?: Partial<CreateTriggerFormValues>
 }
 
 type FormStep = 'basic' | 'conditions' | 'actions' | 'review'
 
 const STEPS: FormStep[] = ['basic', 'conditions', 'actions', 'review']
 
-export function TriggerForm({ organizationId, trigger, mode = 'create' }: TriggerFormProps) {
+export function TriggerForm({
+  organizationId,
+  trigger,
+  mode = 'create',
+  initialValues,
+}: TriggerFormProps) {
   const router = useRouter()
   const [currentStep, setCurrentStep] = useState<FormStep>('basic')
   const [editorMode, setEditorMode] = useState<EditorMode>('ui')
@@ -68,26 +78,7 @@ export function TriggerForm({ organizationId, trigger, mode = 'create' }: Trigge
 
   const form = useForm<CreateTriggerFormValues>({
     resolver: zodResolver(createTriggerRequestSchema),
-    defaultValues: {
-      name: trigger?.name ?? '',
-      description: trigger?.description ?? '',
-      chainId: trigger?.chainId ?? TESTNET_CHAINS.SEPOLIA,
-      registry: trigger?.registry ?? 'reputation',
-      enabled: trigger?.enabled ?? true,
-      isStateful: trigger?.isStateful ?? false,
-      conditions: trigger?.conditions?.map((c) => ({
-        conditionType: c.conditionType,
-        field: c.field,
-        operator: c.operator,
-        value: c.value,
-        config: c.config,
-      })) ?? [{ conditionType: '', field: '', operator: 'eq', value: '', config: {} }],
-      actions: trigger?.actions?.map((a) => ({
-        actionType: a.actionType,
-        priority: a.priority,
-        config: a.config,
-      })) ?? [{ actionType: 'telegram', priority: 0, config: {} }],
-    },
+    defaultValues: getTriggerFormDefaults(trigger, initialValues, TESTNET_CHAINS.SEPOLIA),
   })
 
   const onSubmit = async (data: CreateTriggerFormValues) => {
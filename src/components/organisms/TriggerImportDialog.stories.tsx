@@ -0,0 +1,69 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { HttpResponse, http } from 'msw'
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import { TriggerImportDialog } from './TriggerImportDialog'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const ORG_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const meta: Meta<typeof TriggerImportDialog> = {
+  title: 'Organisms/TriggerImportDialog',
+  component: TriggerImportDialog,
+  parameters: {
+    layout: 'centered',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+    msw: {
+      handlers: [
+        http.get('/api/organizations/:orgId/triggers', () =>
+          HttpResponse.json({
+            data: [],
+            pagination: { total: 0, limit: 100, offset: 0, has_more: false },
+          })
+        ),
+      ],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <Story />
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  render: () => {
+    const [open, setOpen] = useState(false)
+    return (
+      <>
+        <Button onClick={() => setOpen(true)}>[IMPORT]</Button>
+        <TriggerImportDialog organizationId={ORG_ID} open={open} onOpenChange={setOpen} />
+      </>
+    )
+  },
+}
+
+export const OpenedDialog: Story = {
+  args: {
+    organizationId: ORG_ID,
+    open: true,
+    onOpenChange: () => {},
+  },
+}
@@ -0,0 +1,313 @@
+/**
+ * TriggerImportDialog
+ *
+ * Imports a trigger bundle (JSON or YAML) exported with
+ * `TriggerExportDialog`. The bundle is first checked in a dry run: every
+ * trigger is validated, matched by name against the organization's
+ * triggers and listed with what will happen to it — created, renamed,
+ * skipped, or replaced with a diff of the changes. Nothing is created
+ * until the plan is confirmed.
+ *
+ * @module components/organisms/TriggerImportDialog
+ *
+ * @example
+ * ```tsx
+ * <TriggerImportDialog organizationId={orgId} open={isOpen} onOpenChange={setIsOpen} />
+ * ```
+ */
+'use client'
+
+import { type ChangeEvent, useMemo, useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/atoms/dialog'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { Textarea } from '@/components/atoms/textarea'
+import { AgentCardDiff } from '@/components/molecules'
+import { useImportTriggers, usePlanTriggerImport } from '@/hooks'
+import { parseTriggerBundle, type TriggerImportItem } from '@/lib/trigger-bundles'
+import { cn } from '@/lib/utils'
+import {
+  TRIGGER_IMPORT_CONFLICT_STRATEGIES,
+  type TriggerImportConflictStrategy,
+} from '@/lib/validations'
+
+/**
+ * Props for the TriggerImportDialog component.
+ */
+interface TriggerImportDialogProps {
+  /** Organization to import the triggers into */
+  organizationId: string
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+}
+
+const STRATEGY_LABELS: Record<TriggerImportConflictStrategy, string> = {
+  skip: 'SKIP EXISTING',
+  rename: 'IMPORT AS COPY',
+  replace: 'REPLACE EXISTING',
+}
+
+const ACTION_STYLES: Record<TriggerImportItem['action'], string> = {
+  create: 'text-terminal-green',
+  replace: 'text-yellow-500',
+  skip: 'text-terminal-dim',
+  invalid: 'text-destructive',
+}
+
+function ImportItem({ item }: { item: TriggerImportItem }) {
+  const renamed = item.request && item.request.name !== item.name ? item.request.name : null
+
+  return (
+    <li className="space-y-1 border-b border-terminal-dim/40 pb-2 last:border-0">
+      <div className="flex items-baseline gap-2">
+        <span className={cn('shrink-0', ACTION_STYLES[item.action])}>
+          [{renamed ? 'COPY' : item.action.toUpperCase()}]
+        </span>
+        <span className="text-terminal-green break-all">
+          {item.name}
+          {renamed && <span className="text-terminal-dim"> → {renamed}</span>}
+        </span>
+      </div>
+      {item.errors.map((error) => (
+        <div key={error} className="text-destructive pl-4 break-all">
+          {error}
+        </div>
+      ))}
+      {item.action === 'skip' && (
+        <div className="text-terminal-dim pl-4">A trigger with this name exists</div>
+      )}
+      {item.redactedPaths.length > 0 && (
+        <div className="text-yellow-500 pl-4 break-all">
+          Imported disabled, redacted: {item.redactedPaths.join(', ')}
+        </div>
+      )}
+      {item.action === 'replace' &&
+        (item.changes.length > 0 ? (
+          <AgentCardDiff changes={item.changes} className="ml-4" />
+        ) : (
+          <div className="text-terminal-dim pl-4">No changes</div>
+        ))}
+    </li>
+  )
+}
+
+export function TriggerImportDialog({
+  organizationId,
+  open,
+  onOpenChange,
+}: TriggerImportDialogProps) {
+  const [text, setText] = useState('')
+  const [strategy, setStrategy] = useState<TriggerImportConflictStrategy>('skip')
+  const planImport = usePlanTriggerImport(organizationId)
+  const importTriggers = useImportTriggers(organizationId)
+
+  const parsed = useMemo(() => {
+    if (!text.trim()) return null
+    try {
+      return { bundle: parseTriggerBundle(text), error: null }
+    } catch (error) {
+      return { bundle: null, error: error instanceof Error ? error.message : 'Invalid bundle' }
+    }
+  }, [text])
+
+  const plan = planImport.data
+  const importCount = plan ? plan.counts.create + plan.counts.replace : 0
+  const failed = importTriggers.data?.failed ?? []
+
+  // Any change to the input invalidates the dry run
+  const resetPlan = () => {
+    planImport.reset()
+    importTriggers.reset()
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) {
+      setText(await file.text())
+      resetPlan()
+    }
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setText('')
+      setStrategy('skip')
+      resetPlan()
+    }
+    onOpenChange(newOpen)
+  }
+
+  const handleDryRun = () => {
+    if (parsed?.bundle) planImport.mutate({ bundle: parsed.bundle, strategy })
+  }
+
+  const handleImport = () => {
+    if (!plan) return
+    importTriggers.mutate(plan.items, {
+      onSuccess: (result) => {
+        if (result.failed.length === 0) handleOpenChange(false)
+      },
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="typo-ui text-terminal-green glow flex items-center gap-2">
+            <Icon name="add" size="sm" />
+            IMPORT TRIGGERS
+          </DialogTitle>
+          <DialogDescription className="typo-ui text-terminal-dim">
+            Load a JSON or YAML trigger bundle. A dry run shows what will be created or replaced
+            before anything changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="triggerBundleFile" className="typo-ui text-terminal-dim">
+              &gt; BUNDLE FILE
+            </Label>
+            <Input
+              id="triggerBundleFile"
+              type="file"
+              accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml"
+              onChange={handleFile}
+              className="typo-ui"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="triggerBundleText" className="typo-ui text-terminal-dim">
+              &gt; OR PASTE
+            </Label>
+            <Textarea
+              id="triggerBundleText"
+              placeholder={'format: agentauri.triggers\nversion: 1\ntriggers:\n  - name: ...'}
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value)
+                resetPlan()
+              }}
+              className="typo-code"
+              rows={6}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="triggerImportStrategy" className="typo-ui text-terminal-dim">
+              &gt; WHEN A TRIGGER NAME EXISTS
+            </Label>
+            <Select
+              value={strategy}
+              onValueChange={(value) => {
+                setStrategy(value as TriggerImportConflictStrategy)
+                resetPlan()
+              }}
+            >
+              <SelectTrigger id="triggerImportStrategy" className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRIGGER_IMPORT_CONFLICT_STRATEGIES.map((value) => (
+                  <SelectItem key={value} value={value} className="typo-ui">
+                    [{STRATEGY_LABELS[value]}]
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {parsed?.error && (
+            <p className="typo-ui text-destructive flex items-center gap-2">
+              <Icon name="warning" size="sm" />
+              {parsed.error}
+            </p>
+          )}
+
+          {parsed?.bundle && !plan && (
+            <div className="typo-ui text-terminal-dim">
+              &gt; {parsed.bundle.triggers.length} TRIGGER
+              {parsed.bundle.triggers.length !== 1 ? 'S' : ''} IN BUNDLE
+              {parsed.bundle.source?.organizationName &&
+                ` FROM ${parsed.bundle.source.organizationName}`}
+            </div>
+          )}
+
+          {plan && (
+            <div className="rounded border-2 border-terminal-dim p-3 space-y-3 typo-ui">
+              <div className="text-terminal-green">
+                &gt; DRY RUN: {plan.counts.create} CREATE / {plan.counts.replace} REPLACE /{' '}
+                {plan.counts.skip} SKIP / {plan.counts.invalid} INVALID
+              </div>
+              <ul className="space-y-2">
+                {plan.items.map((item) => (
+                  <ImportItem key={item.index} item={item} />
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {failed.length > 0 && (
+            <div className="typo-ui space-y-1">
+              {failed.map((failure) => (
+                <div key={failure.name} className="text-destructive break-all">
+                  [FAILED] {failure.name}: {failure.error}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleOpenChange(false)}
+            className="typo-ui"
+          >
+            [CANCEL]
+          </Button>
+          {plan && !importTriggers.isSuccess ? (
+            <Button
+              size="sm"
+              onClick={handleImport}
+              disabled={importCount === 0 || importTriggers.isPending}
+              className="typo-ui"
+            >
+              {importTriggers.isPending ? '[IMPORTING...]' : `[IMPORT ${importCount}]`}
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              onClick={handleDryRun}
+              disabled={!parsed?.bundle || planImport.isPending || importTriggers.isSuccess}
+              className="typo-ui"
+            >
+              {planImport.isPending ? '[CHECKING...]' : '[DRY RUN]'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
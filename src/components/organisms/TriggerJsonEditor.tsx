@@ -21,6 +21,7 @@ import { Box } from '@/components/atoms/box'
 import { Collapsible } from '@/components/atoms/collapsible'
 import { Button } from '@/components/atoms/button'
 import { Textarea } from '@/components/atoms/textarea'
+import { ACTION_TYPES } from '@/lib/constants'
 import { createTriggerRequestSchema, type CreateTriggerRequest } from '@/lib/validations/trigger'
 import { cn } from '@/lib/utils'
 
@@ -187,10 +188,28 @@ export function TriggerJsonEditor({ value, onChange, className }: TriggerJsonEdi
           <div>• <span className="text-terminal-bright">registry</span>: "identity" | "reputation" | "validation"</div>
           <div>• <span className="text-terminal-bright">enabled</span>: boolean</div>
           <div>• <span className="text-terminal-bright">isStateful</span>: boolean</div>
+          <div>
+            • <span className="text-terminal-bright">stateConfig</span>: object (stateful only){' '}
+            <span className="text-terminal-bright">
+              {'{ windowSeconds, countThreshold, cooldownSeconds, scope: "agent" | "trigger", resetPolicy: "on_fire" | "window_expiry" | "manual" }'}
+            </span>
+          </div>
           <div>
             • <span className="text-terminal-bright">conditions</span>: array (min 1, max 20)
           </div>
+          <div className="pl-4">
+            each item is a condition or a group{' '}
+            <span className="text-terminal-bright">
+              {'{ logic: "and" | "or" | "not", conditions: [...] }'}
+            </span>{' '}
+            (max 3 levels deep, top level combined with AND)
+          </div>
           <div>• <span className="text-terminal-bright">actions</span>: array (min 1, max 10)</div>
+          <div className="pl-4">
+            actionType:{' '}
+            <span className="text-terminal-bright">{ACTION_TYPES.join(' | ')}</span> (email, slack
+            and discord configs are validated)
+          </div>
         </div>
       </Box>
 
@@ -205,6 +224,13 @@ export function TriggerJsonEditor({ value, onChange, className }: TriggerJsonEdi
               registry: 'reputation',
               enabled: true,
               isStateful: true,
+              stateConfig: {
+                windowSeconds: 86400,
+                countThreshold: 3,
+                cooldownSeconds: 3600,
+                scope: 'agent',
+                resetPolicy: 'on_fire',
+              },
               conditions: [
                 {
                   conditionType: 'reputation_threshold',
@@ -213,6 +239,25 @@ export function TriggerJsonEditor({ value, onChange, className }: TriggerJsonEdi
                   value: '800',
                   config: {},
                 },
+                {
+                  logic: 'or',
+                  conditions: [
+                    {
+                      conditionType: 'event_filter',
+                      field: 'event_type',
+                      operator: 'eq',
+                      value: 'ReputationUpdated',
+                      config: {},
+                    },
+                    {
+                      conditionType: 'agent_filter',
+                      field: 'agent_address',
+                      operator: 'in',
+                      value: '0x1234..., 0x5678...',
+                      config: {},
+                    },
+                  ],
+                },
               ],
               actions: [
                 {
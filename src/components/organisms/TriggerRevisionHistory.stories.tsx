@@ -0,0 +1,174 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { TriggerRevisionHistory } from './TriggerRevisionHistory'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const TRIGGER_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const author = { id: '550e8400-e29b-41d4-a716-446655440900', name: 'alice' }
+
+const baseSnapshot = {
+  name: 'Low reputation alert',
+  description: 'Notify when an agent drops below 40',
+  chainId: 84532,
+  registry: 'reputation' as const,
+  enabled: true,
+  isStateful: false,
+  conditions: [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440401',
+      triggerId: TRIGGER_ID,
+      conditionType: 'score_threshold',
+      field: 'score',
+      operator: 'lt' as const,
+      value: '40',
+      config: {},
+      createdAt: '2024-01-10T09:00:00Z',
+    },
+  ],
+  actions: [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440501',
+      triggerId: TRIGGER_ID,
+      actionType: 'telegram' as const,
+      priority: 0,
+      config: { chatId: '123456', messageTemplate: 'Agent {{agentId}} score: {{score}}' },
+      createdAt: '2024-01-10T09:00:00Z',
+    },
+  ],
+}
+
+const mockRevisions = [
+  {
+    id: '550e8400-e29b-41d4-a716-446655440604',
+    triggerId: TRIGGER_ID,
+    revision: 4,
+    changeType: 'disabled' as const,
+    author: null,
+    createdAt: '2024-01-15T18:00:00Z',
+    rolledBackFrom: null,
+    snapshot: {
+      ...baseSnapshot,
+      enabled: false,
+      conditions: [{ ...baseSnapshot.conditions[0], value: '30' }],
+    },
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440603',
+    triggerId: TRIGGER_ID,
+    revision: 3,
+    changeType: 'updated' as const,
+    author,
+    createdAt: '2024-01-14T12:30:00Z',
+    rolledBackFrom: null,
+    snapshot: {
+      ...baseSnapshot,
+      conditions: [{ ...baseSnapshot.conditions[0], value: '30' }],
+    },
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440602',
+    triggerId: TRIGGER_ID,
+    revision: 2,
+    changeType: 'updated' as const,
+    author,
+    createdAt: '2024-01-12T08:15:00Z',
+    rolledBackFrom: null,
+    snapshot: baseSnapshot,
+  },
+  {
+    id: '550e8400-e29b-41d4-a716-446655440601',
+    triggerId: TRIGGER_ID,
+    revision: 1,
+    changeType: 'created' as const,
+    author,
+    createdAt: '2024-01-10T09:00:00Z',
+    rolledBackFrom: null,
+    snapshot: { ...baseSnapshot, name: 'Reputation alert', actions: [] },
+  },
+]
+
+const meta: Meta<typeof TriggerRevisionHistory> = {
+  title: 'Organisms/TriggerRevisionHistory',
+  component: TriggerRevisionHistory,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const WithRevisions: Story = {
+  args: {
+    triggerId: TRIGGER_ID,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/triggers/:triggerId/revisions', () => {
+          return HttpResponse.json({
+            data: mockRevisions,
+            pagination: { total: 4, hasMore: false },
+          })
+        }),
+        http.post('/api/v1/triggers/:triggerId/revisions/:revision/rollback', () => {
+          return HttpResponse.json({
+            ...baseSnapshot,
+            id: TRIGGER_ID,
+            userId: author.id,
+            organizationId: '550e8400-e29b-41d4-a716-446655440002',
+            executionCount: 12,
+            lastExecutedAt: '2024-01-15T10:30:06Z',
+            createdAt: '2024-01-10T09:00:00Z',
+            updatedAt: '2024-01-16T09:00:00Z',
+          })
+        }),
+      ],
+    },
+  },
+}
+
+export const EmptyHistory: Story = {
+  args: {
+    triggerId: TRIGGER_ID,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/triggers/:triggerId/revisions', () => {
+          return HttpResponse.json({
+            data: [],
+            pagination: { total: 0, hasMore: false },
+          })
+        }),
+      ],
+    },
+  },
+}
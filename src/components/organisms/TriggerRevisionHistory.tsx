@@ -0,0 +1,256 @@
+/**
+ * TriggerRevisionHistory
+ *
+ * Lists the saved versions of a trigger, most recent first, with the
+ * author and time of each change. Each revision expands to a diff
+ * against the one before it, grouped by name, description, enabled
+ * state, conditions, actions and settings. Earlier revisions can be
+ * restored in one click after confirmation; the rollback is recorded
+ * as a new revision.
+ *
+ * @module components/organisms/TriggerRevisionHistory
+ *
+ * @example
+ * ```tsx
+ * <TriggerRevisionHistory triggerId="trigger_123" />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Badge } from '@/components/atoms/badge'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import {
+  AgentCardDiff,
+  ApiErrorDisplay,
+  ConfirmDialog,
+  LoadingSkeleton,
+  PermissionTooltip,
+} from '@/components/molecules'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import { usePermission, useRollbackTrigger, useTriggerRevisions } from '@/hooks'
+import { formatDateTime } from '@/lib/format'
+import { diffTriggerRevisions, type TriggerRevisionSection } from '@/lib/trigger-revisions'
+import { cn } from '@/lib/utils'
+import type { TriggerRevision, TriggerRevisionChangeType } from '@/lib/validations/trigger'
+
+/** Number of revisions loaded per page */
+const PAGE_SIZE = 20
+
+/**
+ * Props for the TriggerRevisionHistory component.
+ */
+interface TriggerRevisionHistoryProps {
+  /** The trigger ID to fetch revisions for */
+  triggerId: string
+  /** Additional CSS classes */
+  className?: string
+}
+
+const changeTypeConfig: Record<TriggerRevisionChangeType, { label: string; className: string }> = {
+  created: { label: 'CREATED', className: 'border-terminal-green text-terminal-green' },
+  updated: { label: 'UPDATED', className: 'border-blue-500 text-blue-500' },
+  enabled: { label: 'ENABLED', className: 'border-terminal-green text-terminal-green' },
+  disabled: { label: 'DISABLED', className: 'border-terminal-dim text-terminal-dim' },
+  rolled_back: { label: 'ROLLED BACK', className: 'border-yellow-500 text-yellow-500' },
+}
+
+const SECTION_LABELS: Record<TriggerRevisionSection, string> = {
+  name: 'NAME',
+  description: 'DESCRIPTION',
+  enabled: 'ENABLED',
+  conditions: 'CONDITIONS',
+  actions: 'ACTIONS',
+  settings: 'SETTINGS',
+}
+
+/**
+ * Diff of a revision against the one before it
+ */
+function RevisionChanges({
+  revision,
+  previous,
+}: {
+  revision: TriggerRevision
+  previous: TriggerRevision | undefined
+}) {
+  if (!previous) {
+    return (
+      <div className="typo-ui text-terminal-dim">
+        {revision.revision === 1
+          ? 'First version of the trigger.'
+          : 'The previous revision is not available.'}
+      </div>
+    )
+  }
+
+  const diffs = diffTriggerRevisions(previous, revision)
+  if (diffs.length === 0) {
+    return (
+      <div className="typo-ui text-terminal-dim">
+        No changes from revision #{previous.revision}.
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {diffs.map((diff) => (
+        <div key={diff.section} className="space-y-1">
+          <div className="typo-ui text-terminal-dim">&gt; {SECTION_LABELS[diff.section]}</div>
+          <AgentCardDiff changes={diff.changes} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function TriggerRevisionHistory({ triggerId, className }: TriggerRevisionHistoryProps) {
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [rollbackTo, setRollbackTo] = useState<TriggerRevision | null>(null)
+
+  // One extra revision is loaded so the last one shown can be diffed
+  const { data, isLoading, error } = useTriggerRevisions(triggerId, { limit: limit + 1 })
+  const rollback = useRollbackTrigger(triggerId)
+  const canRollback = usePermission('update', 'trigger')
+
+  const loaded = data?.data ?? []
+  const revisions = loaded.slice(0, limit)
+  const current = loaded[0]
+
+  const toggleExpanded = (revisionId: string) => {
+    setExpandedId((id) => (id === revisionId ? null : revisionId))
+  }
+
+  const handleRollback = () => {
+    if (!rollbackTo) return
+    rollback.mutate(rollbackTo.revision, {
+      onSuccess: () => {
+        setRollbackTo(null)
+        setExpandedId(null)
+      },
+    })
+  }
+
+  return (
+    <div data-slot="trigger-revisions" className={cn('space-y-4', className)}>
+      <div className="typo-ui text-terminal-dim">
+        {data ? `${data.pagination.total} REVISION${data.pagination.total !== 1 ? 'S' : ''}` : ''}
+      </div>
+
+      {isLoading ? (
+        <LoadingSkeleton count={5} height={60} />
+      ) : error ? (
+        <ApiErrorDisplay
+          error={error instanceof Error ? error : new Error('An unexpected error occurred')}
+          title="ERROR LOADING HISTORY"
+        />
+      ) : revisions.length === 0 ? (
+        <EmptyState
+          icon="clock"
+          title="NO HISTORY"
+          description="Revisions appear here when the trigger is edited, enabled or disabled."
+          variant="subtle"
+          size="md"
+        />
+      ) : (
+        <div className="space-y-2">
+          {revisions.map((revision, index) => {
+            const isExpanded = expandedId === revision.id
+            const isCurrent = revision.id === current?.id
+            const config = changeTypeConfig[revision.changeType]
+
+            return (
+              <div
+                key={revision.id}
+                className={cn(
+                  'border-2 bg-terminal transition-colors',
+                  isExpanded
+                    ? 'border-terminal-green'
+                    : 'border-terminal hover:border-terminal-green'
+                )}
+              >
+                <div className="flex flex-wrap items-center gap-4 p-4">
+                  <button
+                    type="button"
+                    onClick={() => toggleExpanded(revision.id)}
+                    aria-expanded={isExpanded}
+                    className="flex flex-1 flex-wrap items-center gap-4 text-left min-w-0"
+                  >
+                    <Icon
+                      name={isExpanded ? 'chevron-down' : 'chevron-right'}
+                      size="sm"
+                      className="text-terminal-dim"
+                    />
+                    <span className="typo-ui text-terminal-green">#{revision.revision}</span>
+                    <Badge
+                      variant="outline"
+                      className={cn('typo-ui border-2 bg-transparent', config.className)}
+                    >
+                      {config.label}
+                      {revision.rolledBackFrom !== null && ` TO #${revision.rolledBackFrom}`}
+                    </Badge>
+                    <span className="typo-ui text-terminal-green">
+                      {formatDateTime(revision.createdAt)}
+                    </span>
+                    <span className="typo-ui text-terminal-dim break-all">
+                      BY {revision.author?.name ?? (revision.author ? 'UNKNOWN USER' : 'SYSTEM')}
+                    </span>
+                    {isCurrent && <span className="typo-ui text-terminal-dim">[CURRENT]</span>}
+                  </button>
+
+                  {!isCurrent && (
+                    <PermissionTooltip reason={canRollback.reason}>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="typo-ui"
+                        onClick={() => setRollbackTo(revision)}
+                        disabled={!canRollback.allowed || rollback.isPending}
+                      >
+                        <Icon name="retry" size="sm" />
+                        {rollback.isPending && rollback.variables === revision.revision
+                          ? 'ROLLING BACK...'
+                          : '[ROLLBACK]'}
+                      </Button>
+                    </PermissionTooltip>
+                  )}
+                </div>
+
+                {isExpanded && (
+                  <div className="border-t-2 border-terminal-dim p-4">
+                    <RevisionChanges revision={revision} previous={loaded[index + 1]} />
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {data && data.pagination.total > revisions.length && (
+        <div className="text-center">
+          <Button
+            variant="outline"
+            className="typo-ui"
+            onClick={() => setLimit((value) => value + PAGE_SIZE)}
+          >
+            [LOAD MORE]
+          </Button>
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={rollbackTo !== null}
+        onOpenChange={(open) => !open && setRollbackTo(null)}
+        title={`Roll back to revision #${rollbackTo?.revision ?? ''}`}
+        description="The trigger's name, description, conditions, actions, settings and enabled state are restored from this revision. The rollback is saved as a new revision."
+        confirmLabel="Roll back"
+        onConfirm={handleRollback}
+        isLoading={rollback.isPending}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,107 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { TriggerStatePanel } from './TriggerStatePanel'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const TRIGGER_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const stateConfig = {
+  windowSeconds: 86400,
+  countThreshold: 3,
+  cooldownSeconds: 3600,
+  scope: 'agent' as const,
+  resetPolicy: 'on_fire' as const,
+}
+
+const mockState = {
+  triggerId: TRIGGER_ID,
+  entries: [
+    {
+      agentId: 42,
+      count: 2,
+      windowStartedAt: '2024-01-15T08:00:00Z',
+      lastMatchedAt: '2024-01-15T10:30:00Z',
+      lastFiredAt: null,
+      cooldownUntil: null,
+    },
+    {
+      agentId: 7,
+      count: 3,
+      windowStartedAt: '2024-01-14T22:10:00Z',
+      lastMatchedAt: '2024-01-15T09:45:00Z',
+      lastFiredAt: '2024-01-15T09:45:01Z',
+      cooldownUntil: new Date(Date.now() + 45 * 60 * 1000).toISOString(),
+    },
+  ],
+  lastResetAt: '2024-01-10T12:00:00Z',
+}
+
+const meta: Meta<typeof TriggerStatePanel> = {
+  title: 'Organisms/TriggerStatePanel',
+  component: TriggerStatePanel,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const WithCounters: Story = {
+  args: {
+    triggerId: TRIGGER_ID,
+    stateConfig,
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/triggers/:triggerId/state', () => HttpResponse.json(mockState)),
+        http.post('/api/v1/triggers/:triggerId/state/reset', () =>
+          HttpResponse.json({ ...mockState, entries: [], lastResetAt: new Date().toISOString() })
+        ),
+      ],
+    },
+  },
+}
+
+export const NoStateYet: Story = {
+  args: {
+    triggerId: TRIGGER_ID,
+    stateConfig: { ...stateConfig, scope: 'trigger', cooldownSeconds: 0 },
+  },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/v1/triggers/:triggerId/state', () =>
+          HttpResponse.json({ triggerId: TRIGGER_ID, entries: [], lastResetAt: null })
+        ),
+      ],
+    },
+  },
+}
@@ -0,0 +1,216 @@
+/**
+ * TriggerStatePanel
+ *
+ * Shows the configuration and live state of a stateful trigger: the
+ * window/counter/cooldown settings, and per agent (or trigger-wide)
+ * counters with their window start, last fire and remaining cooldown.
+ * State can be reset for a single agent or for the whole trigger.
+ *
+ * @module components/organisms/TriggerStatePanel
+ *
+ * @example
+ * ```tsx
+ * <TriggerStatePanel triggerId={trigger.id} stateConfig={trigger.stateConfig} />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import {
+  ApiErrorDisplay,
+  ConfirmDialog,
+  LoadingSkeleton,
+  PermissionTooltip,
+} from '@/components/molecules'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import { usePermission, useResetTriggerState, useTriggerState } from '@/hooks'
+import { formatDateTime } from '@/lib/format'
+import {
+  describeStateConfig,
+  formatSeconds,
+  getCooldownRemaining,
+  STATE_RESET_POLICY_INFO,
+  STATE_SCOPE_LABELS,
+} from '@/lib/trigger-state'
+import { cn } from '@/lib/utils'
+import type { TriggerStateConfig, TriggerStateEntry } from '@/lib/validations/trigger'
+
+/**
+ * Props for the TriggerStatePanel component.
+ */
+interface TriggerStatePanelProps {
+  /** The trigger whose state is shown */
+  triggerId: string
+  /** State settings (null for stateful triggers without windows or counters) */
+  stateConfig?: TriggerStateConfig | null
+  /** Additional CSS classes */
+  className?: string
+}
+
+function StateEntryRow({
+  entry,
+  countThreshold,
+  onReset,
+  isResetting,
+}: {
+  entry: TriggerStateEntry
+  countThreshold: number | null
+  onReset: () => void
+  isResetting: boolean
+}) {
+  const cooldown = getCooldownRemaining(entry)
+  const thresholdReached = countThreshold !== null && entry.count >= countThreshold
+  const canReset = usePermission('update', 'trigger')
+
+  return (
+    <div
+      data-slot="trigger-state-entry"
+      className="flex flex-wrap items-center gap-4 p-3 border-2 border-terminal bg-terminal typo-ui"
+    >
+      <span className="text-terminal-green min-w-24">
+        {entry.agentId !== null ? `AGENT #${entry.agentId}` : 'ALL AGENTS'}
+      </span>
+      <span className={thresholdReached ? 'text-yellow-500' : 'text-terminal-green'}>
+        {entry.count}
+        {countThreshold !== null && `/${countThreshold}`} EVENTS
+      </span>
+      <span className="text-terminal-dim">
+        WINDOW: {entry.windowStartedAt ? formatDateTime(entry.windowStartedAt) : '--'}
+      </span>
+      <span className="text-terminal-dim">
+        LAST FIRED: {entry.lastFiredAt ? formatDateTime(entry.lastFiredAt) : 'NEVER'}
+      </span>
+      {cooldown > 0 && <span className="text-blue-400">COOLDOWN {formatSeconds(cooldown)}</span>}
+      {entry.agentId !== null && (
+        <PermissionTooltip reason={canReset.reason} className="ml-auto">
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui ml-auto"
+            onClick={onReset}
+            disabled={!canReset.allowed || isResetting}
+          >
+            [RESET]
+          </Button>
+        </PermissionTooltip>
+      )}
+    </div>
+  )
+}
+
+export function TriggerStatePanel({ triggerId, stateConfig, className }: TriggerStatePanelProps) {
+  const [confirmOpen, setConfirmOpen] = useState(false)
+  const { data: state, isLoading, error } = useTriggerState(triggerId)
+  const reset = useResetTriggerState(triggerId)
+  const canReset = usePermission('update', 'trigger')
+
+  const handleResetAll = () => {
+    reset.mutate(undefined, { onSettled: () => setConfirmOpen(false) })
+  }
+
+  const entries = state?.entries ?? []
+
+  return (
+    <Box variant="secondary" padding="md" className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="typo-ui text-terminal-green glow">[~] TRIGGER STATE</div>
+        <PermissionTooltip reason={canReset.reason}>
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            onClick={() => setConfirmOpen(true)}
+            disabled={!canReset.allowed || reset.isPending || entries.length === 0}
+          >
+            <Icon name="retry" size="sm" />
+            [RESET STATE]
+          </Button>
+        </PermissionTooltip>
+      </div>
+
+      {stateConfig ? (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 typo-ui">
+          <div>
+            <div className="text-terminal-dim mb-1">&gt; WINDOW</div>
+            <div className="text-terminal-green">
+              {stateConfig.windowSeconds ? formatSeconds(stateConfig.windowSeconds) : 'NONE'}
+            </div>
+          </div>
+          <div>
+            <div className="text-terminal-dim mb-1">&gt; FIRES AFTER</div>
+            <div className="text-terminal-green">{stateConfig.countThreshold ?? 1} EVENTS</div>
+          </div>
+          <div>
+            <div className="text-terminal-dim mb-1">&gt; COOLDOWN</div>
+            <div className="text-terminal-green">
+              {stateConfig.cooldownSeconds > 0
+                ? formatSeconds(stateConfig.cooldownSeconds)
+                : 'NONE'}
+            </div>
+          </div>
+          <div>
+            <div className="text-terminal-dim mb-1">&gt; TRACKED</div>
+            <div className="text-terminal-green">{STATE_SCOPE_LABELS[stateConfig.scope]}</div>
+          </div>
+          <div className="col-span-2 md:col-span-4 text-terminal-dim">
+            {describeStateConfig(stateConfig)} (
+            {STATE_RESET_POLICY_INFO[stateConfig.resetPolicy].label})
+          </div>
+        </div>
+      ) : (
+        <div className="typo-ui text-terminal-dim">
+          Remembers past events to avoid duplicate processing
+        </div>
+      )}
+
+      {isLoading ? (
+        <LoadingSkeleton count={2} height={48} />
+      ) : error ? (
+        <ApiErrorDisplay
+          error={error instanceof Error ? error : new Error('State could not be loaded')}
+          title="ERROR LOADING STATE"
+        />
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon="clock"
+          title="NO STATE YET"
+          description="Counters appear here once matching events are indexed."
+          variant="subtle"
+          size="sm"
+        />
+      ) : (
+        <div className="space-y-2">
+          {entries.map((entry) => (
+            <StateEntryRow
+              key={entry.agentId ?? 'trigger'}
+              entry={entry}
+              countThreshold={stateConfig?.countThreshold ?? null}
+              onReset={() => entry.agentId !== null && reset.mutate(entry.agentId)}
+              isResetting={reset.isPending && reset.variables === entry.agentId}
+            />
+          ))}
+        </div>
+      )}
+
+      {state?.lastResetAt && (
+        <div className="typo-ui text-terminal-dim/70">
+          LAST RESET: {formatDateTime(state.lastResetAt)}
+        </div>
+      )}
+
+      <ConfirmDialog
+        open={confirmOpen}
+        onOpenChange={setConfirmOpen}
+        title="Reset Trigger State"
+        description="All counters and cooldowns will be cleared. The trigger starts counting matching events from zero."
+        confirmLabel="Reset State"
+        variant="destructive"
+        onConfirm={handleResetAll}
+        isLoading={reset.isPending}
+      />
+    </Box>
+  )
+}
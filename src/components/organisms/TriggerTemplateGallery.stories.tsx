@@ -0,0 +1,96 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { TriggerTemplateGallery } from './TriggerTemplateGallery'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const mockTemplate = {
+  id: '550e8400-e29b-41d4-a716-446655440020',
+  organizationId: '550e8400-e29b-41d4-a716-446655440000',
+  name: 'Production webhook',
+  description: 'Forward every reputation update to the ops webhook',
+  category: 'custom',
+  parameters: [],
+  trigger: {
+    name: 'Production webhook',
+    chainId: 11155111,
+    registry: 'reputation',
+    conditions: [
+      {
+        conditionType: 'event_filter',
+        field: 'event_type',
+        operator: 'eq',
+        value: 'ReputationUpdated',
+        config: {},
+      },
+    ],
+    actions: [
+      { actionType: 'rest', priority: 0, config: { url: 'https://ops.example.com/hooks' } },
+    ],
+  },
+  createdAt: '2026-01-15T10:00:00Z',
+}
+
+const meta: Meta<typeof TriggerTemplateGallery> = {
+  title: 'Organisms/TriggerTemplateGallery',
+  component: TriggerTemplateGallery,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  beforeEach: () => {
+    useOrganizationStore.setState({ currentRole: 'owner' })
+  },
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+  args: {
+    onUse: () => {},
+    onSkip: () => {},
+  },
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const WithOrganizationTemplates: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/organizations/:orgId/trigger-templates', () =>
+          HttpResponse.json({ data: [mockTemplate] })
+        ),
+      ],
+    },
+  },
+}
+
+export const BuiltInOnly: Story = {
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/organizations/:orgId/trigger-templates', () =>
+          HttpResponse.json({ data: [] })
+        ),
+      ],
+    },
+  },
+}
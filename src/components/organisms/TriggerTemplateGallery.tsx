@@ -0,0 +1,267 @@
+/**
+ * TriggerTemplateGallery
+ *
+ * Lists the built-in trigger templates and the organization's saved
+ * templates. Picking a template asks for its parameters (chain, threshold,
+ * webhook URL, watchlist...) and hands the filled-in trigger values to the
+ * caller, typically to prefill `TriggerForm`.
+ *
+ * @module components/organisms/TriggerTemplateGallery
+ *
+ * @example
+ * ```tsx
+ * <TriggerTemplateGallery
+ *   onUse={(values) => setInitialValues(values)}
+ *   onSkip={() => setInitialValues({})}
+ * />
+ * ```
+ */
+'use client'
+
+import { useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { ConfirmDialog, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
+import { WatchlistSelect } from '@/components/molecules/WatchlistSelect'
+import { useDeleteTriggerTemplate, usePermission, useTriggerTemplates } from '@/hooks'
+import { CHAIN_NAMES, SUPPORTED_CHAINS } from '@/lib/constants'
+import {
+  BUILT_IN_TRIGGER_TEMPLATES,
+  instantiateTriggerTemplate,
+  validateTemplateParameters,
+} from '@/lib/trigger-templates'
+import { cn } from '@/lib/utils'
+import type {
+  CreateTriggerFormValues,
+  TriggerTemplate,
+  TriggerTemplateDefinition,
+  TriggerTemplateParameter,
+} from '@/lib/validations'
+
+/**
+ * Props for the TriggerTemplateGallery component.
+ */
+interface TriggerTemplateGalleryProps {
+  /** Called with the trigger form values of the filled-in template */
+  onUse: (values: CreateTriggerFormValues) => void
+  /** Called when the user starts from an empty trigger instead */
+  onSkip?: () => void
+  className?: string
+}
+
+/** Initial parameter values: the defaults of the template */
+function getDefaultValues(template: TriggerTemplateDefinition): Record<string, string> {
+  return Object.fromEntries(template.parameters.map((p) => [p.key, p.defaultValue ?? '']))
+}
+
+export function TriggerTemplateGallery({ onUse, onSkip, className }: TriggerTemplateGalleryProps) {
+  const [selected, setSelected] = useState<TriggerTemplateDefinition | null>(null)
+  const [values, setValues] = useState<Record<string, string>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [deleting, setDeleting] = useState<TriggerTemplate | null>(null)
+
+  const { data: orgTemplates, isLoading } = useTriggerTemplates()
+  const deleteTemplate = useDeleteTriggerTemplate()
+  const canDelete = usePermission('delete', 'trigger')
+
+  const handleSelect = (template: TriggerTemplateDefinition) => {
+    if (template.parameters.length === 0) {
+      onUse(instantiateTriggerTemplate(template, {}))
+      return
+    }
+    setSelected(template)
+    setValues(getDefaultValues(template))
+    setErrors({})
+  }
+
+  const handleUse = () => {
+    if (!selected) return
+    const validationErrors = validateTemplateParameters(selected, values)
+    setErrors(validationErrors)
+    if (Object.keys(validationErrors).length === 0) {
+      onUse(instantiateTriggerTemplate(selected, values))
+    }
+  }
+
+  const handleDelete = () => {
+    if (!deleting) return
+    deleteTemplate.mutate(deleting.id, { onSuccess: () => setDeleting(null) })
+  }
+
+  const renderParameterInput = (parameter: TriggerTemplateParameter) => {
+    const id = `template-param-${parameter.key}`
+    const value = values[parameter.key] ?? ''
+    const setValue = (newValue: string) => setValues({ ...values, [parameter.key]: newValue })
+
+    switch (parameter.type) {
+      case 'chain':
+        return (
+          <Select value={value} onValueChange={setValue}>
+            <SelectTrigger id={id} className="typo-ui">
+              <SelectValue placeholder="Select chain..." />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.values(SUPPORTED_CHAINS).map((chainId) => (
+                <SelectItem key={chainId} value={chainId.toString()} className="typo-ui">
+                  {CHAIN_NAMES[chainId]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )
+      case 'watchlist':
+        return <WatchlistSelect id={id} value={value || null} onChange={setValue} />
+      default:
+        return (
+          <Input
+            id={id}
+            type={
+              parameter.type === 'number' ? 'number' : parameter.type === 'url' ? 'url' : 'text'
+            }
+            placeholder={parameter.type === 'url' ? 'https://...' : undefined}
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            className={cn('typo-ui', errors[parameter.key] && 'border-destructive')}
+          />
+        )
+    }
+  }
+
+  const renderCard = (template: TriggerTemplateDefinition, orgTemplate?: TriggerTemplate) => (
+    <Box key={template.id} variant="default" padding="md" className="flex flex-col gap-3">
+      <div className="flex items-start gap-2">
+        <div className="space-y-1">
+          <div className="typo-ui text-terminal-green glow">{template.name}</div>
+          <div className="typo-ui text-terminal-dim/70">
+            [{template.category.toUpperCase()}]
+            {template.parameters.length > 0 &&
+              ` / ${template.parameters.length} PARAM${template.parameters.length !== 1 ? 'S' : ''}`}
+          </div>
+        </div>
+        {orgTemplate && (
+          <PermissionTooltip reason={canDelete.reason} className="ml-auto">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="typo-ui ml-auto"
+              aria-label={`Delete template ${template.name}`}
+              disabled={!canDelete.allowed}
+              onClick={() => setDeleting(orgTemplate)}
+            >
+              <Icon name="close" size="sm" />
+            </Button>
+          </PermissionTooltip>
+        )}
+      </div>
+      {template.description && (
+        <p className="typo-ui text-terminal-dim flex-1">{template.description}</p>
+      )}
+      <Button size="sm" className="typo-ui self-start" onClick={() => handleSelect(template)}>
+        [USE TEMPLATE]
+      </Button>
+    </Box>
+  )
+
+  if (selected) {
+    return (
+      <Box
+        data-slot="trigger-template-gallery"
+        variant="secondary"
+        padding="md"
+        className={cn('space-y-6', className)}
+      >
+        <div className="space-y-1">
+          <div className="typo-ui text-terminal-green glow">&gt; {selected.name}</div>
+          {selected.description && (
+            <p className="typo-ui text-terminal-dim">{selected.description}</p>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          {selected.parameters.map((parameter) => (
+            <div key={parameter.key} className="space-y-2">
+              <Label htmlFor={`template-param-${parameter.key}`} className="typo-ui">
+                {parameter.label.toUpperCase()}
+                {parameter.required === false && (
+                  <span className="text-terminal-dim"> (optional)</span>
+                )}
+              </Label>
+              {renderParameterInput(parameter)}
+              {parameter.description && (
+                <p className="typo-ui text-terminal-dim/80">{parameter.description}</p>
+              )}
+              {errors[parameter.key] && (
+                <p className="typo-ui text-destructive">{errors[parameter.key]}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="typo-ui" onClick={() => setSelected(null)}>
+            [&lt; BACK]
+          </Button>
+          <Button size="sm" className="typo-ui" onClick={handleUse}>
+            [CONTINUE &gt;]
+          </Button>
+        </div>
+      </Box>
+    )
+  }
+
+  return (
+    <div data-slot="trigger-template-gallery" className={cn('space-y-6', className)}>
+      <div className="flex items-center gap-3">
+        <div className="typo-ui text-terminal-green glow">[i] START FROM A TEMPLATE</div>
+        {onSkip && (
+          <Button variant="outline" size="sm" className="typo-ui ml-auto" onClick={onSkip}>
+            [START FROM SCRATCH]
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="typo-ui text-terminal-dim">&gt; BUILT-IN</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {BUILT_IN_TRIGGER_TEMPLATES.map((template) => renderCard(template))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="typo-ui text-terminal-dim">&gt; ORGANIZATION</h3>
+        {isLoading ? (
+          <LoadingSkeleton count={1} height={120} />
+        ) : orgTemplates && orgTemplates.length > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {orgTemplates.map((template) => renderCard(template, template))}
+          </div>
+        ) : (
+          <p className="typo-ui text-terminal-dim/70">
+            No saved templates yet. Use [SAVE AS TEMPLATE] on a trigger to reuse it here.
+          </p>
+        )}
+      </div>
+
+      <ConfirmDialog
+        open={deleting !== null}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete Template"
+        description={`Delete "${deleting?.name}"? Triggers created from it are not affected.`}
+        confirmLabel="Delete Template"
+        variant="destructive"
+        onConfirm={handleDelete}
+        isLoading={deleteTemplate.isPending}
+      />
+    </div>
+  )
+}
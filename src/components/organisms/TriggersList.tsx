@@ -2,6 +2,8 @@
  * TriggersList
  *
  * Displays a filterable grid of trigger cards with search, chain, registry, and status filters.
+ * Triggers can be selected for bulk actions (enable, disable, duplicate, move,
+ * delete) and exported to a bundle, and bundles imported.
  * Handles loading states, errors, and empty states.
  *
  * @module components/organisms/TriggersList
@@ -15,15 +17,19 @@
 
 import { useState } from 'react'
 import { Button } from '@/components/atoms/button'
+import { Checkbox } from '@/components/atoms/checkbox'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/atoms/select'
-import { ApiErrorDisplay, LoadingSkeleton } from '@/components/molecules'
+import { ApiErrorDisplay, LoadingSkeleton, PermissionTooltip } from '@/components/molecules'
 import { FilterBar, FilterGroup, FilterItem } from '@/components/molecules/FilterBar'
 import { SearchInput } from '@/components/molecules/SearchInput'
 import { EmptyListState, NoResultsState } from '@/components/molecules/EmptyState'
-import { useTriggers } from '@/hooks'
+import { usePermission, useTriggers } from '@/hooks'
 import { REGISTRIES, SUPPORTED_CHAINS, type Registry, type SupportedChainId } from '@/lib/constants'
 import type { TriggerFilters } from '@/lib/validations'
+import { TriggerBulkActionsBar } from './TriggerBulkActionsBar'
 import { TriggerCard } from './TriggerCard'
+import { TriggerExportDialog } from './TriggerExportDialog'
+import { TriggerImportDialog } from './TriggerImportDialog'
 
 /**
  * Props for the TriggersList component.
@@ -36,44 +42,67 @@ interface TriggersListProps {
 export function TriggersList({ organizationId }: TriggersListProps) {
   const [filters, setFilters] = useState<TriggerFilters>({})
   const [search, setSearch] = useState('')
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [exporting, setExporting] = useState<string[] | 'all' | null>(null)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+
+  const canCreate = usePermission('create', 'trigger')
 
   const { data, isLoading, error } = useTriggers(organizationId, {
     ...filters,
     search: search || undefined,
   })
 
+  /** Filters change the visible triggers, so they drop the selection */
+  const updateFilters = (next: TriggerFilters) => {
+    setFilters(next)
+    setSelected(new Set())
+  }
+
+  const handleSearch = (value: string) => {
+    setSearch(value)
+    setSelected(new Set())
+  }
+
   const handleChainFilter = (value: string) => {
     if (value === 'all') {
       const { chainId: _, ...rest } = filters
-      setFilters(rest)
+      updateFilters(rest)
     } else {
-      setFilters({ ...filters, chainId: Number.parseInt(value, 10) as SupportedChainId })
+      updateFilters({ ...filters, chainId: Number.parseInt(value, 10) as SupportedChainId })
     }
   }
 
   const handleRegistryFilter = (value: string) => {
     if (value === 'all') {
       const { registry, ...rest } = filters
-      setFilters(rest)
+      updateFilters(rest)
     } else {
-      setFilters({ ...filters, registry: value as Registry })
+      updateFilters({ ...filters, registry: value as Registry })
     }
   }
 
   const handleStatusFilter = (value: string) => {
     if (value === 'all') {
       const { enabled, ...rest } = filters
-      setFilters(rest)
+      updateFilters(rest)
     } else {
-      setFilters({ ...filters, enabled: value === 'enabled' })
+      updateFilters({ ...filters, enabled: value === 'enabled' })
     }
   }
 
   const clearFilters = () => {
-    setFilters({})
+    updateFilters({})
     setSearch('')
   }
 
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selected)
+    if (checked) next.add(id)
+    else next.delete(id)
+    setSelected(next)
+  }
+
   const hasActiveFilters = Object.keys(filters).length > 0 || search.length > 0
 
   if (isLoading) {
@@ -94,9 +123,58 @@ export function TriggersList({ organizationId }: TriggersListProps) {
   }
 
   const triggers = data?.data ?? []
+  // Only act on selected triggers that are still listed
+  const selectedIds = triggers.filter((t) => selected.has(t.id)).map((t) => t.id)
+  const allSelected = triggers.length > 0 && selectedIds.length === triggers.length
 
   return (
     <div className="space-y-6">
+      {/* Bundle import/export */}
+      <div className="flex flex-wrap items-center gap-2">
+        {triggers.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="typo-ui"
+            onClick={() =>
+              setSelected(allSelected ? new Set() : new Set(triggers.map((t) => t.id)))
+            }
+          >
+            {allSelected ? '[DESELECT ALL]' : '[SELECT ALL]'}
+          </Button>
+        )}
+        <div className="ml-auto flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            disabled={triggers.length === 0 && !hasActiveFilters}
+            onClick={() => setExporting('all')}
+          >
+            [EXPORT ALL]
+          </Button>
+          <PermissionTooltip reason={canCreate.reason}>
+            <Button
+              variant="outline"
+              size="sm"
+              className="typo-ui"
+              disabled={!canCreate.allowed}
+              onClick={() => setIsImportOpen(true)}
+            >
+              [IMPORT]
+            </Button>
+          </PermissionTooltip>
+        </div>
+      </div>
+
+      {/* Bulk actions on the selection */}
+      <TriggerBulkActionsBar
+        organizationId={organizationId}
+        selectedIds={selectedIds}
+        onSelectionChange={(ids) => setSelected(new Set(ids))}
+        onExport={() => setExporting(selectedIds)}
+      />
+
       {/* Filters */}
       <FilterBar
         onClearFilters={clearFilters}
@@ -110,7 +188,7 @@ export function TriggersList({ organizationId }: TriggersListProps) {
           <FilterItem className="md:col-span-4">
             <SearchInput
               value={search}
-              onChange={setSearch}
+              onChange={handleSearch}
               placeholder="> SEARCH TRIGGERS..."
               debounceMs={300}
             />
@@ -191,7 +269,16 @@ export function TriggersList({ organizationId }: TriggersListProps) {
       ) : (
         <div className="grid grid-cols-[repeat(auto-fit,minmax(320px,1fr))] gap-4">
           {triggers.map((trigger) => (
-            <TriggerCard key={trigger.id} trigger={trigger} />
+            <div key={trigger.id} className="relative">
+              <TriggerCard trigger={trigger} />
+              <div className="absolute top-3 right-3">
+                <Checkbox
+                  aria-label={`Select ${trigger.name}`}
+                  checked={selected.has(trigger.id)}
+                  onCheckedChange={(checked) => toggleSelected(trigger.id, checked)}
+                />
+              </div>
+            </div>
           ))}
         </div>
       )}
@@ -204,6 +291,18 @@ export function TriggersList({ organizationId }: TriggersListProps) {
           </Button>
         </div>
       )}
+
+      <TriggerExportDialog
+        organizationId={organizationId}
+        triggerIds={exporting ?? []}
+        open={exporting !== null}
+        onOpenChange={(open) => !open && setExporting(null)}
+      />
+      <TriggerImportDialog
+        organizationId={organizationId}
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+      />
     </div>
   )
 }
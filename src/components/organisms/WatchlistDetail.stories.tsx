@@ -0,0 +1,79 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { http, HttpResponse } from 'msw'
+import { WatchlistDetail } from './WatchlistDetail'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const WATCHLIST_ID = '550e8400-e29b-41d4-a716-446655440010'
+
+const mockWatchlist = {
+  id: WATCHLIST_ID,
+  organizationId: '550e8400-e29b-41d4-a716-446655440000',
+  name: 'Production fleet',
+  description: 'Agents serving customer traffic',
+  agents: [
+    { agentId: 42, chainId: 11155111 },
+    { agentId: 43, chainId: 11155111 },
+    { agentId: 7, chainId: 84532 },
+  ],
+  createdAt: '2026-01-15T10:00:00Z',
+  updatedAt: '2026-02-01T10:00:00Z',
+}
+
+const meta: Meta<typeof WatchlistDetail> = {
+  title: 'Organisms/WatchlistDetail',
+  component: WatchlistDetail,
+  parameters: {
+    layout: 'padded',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <div className="bg-terminal p-4">
+          <Story />
+        </div>
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const WithAgents: Story = {
+  args: { watchlistId: WATCHLIST_ID },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/organizations/:orgId/watchlists/:id', () =>
+          HttpResponse.json(mockWatchlist)
+        ),
+      ],
+    },
+  },
+}
+
+export const Empty: Story = {
+  args: { watchlistId: WATCHLIST_ID },
+  parameters: {
+    msw: {
+      handlers: [
+        http.get('/api/organizations/:orgId/watchlists/:id', () =>
+          HttpResponse.json({ ...mockWatchlist, agents: [] })
+        ),
+      ],
+    },
+  },
+}
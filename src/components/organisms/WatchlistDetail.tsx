@@ -0,0 +1,280 @@
+/**
+ * WatchlistDetail
+ *
+ * Manages the agents of one watchlist: lists them with links to the
+ * explorer, adds a single agent, bulk-imports from CSV, and removes agents
+ * or the whole watchlist. Shows the condition value to reference the
+ * watchlist from trigger conditions.
+ *
+ * @module components/organisms/WatchlistDetail
+ *
+ * @example
+ * ```tsx
+ * <WatchlistDetail
+ *   watchlistId="550e8400-e29b-41d4-a716-446655440010"
+ *   onDeleted={() => router.push('/dashboard/watchlists')}
+ * />
+ * ```
+ */
+'use client'
+
+import Link from 'next/link'
+import { useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import {
+  ApiErrorDisplay,
+  ChainBadge,
+  CodeBlock,
+  ConfirmDialog,
+  LoadingSkeleton,
+  PermissionTooltip,
+} from '@/components/molecules'
+import { EmptyState } from '@/components/molecules/EmptyState'
+import {
+  useAddWatchlistAgents,
+  useDeleteWatchlist,
+  usePermission,
+  useRemoveWatchlistAgent,
+  useWatchlist,
+} from '@/hooks'
+import { CHAIN_NAMES, SUPPORTED_CHAINS } from '@/lib/constants'
+import { formatDate } from '@/lib/format'
+import { cn } from '@/lib/utils'
+import { watchlistAgentSchema } from '@/lib/validations'
+import { isAgentInWatchlist, toWatchlistReference } from '@/lib/watchlists'
+import { WatchlistImportDialog } from './WatchlistImportDialog'
+
+/**
+ * Props for the WatchlistDetail component.
+ */
+interface WatchlistDetailProps {
+  /** Watchlist UUID */
+  watchlistId: string
+  /** Called after the watchlist has been deleted */
+  onDeleted?: () => void
+  className?: string
+}
+
+export function WatchlistDetail({ watchlistId, onDeleted, className }: WatchlistDetailProps) {
+  const [agentIdInput, setAgentIdInput] = useState('')
+  const [chainId, setChainId] = useState<number>(SUPPORTED_CHAINS.SEPOLIA)
+  const [addError, setAddError] = useState<string | null>(null)
+  const [importOpen, setImportOpen] = useState(false)
+  const [deleteOpen, setDeleteOpen] = useState(false)
+
+  const { data: watchlist, isLoading, error } = useWatchlist(watchlistId)
+  const addAgents = useAddWatchlistAgents(watchlistId)
+  const removeAgent = useRemoveWatchlistAgent(watchlistId)
+  const deleteWatchlist = useDeleteWatchlist()
+  const canUpdate = usePermission('update', 'watchlist')
+  const canDelete = usePermission('delete', 'watchlist')
+
+  if (isLoading) {
+    return <LoadingSkeleton count={3} height={80} />
+  }
+
+  if (error || !watchlist) {
+    return (
+      <ApiErrorDisplay
+        error={error instanceof Error ? error : new Error('Watchlist not found')}
+        title="WATCHLIST NOT FOUND"
+      />
+    )
+  }
+
+  const handleAdd = () => {
+    const parsed = watchlistAgentSchema.safeParse({ agentId: agentIdInput.trim(), chainId })
+    if (!agentIdInput.trim() || !parsed.success) {
+      setAddError(parsed.error?.issues[0]?.message ?? 'Enter an agent ID')
+      return
+    }
+    if (isAgentInWatchlist(watchlist.agents, parsed.data.agentId, parsed.data.chainId)) {
+      setAddError('Agent is already in this watchlist')
+      return
+    }
+    setAddError(null)
+    addAgents.mutate([parsed.data], { onSuccess: () => setAgentIdInput('') })
+  }
+
+  const handleDelete = () => {
+    deleteWatchlist.mutate(watchlist.id, {
+      onSuccess: () => {
+        setDeleteOpen(false)
+        onDeleted?.()
+      },
+    })
+  }
+
+  return (
+    <div data-slot="watchlist-detail" className={cn('space-y-6', className)}>
+      {/* Header with actions */}
+      <div className="flex flex-wrap items-start gap-3">
+        <div className="space-y-1">
+          <span className="typo-header text-terminal-green glow">{watchlist.name}</span>
+          {watchlist.description && (
+            <p className="typo-ui text-terminal-dim">{watchlist.description}</p>
+          )}
+          <p className="typo-ui text-terminal-dim/70">
+            {watchlist.agents.length} AGENT{watchlist.agents.length !== 1 ? 'S' : ''} / UPDATED{' '}
+            {formatDate(watchlist.updatedAt)}
+          </p>
+        </div>
+        <div className="ml-auto flex flex-wrap gap-2">
+          <PermissionTooltip reason={canUpdate.reason}>
+            <Button
+              size="sm"
+              className="typo-ui"
+              onClick={() => setImportOpen(true)}
+              disabled={!canUpdate.allowed}
+            >
+              <Icon name="add" size="sm" />
+              [IMPORT CSV]
+            </Button>
+          </PermissionTooltip>
+          <PermissionTooltip reason={canDelete.reason}>
+            <Button
+              variant="outline"
+              size="sm"
+              className="typo-ui"
+              onClick={() => setDeleteOpen(true)}
+              disabled={!canDelete.allowed}
+            >
+              <Icon name="remove" size="sm" />
+              [DELETE]
+            </Button>
+          </PermissionTooltip>
+        </div>
+      </div>
+
+      {/* Usage */}
+      <Box variant="default" padding="md" className="space-y-2">
+        <h3 className="typo-ui text-terminal-green glow">&gt; USE IN TRIGGERS</h3>
+        <p className="typo-ui text-terminal-dim">
+          Pick this watchlist in an agent filter condition, or match it by hand with the
+          &quot;in&quot; operator on the agent ID field:
+        </p>
+        <CodeBlock code={`agentId in ${toWatchlistReference(watchlist.id)}`} language="text" />
+      </Box>
+
+      {/* Add agent */}
+      <Box variant="default" padding="md" className="space-y-4">
+        <h3 className="typo-ui text-terminal-green glow">&gt; ADD AGENT</h3>
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="watchlistAgentId" className="typo-ui text-terminal-dim">
+              AGENT ID
+            </Label>
+            <Input
+              id="watchlistAgentId"
+              type="number"
+              min={0}
+              placeholder="e.g. 42"
+              value={agentIdInput}
+              onChange={(e) => setAgentIdInput(e.target.value)}
+              className="typo-ui"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="watchlistAgentChain" className="typo-ui text-terminal-dim">
+              CHAIN
+            </Label>
+            <Select value={chainId.toString()} onValueChange={(value) => setChainId(Number(value))}>
+              <SelectTrigger id="watchlistAgentChain" className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(SUPPORTED_CHAINS).map((id) => (
+                  <SelectItem key={id} value={id.toString()} className="typo-ui">
+                    {CHAIN_NAMES[id]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <PermissionTooltip reason={canUpdate.reason}>
+            <Button
+              size="sm"
+              className="typo-ui"
+              onClick={handleAdd}
+              disabled={addAgents.isPending || !canUpdate.allowed}
+            >
+              {addAgents.isPending ? '[ADDING...]' : '[ADD]'}
+            </Button>
+          </PermissionTooltip>
+        </div>
+        {addError && <p className="typo-ui text-destructive">{addError}</p>}
+      </Box>
+
+      {/* Agents */}
+      <Box variant="default" padding="md">
+        <h3 className="typo-ui text-terminal-green glow mb-4">&gt; AGENTS</h3>
+        {watchlist.agents.length === 0 ? (
+          <EmptyState
+            icon="agents"
+            title="NO AGENTS"
+            description="Add agents one by one or import a CSV file of agent IDs."
+            variant="subtle"
+            size="sm"
+          />
+        ) : (
+          <div className="space-y-2">
+            {watchlist.agents.map((agent) => (
+              <div
+                key={`${agent.chainId}:${agent.agentId}`}
+                className="flex items-center gap-3 border-b border-terminal-dim/40 pb-2"
+              >
+                <ChainBadge chainId={agent.chainId} />
+                <Link
+                  href={`/dashboard/explorer/${agent.chainId}/${agent.agentId}`}
+                  className="typo-ui text-terminal-green hover:underline"
+                >
+                  AGENT #{agent.agentId}
+                </Link>
+                <PermissionTooltip reason={canUpdate.reason} className="ml-auto">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="typo-ui ml-auto"
+                    aria-label={`Remove agent ${agent.agentId}`}
+                    onClick={() => removeAgent.mutate(agent)}
+                    disabled={removeAgent.isPending || !canUpdate.allowed}
+                  >
+                    <Icon name="close" size="sm" />
+                  </Button>
+                </PermissionTooltip>
+              </div>
+            ))}
+          </div>
+        )}
+      </Box>
+
+      <WatchlistImportDialog
+        watchlistId={watchlist.id}
+        open={importOpen}
+        onOpenChange={setImportOpen}
+      />
+
+      <ConfirmDialog
+        open={deleteOpen}
+        onOpenChange={setDeleteOpen}
+        title="Delete Watchlist"
+        description={`Delete "${watchlist.name}"? Trigger conditions referencing it will no longer match.`}
+        confirmLabel="Delete Watchlist"
+        variant="destructive"
+        onConfirm={handleDelete}
+        isLoading={deleteWatchlist.isPending}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,58 @@
+import type { Meta, StoryObj } from '@storybook/nextjs-vite'
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import { WatchlistImportDialog } from './WatchlistImportDialog'
+
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: false,
+    },
+  },
+})
+
+const WATCHLIST_ID = '550e8400-e29b-41d4-a716-446655440010'
+
+const meta: Meta<typeof WatchlistImportDialog> = {
+  title: 'Organisms/WatchlistImportDialog',
+  component: WatchlistImportDialog,
+  parameters: {
+    layout: 'centered',
+    backgrounds: {
+      default: 'terminal',
+      values: [{ name: 'terminal', value: '#0A0A0A' }],
+    },
+  },
+  tags: ['autodocs'],
+  decorators: [
+    (Story) => (
+      <QueryClientProvider client={queryClient}>
+        <Story />
+      </QueryClientProvider>
+    ),
+  ],
+}
+
+export default meta
+type Story = StoryObj<typeof meta>
+
+export const Default: Story = {
+  render: () => {
+    const [open, setOpen] = useState(false)
+    return (
+      <>
+        <Button onClick={() => setOpen(true)}>[IMPORT CSV]</Button>
+        <WatchlistImportDialog watchlistId={WATCHLIST_ID} open={open} onOpenChange={setOpen} />
+      </>
+    )
+  },
+}
+
+export const OpenedDialog: Story = {
+  args: {
+    watchlistId: WATCHLIST_ID,
+    open: true,
+    onOpenChange: () => {},
+  },
+}
@@ -0,0 +1,209 @@
+/**
+ * WatchlistImportDialog
+ *
+ * Bulk-imports agents into a watchlist from a CSV file or pasted text.
+ * Each line holds an agent ID and, optionally, its chain (ID or name);
+ * lines without a chain use the selected default chain. The parsed agents
+ * and any invalid lines are previewed before importing.
+ *
+ * @module components/organisms/WatchlistImportDialog
+ *
+ * @example
+ * ```tsx
+ * <WatchlistImportDialog
+ *   watchlistId={watchlist.id}
+ *   open={isOpen}
+ *   onOpenChange={setIsOpen}
+ * />
+ * ```
+ */
+'use client'
+
+import { type ChangeEvent, useMemo, useState } from 'react'
+import { Button } from '@/components/atoms/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/atoms/dialog'
+import { Icon } from '@/components/atoms/icon'
+import { Input } from '@/components/atoms/input'
+import { Label } from '@/components/atoms/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { Textarea } from '@/components/atoms/textarea'
+import { useAddWatchlistAgents } from '@/hooks'
+import { CHAIN_NAMES, SUPPORTED_CHAINS } from '@/lib/constants'
+import { MAX_WATCHLIST_IMPORT_SIZE } from '@/lib/validations'
+import { parseWatchlistCsv } from '@/lib/watchlists'
+
+/**
+ * Props for the WatchlistImportDialog component.
+ */
+interface WatchlistImportDialogProps {
+  /** Watchlist to import agents into */
+  watchlistId: string
+  /** Whether the dialog is open */
+  open: boolean
+  /** Callback to control dialog open state */
+  onOpenChange: (open: boolean) => void
+}
+
+/** Invalid lines listed in the preview */
+const MAX_LISTED_ERRORS = 5
+
+export function WatchlistImportDialog({
+  watchlistId,
+  open,
+  onOpenChange,
+}: WatchlistImportDialogProps) {
+  const [text, setText] = useState('')
+  const [defaultChainId, setDefaultChainId] = useState<number>(SUPPORTED_CHAINS.SEPOLIA)
+  const addAgents = useAddWatchlistAgents(watchlistId)
+
+  const result = useMemo(() => parseWatchlistCsv(text, defaultChainId), [text, defaultChainId])
+  const tooMany = result.agents.length > MAX_WATCHLIST_IMPORT_SIZE
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) setText(await file.text())
+  }
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setText('')
+      addAgents.reset()
+    }
+    onOpenChange(newOpen)
+  }
+
+  const handleImport = () => {
+    addAgents.mutate(result.agents, {
+      onSuccess: () => handleOpenChange(false),
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="border-2 border-terminal bg-terminal">
+        <DialogHeader>
+          <DialogTitle className="typo-ui text-terminal-green glow flex items-center gap-2">
+            <Icon name="add" size="sm" />
+            IMPORT AGENTS
+          </DialogTitle>
+          <DialogDescription className="typo-ui text-terminal-dim">
+            One agent per line: <code>agentId</code> or <code>agentId,chain</code>. A header row is
+            skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="watchlistCsvFile" className="typo-ui text-terminal-dim">
+              &gt; CSV FILE
+            </Label>
+            <Input
+              id="watchlistCsvFile"
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              onChange={handleFile}
+              className="typo-ui"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="watchlistCsvText" className="typo-ui text-terminal-dim">
+              &gt; OR PASTE
+            </Label>
+            <Textarea
+              id="watchlistCsvText"
+              placeholder={'agent_id,chain\n42,sepolia\n43,84532'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              className="typo-code"
+              rows={6}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="watchlistDefaultChain" className="typo-ui text-terminal-dim">
+              &gt; DEFAULT CHAIN
+            </Label>
+            <Select
+              value={defaultChainId.toString()}
+              onValueChange={(value) => setDefaultChainId(Number(value))}
+            >
+              <SelectTrigger id="watchlistDefaultChain" className="typo-ui">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(SUPPORTED_CHAINS).map((chainId) => (
+                  <SelectItem key={chainId} value={chainId.toString()} className="typo-ui">
+                    {CHAIN_NAMES[chainId]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {text.trim() && (
+            <div className="rounded border-2 border-terminal-dim p-3 space-y-1 typo-ui">
+              <div className="text-terminal-green">
+                &gt; {result.agents.length} AGENT{result.agents.length !== 1 ? 'S' : ''} READY
+              </div>
+              {result.duplicates > 0 && (
+                <div className="text-terminal-dim">
+                  {result.duplicates} duplicate line{result.duplicates !== 1 ? 's' : ''} skipped
+                </div>
+              )}
+              {result.errors.slice(0, MAX_LISTED_ERRORS).map((error) => (
+                <div key={error.line} className="text-destructive">
+                  Line {error.line}: {error.message}
+                </div>
+              ))}
+              {result.errors.length > MAX_LISTED_ERRORS && (
+                <div className="text-destructive">
+                  ...and {result.errors.length - MAX_LISTED_ERRORS} more invalid lines
+                </div>
+              )}
+            </div>
+          )}
+
+          {tooMany && (
+            <p className="typo-ui text-destructive flex items-center gap-2">
+              <Icon name="warning" size="sm" />
+              At most {MAX_WATCHLIST_IMPORT_SIZE} agents per import
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => handleOpenChange(false)}
+            className="typo-ui"
+          >
+            [CANCEL]
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleImport}
+            disabled={result.agents.length === 0 || tooMany || addAgents.isPending}
+            className="typo-ui"
+          >
+            {addAgents.isPending ? '[IMPORTING...]' : `[IMPORT ${result.agents.length}]`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
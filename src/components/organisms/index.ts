@@ -13,18 +13,33 @@ export { EventsList } from './EventsList'
 
 // Agent organisms
 export { AgentCard } from './AgentCard'
+export { AgentCardPanel } from './AgentCardPanel'
+export { AgentAnalytics } from './AgentAnalytics'
 export { AgentDetail } from './AgentDetail'
+export { AgentExplorerSearch } from './AgentExplorerSearch'
 export { AgentsList } from './AgentsList'
+export { ExplorerAgentDetail } from './ExplorerAgentDetail'
+export { GiveFeedbackDialog } from './GiveFeedbackDialog'
 export { LinkAgentDialog } from './LinkAgentDialog'
+export { OnchainAgentPanel } from './OnchainAgentPanel'
+export { RequestValidationDialog } from './RequestValidationDialog'
 
 // API Key organisms
 export { ApiKeyCard } from './ApiKeyCard'
 export { ApiKeyCreatedDialog } from './ApiKeyCreatedDialog'
+export { ApiKeyRotationDialog } from './ApiKeyRotationDialog'
 export { ApiKeysList } from './ApiKeysList'
+export { ApiKeyUsageDrawer } from './ApiKeyUsageDrawer'
 export { CreateApiKeyDialog } from './CreateApiKeyDialog'
 
 // Organization organisms
 export { CreateOrganizationDialog } from './CreateOrganizationDialog'
+export { OrganizationAuditLog } from './OrganizationAuditLog'
+
+// Watchlist organisms
+export { CreateWatchlistDialog } from './CreateWatchlistDialog'
+export { WatchlistDetail } from './WatchlistDetail'
+export { WatchlistImportDialog } from './WatchlistImportDialog'
 
 // Billing organisms
 export { CreditBalanceCard } from './CreditBalanceCard'
@@ -33,12 +48,22 @@ export { TransactionHistoryTable } from './TransactionHistoryTable'
 // Trigger organisms
 export { ActionBuilder } from './ActionBuilder'
 export { ConditionBuilder } from './ConditionBuilder'
+export { ConditionGroupBuilder } from './ConditionGroupBuilder'
 export { ConditionTypeSelector } from './ConditionTypeSelector'
 export { EventTypeSelector } from './EventTypeSelector'
 export { JsonEditorToggle } from './JsonEditorToggle'
+export { SaveTriggerTemplateDialog } from './SaveTriggerTemplateDialog'
+export { TemplatePreview } from './TemplatePreview'
+export { TriggerBulkActionsBar } from './TriggerBulkActionsBar'
 export { TriggerCard } from './TriggerCard'
+export { TriggerExecutionsList } from './TriggerExecutionsList'
+export { TriggerExportDialog } from './TriggerExportDialog'
 export { TriggerForm } from './TriggerForm'
+export { TriggerImportDialog } from './TriggerImportDialog'
 export { TriggerJsonEditor } from './TriggerJsonEditor'
+export { TriggerRevisionHistory } from './TriggerRevisionHistory'
+export { TriggerStatePanel } from './TriggerStatePanel'
+export { TriggerTemplateGallery } from './TriggerTemplateGallery'
 export { TriggersList } from './TriggersList'
 
 // Utility organisms
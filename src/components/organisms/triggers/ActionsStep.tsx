@@ -2,7 +2,8 @@
  * ActionsStep
  *
  * Step 3 of the trigger creation wizard. Allows users to configure
- * one or more actions that execute when trigger conditions are met.
+ * one or more actions that execute when trigger conditions are met, with
+ * a live preview of each action's templates against the trigger's events.
  *
  * @module components/organisms/triggers/ActionsStep
  *
@@ -30,6 +31,8 @@ interface ActionsStepProps {
 }
 
 export function ActionsStep({ form }: ActionsStepProps) {
+  const [chainId, registry, triggerName] = form.watch(['chainId', 'registry', 'name'])
+
   return (
     <Box variant="secondary" padding="md" className="space-y-6">
       <div className="typo-ui text-terminal-green glow mb-4">
@@ -66,6 +69,7 @@ export function ActionsStep({ form }: ActionsStepProps) {
                     field.onChange(newActions)
                   }}
                   canRemove={(field.value?.length ?? 0) > 1}
+                  previewContext={{ chainId: Number(chainId) || undefined, registry, triggerName }}
                 />
               ))}
             </div>
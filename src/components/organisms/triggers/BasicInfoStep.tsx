@@ -2,7 +2,8 @@
  * BasicInfoStep
  *
  * Step 1 of the trigger creation wizard. Collects basic trigger
- * information including name, description, blockchain, and stateful mode.
+ * information including name, description, blockchain, and stateful mode
+ * with its window, counter, cooldown and reset settings.
  *
  * @module components/organisms/triggers/BasicInfoStep
  *
@@ -27,7 +28,9 @@ import { Input } from '@/components/atoms/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/atoms/select'
 import { Textarea } from '@/components/atoms/textarea'
 import { CHAIN_NAMES, TESTNET_CHAINS } from '@/lib/constants'
+import { DEFAULT_TRIGGER_STATE_CONFIG } from '@/lib/trigger-state'
 import type { CreateTriggerFormValues } from '@/lib/validations/trigger'
+import { StateConfigFields } from './StateConfigFields'
 
 /**
  * Props for the BasicInfoStep component.
@@ -38,6 +41,17 @@ interface BasicInfoStepProps {
 }
 
 export function BasicInfoStep({ form }: BasicInfoStepProps) {
+  const isStateful = form.watch('isStateful')
+
+  const handleStatefulChange = (checked: boolean) => {
+    form.setValue('isStateful', checked)
+    // State settings are only sent for stateful triggers
+    form.setValue(
+      'stateConfig',
+      checked ? (form.getValues('stateConfig') ?? DEFAULT_TRIGGER_STATE_CONFIG) : undefined
+    )
+  }
+
   return (
     <Box variant="secondary" padding="md" className="space-y-6">
       <div className="typo-ui text-terminal-green glow mb-4">
@@ -128,19 +142,23 @@ export function BasicInfoStep({ form }: BasicInfoStepProps) {
               <input
                 type="checkbox"
                 checked={field.value}
-                onChange={field.onChange}
+                onChange={(e) => handleStatefulChange(e.target.checked)}
                 className="w-4 h-4"
               />
             </FormControl>
             <div className="flex-1">
               <FormLabel className="typo-ui">STATEFUL TRIGGER</FormLabel>
               <FormDescription className="typo-ui">
-                Remember past events to avoid duplicate processing
+                Remember past events between executions: fire only after several matches
+                within a time window (e.g. 3 negative feedbacks in 24h), and debounce repeat
+                alerts with a cooldown. Enables threshold and time window conditions.
               </FormDescription>
             </div>
           </FormItem>
         )}
       />
+
+      {isStateful && <StateConfigFields form={form} />}
     </Box>
   )
 }
@@ -3,6 +3,8 @@
  *
  * Step 2 of the trigger creation wizard. Allows users to select an event type
  * and optionally add advanced field filters to narrow down trigger conditions.
+ * Filters are combined with AND; condition groups add OR/NOT logic. Custom
+ * filter fields come from the selected event type's schema.
  *
  * @module components/organisms/triggers/ConditionsStep
  *
@@ -23,8 +25,12 @@ import { Input } from '@/components/atoms/input'
 import { Label } from '@/components/atoms/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/atoms/select'
 import { Textarea } from '@/components/atoms/textarea'
-import { EVENT_TYPES, EVENT_TYPE_INFO, type EventType, type Registry } from '@/lib/constants'
-import type { CreateTriggerFormValues } from '@/lib/validations/trigger'
+import { isConditionGroup } from '@/lib/condition-tree'
+import { getConditionFieldOptions, getOperatorLabel } from '@/lib/config-helpers'
+import { EVENT_CATALOG, EVENT_TYPE_LIST, type EventType, getEventTypeInfo } from '@/lib/event-catalog'
+import { findEventField, getFieldOperators, validateConditionValue } from '@/lib/event-schemas'
+import type { CreateConditionGroupInput, CreateTriggerFormValues } from '@/lib/validations/trigger'
+import { ConditionGroupBuilder, createConditionGroup } from '../ConditionGroupBuilder'
 
 /**
  * Props for the ConditionsStep component.
@@ -42,14 +48,19 @@ interface FieldFilter {
   value: string
 }
 
-const EVENT_TYPE_LIST = Object.values(EVENT_TYPES) as EventType[]
-
 export function ConditionsStep({ form }: ConditionsStepProps) {
   const [showFilters, setShowFilters] = useState(false)
   const [filters, setFilters] = useState<FieldFilter[]>([])
   const [selectedEventType, setSelectedEventType] = useState<EventType | ''>('')
+  const [groups, setGroups] = useState<CreateConditionGroupInput[]>(() =>
+    (form.getValues('conditions') ?? []).flatMap((c) => (isConditionGroup(c) ? [c] : []))
+  )
 
-  const updateConditions = (eventType: string, fieldFilters: FieldFilter[]) => {
+  const updateConditions = (
+    eventType: string,
+    fieldFilters: FieldFilter[],
+    conditionGroups: CreateConditionGroupInput[] = groups
+  ) => {
     if (!eventType) {
       form.setValue('conditions', [])
       return
@@ -74,10 +85,17 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
           value: f.value,
           config: {},
         })),
+      // Nested AND/OR/NOT groups
+      ...conditionGroups,
     ]
     form.setValue('conditions', conditions)
   }
 
+  const updateGroups = (newGroups: CreateConditionGroupInput[]) => {
+    setGroups(newGroups)
+    updateConditions(selectedEventType, filters, newGroups)
+  }
+
   const addFilter = () => {
     const newFilter: FieldFilter = { field: '', operator: 'eq', value: '' }
     const newFilters = [...filters, newFilter]
@@ -103,13 +121,11 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
     updateConditions(value, filters)
 
     // Auto-set registry based on event type
-    const eventInfo = EVENT_TYPE_INFO[value]
-    if (eventInfo) {
-      form.setValue('registry', eventInfo.registry as Registry)
-    }
+    form.setValue('registry', EVENT_CATALOG[value].registry)
   }
 
-  const selectedInfo = selectedEventType ? EVENT_TYPE_INFO[selectedEventType] : null
+  const selectedInfo = selectedEventType ? getEventTypeInfo(selectedEventType) : undefined
+  const customFieldOptions = getConditionFieldOptions('field_comparison', selectedEventType)
 
   return (
     <Box variant="secondary" padding="md" className="space-y-6">
@@ -132,7 +148,7 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
                     {EVENT_TYPE_LIST.map((eventType) => (
                       <SelectItem key={eventType} value={eventType} className="typo-ui">
                         <div className="flex items-center gap-2">
-                          <Icon name="lightning" size="sm" />
+                          <Icon name={EVENT_CATALOG[eventType].icon} size="sm" />
                           <span>{eventType}</span>
                         </div>
                       </SelectItem>
@@ -143,7 +159,7 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
                 {selectedInfo && (
                   <Box variant="subtle" padding="sm">
                     <div className="flex items-start gap-2">
-                      <Icon name="lightning" size="md" className="text-terminal-green" />
+                      <Icon name={selectedInfo.icon} size="md" className="text-terminal-green" />
                       <div className="flex-1 space-y-1">
                         <div className="typo-ui text-terminal-green">{selectedEventType}</div>
                         <div className="typo-ui text-terminal-dim">{selectedInfo.description}</div>
@@ -274,17 +290,35 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
                 .filter((f) => !['score', 'agent_address'].includes(f.field))
                 .map((filter) => {
                   const actualIndex = filters.indexOf(filter)
+                  const fieldDefinition = findEventField(filter.field, selectedEventType)
+                  const valueError =
+                    fieldDefinition && filter.value
+                      ? validateConditionValue(fieldDefinition, filter.operator, filter.value)
+                      : null
                   return (
                     <Box key={actualIndex} variant="subtle" padding="sm">
                       <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
                         <div className="space-y-1">
                           <Label className="typo-ui">FIELD</Label>
-                          <Input
+                          <Select
                             value={filter.field}
-                            onChange={(e) => updateFilter(actualIndex, { ...filter, field: e.target.value })}
-                            placeholder="e.g., metadata.type"
-                            className="typo-code"
-                          />
+                            onValueChange={(field) => {
+                              const allowed = getFieldOperators(findEventField(field, selectedEventType))
+                              const operator = allowed.includes(filter.operator) ? filter.operator : allowed[0]
+                              updateFilter(actualIndex, { field, operator: operator ?? 'eq', value: '' })
+                            }}
+                          >
+                            <SelectTrigger className="typo-code">
+                              <SelectValue placeholder="Select field..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {customFieldOptions.map((option) => (
+                                <SelectItem key={option.value} value={option.value} className="typo-ui">
+                                  {option.label} ({option.type})
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
                         <div className="space-y-1">
                           <Label className="typo-ui">OPERATOR</Label>
@@ -296,13 +330,11 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="eq" className="typo-ui">= (equals)</SelectItem>
-                              <SelectItem value="ne" className="typo-ui">≠ (not equals)</SelectItem>
-                              <SelectItem value="gt" className="typo-ui">&gt; (greater)</SelectItem>
-                              <SelectItem value="gte" className="typo-ui">≥ (greater or equal)</SelectItem>
-                              <SelectItem value="lt" className="typo-ui">&lt; (less)</SelectItem>
-                              <SelectItem value="lte" className="typo-ui">≤ (less or equal)</SelectItem>
-                              <SelectItem value="contains" className="typo-ui">contains</SelectItem>
+                              {getFieldOperators(findEventField(filter.field, selectedEventType)).map((op) => (
+                                <SelectItem key={op} value={op} className="typo-ui">
+                                  {getOperatorLabel(op)}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </div>
@@ -325,6 +357,7 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
                           <Icon name="close" size="sm" />
                         </Button>
                       </div>
+                      {valueError && <p className="typo-ui text-destructive mt-2">{valueError}</p>}
                     </Box>
                   )
                 })}
@@ -333,6 +366,35 @@ export function ConditionsStep({ form }: ConditionsStepProps) {
                 ADD CUSTOM FILTER
               </Button>
             </div>
+
+            {/* Condition Groups */}
+            <div className="space-y-3">
+              <div className="typo-ui text-terminal-dim">&gt; CONDITION GROUPS</div>
+              <p className="typo-ui text-terminal-dim/70">
+                Match any (OR) or none (NOT) of a set of conditions. Groups can be nested.
+              </p>
+              {groups.map((group, index) => (
+                <ConditionGroupBuilder
+                  key={group._key ?? `group-${index}`}
+                  group={group}
+                  onChange={(updated) =>
+                    updateGroups(groups.map((g, i) => (i === index ? updated : g)))
+                  }
+                  onRemove={() => updateGroups(groups.filter((_, i) => i !== index))}
+                  eventType={selectedEventType || undefined}
+                />
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => updateGroups([...groups, createConditionGroup('or')])}
+                className="typo-ui"
+              >
+                <Icon name="add" size="sm" className="mr-1" />
+                ADD CONDITION GROUP
+              </Button>
+            </div>
           </div>
         )}
       </div>
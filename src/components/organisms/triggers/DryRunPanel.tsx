@@ -0,0 +1,261 @@
+/**
+ * DryRunPanel
+ *
+ * Evaluates the trigger's conditions against the most recent events for
+ * its chain and registry, showing which events would have fired it and
+ * which missed by a single condition. Runs entirely client-side; no
+ * actions are executed. Watchlist conditions are checked against the
+ * organization's current watchlists.
+ *
+ * @module components/organisms/triggers/DryRunPanel
+ *
+ * @example
+ * ```tsx
+ * <DryRunPanel chainId={1} registry="reputation" conditions={values.conditions} />
+ * ```
+ */
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Box } from '@/components/atoms/box'
+import { Button } from '@/components/atoms/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { ApiErrorDisplay, LoadingSkeleton } from '@/components/molecules'
+import { useEvents, useWatchlists } from '@/hooks'
+import {
+  type ConditionEvaluation,
+  dryRunConditions,
+  type EvaluableConditionNode,
+  type EventEvaluation,
+} from '@/lib/condition-evaluator'
+import { formatConditionNode, isConditionGroup } from '@/lib/condition-tree'
+import type { Registry } from '@/lib/constants'
+import { formatDateTime } from '@/lib/format'
+import { sanitizeConfigValue, sanitizeHtml } from '@/lib/sanitize'
+import { EventCard } from '../EventCard'
+
+/** Selectable number of recent events to evaluate */
+const SAMPLE_SIZES = [25, 50, 100] as const
+
+/** Maximum events listed per result section */
+const MAX_LISTED = 5
+
+/**
+ * Props for the DryRunPanel component.
+ */
+interface DryRunPanelProps {
+  /** Chain the trigger listens on */
+  chainId: number
+  /** Registry the trigger listens on */
+  registry: Registry
+  /** Conditions or groups to evaluate */
+  conditions: EvaluableConditionNode[]
+}
+
+function FailedCondition({ result }: { result: ConditionEvaluation }) {
+  return (
+    <div className="typo-ui text-terminal-dim">
+      FAILED:{' '}
+      <span className="text-destructive">
+        {sanitizeHtml(formatConditionNode(result.condition))}
+      </span>
+      {!isConditionGroup(result.condition) && (
+        <>
+          {' '}
+          (ACTUAL:{' '}
+          {result.actual === undefined ? (
+            'MISSING'
+          ) : (
+            <span className="text-terminal-green">{sanitizeConfigValue(result.actual)}</span>
+          )}
+          )
+        </>
+      )}
+    </div>
+  )
+}
+
+function EvaluationList({
+  title,
+  evaluations,
+  emptyMessage,
+}: {
+  title: string
+  evaluations: EventEvaluation[]
+  emptyMessage: string
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="typo-ui text-terminal-dim">
+        &gt; {title} ({evaluations.length})
+      </div>
+      {evaluations.length === 0 ? (
+        <div className="typo-ui text-terminal-dim">{emptyMessage}</div>
+      ) : (
+        <>
+          {evaluations.slice(0, MAX_LISTED).map((evaluation) => {
+            const failed = evaluation.results.find((r) => !r.matched)
+            return (
+              <div key={evaluation.event.id} className="space-y-1">
+                <EventCard event={evaluation.event} compact />
+                {failed && <FailedCondition result={failed} />}
+              </div>
+            )
+          })}
+          {evaluations.length > MAX_LISTED && (
+            <div className="typo-ui text-terminal-dim">
+              ...and {evaluations.length - MAX_LISTED} more
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function DryRunResults({
+  chainId,
+  registry,
+  conditions,
+  sampleSize,
+}: DryRunPanelProps & { sampleSize: number }) {
+  const { data, isLoading, error } = useEvents({ chainId, registry, limit: sampleSize })
+  const { data: watchlists } = useWatchlists()
+
+  const result = useMemo(
+    () =>
+      dryRunConditions(conditions, data?.data ?? [], {
+        watchlists: Object.fromEntries((watchlists ?? []).map((w) => [w.id, w.agents])),
+      }),
+    [conditions, data, watchlists]
+  )
+
+  if (isLoading) {
+    return <LoadingSkeleton count={3} height={48} />
+  }
+
+  if (error) {
+    return (
+      <ApiErrorDisplay
+        error={error instanceof Error ? error : new Error('An unexpected error occurred')}
+        title="ERROR LOADING EVENTS"
+      />
+    )
+  }
+
+  if (result.total === 0) {
+    return (
+      <div className="typo-ui text-terminal-dim">
+        No recent events on this chain and registry to evaluate.
+      </div>
+    )
+  }
+
+  const oldest = data?.data[data.data.length - 1]
+
+  return (
+    <div className="space-y-4" data-slot="dry-run-results">
+      <div className="typo-ui">
+        <span className="text-terminal-green glow">
+          {result.matches.length}/{result.total}
+        </span>{' '}
+        <span className="text-terminal-dim">
+          RECENT EVENTS WOULD HAVE FIRED THIS TRIGGER
+          {oldest && ` (SINCE ${formatDateTime(oldest.timestamp)})`}
+        </span>
+      </div>
+
+      {/* Per-condition breakdown */}
+      <div className="space-y-1">
+        <div className="typo-ui text-terminal-dim">&gt; PER CONDITION</div>
+        {result.conditions.map((stats, index) => (
+          <div
+            // biome-ignore lint/suspicious/noArrayIndexKey: conditions have no stable identity in form state
+            key={index}
+            className="flex flex-wrap items-center justify-between gap-2 typo-ui"
+          >
+            <span className="text-terminal-green">
+              [{index + 1}] {sanitizeHtml(formatConditionNode(stats.condition))}
+            </span>
+            <span className="text-terminal-dim">
+              {stats.matched}/{result.total} MATCH
+              {stats.blockedAlone > 0 && ` · ${stats.blockedAlone} BLOCKED ONLY BY THIS`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <EvaluationList
+        title="MATCHES"
+        evaluations={result.matches}
+        emptyMessage="No recent events match all conditions"
+      />
+      {result.conditions.length > 1 && (
+        <EvaluationList
+          title="NEAR-MISSES"
+          evaluations={result.nearMisses}
+          emptyMessage="No events failed only a single condition"
+        />
+      )}
+    </div>
+  )
+}
+
+export function DryRunPanel({ chainId, registry, conditions }: DryRunPanelProps) {
+  const [sampleSize, setSampleSize] = useState<number>(SAMPLE_SIZES[1])
+  const [hasRun, setHasRun] = useState(false)
+
+  return (
+    <Box variant="subtle" padding="md" className="space-y-4" data-slot="dry-run-panel">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="typo-ui text-terminal-green">&gt; DRY RUN</div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(sampleSize)}
+            onValueChange={(value) => setSampleSize(Number(value))}
+          >
+            <SelectTrigger className="typo-ui w-36" aria-label="Number of events">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SAMPLE_SIZES.map((size) => (
+                <SelectItem key={size} value={String(size)} className="typo-ui">
+                  LAST {size}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="typo-ui"
+            onClick={() => setHasRun(true)}
+            disabled={hasRun || conditions.length === 0}
+          >
+            [RUN]
+          </Button>
+        </div>
+      </div>
+
+      {hasRun ? (
+        <DryRunResults
+          chainId={chainId}
+          registry={registry}
+          conditions={conditions}
+          sampleSize={sampleSize}
+        />
+      ) : (
+        <div className="typo-ui text-terminal-dim">
+          Check which recent events these conditions would have matched. No actions are executed.
+        </div>
+      )}
+    </Box>
+  )
+}
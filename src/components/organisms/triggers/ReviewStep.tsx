@@ -2,7 +2,10 @@
  * ReviewStep
  *
  * Step 4 of the trigger creation wizard. Displays a summary of all
- * configured trigger settings for review before submission.
+ * configured trigger settings for review before submission, including
+ * the condition tree with its AND/OR/NOT groups, stateful settings, a
+ * dry run of the conditions against recent events, and a preview of each
+ * action's destination and message template.
  *
  * @module components/organisms/triggers/ReviewStep
  *
@@ -16,8 +19,12 @@
 import type { UseFormReturn } from 'react-hook-form'
 import { Box } from '@/components/atoms/box'
 import type { Registry } from '@/lib/constants'
-import { ChainBadge, RegistryBadge } from '@/components/molecules'
-import type { CreateTriggerFormValues } from '@/lib/validations/trigger'
+import { ChainBadge, ConditionTreeView, RegistryBadge } from '@/components/molecules'
+import { countConditions } from '@/lib/condition-tree'
+import { getActionTypeLabel } from '@/lib/config-helpers'
+import { describeStateConfig } from '@/lib/trigger-state'
+import { type CreateTriggerFormValues, triggerStateConfigSchema } from '@/lib/validations/trigger'
+import { DryRunPanel } from './DryRunPanel'
 
 /**
  * Props for the ReviewStep component.
@@ -27,8 +34,42 @@ interface ReviewStepProps {
   form: UseFormReturn<CreateTriggerFormValues>
 }
 
+/**
+ * Destination and message template of an action, by action type
+ */
+function getActionPreview(
+  actionType: string,
+  config: Record<string, unknown>
+): { target: string; message?: string } {
+  const text = (key: string) => (typeof config[key] === 'string' ? (config[key] as string) : '')
+  switch (actionType) {
+    case 'telegram':
+      return { target: `Chat ${text('chatId') || '--'}`, message: text('message') }
+    case 'rest':
+      return { target: `${text('method') || 'POST'} ${text('url') || '--'}`, message: text('body') }
+    case 'mcp':
+      return { target: text('command') || '--', message: text('parameters') }
+    case 'email': {
+      const to = Array.isArray(config.to) ? config.to.join(', ') : ''
+      return {
+        target: `To ${to || '--'}`,
+        message: [text('subject'), text('body')].filter(Boolean).join('\n\n'),
+      }
+    }
+    case 'slack':
+      return { target: text('channel') || 'Webhook default channel', message: text('message') }
+    case 'discord':
+      return { target: text('username') || 'Webhook default name', message: text('content') }
+    default:
+      return { target: '--' }
+  }
+}
+
 export function ReviewStep({ form }: ReviewStepProps) {
   const values = form.getValues()
+  const stateConfig = values.stateConfig
+    ? triggerStateConfigSchema.safeParse(values.stateConfig)
+    : undefined
 
   return (
     <Box variant="secondary" padding="md" className="space-y-6">
@@ -51,26 +92,53 @@ export function ReviewStep({ form }: ReviewStepProps) {
           </div>
         </Box>
 
+        {values.isStateful && (
+          <Box variant="subtle" padding="md">
+            <div className="typo-ui text-terminal-green mb-2">&gt; STATEFUL</div>
+            <div className="typo-ui text-terminal-dim">
+              {stateConfig?.success
+                ? `Fires on ${describeStateConfig(stateConfig.data)}`
+                : 'Remembers past events between executions'}
+            </div>
+          </Box>
+        )}
+
         <Box variant="subtle" padding="md">
           <div className="typo-ui text-terminal-green mb-2">
-            &gt; CONDITIONS ({values.conditions.length})
+            &gt; CONDITIONS ({countConditions(values.conditions)})
           </div>
-          {values.conditions.map((condition: Record<string, unknown>, index: number) => (
-            <div key={index} className="typo-ui text-terminal-dim mb-1">
-              [{index + 1}] {String(condition.field)} {String(condition.operator)} {String(condition.value)}
-            </div>
-          ))}
+          <ConditionTreeView conditions={values.conditions} />
         </Box>
 
+        <DryRunPanel
+          chainId={values.chainId as number}
+          registry={values.registry as Registry}
+          conditions={values.conditions}
+        />
+
         <Box variant="subtle" padding="md">
           <div className="typo-ui text-terminal-green mb-2">
             &gt; ACTIONS ({values.actions.length})
           </div>
-          {values.actions.map((action: Record<string, unknown>, index: number) => (
-            <div key={index} className="typo-ui text-terminal-dim mb-1">
-              [{index + 1}] {String(action.actionType).toUpperCase()} (Priority: {String(action.priority)})
-            </div>
-          ))}
+          <div className="space-y-3">
+            {values.actions.map((action, index) => {
+              const preview = getActionPreview(action.actionType, action.config)
+              return (
+                <div key={action._key ?? index} className="typo-ui">
+                  <div className="text-terminal-dim">
+                    [{index + 1}] {getActionTypeLabel(action.actionType).toUpperCase()} (Priority:{' '}
+                    {String(action.priority ?? 0)})
+                  </div>
+                  <div className="text-terminal-green pl-4 break-all">&gt; {preview.target}</div>
+                  {preview.message && (
+                    <pre className="typo-code text-terminal-dim pl-4 whitespace-pre-wrap break-words line-clamp-4">
+                      {preview.message}
+                    </pre>
+                  )}
+                </div>
+              )
+            })}
+          </div>
         </Box>
       </div>
     </Box>
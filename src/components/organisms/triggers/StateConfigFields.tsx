@@ -0,0 +1,203 @@
+/**
+ * StateConfigFields
+ *
+ * Settings for stateful triggers, shown in the basic info step once
+ * "stateful" is checked: a rolling time window, how many matching events
+ * are needed to fire, a cooldown between fires, whether state is tracked
+ * per agent, and when counters reset.
+ *
+ * @module components/organisms/triggers/StateConfigFields
+ *
+ * @example
+ * ```tsx
+ * {form.watch('isStateful') && <StateConfigFields form={form} />}
+ * ```
+ */
+'use client'
+
+import type { UseFormReturn } from 'react-hook-form'
+import { Box } from '@/components/atoms/box'
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/atoms/form'
+import { Input } from '@/components/atoms/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/atoms/select'
+import { DurationInput } from '@/components/molecules'
+import {
+  DEFAULT_TRIGGER_STATE_CONFIG,
+  describeStateConfig,
+  STATE_RESET_POLICY_INFO,
+  STATE_SCOPE_LABELS,
+} from '@/lib/trigger-state'
+import {
+  type CreateTriggerFormValues,
+  TRIGGER_STATE_RESET_POLICIES,
+  TRIGGER_STATE_SCOPES,
+  triggerStateConfigSchema,
+} from '@/lib/validations/trigger'
+
+/**
+ * Props for the StateConfigFields component.
+ */
+interface StateConfigFieldsProps {
+  /** React Hook Form instance for the trigger form */
+  form: UseFormReturn<CreateTriggerFormValues>
+}
+
+export function StateConfigFields({ form }: StateConfigFieldsProps) {
+  const stateConfig = form.watch('stateConfig')
+  const parsed = triggerStateConfigSchema.safeParse(stateConfig ?? DEFAULT_TRIGGER_STATE_CONFIG)
+
+  return (
+    <Box variant="subtle" padding="md" className="space-y-4" data-slot="state-config-fields">
+      <div className="typo-ui text-terminal-green">&gt; STATE SETTINGS</div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <FormField
+          control={form.control}
+          name="stateConfig.windowSeconds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="typo-ui">TIME WINDOW</FormLabel>
+              <FormControl>
+                <DurationInput
+                  value={field.value}
+                  onChange={field.onChange}
+                  placeholder="No window"
+                  allowEmpty
+                />
+              </FormControl>
+              <FormDescription className="typo-ui">
+                Rolling window matching events are counted in (empty = since last reset)
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="stateConfig.countThreshold"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="typo-ui">EVENT COUNT</FormLabel>
+              <FormControl>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="1"
+                  value={field.value ?? ''}
+                  onChange={(e) =>
+                    field.onChange(
+                      e.target.value === '' ? null : Number.parseInt(e.target.value, 10)
+                    )
+                  }
+                  className="typo-ui"
+                />
+              </FormControl>
+              <FormDescription className="typo-ui">
+                Matching events needed before the trigger fires
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="stateConfig.cooldownSeconds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="typo-ui">COOLDOWN</FormLabel>
+              <FormControl>
+                <DurationInput
+                  value={field.value ?? 0}
+                  onChange={(seconds) => field.onChange(seconds ?? 0)}
+                  placeholder="0"
+                />
+              </FormControl>
+              <FormDescription className="typo-ui">
+                Minimum time between two fires (0 = no debounce)
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="stateConfig.scope"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel className="typo-ui">TRACK STATE</FormLabel>
+              <Select value={field.value ?? 'agent'} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="typo-ui">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {TRIGGER_STATE_SCOPES.map((scope) => (
+                    <SelectItem key={scope} value={scope} className="typo-ui">
+                      {STATE_SCOPE_LABELS[scope]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription className="typo-ui">
+                Separate counters and cooldowns for each agent, or one for the trigger
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      <FormField
+        control={form.control}
+        name="stateConfig.resetPolicy"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel className="typo-ui">RESET POLICY</FormLabel>
+            <Select value={field.value ?? 'on_fire'} onValueChange={field.onChange}>
+              <FormControl>
+                <SelectTrigger className="typo-ui">
+                  <SelectValue />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                {TRIGGER_STATE_RESET_POLICIES.map((policy) => (
+                  <SelectItem key={policy} value={policy} className="typo-ui">
+                    {STATE_RESET_POLICY_INFO[policy].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormDescription className="typo-ui">
+              {STATE_RESET_POLICY_INFO[field.value ?? 'on_fire'].description}
+            </FormDescription>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {parsed.success && (
+        <div className="typo-ui text-terminal-dim border-t-2 border-terminal-dim pt-3">
+          &gt; Fires on{' '}
+          <span className="text-terminal-green">{describeStateConfig(parsed.data)}</span>
+        </div>
+      )}
+    </Box>
+  )
+}
@@ -3,3 +3,7 @@ export { BasicInfoStep } from './BasicInfoStep'
 export { ConditionsStep } from './ConditionsStep'
 export { ActionsStep } from './ActionsStep'
 export { ReviewStep } from './ReviewStep'
+
+// Trigger form step panels
+export { DryRunPanel } from './DryRunPanel'
+export { StateConfigFields } from './StateConfigFields'
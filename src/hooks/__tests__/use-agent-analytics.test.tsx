@@ -0,0 +1,137 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { MAX_ANALYTICS_EVENTS, useAgentAnalytics } from '../use-agent-analytics'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+// Mock the organization store
+vi.mock('@/stores/organization-store', () => ({
+  useOrganizationStore: () => ({
+    currentOrganizationId: TEST_ORG_ID,
+    isHydrated: true,
+  }),
+}))
+
+describe('use-agent-analytics hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const makeEvent = (index: number, eventType: string, data: Record<string, unknown>) => ({
+    id: `550e8400-e29b-41d4-a716-4466554${String(index).padStart(5, '0')}`,
+    eventType,
+    agentId: 123,
+    chainId: 11155111,
+    registry: eventType.startsWith('Validation') ? 'validation' : 'reputation',
+    blockNumber: 12345678 + index,
+    transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+    data,
+    timestamp: new Date(Date.now() - (index + 1) * 60 * 1000).toISOString(),
+    createdAt: new Date().toISOString(),
+  })
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+      },
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  describe('useAgentAnalytics', () => {
+    it('should load every page in the range and aggregate it', async () => {
+      const requests: URLSearchParams[] = []
+      const pages = [
+        [
+          makeEvent(0, 'ReputationUpdated', { score: 90 }),
+          makeEvent(1, 'ReputationUpdated', { score: 80 }),
+        ],
+        [makeEvent(2, 'ValidationCompleted', { response: 30 })],
+      ]
+
+      server.use(
+        http.get(`${baseUrl}/events`, ({ request }) => {
+          const params = new URL(request.url).searchParams
+          requests.push(params)
+          const page = requests.length - 1
+          return HttpResponse.json({
+            data: pages[page] ?? [],
+            pagination: { total: 3, limit: 100, offset: page * 2, has_more: page === 0 },
+          })
+        })
+      )
+
+      const { result } = renderHook(() => useAgentAnalytics(123, 11155111, '7d'), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(requests).toHaveLength(2)
+      expect(requests[0]?.get('agentId')).toBe('123')
+      expect(requests[0]?.has('fromDate')).toBe(true)
+      expect(requests[1]?.get('offset')).toBe('2')
+      expect(result.current.data).toMatchObject({
+        totalEvents: 3,
+        currentScore: 90,
+        scoreChange: 10,
+        validation: { passed: 0, failed: 1 },
+        isTruncated: false,
+      })
+    })
+
+    it('should stop at the event cap and flag the result as truncated', async () => {
+      let calls = 0
+      server.use(
+        http.get(`${baseUrl}/events`, () => {
+          calls++
+          return HttpResponse.json({
+            data: Array.from({ length: 100 }, (_, index) =>
+              makeEvent(index, 'AgentRegistered', {})
+            ),
+            pagination: { total: 5000, limit: 100, offset: 0, has_more: true },
+          })
+        })
+      )
+
+      const { result } = renderHook(() => useAgentAnalytics(123, 11155111, 'all'), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(calls).toBe(MAX_ANALYTICS_EVENTS / 100)
+      expect(result.current.data?.isTruncated).toBe(true)
+      expect(result.current.data?.totalEvents).toBe(MAX_ANALYTICS_EVENTS)
+    })
+
+    it('should not fetch without an agent', () => {
+      const { result } = renderHook(() => useAgentAnalytics(null, 11155111, '24h'), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+  })
+})
@@ -3,16 +3,20 @@ import { renderHook, waitFor } from '@testing-library/react'
 import { HttpResponse, http } from 'msw'
 import type { ReactNode } from 'react'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { toast } from 'sonner'
 import { server } from '@/test/setup'
 import { API_BASE_URL, API_VERSION } from '@/lib/constants'
 import {
   useApiKeys,
   useApiKey,
   useApiKeyStats,
+  useApiKeyUsage,
   useCreateApiKey,
   useUpdateApiKey,
   useDeleteApiKey,
   useRegenerateApiKey,
+  useRotateApiKey,
+  useUpdateApiKeyRotationPolicy,
 } from '../use-api-keys'
 
 const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
@@ -132,6 +136,49 @@ describe('use-api-keys hooks', () => {
     })
   })
 
+  describe('useApiKeyUsage', () => {
+    it('should fetch usage for the selected range', async () => {
+      server.use(
+        http.get(`${baseUrl}/api-keys/${mockApiKey.id}/usage`, ({ request }) => {
+          const range = new URL(request.url).searchParams.get('range')
+          return HttpResponse.json({
+            data: {
+              key_id: mockApiKey.id,
+              range,
+              total_requests: range === '30d' ? 900 : 30,
+              error_requests: 0,
+              rate_limited_requests: 0,
+              series: [],
+              top_endpoints: [],
+              status_codes: {},
+              latency_ms: null,
+              last_seen: null,
+            },
+          })
+        })
+      )
+
+      const { result } = renderHook(() => useApiKeyUsage(mockApiKey.id, '30d'), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.range).toBe('30d')
+      expect(result.current.data?.totalRequests).toBe(900)
+    })
+
+    it('should not fetch when keyId is null', () => {
+      const { result } = renderHook(() => useApiKeyUsage(null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+  })
+
   describe('useApiKeyStats', () => {
     // Match apiKeyStatsSchema backend response
     const mockStatsResponse = {
@@ -381,4 +428,59 @@ describe('use-api-keys hooks', () => {
       })
     })
   })
+
+  describe('useRotateApiKey', () => {
+    it('should rotate API key with a grace period', async () => {
+      server.use(
+        http.post(`${baseUrl}/api-keys/${mockApiKey.id}/rotate`, () => {
+          return HttpResponse.json({ apiKey: mockApiKey, key: '8004_prod123.newkey789' })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const { result } = renderHook(() => useRotateApiKey(), {
+        wrapper: createWrapper(),
+      })
+
+      result.current.mutate({ keyId: mockApiKey.id, gracePeriodHours: 72 })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(toast.success).toHaveBeenCalledWith(
+        'API key rotated. The previous key keeps working for 3 days'
+      )
+    })
+  })
+
+  describe('useUpdateApiKeyRotationPolicy', () => {
+    it('should disable auto-rotation when the policy is null', async () => {
+      let disabled = false
+      server.use(
+        http.delete(`${baseUrl}/api-keys/${mockApiKey.id}/rotation-policy`, () => {
+          disabled = true
+          return new HttpResponse(null, { status: 204 })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const { result } = renderHook(() => useUpdateApiKeyRotationPolicy(), {
+        wrapper: createWrapper(),
+      })
+
+      result.current.mutate({ keyId: mockApiKey.id, policy: null })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(disabled).toBe(true)
+      expect(toast.success).toHaveBeenCalledWith('Auto-rotation disabled')
+    })
+  })
 })
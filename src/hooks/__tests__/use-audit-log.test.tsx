@@ -0,0 +1,141 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { toast } from 'sonner'
+import { server } from '@/test/setup'
+import { MAX_AUDIT_LOG_EXPORT_ENTRIES } from '@/lib/audit-log'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { useAuditLog, useExportAuditLog } from '../use-audit-log'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+
+// Mock sonner toast
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+    warning: vi.fn(),
+  },
+}))
+
+describe('use-audit-log hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const mockOrgId = '550e8400-e29b-41d4-a716-446655440000'
+
+  const mockEntry = (index: number) => ({
+    id: `550e8400-e29b-41d4-a716-${String(index).padStart(12, '0')}`,
+    organization_id: mockOrgId,
+    action: 'trigger.updated',
+    actor: null,
+    resource_type: 'trigger',
+    created_at: '2025-01-01T00:00:00Z',
+  })
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+      },
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+    vi.clearAllMocks()
+  })
+
+  describe('useAuditLog', () => {
+    it('should load older pages using the cursor', async () => {
+      const cursors: (string | null)[] = []
+
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/audit-log`, ({ request }) => {
+          const cursor = new URL(request.url).searchParams.get('cursor')
+          cursors.push(cursor)
+          return cursor
+            ? HttpResponse.json({ data: [mockEntry(2)], next_cursor: null })
+            : HttpResponse.json({ data: [mockEntry(1)], next_cursor: 'cursor_2' })
+        })
+      )
+
+      const { result } = renderHook(() => useAuditLog(mockOrgId), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true))
+      expect(result.current.hasNextPage).toBe(true)
+
+      await act(() => result.current.fetchNextPage())
+
+      await waitFor(() => expect(result.current.data?.pages).toHaveLength(2))
+      expect(result.current.hasNextPage).toBe(false)
+      expect(cursors).toEqual([null, 'cursor_2'])
+    })
+
+    it('should not fetch without an organization', () => {
+      const { result } = renderHook(() => useAuditLog(null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+  })
+
+  describe('useExportAuditLog', () => {
+    it('should collect every page matching the filters', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/audit-log`, ({ request }) => {
+          const params = new URL(request.url).searchParams
+          expect(params.get('resourceType')).toBe('trigger')
+          return params.get('cursor')
+            ? HttpResponse.json({ data: [mockEntry(2)], next_cursor: null })
+            : HttpResponse.json({ data: [mockEntry(1)], next_cursor: 'cursor_2' })
+        })
+      )
+
+      const { result } = renderHook(() => useExportAuditLog(mockOrgId), {
+        wrapper: createWrapper(),
+      })
+
+      const exported = await result.current.mutateAsync({ resourceType: 'trigger' })
+
+      expect(exported.entries).toHaveLength(2)
+      expect(exported.truncated).toBe(false)
+      await waitFor(() =>
+        expect(toast.success).toHaveBeenCalledWith('Exported 2 audit log entries')
+      )
+    })
+
+    it('should stop at the export limit and warn', async () => {
+      const page = Array.from({ length: 200 }, (_, index) => mockEntry(index))
+
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/audit-log`, () => {
+          return HttpResponse.json({ data: page, next_cursor: 'more' })
+        })
+      )
+
+      const { result } = renderHook(() => useExportAuditLog(mockOrgId), {
+        wrapper: createWrapper(),
+      })
+
+      const exported = await result.current.mutateAsync({})
+
+      expect(exported.entries).toHaveLength(MAX_AUDIT_LOG_EXPORT_ENTRIES)
+      expect(exported.truncated).toBe(true)
+      await waitFor(() => expect(toast.warning).toHaveBeenCalled())
+    })
+  })
+})
@@ -0,0 +1,329 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { queryKeys } from '@/lib/query-keys'
+import type { Trigger } from '@/lib/validations/trigger'
+import { summarizeBulkFailures, useBulkTriggerAction } from '../use-bulk-triggers'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = '550e8400-e29b-41d4-a716-446655440002'
+const TARGET_ORG_ID = '550e8400-e29b-41d4-a716-446655440003'
+
+// Mock sonner toast
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+function createTrigger(id: string, name: string, enabled = true): Trigger {
+  return {
+    id,
+    userId: '550e8400-e29b-41d4-a716-446655440001',
+    organizationId: TEST_ORG_ID,
+    name,
+    description: null,
+    chainId: 84532,
+    registry: 'reputation',
+    enabled,
+    isStateful: false,
+    executionCount: 0,
+    lastExecutedAt: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    conditions: [
+      {
+        id: `${id.slice(0, -2)}98`,
+        triggerId: id,
+        conditionType: 'score_threshold',
+        field: 'score',
+        operator: 'lt',
+        value: '40',
+        config: {},
+        createdAt: '2026-01-01T00:00:00Z',
+      },
+    ],
+    actions: [
+      {
+        id: `${id.slice(0, -2)}99`,
+        triggerId: id,
+        actionType: 'telegram',
+        priority: 0,
+        config: { chatId: '123' },
+        createdAt: '2026-01-01T00:00:00Z',
+      },
+    ],
+  }
+}
+
+describe('use-bulk-triggers', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const first = createTrigger('550e8400-e29b-41d4-a716-446655440010', 'First')
+  const second = createTrigger('550e8400-e29b-41d4-a716-446655440011', 'Second')
+  const listKey = queryKeys.triggers.list(TEST_ORG_ID, {})
+
+  const getCachedList = () =>
+    queryClient.getQueryData<{ data: Trigger[]; pagination: { total: number } }>(listKey)
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false, gcTime: Infinity, staleTime: Infinity },
+        mutations: { retry: false },
+      },
+    })
+    queryClient.setQueryData(listKey, {
+      data: [first, second],
+      pagination: { total: 2, hasMore: false },
+    })
+    server.use(
+      http.get(`${baseUrl}/csrf-token`, () => HttpResponse.json({ token: 'test-csrf' })),
+      http.get(`${baseUrl}/triggers/:id`, ({ params }) =>
+        HttpResponse.json(params.id === first.id ? first : second)
+      )
+    )
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+    vi.clearAllMocks()
+  })
+
+  it('should disable triggers and report progress', async () => {
+    server.use(
+      http.post(`${baseUrl}/triggers/:id/disable`, ({ params }) =>
+        HttpResponse.json({ ...(params.id === first.id ? first : second), enabled: false })
+      )
+    )
+
+    const { result } = renderHook(() => useBulkTriggerAction(TEST_ORG_ID), {
+      wrapper: createWrapper(),
+    })
+
+    act(() => {
+      result.current.mutate({ action: 'disable', triggerIds: [first.id, second.id] })
+    })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+
+    expect(result.current.data?.succeeded).toEqual([first.id, second.id])
+    expect(result.current.progress).toEqual({ done: 2, total: 2 })
+    expect(toast.success).toHaveBeenCalledWith('2 triggers disabled')
+  })
+
+  it('should update the cached lists optimistically', async () => {
+    let release: () => void = () => {}
+    const pending = new Promise<void>((resolve) => {
+      release = resolve
+    })
+    server.use(
+      http.delete(`${baseUrl}/triggers/:id`, async () => {
+        await pending
+        return new HttpResponse(null, { status: 204 })
+      })
+    )
+
+    const { result } = renderHook(() => useBulkTriggerAction(TEST_ORG_ID), {
+      wrapper: createWrapper(),
+    })
+
+    act(() => {
+      result.current.mutate({ action: 'delete', triggerIds: [first.id] })
+    })
+
+    await waitFor(() => {
+      expect(getCachedList()?.data.map((t) => t.id)).toEqual([second.id])
+    })
+    expect(getCachedList()?.pagination.total).toBe(1)
+
+    release()
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+  })
+
+  it('should roll back failed triggers and summarize API errors', async () => {
+    server.use(
+      http.post(`${baseUrl}/triggers/:id/enable`, ({ params }) =>
+        params.id === first.id
+          ? HttpResponse.json(
+              { message: 'Trigger limit reached', code: 'TRIGGER_LIMIT_EXCEEDED' },
+              { status: 409 }
+            )
+          : HttpResponse.json(second)
+      )
+    )
+    queryClient.setQueryData(listKey, {
+      data: [
+        { ...first, enabled: false },
+        { ...second, enabled: false },
+      ],
+      pagination: { total: 2, hasMore: false },
+    })
+    const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+    const { result } = renderHook(() => useBulkTriggerAction(TEST_ORG_ID), {
+      wrapper: createWrapper(),
+    })
+
+    act(() => {
+      result.current.mutate({ action: 'enable', triggerIds: [first.id, second.id] })
+    })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+
+    expect(result.current.data?.failed).toEqual([
+      {
+        triggerId: first.id,
+        name: 'First',
+        message: 'Trigger limit reached',
+        status: 409,
+        code: 'TRIGGER_LIMIT_EXCEEDED',
+      },
+    ])
+    // The snapshot is restored, then only the successful trigger is enabled again
+    expect(setQueryData).toHaveBeenCalledWith(listKey, expect.anything())
+    expect(getCachedList()?.data.map((t) => t.enabled)).toEqual([false, true])
+    expect(toast.error).toHaveBeenCalledWith('1 trigger enabled, 1 failed', {
+      description: '1 × Trigger limit reached (TRIGGER_LIMIT_EXCEEDED)',
+    })
+  })
+
+  it('should duplicate triggers as disabled copies', async () => {
+    const created: { name: string; enabled?: boolean }[] = []
+    server.use(
+      http.post(`${baseUrl}/organizations/${TEST_ORG_ID}/triggers`, async ({ request }) => {
+        const body = (await request.json()) as { name: string; enabled?: boolean }
+        created.push(body)
+        return HttpResponse.json({ ...first, id: '550e8400-e29b-41d4-a716-446655440020' })
+      })
+    )
+
+    const { result } = renderHook(() => useBulkTriggerAction(TEST_ORG_ID), {
+      wrapper: createWrapper(),
+    })
+
+    act(() => {
+      result.current.mutate({ action: 'duplicate', triggerIds: [first.id] })
+    })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+
+    expect(created).toEqual([expect.objectContaining({ name: 'First (copy)', enabled: false })])
+  })
+
+  const copyId = '550e8400-e29b-41d4-a716-446655440020'
+
+  it('should move triggers by recreating them in the target organization', async () => {
+    const calls: string[] = []
+    server.use(
+      http.post(`${baseUrl}/organizations/${TARGET_ORG_ID}/triggers`, async ({ request }) => {
+        const body = (await request.json()) as { enabled: boolean }
+        calls.push(`create enabled=${body.enabled}`)
+        return HttpResponse.json({ ...first, id: copyId, organizationId: TARGET_ORG_ID })
+      }),
+      http.delete(`${baseUrl}/triggers/:id`, ({ params }) => {
+        calls.push(`delete ${params.id}`)
+        return new HttpResponse(null, { status: 204 })
+      }),
+      http.post(`${baseUrl}/triggers/:id/enable`, ({ params }) => {
+        calls.push(`enable ${params.id}`)
+        return HttpResponse.json({ ...first, id: copyId, organizationId: TARGET_ORG_ID })
+      })
+    )
+
+    const { result } = renderHook(() => useBulkTriggerAction(TEST_ORG_ID), {
+      wrapper: createWrapper(),
+    })
+
+    act(() => {
+      result.current.mutate({
+        action: 'move',
+        triggerIds: [first.id],
+        targetOrganizationId: TARGET_ORG_ID,
+      })
+    })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+
+    expect(calls).toEqual(['create enabled=false', `delete ${first.id}`, `enable ${copyId}`])
+  })
+
+  it('should delete the copy when the original of a move cannot be deleted', async () => {
+    const calls: string[] = []
+    server.use(
+      http.post(`${baseUrl}/organizations/${TARGET_ORG_ID}/triggers`, () => {
+        calls.push('create')
+        return HttpResponse.json({ ...first, id: copyId, organizationId: TARGET_ORG_ID })
+      }),
+      http.delete(`${baseUrl}/triggers/:id`, ({ params }) => {
+        calls.push(`delete ${params.id}`)
+        return params.id === first.id
+          ? HttpResponse.json({ message: 'Forbidden' }, { status: 403 })
+          : new HttpResponse(null, { status: 204 })
+      }),
+      http.post(`${baseUrl}/triggers/:id/enable`, ({ params }) => {
+        calls.push(`enable ${params.id}`)
+        return HttpResponse.json(first)
+      })
+    )
+
+    const { result } = renderHook(() => useBulkTriggerAction(TEST_ORG_ID), {
+      wrapper: createWrapper(),
+    })
+
+    act(() => {
+      result.current.mutate({
+        action: 'move',
+        triggerIds: [first.id],
+        targetOrganizationId: TARGET_ORG_ID,
+      })
+    })
+
+    await waitFor(() => {
+      expect(result.current.isSuccess).toBe(true)
+    })
+
+    expect(calls).toEqual(['create', `delete ${first.id}`, `delete ${copyId}`])
+    expect(result.current.data?.failed).toEqual([
+      expect.objectContaining({
+        triggerId: first.id,
+        message: 'Could not delete the original (Forbidden); the move was undone',
+      }),
+    ])
+  })
+})
+
+describe('summarizeBulkFailures', () => {
+  it('should group failures by reason, most frequent first', () => {
+    expect(
+      summarizeBulkFailures([
+        { triggerId: 'a', message: 'Not found', status: 404 },
+        { triggerId: 'b', message: 'Limit', code: 'TRIGGER_LIMIT_EXCEEDED', status: 409 },
+        { triggerId: 'c', message: 'Limit', code: 'TRIGGER_LIMIT_EXCEEDED', status: 409 },
+        { triggerId: 'd', message: 'Network error' },
+      ])
+    ).toEqual(['2 × Limit (TRIGGER_LIMIT_EXCEEDED)', '1 × Not found (404)', '1 × Network error'])
+  })
+})
@@ -0,0 +1,218 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { useDashboardOverview } from '../use-dashboard'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+// Mock the organization store
+vi.mock('@/stores/organization-store', () => ({
+  useOrganizationStore: () => ({
+    currentOrganizationId: TEST_ORG_ID,
+    isHydrated: true,
+  }),
+}))
+
+describe('use-dashboard hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const mockTrigger = {
+    id: '550e8400-e29b-41d4-a716-446655440000',
+    userId: '550e8400-e29b-41d4-a716-446655440001',
+    organizationId: TEST_ORG_ID,
+    name: 'Test Trigger',
+    description: null,
+    chainId: 1,
+    registry: 'identity',
+    enabled: true,
+    isStateful: false,
+    executionCount: 3,
+    lastExecutedAt: '2025-01-02T00:00:00Z',
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-01T00:00:00Z',
+  }
+
+  const mockEvent = {
+    id: '550e8400-e29b-41d4-a716-446655440010',
+    eventType: 'ReputationUpdated',
+    agentId: 123,
+    chainId: 1,
+    registry: 'reputation' as const,
+    blockNumber: 12345678,
+    transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+    data: { score: 95 },
+    timestamp: '2025-01-01T00:00:00Z',
+    createdAt: '2025-01-01T00:00:00Z',
+  }
+
+  const mockStats = {
+    data: {
+      total_keys: 2,
+      active_keys: 2,
+      calls_24h: 1500,
+    },
+  }
+
+  const paginated = <T,>(data: T[], total: number) => ({
+    data,
+    pagination: { total, limit: 20, offset: 0, has_more: total > data.length },
+  })
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+      },
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  describe('useDashboardOverview', () => {
+    it('should aggregate triggers, events and API key stats', async () => {
+      const idleTrigger = {
+        ...mockTrigger,
+        id: '550e8400-e29b-41d4-a716-446655440003',
+        enabled: false,
+        lastExecutedAt: null,
+      }
+      const laterTrigger = {
+        ...mockTrigger,
+        id: '550e8400-e29b-41d4-a716-446655440004',
+        name: 'Later Trigger',
+        lastExecutedAt: '2025-01-03T00:00:00Z',
+      }
+      const execution = (id: string, triggerId: string, startedAt: string) => ({
+        id,
+        triggerId,
+        status: 'success',
+        eventId: null,
+        startedAt,
+        completedAt: startedAt,
+        durationMs: 0,
+      })
+      const executionRequests: string[] = []
+
+      server.use(
+        http.get(`${baseUrl}/organizations/${TEST_ORG_ID}/triggers`, ({ request }) => {
+          const url = new URL(request.url)
+          if (url.searchParams.get('enabled') === 'true') {
+            return HttpResponse.json(paginated([mockTrigger], 7))
+          }
+          return HttpResponse.json(paginated([idleTrigger, mockTrigger, laterTrigger], 12))
+        }),
+        http.get(`${baseUrl}/triggers/:triggerId/executions`, ({ params }) => {
+          const triggerId = String(params.triggerId)
+          executionRequests.push(triggerId)
+          return HttpResponse.json(
+            triggerId === mockTrigger.id
+              ? paginated(
+                  [
+                    execution(
+                      '550e8400-e29b-41d4-a716-446655440020',
+                      triggerId,
+                      '2025-01-02T00:00:00Z'
+                    ),
+                    execution(
+                      '550e8400-e29b-41d4-a716-446655440021',
+                      triggerId,
+                      '2025-01-01T00:00:00Z'
+                    ),
+                  ],
+                  3
+                )
+              : paginated(
+                  [
+                    execution(
+                      '550e8400-e29b-41d4-a716-446655440022',
+                      triggerId,
+                      '2025-01-03T00:00:00Z'
+                    ),
+                  ],
+                  1
+                )
+          )
+        }),
+        http.get(`${baseUrl}/events`, ({ request }) => {
+          const url = new URL(request.url)
+          if (url.searchParams.has('fromDate')) {
+            return HttpResponse.json(paginated([mockEvent], 42))
+          }
+          return HttpResponse.json(paginated([mockEvent], 100))
+        }),
+        http.get(`${baseUrl}/organizations/${TEST_ORG_ID}/api-keys/stats`, () => {
+          return HttpResponse.json(mockStats)
+        })
+      )
+
+      const { result } = renderHook(() => useDashboardOverview({ refetchInterval: false }), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isFetching).toBe(false)
+        expect(result.current.apiCalls24h.data).toBeDefined()
+        expect(result.current.recentExecutions.data).toBeDefined()
+      })
+
+      expect(result.current.totalTriggers.data).toBe(12)
+      expect(result.current.activeTriggers.data).toBe(7)
+      expect(result.current.events24h.data).toBe(42)
+      expect(result.current.apiCalls24h.data).toBe(1500)
+      expect(result.current.recentEvents.data).toHaveLength(1)
+      // Executions of the triggers that ran, newest first; idle triggers aren't queried
+      expect(executionRequests.sort()).toEqual([mockTrigger.id, laterTrigger.id].sort())
+      expect(
+        result.current.recentExecutions.data?.map((e) => [e.triggerName, e.startedAt])
+      ).toEqual([
+        ['Later Trigger', '2025-01-03T00:00:00Z'],
+        ['Test Trigger', '2025-01-02T00:00:00Z'],
+        ['Test Trigger', '2025-01-01T00:00:00Z'],
+      ])
+    })
+
+    it('should isolate errors to the failing tile', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${TEST_ORG_ID}/triggers`, () => {
+          return HttpResponse.json(paginated([mockTrigger], 1))
+        }),
+        http.get(`${baseUrl}/events`, () => {
+          return HttpResponse.json(paginated([], 0))
+        }),
+        http.get(`${baseUrl}/organizations/${TEST_ORG_ID}/api-keys/stats`, () => {
+          return HttpResponse.json({ message: 'Forbidden' }, { status: 403 })
+        })
+      )
+
+      const { result } = renderHook(() => useDashboardOverview({ refetchInterval: false }), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.apiCalls24h.error).not.toBeNull()
+      })
+
+      expect(result.current.apiCalls24h.data).toBeUndefined()
+      await waitFor(() => {
+        expect(result.current.totalTriggers.data).toBe(1)
+      })
+      expect(result.current.totalTriggers.error).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,234 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mockEventStream } from '@/test/setup'
+import { queryKeys } from '@/lib/query-keys'
+import type { BlockchainEvent } from '@/lib/validations/event'
+import { mergeEventIntoCache, useEventStream } from '../use-event-stream'
+
+const TEST_ORG_ID = 'org-test-123'
+
+// Mock the organization store
+vi.mock('@/stores/organization-store', () => ({
+  useOrganizationStore: () => ({
+    currentOrganizationId: TEST_ORG_ID,
+    isHydrated: true,
+  }),
+}))
+
+describe('use-event-stream hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const makeEvent = (id: string, overrides: Partial<BlockchainEvent> = {}): BlockchainEvent => ({
+    id,
+    eventType: 'ReputationUpdated',
+    agentId: 123,
+    chainId: 1,
+    registry: 'reputation',
+    blockNumber: 12345678,
+    transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+    data: { score: 95 },
+    timestamp: '2025-01-01T00:00:00Z',
+    createdAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  })
+
+  const existing = makeEvent('550e8400-e29b-41d4-a716-446655440000')
+  const incoming = makeEvent('550e8400-e29b-41d4-a716-446655440001')
+
+  const seedList = (filters?: Record<string, unknown>) => {
+    queryClient.setQueryData(queryKeys.events.list(filters), {
+      data: [existing],
+      pagination: { total: 1, hasMore: false },
+    })
+  }
+
+  const getList = (filters?: Record<string, unknown>) =>
+    queryClient.getQueryData<{ data: BlockchainEvent[]; pagination: { total: number } }>(
+      queryKeys.events.list(filters)
+    )
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: Number.POSITIVE_INFINITY,
+        },
+      },
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  describe('mergeEventIntoCache', () => {
+    it('should prepend events to matching lists', () => {
+      seedList()
+      seedList({ chainId: 1 })
+      seedList({ chainId: 8453 })
+
+      mergeEventIntoCache(queryClient, incoming)
+
+      expect(getList()?.data.map((e) => e.id)).toEqual([incoming.id, existing.id])
+      expect(getList()?.pagination.total).toBe(2)
+      expect(getList({ chainId: 1 })?.data).toHaveLength(2)
+      expect(getList({ chainId: 8453 })?.data).toHaveLength(1)
+      expect(queryClient.getQueryData(queryKeys.events.detail(incoming.id))).toEqual(incoming)
+    })
+
+    it('should deduplicate, respect limit and skip later pages', () => {
+      seedList({ limit: 1 })
+      seedList({ offset: 20 })
+
+      mergeEventIntoCache(queryClient, incoming)
+      mergeEventIntoCache(queryClient, incoming)
+
+      expect(getList({ limit: 1 })?.data.map((e) => e.id)).toEqual([incoming.id])
+      expect(getList({ limit: 1 })?.pagination.total).toBe(2)
+      expect(getList({ offset: 20 })?.data).toHaveLength(1)
+    })
+
+    it('should merge into agent event lists', () => {
+      const key = queryKeys.events.byAgent(123, 0, { limit: 5 })
+      queryClient.setQueryData(key, { data: [], pagination: { total: 0, hasMore: false } })
+      const otherKey = queryKeys.events.byAgent(999, 0, { limit: 5 })
+      queryClient.setQueryData(otherKey, { data: [], pagination: { total: 0, hasMore: false } })
+
+      mergeEventIntoCache(queryClient, incoming)
+
+      expect(queryClient.getQueryData<{ data: unknown[] }>(key)?.data).toHaveLength(1)
+      expect(queryClient.getQueryData<{ data: unknown[] }>(otherKey)?.data).toHaveLength(0)
+    })
+
+    it('should only merge events of watched agents into watchlist-filtered lists', () => {
+      const watchlist = (id: string, agentId: number) => ({
+        id,
+        organizationId: '550e8400-e29b-41d4-a716-446655440020',
+        name: 'Watched',
+        description: null,
+        agents: [{ agentId, chainId: 1 }],
+        createdAt: '2025-01-01T00:00:00Z',
+        updatedAt: '2025-01-01T00:00:00Z',
+      })
+      const watchingId = '550e8400-e29b-41d4-a716-446655440010'
+      const otherId = '550e8400-e29b-41d4-a716-446655440011'
+      queryClient.setQueryData(queryKeys.watchlists.list(TEST_ORG_ID), [
+        watchlist(watchingId, 123),
+        watchlist(otherId, 999),
+      ])
+      seedList({ watchlistId: watchingId })
+      seedList({ watchlistId: otherId })
+
+      mergeEventIntoCache(queryClient, incoming)
+
+      expect(getList({ watchlistId: watchingId })?.data).toHaveLength(2)
+      expect(getList({ watchlistId: otherId })?.data).toHaveLength(1)
+    })
+
+    it('should invalidate watchlist-filtered lists when the watchlist is not cached', () => {
+      const filters = { watchlistId: '550e8400-e29b-41d4-a716-446655440012' }
+      seedList(filters)
+
+      mergeEventIntoCache(queryClient, incoming)
+
+      expect(getList(filters)?.data).toHaveLength(1)
+      expect(queryClient.getQueryState(queryKeys.events.list(filters))?.isInvalidated).toBe(true)
+    })
+  })
+
+  describe('useEventStream', () => {
+    it('should not connect when disabled', () => {
+      const { result } = renderHook(() => useEventStream({ enabled: false }), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.status).toBe('closed')
+      expect(mockEventStream.requestCount).toBe(0)
+    })
+
+    it('should merge streamed events into the cache while live', async () => {
+      seedList()
+
+      const { result } = renderHook(() => useEventStream(), { wrapper: createWrapper() })
+
+      await waitFor(() => expect(result.current.status).toBe('open'))
+
+      act(() => {
+        mockEventStream.push(incoming)
+      })
+
+      await waitFor(() => expect(getList()?.data).toHaveLength(2))
+    })
+
+    it('should buffer events while paused and apply them on flush', async () => {
+      seedList()
+
+      const { result } = renderHook(() => useEventStream(), { wrapper: createWrapper() })
+      await waitFor(() => expect(result.current.status).toBe('open'))
+
+      act(() => {
+        result.current.pause()
+      })
+      act(() => {
+        mockEventStream.push(incoming)
+      })
+
+      await waitFor(() => expect(result.current.bufferedCount).toBe(1))
+      expect(getList()?.data).toHaveLength(1)
+
+      act(() => {
+        result.current.flush()
+      })
+
+      expect(result.current.bufferedCount).toBe(0)
+      expect(result.current.isPaused).toBe(true)
+      expect(getList()?.data.map((e) => e.id)).toEqual([incoming.id, existing.id])
+    })
+
+    it('should apply buffered events on resume', async () => {
+      seedList()
+
+      const { result } = renderHook(() => useEventStream(), { wrapper: createWrapper() })
+      await waitFor(() => expect(result.current.status).toBe('open'))
+
+      act(() => {
+        result.current.pause()
+      })
+      act(() => {
+        mockEventStream.push(incoming)
+      })
+      await waitFor(() => expect(result.current.bufferedCount).toBe(1))
+
+      act(() => {
+        result.current.resume()
+      })
+
+      expect(result.current.isPaused).toBe(false)
+      expect(getList()?.data).toHaveLength(2)
+    })
+
+    it('should stop applying events after unmount', async () => {
+      seedList()
+
+      const { result, unmount } = renderHook(() => useEventStream(), {
+        wrapper: createWrapper(),
+      })
+      await waitFor(() => expect(result.current.status).toBe('open'))
+
+      unmount()
+      mockEventStream.push(incoming)
+      await new Promise((resolve) => setTimeout(resolve, 20))
+
+      expect(getList()?.data).toHaveLength(1)
+    })
+  })
+})
@@ -5,7 +5,7 @@ import type { ReactNode } from 'react'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { server } from '@/test/setup'
 import { API_BASE_URL, API_VERSION } from '@/lib/constants'
-import { useEvents, useEvent, useAgentEvents } from '../use-events'
+import { useEvents, useEvent, useAgentEvents, useAgentCardChange } from '../use-events'
 
 const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
 const TEST_ORG_ID = 'org-test-123'
@@ -188,4 +188,62 @@ describe('use-events hooks', () => {
       expect(result.current.fetchStatus).toBe('idle')
     })
   })
+
+  describe('useAgentCardChange', () => {
+    it('should diff the card snapshots of the latest update', async () => {
+      let capturedUrl: URL | undefined
+
+      server.use(
+        http.get(`${baseUrl}/events`, ({ request }) => {
+          capturedUrl = new URL(request.url)
+          return HttpResponse.json({
+            data: [
+              {
+                ...mockEvent,
+                eventType: 'AgentUpdated',
+                registry: 'identity',
+                data: {
+                  previousAgentCard: { name: 'Old Name' },
+                  agentCard: { name: 'New Name' },
+                },
+              },
+            ],
+            pagination: { total: 1, limit: 1, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const { result } = renderHook(() => useAgentCardChange(123, 1), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(capturedUrl?.searchParams.get('eventType')).toBe('AgentUpdated')
+      expect(capturedUrl?.searchParams.get('limit')).toBe('1')
+      expect(result.current.data?.changes).toEqual([
+        { path: 'name', type: 'changed', before: 'Old Name', after: 'New Name' },
+      ])
+    })
+
+    it('should resolve to null for agents that were never updated', async () => {
+      server.use(
+        http.get(`${baseUrl}/events`, () =>
+          HttpResponse.json({ data: [], pagination: { total: 0, has_more: false } })
+        )
+      )
+
+      const { result } = renderHook(() => useAgentCardChange(123, 1), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data).toBeNull()
+    })
+  })
 })
@@ -0,0 +1,227 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { queryKeys } from '@/lib/query-keys'
+import {
+  useAgentCard,
+  useAgentWatches,
+  useExplorerAgent,
+  useExplorerSearch,
+  useUnwatchAgent,
+  useWatchAgent,
+} from '../use-explorer'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+// Mock the organization store
+vi.mock('@/stores/organization-store', () => ({
+  useOrganizationStore: () => ({
+    currentOrganizationId: TEST_ORG_ID,
+    isHydrated: true,
+  }),
+}))
+
+describe('use-explorer hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const mockAgent = {
+    agentId: 42,
+    chainId: 11155111,
+    owner: '0x1234567890123456789012345678901234567890',
+    tokenUri: 'https://example.com/agent.json',
+    registeredAt: '2025-01-01T00:00:00Z',
+    agentCard: null,
+    reputation: { score: 87, feedbackCount: 12, lastUpdatedAt: null },
+    validations: { total: 0, passed: 0, failed: 0, pending: 0 },
+  }
+
+  const mockWatch = {
+    id: '550e8400-e29b-41d4-a716-446655440001',
+    organizationId: TEST_ORG_ID,
+    agentId: 42,
+    chainId: 11155111,
+    createdAt: '2025-01-06T00:00:00Z',
+  }
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+        mutations: {
+          retry: false,
+        },
+      },
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  describe('useExplorerAgent', () => {
+    it('should fetch any agent by chain and ID', async () => {
+      server.use(
+        http.get(`${baseUrl}/explorer/agents/11155111/42`, () => HttpResponse.json(mockAgent))
+      )
+
+      const { result } = renderHook(() => useExplorerAgent(11155111, 42), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.reputation.score).toBe(87)
+    })
+
+    it('should not fetch without an agent ID', () => {
+      const { result } = renderHook(() => useExplorerAgent(11155111, null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+  })
+
+  describe('useAgentCard', () => {
+    it('should validate the agent card', async () => {
+      server.use(
+        http.get(`${baseUrl}/explorer/agents/11155111/42`, () =>
+          HttpResponse.json({
+            ...mockAgent,
+            agentCard: {
+              name: 'Test Agent',
+              endpoints: [{ name: 'MCP', endpoint: 'https://mcp.example.com' }],
+              registrations: [
+                {
+                  agentId: 42,
+                  agentRegistry: 'eip155:11155111:0x1111111111111111111111111111111111111111',
+                },
+              ],
+            },
+          })
+        )
+      )
+
+      const { result } = renderHook(() => useAgentCard(11155111, 42), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.card?.name).toBe('Test Agent')
+      expect(result.current.data?.warnings).toEqual([])
+    })
+
+    it('should warn when the card is unreachable', async () => {
+      server.use(
+        http.get(`${baseUrl}/explorer/agents/11155111/42`, () => HttpResponse.json(mockAgent))
+      )
+
+      const { result } = renderHook(() => useAgentCard(11155111, 42), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.card).toBeNull()
+      expect(result.current.data?.warnings[0]?.severity).toBe('error')
+    })
+  })
+
+  describe('useExplorerSearch', () => {
+    it('should not fetch without an owner', () => {
+      const { result } = renderHook(() => useExplorerSearch(null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+  })
+
+  describe('useAgentWatches', () => {
+    it('should list watches for the current organization', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${TEST_ORG_ID}/agent-watches`, () =>
+          HttpResponse.json({ data: [mockWatch] })
+        )
+      )
+
+      const { result } = renderHook(() => useAgentWatches(), { wrapper: createWrapper() })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data).toHaveLength(1)
+    })
+  })
+
+  describe('useWatchAgent', () => {
+    it('should add the new watch to the cached list', async () => {
+      server.use(
+        http.post(`${baseUrl}/organizations/${TEST_ORG_ID}/agent-watches`, () =>
+          HttpResponse.json(mockWatch)
+        ),
+        http.get(`${baseUrl}/csrf-token`, () => HttpResponse.json({ token: 'test-csrf' }))
+      )
+      const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useWatchAgent(), { wrapper: createWrapper() })
+      result.current.mutate({ agentId: 42, chainId: 11155111 })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(setQueryData).toHaveBeenCalledWith(
+        queryKeys.explorer.watches(TEST_ORG_ID),
+        expect.any(Function)
+      )
+      const updater = setQueryData.mock.calls[0]?.[1] as (watches: unknown[]) => unknown[]
+      expect(updater([])).toEqual([mockWatch])
+    })
+  })
+
+  describe('useUnwatchAgent', () => {
+    it('should remove the watch from the cached list', async () => {
+      server.use(
+        http.delete(
+          `${baseUrl}/organizations/${TEST_ORG_ID}/agent-watches/${mockWatch.id}`,
+          () => new Response(null, { status: 204 })
+        ),
+        http.get(`${baseUrl}/csrf-token`, () => HttpResponse.json({ token: 'test-csrf' }))
+      )
+      const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useUnwatchAgent(), { wrapper: createWrapper() })
+      result.current.mutate(mockWatch.id)
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      const updater = setQueryData.mock.calls[0]?.[1] as (watches: unknown[]) => unknown[]
+      expect(updater([mockWatch])).toEqual([])
+    })
+  })
+})
@@ -5,7 +5,7 @@ import type { ReactNode } from 'react'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 import { server } from '@/test/setup'
 import { API_BASE_URL, API_VERSION } from '@/lib/constants'
-import { useHealthStatus } from '../use-health'
+import { useHealthStatus, useIndexerDown } from '../use-health'
 
 const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
 
@@ -160,4 +160,45 @@ describe('use-health hooks', () => {
       expect(result.current.data?.status).toBe('unhealthy')
     })
   })
+
+  describe('useIndexerDown', () => {
+    const mockStatus = (indexer: string) => {
+      server.use(
+        http.get(`${baseUrl}/health`, () => {
+          return HttpResponse.json({
+            status: 'degraded',
+            timestamp: '2025-01-01T00:00:00Z',
+            services: { database: 'connected', indexer, cache: 'up' },
+          })
+        })
+      )
+    }
+
+    it('should report a down indexer', async () => {
+      mockStatus('down')
+
+      const { result } = renderHook(() => useIndexerDown(), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current).toBe(true)
+      })
+    })
+
+    it('should not report a running indexer', async () => {
+      mockStatus('up')
+
+      const { result } = renderHook(
+        () => ({ down: useIndexerDown(), health: useHealthStatus() }),
+        { wrapper: createWrapper() }
+      )
+
+      await waitFor(() => {
+        expect(result.current.health.isSuccess).toBe(true)
+      })
+
+      expect(result.current.down).toBe(false)
+    })
+  })
 })
@@ -0,0 +1,113 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { useOnchainAgent } from '../use-onchain'
+
+const { readOnchainAgent, MockOnchainError } = vi.hoisted(() => {
+  class MockOnchainError extends Error {
+    constructor(
+      message: string,
+      public readonly code: string
+    ) {
+      super(message)
+      this.name = 'OnchainError'
+    }
+  }
+  return { readOnchainAgent: vi.fn(), MockOnchainError }
+})
+
+// Mock the registry reads (the real module pulls in wallet connectors)
+vi.mock('@/lib/onchain', () => ({
+  OnchainError: MockOnchainError,
+  readOnchainAgent,
+}))
+
+describe('use-onchain hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const mockAgent = {
+    agentId: 42,
+    chainId: 11155111,
+    owner: '0x1234567890123456789012345678901234567890',
+    tokenUri: 'ipfs://agent-42',
+    reputation: { feedbackCount: 12, averageScore: 87 },
+    validation: null,
+  }
+
+  beforeEach(() => {
+    readOnchainAgent.mockReset()
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retryDelay: 0,
+          gcTime: 0,
+        },
+      },
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  describe('useOnchainAgent', () => {
+    it('should read the agent from the registries', async () => {
+      readOnchainAgent.mockResolvedValue(mockAgent)
+
+      const { result } = renderHook(() => useOnchainAgent(11155111, 42), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(readOnchainAgent).toHaveBeenCalledWith(11155111, 42)
+      expect(result.current.data?.owner).toBe(mockAgent.owner)
+    })
+
+    it('should not read when the agent is unknown', () => {
+      const { result } = renderHook(() => useOnchainAgent(11155111, null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+      expect(readOnchainAgent).not.toHaveBeenCalled()
+    })
+
+    it('should not retry unregistered agents', async () => {
+      readOnchainAgent.mockRejectedValue(new MockOnchainError('Not registered', 'agent_not_found'))
+
+      const { result } = renderHook(() => useOnchainAgent(11155111, 999), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true)
+      })
+
+      expect(readOnchainAgent).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry failed RPC calls', async () => {
+      readOnchainAgent.mockRejectedValue(new MockOnchainError('RPC error', 'call_failed'))
+
+      const { result } = renderHook(() => useOnchainAgent(11155111, 42), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true)
+      })
+
+      expect(readOnchainAgent).toHaveBeenCalledTimes(3)
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { useOrganizationStore } from '@/stores/organization-store'
+import { usePermission } from '../use-permission'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+
+describe('usePermission', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const mockOrganization = (id: string, myRole: string) => ({
+    id,
+    name: 'Test Organization',
+    slug: 'test-org',
+    description: null,
+    is_personal: false,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    my_role: myRole,
+  })
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false, gcTime: 0 },
+      },
+    })
+    useOrganizationStore.setState({
+      currentOrganizationId: null,
+      currentRole: null,
+      isHydrated: true,
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  it('should deny with a reason when no role is known', () => {
+    const { result } = renderHook(() => usePermission('create', 'trigger'), {
+      wrapper: createWrapper(),
+    })
+
+    expect(result.current).toEqual({
+      allowed: false,
+      reason: 'Select an organization to create triggers.',
+      role: null,
+    })
+  })
+
+  it('should fall back to the stored role while the organization loads', () => {
+    useOrganizationStore.setState({ currentRole: 'member' })
+
+    const { result } = renderHook(() => usePermission('create', 'trigger'), {
+      wrapper: createWrapper(),
+    })
+
+    expect(result.current.allowed).toBe(true)
+    expect(result.current.reason).toBeNull()
+    expect(result.current.role).toBe('member')
+  })
+
+  it('should use the role in the current organization', async () => {
+    const orgId = '550e8400-e29b-41d4-a716-446655440000'
+    useOrganizationStore.setState({ currentOrganizationId: orgId, currentRole: 'owner' })
+    server.use(
+      http.get(`${baseUrl}/organizations/:id`, () =>
+        HttpResponse.json({ data: mockOrganization(orgId, 'viewer') })
+      )
+    )
+
+    const { result } = renderHook(() => usePermission('delete', 'api_key'), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.role).toBe('viewer'))
+    expect(result.current.allowed).toBe(false)
+    expect(result.current.reason).toBe(
+      "Viewers can't delete API keys. Requires the owner, admin or member role."
+    )
+  })
+
+  it('should use the role in the given organization', async () => {
+    const orgId = '660e8400-e29b-41d4-a716-446655440000'
+    useOrganizationStore.setState({ currentRole: 'viewer' })
+    server.use(
+      http.get(`${baseUrl}/organizations/:id`, () =>
+        HttpResponse.json({ data: mockOrganization(orgId, 'admin') })
+      )
+    )
+
+    const { result } = renderHook(() => usePermission('create', 'member', orgId), {
+      wrapper: createWrapper(),
+    })
+
+    expect(result.current.allowed).toBe(false)
+    await waitFor(() => expect(result.current.allowed).toBe(true))
+    expect(result.current.role).toBe('admin')
+  })
+})
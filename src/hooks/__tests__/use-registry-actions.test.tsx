@@ -0,0 +1,207 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { server } from '@/test/setup'
+import {
+  useGiveFeedback,
+  useIndexedTransactionEvent,
+  useRequestValidation,
+} from '../use-registry-actions'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = 'org-test-123'
+const TX_HASH = `0x${'cd'.repeat(32)}` as const
+
+const { sendFeedback, sendValidationRequest } = vi.hoisted(() => ({
+  sendFeedback: vi.fn(),
+  sendValidationRequest: vi.fn(),
+}))
+
+// Mock the registry transactions (the real module pulls in wallet connectors)
+vi.mock('@/lib/onchain', () => ({ sendFeedback, sendValidationRequest }))
+
+// Mock sonner toast
+vi.mock('sonner', () => ({
+  toast: {
+    loading: vi.fn((_message: string, options: { id: string }) => options.id),
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+// Mock the organization store
+vi.mock('@/stores/organization-store', () => ({
+  useOrganizationStore: () => ({
+    currentOrganizationId: TEST_ORG_ID,
+    isHydrated: true,
+  }),
+}))
+
+describe('use-registry-actions hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  /** Resolves like a confirmed transaction, reporting the hash on submission */
+  const confirmTransaction = async (
+    _chainId: number,
+    _agentId: number,
+    _request: unknown,
+    options: { onSubmitted?: (hash: string) => void }
+  ) => {
+    options.onSubmitted?.(TX_HASH)
+    return { hash: TX_HASH, chainId: 11155111, gas: 120_000n, receipt: { status: 'success' } }
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+      },
+    })
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+  })
+
+  describe('useGiveFeedback', () => {
+    it('should follow the transaction with a pending then confirmed toast', async () => {
+      sendFeedback.mockImplementation(confirmTransaction)
+      const onSubmitted = vi.fn()
+      const invalidate = vi.spyOn(queryClient, 'invalidateQueries')
+
+      const { result } = renderHook(() => useGiveFeedback(11155111, 42, { onSubmitted }), {
+        wrapper: createWrapper(),
+      })
+
+      await act(async () => {
+        await result.current.mutateAsync({ score: 90 })
+      })
+
+      expect(sendFeedback).toHaveBeenCalledWith(11155111, 42, { score: 90 }, expect.any(Object))
+      expect(onSubmitted).toHaveBeenCalledWith(TX_HASH)
+      expect(toast.loading).toHaveBeenCalledWith('Feedback pending...', expect.any(Object))
+      expect(toast.success).toHaveBeenCalledWith(
+        'Feedback confirmed',
+        expect.objectContaining({ id: TX_HASH })
+      )
+      expect(invalidate).toHaveBeenCalledWith({ queryKey: ['onchain', 'agent', 11155111, 42] })
+    })
+
+    it('should turn the toast into an error when the transaction fails', async () => {
+      sendFeedback.mockRejectedValue(new Error('Transaction rejected in wallet'))
+
+      const { result } = renderHook(() => useGiveFeedback(11155111, 42), {
+        wrapper: createWrapper(),
+      })
+
+      act(() => {
+        result.current.mutate({ score: 90 })
+      })
+
+      await waitFor(() => expect(result.current.isError).toBe(true))
+      expect(toast.loading).not.toHaveBeenCalled()
+      expect(toast.error).toHaveBeenCalledWith('Transaction rejected in wallet', { id: undefined })
+    })
+  })
+
+  describe('useRequestValidation', () => {
+    it('should send the validation request', async () => {
+      sendValidationRequest.mockImplementation(confirmTransaction)
+      const request = {
+        validatorAddress: '0x4444444444444444444444444444444444444444',
+        requestUri: 'ipfs://request',
+      }
+
+      const { result } = renderHook(() => useRequestValidation(11155111, 42), {
+        wrapper: createWrapper(),
+      })
+
+      await act(async () => {
+        await result.current.mutateAsync(request)
+      })
+
+      expect(sendValidationRequest).toHaveBeenCalledWith(11155111, 42, request, expect.any(Object))
+      expect(toast.success).toHaveBeenCalledWith(
+        'Validation request confirmed',
+        expect.objectContaining({ id: TX_HASH })
+      )
+    })
+  })
+
+  describe('useIndexedTransactionEvent', () => {
+    const mockEvent = {
+      id: '550e8400-e29b-41d4-a716-446655440000',
+      eventType: 'NewFeedback',
+      agentId: 42,
+      chainId: 11155111,
+      registry: 'reputation' as const,
+      blockNumber: 12345678,
+      transactionHash: TX_HASH,
+      data: { score: 90 },
+      timestamp: '2025-01-01T00:00:00Z',
+      createdAt: '2025-01-01T00:00:00Z',
+    }
+
+    it('should look up the event by transaction hash', async () => {
+      let params: URLSearchParams | undefined
+      server.use(
+        http.get(`${baseUrl}/events`, ({ request }) => {
+          params = new URL(request.url).searchParams
+          return HttpResponse.json({
+            data: [mockEvent],
+            pagination: { total: 1, limit: 1, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const { result } = renderHook(() => useIndexedTransactionEvent(11155111, TX_HASH), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true))
+      expect(result.current.data?.id).toBe(mockEvent.id)
+      expect(params?.get('transactionHash')).toBe(TX_HASH)
+      expect(params?.get('chainId')).toBe('11155111')
+    })
+
+    it('should return null until the event is indexed', async () => {
+      server.use(
+        http.get(`${baseUrl}/events`, () =>
+          HttpResponse.json({
+            data: [],
+            pagination: { total: 0, limit: 1, offset: 0, has_more: false },
+          })
+        )
+      )
+
+      const { result } = renderHook(() => useIndexedTransactionEvent(11155111, TX_HASH), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true))
+      expect(result.current.data).toBeNull()
+    })
+
+    it('should not query without a transaction hash', () => {
+      const { result } = renderHook(() => useIndexedTransactionEvent(11155111, null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+  })
+})
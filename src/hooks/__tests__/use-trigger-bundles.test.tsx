@@ -0,0 +1,225 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { createTriggerBundle, parseTriggerBundle } from '@/lib/trigger-bundles'
+import type { Trigger } from '@/lib/validations/trigger'
+import { useExportTriggers, useImportTriggers, usePlanTriggerImport } from '../use-trigger-bundles'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+// Mock sonner toast
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+function createTrigger(id: string, name: string): Trigger {
+  return {
+    id,
+    userId: '550e8400-e29b-41d4-a716-446655440001',
+    organizationId: TEST_ORG_ID,
+    name,
+    description: null,
+    chainId: 84532,
+    registry: 'reputation',
+    enabled: true,
+    isStateful: false,
+    executionCount: 0,
+    lastExecutedAt: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    updatedAt: '2026-01-01T00:00:00Z',
+    conditions: [
+      {
+        id: `${id.slice(0, -2)}98`,
+        triggerId: id,
+        conditionType: 'score_threshold',
+        field: 'score',
+        operator: 'lt',
+        value: '40',
+        config: {},
+        createdAt: '2026-01-01T00:00:00Z',
+      },
+    ],
+    actions: [
+      {
+        id: `${id.slice(0, -2)}99`,
+        triggerId: id,
+        actionType: 'rest',
+        priority: 0,
+        config: { url: 'https://example.com', headers: { 'X-Api-Key': 'secret-value' } },
+        createdAt: '2026-01-01T00:00:00Z',
+      },
+    ],
+  }
+}
+
+describe('use-trigger-bundles hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const first = createTrigger('550e8400-e29b-41d4-a716-446655440010', 'First')
+  const second = createTrigger('550e8400-e29b-41d4-a716-446655440011', 'Second')
+  const listUrl = `${baseUrl}/organizations/${TEST_ORG_ID}/triggers`
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: { retry: false, gcTime: 0 },
+        mutations: { retry: false },
+      },
+    })
+    server.use(
+      http.get(`${baseUrl}/csrf-token`, () => HttpResponse.json({ token: 'test-csrf' })),
+      // Two pages of one trigger each
+      http.get(listUrl, ({ request }) => {
+        const offset = Number(new URL(request.url).searchParams.get('offset') ?? 0)
+        return HttpResponse.json({
+          data: offset === 0 ? [first] : [second],
+          pagination: { total: 2, limit: 100, offset, has_more: offset === 0 },
+        })
+      }),
+      http.get(`${baseUrl}/triggers/:id`, ({ params }) =>
+        HttpResponse.json(params.id === first.id ? first : second)
+      )
+    )
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+    vi.clearAllMocks()
+  })
+
+  describe('useExportTriggers', () => {
+    it('should export all triggers across pages with secrets redacted', async () => {
+      const { result } = renderHook(() => useExportTriggers(TEST_ORG_ID), {
+        wrapper: createWrapper(),
+      })
+
+      result.current.mutate({ triggerIds: 'all', fileFormat: 'yaml' })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      const exported = result.current.data
+      expect(exported?.filename).toMatch(/^triggers-\d{4}-\d{2}-\d{2}\.yaml$/)
+      expect(exported?.content).not.toContain('secret-value')
+      expect(parseTriggerBundle(exported?.content ?? '').triggers).toHaveLength(2)
+      expect(toast.success).toHaveBeenCalledWith('Exported 2 triggers')
+    })
+
+    it('should export selected triggers only', async () => {
+      const { result } = renderHook(() => useExportTriggers(TEST_ORG_ID), {
+        wrapper: createWrapper(),
+      })
+
+      result.current.mutate({ triggerIds: [second.id], includeSecrets: true })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.bundle.triggers).toHaveLength(1)
+      expect(result.current.data?.content).toContain('secret-value')
+    })
+  })
+
+  describe('usePlanTriggerImport', () => {
+    it('should plan against the organization triggers', async () => {
+      const { result } = renderHook(() => usePlanTriggerImport(TEST_ORG_ID), {
+        wrapper: createWrapper(),
+      })
+
+      const bundle = createTriggerBundle([first])
+      const exported = bundle.triggers[0] as Record<string, unknown>
+      bundle.triggers = [
+        { ...exported, description: 'Changed' },
+        { ...exported, name: 'Third' },
+      ]
+      result.current.mutate({ bundle, strategy: 'replace' })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.counts).toEqual({ create: 1, replace: 1, skip: 0, invalid: 0 })
+      expect(result.current.data?.items[0]?.changes).toEqual([
+        { path: 'description', type: 'added', after: 'Changed' },
+      ])
+    })
+  })
+
+  describe('useImportTriggers', () => {
+    it('should create and replace triggers and report failures', async () => {
+      const created: string[] = []
+      const updated: string[] = []
+      server.use(
+        http.post(listUrl, async ({ request }) => {
+          const body = (await request.json()) as { name: string }
+          if (body.name === 'Broken') {
+            return HttpResponse.json({ error: { message: 'Quota exceeded' } }, { status: 400 })
+          }
+          created.push(body.name)
+          return HttpResponse.json({ ...first, name: body.name })
+        }),
+        http.patch(`${baseUrl}/triggers/:id`, async ({ params, request }) => {
+          const body = (await request.json()) as Record<string, unknown>
+          expect(body).not.toHaveProperty('chainId')
+          updated.push(params.id as string)
+          return HttpResponse.json(first)
+        })
+      )
+
+      const { result } = renderHook(() => useImportTriggers(TEST_ORG_ID), {
+        wrapper: createWrapper(),
+      })
+
+      const request = {
+        name: 'New',
+        chainId: 84532,
+        registry: 'reputation' as const,
+        enabled: true,
+        isStateful: false,
+        conditions: [],
+        actions: [],
+      }
+      const base = { changes: [], errors: [], redactedPaths: [] }
+      result.current.mutate([
+        { ...base, index: 0, name: 'New', action: 'create', request },
+        { ...base, index: 1, name: 'First', action: 'replace', request, conflict: first },
+        { ...base, index: 2, name: 'Kept', action: 'skip', request, conflict: second },
+        {
+          ...base,
+          index: 3,
+          name: 'Broken',
+          action: 'create',
+          request: { ...request, name: 'Broken' },
+        },
+      ])
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(created).toEqual(['New'])
+      expect(updated).toEqual([first.id])
+      expect(result.current.data?.failed).toEqual([{ name: 'Broken', error: expect.any(String) }])
+      expect(toast.error).toHaveBeenCalledWith(
+        'Import finished with 1 failure(s): 1 created, 1 replaced'
+      )
+    })
+  })
+})
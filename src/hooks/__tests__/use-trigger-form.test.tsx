@@ -129,6 +129,27 @@ describe('useTriggerForm', () => {
       expect(conditions[0].value).toBe('transfer')
     })
 
+    it('should convert ISO 8601 timestamp conditions to Unix seconds', () => {
+      const [condition] = mockTrigger.conditions
+      const trigger = {
+        ...mockTrigger,
+        conditions: [
+          {
+            ...condition,
+            conditionType: 'event_filter',
+            field: 'timestamp',
+            operator: 'gt' as const,
+            value: '2024-01-01T00:00:00Z',
+          },
+        ],
+      }
+      const { result } = renderHook(() => useTriggerForm(mockOrgId, trigger, 'edit'), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.form.getValues('conditions')[0].value).toBe('1704067200')
+    })
+
     it('should initialize actions from existing trigger', () => {
       const { result } = renderHook(() => useTriggerForm(mockOrgId, mockTrigger, 'edit'), {
         wrapper: createWrapper(),
@@ -139,6 +160,24 @@ describe('useTriggerForm', () => {
       expect(actions[0].actionType).toBe('telegram')
       expect(actions[0].config).toEqual({ chatId: '123456' })
     })
+
+    it('should prefill create mode from initial values', () => {
+      const { result } = renderHook(
+        () =>
+          useTriggerForm(mockOrgId, undefined, 'create', {
+            name: 'From template',
+            chainId: 84532,
+            registry: 'identity',
+          }),
+        { wrapper: createWrapper() }
+      )
+
+      expect(result.current.form.getValues('name')).toBe('From template')
+      expect(result.current.form.getValues('chainId')).toBe(84532)
+      expect(result.current.form.getValues('registry')).toBe('identity')
+      // Fields missing from the initial values keep their defaults
+      expect(result.current.form.getValues('actions')).toHaveLength(1)
+    })
   })
 
   describe('step management', () => {
@@ -0,0 +1,181 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { queryKeys } from '@/lib/query-keys'
+import type { TriggerTemplate } from '@/lib/validations/trigger-template'
+import {
+  useCreateTriggerTemplate,
+  useDeleteTriggerTemplate,
+  useTriggerTemplates,
+} from '../use-trigger-templates'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+// Mock the organization store
+vi.mock('@/stores/organization-store', () => ({
+  useOrganizationStore: () => ({
+    currentOrganizationId: TEST_ORG_ID,
+    isHydrated: true,
+  }),
+}))
+
+// Mock sonner toast
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+describe('use-trigger-templates hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const mockTemplate: TriggerTemplate = {
+    id: '550e8400-e29b-41d4-a716-446655440020',
+    organizationId: TEST_ORG_ID,
+    name: 'New agents',
+    description: null,
+    category: 'identity',
+    parameters: [],
+    trigger: {
+      name: 'New agents',
+      chainId: 84532,
+      registry: 'identity',
+      conditions: [
+        {
+          conditionType: 'event_filter',
+          field: 'event_type',
+          operator: 'eq',
+          value: 'AgentRegistered',
+        },
+      ],
+      actions: [{ actionType: 'rest', priority: 0, config: { url: 'https://example.com' } }],
+    },
+    createdAt: '2025-01-01T00:00:00Z',
+  }
+  const templatesUrl = `${baseUrl}/organizations/${TEST_ORG_ID}/trigger-templates`
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+        mutations: {
+          retry: false,
+        },
+      },
+    })
+    server.use(http.get(`${baseUrl}/csrf-token`, () => HttpResponse.json({ token: 'test-csrf' })))
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+    vi.clearAllMocks()
+  })
+
+  describe('useTriggerTemplates', () => {
+    it('should fetch the current organization templates', async () => {
+      server.use(http.get(templatesUrl, () => HttpResponse.json({ data: [mockTemplate] })))
+
+      const { result } = renderHook(() => useTriggerTemplates(), { wrapper: createWrapper() })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.[0]?.name).toBe('New agents')
+    })
+  })
+
+  describe('useCreateTriggerTemplate', () => {
+    it('should append the saved template to the cached list', async () => {
+      server.use(http.post(templatesUrl, () => HttpResponse.json(mockTemplate)))
+      const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useCreateTriggerTemplate(), {
+        wrapper: createWrapper(),
+      })
+      result.current.mutate({
+        name: mockTemplate.name,
+        category: mockTemplate.category,
+        parameters: [],
+        trigger: mockTemplate.trigger,
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(setQueryData).toHaveBeenCalledWith(
+        queryKeys.triggerTemplates.list(TEST_ORG_ID),
+        expect.any(Function)
+      )
+      const updater = setQueryData.mock.calls[0]?.[1] as (
+        templates: TriggerTemplate[]
+      ) => TriggerTemplate[]
+      expect(updater([])).toEqual([mockTemplate])
+      expect(toast.success).toHaveBeenCalledWith('Template "New agents" saved')
+    })
+
+    it('should show an error toast when saving fails', async () => {
+      server.use(
+        http.post(templatesUrl, () =>
+          HttpResponse.json({ message: 'Template already exists' }, { status: 409 })
+        )
+      )
+
+      const { result } = renderHook(() => useCreateTriggerTemplate(), {
+        wrapper: createWrapper(),
+      })
+      result.current.mutate({
+        name: mockTemplate.name,
+        category: mockTemplate.category,
+        parameters: [],
+        trigger: mockTemplate.trigger,
+      })
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true)
+      })
+
+      expect(toast.error).toHaveBeenCalled()
+    })
+  })
+
+  describe('useDeleteTriggerTemplate', () => {
+    it('should drop the template from the cached list', async () => {
+      server.use(
+        http.delete(`${templatesUrl}/${mockTemplate.id}`, () => new Response(null, { status: 204 }))
+      )
+      const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useDeleteTriggerTemplate(), {
+        wrapper: createWrapper(),
+      })
+      result.current.mutate(mockTemplate.id)
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      const updater = setQueryData.mock.calls[0]?.[1] as (
+        templates: TriggerTemplate[]
+      ) => TriggerTemplate[]
+      expect(updater([mockTemplate])).toEqual([])
+    })
+  })
+})
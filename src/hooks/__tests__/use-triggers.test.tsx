@@ -5,14 +5,22 @@ import type { ReactNode } from 'react'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { server } from '@/test/setup'
 import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { queryKeys } from '@/lib/query-keys'
 import {
   useCreateTrigger,
   useDeleteTrigger,
   useDisableTrigger,
   useEnableTrigger,
+  useReplayTriggerExecution,
+  useResetTriggerState,
+  useRollbackTrigger,
   useTestTrigger,
   useToggleTrigger,
   useTrigger,
+  useTriggerExecution,
+  useTriggerExecutions,
+  useTriggerRevisions,
+  useTriggerState,
   useTriggers,
   useUpdateTrigger,
 } from '../use-triggers'
@@ -436,4 +444,283 @@ describe('use-triggers hooks', () => {
       })
     })
   })
+  describe('useTriggerExecutions', () => {
+    const mockExecution = {
+      id: '550e8400-e29b-41d4-a716-446655440010',
+      triggerId: mockTrigger.id,
+      status: 'failed',
+      eventId: null,
+      startedAt: '2025-01-01T00:00:00Z',
+      completedAt: '2025-01-01T00:00:01Z',
+      durationMs: 1000,
+      error: 'Webhook returned 500',
+      actionResults: [],
+    }
+
+    it('should fetch executions for a trigger', async () => {
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTrigger.id}/executions`, () => {
+          return HttpResponse.json({
+            data: [mockExecution],
+            pagination: { total: 1, limit: 20, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const { result } = renderHook(() => useTriggerExecutions(mockTrigger.id), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.data[0]?.status).toBe('failed')
+    })
+
+    it('should not fetch when triggerId is null', () => {
+      const { result } = renderHook(() => useTriggerExecutions(null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+
+    it('should fetch a single execution', async () => {
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTrigger.id}/executions/${mockExecution.id}`, () => {
+          return HttpResponse.json(mockExecution)
+        })
+      )
+
+      const { result } = renderHook(() => useTriggerExecution(mockTrigger.id, mockExecution.id), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.error).toBe('Webhook returned 500')
+    })
+
+    it('should poll an execution until it finishes', async () => {
+      let requests = 0
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTrigger.id}/executions/${mockExecution.id}`, () => {
+          requests++
+          return HttpResponse.json(
+            requests === 1
+              ? { ...mockExecution, status: 'running', completedAt: null, durationMs: null }
+              : { ...mockExecution, status: 'success', error: null }
+          )
+        })
+      )
+
+      const { result } = renderHook(() => useTriggerExecution(mockTrigger.id, mockExecution.id), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.data?.status).toBe('running')
+      })
+      await waitFor(
+        () => {
+          expect(result.current.data?.status).toBe('success')
+        },
+        { timeout: 5000 }
+      )
+      expect(requests).toBe(2)
+    })
+
+    it('should replay execution and invalidate history', async () => {
+      server.use(
+        http.post(
+          `${baseUrl}/triggers/${mockTrigger.id}/executions/${mockExecution.id}/replay`,
+          () => {
+            return HttpResponse.json({
+              ...mockExecution,
+              id: '550e8400-e29b-41d4-a716-446655440011',
+              status: 'pending',
+              replayOf: mockExecution.id,
+            })
+          }
+        ),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+      const { result } = renderHook(() => useReplayTriggerExecution(mockTrigger.id), {
+        wrapper: createWrapper(),
+      })
+
+      result.current.mutate(mockExecution.id)
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.replayOf).toBe(mockExecution.id)
+      expect(invalidateSpy).toHaveBeenCalledWith({
+        queryKey: [...queryKeys.triggers.all, 'executions', mockTrigger.id],
+      })
+    })
+  })
+
+  describe('trigger state', () => {
+    const mockState = {
+      triggerId: mockTrigger.id,
+      entries: [
+        {
+          agentId: 42,
+          count: 3,
+          windowStartedAt: '2025-01-01T00:00:00Z',
+          lastMatchedAt: '2025-01-01T06:00:00Z',
+          lastFiredAt: '2025-01-01T06:00:01Z',
+          cooldownUntil: null,
+        },
+      ],
+      lastResetAt: null,
+    }
+
+    it('should fetch trigger state', async () => {
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTrigger.id}/state`, () => {
+          return HttpResponse.json(mockState)
+        })
+      )
+
+      const { result } = renderHook(() => useTriggerState(mockTrigger.id), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.entries[0]?.count).toBe(3)
+    })
+
+    it('should not fetch when disabled', () => {
+      const { result } = renderHook(() => useTriggerState(mockTrigger.id, { enabled: false }), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+
+    it('should reset state and update the cache', async () => {
+      const resetState = { ...mockState, entries: [], lastResetAt: '2025-01-02T00:00:00Z' }
+      server.use(
+        http.post(`${baseUrl}/triggers/${mockTrigger.id}/state/reset`, () => {
+          return HttpResponse.json(resetState)
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const setQueryDataSpy = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useResetTriggerState(mockTrigger.id), {
+        wrapper: createWrapper(),
+      })
+
+      result.current.mutate(undefined)
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(setQueryDataSpy).toHaveBeenCalledWith(
+        queryKeys.triggers.state(mockTrigger.id),
+        resetState
+      )
+    })
+  })
+
+  describe('trigger revisions', () => {
+    const mockRevision = {
+      id: '550e8400-e29b-41d4-a716-446655440040',
+      triggerId: mockTrigger.id,
+      revision: 1,
+      changeType: 'created',
+      author: null,
+      createdAt: '2025-01-01T00:00:00Z',
+      rolledBackFrom: null,
+      snapshot: {
+        name: mockTrigger.name,
+        description: mockTrigger.description,
+        chainId: mockTrigger.chainId,
+        registry: mockTrigger.registry,
+        enabled: true,
+        isStateful: false,
+        conditions: [],
+        actions: [],
+      },
+    }
+
+    it('should fetch revisions for a trigger', async () => {
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTrigger.id}/revisions`, () => {
+          return HttpResponse.json({
+            data: [mockRevision],
+            pagination: { total: 1, limit: 20, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const { result } = renderHook(() => useTriggerRevisions(mockTrigger.id), {
+        wrapper: createWrapper(),
+      })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.data[0]?.changeType).toBe('created')
+    })
+
+    it('should not fetch when triggerId is null', () => {
+      const { result } = renderHook(() => useTriggerRevisions(null), {
+        wrapper: createWrapper(),
+      })
+
+      expect(result.current.fetchStatus).toBe('idle')
+    })
+
+    it('should roll back and update the cached trigger', async () => {
+      const restored = { ...mockTrigger, name: 'Restored Trigger' }
+      server.use(
+        http.post(`${baseUrl}/triggers/${mockTrigger.id}/revisions/1/rollback`, () => {
+          return HttpResponse.json(restored)
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const setQueryDataSpy = vi.spyOn(queryClient, 'setQueryData')
+      const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+      const { result } = renderHook(() => useRollbackTrigger(mockTrigger.id), {
+        wrapper: createWrapper(),
+      })
+
+      result.current.mutate(1)
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(setQueryDataSpy).toHaveBeenCalledWith(
+        queryKeys.triggers.detail(mockTrigger.id),
+        restored
+      )
+      expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: queryKeys.triggers.all })
+    })
+  })
 })
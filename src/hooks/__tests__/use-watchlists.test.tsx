@@ -0,0 +1,187 @@
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { renderHook, waitFor } from '@testing-library/react'
+import { HttpResponse, http } from 'msw'
+import type { ReactNode } from 'react'
+import { toast } from 'sonner'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { queryKeys } from '@/lib/query-keys'
+import type { Watchlist } from '@/lib/validations/watchlist'
+import {
+  useAddWatchlistAgents,
+  useDeleteWatchlist,
+  useRemoveWatchlistAgent,
+  useWatchlists,
+} from '../use-watchlists'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = '550e8400-e29b-41d4-a716-446655440002'
+
+// Mock the organization store
+vi.mock('@/stores/organization-store', () => ({
+  useOrganizationStore: () => ({
+    currentOrganizationId: TEST_ORG_ID,
+    isHydrated: true,
+  }),
+}))
+
+// Mock sonner toast
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}))
+
+describe('use-watchlists hooks', () => {
+  let queryClient: QueryClient
+
+  const createWrapper = () => {
+    return ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    )
+  }
+
+  const mockWatchlist: Watchlist = {
+    id: '550e8400-e29b-41d4-a716-446655440010',
+    organizationId: TEST_ORG_ID,
+    name: 'Production fleet',
+    description: null,
+    agents: [{ agentId: 42, chainId: 11155111 }],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-02T00:00:00Z',
+  }
+  const watchlistUrl = `${baseUrl}/organizations/${TEST_ORG_ID}/watchlists/${mockWatchlist.id}`
+
+  beforeEach(() => {
+    queryClient = new QueryClient({
+      defaultOptions: {
+        queries: {
+          retry: false,
+          gcTime: 0,
+        },
+        mutations: {
+          retry: false,
+        },
+      },
+    })
+    server.use(http.get(`${baseUrl}/csrf-token`, () => HttpResponse.json({ token: 'test-csrf' })))
+  })
+
+  afterEach(() => {
+    queryClient.clear()
+    vi.clearAllMocks()
+  })
+
+  describe('useWatchlists', () => {
+    it('should fetch the current organization watchlists', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${TEST_ORG_ID}/watchlists`, () =>
+          HttpResponse.json({ data: [mockWatchlist] })
+        )
+      )
+
+      const { result } = renderHook(() => useWatchlists(), { wrapper: createWrapper() })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(result.current.data?.[0]?.name).toBe('Production fleet')
+    })
+  })
+
+  describe('useAddWatchlistAgents', () => {
+    it('should update the cached watchlist and report the import size', async () => {
+      const imported = [
+        { agentId: 1, chainId: 11155111 },
+        { agentId: 2, chainId: 84532 },
+      ]
+      const updated = { ...mockWatchlist, agents: [...mockWatchlist.agents, ...imported] }
+      server.use(http.post(`${watchlistUrl}/agents`, () => HttpResponse.json(updated)))
+      const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useAddWatchlistAgents(mockWatchlist.id), {
+        wrapper: createWrapper(),
+      })
+      result.current.mutate(imported)
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(setQueryData).toHaveBeenCalledWith(
+        queryKeys.watchlists.detail(TEST_ORG_ID, mockWatchlist.id),
+        updated
+      )
+      const updater = setQueryData.mock.calls[1]?.[1] as (watchlists: Watchlist[]) => Watchlist[]
+      expect(updater([mockWatchlist])).toEqual([updated])
+      expect(toast.success).toHaveBeenCalledWith('2 agents imported')
+    })
+
+    it('should show an error toast when the import is rejected', async () => {
+      server.use(
+        http.post(`${watchlistUrl}/agents`, () =>
+          HttpResponse.json({ message: 'Too many agents' }, { status: 400 })
+        )
+      )
+
+      const { result } = renderHook(() => useAddWatchlistAgents(mockWatchlist.id), {
+        wrapper: createWrapper(),
+      })
+      result.current.mutate([{ agentId: 1, chainId: 11155111 }])
+
+      await waitFor(() => {
+        expect(result.current.isError).toBe(true)
+      })
+
+      expect(toast.error).toHaveBeenCalled()
+    })
+  })
+
+  describe('useRemoveWatchlistAgent', () => {
+    it('should remove the agent by chain and ID', async () => {
+      const updated = { ...mockWatchlist, agents: [] }
+      server.use(
+        http.delete(`${watchlistUrl}/agents/11155111/42`, () => HttpResponse.json(updated))
+      )
+      const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useRemoveWatchlistAgent(mockWatchlist.id), {
+        wrapper: createWrapper(),
+      })
+      result.current.mutate({ agentId: 42, chainId: 11155111 })
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(setQueryData).toHaveBeenCalledWith(
+        queryKeys.watchlists.detail(TEST_ORG_ID, mockWatchlist.id),
+        updated
+      )
+    })
+  })
+
+  describe('useDeleteWatchlist', () => {
+    it('should drop the watchlist from the cached list', async () => {
+      server.use(http.delete(watchlistUrl, () => new Response(null, { status: 204 })))
+      const setQueryData = vi.spyOn(queryClient, 'setQueryData')
+
+      const { result } = renderHook(() => useDeleteWatchlist(), { wrapper: createWrapper() })
+      result.current.mutate(mockWatchlist.id)
+
+      await waitFor(() => {
+        expect(result.current.isSuccess).toBe(true)
+      })
+
+      expect(setQueryData).toHaveBeenCalledWith(
+        queryKeys.watchlists.list(TEST_ORG_ID),
+        expect.any(Function)
+      )
+      const updater = setQueryData.mock.calls[0]?.[1] as (watchlists: Watchlist[]) => Watchlist[]
+      expect(updater([mockWatchlist])).toEqual([])
+    })
+  })
+})
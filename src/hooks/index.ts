@@ -16,8 +16,10 @@
  *   useAgents,
  *   useTriggers,
  *   useEvents,
+ *   useEventStream,
  *   useApiKeys,
  *   useCreditBalance,
+ *   useDashboardOverview,
  *
  *   // Utility hooks
  *   useCopyToClipboard,
@@ -36,16 +38,28 @@
 // API & Data Hooks
 // ============================================================================
 
+export * from './use-agent-analytics'
 export * from './use-agents'
 export * from './use-api-keys'
+export * from './use-audit-log'
 export * from './use-auth'
 export * from './use-billing'
+export * from './use-bulk-triggers'
+export * from './use-dashboard'
 export * from './use-events'
+export * from './use-explorer'
+export * from './use-event-stream'
 export * from './use-health'
+export * from './use-onchain'
 export * from './use-organizations'
+export * from './use-permission'
+export * from './use-registry-actions'
 export * from './use-triggers'
+export * from './use-trigger-bundles'
 export * from './use-trigger-form'
+export * from './use-trigger-templates'
 export * from './use-user-profile'
+export * from './use-watchlists'
 
 // ============================================================================
 // Utility Hooks
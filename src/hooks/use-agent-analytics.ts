@@ -0,0 +1,100 @@
+/**
+ * Agent analytics hooks
+ *
+ * Loads an agent's events for a time range and aggregates them into
+ * reputation, feedback, validation and event type chart data.
+ *
+ * @module hooks/use-agent-analytics
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import {
+  type AgentAnalytics,
+  type AnalyticsRange,
+  getRangeStart,
+  summarizeAgentAnalytics,
+} from '@/lib/agent-analytics'
+import { eventsApi } from '@/lib/api'
+import { queryKeys } from '@/lib/query-keys'
+import type { BlockchainEvent } from '@/lib/validations/event'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+/** Events requested per page while loading a range */
+const ANALYTICS_PAGE_SIZE = 100
+
+/** Most events aggregated for one range (older events are left out) */
+export const MAX_ANALYTICS_EVENTS = 1000
+
+/**
+ * Agent analytics with a flag for ranges above the event cap
+ */
+export interface AgentAnalyticsResult extends AgentAnalytics {
+  /** Whether the range had more than `MAX_ANALYTICS_EVENTS` events */
+  isTruncated: boolean
+}
+
+/**
+ * Loads all events of an agent since a date, page by page
+ */
+async function fetchAgentEvents(
+  organizationId: string,
+  agentId: number,
+  chainId: number,
+  fromDate: Date | null
+): Promise<{ events: BlockchainEvent[]; isTruncated: boolean }> {
+  const events: BlockchainEvent[] = []
+
+  while (events.length < MAX_ANALYTICS_EVENTS) {
+    const page = await eventsApi.listByAgent(organizationId, agentId, chainId, {
+      limit: ANALYTICS_PAGE_SIZE,
+      offset: events.length,
+      ...(fromDate ? { fromDate: fromDate.toISOString() } : {}),
+    })
+    events.push(...page.data)
+    if (!page.pagination.hasMore || page.data.length === 0) {
+      return { events, isTruncated: false }
+    }
+  }
+
+  return { events: events.slice(0, MAX_ANALYTICS_EVENTS), isTruncated: true }
+}
+
+/**
+ * Hook for an agent's reputation analytics
+ *
+ * Automatically uses current organization from store.
+ * Loads up to 1000 events in the range and aggregates them with
+ * `summarizeAgentAnalytics`. Cached for 1 minute per agent and range.
+ *
+ * @param agentId - Agent ID. Query disabled if null.
+ * @param chainId - Chain the agent is registered on
+ * @param range - Time range (`24h`, `7d`, `30d` or `all`)
+ * @returns TanStack Query result with aggregated analytics
+ *
+ * @example
+ * ```tsx
+ * function ScoreTile({ agentId, chainId }: Props) {
+ *   const { data } = useAgentAnalytics(agentId, chainId, '7d')
+ *
+ *   return <p>SCORE: {data?.currentScore ?? '--'}</p>
+ * }
+ * ```
+ */
+export function useAgentAnalytics(agentId: number | null, chainId: number, range: AnalyticsRange) {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+
+  return useQuery({
+    queryKey: queryKeys.events.agentAnalytics(agentId ?? 0, chainId, range),
+    // The range start is computed at fetch time so the key stays stable
+    queryFn: () =>
+      fetchAgentEvents(currentOrganizationId ?? '', agentId ?? 0, chainId, getRangeStart(range)),
+    select: ({ events, isTruncated }): AgentAnalyticsResult => ({
+      ...summarizeAgentAnalytics(events, range),
+      isTruncated,
+    }),
+    enabled: isHydrated && !!currentOrganizationId && !!agentId,
+    staleTime: 60 * 1000,
+  })
+}
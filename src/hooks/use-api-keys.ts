@@ -2,7 +2,9 @@
  * API key hooks
  *
  * React hooks for managing API keys used for authentication.
- * Provides CRUD operations and key regeneration functionality.
+ * Provides CRUD operations, key regeneration and rotation with a
+ * grace period, auto-rotation policies, rotation history and per-key
+ * usage analytics.
  *
  * @module hooks/use-api-keys
  */
@@ -12,8 +14,14 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
 import { toast } from 'sonner'
 import { apiKeysApi } from '@/lib/api'
+import { formatGracePeriod } from '@/lib/api-key-rotation'
 import { queryKeys } from '@/lib/query-keys'
-import type { CreateApiKeyRequest, UpdateApiKeyRequest } from '@/lib/validations'
+import type {
+  ApiKeyRotationPolicyRequest,
+  ApiKeyUsageRange,
+  CreateApiKeyRequest,
+  UpdateApiKeyRequest,
+} from '@/lib/validations'
 import type { PaginationParams } from '@/types/api'
 
 /**
@@ -114,6 +122,63 @@ export function useApiKey(keyId: string | null) {
   })
 }
 
+/**
+ * Hook for getting usage analytics of a single API key
+ *
+ * Returns requests over time, top endpoints, status codes, latency
+ * percentiles and the last client to use the key.
+ * Data is cached for 1 minute.
+ *
+ * @param keyId - API key UUID. Query disabled if null.
+ * @param range - Time range (default: `24h`)
+ * @returns TanStack Query result with key usage
+ *
+ * @example
+ * ```tsx
+ * function KeyRequests({ keyId }: { keyId: string }) {
+ *   const { data: usage } = useApiKeyUsage(keyId, '7d')
+ *
+ *   return <p>{usage?.totalRequests ?? 0} requests this week</p>
+ * }
+ * ```
+ */
+export function useApiKeyUsage(keyId: string | null, range: ApiKeyUsageRange = '24h') {
+  return useQuery({
+    queryKey: queryKeys.apiKeys.usage(keyId ?? '', range),
+    queryFn: () => apiKeysApi.getUsage(keyId ?? '', range),
+    enabled: !!keyId,
+    staleTime: 60 * 1000, // 1 minute
+  })
+}
+
+/**
+ * Hook for listing the rotation history of an API key
+ *
+ * Returns rotations, revoked and expired previous keys and policy
+ * changes, most recent first. Data is cached for 30 seconds.
+ *
+ * @param keyId - API key UUID. Query disabled if null.
+ * @param params - Optional pagination parameters
+ * @returns TanStack Query result with rotation events
+ *
+ * @example
+ * ```tsx
+ * function RotationCount({ keyId }: { keyId: string }) {
+ *   const { data } = useApiKeyRotations(keyId)
+ *
+ *   return <p>{data?.pagination.total ?? 0} rotation events</p>
+ * }
+ * ```
+ */
+export function useApiKeyRotations(keyId: string | null, params?: PaginationParams) {
+  return useQuery({
+    queryKey: queryKeys.apiKeys.rotations(keyId ?? '', params),
+    queryFn: () => apiKeysApi.listRotations(keyId ?? '', params),
+    enabled: !!keyId,
+    staleTime: 30 * 1000,
+  })
+}
+
 /**
  * Hook for creating an API key
  *
@@ -262,3 +327,123 @@ export function useRegenerateApiKey() {
     },
   })
 }
+
+/**
+ * Hook for rotating an API key with a grace period
+ *
+ * Creates a new key value while the current one keeps working for the
+ * grace period. Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation for API key rotation
+ *
+ * @example
+ * ```tsx
+ * function RotateKeyButton({ keyId }: { keyId: string }) {
+ *   const rotateKey = useRotateApiKey()
+ *
+ *   const handleRotate = async () => {
+ *     const result = await rotateKey.mutateAsync({ keyId, gracePeriodHours: 24 })
+ *     // The old key keeps working for 24 hours
+ *     showKeyModal(result.key)
+ *   }
+ * }
+ * ```
+ */
+export function useRotateApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ keyId, gracePeriodHours }: { keyId: string; gracePeriodHours: number }) =>
+      apiKeysApi.rotate(keyId, { gracePeriodHours }),
+    onSuccess: (_response, { gracePeriodHours }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all })
+      toast.success(
+        `API key rotated. The previous key keeps working for ${formatGracePeriod(gracePeriodHours)}`
+      )
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to rotate API key')
+    },
+  })
+}
+
+/**
+ * Hook for revoking the previous value of a rotated API key
+ *
+ * Ends the grace period early. Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation for previous key revocation
+ *
+ * @example
+ * ```tsx
+ * function RevokeOldKeyButton({ keyId }: { keyId: string }) {
+ *   const revoke = useRevokePreviousApiKey()
+ *
+ *   return <Button onClick={() => revoke.mutate(keyId)}>Revoke old key</Button>
+ * }
+ * ```
+ */
+export function useRevokePreviousApiKey() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (keyId: string) => apiKeysApi.revokePreviousKey(keyId),
+    onSuccess: (apiKey) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all })
+      toast.success(`Previous key of "${apiKey.name}" revoked`)
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to revoke previous key')
+    },
+  })
+}
+
+/**
+ * Hook for setting or disabling the auto-rotation policy of an API key
+ *
+ * Pass a `policy` to schedule rotations, or null to disable them.
+ * Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation for the rotation policy
+ *
+ * @example
+ * ```tsx
+ * function AutoRotateToggle({ keyId }: { keyId: string }) {
+ *   const updatePolicy = useUpdateApiKeyRotationPolicy()
+ *
+ *   const enable = () =>
+ *     updatePolicy.mutate({ keyId, policy: { intervalDays: 90, gracePeriodHours: 24 } })
+ *   const disable = () => updatePolicy.mutate({ keyId, policy: null })
+ * }
+ * ```
+ */
+export function useUpdateApiKeyRotationPolicy() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({
+      keyId,
+      policy,
+    }: {
+      keyId: string
+      policy: ApiKeyRotationPolicyRequest | null
+    }) => {
+      if (policy) {
+        await apiKeysApi.setRotationPolicy(keyId, policy)
+      } else {
+        await apiKeysApi.disableRotationPolicy(keyId)
+      }
+    },
+    onSuccess: (_data, { policy }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.apiKeys.all })
+      toast.success(
+        policy
+          ? `Auto-rotation scheduled every ${policy.intervalDays} days`
+          : 'Auto-rotation disabled'
+      )
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update rotation policy')
+    },
+  })
+}
@@ -0,0 +1,122 @@
+/**
+ * Audit log hooks
+ *
+ * React hooks for browsing an organization's audit log page by page
+ * (cursor pagination) and collecting filtered entries for export.
+ *
+ * @module hooks/use-audit-log
+ */
+
+'use client'
+
+import { useInfiniteQuery, useMutation } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { auditLogApi } from '@/lib/api'
+import { MAX_AUDIT_LOG_EXPORT_ENTRIES } from '@/lib/audit-log'
+import { queryKeys } from '@/lib/query-keys'
+import type { AuditLogEntry, AuditLogFilters } from '@/lib/validations/audit-log'
+
+/** Entries per page when browsing */
+const PAGE_SIZE = 50
+
+/** Entries per request when exporting */
+const EXPORT_PAGE_SIZE = 200
+
+/**
+ * Entries collected for an export
+ */
+export interface AuditLogExport {
+  entries: AuditLogEntry[]
+  /** Whether more entries matched than `MAX_AUDIT_LOG_EXPORT_ENTRIES` */
+  truncated: boolean
+}
+
+/**
+ * Hook for browsing an organization's audit log
+ *
+ * Loads the most recent entries first; `fetchNextPage` loads older ones
+ * using the cursor of the last page. Data is cached for 30 seconds.
+ *
+ * @param orgId - Organization UUID. Query disabled if null.
+ * @param filters - Actor, action, resource and date range filters
+ * @returns TanStack infinite query result with pages of entries
+ *
+ * @example
+ * ```tsx
+ * function AuditLog({ orgId }: { orgId: string }) {
+ *   const { data, fetchNextPage, hasNextPage } = useAuditLog(orgId, { resourceType: 'trigger' })
+ *   const entries = data?.pages.flatMap((page) => page.data) ?? []
+ *
+ *   return (
+ *     <>
+ *       {entries.map((entry) => <p key={entry.id}>{entry.action}</p>)}
+ *       {hasNextPage && <Button onClick={() => fetchNextPage()}>More</Button>}
+ *     </>
+ *   )
+ * }
+ * ```
+ */
+export function useAuditLog(orgId: string | null, filters: AuditLogFilters = {}) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.auditLog.list(orgId ?? '', filters),
+    queryFn: ({ pageParam }) =>
+      auditLogApi.list(orgId ?? '', { ...filters, cursor: pageParam, limit: PAGE_SIZE }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: !!orgId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook for collecting audit log entries to export
+ *
+ * Follows the cursors until every entry matching the filters is loaded,
+ * up to `MAX_AUDIT_LOG_EXPORT_ENTRIES`. Shows a warning toast when the
+ * export is truncated and an error toast on failure.
+ *
+ * @param orgId - Organization UUID
+ * @returns TanStack Mutation resolving to the collected entries
+ *
+ * @example
+ * ```tsx
+ * function ExportButton({ orgId, filters }: Props) {
+ *   const exportLog = useExportAuditLog(orgId)
+ *
+ *   const handleExport = async () => {
+ *     const { entries } = await exportLog.mutateAsync(filters)
+ *     download(toAuditLogCsv(entries))
+ *   }
+ * }
+ * ```
+ */
+export function useExportAuditLog(orgId: string) {
+  return useMutation({
+    mutationFn: async (filters: AuditLogFilters): Promise<AuditLogExport> => {
+      const entries: AuditLogEntry[] = []
+      let cursor: string | undefined
+      do {
+        const page = await auditLogApi.list(orgId, { ...filters, cursor, limit: EXPORT_PAGE_SIZE })
+        entries.push(...page.data)
+        cursor = page.nextCursor ?? undefined
+      } while (cursor && entries.length < MAX_AUDIT_LOG_EXPORT_ENTRIES)
+
+      return {
+        entries: entries.slice(0, MAX_AUDIT_LOG_EXPORT_ENTRIES),
+        truncated: cursor !== undefined || entries.length > MAX_AUDIT_LOG_EXPORT_ENTRIES,
+      }
+    },
+    onSuccess: ({ entries, truncated }) => {
+      if (truncated) {
+        toast.warning(
+          `Export limited to the ${entries.length} most recent entries. Narrow the date range to export the rest.`
+        )
+      } else {
+        toast.success(`Exported ${entries.length} audit log entr${entries.length !== 1 ? 'ies' : 'y'}`)
+      }
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to export audit log')
+    },
+  })
+}
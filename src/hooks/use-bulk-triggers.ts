@@ -0,0 +1,302 @@
+/**
+ * Bulk trigger hooks
+ *
+ * React hook to enable, disable, delete, duplicate or move many triggers
+ * at once. Triggers are processed one by one with progress reporting;
+ * a failing trigger doesn't stop the others, and failures are summarized
+ * from their `ApiError` details.
+ *
+ * Enable, disable, delete and move update the cached trigger lists
+ * optimistically; triggers that fail are rolled back.
+ *
+ * A move creates a disabled copy in the destination, deletes the original
+ * and only then enables the copy, so the two never fire together. When
+ * the original can't be deleted, the copy is deleted again.
+ *
+ * @module hooks/use-bulk-triggers
+ */
+
+'use client'
+
+import { type QueryClient, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { triggersApi } from '@/lib/api'
+import { ApiError } from '@/lib/api-client'
+import { queryKeys } from '@/lib/query-keys'
+import { toCreateTriggerRequest } from '@/lib/trigger-bundles'
+
+/** Bulk trigger actions */
+export const BULK_TRIGGER_ACTIONS = ['enable', 'disable', 'delete', 'duplicate', 'move'] as const
+
+export type BulkTriggerAction = (typeof BULK_TRIGGER_ACTIONS)[number]
+
+/**
+ * Bulk action request
+ */
+export interface BulkTriggerRequest {
+  action: BulkTriggerAction
+  triggerIds: string[]
+  /** Destination organization, for `move` */
+  targetOrganizationId?: string
+}
+
+/**
+ * Failure of one trigger in a bulk action
+ */
+export interface BulkTriggerFailure {
+  triggerId: string
+  /** Trigger name, when known */
+  name?: string
+  message: string
+  /** HTTP status, for API errors */
+  status?: number
+  /** Machine-readable error code, for API errors */
+  code?: string
+}
+
+/**
+ * Outcome of a bulk action
+ */
+export interface BulkTriggerResult {
+  action: BulkTriggerAction
+  succeeded: string[]
+  failed: BulkTriggerFailure[]
+}
+
+/**
+ * Progress of a running bulk action
+ */
+export interface BulkTriggerProgress {
+  done: number
+  total: number
+}
+
+/** Cached trigger list page */
+type TriggerListData = Awaited<ReturnType<typeof triggersApi.list>>
+
+type TriggerListSnapshot = [readonly unknown[], TriggerListData | undefined][]
+
+const ACTION_LABELS: Record<BulkTriggerAction, string> = {
+  enable: 'enabled',
+  disable: 'disabled',
+  delete: 'deleted',
+  duplicate: 'duplicated',
+  move: 'moved',
+}
+
+/** Suffix added to the names of duplicated triggers */
+const COPY_SUFFIX = ' (copy)'
+
+/**
+ * Describe why a trigger failed, keeping the API error details
+ */
+function toFailure(triggerId: string, error: unknown): BulkTriggerFailure {
+  if (error instanceof ApiError) {
+    return {
+      triggerId,
+      message: error.data?.message ?? error.message,
+      status: error.status,
+      code: error.data?.code,
+    }
+  }
+  return {
+    triggerId,
+    message: error instanceof Error ? error.message : 'Unknown error',
+  }
+}
+
+/**
+ * Group failures by reason, most frequent first
+ *
+ * @param failures - Failed triggers
+ * @returns One line per distinct reason, e.g. `2 × Forbidden (403)`
+ *
+ * @example
+ * ```ts
+ * summarizeBulkFailures(result.failed)
+ * // => ['2 × Trigger limit reached (TRIGGER_LIMIT_EXCEEDED)', '1 × Not found (404)']
+ * ```
+ */
+export function summarizeBulkFailures(failures: BulkTriggerFailure[]): string[] {
+  const counts = new Map<string, number>()
+  for (const failure of failures) {
+    const detail = failure.code ?? failure.status
+    const reason = detail !== undefined ? `${failure.message} (${detail})` : failure.message
+    counts.set(reason, (counts.get(reason) ?? 0) + 1)
+  }
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([reason, count]) => `${count} × ${reason}`)
+}
+
+/**
+ * Apply an action to the cached trigger lists of an organization
+ */
+function updateCachedLists(
+  queryClient: QueryClient,
+  orgId: string,
+  action: BulkTriggerAction,
+  triggerIds: string[]
+): void {
+  const ids = new Set(triggerIds)
+  queryClient.setQueriesData<TriggerListData>(
+    { queryKey: [...queryKeys.triggers.all, 'list', orgId] },
+    (data) => {
+      if (!data) return data
+      if (action === 'enable' || action === 'disable') {
+        return {
+          ...data,
+          data: data.data.map((t) => (ids.has(t.id) ? { ...t, enabled: action === 'enable' } : t)),
+        }
+      }
+      if (action === 'delete' || action === 'move') {
+        const remaining = data.data.filter((t) => !ids.has(t.id))
+        return {
+          ...data,
+          data: remaining,
+          pagination: {
+            ...data.pagination,
+            total: Math.max(0, data.pagination.total - (data.data.length - remaining.length)),
+          },
+        }
+      }
+      return data
+    }
+  )
+}
+
+/**
+ * Hook for running bulk actions on triggers
+ *
+ * Shows a summary toast when done, listing failure reasons.
+ *
+ * @param orgId - Organization the triggers belong to
+ * @returns TanStack Mutation, plus the progress of the running action
+ *
+ * @example
+ * ```tsx
+ * const bulk = useBulkTriggerAction(orgId)
+ * bulk.mutate({ action: 'disable', triggerIds: [...selected] })
+ *
+ * if (bulk.isPending) return <p>{bulk.progress.done}/{bulk.progress.total}</p>
+ * ```
+ */
+export function useBulkTriggerAction(orgId: string) {
+  const queryClient = useQueryClient()
+  const [progress, setProgress] = useState<BulkTriggerProgress>({ done: 0, total: 0 })
+
+  const runOne = async (
+    { action, targetOrganizationId }: BulkTriggerRequest,
+    triggerId: string
+  ): Promise<void> => {
+    switch (action) {
+      case 'enable':
+        await triggersApi.enable(triggerId)
+        return
+      case 'disable':
+        await triggersApi.disable(triggerId)
+        return
+      case 'delete':
+        await triggersApi.delete(triggerId)
+        return
+      case 'duplicate': {
+        const trigger = await triggersApi.get(triggerId)
+        const request = toCreateTriggerRequest(trigger)
+        // Copies start disabled so they don't fire alongside the original
+        await triggersApi.create(orgId, {
+          ...request,
+          name: `${request.name.slice(0, 100 - COPY_SUFFIX.length)}${COPY_SUFFIX}`,
+          enabled: false,
+        })
+        return
+      }
+      case 'move': {
+        if (!targetOrganizationId) throw new Error('No destination organization')
+        const trigger = await triggersApi.get(triggerId)
+        const copy = await triggersApi.create(targetOrganizationId, {
+          ...toCreateTriggerRequest(trigger),
+          enabled: false,
+        })
+        try {
+          await triggersApi.delete(triggerId)
+        } catch (error) {
+          const reason = toFailure(triggerId, error).message
+          try {
+            await triggersApi.delete(copy.id)
+          } catch {
+            throw new Error(
+              `Could not delete the original (${reason}); a disabled copy was left in the destination`
+            )
+          }
+          throw new Error(`Could not delete the original (${reason}); the move was undone`)
+        }
+        if (trigger.enabled) {
+          try {
+            await triggersApi.enable(copy.id)
+          } catch {
+            throw new Error('Moved, but the copy could not be enabled')
+          }
+        }
+        return
+      }
+    }
+  }
+
+  const mutation = useMutation({
+    mutationFn: async (request: BulkTriggerRequest): Promise<BulkTriggerResult> => {
+      const result: BulkTriggerResult = { action: request.action, succeeded: [], failed: [] }
+      setProgress({ done: 0, total: request.triggerIds.length })
+      for (const [index, triggerId] of request.triggerIds.entries()) {
+        try {
+          await runOne(request, triggerId)
+          result.succeeded.push(triggerId)
+        } catch (error) {
+          result.failed.push(toFailure(triggerId, error))
+        }
+        setProgress({ done: index + 1, total: request.triggerIds.length })
+      }
+      return result
+    },
+    onMutate: async ({ action, triggerIds }) => {
+      await queryClient.cancelQueries({ queryKey: [...queryKeys.triggers.all, 'list', orgId] })
+      const snapshot: TriggerListSnapshot = queryClient.getQueriesData<TriggerListData>({
+        queryKey: [...queryKeys.triggers.all, 'list', orgId],
+      })
+      updateCachedLists(queryClient, orgId, action, triggerIds)
+      return { snapshot }
+    },
+    onSuccess: (result, _request, context) => {
+      // Names come from the lists as they were before the optimistic update
+      const names = new Map(
+        context?.snapshot.flatMap(([, data]) => data?.data ?? []).map((t) => [t.id, t.name])
+      )
+      for (const failure of result.failed) failure.name = names.get(failure.triggerId)
+
+      if (result.failed.length > 0 && context) {
+        // Roll back, then keep only the triggers that went through
+        for (const [queryKey, data] of context.snapshot) queryClient.setQueryData(queryKey, data)
+        updateCachedLists(queryClient, orgId, result.action, result.succeeded)
+      }
+
+      const count = result.succeeded.length
+      const summary = `${count} trigger${count !== 1 ? 's' : ''} ${ACTION_LABELS[result.action]}`
+      if (result.failed.length === 0) {
+        toast.success(summary)
+      } else {
+        toast.error(`${summary}, ${result.failed.length} failed`, {
+          description: summarizeBulkFailures(result.failed).join('\n'),
+        })
+      }
+    },
+    onError: (error, _request, context) => {
+      for (const [queryKey, data] of context?.snapshot ?? [])
+        queryClient.setQueryData(queryKey, data)
+      toast.error(error instanceof Error ? error.message : 'Bulk action failed')
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.triggers.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats.all })
+    },
+  })
+
+  return { ...mutation, progress }
+}
@@ -0,0 +1,246 @@
+/**
+ * Dashboard overview hooks
+ *
+ * Aggregates organization metrics for the dashboard landing page.
+ * Trigger, event, and API key queries are loaded in parallel and
+ * refreshed on an interval so the overview stays current. Recent
+ * executions are then loaded for the most recently run triggers.
+ *
+ * @module hooks/use-dashboard
+ */
+
+'use client'
+
+import { useQueries } from '@tanstack/react-query'
+import { apiKeysApi, eventsApi, triggersApi } from '@/lib/api'
+import { MAX_PAGE_SIZE } from '@/lib/constants'
+import { queryKeys } from '@/lib/query-keys'
+import type { BlockchainEvent, Trigger, TriggerExecution } from '@/lib/validations'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+/** Default polling interval for the dashboard overview (30 seconds) */
+export const DASHBOARD_REFRESH_INTERVAL = 30 * 1000
+
+/** Number of items shown in the recent events / trigger executions panels */
+const RECENT_ITEMS_LIMIT = 5
+
+/**
+ * Filters shared with `useTriggers` so the cache entry is reused. The
+ * trigger list has no sort parameter, so the first page is sorted by
+ * last run here; organizations with more triggers than fit on a page
+ * may miss executions of the rest.
+ */
+const TRIGGERS_PARAMS = { limit: MAX_PAGE_SIZE }
+const ACTIVE_TRIGGERS_PARAMS = { enabled: true, limit: 1 }
+/** Filters shared with `useEvents` and `useTriggerExecutions` so the cache entries are reused */
+const RECENT_EVENTS_PARAMS = { limit: RECENT_ITEMS_LIMIT }
+const RECENT_EXECUTIONS_PARAMS = { limit: RECENT_ITEMS_LIMIT }
+
+/**
+ * Trigger execution with the name of its trigger, for the overview
+ */
+export interface RecentTriggerExecution extends TriggerExecution {
+  /** Name of the trigger that ran */
+  triggerName: string
+}
+
+/**
+ * State of a single dashboard metric or panel
+ *
+ * Each tile tracks its own loading and error state so one failing
+ * endpoint does not blank out the whole overview.
+ */
+export interface OverviewMetric<T> {
+  /** Resolved value (undefined while loading or on error) */
+  data: T | undefined
+  /** Whether the first load is still pending */
+  isLoading: boolean
+  /** Error from the underlying query, if any */
+  error: Error | null
+}
+
+/**
+ * Aggregated dashboard overview data
+ */
+export interface DashboardOverview {
+  /** Total number of triggers in the organization */
+  totalTriggers: OverviewMetric<number>
+  /** Number of enabled triggers */
+  activeTriggers: OverviewMetric<number>
+  /** Number of events indexed in the last 24 hours */
+  events24h: OverviewMetric<number>
+  /** Number of API calls made in the last 24 hours */
+  apiCalls24h: OverviewMetric<number>
+  /** Most recent blockchain events */
+  recentEvents: OverviewMetric<BlockchainEvent[]>
+  /** Most recent trigger executions of the organization (most recent first) */
+  recentExecutions: OverviewMetric<RecentTriggerExecution[]>
+  /** Whether any query is currently refetching */
+  isFetching: boolean
+  /** Refetch every overview query */
+  refetch: () => void
+}
+
+/**
+ * Options for the dashboard overview hook
+ */
+interface DashboardOverviewOptions {
+  /** Polling interval in ms, or false to disable polling */
+  refetchInterval?: number | false
+}
+
+/**
+ * Maps a query result to an overview metric
+ */
+function toMetric<TData, TValue>(
+  query: { data: TData | undefined; isLoading: boolean; error: Error | null },
+  select: (data: TData) => TValue
+): OverviewMetric<TValue> {
+  return {
+    data: query.data === undefined ? undefined : select(query.data),
+    isLoading: query.isLoading,
+    error: query.error,
+  }
+}
+
+/**
+ * Triggers that have run, most recently run first
+ */
+function getRecentlyRunTriggers(triggers: Trigger[]): Trigger[] {
+  return triggers
+    .filter((trigger) => trigger.lastExecutedAt !== null)
+    .sort((a, b) => (b.lastExecutedAt ?? '').localeCompare(a.lastExecutedAt ?? ''))
+    .slice(0, RECENT_ITEMS_LIMIT)
+}
+
+/**
+ * Newest executions across triggers, labeled with their trigger name
+ */
+function mergeRecentExecutions(
+  triggers: Trigger[],
+  executionsByTrigger: TriggerExecution[][]
+): RecentTriggerExecution[] {
+  return triggers
+    .flatMap((trigger, i) =>
+      (executionsByTrigger[i] ?? []).map((execution) => ({
+        ...execution,
+        triggerName: trigger.name,
+      }))
+    )
+    .sort((a, b) => new Date(b.startedAt).getTime() - new Date(a.startedAt).getTime())
+    .slice(0, RECENT_ITEMS_LIMIT)
+}
+
+/**
+ * Hook for the dashboard overview metrics
+ *
+ * Automatically uses current organization from store.
+ * Loads triggers, events, and API key stats in parallel and polls
+ * every 30 seconds by default, then the latest executions of the five
+ * most recently run triggers. Trigger, event and execution lists share
+ * cache entries with `useTriggers`, `useEvents` and `useTriggerExecutions`.
+ *
+ * @param options - Optional polling configuration
+ * @returns Per-tile metric states plus aggregate fetching state
+ *
+ * @example
+ * ```tsx
+ * function TotalTriggersTile() {
+ *   const { totalTriggers } = useDashboardOverview()
+ *
+ *   if (totalTriggers.isLoading) return <Skeleton />
+ *   if (totalTriggers.error) return <p>ERR</p>
+ *   return <p>{totalTriggers.data}</p>
+ * }
+ * ```
+ */
+export function useDashboardOverview(options?: DashboardOverviewOptions): DashboardOverview {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+  const orgId = currentOrganizationId ?? ''
+  const enabled = isHydrated && !!currentOrganizationId
+  const refetchInterval = options?.refetchInterval ?? DASHBOARD_REFRESH_INTERVAL
+
+  const [triggers, activeTriggers, recentEvents, events24h, apiKeyStats] = useQueries({
+    queries: [
+      {
+        queryKey: queryKeys.triggers.list(orgId, TRIGGERS_PARAMS),
+        queryFn: () => triggersApi.list(orgId, TRIGGERS_PARAMS),
+        enabled,
+        refetchInterval,
+        staleTime: 30 * 1000,
+      },
+      {
+        queryKey: queryKeys.triggers.list(orgId, ACTIVE_TRIGGERS_PARAMS),
+        queryFn: () => triggersApi.list(orgId, ACTIVE_TRIGGERS_PARAMS),
+        enabled,
+        refetchInterval,
+        staleTime: 30 * 1000,
+      },
+      {
+        queryKey: queryKeys.events.list(RECENT_EVENTS_PARAMS),
+        queryFn: () => eventsApi.list(orgId, RECENT_EVENTS_PARAMS),
+        enabled,
+        refetchInterval,
+        staleTime: 30 * 1000,
+      },
+      {
+        // The window start is computed at fetch time so the key stays stable
+        queryKey: queryKeys.stats.events(orgId, '24h'),
+        queryFn: () =>
+          eventsApi.list(orgId, {
+            fromDate: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
+            limit: 1,
+          }),
+        enabled,
+        refetchInterval,
+        staleTime: 30 * 1000,
+      },
+      {
+        queryKey: queryKeys.apiKeys.stats(orgId),
+        queryFn: () => apiKeysApi.getStats(orgId),
+        enabled,
+        refetchInterval,
+        staleTime: 60 * 1000,
+      },
+    ],
+  })
+
+  // The most recent executions all belong to the most recently run triggers
+  const recentlyRunTriggers = getRecentlyRunTriggers(triggers.data?.data ?? [])
+  const executions = useQueries({
+    queries: recentlyRunTriggers.map((trigger) => ({
+      queryKey: queryKeys.triggers.executions(trigger.id, RECENT_EXECUTIONS_PARAMS),
+      queryFn: () => triggersApi.listExecutions(trigger.id, RECENT_EXECUTIONS_PARAMS),
+      enabled,
+      refetchInterval,
+      staleTime: 15 * 1000,
+    })),
+  })
+
+  const recentExecutions: OverviewMetric<RecentTriggerExecution[]> = {
+    data:
+      triggers.data === undefined || executions.some((query) => query.data === undefined)
+        ? undefined
+        : mergeRecentExecutions(
+            recentlyRunTriggers,
+            executions.map((query) => query.data?.data ?? [])
+          ),
+    isLoading: triggers.isLoading || executions.some((query) => query.isLoading),
+    error: triggers.error ?? executions.find((query) => query.error)?.error ?? null,
+  }
+
+  const queries = [triggers, activeTriggers, recentEvents, events24h, apiKeyStats, ...executions]
+
+  return {
+    totalTriggers: toMetric(triggers, (result) => result.pagination.total),
+    activeTriggers: toMetric(activeTriggers, (result) => result.pagination.total),
+    events24h: toMetric(events24h, (result) => result.pagination.total),
+    apiCalls24h: toMetric(apiKeyStats, (stats) => stats.calls24h),
+    recentEvents: toMetric(recentEvents, (result) => result.data),
+    recentExecutions,
+    isFetching: queries.some((query) => query.isFetching),
+    refetch: () => {
+      for (const query of queries) query.refetch()
+    },
+  }
+}
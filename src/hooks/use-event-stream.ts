@@ -0,0 +1,235 @@
+/**
+ * Real-time event stream hooks
+ *
+ * React hooks for subscribing to newly indexed blockchain events.
+ * Streamed events are merged into the cached event lists so every
+ * `useEvents` / `useAgentEvents` consumer updates without refetching.
+ *
+ * @module hooks/use-event-stream
+ */
+
+'use client'
+
+import { type QueryClient, useQueryClient } from '@tanstack/react-query'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { createEventStream, type EventStreamStatus, matchesEventFilters } from '@/lib/event-stream'
+import { queryKeys } from '@/lib/query-keys'
+import type { BlockchainEvent } from '@/lib/validations/event'
+import type { Watchlist } from '@/lib/validations/watchlist'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+/** Maximum number of events held while the live view is paused */
+export const MAX_BUFFERED_EVENTS = 200
+
+/** Shape of cached event list query data */
+interface EventListData {
+  data: BlockchainEvent[]
+  pagination: { total: number; hasMore: boolean }
+}
+
+/**
+ * Extract list filters from an events query key
+ *
+ * Supports `events.list(filters)` and `events.byAgent(agentId, chainId, filters)`.
+ * Returns null for keys that are not list queries (e.g. `events.detail`).
+ */
+function getListFilters(queryKey: readonly unknown[]): Record<string, unknown> | null {
+  const [, kind] = queryKey
+
+  if (kind === 'list') {
+    return (queryKey[2] as Record<string, unknown> | undefined) ?? {}
+  }
+
+  if (kind === 'byAgent') {
+    const [, , agentId, chainId, filters] = queryKey
+    return {
+      ...(filters as Record<string, unknown> | undefined),
+      agentId,
+      // chainId 0 is the "any chain" placeholder used by useAgentEvents
+      chainId: chainId ? chainId : undefined,
+    }
+  }
+
+  return null
+}
+
+/**
+ * Find a watchlist in the watchlist list or detail caches
+ */
+function findCachedWatchlist(queryClient: QueryClient, id: string): Watchlist | undefined {
+  const cached = queryClient.getQueriesData<Watchlist | Watchlist[]>({
+    queryKey: queryKeys.watchlists.all,
+  })
+  for (const [, data] of cached) {
+    const watchlists = Array.isArray(data) ? data : data ? [data] : []
+    const watchlist = watchlists.find((w) => w.id === id)
+    if (watchlist) return watchlist
+  }
+  return undefined
+}
+
+/**
+ * Merge a streamed event into the TanStack Query cache
+ *
+ * Prepends the event to every cached first-page list whose filters it
+ * matches (deduplicated by ID, trimmed to the list's `limit`) and seeds
+ * the event detail cache. Lists filtered by watchlist only get events of
+ * the watchlist's agents; when the watchlist isn't cached they are
+ * invalidated instead.
+ *
+ * @param queryClient - Query client holding the event lists
+ * @param event - Newly streamed event
+ */
+export function mergeEventIntoCache(queryClient: QueryClient, event: BlockchainEvent): void {
+  const cached = queryClient.getQueriesData<EventListData>({ queryKey: queryKeys.events.all })
+
+  for (const [queryKey, data] of cached) {
+    if (!data) continue
+
+    const filters = getListFilters(queryKey)
+    if (!filters) continue
+
+    // Only the first page shows the newest events
+    if (Number(filters.offset ?? 0) > 0) continue
+    if (!matchesEventFilters(event, filters)) continue
+    if (typeof filters.watchlistId === 'string') {
+      const watchlist = findCachedWatchlist(queryClient, filters.watchlistId)
+      if (!watchlist) {
+        void queryClient.invalidateQueries({ queryKey, exact: true })
+        continue
+      }
+      const watched = watchlist.agents.some(
+        (agent) => agent.agentId === event.agentId && agent.chainId === event.chainId
+      )
+      if (!watched) continue
+    }
+    if (data.data.some((existing) => existing.id === event.id)) continue
+
+    const limit = typeof filters.limit === 'number' ? filters.limit : undefined
+    const merged = [event, ...data.data]
+
+    queryClient.setQueryData<EventListData>(queryKey, {
+      ...data,
+      data: limit !== undefined ? merged.slice(0, limit) : merged,
+      pagination: {
+        ...data.pagination,
+        total: data.pagination.total + 1,
+        hasMore: data.pagination.hasMore || (limit !== undefined && merged.length > limit),
+      },
+    })
+  }
+
+  queryClient.setQueryData(queryKeys.events.detail(event.id), event)
+}
+
+/**
+ * Options for the event stream hook
+ */
+interface UseEventStreamOptions {
+  /** Whether the stream should be connected (default: true) */
+  enabled?: boolean
+}
+
+/**
+ * Hook for live event streaming
+ *
+ * Automatically uses current organization from store.
+ * While live, streamed events go straight into the query cache.
+ * While paused, they are buffered and only applied on `flush()`
+ * or `resume()`, so the list doesn't shift under the user.
+ *
+ * @param options - Stream options
+ * @returns Connection status, pause controls, and buffered event count
+ *
+ * @example
+ * ```tsx
+ * function LiveToggle() {
+ *   const [live, setLive] = useState(false)
+ *   const stream = useEventStream({ enabled: live })
+ *
+ *   return (
+ *     <>
+ *       <Button onClick={() => setLive(!live)}>LIVE</Button>
+ *       {stream.bufferedCount > 0 && (
+ *         <Button onClick={stream.flush}>{stream.bufferedCount} new events</Button>
+ *       )}
+ *     </>
+ *   )
+ * }
+ * ```
+ */
+export function useEventStream(options: UseEventStreamOptions = {}) {
+  const { enabled = true } = options
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+  const queryClient = useQueryClient()
+
+  const [status, setStatus] = useState<EventStreamStatus>('closed')
+  const [isPaused, setIsPaused] = useState(false)
+  const [bufferedCount, setBufferedCount] = useState(0)
+
+  const pausedRef = useRef(false)
+  const bufferRef = useRef<BlockchainEvent[]>([])
+
+  const flush = useCallback(() => {
+    // Buffer is newest-first; apply oldest-first so ordering is preserved
+    const pending = bufferRef.current.slice().reverse()
+    bufferRef.current = []
+    setBufferedCount(0)
+    for (const event of pending) {
+      mergeEventIntoCache(queryClient, event)
+    }
+  }, [queryClient])
+
+  const pause = useCallback(() => {
+    pausedRef.current = true
+    setIsPaused(true)
+  }, [])
+
+  const resume = useCallback(() => {
+    pausedRef.current = false
+    setIsPaused(false)
+    flush()
+  }, [flush])
+
+  useEffect(() => {
+    if (!enabled || !isHydrated || !currentOrganizationId) {
+      setStatus('closed')
+      return
+    }
+
+    const stream = createEventStream({
+      organizationId: currentOrganizationId,
+      onStatusChange: setStatus,
+      onEvent: (event) => {
+        if (!pausedRef.current) {
+          mergeEventIntoCache(queryClient, event)
+          return
+        }
+        if (bufferRef.current.some((existing) => existing.id === event.id)) return
+        bufferRef.current = [event, ...bufferRef.current].slice(0, MAX_BUFFERED_EVENTS)
+        setBufferedCount(bufferRef.current.length)
+      },
+    })
+
+    return () => {
+      stream.close()
+      bufferRef.current = []
+      setBufferedCount(0)
+    }
+  }, [enabled, isHydrated, currentOrganizationId, queryClient])
+
+  return {
+    /** Current connection status */
+    status,
+    /** Whether incoming events are being buffered */
+    isPaused,
+    /** Number of buffered events waiting to be shown */
+    bufferedCount,
+    /** Buffer incoming events instead of applying them */
+    pause,
+    /** Apply buffered events and go back to live updates */
+    resume,
+    /** Apply buffered events while staying paused */
+    flush,
+  }
+}
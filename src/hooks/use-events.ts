@@ -10,6 +10,7 @@
 'use client'
 
 import { useQuery } from '@tanstack/react-query'
+import { diffAgentCards, getAgentCardSnapshots } from '@/lib/agent-card'
 import { eventsApi } from '@/lib/api'
 import { queryKeys } from '@/lib/query-keys'
 import { useOrganizationStore } from '@/stores/organization-store'
@@ -131,3 +132,47 @@ export function useAgentEvents(
     staleTime: 30 * 1000,
   })
 }
+
+/**
+ * Hook for the latest agent card change of an agent
+ *
+ * Loads the most recent `AgentUpdated` event and diffs the card snapshots
+ * the indexer attached to it. Resolves to null when the agent was never
+ * updated or the update carries no snapshots.
+ *
+ * @param agentId - Agent ID. Query disabled if null.
+ * @param chainId - Chain the agent is registered on. Query disabled if null.
+ * @returns TanStack Query result with the update event and its field changes
+ *
+ * @example
+ * ```tsx
+ * function LastCardChange({ agentId, chainId }: Props) {
+ *   const { data: change } = useAgentCardChange(agentId, chainId)
+ *
+ *   if (!change) return null
+ *   return <AgentCardDiff changes={change.changes} />
+ * }
+ * ```
+ */
+export function useAgentCardChange(agentId: number | null, chainId: number | null) {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+
+  return useQuery({
+    queryKey: queryKeys.events.agentCardChange(agentId ?? 0, chainId ?? 0),
+    queryFn: () =>
+      eventsApi.list(currentOrganizationId ?? '', {
+        agentId: agentId ?? 0,
+        chainId: chainId ?? undefined,
+        eventType: 'AgentUpdated',
+        limit: 1,
+      }),
+    select: ({ data }) => {
+      const event = data[0]
+      const snapshots = event ? getAgentCardSnapshots(event) : null
+      if (!event || !snapshots) return null
+      return { event, changes: diffAgentCards(snapshots.before, snapshots.after) }
+    },
+    enabled: isHydrated && !!currentOrganizationId && agentId !== null && chainId !== null,
+    staleTime: 30 * 1000,
+  })
+}
@@ -0,0 +1,226 @@
+/**
+ * Agent explorer hooks
+ *
+ * React hooks for looking up any ERC-8004 agent (not only linked ones)
+ * and for watching agents without linking them.
+ *
+ * @module hooks/use-explorer
+ */
+
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { validateAgentCard } from '@/lib/agent-card'
+import { explorerApi } from '@/lib/api'
+import { queryKeys } from '@/lib/query-keys'
+import type { AgentWatch, WatchAgentRequest } from '@/lib/validations/explorer'
+import { useOrganizationStore } from '@/stores/organization-store'
+import type { PaginationParams } from '@/types/api'
+
+/**
+ * Hook for looking up an agent by ID
+ *
+ * Returns the identity record, agent card, and reputation and validation
+ * summaries. Registry data changes rarely, so it is cached for 1 minute.
+ *
+ * @param chainId - Chain the agent is registered on. Query disabled if null.
+ * @param agentId - On-chain agent ID. Query disabled if null.
+ * @returns TanStack Query result with the explorer agent
+ *
+ * @example
+ * ```tsx
+ * function OwnerLabel({ chainId, agentId }: Props) {
+ *   const { data: agent } = useExplorerAgent(chainId, agentId)
+ *
+ *   return <span>{agent?.owner ?? '--'}</span>
+ * }
+ * ```
+ */
+export function useExplorerAgent(chainId: number | null, agentId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.explorer.agent(chainId ?? 0, agentId ?? 0),
+    queryFn: () => explorerApi.getAgent(chainId ?? 0, agentId ?? 0),
+    enabled: chainId !== null && agentId !== null,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Hook for an agent's validated agent card
+ *
+ * Shares the explorer agent query and validates the card fetched from the
+ * token URI, so unreachable or malformed cards come back as warnings.
+ *
+ * @param chainId - Chain the agent is registered on. Query disabled if null.
+ * @param agentId - On-chain agent ID. Query disabled if null.
+ * @returns TanStack Query result with the typed card, warnings and raw JSON
+ *
+ * @example
+ * ```tsx
+ * function AgentName({ chainId, agentId }: Props) {
+ *   const { data } = useAgentCard(chainId, agentId)
+ *
+ *   return <span>{data?.card?.name ?? `AGENT #${agentId}`}</span>
+ * }
+ * ```
+ */
+export function useAgentCard(chainId: number | null, agentId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.explorer.agent(chainId ?? 0, agentId ?? 0),
+    queryFn: () => explorerApi.getAgent(chainId ?? 0, agentId ?? 0),
+    select: (agent) => ({
+      ...validateAgentCard(agent.agentCard, {
+        agentId: agent.agentId,
+        chainId: agent.chainId,
+        tokenUri: agent.tokenUri,
+      }),
+      raw: agent.agentCard,
+      tokenUri: agent.tokenUri,
+    }),
+    enabled: chainId !== null && agentId !== null,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Hook for finding agents by owner address
+ *
+ * @param owner - Owner address (0x...). Query disabled if null.
+ * @param chainId - Optional chain filter
+ * @returns TanStack Query result with agents owned by the address
+ *
+ * @example
+ * ```tsx
+ * function OwnedAgents({ owner }: { owner: string }) {
+ *   const { data } = useExplorerSearch(owner)
+ *
+ *   return <p>{data?.pagination.total ?? 0} agents</p>
+ * }
+ * ```
+ */
+export function useExplorerSearch(owner: string | null, chainId?: number) {
+  return useQuery({
+    queryKey: queryKeys.explorer.byOwner(owner ?? '', chainId),
+    queryFn: () => explorerApi.searchByOwner(owner ?? '', chainId),
+    enabled: !!owner,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Hook for an agent's validation history
+ *
+ * @param chainId - Chain the agent is registered on. Query disabled if null.
+ * @param agentId - On-chain agent ID. Query disabled if null.
+ * @param params - Optional pagination parameters
+ * @returns TanStack Query result with validation records
+ *
+ * @example
+ * ```tsx
+ * const { data } = useAgentValidations(11155111, 42, { limit: 10 })
+ * ```
+ */
+export function useAgentValidations(
+  chainId: number | null,
+  agentId: number | null,
+  params?: PaginationParams
+) {
+  return useQuery({
+    queryKey: queryKeys.explorer.validations(chainId ?? 0, agentId ?? 0, params),
+    queryFn: () => explorerApi.listValidations(chainId ?? 0, agentId ?? 0, params),
+    enabled: chainId !== null && agentId !== null,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Hook for listing agents watched by the current organization
+ *
+ * Automatically uses current organization from store.
+ *
+ * @returns TanStack Query result with agent watches
+ *
+ * @example
+ * ```tsx
+ * const { data: watches } = useAgentWatches()
+ * const isWatched = watches?.some((w) => w.agentId === 42 && w.chainId === 1)
+ * ```
+ */
+export function useAgentWatches() {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+
+  return useQuery({
+    queryKey: queryKeys.explorer.watches(currentOrganizationId ?? ''),
+    queryFn: () => explorerApi.listWatches(currentOrganizationId ?? ''),
+    enabled: isHydrated && !!currentOrganizationId,
+    staleTime: 30 * 1000,
+  })
+}
+
+/**
+ * Hook for watching an agent
+ *
+ * Automatically uses current organization from store.
+ * Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation for creating a watch
+ *
+ * @example
+ * ```tsx
+ * const watchAgent = useWatchAgent()
+ * watchAgent.mutate({ agentId: 42, chainId: 11155111 })
+ * ```
+ */
+export function useWatchAgent() {
+  const queryClient = useQueryClient()
+  const { currentOrganizationId } = useOrganizationStore()
+
+  return useMutation({
+    mutationFn: (request: WatchAgentRequest) =>
+      explorerApi.watch(currentOrganizationId ?? '', request),
+    onSuccess: (watch) => {
+      queryClient.setQueryData<AgentWatch[]>(
+        queryKeys.explorer.watches(currentOrganizationId ?? ''),
+        (watches) => [...(watches ?? []), watch]
+      )
+      toast.success(`Watching Agent #${watch.agentId}`)
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to watch agent')
+    },
+  })
+}
+
+/**
+ * Hook for removing an agent watch
+ *
+ * Automatically uses current organization from store.
+ * Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation that takes the watch ID
+ *
+ * @example
+ * ```tsx
+ * const unwatchAgent = useUnwatchAgent()
+ * unwatchAgent.mutate(watch.id)
+ * ```
+ */
+export function useUnwatchAgent() {
+  const queryClient = useQueryClient()
+  const { currentOrganizationId } = useOrganizationStore()
+
+  return useMutation({
+    mutationFn: (watchId: string) => explorerApi.unwatch(currentOrganizationId ?? '', watchId),
+    onSuccess: (_, watchId) => {
+      queryClient.setQueryData<AgentWatch[]>(
+        queryKeys.explorer.watches(currentOrganizationId ?? ''),
+        (watches) => watches?.filter((watch) => watch.id !== watchId)
+      )
+      toast.success('Stopped watching agent')
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to stop watching agent')
+    },
+  })
+}
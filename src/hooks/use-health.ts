@@ -66,3 +66,27 @@ export function useHealthStatus() {
     retry: false, // Don't retry on failure - getStatusSafe handles errors gracefully
   })
 }
+
+/**
+ * Hook for checking whether the event indexer is unavailable
+ *
+ * True when the health check reports the indexer as down or disconnected.
+ * Components use it to fall back to direct on-chain reads.
+ *
+ * @returns Whether the indexer is unavailable
+ *
+ * @example
+ * ```tsx
+ * function AgentOwner({ agent }: Props) {
+ *   const indexerDown = useIndexerDown()
+ *   const { data: onchain } = useOnchainAgent(agent.chainId, agent.agentId)
+ *
+ *   return <span>{indexerDown ? onchain?.owner : agent.walletAddress}</span>
+ * }
+ * ```
+ */
+export function useIndexerDown(): boolean {
+  const { data: health } = useHealthStatus()
+  const indexer = health?.services?.indexer
+  return indexer === 'down' || indexer === 'disconnected'
+}
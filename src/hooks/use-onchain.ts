@@ -0,0 +1,50 @@
+/**
+ * On-chain registry hooks
+ *
+ * React hooks reading ERC-8004 registries directly through viem, used to
+ * verify backend data and as a fallback while the indexer is down.
+ *
+ * @module hooks/use-onchain
+ */
+
+'use client'
+
+import { useQuery } from '@tanstack/react-query'
+import { OnchainError, readOnchainAgent } from '@/lib/onchain'
+import { queryKeys } from '@/lib/query-keys'
+
+/** Maximum retries for failed RPC calls */
+const MAX_RPC_RETRIES = 2
+
+/**
+ * Hook for reading an agent from the on-chain registries
+ *
+ * Only transient RPC failures are retried: unregistered agents, unsupported
+ * chains and chains without configured registries fail immediately.
+ *
+ * @param chainId - Chain the agent is registered on. Query disabled if null.
+ * @param agentId - On-chain agent ID. Query disabled if null.
+ * @returns TanStack Query result with the on-chain agent
+ *
+ * @example
+ * ```tsx
+ * function OnchainOwner({ chainId, agentId }: Props) {
+ *   const { data, error } = useOnchainAgent(chainId, agentId)
+ *
+ *   if (error) return <span>UNAVAILABLE</span>
+ *   return <span>{data?.owner ?? '--'}</span>
+ * }
+ * ```
+ */
+export function useOnchainAgent(chainId: number | null, agentId: number | null) {
+  return useQuery({
+    queryKey: queryKeys.onchain.agent(chainId ?? 0, agentId ?? 0),
+    queryFn: () => readOnchainAgent(chainId ?? 0, agentId ?? 0),
+    enabled: chainId !== null && agentId !== null,
+    staleTime: 60 * 1000,
+    retry: (failureCount, error) =>
+      error instanceof OnchainError &&
+      error.code === 'call_failed' &&
+      failureCount < MAX_RPC_RETRIES,
+  })
+}
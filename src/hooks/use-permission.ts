@@ -0,0 +1,78 @@
+/**
+ * Permission hooks
+ *
+ * React hook checking the current user's organization role against the
+ * permission matrix, for enabling or disabling controls.
+ *
+ * @module hooks/use-permission
+ */
+
+'use client'
+
+import type { OrganizationRole } from '@/lib/constants'
+import {
+  can,
+  getPermissionDeniedReason,
+  type PermissionAction,
+  type PermissionResource,
+} from '@/lib/permissions'
+import { useOrganizationStore } from '@/stores/organization-store'
+import { useCurrentOrganization, useOrganization } from './use-organizations'
+
+/**
+ * Result of a permission check
+ */
+export interface Permission {
+  /** Whether the action is allowed */
+  allowed: boolean
+  /** Why the action isn't allowed, for a tooltip; null when allowed */
+  reason: string | null
+  /** Role the check was made with; null while unknown */
+  role: OrganizationRole | null
+}
+
+/**
+ * Hook for checking whether the user may perform an action
+ *
+ * Uses the user's role in the current organization, falling back to the
+ * role saved when the organization was selected while it loads. Pages
+ * scoped to another organization (e.g. `/organizations/[id]`) pass its
+ * ID. Denied until the role is known.
+ *
+ * @param action - Action to perform
+ * @param resource - Resource to perform it on
+ * @param organizationId - Organization to check in (default: current)
+ * @returns Whether the action is allowed and why not
+ *
+ * @example
+ * ```tsx
+ * function NewTriggerButton() {
+ *   const { allowed, reason } = usePermission('create', 'trigger')
+ *
+ *   return (
+ *     <PermissionTooltip reason={reason}>
+ *       <Button disabled={!allowed}>[+ NEW TRIGGER]</Button>
+ *     </PermissionTooltip>
+ *   )
+ * }
+ * ```
+ */
+export function usePermission(
+  action: PermissionAction,
+  resource: PermissionResource,
+  organizationId?: string
+): Permission {
+  const storedRole = useOrganizationStore((state) => state.currentRole)
+  const { data: currentOrganization } = useCurrentOrganization()
+  const { data: organization } = useOrganization(organizationId ?? null)
+
+  const role = organizationId
+    ? (organization?.my_role ?? null)
+    : (currentOrganization?.my_role ?? storedRole)
+
+  return {
+    allowed: can(role, action, resource),
+    reason: getPermissionDeniedReason(role, action, resource),
+    role,
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Registry transaction hooks
+ *
+ * React hooks sending ERC-8004 registry transactions from the connected
+ * wallet: feedback on the reputation registry and validation requests on
+ * the validation registry. A loading toast follows each transaction from
+ * submission to confirmation, and the resulting event can be polled until
+ * the indexer picks it up.
+ *
+ * @module hooks/use-registry-actions
+ */
+
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import type { Hash } from 'viem'
+import { eventsApi } from '@/lib/api'
+import {
+  type RegistryTransactionResult,
+  type RegistryWriteOptions,
+  sendFeedback,
+  sendValidationRequest,
+} from '@/lib/onchain'
+import { queryKeys } from '@/lib/query-keys'
+import type { CreateValidationRequest, GiveFeedbackRequest } from '@/lib/validations'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+/** Polling interval while waiting for the indexer, in milliseconds */
+const INDEXED_EVENT_POLL_INTERVAL = 5 * 1000
+
+/**
+ * Options for registry transaction hooks
+ */
+export interface RegistryActionOptions {
+  /** Called with the transaction hash once the wallet has submitted it */
+  onSubmitted?: (hash: Hash) => void
+}
+
+/**
+ * Run a transaction with a toast that goes from pending to confirmed or failed
+ */
+async function withTransactionToast(
+  label: string,
+  send: (options: RegistryWriteOptions) => Promise<RegistryTransactionResult>,
+  onSubmitted?: (hash: Hash) => void
+): Promise<RegistryTransactionResult> {
+  let toastId: string | number | undefined
+
+  try {
+    const result = await send({
+      onSubmitted: (hash) => {
+        toastId = toast.loading(`${label} pending...`, { id: hash, description: hash })
+        onSubmitted?.(hash)
+      },
+    })
+    toast.success(`${label} confirmed`, { id: toastId, description: result.hash })
+    return result
+  } catch (error) {
+    toast.error(error instanceof Error ? error.message : `${label} failed`, { id: toastId })
+    throw error
+  }
+}
+
+/**
+ * Hook for giving feedback to an agent on-chain
+ *
+ * Switches the wallet to the agent's chain when needed and estimates gas
+ * before asking the wallet to sign. Refreshes the agent's on-chain reads
+ * once the transaction is confirmed.
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - On-chain agent ID
+ * @param options - Submission callback
+ * @returns TanStack Mutation for submitting feedback
+ *
+ * @example
+ * ```tsx
+ * function FeedbackButton({ chainId, agentId }: Props) {
+ *   const giveFeedback = useGiveFeedback(chainId, agentId)
+ *
+ *   return (
+ *     <Button onClick={() => giveFeedback.mutate({ score: 90 })}>
+ *       {giveFeedback.isPending ? 'Sending...' : 'Give feedback'}
+ *     </Button>
+ *   )
+ * }
+ * ```
+ */
+export function useGiveFeedback(
+  chainId: number,
+  agentId: number,
+  options: RegistryActionOptions = {}
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (request: GiveFeedbackRequest) =>
+      withTransactionToast(
+        'Feedback',
+        (writeOptions) => sendFeedback(chainId, agentId, request, writeOptions),
+        options.onSubmitted
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.onchain.agent(chainId, agentId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.explorer.agent(chainId, agentId) })
+    },
+  })
+}
+
+/**
+ * Hook for requesting validation of an agent on-chain
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - On-chain agent ID
+ * @param options - Submission callback
+ * @returns TanStack Mutation for submitting the validation request
+ *
+ * @example
+ * ```tsx
+ * const requestValidation = useRequestValidation(chainId, agentId)
+ * requestValidation.mutate({
+ *   validatorAddress: '0x...',
+ *   requestUri: 'ipfs://request.json',
+ * })
+ * ```
+ */
+export function useRequestValidation(
+  chainId: number,
+  agentId: number,
+  options: RegistryActionOptions = {}
+) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (request: CreateValidationRequest) =>
+      withTransactionToast(
+        'Validation request',
+        (writeOptions) => sendValidationRequest(chainId, agentId, request, writeOptions),
+        options.onSubmitted
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.onchain.agent(chainId, agentId) })
+      queryClient.invalidateQueries({ queryKey: queryKeys.explorer.validations(chainId, agentId) })
+    },
+  })
+}
+
+/**
+ * Hook for waiting until a transaction's event has been indexed
+ *
+ * Polls the events API for the transaction hash and stops once the event
+ * shows up.
+ *
+ * @param chainId - Chain the transaction was sent on
+ * @param transactionHash - Transaction hash. Query disabled if null.
+ * @returns TanStack Query result with the indexed event, null until indexed
+ *
+ * @example
+ * ```tsx
+ * const { data: event } = useIndexedTransactionEvent(chainId, result?.hash ?? null)
+ * if (event) return <Link href={`/dashboard/events/${event.id}`}>[VIEW EVENT]</Link>
+ * ```
+ */
+export function useIndexedTransactionEvent(chainId: number, transactionHash: string | null) {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+
+  return useQuery({
+    queryKey: queryKeys.events.byTransaction(chainId, transactionHash ?? ''),
+    queryFn: async () => {
+      const { data } = await eventsApi.list(currentOrganizationId ?? '', {
+        chainId,
+        transactionHash: transactionHash ?? undefined,
+        limit: 1,
+      })
+      return data[0] ?? null
+    },
+    enabled: isHydrated && !!currentOrganizationId && !!transactionHash,
+    refetchInterval: (query) => (query.state.data ? false : INDEXED_EVENT_POLL_INTERVAL),
+  })
+}
@@ -0,0 +1,232 @@
+/**
+ * Trigger bundle hooks
+ *
+ * React hooks to export triggers to a versioned JSON/YAML bundle and to
+ * import a bundle into an organization. Imports run in two steps: a dry
+ * run that plans every trigger (create, replace, skip, invalid) without
+ * changing anything, then the import of the confirmed plan.
+ *
+ * @module hooks/use-trigger-bundles
+ */
+
+'use client'
+
+import { useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { triggersApi } from '@/lib/api'
+import { queryKeys } from '@/lib/query-keys'
+import {
+  createTriggerBundle,
+  getTriggerBundleFilename,
+  planTriggerImport,
+  serializeTriggerBundle,
+  type TriggerImportItem,
+} from '@/lib/trigger-bundles'
+import type { Trigger } from '@/lib/validations/trigger'
+import type {
+  TriggerBundle,
+  TriggerExportOptions,
+  TriggerImportConflictStrategy,
+} from '@/lib/validations/trigger-bundle'
+
+/** Page size when listing all triggers of an organization */
+const PAGE_SIZE = 100
+
+/**
+ * List every trigger of an organization, following pagination
+ */
+async function listAllTriggers(orgId: string): Promise<Trigger[]> {
+  const triggers: Trigger[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await triggersApi.list(orgId, { limit: PAGE_SIZE, offset })
+    triggers.push(...page.data)
+    if (!page.pagination.hasMore || page.data.length === 0) return triggers
+  }
+}
+
+/**
+ * Export request: which triggers, in which format
+ */
+export interface ExportTriggersRequest extends TriggerExportOptions {
+  /** Trigger IDs to export, or `all` */
+  triggerIds: string[] | 'all'
+  /** Recorded as the bundle source */
+  organizationName?: string
+}
+
+/**
+ * Serialized bundle ready to download
+ */
+export interface ExportedTriggerBundle {
+  bundle: TriggerBundle
+  filename: string
+  content: string
+}
+
+/**
+ * Result of importing a planned bundle
+ */
+export interface ImportTriggersResult {
+  created: number
+  replaced: number
+  failed: { name: string; error: string }[]
+}
+
+/**
+ * Hook for exporting triggers to a bundle
+ *
+ * Fetches each trigger with its conditions and actions, then builds and
+ * serializes the bundle. Secrets are redacted unless `includeSecrets` is set.
+ *
+ * @param orgId - Organization UUID
+ * @returns TanStack Mutation resolving to the bundle file
+ *
+ * @example
+ * ```tsx
+ * const exportTriggers = useExportTriggers(orgId)
+ * exportTriggers.mutate(
+ *   { triggerIds: 'all', fileFormat: 'yaml' },
+ *   { onSuccess: ({ filename, content }) => download(filename, content) }
+ * )
+ * ```
+ */
+export function useExportTriggers(orgId: string) {
+  return useMutation({
+    mutationFn: async (request: ExportTriggersRequest): Promise<ExportedTriggerBundle> => {
+      const ids =
+        request.triggerIds === 'all'
+          ? (await listAllTriggers(orgId)).map((t) => t.id)
+          : request.triggerIds
+      if (ids.length === 0) throw new Error('No triggers to export')
+
+      const triggers: Trigger[] = []
+      for (const id of ids) triggers.push(await triggersApi.get(id))
+
+      const fileFormat = request.fileFormat ?? 'json'
+      const bundle = createTriggerBundle(triggers, {
+        organizationId: orgId,
+        organizationName: request.organizationName,
+        includeSecrets: request.includeSecrets,
+      })
+      return {
+        bundle,
+        filename: getTriggerBundleFilename(bundle, fileFormat),
+        content: serializeTriggerBundle(bundle, fileFormat),
+      }
+    },
+    onSuccess: ({ bundle }) => {
+      toast.success(
+        `Exported ${bundle.triggers.length} trigger${bundle.triggers.length !== 1 ? 's' : ''}`
+      )
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to export triggers')
+    },
+  })
+}
+
+/**
+ * Hook for planning a bundle import (dry run)
+ *
+ * Loads the organization's triggers and matches the bundle against them.
+ * Nothing is created or changed.
+ *
+ * @param orgId - Organization UUID
+ * @returns TanStack Mutation resolving to the import plan
+ *
+ * @example
+ * ```tsx
+ * const planImport = usePlanTriggerImport(orgId)
+ * planImport.mutate({ bundle: parseTriggerBundle(text), strategy: 'rename' })
+ * ```
+ */
+export function usePlanTriggerImport(orgId: string) {
+  return useMutation({
+    mutationFn: async ({
+      bundle,
+      strategy,
+    }: {
+      bundle: TriggerBundle
+      strategy: TriggerImportConflictStrategy
+    }) => {
+      const existing = await listAllTriggers(orgId)
+      const plan = planTriggerImport(bundle, existing, strategy)
+      if (strategy !== 'replace') return plan
+
+      // Replacements are diffed against the full trigger, with its conditions and actions
+      const details = new Map<string, Trigger>()
+      for (const item of plan.items) {
+        if (item.action === 'replace' && item.conflict) {
+          details.set(item.conflict.id, await triggersApi.get(item.conflict.id))
+        }
+      }
+      return planTriggerImport(
+        bundle,
+        existing.map((t) => details.get(t.id) ?? t),
+        strategy
+      )
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to check existing triggers')
+    },
+  })
+}
+
+/**
+ * Hook for importing planned triggers
+ *
+ * Creates and replaces triggers one by one, in bundle order. A failing
+ * trigger doesn't stop the import; failures are returned in the result.
+ * Skipped and invalid items are ignored.
+ *
+ * @param orgId - Organization UUID
+ * @returns TanStack Mutation that takes the plan items
+ *
+ * @example
+ * ```tsx
+ * const importTriggers = useImportTriggers(orgId)
+ * importTriggers.mutate(plan.items)
+ * ```
+ */
+export function useImportTriggers(orgId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (items: TriggerImportItem[]): Promise<ImportTriggersResult> => {
+      const result: ImportTriggersResult = { created: 0, replaced: 0, failed: [] }
+      for (const item of items) {
+        if (!item.request) continue
+        try {
+          if (item.action === 'create') {
+            await triggersApi.create(orgId, item.request)
+            result.created++
+          } else if (item.action === 'replace' && item.conflict) {
+            // Chain and registry can't change on update
+            const { chainId: _chainId, registry: _registry, ...update } = item.request
+            await triggersApi.update(item.conflict.id, update)
+            result.replaced++
+          }
+        } catch (error) {
+          result.failed.push({
+            name: item.request.name,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          })
+        }
+      }
+      return result
+    },
+    onSuccess: ({ created, replaced, failed }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.triggers.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats.all })
+      const summary = `${created} created, ${replaced} replaced`
+      if (failed.length > 0) {
+        toast.error(`Import finished with ${failed.length} failure(s): ${summary}`)
+      } else {
+        toast.success(`Triggers imported: ${summary}`)
+      }
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to import triggers')
+    },
+  })
+}
@@ -11,13 +11,17 @@ import { zodResolver } from '@hookform/resolvers/zod'
 import { useRouter } from 'next/navigation'
 import { useForm } from 'react-hook-form'
 import { toast } from 'sonner'
+import { mapConditionTree } from '@/lib/condition-tree'
 import { SUPPORTED_CHAINS } from '@/lib/constants'
 import { handleError } from '@/lib/error-handler'
+import { normalizeConditionValue } from '@/lib/event-schemas'
 import { useFormSteps } from './use-form-steps'
 import {
   createTriggerRequestSchema,
+  type CreateTriggerFormValues,
   type CreateTriggerRequest,
   type Trigger,
+  type TriggerCondition,
 } from '@/lib/validations/trigger'
 import { useCreateTrigger, useUpdateTrigger } from './use-triggers'
 
@@ -26,6 +30,55 @@ import { useCreateTrigger, useUpdateTrigger } from './use-triggers'
  */
 export type TriggerFormStep = 'basic' | 'conditions' | 'actions' | 'review'
 
+/**
+ * Build the initial values of the trigger form
+ *
+ * Values come from the trigger being edited, else from `initialValues`
+ * (e.g. an instantiated template), else from empty defaults with one
+ * blank condition and one Telegram action.
+ *
+ * @param trigger - Existing trigger for edit mode (optional)
+ * @param initialValues - Prefilled values for create mode (optional)
+ * @param defaultChainId - Chain used when neither provides one
+ * @returns Form default values
+ */
+export function getTriggerFormDefaults(
+  trigger?: Trigger,
+  initialValues?: Partial<CreateTriggerFormValues>,
+  defaultChainId: number = SUPPORTED_CHAINS.MAINNET
+): CreateTriggerFormValues {
+  if (!trigger && initialValues) {
+    return {
+      ...getTriggerFormDefaults(undefined, undefined, defaultChainId),
+      ...initialValues,
+    }
+  }
+
+  return {
+    name: trigger?.name ?? '',
+    description: trigger?.description ?? '',
+    chainId: trigger?.chainId ?? defaultChainId,
+    registry: trigger?.registry ?? 'reputation',
+    enabled: trigger?.enabled ?? true,
+    isStateful: trigger?.isStateful ?? false,
+    stateConfig: (trigger?.isStateful && trigger.stateConfig) || undefined,
+    conditions: trigger?.conditions
+      ? mapConditionTree(trigger.conditions, (c: TriggerCondition) => ({
+          conditionType: c.conditionType,
+          field: c.field,
+          operator: c.operator,
+          value: normalizeConditionValue(c.field, c.value),
+          config: c.config,
+        }))
+      : [{ conditionType: '', field: '', operator: 'eq', value: '', config: {} }],
+    actions: trigger?.actions?.map((a) => ({
+      actionType: a.actionType,
+      priority: a.priority,
+      config: a.config,
+    })) ?? [{ actionType: 'telegram', priority: 0, config: {} }],
+  }
+}
+
 /**
  * Hook for managing trigger creation/edit form
  *
@@ -38,6 +91,7 @@ export type TriggerFormStep = 'basic' | 'conditions' | 'actions' | 'review'
  * @param organizationId - Organization UUID for the trigger
  * @param trigger - Existing trigger for edit mode (optional)
  * @param mode - 'create' or 'edit' mode (default: 'create')
+ * @param initialValues - Prefilled values for create mode, e.g. from a template (optional)
  * @returns Form state and control functions
  *
  * @example
@@ -84,7 +138,12 @@ export type TriggerFormStep = 'basic' | 'conditions' | 'actions' | 'review'
  * }
  * ```
  */
-export function useTriggerForm(organizationId: string, trigger?: Trigger, mode: 'create' | 'edit' = 'create') {
+export function useTriggerForm(
+  organizationId: string,
+  trigger?: Trigger,
+  mode: 'create' | 'edit' = 'create',
+  initialValues?: Partial<CreateTriggerFormValues>
+) {
   const router = useRouter()
   const createMutation = useCreateTrigger(organizationId)
   const updateMutation = useUpdateTrigger(trigger?.id ?? '')
@@ -92,26 +151,7 @@ export function useTriggerForm(organizationId: string, trigger?: Trigger, mode:
   // Form state
   const form = useForm({
     resolver: zodResolver(createTriggerRequestSchema),
-    defaultValues: {
-      name: trigger?.name ?? '',
-      description: trigger?.description ?? '',
-      chainId: trigger?.chainId ?? SUPPORTED_CHAINS.MAINNET,
-      registry: trigger?.registry ?? 'reputation',
-      enabled: trigger?.enabled ?? true,
-      isStateful: trigger?.isStateful ?? false,
-      conditions: trigger?.conditions?.map((c) => ({
-        conditionType: c.conditionType,
-        field: c.field,
-        operator: c.operator,
-        value: c.value,
-        config: c.config,
-      })) ?? [{ conditionType: '', field: '', operator: 'eq', value: '', config: {} }],
-      actions: trigger?.actions?.map((a) => ({
-        actionType: a.actionType,
-        priority: a.priority,
-        config: a.config,
-      })) ?? [{ actionType: 'telegram', priority: 0, config: {} }],
-    },
+    defaultValues: getTriggerFormDefaults(trigger, initialValues),
   })
 
   // Step management
@@ -0,0 +1,111 @@
+/**
+ * Trigger template hooks
+ *
+ * React hooks for the organization's saved trigger templates, shown in the
+ * template gallery next to the built-in templates.
+ *
+ * @module hooks/use-trigger-templates
+ */
+
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { triggerTemplatesApi } from '@/lib/api'
+import { queryKeys } from '@/lib/query-keys'
+import type {
+  CreateTriggerTemplateRequest,
+  TriggerTemplate,
+} from '@/lib/validations/trigger-template'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+/**
+ * Hook for listing the current organization's trigger templates
+ *
+ * @returns TanStack Query result with the templates
+ *
+ * @example
+ * ```tsx
+ * const { data: templates } = useTriggerTemplates()
+ * ```
+ */
+export function useTriggerTemplates() {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+
+  return useQuery({
+    queryKey: queryKeys.triggerTemplates.list(currentOrganizationId ?? ''),
+    queryFn: () => triggerTemplatesApi.list(currentOrganizationId ?? ''),
+    enabled: isHydrated && !!currentOrganizationId,
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Hook for saving a trigger template
+ *
+ * Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation for creating a template
+ *
+ * @example
+ * ```tsx
+ * const createTemplate = useCreateTriggerTemplate()
+ * createTemplate.mutate({
+ *   name: 'Low reputation',
+ *   category: 'reputation',
+ *   parameters: [],
+ *   trigger: toTriggerTemplateBody(getTriggerFormDefaults(trigger)),
+ * })
+ * ```
+ */
+export function useCreateTriggerTemplate() {
+  const queryClient = useQueryClient()
+  const { currentOrganizationId } = useOrganizationStore()
+
+  return useMutation({
+    mutationFn: (request: CreateTriggerTemplateRequest) =>
+      triggerTemplatesApi.create(currentOrganizationId ?? '', request),
+    onSuccess: (template) => {
+      queryClient.setQueryData<TriggerTemplate[]>(
+        queryKeys.triggerTemplates.list(currentOrganizationId ?? ''),
+        (templates) => (templates ? [...templates, template] : templates)
+      )
+      toast.success(`Template "${template.name}" saved`)
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to save template')
+    },
+  })
+}
+
+/**
+ * Hook for deleting a trigger template
+ *
+ * Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation that takes the template ID
+ *
+ * @example
+ * ```tsx
+ * const deleteTemplate = useDeleteTriggerTemplate()
+ * deleteTemplate.mutate(template.id)
+ * ```
+ */
+export function useDeleteTriggerTemplate() {
+  const queryClient = useQueryClient()
+  const { currentOrganizationId } = useOrganizationStore()
+
+  return useMutation({
+    mutationFn: (id: string) => triggerTemplatesApi.delete(currentOrganizationId ?? '', id),
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<TriggerTemplate[]>(
+        queryKeys.triggerTemplates.list(currentOrganizationId ?? ''),
+        (templates) => templates?.filter((t) => t.id !== id)
+      )
+      toast.success('Template deleted')
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete template')
+    },
+  })
+}
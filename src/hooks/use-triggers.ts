@@ -2,7 +2,9 @@
  * Trigger hooks
  *
  * React hooks for managing automation triggers.
- * Provides CRUD operations, enable/disable toggles, and test execution.
+ * Provides CRUD operations, enable/disable toggles, test execution,
+ * execution history with replay, stateful trigger state, and revision
+ * history with rollback.
  *
  * @module hooks/use-triggers
  */
@@ -16,11 +18,21 @@ import { queryKeys } from '@/lib/query-keys'
 import type {
   CreateTriggerRequest,
   Trigger,
+  TriggerExecution,
+  TriggerExecutionFilters,
   TriggerFilters,
   UpdateTriggerRequest,
 } from '@/lib/validations'
 import type { PaginationParams } from '@/types/api'
 
+/** How often an execution that is still in progress is refetched */
+const EXECUTION_POLL_INTERVAL = 3 * 1000 // 3 seconds
+
+/** Whether an execution may still change */
+function isExecutionInProgress(execution: TriggerExecution | undefined): boolean {
+  return execution?.status === 'pending' || execution?.status === 'running'
+}
+
 /**
  * Hook for listing triggers for an organization
  *
@@ -357,3 +369,248 @@ export function useToggleTrigger() {
     isPending: enableMutation.isPending || disableMutation.isPending,
   }
 }
+
+/**
+ * Hook for listing trigger executions
+ *
+ * Returns paginated execution history, most recent first.
+ * Data is cached for 15 seconds since new runs arrive continuously.
+ *
+ * @param triggerId - Trigger UUID. Query disabled if null.
+ * @param params - Optional pagination and status/date filters
+ * @returns TanStack Query result with executions list
+ *
+ * @example
+ * ```tsx
+ * function FailedRuns({ triggerId }: { triggerId: string }) {
+ *   const { data } = useTriggerExecutions(triggerId, { status: 'failed' })
+ *
+ *   return <p>{data?.pagination.total ?? 0} failed runs</p>
+ * }
+ * ```
+ */
+export function useTriggerExecutions(
+  triggerId: string | null,
+  params?: PaginationParams & TriggerExecutionFilters
+) {
+  return useQuery({
+    queryKey: queryKeys.triggers.executions(triggerId ?? '', params),
+    queryFn: () => {
+      if (!triggerId) throw new Error('Trigger ID is required')
+      return triggersApi.listExecutions(triggerId, params)
+    },
+    enabled: !!triggerId,
+    staleTime: 15 * 1000, // 15 seconds
+  })
+}
+
+/**
+ * Hook for getting a single trigger execution
+ *
+ * Fetches the matched event and per-action results for drill-down.
+ * Pending and running executions are polled until they finish; finished
+ * executions never change, so they are cached for 5 minutes.
+ *
+ * @param triggerId - Trigger UUID
+ * @param executionId - Execution UUID. Query disabled if null.
+ * @returns TanStack Query result with execution details
+ *
+ * @example
+ * ```tsx
+ * function ExecutionDetail({ triggerId, executionId }: Props) {
+ *   const { data: run } = useTriggerExecution(triggerId, executionId)
+ *
+ *   return <p>{run?.actionResults.length} actions</p>
+ * }
+ * ```
+ */
+export function useTriggerExecution(triggerId: string, executionId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.triggers.execution(triggerId, executionId ?? ''),
+    queryFn: () => {
+      if (!executionId) throw new Error('Execution ID is required')
+      return triggersApi.getExecution(triggerId, executionId)
+    },
+    enabled: !!triggerId && !!executionId,
+    staleTime: (query) => (isExecutionInProgress(query.state.data) ? 0 : 5 * 60 * 1000), // 5 minutes
+    refetchInterval: (query) =>
+      isExecutionInProgress(query.state.data) ? EXECUTION_POLL_INTERVAL : false,
+  })
+}
+
+/**
+ * Hook for replaying a trigger execution
+ *
+ * Re-runs the trigger's actions against the event of a previous
+ * execution and refreshes the execution history.
+ * Shows success/error toast notifications.
+ *
+ * @param triggerId - Trigger UUID
+ * @returns TanStack Mutation taking the execution ID to replay
+ *
+ * @example
+ * ```tsx
+ * function ReplayButton({ triggerId, executionId }: Props) {
+ *   const replay = useReplayTriggerExecution(triggerId)
+ *
+ *   return (
+ *     <Button onClick={() => replay.mutate(executionId)} disabled={replay.isPending}>
+ *       [REPLAY]
+ *     </Button>
+ *   )
+ * }
+ * ```
+ */
+export function useReplayTriggerExecution(triggerId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (executionId: string) => triggersApi.replayExecution(triggerId, executionId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [...queryKeys.triggers.all, 'executions', triggerId],
+      })
+      queryClient.invalidateQueries({ queryKey: queryKeys.triggers.detail(triggerId) })
+      toast.success('Execution replay started')
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to replay execution')
+    },
+  })
+}
+
+/**
+ * Hook for getting the state of a stateful trigger
+ *
+ * Returns current counters and cooldowns. Refetched every 30 seconds
+ * while mounted since state changes as events arrive.
+ *
+ * @param triggerId - Trigger UUID. Query disabled if null.
+ * @param options - Set `enabled: false` for non-stateful triggers
+ * @returns TanStack Query result with trigger state
+ *
+ * @example
+ * ```tsx
+ * function StateSummary({ trigger }: { trigger: Trigger }) {
+ *   const { data: state } = useTriggerState(trigger.id, { enabled: trigger.isStateful })
+ *
+ *   return <p>{state?.entries.length ?? 0} tracked agents</p>
+ * }
+ * ```
+ */
+export function useTriggerState(triggerId: string | null, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.triggers.state(triggerId ?? ''),
+    queryFn: () => {
+      if (!triggerId) throw new Error('Trigger ID is required')
+      return triggersApi.getState(triggerId)
+    },
+    enabled: !!triggerId && (options?.enabled ?? true),
+    staleTime: 15 * 1000, // 15 seconds
+    refetchInterval: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook for resetting the state of a stateful trigger
+ *
+ * Clears counters and cooldowns for one agent, or for the whole trigger
+ * when called without an agent ID.
+ * Shows success/error toast notifications.
+ *
+ * @param triggerId - Trigger UUID
+ * @returns TanStack Mutation taking an optional agent ID
+ *
+ * @example
+ * ```tsx
+ * function ResetButton({ triggerId }: { triggerId: string }) {
+ *   const reset = useResetTriggerState(triggerId)
+ *
+ *   return <Button onClick={() => reset.mutate(undefined)}>[RESET STATE]</Button>
+ * }
+ * ```
+ */
+export function useResetTriggerState(triggerId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (agentId?: number) => triggersApi.resetState(triggerId, agentId),
+    onSuccess: (state, agentId) => {
+      queryClient.setQueryData(queryKeys.triggers.state(triggerId), state)
+      toast.success(
+        agentId !== undefined ? `State reset for agent #${agentId}` : 'Trigger state reset'
+      )
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset trigger state')
+    },
+  })
+}
+
+/**
+ * Hook for listing trigger revisions
+ *
+ * Returns the saved versions of a trigger, most recent first.
+ *
+ * @param triggerId - Trigger UUID. Query disabled if null.
+ * @param params - Optional pagination parameters
+ * @returns TanStack Query result with revisions list
+ *
+ * @example
+ * ```tsx
+ * function LastEdit({ triggerId }: { triggerId: string }) {
+ *   const { data } = useTriggerRevisions(triggerId, { limit: 1 })
+ *   const latest = data?.data[0]
+ *
+ *   return <p>Edited by {latest?.author?.name ?? 'system'}</p>
+ * }
+ * ```
+ */
+export function useTriggerRevisions(triggerId: string | null, params?: PaginationParams) {
+  return useQuery({
+    queryKey: queryKeys.triggers.revisions(triggerId ?? '', params),
+    queryFn: () => triggersApi.listRevisions(triggerId ?? '', params),
+    enabled: !!triggerId,
+    staleTime: 30 * 1000, // 30 seconds
+  })
+}
+
+/**
+ * Hook for rolling a trigger back to a previous revision
+ *
+ * Restores the revision's content, records the rollback as a new
+ * revision and refreshes the trigger.
+ * Shows success/error toast notifications.
+ *
+ * @param triggerId - Trigger UUID
+ * @returns TanStack Mutation taking the revision number to restore
+ *
+ * @example
+ * ```tsx
+ * function RollbackButton({ triggerId, revision }: Props) {
+ *   const rollback = useRollbackTrigger(triggerId)
+ *
+ *   return (
+ *     <Button onClick={() => rollback.mutate(revision)} disabled={rollback.isPending}>
+ *       [ROLLBACK]
+ *     </Button>
+ *   )
+ * }
+ * ```
+ */
+export function useRollbackTrigger(triggerId: string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (revision: number) => triggersApi.rollback(triggerId, revision),
+    onSuccess: (trigger, revision) => {
+      queryClient.setQueryData(queryKeys.triggers.detail(triggerId), trigger)
+      queryClient.invalidateQueries({ queryKey: queryKeys.triggers.all })
+      queryClient.invalidateQueries({ queryKey: queryKeys.stats.all })
+      toast.success(`Trigger "${trigger.name}" rolled back to revision ${revision}`)
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to roll back trigger')
+    },
+  })
+}
@@ -0,0 +1,241 @@
+/**
+ * Watchlist hooks
+ *
+ * React hooks for managing the organization's agent watchlists, the named
+ * sets of agents that trigger conditions and event filters can target.
+ *
+ * @module hooks/use-watchlists
+ */
+
+'use client'
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { watchlistsApi } from '@/lib/api'
+import { queryKeys } from '@/lib/query-keys'
+import type {
+  CreateWatchlistRequest,
+  UpdateWatchlistRequest,
+  Watchlist,
+  WatchlistAgent,
+} from '@/lib/validations/watchlist'
+import { useOrganizationStore } from '@/stores/organization-store'
+
+/**
+ * Hook for listing the current organization's watchlists
+ *
+ * @returns TanStack Query result with the watchlists and their agents
+ *
+ * @example
+ * ```tsx
+ * const { data: watchlists } = useWatchlists()
+ * ```
+ */
+export function useWatchlists() {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+
+  return useQuery({
+    queryKey: queryKeys.watchlists.list(currentOrganizationId ?? ''),
+    queryFn: () => watchlistsApi.list(currentOrganizationId ?? ''),
+    enabled: isHydrated && !!currentOrganizationId,
+    staleTime: 30 * 1000,
+  })
+}
+
+/**
+ * Hook for fetching a single watchlist
+ *
+ * @param id - Watchlist UUID. Query disabled if null.
+ * @returns TanStack Query result with the watchlist
+ *
+ * @example
+ * ```tsx
+ * const { data: watchlist } = useWatchlist(params.id)
+ * ```
+ */
+export function useWatchlist(id: string | null) {
+  const { currentOrganizationId, isHydrated } = useOrganizationStore()
+
+  return useQuery({
+    queryKey: queryKeys.watchlists.detail(currentOrganizationId ?? '', id ?? ''),
+    queryFn: () => watchlistsApi.get(currentOrganizationId ?? '', id ?? ''),
+    enabled: isHydrated && !!currentOrganizationId && !!id,
+  })
+}
+
+/**
+ * Store an updated watchlist in the detail and list caches
+ */
+function useSetWatchlistData() {
+  const queryClient = useQueryClient()
+  const { currentOrganizationId } = useOrganizationStore()
+  const orgId = currentOrganizationId ?? ''
+
+  return (watchlist: Watchlist) => {
+    queryClient.setQueryData(queryKeys.watchlists.detail(orgId, watchlist.id), watchlist)
+    queryClient.setQueryData<Watchlist[]>(queryKeys.watchlists.list(orgId), (watchlists) =>
+      watchlists?.map((w) => (w.id === watchlist.id ? watchlist : w))
+    )
+  }
+}
+
+/**
+ * Hook for creating a watchlist
+ *
+ * Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation for creating a watchlist
+ *
+ * @example
+ * ```tsx
+ * const createWatchlist = useCreateWatchlist()
+ * createWatchlist.mutate({ name: 'Production fleet' })
+ * ```
+ */
+export function useCreateWatchlist() {
+  const queryClient = useQueryClient()
+  const { currentOrganizationId } = useOrganizationStore()
+
+  return useMutation({
+    mutationFn: (request: CreateWatchlistRequest) =>
+      watchlistsApi.create(currentOrganizationId ?? '', request),
+    onSuccess: (watchlist) => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.watchlists.list(currentOrganizationId ?? ''),
+      })
+      toast.success(`Watchlist "${watchlist.name}" created`)
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to create watchlist')
+    },
+  })
+}
+
+/**
+ * Hook for renaming a watchlist or changing its description
+ *
+ * Shows success/error toast notifications.
+ *
+ * @param id - Watchlist UUID
+ * @returns TanStack Mutation for updating the watchlist
+ *
+ * @example
+ * ```tsx
+ * const updateWatchlist = useUpdateWatchlist(watchlist.id)
+ * updateWatchlist.mutate({ name: 'Staging fleet' })
+ * ```
+ */
+export function useUpdateWatchlist(id: string) {
+  const { currentOrganizationId } = useOrganizationStore()
+  const setWatchlistData = useSetWatchlistData()
+
+  return useMutation({
+    mutationFn: (request: UpdateWatchlistRequest) =>
+      watchlistsApi.update(currentOrganizationId ?? '', id, request),
+    onSuccess: (watchlist) => {
+      setWatchlistData(watchlist)
+      toast.success('Watchlist updated')
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to update watchlist')
+    },
+  })
+}
+
+/**
+ * Hook for deleting a watchlist
+ *
+ * Shows success/error toast notifications.
+ *
+ * @returns TanStack Mutation that takes the watchlist ID
+ *
+ * @example
+ * ```tsx
+ * const deleteWatchlist = useDeleteWatchlist()
+ * deleteWatchlist.mutate(watchlist.id)
+ * ```
+ */
+export function useDeleteWatchlist() {
+  const queryClient = useQueryClient()
+  const { currentOrganizationId } = useOrganizationStore()
+
+  return useMutation({
+    mutationFn: (id: string) => watchlistsApi.delete(currentOrganizationId ?? '', id),
+    onSuccess: (_, id) => {
+      const orgId = currentOrganizationId ?? ''
+      queryClient.setQueryData<Watchlist[]>(queryKeys.watchlists.list(orgId), (watchlists) =>
+        watchlists?.filter((w) => w.id !== id)
+      )
+      queryClient.removeQueries({ queryKey: queryKeys.watchlists.detail(orgId, id) })
+      toast.success('Watchlist deleted')
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete watchlist')
+    },
+  })
+}
+
+/**
+ * Hook for adding agents to a watchlist
+ *
+ * Handles single additions as well as bulk CSV imports.
+ * Shows success/error toast notifications.
+ *
+ * @param id - Watchlist UUID
+ * @returns TanStack Mutation that takes the agents to add
+ *
+ * @example
+ * ```tsx
+ * const addAgents = useAddWatchlistAgents(watchlist.id)
+ * addAgents.mutate(parseWatchlistCsv(text, 11155111).agents)
+ * ```
+ */
+export function useAddWatchlistAgents(id: string) {
+  const { currentOrganizationId } = useOrganizationStore()
+  const setWatchlistData = useSetWatchlistData()
+
+  return useMutation({
+    mutationFn: (agents: WatchlistAgent[]) =>
+      watchlistsApi.addAgents(currentOrganizationId ?? '', id, { agents }),
+    onSuccess: (watchlist, agents) => {
+      setWatchlistData(watchlist)
+      toast.success(
+        agents.length === 1 ? 'Agent added to watchlist' : `${agents.length} agents imported`
+      )
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to add agents')
+    },
+  })
+}
+
+/**
+ * Hook for removing an agent from a watchlist
+ *
+ * Shows success/error toast notifications.
+ *
+ * @param id - Watchlist UUID
+ * @returns TanStack Mutation that takes the agent to remove
+ *
+ * @example
+ * ```tsx
+ * const removeAgent = useRemoveWatchlistAgent(watchlist.id)
+ * removeAgent.mutate({ agentId: 42, chainId: 11155111 })
+ * ```
+ */
+export function useRemoveWatchlistAgent(id: string) {
+  const { currentOrganizationId } = useOrganizationStore()
+  const setWatchlistData = useSetWatchlistData()
+
+  return useMutation({
+    mutationFn: ({ agentId, chainId }: WatchlistAgent) =>
+      watchlistsApi.removeAgent(currentOrganizationId ?? '', id, chainId, agentId),
+    onSuccess: (watchlist, agent) => {
+      setWatchlistData(watchlist)
+      toast.success(`Agent #${agent.agentId} removed from watchlist`)
+    },
+    onError: (error) => {
+      toast.error(error instanceof Error ? error.message : 'Failed to remove agent')
+    },
+  })
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest'
+import type { BlockchainEvent } from '@/lib/validations/event'
+import {
+  getActivityBuckets,
+  getEventTypeBreakdown,
+  getRangeStart,
+  getReputationTimeline,
+  getValidationRatio,
+  MAX_ACTIVITY_BUCKETS,
+  summarizeAgentAnalytics,
+} from '../agent-analytics'
+
+const NOW = Date.parse('2025-01-10T12:30:00Z')
+
+let nextId = 0
+const makeEvent = (
+  eventType: string,
+  timestamp: string,
+  data: Record<string, unknown> = {}
+): BlockchainEvent => ({
+  id: `event-${nextId++}`,
+  eventType,
+  agentId: 42,
+  chainId: 11155111,
+  registry: eventType.startsWith('Validation') ? 'validation' : 'reputation',
+  blockNumber: 1,
+  transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+  data,
+  timestamp,
+  createdAt: timestamp,
+})
+
+describe('getRangeStart', () => {
+  it('should subtract the range duration from now', () => {
+    expect(getRangeStart('24h', NOW)?.toISOString()).toBe('2025-01-09T12:30:00.000Z')
+    expect(getRangeStart('7d', NOW)?.toISOString()).toBe('2025-01-03T12:30:00.000Z')
+    expect(getRangeStart('all', NOW)).toBeNull()
+  })
+})
+
+describe('getReputationTimeline', () => {
+  it('should return scores of reputation updates, oldest first', () => {
+    const timeline = getReputationTimeline([
+      makeEvent('ReputationUpdated', '2025-01-09T00:00:00Z', { score: 90 }),
+      makeEvent('ValidationCompleted', '2025-01-08T00:00:00Z', { response: 100 }),
+      makeEvent('ReputationChanged', '2025-01-07T00:00:00Z', { score: '80' }),
+      makeEvent('ReputationUpdated', '2025-01-08T00:00:00Z', { score: 'n/a' }),
+    ])
+    expect(timeline).toEqual([
+      { timestamp: '2025-01-07T00:00:00Z', score: 80 },
+      { timestamp: '2025-01-09T00:00:00Z', score: 90 },
+    ])
+  })
+})
+
+describe('getActivityBuckets', () => {
+  it('should count events per hour for the 24h range, including empty hours', () => {
+    const buckets = getActivityBuckets(
+      [
+        makeEvent('ReputationUpdated', '2025-01-10T12:05:00Z'),
+        makeEvent('ReputationUpdated', '2025-01-10T12:10:00Z'),
+        makeEvent('ReputationUpdated', '2025-01-10T10:00:00Z'),
+      ],
+      '24h',
+      NOW
+    )
+    expect(buckets).toHaveLength(25)
+    expect(buckets[0]?.start).toBe('2025-01-09T12:00:00.000Z')
+    expect(buckets.at(-1)).toEqual({ start: '2025-01-10T12:00:00.000Z', count: 2 })
+    expect(buckets.at(-3)?.count).toBe(1)
+    expect(buckets.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(3)
+  })
+
+  it('should start the all range at the oldest event', () => {
+    const buckets = getActivityBuckets(
+      [makeEvent('ReputationUpdated', '2025-01-08T09:00:00Z')],
+      'all',
+      NOW
+    )
+    expect(buckets.map((bucket) => bucket.count)).toEqual([1, 0, 0])
+  })
+
+  it('should cap the number of buckets', () => {
+    const buckets = getActivityBuckets(
+      [makeEvent('ReputationUpdated', '2020-01-01T00:00:00Z')],
+      'all',
+      NOW
+    )
+    expect(buckets).toHaveLength(MAX_ACTIVITY_BUCKETS)
+  })
+
+  it('should return no buckets for an empty all range', () => {
+    expect(getActivityBuckets([], 'all', NOW)).toEqual([])
+  })
+})
+
+describe('getValidationRatio', () => {
+  it('should count responses at or above the threshold as passed', () => {
+    const events = [
+      makeEvent('ValidationCompleted', '2025-01-09T00:00:00Z', { response: 100 }),
+      makeEvent('ValidationCompleted', '2025-01-09T00:00:00Z', { response: 50 }),
+      makeEvent('ValidationCompleted', '2025-01-09T00:00:00Z', { response: '10' }),
+      makeEvent('ValidationCompleted', '2025-01-09T00:00:00Z', {}),
+      makeEvent('ValidationRequested', '2025-01-09T00:00:00Z', { response: 0 }),
+    ]
+    expect(getValidationRatio(events)).toEqual({ passed: 2, failed: 1, total: 3, passRate: 2 / 3 })
+    expect(getValidationRatio(events, 80).passed).toBe(1)
+  })
+
+  it('should have no pass rate without validations', () => {
+    expect(getValidationRatio([]).passRate).toBeNull()
+  })
+})
+
+describe('getEventTypeBreakdown', () => {
+  it('should count normalized event types, most frequent first', () => {
+    const breakdown = getEventTypeBreakdown([
+      makeEvent('ValidationCompleted', '2025-01-09T00:00:00Z'),
+      makeEvent('ReputationUpdated', '2025-01-09T00:00:00Z'),
+      makeEvent('ReputationChanged', '2025-01-09T00:00:00Z'),
+      makeEvent('AgentRegistered', '2025-01-09T00:00:00Z'),
+    ])
+    expect(breakdown).toEqual([
+      { eventType: 'ReputationUpdated', count: 2, share: 0.5 },
+      { eventType: 'AgentRegistered', count: 1, share: 0.25 },
+      { eventType: 'ValidationCompleted', count: 1, share: 0.25 },
+    ])
+  })
+})
+
+describe('summarizeAgentAnalytics', () => {
+  it('should aggregate only events inside the range', () => {
+    const analytics = summarizeAgentAnalytics(
+      [
+        makeEvent('ReputationUpdated', '2024-12-01T00:00:00Z', { score: 10 }),
+        makeEvent('ReputationUpdated', '2025-01-05T00:00:00Z', { score: 70 }),
+        makeEvent('ReputationUpdated', '2025-01-09T00:00:00Z', { score: 85 }),
+        makeEvent('ValidationCompleted', '2025-01-09T00:00:00Z', { response: 90 }),
+      ],
+      '7d',
+      NOW
+    )
+    expect(analytics).toMatchObject({
+      range: '7d',
+      totalEvents: 3,
+      currentScore: 85,
+      scoreChange: 15,
+      validation: { passed: 1, failed: 0 },
+    })
+    expect(analytics.feedbackVolume).toHaveLength(8)
+    expect(analytics.feedbackVolume.reduce((sum, bucket) => sum + bucket.count, 0)).toBe(2)
+  })
+
+  it('should leave scores empty without reputation updates', () => {
+    const analytics = summarizeAgentAnalytics([], '30d', NOW)
+    expect(analytics.currentScore).toBeNull()
+    expect(analytics.scoreChange).toBeNull()
+    expect(analytics.eventTypes).toEqual([])
+  })
+})
@@ -0,0 +1,208 @@
+import { describe, expect, it } from 'vitest'
+import type { BlockchainEvent } from '@/lib/validations/event'
+import {
+  diffAgentCards,
+  getAgentCardEndpointKind,
+  getAgentCardSnapshots,
+  groupAgentCardEndpoints,
+  validateAgentCard,
+} from '../agent-card'
+import { AGENT_CARD_TYPE } from '../validations/agent-card'
+
+const REGISTRY = 'eip155:11155111:0x1111111111111111111111111111111111111111'
+
+const validCard = {
+  type: AGENT_CARD_TYPE,
+  name: 'Research Agent',
+  description: 'Summarizes on-chain activity',
+  image: 'https://example.com/agent.png',
+  endpoints: [
+    { name: 'A2A', endpoint: 'https://agent.example.com/.well-known/agent-card.json' },
+    { name: 'MCP', endpoint: 'https://mcp.example.com', version: '2025-06-18' },
+    { name: 'ENS', endpoint: 'research.eth' },
+    { name: 'DID', endpoint: 'did:web:agent.example.com' },
+    { name: 'agentWallet', endpoint: 'eip155:11155111:0x1234567890123456789012345678901234567890' },
+  ],
+  registrations: [{ agentId: 42, agentRegistry: REGISTRY }],
+  supportedTrust: ['reputation', 'crypto-economic'],
+}
+
+const context = { agentId: 42, chainId: 11155111, tokenUri: 'ipfs://card' }
+
+describe('validateAgentCard', () => {
+  it('should accept a valid card without warnings', () => {
+    const { card, warnings } = validateAgentCard(validCard, context)
+
+    expect(warnings).toEqual([])
+    expect(card?.name).toBe('Research Agent')
+    expect(card?.endpoints).toHaveLength(5)
+  })
+
+  it('should report unreachable cards', () => {
+    const { card, warnings } = validateAgentCard(null, context)
+
+    expect(card).toBeNull()
+    expect(warnings[0]?.severity).toBe('error')
+    expect(warnings[0]?.message).toContain('ipfs://card')
+  })
+
+  it('should report a missing token URI as a warning', () => {
+    const { warnings } = validateAgentCard(null, { agentId: 42, chainId: 11155111 })
+
+    expect(warnings[0]?.severity).toBe('warning')
+  })
+
+  it('should reject non-object cards', () => {
+    expect(validateAgentCard(['not', 'a', 'card']).card).toBeNull()
+  })
+
+  it('should drop malformed fields and keep the rest', () => {
+    const { card, warnings } = validateAgentCard(
+      {
+        ...validCard,
+        image: 'not a url',
+        endpoints: [...validCard.endpoints, { endpoint: 'https://nameless.example.com' }],
+      },
+      context
+    )
+
+    expect(card?.image).toBeUndefined()
+    expect(card?.endpoints).toHaveLength(5)
+    expect(warnings.map((w) => [w.path, w.severity])).toEqual([
+      ['image', 'error'],
+      ['endpoints.5', 'error'],
+    ])
+  })
+
+  it('should return no card without a name', () => {
+    const { card, warnings } = validateAgentCard({ ...validCard, name: '' }, context)
+
+    expect(card).toBeNull()
+    expect(warnings.some((w) => w.path === 'name')).toBe(true)
+  })
+
+  it('should warn about endpoints that do not match their protocol', () => {
+    const { warnings } = validateAgentCard(
+      {
+        ...validCard,
+        endpoints: [
+          { name: 'MCP', endpoint: 'mcp.example.com' },
+          { name: 'ens', endpoint: 'research' },
+          { name: 'DID', endpoint: 'web:agent.example.com' },
+        ],
+      },
+      context
+    )
+
+    expect(warnings.map((w) => w.path)).toEqual(['endpoints.0', 'endpoints.1', 'endpoints.2'])
+    expect(warnings.every((w) => w.severity === 'warning')).toBe(true)
+  })
+
+  it('should warn about unknown trust models and registration types', () => {
+    const { card, warnings } = validateAgentCard(
+      { ...validCard, type: 'custom', supportedTrust: ['reputation', 'vibes'] },
+      context
+    )
+
+    expect(card?.supportedTrust).toEqual(['reputation', 'vibes'])
+    expect(warnings.map((w) => w.path)).toEqual(['type', 'supportedTrust.1'])
+  })
+
+  it('should warn when the card does not list the agent', () => {
+    const { warnings } = validateAgentCard(validCard, { ...context, chainId: 84532 })
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]?.path).toBe('registrations')
+  })
+})
+
+describe('groupAgentCardEndpoints', () => {
+  it('should group endpoints by protocol', () => {
+    const groups = groupAgentCardEndpoints(validCard.endpoints)
+
+    expect(groups.A2A).toHaveLength(1)
+    expect(groups.MCP[0]?.version).toBe('2025-06-18')
+    expect(groups.OTHER[0]?.name).toBe('agentWallet')
+  })
+
+  it('should match protocol names case-insensitively', () => {
+    expect(getAgentCardEndpointKind('mcp')).toBe('MCP')
+    expect(getAgentCardEndpointKind('OASF')).toBe('OTHER')
+  })
+})
+
+describe('diffAgentCards', () => {
+  it('should list added, removed and changed fields', () => {
+    const changes = diffAgentCards(
+      { name: 'Old', description: 'Gone', supportedTrust: ['reputation'] },
+      { name: 'New', image: 'https://example.com/a.png', supportedTrust: ['reputation'] }
+    )
+
+    expect(changes).toEqual([
+      { path: 'description', type: 'removed', before: 'Gone' },
+      { path: 'image', type: 'added', after: 'https://example.com/a.png' },
+      { path: 'name', type: 'changed', before: 'Old', after: 'New' },
+    ])
+  })
+
+  it('should key endpoints by name so reordering is not a change', () => {
+    const before = { endpoints: validCard.endpoints }
+    const after = { endpoints: [...validCard.endpoints].reverse() }
+
+    expect(diffAgentCards(before, after)).toEqual([])
+  })
+
+  it('should report endpoint changes by name', () => {
+    const changes = diffAgentCards(
+      { endpoints: [{ name: 'MCP', endpoint: 'https://old.example.com' }] },
+      { endpoints: [{ name: 'MCP', endpoint: 'https://new.example.com' }] }
+    )
+
+    expect(changes).toEqual([
+      {
+        path: 'endpoints.MCP.endpoint',
+        type: 'changed',
+        before: 'https://old.example.com',
+        after: 'https://new.example.com',
+      },
+    ])
+  })
+
+  it('should treat a missing card as empty', () => {
+    expect(diffAgentCards(null, { name: 'New' })).toEqual([
+      { path: 'name', type: 'added', after: 'New' },
+    ])
+  })
+})
+
+describe('getAgentCardSnapshots', () => {
+  const makeEvent = (eventType: string, data: Record<string, unknown>): BlockchainEvent => ({
+    id: 'event-1',
+    eventType,
+    agentId: 42,
+    chainId: 11155111,
+    registry: 'identity',
+    blockNumber: 1,
+    transactionHash: `0x${'a'.repeat(64)}`,
+    data,
+    timestamp: '2025-01-01T00:00:00Z',
+    createdAt: '2025-01-01T00:00:00Z',
+  })
+
+  it('should read snapshots from AgentUpdated events', () => {
+    const event = makeEvent('AgentUpdated', {
+      previousAgentCard: { name: 'Old' },
+      agentCard: { name: 'New' },
+    })
+
+    expect(getAgentCardSnapshots(event)).toEqual({
+      before: { name: 'Old' },
+      after: { name: 'New' },
+    })
+  })
+
+  it('should ignore other events and updates without snapshots', () => {
+    expect(getAgentCardSnapshots(makeEvent('AgentRegistered', { agentCard: {} }))).toBeNull()
+    expect(getAgentCardSnapshots(makeEvent('AgentUpdated', { owner: '0x' }))).toBeNull()
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { formatGracePeriod, formatTimeRemaining, getPreviousKeyStatus } from '../api-key-rotation'
+
+const NOW = new Date('2026-01-10T12:00:00Z').getTime()
+const HOUR = 60 * 60 * 1000
+
+describe('formatGracePeriod', () => {
+  it('should describe hours and whole days', () => {
+    expect(formatGracePeriod(1)).toBe('1 hour')
+    expect(formatGracePeriod(6)).toBe('6 hours')
+    expect(formatGracePeriod(24)).toBe('1 day')
+    expect(formatGracePeriod(168)).toBe('7 days')
+  })
+})
+
+describe('formatTimeRemaining', () => {
+  it('should use the two largest units', () => {
+    expect(formatTimeRemaining(52 * HOUR + 10 * 60_000)).toBe('2d 4h')
+    expect(formatTimeRemaining(3 * HOUR + 20 * 60_000)).toBe('3h 20m')
+    expect(formatTimeRemaining(12 * 60_000)).toBe('12m')
+    expect(formatTimeRemaining(30_000)).toBe('<1m')
+  })
+})
+
+describe('getPreviousKeyStatus', () => {
+  const previousKey = (hoursLeft: number) => ({
+    keyPrefix: '8004_old123',
+    expiresAt: new Date(NOW + hoursLeft * HOUR).toISOString(),
+  })
+
+  it('should return null without a previous key', () => {
+    expect(getPreviousKeyStatus({ previousKey: null }, NOW)).toBeNull()
+  })
+
+  it('should return null once the grace period has ended', () => {
+    expect(getPreviousKeyStatus({ previousKey: previousKey(-1) }, NOW)).toBeNull()
+  })
+
+  it('should flag previous keys expiring within 24 hours', () => {
+    expect(getPreviousKeyStatus({ previousKey: previousKey(72) }, NOW)).toMatchObject({
+      keyPrefix: '8004_old123',
+      remainingMs: 72 * HOUR,
+      expiringSoon: false,
+    })
+    expect(getPreviousKeyStatus({ previousKey: previousKey(3) }, NOW)?.expiringSoon).toBe(true)
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatUsageErrorRate,
+  getUsageCsvFilename,
+  getUsageErrorRate,
+  groupStatusClasses,
+  toUsageEndpointsCsv,
+  toUsageTimelineCsv,
+} from '../api-key-usage'
+import type { ApiKeyUsage } from '../validations/api-key'
+
+const usage: ApiKeyUsage = {
+  keyId: '550e8400-e29b-41d4-a716-446655440000',
+  range: '7d',
+  totalRequests: 400,
+  errorRequests: 10,
+  rateLimitedRequests: 2,
+  series: [
+    { timestamp: '2026-01-01T00:00:00Z', requests: 150, errors: 4 },
+    { timestamp: '2026-01-02T00:00:00Z', requests: 250, errors: 6 },
+  ],
+  topEndpoints: [
+    { method: 'GET', path: '/api/v1/events', requests: 300, errors: 2, p95LatencyMs: 120 },
+    {
+      method: 'POST',
+      path: '/api/v1/reputation/query',
+      requests: 100,
+      errors: 8,
+      p95LatencyMs: null,
+    },
+  ],
+  statusCodes: [
+    { status: 200, count: 380 },
+    { status: 201, count: 10 },
+    { status: 404, count: 4 },
+    { status: 429, count: 2 },
+    { status: 500, count: 4 },
+  ],
+  latency: { p50Ms: 40, p95Ms: 120, p99Ms: 300 },
+  lastSeen: null,
+}
+
+describe('getUsageErrorRate', () => {
+  it('should return the share of failed requests', () => {
+    expect(getUsageErrorRate(usage)).toBe(0.025)
+    expect(formatUsageErrorRate(usage)).toBe('2.5%')
+  })
+
+  it('should return null without requests', () => {
+    expect(getUsageErrorRate({ totalRequests: 0, errorRequests: 0 })).toBeNull()
+    expect(formatUsageErrorRate({ totalRequests: 0, errorRequests: 0 })).toBe('--')
+  })
+})
+
+describe('groupStatusClasses', () => {
+  it('should sum requests per status class in order', () => {
+    expect(groupStatusClasses(usage.statusCodes)).toEqual([
+      { label: '2XX', count: 390 },
+      { label: '4XX', count: 6 },
+      { label: '5XX', count: 4 },
+    ])
+  })
+})
+
+describe('usage CSV exports', () => {
+  it('should export the timeline', () => {
+    expect(toUsageTimelineCsv(usage)).toBe(
+      'timestamp,requests,errors\r\n2026-01-01T00:00:00Z,150,4\r\n2026-01-02T00:00:00Z,250,6\r\n'
+    )
+  })
+
+  it('should export the endpoints with empty latency when unknown', () => {
+    expect(toUsageEndpointsCsv(usage)).toBe(
+      'method,path,requests,errors,p95_latency_ms\r\n' +
+        'GET,/api/v1/events,300,2,120\r\n' +
+        'POST,/api/v1/reputation/query,100,8,\r\n'
+    )
+  })
+
+  it('should name files after the key, part and range', () => {
+    expect(getUsageCsvFilename('Production Key (EU)', usage, 'timeline')).toBe(
+      'production-key-eu-usage-timeline-7d.csv'
+    )
+    expect(getUsageCsvFilename('***', usage, 'endpoints')).toBe('api-key-usage-endpoints-7d.csv')
+  })
+})
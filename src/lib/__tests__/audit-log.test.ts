@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  diffAuditLogEntry,
+  formatAuditAction,
+  formatAuditActor,
+  getAuditLogFilename,
+  toAuditLogCsv,
+  toAuditLogJson,
+} from '../audit-log'
+import type { AuditLogEntry } from '../validations/audit-log'
+
+const entry: AuditLogEntry = {
+  id: '550e8400-e29b-41d4-a716-446655440001',
+  organizationId: '550e8400-e29b-41d4-a716-446655440000',
+  action: 'member.role_updated',
+  actor: { id: '550e8400-e29b-41d4-a716-446655440002', username: 'alice', email: null },
+  resourceType: 'member',
+  resourceId: '550e8400-e29b-41d4-a716-446655440003',
+  resourceName: 'bob',
+  before: { role: 'member' },
+  after: { role: 'admin' },
+  ipAddress: '203.0.113.42',
+  userAgent: 'Mozilla/5.0',
+  createdAt: '2026-01-31T10:00:00Z',
+}
+
+describe('formatAuditAction', () => {
+  it('should format actions as labels', () => {
+    expect(formatAuditAction('member.role_updated')).toBe('MEMBER ROLE UPDATED')
+    expect(formatAuditAction('api_key.rotated')).toBe('API KEY ROTATED')
+  })
+})
+
+describe('formatAuditActor', () => {
+  it('should prefer username, then email, then SYSTEM', () => {
+    expect(formatAuditActor(entry)).toBe('alice')
+    expect(
+      formatAuditActor({ actor: { id: 'u1', username: null, email: 'bob@example.com' } })
+    ).toBe('bob@example.com')
+    expect(formatAuditActor({ actor: null })).toBe('SYSTEM')
+  })
+})
+
+describe('diffAuditLogEntry', () => {
+  it('should list changed fields', () => {
+    expect(diffAuditLogEntry(entry)).toEqual([
+      { path: 'role', type: 'changed', before: 'member', after: 'admin' },
+    ])
+  })
+
+  it('should return no changes without snapshots', () => {
+    expect(diffAuditLogEntry({ before: null, after: null })).toEqual([])
+  })
+})
+
+describe('toAuditLogCsv', () => {
+  it('should write one row per entry with summarized changes', () => {
+    const lines = toAuditLogCsv([entry, { ...entry, actor: null, before: null, after: null }])
+      .trim()
+      .split(/\r?\n/)
+
+    expect(lines[0]).toBe(
+      'created_at,action,actor_id,actor,resource_type,resource_id,resource_name,changes,ip_address,user_agent'
+    )
+    expect(lines[1]).toContain('role: member -> admin')
+    expect(lines[2]).toContain(',system,')
+  })
+})
+
+describe('toAuditLogJson', () => {
+  it('should include the organization, export time and filters', () => {
+    const exportedAt = new Date('2026-02-01T00:00:00Z')
+    const json = JSON.parse(
+      toAuditLogJson(entry.organizationId, [entry], { resourceType: 'member' }, exportedAt)
+    )
+
+    expect(json.organizationId).toBe(entry.organizationId)
+    expect(json.exportedAt).toBe('2026-02-01T00:00:00.000Z')
+    expect(json.filters).toEqual({ resourceType: 'member' })
+    expect(json.entries).toHaveLength(1)
+  })
+})
+
+describe('getAuditLogFilename', () => {
+  it('should include the slug and export date', () => {
+    const exportedAt = new Date('2026-01-31T12:00:00Z')
+    expect(getAuditLogFilename('acme', 'csv', exportedAt)).toBe('acme-audit-log-2026-01-31.csv')
+    expect(getAuditLogFilename('', 'json', exportedAt)).toBe(
+      'organization-audit-log-2026-01-31.json'
+    )
+  })
+})
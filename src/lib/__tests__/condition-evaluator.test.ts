@@ -0,0 +1,229 @@
+import { describe, expect, it } from 'vitest'
+import type { BlockchainEvent } from '@/lib/validations/event'
+import {
+  dryRunConditions,
+  type EvaluableCondition,
+  evaluateCondition,
+  evaluateConditionNode,
+  evaluateConditions,
+  resolveConditionField,
+} from '../condition-evaluator'
+
+const makeEvent = (overrides: Partial<BlockchainEvent> = {}): BlockchainEvent => ({
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  eventType: 'ReputationChanged',
+  agentId: 42,
+  chainId: 1,
+  registry: 'reputation',
+  blockNumber: 12345678,
+  transactionHash: '0xABCDEF1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+  data: {
+    newScore: 35,
+    owner: '0x1234567890ABCDEF1234567890abcdef12345678',
+    metadata: { name: 'Test Agent' },
+  },
+  timestamp: '2025-01-01T00:00:00Z',
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const condition = (
+  field: string,
+  operator: EvaluableCondition['operator'],
+  value: string
+): EvaluableCondition => ({ field, operator, value })
+
+describe('resolveConditionField', () => {
+  const event = makeEvent()
+
+  it('should resolve builder aliases', () => {
+    expect(resolveConditionField(event, 'event_type')).toBe('ReputationChanged')
+    expect(resolveConditionField(event, 'reputation_score')).toBe(35)
+    expect(resolveConditionField(event, 'agent_address')).toBe(
+      '0x1234567890ABCDEF1234567890abcdef12345678'
+    )
+  })
+
+  it('should resolve top-level, snake_case, data and dot-path fields', () => {
+    expect(resolveConditionField(event, 'blockNumber')).toBe(12345678)
+    expect(resolveConditionField(event, 'block_number')).toBe(12345678)
+    expect(resolveConditionField(event, 'newScore')).toBe(35)
+    expect(resolveConditionField(event, 'data.metadata.name')).toBe('Test Agent')
+    expect(resolveConditionField(event, 'metadata.name')).toBe('Test Agent')
+    expect(resolveConditionField(event, 'unknown')).toBeUndefined()
+  })
+})
+
+describe('evaluateCondition', () => {
+  const event = makeEvent()
+
+  it.each([
+    ['eq', 'agentId', '42', true],
+    ['eq', 'eventType', 'ValidationCompleted', false],
+    ['ne', 'eventType', 'ValidationCompleted', true],
+    ['gt', 'reputation_score', '30', true],
+    ['gte', 'reputation_score', '35', true],
+    ['lt', 'reputation_score', '35', false],
+    ['lte', 'reputation_score', '35', true],
+    ['in', 'agentId', '7, 42, 99', true],
+    ['in', 'agentId', '7,99', false],
+    ['contains', 'eventType', 'Reputation', true],
+    ['startsWith', 'eventType', 'Agent', false],
+    ['endsWith', 'eventType', 'Changed', true],
+  ] as const)('%s on %s with %s should be %s', (operator, field, value, expected) => {
+    expect(evaluateCondition(condition(field, operator, value), event).matched).toBe(expected)
+  })
+
+  it('should compare hex strings case-insensitively', () => {
+    const result = evaluateCondition(
+      condition('agent_address', 'in', '0x1234567890abcdef1234567890abcdef12345678'),
+      event
+    )
+    expect(result.matched).toBe(true)
+  })
+
+  it('should compare ISO timestamps against Unix seconds', () => {
+    expect(
+      evaluateCondition(condition('event_timestamp', 'gte', '1735689600'), event).matched
+    ).toBe(true)
+    expect(evaluateCondition(condition('event_timestamp', 'gt', '1735689600'), event).matched).toBe(
+      false
+    )
+  })
+
+  it('should report missing fields and non-numeric comparisons', () => {
+    const missing = evaluateCondition(condition('score', 'gt', '10'), event)
+    expect(missing.matched).toBe(false)
+    expect(missing.actual).toBeUndefined()
+    expect(missing.reason).toBe('Field not present on event')
+
+    expect(evaluateCondition(condition('score', 'ne', '10'), event).matched).toBe(true)
+
+    const notNumeric = evaluateCondition(condition('eventType', 'gt', '10'), event)
+    expect(notNumeric.matched).toBe(false)
+    expect(notNumeric.reason).toBe('Value is not numeric')
+  })
+
+  it('should match agents against a watchlist by ID and chain', () => {
+    const reference = condition('agentId', 'in', 'watchlist:fleet')
+    const context = {
+      watchlists: {
+        fleet: [
+          { agentId: 42, chainId: 1 },
+          { agentId: 7, chainId: 84532 },
+        ],
+      },
+    }
+
+    expect(evaluateCondition(reference, event, context).matched).toBe(true)
+    expect(evaluateCondition(reference, makeEvent({ chainId: 84532 }), context).matched).toBe(false)
+  })
+
+  it('should not match unknown watchlists', () => {
+    const result = evaluateCondition(condition('agentId', 'in', 'watchlist:missing'), event)
+    expect(result.matched).toBe(false)
+    expect(result.reason).toBe('Watchlist not available')
+  })
+
+  it('should assume trigger state conditions match', () => {
+    const result = evaluateCondition(condition('match_count', 'gte', '3'), event)
+    expect(result.matched).toBe(true)
+    expect(result.reason).toBe('Depends on trigger state (not evaluated)')
+  })
+})
+
+describe('evaluateConditions', () => {
+  it('should combine conditions with AND logic', () => {
+    const event = makeEvent()
+    const result = evaluateConditions(
+      [condition('event_type', 'eq', 'ReputationChanged'), condition('newScore', 'lt', '30')],
+      event
+    )
+
+    expect(result.matched).toBe(false)
+    expect(result.failedCount).toBe(1)
+    expect(result.results.map((r) => r.matched)).toEqual([true, false])
+  })
+
+  it('should match deprecated event type names to their current name', () => {
+    const event = makeEvent()
+    expect(
+      evaluateConditions([condition('event_type', 'eq', 'ReputationUpdated')], event).matched
+    ).toBe(true)
+    expect(
+      evaluateConditions(
+        [condition('eventType', 'in', 'AgentRegistered, ReputationUpdated')],
+        event
+      ).matched
+    ).toBe(true)
+    expect(
+      evaluateConditions([condition('event_type', 'ne', 'ReputationUpdated')], event).matched
+    ).toBe(false)
+  })
+
+  it('should match every event when there are no conditions', () => {
+    expect(evaluateConditions([], makeEvent()).matched).toBe(true)
+  })
+})
+
+describe('evaluateConditionNode', () => {
+  const event = makeEvent()
+  const matches = condition('agentId', 'eq', '42')
+  const misses = condition('agentId', 'eq', '7')
+
+  it.each([
+    ['and', [matches, matches], true],
+    ['and', [matches, misses], false],
+    ['or', [misses, matches], true],
+    ['or', [misses, misses], false],
+    ['not', [misses, misses], true],
+    ['not', [misses, matches], false],
+  ] as const)('%s group should evaluate children', (logic, conditions, expected) => {
+    const result = evaluateConditionNode({ logic, conditions: [...conditions] }, event)
+    expect(result.matched).toBe(expected)
+    expect(result.children).toHaveLength(2)
+  })
+
+  it('should evaluate nested groups within a flat list', () => {
+    const result = evaluateConditions(
+      [
+        condition('event_type', 'eq', 'ReputationChanged'),
+        { logic: 'or', conditions: [misses, { logic: 'not', conditions: [misses] }] },
+      ],
+      event
+    )
+    expect(result.matched).toBe(true)
+    expect(result.results[1]?.children?.[1]?.matched).toBe(true)
+  })
+})
+
+describe('dryRunConditions', () => {
+  it('should split matches and near-misses with per-condition stats', () => {
+    const conditions = [
+      condition('event_type', 'eq', 'ReputationChanged'),
+      condition('reputation_score', 'lt', '50'),
+    ]
+    const events = [
+      makeEvent({ id: '550e8400-e29b-41d4-a716-446655440001' }),
+      makeEvent({
+        id: '550e8400-e29b-41d4-a716-446655440002',
+        data: { newScore: 80 },
+      }),
+      makeEvent({
+        id: '550e8400-e29b-41d4-a716-446655440003',
+        eventType: 'AgentRegistered',
+        data: { newScore: 90 },
+      }),
+    ]
+
+    const result = dryRunConditions(conditions, events)
+
+    expect(result.total).toBe(3)
+    expect(result.matches.map((m) => m.event.id)).toEqual([events[0]?.id])
+    expect(result.nearMisses.map((m) => m.event.id)).toEqual([events[1]?.id])
+    expect(result.conditions.map((c) => [c.matched, c.blockedAlone])).toEqual([
+      [2, 0],
+      [1, 1],
+    ])
+  })
+})
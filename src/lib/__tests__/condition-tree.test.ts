@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countConditions,
+  flattenConditions,
+  formatConditionNode,
+  formatConditionTree,
+  getConditionDepth,
+  isConditionGroup,
+  mapConditionTree,
+} from '../condition-tree'
+
+interface Leaf {
+  field: string
+  operator: string
+  value: string
+}
+
+const leaf = (field: string, value = '1'): Leaf => ({ field, operator: 'eq', value })
+
+const tree = [
+  leaf('event_type', 'ReputationUpdated'),
+  {
+    logic: 'or' as const,
+    conditions: [
+      leaf('agent_id', '1'),
+      { logic: 'not' as const, conditions: [leaf('agent_id', '2')] },
+    ],
+  },
+]
+
+describe('condition tree helpers', () => {
+  it('should detect groups', () => {
+    expect(isConditionGroup(tree[0] as Leaf)).toBe(false)
+    expect(isConditionGroup(tree[1] as Leaf)).toBe(true)
+  })
+
+  it('should flatten and count leaves depth-first', () => {
+    expect(flattenConditions(tree).map((c) => c.value)).toEqual(['ReputationUpdated', '1', '2'])
+    expect(countConditions(tree)).toBe(3)
+    expect(countConditions(undefined)).toBe(0)
+  })
+
+  it('should measure group depth', () => {
+    expect(getConditionDepth([leaf('a')])).toBe(0)
+    expect(getConditionDepth(tree)).toBe(2)
+  })
+
+  it('should map leaves while preserving groups', () => {
+    const mapped = mapConditionTree(tree, (c: Leaf) => ({ ...c, value: `${c.value}!` }))
+    expect(flattenConditions(mapped).map((c) => c.value)).toEqual([
+      'ReputationUpdated!',
+      '1!',
+      '2!',
+    ])
+    expect(mapped[1]).toMatchObject({ logic: 'or' })
+  })
+
+  it('should format trees as readable expressions', () => {
+    expect(formatConditionTree([leaf('a')])).toBe('a eq 1')
+    expect(formatConditionTree(tree)).toBe(
+      'event_type eq ReputationUpdated AND (agent_id eq 1 OR NOT (agent_id eq 2))'
+    )
+    expect(formatConditionNode({ logic: 'and', conditions: [leaf('a'), leaf('b')] })).toBe(
+      'a eq 1 AND b eq 1'
+    )
+  })
+})
@@ -130,6 +130,9 @@ describe('config-helpers', () => {
       expect(getActionTypeLabel('telegram')).toBe('Telegram Message')
       expect(getActionTypeLabel('rest')).toBe('REST API Call')
       expect(getActionTypeLabel('mcp')).toBe('MCP Protocol')
+      expect(getActionTypeLabel('email')).toBe('Email')
+      expect(getActionTypeLabel('slack')).toBe('Slack Message')
+      expect(getActionTypeLabel('discord')).toBe('Discord Message')
     })
 
     it('should uppercase unknown types', () => {
@@ -141,10 +144,13 @@ describe('config-helpers', () => {
     it('should return all action type options', () => {
       const options = getActionTypeOptions()
 
-      expect(options.length).toBe(3)
+      expect(options.length).toBe(6)
       expect(options.map((o) => o.value)).toContain('telegram')
       expect(options.map((o) => o.value)).toContain('rest')
       expect(options.map((o) => o.value)).toContain('mcp')
+      expect(options.map((o) => o.value)).toContain('email')
+      expect(options.map((o) => o.value)).toContain('slack')
+      expect(options.map((o) => o.value)).toContain('discord')
     })
   })
 
@@ -166,6 +172,24 @@ describe('config-helpers', () => {
       expect(options.length).toBeGreaterThan(0)
       expect(options.map((o) => o.value)).toContain('eventType')
     })
+
+    it('should only return fields matching the condition type', () => {
+      const options = getConditionFieldOptions('reputation_threshold', 'ReputationUpdated')
+
+      expect(options.every((o) => o.type === 'numeric')).toBe(true)
+      expect(options.map((o) => o.value)).toContain('score')
+      expect(options.map((o) => o.value)).not.toContain('response')
+    })
+
+    it('should scope payload fields to the event type', () => {
+      const fields = getConditionFieldOptions('field_comparison', 'ValidationCompleted').map(
+        (o) => o.value
+      )
+
+      expect(fields).toContain('validatorAddress')
+      expect(fields).toContain('transactionHash')
+      expect(fields).not.toContain('score')
+    })
   })
 
   describe('formatNumber', () => {
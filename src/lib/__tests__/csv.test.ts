@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { toCsv } from '../csv'
+
+describe('toCsv', () => {
+  it('should join fields with commas and rows with CRLF', () => {
+    expect(
+      toCsv([
+        ['name', 'requests', 'enabled'],
+        ['Production', 1520, true],
+      ])
+    ).toBe('name,requests,enabled\r\nProduction,1520,true\r\n')
+  })
+
+  it('should leave null and undefined fields empty', () => {
+    expect(toCsv([['a', null, undefined, 'd']])).toBe('a,,,d\r\n')
+  })
+
+  it('should quote fields with commas, quotes or line breaks', () => {
+    expect(toCsv([['Production, EU', 'say "hi"', 'line\nbreak']])).toBe(
+      '"Production, EU","say ""hi""","line\nbreak"\r\n'
+    )
+  })
+
+  it('should neutralize text that spreadsheets run as formulas', () => {
+    expect(toCsv([['=SUM(A1:A2)', '+1', '-1', '@cmd', 'safe']])).toBe(
+      "'=SUM(A1:A2),'+1,'-1,'@cmd,safe\r\n"
+    )
+    // Numbers are not text and keep their sign
+    expect(toCsv([[-1]])).toBe('-1\r\n')
+  })
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  EVENT_CATALOG,
+  EVENT_TYPE_LIST,
+  getEventTypeInfo,
+  getEventTypesForRegistry,
+  isKnownEventType,
+  normalizeEventType,
+} from '../event-catalog'
+import { blockchainEventSchema, eventTypeSchema } from '../validations/event'
+
+describe('event catalog', () => {
+  it('should define display metadata and payload fields for every event type', () => {
+    for (const type of EVENT_TYPE_LIST) {
+      const info = EVENT_CATALOG[type]
+      expect(info.label).toBeTruthy()
+      expect(info.description).toBeTruthy()
+      expect(info.fields.length).toBeGreaterThan(0)
+    }
+  })
+
+  it('should map deprecated names to the current event type', () => {
+    expect(normalizeEventType('ReputationChanged')).toBe('ReputationUpdated')
+    expect(normalizeEventType('AgentRegistered')).toBe('AgentRegistered')
+    expect(getEventTypeInfo('ReputationChanged')?.registry).toBe('reputation')
+    expect(normalizeEventType('FeedbackGiven')).toBe('NewFeedback')
+    expect(normalizeEventType('ValidationRequested')).toBe('ValidationRequest')
+  })
+
+  it('should pass unknown event types through unchanged', () => {
+    expect(normalizeEventType('AgentRetired')).toBe('AgentRetired')
+    expect(getEventTypeInfo('AgentRetired')).toBeUndefined()
+    expect(isKnownEventType('AgentRetired')).toBe(false)
+    expect(isKnownEventType('ReputationChanged')).toBe(false)
+    expect(isKnownEventType('toString')).toBe(false)
+  })
+
+  it('should filter event types by registry', () => {
+    expect(getEventTypesForRegistry('reputation')).toEqual(['ReputationUpdated', 'NewFeedback'])
+    expect(getEventTypesForRegistry('validation')).toEqual([
+      'ValidationRequest',
+      'ValidationCompleted',
+    ])
+    expect(getEventTypesForRegistry('identity')).toContain('AgentRegistered')
+  })
+})
+
+describe('eventTypeSchema', () => {
+  it('should normalize deprecated names', () => {
+    expect(eventTypeSchema.parse('ReputationChanged')).toBe('ReputationUpdated')
+  })
+
+  it('should accept event types missing from the catalog', () => {
+    expect(eventTypeSchema.parse('AgentRetired')).toBe('AgentRetired')
+  })
+
+  it('should reject empty event types', () => {
+    expect(eventTypeSchema.safeParse('  ').success).toBe(false)
+  })
+
+  it('should parse backend events with unknown event types', () => {
+    const result = blockchainEventSchema.safeParse({
+      id: '123e4567-e89b-12d3-a456-426614174000',
+      chainId: 11155111,
+      registry: 'identity',
+      eventType: 'AgentRetired',
+      blockNumber: 1,
+      transactionHash: `0x${'a'.repeat(64)}`,
+      agentId: 1,
+      data: {},
+      timestamp: '2024-01-01T00:00:00.000Z',
+      createdAt: '2024-01-01T00:00:00.000Z',
+    })
+    expect(result.success).toBe(true)
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  dateTimeInputToUnix,
+  findEventField,
+  getEventFields,
+  getFieldOperators,
+  normalizeConditionValue,
+  unixToDateTimeInput,
+  validateConditionValue,
+} from '../event-schemas'
+
+const CHECKSUM_ADDRESS = '0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B'
+
+const field = (name: string, eventType?: string) => {
+  const definition = findEventField(name, eventType)
+  if (!definition) throw new Error(`Unknown field ${name}`)
+  return definition
+}
+
+describe('event schema registry', () => {
+  it('should combine envelope and payload fields for an event type', () => {
+    const names = getEventFields('ReputationUpdated').map((f) => f.name)
+    expect(names).toContain('eventType')
+    expect(names).toContain('score')
+    expect(names).not.toContain('validatorAddress')
+  })
+
+  it('should include all payload fields when the event type is unknown', () => {
+    const names = getEventFields().map((f) => f.name)
+    expect(names).toContain('score')
+    expect(names).toContain('validatorAddress')
+    expect(names.filter((n) => n === 'owner')).toHaveLength(1)
+  })
+
+  it('should resolve deprecated event type names', () => {
+    const names = getEventFields('ReputationChanged').map((f) => f.name)
+    expect(names).toContain('score')
+    expect(names).not.toContain('owner')
+  })
+
+  it('should resolve builder aliases', () => {
+    expect(findEventField('reputation_score')?.name).toBe('score')
+    expect(findEventField('event_timestamp')?.type).toBe('timestamp')
+    expect(findEventField('metadata_name')).toBeUndefined()
+  })
+
+  it('should restrict operators by field type', () => {
+    expect(getFieldOperators(field('score'))).toContain('gte')
+    expect(getFieldOperators(field('owner'))).not.toContain('gt')
+    expect(getFieldOperators(undefined)).toContain('contains')
+  })
+})
+
+describe('validateConditionValue', () => {
+  it.each([
+    ['score', 'gte', '80', null],
+    ['score', 'gte', 'high', 'Value must be a number'],
+    ['score', 'in', '10, 20,30', null],
+    ['score', 'contains', '8', 'Operator "contains" is not supported for numeric fields'],
+    ['timestamp', 'gt', '1704067200', null],
+    ['timestamp', 'gt', '2024-01-01T00:00:00Z', null],
+    [
+      'timestamp',
+      'gt',
+      '2024-01-01',
+      'Value must be a Unix timestamp in seconds or an ISO 8601 date-time',
+    ],
+    ['owner', 'eq', CHECKSUM_ADDRESS, null],
+    ['owner', 'eq', CHECKSUM_ADDRESS.toLowerCase(), null],
+    ['owner', 'eq', '0xab5801a7D398351b8bE11C439e05C5B3259aeC9B', 'Invalid address checksum'],
+    ['owner', 'in', `${CHECKSUM_ADDRESS}, 0x1234`, 'Invalid Ethereum address format'],
+    ['transactionHash', 'eq', `0x${'a'.repeat(64)}`, null],
+    ['transactionHash', 'eq', '0x1234', 'Value must be a 32-byte hex string'],
+    ['registry', 'eq', 'reputation', null],
+    ['registry', 'eq', 'billing', 'Value must be one of: identity, reputation, validation'],
+    ['score', 'eq', '  ', 'Value is required'],
+    ['agentId', 'in', 'watchlist:550e8400-e29b-41d4-a716-446655440010', null],
+    [
+      'agentId',
+      'eq',
+      'watchlist:550e8400-e29b-41d4-a716-446655440010',
+      'Watchlists can only be used with the "in" operator',
+    ],
+    [
+      'score',
+      'in',
+      'watchlist:550e8400-e29b-41d4-a716-446655440010',
+      'Watchlists only hold agent IDs',
+    ],
+  ] as const)('%s %s %s', (name, operator, value, expected) => {
+    expect(validateConditionValue(field(name), operator, value)).toBe(expected)
+  })
+})
+
+describe('normalizeConditionValue', () => {
+  it('should convert ISO 8601 timestamps to Unix seconds', () => {
+    expect(normalizeConditionValue('timestamp', '2024-01-01T00:00:00Z')).toBe('1704067200')
+    expect(normalizeConditionValue('timestamp', '1704067200')).toBe('1704067200')
+    expect(normalizeConditionValue('score', '2024-01-01T00:00:00Z')).toBe('2024-01-01T00:00:00Z')
+  })
+})
+
+describe('datetime conversion', () => {
+  it('should round-trip Unix seconds through datetime-local values', () => {
+    const input = unixToDateTimeInput('1704067200')
+    expect(input).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/)
+    expect(dateTimeInputToUnix(input)).toBe('1704067200')
+  })
+
+  it('should return empty strings for invalid input', () => {
+    expect(unixToDateTimeInput('abc')).toBe('')
+    expect(dateTimeInputToUnix('not a date')).toBe('')
+  })
+})
@@ -0,0 +1,266 @@
+import { HttpResponse, http } from 'msw'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { mockEventStream, server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import {
+  createEventStream,
+  type EventStreamConnection,
+  getReconnectDelay,
+  matchesEventFilters,
+  SseParser,
+} from '../event-stream'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+const TEST_ORG_ID = 'org-test-123'
+
+const mockEvent = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  eventType: 'ReputationUpdated',
+  agentId: 123,
+  chainId: 1,
+  registry: 'reputation' as const,
+  blockNumber: 12345678,
+  transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+  data: { score: 95 },
+  timestamp: '2025-01-01T00:00:00Z',
+  createdAt: '2025-01-01T00:00:00Z',
+}
+
+describe('SseParser', () => {
+  it('should parse complete messages', () => {
+    const parser = new SseParser()
+    const messages = parser.push('id: 1\nevent: event\ndata: {"a":1}\n\n')
+
+    expect(messages).toEqual([{ id: '1', event: 'event', data: '{"a":1}', retry: undefined }])
+  })
+
+  it('should buffer partial messages across chunks', () => {
+    const parser = new SseParser()
+
+    expect(parser.push('data: {"a"')).toEqual([])
+    expect(parser.push(':1}\n')).toEqual([])
+    expect(parser.push('\n')).toEqual([
+      { id: undefined, event: 'message', data: '{"a":1}', retry: undefined },
+    ])
+  })
+
+  it('should join multi-line data and skip comments', () => {
+    const parser = new SseParser()
+    const messages = parser.push(': keep-alive\ndata: line1\ndata: line2\nretry: 5000\n\n')
+
+    expect(messages).toHaveLength(1)
+    expect(messages[0]?.data).toBe('line1\nline2')
+    expect(messages[0]?.retry).toBe(5000)
+  })
+})
+
+describe('getReconnectDelay', () => {
+  it('should grow exponentially and cap at maxDelay', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0)
+
+    expect(getReconnectDelay(0, 1000, 30000)).toBe(1000)
+    expect(getReconnectDelay(3, 1000, 30000)).toBe(8000)
+    expect(getReconnectDelay(10, 1000, 30000)).toBe(30000)
+  })
+
+  it('should add up to 30% jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    expect(getReconnectDelay(0, 1000, 30000)).toBe(1300)
+  })
+})
+
+describe('matchesEventFilters', () => {
+  it('should match when no filters are set', () => {
+    expect(matchesEventFilters(mockEvent, {})).toBe(true)
+  })
+
+  it('should compare chain, registry, type and agent', () => {
+    expect(matchesEventFilters(mockEvent, { chainId: 1, registry: 'reputation' })).toBe(true)
+    expect(matchesEventFilters(mockEvent, { chainId: 8453 })).toBe(false)
+    expect(matchesEventFilters(mockEvent, { eventType: 'AgentRegistered' })).toBe(false)
+    expect(matchesEventFilters(mockEvent, { agentId: 123 })).toBe(true)
+    expect(matchesEventFilters(mockEvent, { agentId: 7 })).toBe(false)
+  })
+
+  it('should apply date range and tx hash search', () => {
+    expect(matchesEventFilters(mockEvent, { fromDate: '2025-01-02T00:00:00Z' })).toBe(false)
+    expect(matchesEventFilters(mockEvent, { toDate: '2025-01-02T00:00:00.000Z' })).toBe(true)
+    expect(matchesEventFilters(mockEvent, { search: '0xABCDEF' })).toBe(true)
+    expect(matchesEventFilters(mockEvent, { search: '0xffff' })).toBe(false)
+  })
+})
+
+describe('createEventStream', () => {
+  let stream: EventStreamConnection | undefined
+
+  afterEach(() => {
+    stream?.close()
+    stream = undefined
+  })
+
+  it('should connect with organization header and deliver events', async () => {
+    const onEvent = vi.fn()
+    const onStatusChange = vi.fn()
+
+    stream = createEventStream({ organizationId: TEST_ORG_ID, onEvent, onStatusChange })
+
+    await vi.waitFor(() => expect(mockEventStream.connections).toBe(1))
+    expect(stream.status).toBe('open')
+    expect(mockEventStream.lastRequest?.headers.get('X-Organization-ID')).toBe(TEST_ORG_ID)
+
+    mockEventStream.push(mockEvent, 'evt-1')
+
+    await vi.waitFor(() => expect(onEvent).toHaveBeenCalledTimes(1))
+    expect(onEvent.mock.calls[0]?.[0].id).toBe(mockEvent.id)
+    expect(onStatusChange).toHaveBeenCalledWith('connecting')
+    expect(onStatusChange).toHaveBeenCalledWith('open')
+  })
+
+  it('should ignore invalid payloads', async () => {
+    const onEvent = vi.fn()
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    stream = createEventStream({ organizationId: TEST_ORG_ID, onEvent })
+    await vi.waitFor(() => expect(mockEventStream.connections).toBe(1))
+
+    mockEventStream.pushRaw('data: not-json\n\n')
+    mockEventStream.push({ ...mockEvent, transactionHash: 'invalid' })
+    mockEventStream.push(mockEvent)
+
+    await vi.waitFor(() => expect(onEvent).toHaveBeenCalledTimes(1))
+    expect(warnSpy).toHaveBeenCalledTimes(2)
+  })
+
+  it('should reconnect with Last-Event-ID after the server drops the connection', async () => {
+    const onEvent = vi.fn()
+
+    stream = createEventStream({ organizationId: TEST_ORG_ID, onEvent, initialDelay: 10 })
+    await vi.waitFor(() => expect(mockEventStream.connections).toBe(1))
+
+    mockEventStream.push(mockEvent, 'evt-42')
+    await vi.waitFor(() => expect(onEvent).toHaveBeenCalledTimes(1))
+
+    mockEventStream.disconnect()
+
+    await vi.waitFor(() => expect(mockEventStream.requestCount).toBe(2))
+    expect(mockEventStream.lastRequest?.headers.get('Last-Event-ID')).toBe('evt-42')
+    await vi.waitFor(() => expect(stream?.status).toBe('open'))
+  })
+
+  it('should stop on authorization errors', async () => {
+    const onError = vi.fn()
+
+    server.use(
+      http.get(`${baseUrl}/events/stream`, () => {
+        return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })
+      })
+    )
+
+    stream = createEventStream({ organizationId: TEST_ORG_ID, onEvent: vi.fn(), onError })
+
+    await vi.waitFor(() => expect(stream?.status).toBe('closed'))
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0]?.[0].status).toBe(401)
+  })
+
+  it('should refresh the access token once on 401 before giving up', async () => {
+    const onError = vi.fn()
+    let streamRequests = 0
+    let refreshRequests = 0
+
+    server.use(
+      http.get(`${baseUrl}/events/stream`, () => {
+        streamRequests++
+        return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })
+      }),
+      http.post('http://localhost:3000/api/auth/refresh', () => {
+        refreshRequests++
+        return HttpResponse.json({ success: true })
+      })
+    )
+
+    stream = createEventStream({ organizationId: TEST_ORG_ID, onEvent: vi.fn(), onError })
+
+    await vi.waitFor(() => expect(stream?.status).toBe('closed'))
+    expect(streamRequests).toBe(2)
+    expect(refreshRequests).toBe(1)
+    expect(onError).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop when the token refresh fails', async () => {
+    let streamRequests = 0
+
+    server.use(
+      http.get(`${baseUrl}/events/stream`, () => {
+        streamRequests++
+        return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })
+      }),
+      http.post('http://localhost:3000/api/auth/refresh', () => {
+        return HttpResponse.json({ error: 'Refresh token expired' }, { status: 401 })
+      })
+    )
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    stream = createEventStream({ organizationId: TEST_ORG_ID, onEvent: vi.fn(), onError: vi.fn() })
+
+    await vi.waitFor(() => expect(stream?.status).toBe('closed'))
+    expect(streamRequests).toBe(1)
+  })
+
+  it('should keep backing off when the server closes the stream before any message', async () => {
+    let streamRequests = 0
+
+    server.use(
+      http.get(`${baseUrl}/events/stream`, () => {
+        streamRequests++
+        const body = new ReadableStream({
+          start(controller) {
+            controller.close()
+          },
+        })
+        return new HttpResponse(body, { headers: { 'Content-Type': 'text/event-stream' } })
+      })
+    )
+
+    stream = createEventStream({
+      organizationId: TEST_ORG_ID,
+      onEvent: vi.fn(),
+      initialDelay: 5,
+      maxRetries: 2,
+    })
+
+    await vi.waitFor(() => expect(stream?.status).toBe('closed'))
+    expect(streamRequests).toBe(3)
+  })
+
+  it('should give up after maxRetries', async () => {
+    server.use(
+      http.get(`${baseUrl}/events/stream`, () => {
+        return HttpResponse.json({ message: 'Unavailable' }, { status: 503 })
+      })
+    )
+
+    stream = createEventStream({
+      organizationId: TEST_ORG_ID,
+      onEvent: vi.fn(),
+      onError: vi.fn(),
+      initialDelay: 5,
+      maxRetries: 2,
+    })
+
+    await vi.waitFor(() => expect(stream?.status).toBe('closed'))
+  })
+
+  it('should not reconnect after close', async () => {
+    stream = createEventStream({ organizationId: TEST_ORG_ID, onEvent: vi.fn(), initialDelay: 5 })
+    await vi.waitFor(() => expect(mockEventStream.connections).toBe(1))
+
+    stream.close()
+    mockEventStream.disconnect()
+    await new Promise((resolve) => setTimeout(resolve, 30))
+
+    expect(stream.status).toBe('closed')
+    expect(mockEventStream.requestCount).toBe(1)
+  })
+})
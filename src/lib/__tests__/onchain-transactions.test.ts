@@ -0,0 +1,215 @@
+import {
+  ContractFunctionRevertedError,
+  type Hash,
+  keccak256,
+  type PublicClient,
+  toBytes,
+  UserRejectedRequestError,
+  zeroHash,
+} from 'viem'
+import { sepolia } from 'viem/chains'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getConnection, switchChain, waitForTransactionReceipt, writeContract } from 'wagmi/actions'
+import { reputationRegistryAbi, validationRegistryAbi } from '../onchain/abis'
+import type { RegistryAddresses } from '../onchain/addresses'
+import { OnchainError } from '../onchain/registries'
+import {
+  buildGiveFeedbackArgs,
+  buildValidationRequestArgs,
+  encodeTag,
+  getTransactionUrl,
+  sendFeedback,
+  sendValidationRequest,
+} from '../onchain/transactions'
+
+vi.mock('wagmi/actions', () => ({
+  getConnection: vi.fn(),
+  switchChain: vi.fn(),
+  writeContract: vi.fn(),
+  waitForTransactionReceipt: vi.fn(),
+}))
+vi.mock('@/lib/wagmi-config', () => ({ wagmiConfig: { chains: [sepolia] } }))
+vi.mock('../onchain/client', () => ({ getRegistryClient: vi.fn(() => null) }))
+
+const ADDRESSES: RegistryAddresses = {
+  identity: '0x1111111111111111111111111111111111111111',
+  reputation: '0x2222222222222222222222222222222222222222',
+  validation: '0x3333333333333333333333333333333333333333',
+}
+
+const ACCOUNT = '0xabcdef0123456789abcdef0123456789abcdef01'
+const VALIDATOR = '0x4444444444444444444444444444444444444444'
+const TX_HASH: Hash = `0x${'cd'.repeat(32)}`
+
+const estimateContractGas = vi.fn()
+const client = { estimateContractGas } as unknown as PublicClient
+const options = { client, addresses: ADDRESSES }
+
+describe('transaction arguments', () => {
+  it('should encode tags as right-padded bytes32', () => {
+    expect(encodeTag('quality')).toBe(`0x7175616c697479${'0'.repeat(50)}`)
+    expect(encodeTag('')).toBe(zeroHash)
+    expect(encodeTag()).toBe(zeroHash)
+  })
+
+  it('should fill blank feedback fields with empty values', () => {
+    expect(buildGiveFeedbackArgs(42, { score: 90, tag1: 'quality', tag2: '' })).toEqual([
+      42n,
+      90,
+      encodeTag('quality'),
+      zeroHash,
+      '',
+      zeroHash,
+      '0x',
+    ])
+  })
+
+  it('should derive the validation request hash from the URI', () => {
+    const [, agentId, uri, hash] = buildValidationRequestArgs(42, {
+      validatorAddress: VALIDATOR,
+      requestUri: 'ipfs://request',
+    })
+
+    expect(agentId).toBe(42n)
+    expect(uri).toBe('ipfs://request')
+    expect(hash).toBe(keccak256(toBytes('ipfs://request')))
+  })
+
+  it('should build block explorer links for known chains', () => {
+    expect(getTransactionUrl(sepolia.id, TX_HASH)).toBe(
+      `https://sepolia.etherscan.io/tx/${TX_HASH}`
+    )
+    expect(getTransactionUrl(31337, TX_HASH)).toBeNull()
+  })
+})
+
+describe('sendFeedback', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getConnection).mockReturnValue({
+      address: ACCOUNT,
+      chainId: sepolia.id,
+    } as unknown as ReturnType<typeof getConnection>)
+    estimateContractGas.mockResolvedValue(100_000n)
+    vi.mocked(writeContract).mockResolvedValue(TX_HASH)
+    vi.mocked(waitForTransactionReceipt).mockResolvedValue({
+      status: 'success',
+    } as Awaited<ReturnType<typeof waitForTransactionReceipt>>)
+  })
+
+  it('should estimate gas, submit and wait for the receipt', async () => {
+    const onSubmitted = vi.fn()
+    const result = await sendFeedback(sepolia.id, 42, { score: 90 }, { ...options, onSubmitted })
+
+    expect(estimateContractGas).toHaveBeenCalledWith(
+      expect.objectContaining({
+        address: ADDRESSES.reputation,
+        abi: reputationRegistryAbi,
+        functionName: 'giveFeedback',
+        account: ACCOUNT,
+      })
+    )
+    expect(writeContract).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ functionName: 'giveFeedback', chainId: sepolia.id, gas: 120_000n })
+    )
+    expect(onSubmitted).toHaveBeenCalledWith(TX_HASH)
+    expect(result).toMatchObject({ hash: TX_HASH, chainId: sepolia.id, gas: 120_000n })
+    expect(switchChain).not.toHaveBeenCalled()
+  })
+
+  it('should switch the wallet to the agent chain first', async () => {
+    vi.mocked(getConnection).mockReturnValue({
+      address: ACCOUNT,
+      chainId: 1,
+    } as unknown as ReturnType<typeof getConnection>)
+
+    await sendFeedback(sepolia.id, 42, { score: 90 }, options)
+
+    expect(switchChain).toHaveBeenCalledWith(expect.anything(), { chainId: sepolia.id })
+  })
+
+  it('should require a connected wallet', async () => {
+    vi.mocked(getConnection).mockReturnValue({} as ReturnType<typeof getConnection>)
+
+    await expect(sendFeedback(sepolia.id, 42, { score: 90 }, options)).rejects.toMatchObject({
+      code: 'wallet_not_connected',
+    })
+    expect(writeContract).not.toHaveBeenCalled()
+  })
+
+  it('should report rejected wallet prompts', async () => {
+    vi.mocked(writeContract).mockRejectedValue(
+      new UserRejectedRequestError(new Error('User denied transaction signature'))
+    )
+
+    await expect(sendFeedback(sepolia.id, 42, { score: 90 }, options)).rejects.toMatchObject({
+      code: 'user_rejected',
+    })
+  })
+
+  it('should report reverts found during gas estimation', async () => {
+    estimateContractGas.mockRejectedValue(
+      new ContractFunctionRevertedError({
+        abi: reputationRegistryAbi,
+        functionName: 'giveFeedback',
+        message: 'Self-feedback not allowed',
+      })
+    )
+
+    const error = await sendFeedback(sepolia.id, 42, { score: 90 }, options).catch((e) => e)
+
+    expect(error).toBeInstanceOf(OnchainError)
+    expect(error.code).toBe('transaction_reverted')
+    expect(error.message).toContain('Self-feedback not allowed')
+    expect(writeContract).not.toHaveBeenCalled()
+  })
+
+  it('should report transactions that revert on-chain', async () => {
+    vi.mocked(waitForTransactionReceipt).mockResolvedValue({
+      status: 'reverted',
+    } as Awaited<ReturnType<typeof waitForTransactionReceipt>>)
+
+    await expect(sendFeedback(sepolia.id, 42, { score: 90 }, options)).rejects.toMatchObject({
+      code: 'transaction_reverted',
+    })
+  })
+
+  it('should fail without configured registries', async () => {
+    await expect(sendFeedback(sepolia.id, 42, { score: 90 }, { client })).rejects.toMatchObject({
+      code: 'registry_not_configured',
+    })
+  })
+})
+
+describe('sendValidationRequest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(getConnection).mockReturnValue({
+      address: ACCOUNT,
+      chainId: sepolia.id,
+    } as unknown as ReturnType<typeof getConnection>)
+    estimateContractGas.mockResolvedValue(50_000n)
+    vi.mocked(writeContract).mockResolvedValue(TX_HASH)
+    vi.mocked(waitForTransactionReceipt).mockResolvedValue({
+      status: 'success',
+    } as Awaited<ReturnType<typeof waitForTransactionReceipt>>)
+  })
+
+  it('should send the request to the validation registry', async () => {
+    const request = { validatorAddress: VALIDATOR, requestUri: 'ipfs://request' }
+    const result = await sendValidationRequest(sepolia.id, 42, request, options)
+
+    expect(writeContract).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        address: ADDRESSES.validation,
+        abi: validationRegistryAbi,
+        functionName: 'validationRequest',
+        args: buildValidationRequestArgs(42, request),
+        gas: 60_000n,
+      })
+    )
+    expect(result.hash).toBe(TX_HASH)
+  })
+})
@@ -0,0 +1,272 @@
+import {
+  type Abi,
+  type Address,
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeErrorResult,
+  encodeFunctionResult,
+  getAddress,
+  type Hex,
+  isAddressEqual,
+  type PublicClient,
+} from 'viem'
+import { sepolia } from 'viem/chains'
+import { describe, expect, it, vi } from 'vitest'
+import { identityRegistryAbi, reputationRegistryAbi, validationRegistryAbi } from '../onchain/abis'
+import { type RegistryAddresses, toRegistryAddresses } from '../onchain/addresses'
+import {
+  OnchainError,
+  readAgentIdentity,
+  readAgentValidations,
+  readOnchainAgent,
+  readReputationSummary,
+  readValidationStatus,
+  readValidationSummary,
+  verifyAgentOwner,
+} from '../onchain/registries'
+
+// Keep wallet connectors out of the test environment; every test passes its own client
+vi.mock('../onchain/client', () => ({ getRegistryClient: vi.fn(() => null) }))
+
+const ADDRESSES: RegistryAddresses = {
+  identity: '0x1111111111111111111111111111111111111111',
+  reputation: '0x2222222222222222222222222222222222222222',
+  validation: '0x3333333333333333333333333333333333333333',
+}
+
+const OWNER = getAddress('0xabcdef0123456789abcdef0123456789abcdef01')
+const REQUEST_HASH: Hex = `0x${'ab'.repeat(32)}`
+
+const ABIS: Record<string, Abi> = {
+  [ADDRESSES.identity]: identityRegistryAbi,
+  [ADDRESSES.reputation]: reputationRegistryAbi,
+  [ADDRESSES.validation]: validationRegistryAbi,
+}
+
+type CallHandler = (functionName: string, args: readonly unknown[]) => unknown
+
+/**
+ * Public client backed by a mocked RPC transport that answers eth_call by
+ * decoding the calldata against the registry ABIs.
+ */
+function createMockClient(handler: CallHandler): PublicClient {
+  return createPublicClient({
+    chain: sepolia,
+    transport: custom(
+      {
+        async request({ method, params }) {
+          if (method === 'eth_chainId') return `0x${sepolia.id.toString(16)}`
+          if (method !== 'eth_call') throw new Error(`Unexpected RPC method ${method}`)
+
+          const [{ to, data }] = params as [{ to: Address; data: Hex }]
+          const abi = ABIS[to]
+          if (!abi) throw new Error(`Unexpected contract ${to}`)
+
+          const { functionName, args } = decodeFunctionData({ abi, data })
+          const result = handler(functionName, args ?? [])
+          return encodeFunctionResult({ abi, functionName, result })
+        },
+      },
+      { retryCount: 0 }
+    ),
+  }) as PublicClient
+}
+
+function revertWith(data: Hex): never {
+  throw Object.assign(new Error('execution reverted'), { code: 3, data })
+}
+
+const registeredAgent: CallHandler = (functionName, args) => {
+  switch (functionName) {
+    case 'ownerOf':
+      return OWNER
+    case 'tokenURI':
+      return `ipfs://agent-${args[0]}`
+    case 'getSummary':
+      // Reputation getSummary has 4 args, validation getSummary has 3
+      return args.length === 4 ? [12n, 87] : [3n, 95]
+    case 'getAgentValidations':
+      return [REQUEST_HASH]
+    case 'getValidationStatus':
+      return [OWNER, 42n, 95, `0x${'00'.repeat(32)}`, 1736380800n]
+    default:
+      throw new Error(`Unexpected function ${functionName}`)
+  }
+}
+
+describe('toRegistryAddresses', () => {
+  it('should require all three addresses', () => {
+    expect(toRegistryAddresses(ADDRESSES.identity, ADDRESSES.reputation, undefined)).toBeNull()
+  })
+
+  it('should reject invalid addresses', () => {
+    expect(toRegistryAddresses('0x123', ADDRESSES.reputation, ADDRESSES.validation)).toBeNull()
+  })
+
+  it('should build the address set', () => {
+    expect(
+      toRegistryAddresses(ADDRESSES.identity, ADDRESSES.reputation, ADDRESSES.validation)
+    ).toEqual(ADDRESSES)
+  })
+})
+
+describe('readAgentIdentity', () => {
+  it('should read owner and token URI', async () => {
+    const client = createMockClient(registeredAgent)
+
+    const identity = await readAgentIdentity(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(identity).toEqual({
+      agentId: 42,
+      chainId: 11155111,
+      owner: OWNER,
+      tokenUri: 'ipfs://agent-42',
+    })
+  })
+
+  it('should map an empty token URI to null', async () => {
+    const client = createMockClient((functionName, args) =>
+      functionName === 'tokenURI' ? '' : registeredAgent(functionName, args)
+    )
+
+    const identity = await readAgentIdentity(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(identity.tokenUri).toBeNull()
+  })
+
+  it('should throw agent_not_found for nonexistent tokens', async () => {
+    const client = createMockClient((_, args) =>
+      revertWith(
+        encodeErrorResult({
+          abi: identityRegistryAbi,
+          errorName: 'ERC721NonexistentToken',
+          args: [args[0] as bigint],
+        })
+      )
+    )
+
+    await expect(
+      readAgentIdentity(11155111, 999, { client, addresses: ADDRESSES })
+    ).rejects.toMatchObject({ name: 'OnchainError', code: 'agent_not_found' })
+  })
+
+  it('should throw call_failed for RPC failures', async () => {
+    const client = createMockClient(() => {
+      throw new Error('connection refused')
+    })
+
+    await expect(
+      readAgentIdentity(11155111, 42, { client, addresses: ADDRESSES })
+    ).rejects.toMatchObject({ code: 'call_failed' })
+  })
+
+  it('should throw unsupported_chain without a client', async () => {
+    await expect(readAgentIdentity(1, 42, { addresses: ADDRESSES })).rejects.toMatchObject({
+      code: 'unsupported_chain',
+    })
+  })
+
+  it('should throw registry_not_configured without addresses', async () => {
+    const client = createMockClient(registeredAgent)
+
+    const error = await readAgentIdentity(1, 42, { client }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(OnchainError)
+    expect((error as OnchainError).code).toBe('registry_not_configured')
+  })
+})
+
+describe('verifyAgentOwner', () => {
+  it('should compare owners case-insensitively', async () => {
+    const client = createMockClient(registeredAgent)
+    const options = { client, addresses: ADDRESSES }
+
+    await expect(
+      verifyAgentOwner(11155111, 42, OWNER.toLowerCase() as Address, options)
+    ).resolves.toBe(true)
+    await expect(verifyAgentOwner(11155111, 42, ADDRESSES.identity, options)).resolves.toBe(false)
+  })
+})
+
+describe('summary reads', () => {
+  it('should read the reputation summary across all clients and tags', async () => {
+    const handler = vi.fn(registeredAgent)
+    const client = createMockClient(handler)
+
+    const summary = await readReputationSummary(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(summary).toEqual({ feedbackCount: 12, averageScore: 87 })
+    expect(handler).toHaveBeenCalledWith('getSummary', [
+      42n,
+      [],
+      `0x${'00'.repeat(32)}`,
+      `0x${'00'.repeat(32)}`,
+    ])
+  })
+
+  it('should report no average score without feedback', async () => {
+    const client = createMockClient(() => [0n, 0])
+
+    const summary = await readReputationSummary(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(summary).toEqual({ feedbackCount: 0, averageScore: null })
+  })
+
+  it('should read the validation summary', async () => {
+    const client = createMockClient(registeredAgent)
+
+    const summary = await readValidationSummary(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(summary).toEqual({ count: 3, averageResponse: 95 })
+  })
+})
+
+describe('validation reads', () => {
+  it('should list validation request hashes', async () => {
+    const client = createMockClient(registeredAgent)
+
+    const hashes = await readAgentValidations(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(hashes).toEqual([REQUEST_HASH])
+  })
+
+  it('should read a validation status', async () => {
+    const client = createMockClient(registeredAgent)
+
+    const status = await readValidationStatus(11155111, REQUEST_HASH, {
+      client,
+      addresses: ADDRESSES,
+    })
+
+    expect(isAddressEqual(status.validatorAddress, OWNER)).toBe(true)
+    expect(status.agentId).toBe(42)
+    expect(status.response).toBe(95)
+    expect(status.lastUpdate?.toISOString()).toBe('2025-01-09T00:00:00.000Z')
+  })
+})
+
+describe('readOnchainAgent', () => {
+  it('should combine identity and summaries', async () => {
+    const client = createMockClient(registeredAgent)
+
+    const agent = await readOnchainAgent(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(agent.owner).toBe(OWNER)
+    expect(agent.reputation).toEqual({ feedbackCount: 12, averageScore: 87 })
+    expect(agent.validation).toEqual({ count: 3, averageResponse: 95 })
+  })
+
+  it('should keep the identity when summary reads fail', async () => {
+    const client = createMockClient((functionName, args) => {
+      if (functionName === 'getSummary') throw new Error('not deployed')
+      return registeredAgent(functionName, args)
+    })
+
+    const agent = await readOnchainAgent(11155111, 42, { client, addresses: ADDRESSES })
+
+    expect(agent.owner).toBe(OWNER)
+    expect(agent.reputation).toBeNull()
+    expect(agent.validation).toBeNull()
+  })
+})
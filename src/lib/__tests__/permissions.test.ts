@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { ORGANIZATION_ROLES } from '../constants'
+import {
+  can,
+  describePermission,
+  getAllowedRoles,
+  getPermissionDeniedReason,
+  PERMISSION_ACTIONS,
+  PERMISSION_RESOURCES,
+} from '../permissions'
+
+describe('can', () => {
+  it('should allow owners everything but editing the audit log', () => {
+    for (const resource of PERMISSION_RESOURCES) {
+      for (const action of PERMISSION_ACTIONS) {
+        expect(can('owner', action, resource)).toBe(resource !== 'audit_log' || action === 'view')
+      }
+    }
+  })
+
+  it('should let only owners delete the organization and manage billing', () => {
+    expect(getAllowedRoles('delete', 'organization')).toEqual(['owner'])
+    expect(getAllowedRoles('update', 'billing')).toEqual(['owner'])
+    expect(getAllowedRoles('create', 'billing')).toEqual(['owner', 'admin'])
+  })
+
+  it('should let members manage triggers, watchlists, agents and API keys but not members', () => {
+    for (const resource of ['trigger', 'watchlist', 'agent', 'api_key'] as const) {
+      expect(can('member', 'create', resource)).toBe(true)
+      expect(can('member', 'delete', resource)).toBe(true)
+    }
+    expect(can('member', 'create', 'member')).toBe(false)
+    expect(can('member', 'view', 'audit_log')).toBe(false)
+  })
+
+  it('should only let viewers view', () => {
+    for (const resource of PERMISSION_RESOURCES) {
+      expect(can('viewer', 'create', resource)).toBe(false)
+      expect(can('viewer', 'update', resource)).toBe(false)
+      expect(can('viewer', 'delete', resource)).toBe(false)
+    }
+    expect(can('viewer', 'view', 'trigger')).toBe(true)
+  })
+
+  it('should deny everything without a role', () => {
+    expect(can(null, 'view', 'trigger')).toBe(false)
+    expect(can(undefined, 'view', 'organization')).toBe(false)
+  })
+
+  it('should never allow more to a lower role', () => {
+    for (const resource of PERMISSION_RESOURCES) {
+      for (const action of PERMISSION_ACTIONS) {
+        const allowed = ORGANIZATION_ROLES.map((role) => can(role, action, resource))
+        expect(allowed).toEqual([...allowed].sort((a, b) => Number(b) - Number(a)))
+      }
+    }
+  })
+})
+
+describe('describePermission', () => {
+  it('should combine the verb and resource', () => {
+    expect(describePermission('create', 'trigger')).toBe('create triggers')
+    expect(describePermission('update', 'api_key')).toBe('edit API keys')
+  })
+
+  it('should use specific wording where it reads better', () => {
+    expect(describePermission('create', 'member')).toBe('invite members')
+    expect(describePermission('create', 'agent')).toBe('link agents')
+    expect(describePermission('create', 'billing')).toBe('buy credits')
+  })
+})
+
+describe('getPermissionDeniedReason', () => {
+  it('should return null when allowed', () => {
+    expect(getPermissionDeniedReason('admin', 'delete', 'trigger')).toBeNull()
+  })
+
+  it('should name the roles that are allowed', () => {
+    expect(getPermissionDeniedReason('viewer', 'create', 'trigger')).toBe(
+      "Viewers can't create triggers. Requires the owner, admin or member role."
+    )
+    expect(getPermissionDeniedReason('member', 'delete', 'member')).toBe(
+      "Members can't remove members. Requires the owner or admin role."
+    )
+    expect(getPermissionDeniedReason('admin', 'delete', 'organization')).toBe(
+      "Admins can't delete the organization. Requires the owner role."
+    )
+  })
+
+  it('should explain missing roles and actions no role has', () => {
+    expect(getPermissionDeniedReason(null, 'create', 'trigger')).toBe(
+      'Select an organization to create triggers.'
+    )
+    expect(getPermissionDeniedReason('owner', 'delete', 'audit_log')).toBe(
+      'No role can delete the audit log.'
+    )
+  })
+})
@@ -166,6 +166,24 @@ describe('sanitize', () => {
       const result = validateTemplateVariables(template)
       expect(result.isValid).toBe(true)
     })
+
+    it('should accept data paths, filters and if blocks', () => {
+      const template =
+        '{{data.owner | formatAddress}} {{#if data.tag}}{{data.tag | truncate(8)}}{{/if}}'
+      const result = validateTemplateVariables(template)
+      expect(result.isValid).toBe(true)
+      expect(result.errors).toEqual([])
+    })
+
+    it('should report unknown filters and unsafe paths', () => {
+      const result = validateTemplateVariables('{{agentId | exec}} {{data.__proto__}}')
+      expect(result.isValid).toBe(false)
+      expect(result.invalidVars).toEqual(['data.__proto__'])
+      expect(result.errors).toEqual([
+        'Unknown filter "exec"',
+        'Path "data.__proto__" is not allowed',
+      ])
+    })
   })
 
   describe('sanitizeConfigValue', () => {
@@ -0,0 +1,203 @@
+import { describe, expect, it } from 'vitest'
+import type { BlockchainEvent } from '@/lib/validations/event'
+import {
+  createSampleEvent,
+  createTemplateContext,
+  getTemplateFormat,
+  renderTemplate,
+  validateTemplate,
+} from '../template-engine'
+
+const event: BlockchainEvent = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  eventType: 'ReputationUpdated',
+  agentId: 42,
+  chainId: 11155111,
+  registry: 'reputation',
+  blockNumber: 12345678,
+  transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+  data: {
+    score: 1234.5,
+    clientAddress: '0x1234567890abcdef1234567890abcdef12345678',
+    note: 'Great agent, fast responses and accurate results',
+    metadata: { name: 'Test Agent', tags: ['fast', 'accurate'] },
+  },
+  timestamp: '2025-01-01T00:00:00Z',
+  createdAt: '2025-01-01T00:00:00Z',
+}
+
+const context = createTemplateContext(event, { id: 'trigger-1', name: 'Reputation Watch' })
+const render = (template: string) => renderTemplate(template, context)
+
+describe('renderTemplate', () => {
+  it('should render top-level variables and dotted data paths', () => {
+    expect(render('{{triggerName}}: {{ eventType }} for #{{agentId}}').output).toBe(
+      'Reputation Watch: ReputationUpdated for #42'
+    )
+    expect(render('{{data.metadata.name}} / {{data.metadata.tags.1}}').output).toBe(
+      'Test Agent / accurate'
+    )
+    expect(render('{{reputationScore}}').output).toBe('1234.5')
+  })
+
+  it('should apply filters left to right', () => {
+    expect(render('{{data.clientAddress | formatAddress}}').output).toBe('0x1234...5678')
+    expect(render('{{chainId | chainName}}').output).toBe('SEPOLIA')
+    expect(render('{{data.score | number}}').output).toBe((1234.5).toLocaleString())
+    expect(render('{{data.note | truncate(11)}}').output).toBe('Great agen…')
+    expect(render('{{data.note | truncate(10) | upper}}').output).toBe('GREAT AGE…')
+    expect(render('{{data.metadata | json}}').output).toBe(
+      '{"name":"Test Agent","tags":["fast","accurate"]}'
+    )
+    expect(render('{"name": {{data.metadata.name | json}}}').output).toBe('{"name": "Test Agent"}')
+  })
+
+  it('should use defaults for missing values', () => {
+    const result = render('{{data.missing | default("n/a")}} {{data.missing | default(0)}}')
+    expect(result.output).toBe('n/a 0')
+    expect(result.errors).toEqual([])
+  })
+
+  it('should report paths missing from the event', () => {
+    const result = render('Owner: {{data.owner}}')
+    expect(result.output).toBe('Owner: ')
+    expect(result.errors).toEqual([
+      {
+        code: 'missing_value',
+        message: '"data.owner" is not present on this event',
+        expression: 'data.owner',
+      },
+    ])
+  })
+
+  it('should render if/else blocks, including nested ones', () => {
+    expect(render('{{#if data.note}}note{{else}}none{{/if}}').output).toBe('note')
+    expect(render('{{#if data.missing}}note{{else}}none{{/if}}').output).toBe('none')
+    expect(render('{{#if data.missing}}note{{/if}}').errors).toEqual([])
+    expect(render('{{#if agentId}}A{{#if data.missing}}B{{else}}C{{/if}}{{/if}}').output).toBe('AC')
+  })
+
+  it('should not evaluate template syntax inside event data', () => {
+    const injected = createTemplateContext({
+      ...event,
+      data: { note: '{{triggerId}} {{#if agentId}}x{{/if}}' },
+    })
+    expect(renderTemplate('{{data.note}}', injected).output).toBe(
+      '{{triggerId}} {{#if agentId}}x{{/if}}'
+    )
+  })
+
+  it('should treat quoted punctuation as filter arguments', () => {
+    const missing = createTemplateContext({ ...event, data: {} })
+    expect(renderTemplate('{{data.note | default(")")}}', missing).output).toBe(')')
+    expect(renderTemplate('{{data.note | default(",")}}', missing).output).toBe(',')
+    expect(renderTemplate('{{data.note | default("|")}}', missing).output).toBe('|')
+    expect(validateTemplate('{{data.note | default("a", ")")}}')).toEqual([
+      {
+        code: 'invalid_argument',
+        message: 'default takes at most 1 argument',
+        expression: 'data.note | default("a", ")")',
+      },
+    ])
+  })
+
+  it('should escape values for the output format', () => {
+    const value = '", "admin": true, "x": "<b>&</b> <!channel> @everyone\nBcc: x@evil.test'
+    const hostile = createTemplateContext({ ...event, data: { note: value } })
+    const note = '{{data.note}}'
+
+    const body = renderTemplate(`{"note": "${note}", "raw": ${note}}`, hostile, 'json').output
+    expect(JSON.parse(body)).toEqual({ note: value, raw: value })
+    expect(renderTemplate('{"score": {{data.score}}}', context, 'json').output).toBe(
+      '{"score": 1234.5}'
+    )
+    expect(renderTemplate('{"tags": {{data.metadata.tags | json}}}', context, 'json').output).toBe(
+      '{"tags": ["fast","accurate"]}'
+    )
+
+    expect(renderTemplate(note, hostile, 'slack').output).not.toMatch(/<!channel>|<b>/)
+    expect(renderTemplate(note, hostile, 'slack').output).toContain('&lt;!channel&gt;')
+    expect(renderTemplate(note, hostile, 'discord').output).toContain('\\@everyone')
+    expect(renderTemplate(note, hostile, 'header').output).not.toContain('\n')
+  })
+
+  it('should pick the output format of action config fields', () => {
+    expect(getTemplateFormat('rest', 'body')).toBe('json')
+    expect(getTemplateFormat('slack', 'message')).toBe('slack')
+    expect(getTemplateFormat('email', 'subject')).toBe('header')
+    expect(getTemplateFormat('email', 'body')).toBe('text')
+    expect(getTemplateFormat('telegram', 'message')).toBe('text')
+  })
+
+  it('should return no output for invalid templates', () => {
+    const result = render('Hello {{unknown}}')
+    expect(result.output).toBe('')
+    expect(result.errors[0]?.code).toBe('unknown_variable')
+  })
+})
+
+describe('validateTemplate', () => {
+  it('should accept valid templates', () => {
+    expect(validateTemplate('Plain text')).toEqual([])
+    expect(
+      validateTemplate('{{#if data.tag}}{{data.tag | truncate(8)}}{{else}}-{{/if}} {{agentId}}')
+    ).toEqual([])
+  })
+
+  it.each([
+    ['{{secret}}', 'unknown_variable', 'Unknown variable "secret"'],
+    [
+      '{{agentId.owner}}',
+      'unknown_variable',
+      '"agentId" has no fields (use data.* for event payload fields)',
+    ],
+    ['{{data.__proto__}}', 'unknown_variable', 'Path "data.__proto__" is not allowed'],
+    [
+      '{{data.constructor.name}}',
+      'unknown_variable',
+      'Path "data.constructor.name" is not allowed',
+    ],
+    ['{{data..score}}', 'unknown_variable', 'Path "data..score" is not allowed'],
+    ['{{agentId | eval}}', 'unknown_filter', 'Unknown filter "eval"'],
+    [
+      '{{agentId | truncate(-1)}}',
+      'invalid_argument',
+      'truncate length must be a positive whole number',
+    ],
+    ['{{agentId | json(1)}}', 'invalid_argument', 'json takes at most 0 arguments'],
+    ['{{agentId | default}}', 'invalid_argument', 'default requires a fallback value'],
+    ['{{agentId |}}', 'syntax', 'Invalid expression "agentId |"'],
+    ['{{agentId()}}', 'syntax', 'Invalid expression "agentId()"'],
+    ['{{"literal"}}', 'syntax', 'Invalid expression ""literal""'],
+    ['{{#if agentId}}open', 'syntax', 'Unclosed {{#if}} block (missing {{/if}})'],
+    ['{{/if}}', 'syntax', 'Unexpected {{/if}}'],
+    ['{{else}}', 'syntax', 'Unexpected {{else}}'],
+    ['{{#each data}}{{/each}}', 'syntax', 'Unknown block "#each data"'],
+    ['Hello {{agentId', 'syntax', 'Unclosed "{{" tag'],
+  ])('should reject %s', (template, code, message) => {
+    expect(validateTemplate(template)[0]).toMatchObject({ code, message })
+  })
+
+  it('should limit block nesting', () => {
+    const template = `${'{{#if agentId}}'.repeat(6)}x${'{{/if}}'.repeat(6)}`
+    expect(validateTemplate(template)[0]?.message).toBe(
+      '{{#if}} blocks cannot be nested more than 5 levels deep'
+    )
+  })
+})
+
+describe('createSampleEvent', () => {
+  it('should fill payload fields from the event catalog', () => {
+    const sample = createSampleEvent('ReputationUpdated', 84532)
+    expect(sample.registry).toBe('reputation')
+    expect(sample.chainId).toBe(84532)
+    expect(sample.data).toMatchObject({
+      score: 85,
+      clientAddress: '0x1234567890abcdef1234567890abcdef12345678',
+    })
+  })
+
+  it('should create an empty payload for unknown event types', () => {
+    expect(createSampleEvent('SomethingNew').data).toEqual({})
+  })
+})
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+import { diffTriggerRevisions } from '../trigger-revisions'
+import type {
+  TriggerCondition,
+  TriggerRevision,
+  TriggerRevisionSnapshot,
+} from '../validations/trigger'
+
+const TRIGGER_ID = '550e8400-e29b-41d4-a716-446655440000'
+
+const condition: TriggerCondition = {
+  id: '550e8400-e29b-41d4-a716-446655440010',
+  triggerId: TRIGGER_ID,
+  conditionType: 'score_threshold',
+  field: 'score',
+  operator: 'lt',
+  value: '40',
+  config: {},
+  createdAt: '2026-01-01T00:00:00Z',
+}
+
+const baseSnapshot: TriggerRevisionSnapshot = {
+  name: 'Low score',
+  description: null,
+  chainId: 84532,
+  registry: 'reputation',
+  enabled: true,
+  isStateful: false,
+  conditions: [condition],
+  actions: [
+    {
+      id: '550e8400-e29b-41d4-a716-446655440020',
+      triggerId: TRIGGER_ID,
+      actionType: 'telegram',
+      priority: 0,
+      config: { chatId: '123' },
+      createdAt: '2026-01-01T00:00:00Z',
+    },
+  ],
+}
+
+function createRevision(
+  revision: number,
+  snapshot: Partial<TriggerRevisionSnapshot> = {}
+): TriggerRevision {
+  return {
+    id: `550e8400-e29b-41d4-a716-4466554401${String(revision).padStart(2, '0')}`,
+    triggerId: TRIGGER_ID,
+    revision,
+    changeType: revision === 1 ? 'created' : 'updated',
+    author: null,
+    createdAt: '2026-01-01T00:00:00Z',
+    rolledBackFrom: null,
+    snapshot: { ...baseSnapshot, ...snapshot },
+  }
+}
+
+describe('trigger-revisions', () => {
+  describe('diffTriggerRevisions', () => {
+    it('should return no sections for the first revision', () => {
+      expect(diffTriggerRevisions(undefined, createRevision(1))).toEqual([])
+    })
+
+    it('should group changes by section in display order', () => {
+      const previous = createRevision(1)
+      const revision = createRevision(2, {
+        name: 'Very low score',
+        enabled: false,
+        actions: [],
+        chainId: 11155111,
+      })
+
+      const diffs = diffTriggerRevisions(previous, revision)
+
+      expect(diffs.map((diff) => diff.section)).toEqual(['name', 'enabled', 'actions', 'settings'])
+      expect(diffs[0]?.changes).toEqual([
+        { path: 'name', type: 'changed', before: 'Low score', after: 'Very low score' },
+      ])
+      expect(diffs[3]?.changes).toEqual([
+        { path: 'chainId', type: 'changed', before: 84532, after: 11155111 },
+      ])
+    })
+
+    it('should ignore condition and action IDs and timestamps', () => {
+      const previous = createRevision(1)
+      const revision = createRevision(2, {
+        conditions: [
+          {
+            ...condition,
+            id: '550e8400-e29b-41d4-a716-446655440011',
+            createdAt: '2026-02-01T00:00:00Z',
+            value: '30',
+          },
+        ],
+      })
+
+      expect(diffTriggerRevisions(previous, revision)).toEqual([
+        {
+          section: 'conditions',
+          changes: [{ path: 'conditions.0.value', type: 'changed', before: '40', after: '30' }],
+        },
+      ])
+    })
+
+    it('should return no sections when nothing changed', () => {
+      expect(diffTriggerRevisions(createRevision(1), createRevision(2))).toEqual([])
+    })
+  })
+})
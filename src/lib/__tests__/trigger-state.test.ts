@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_TRIGGER_STATE_CONFIG,
+  describeStateConfig,
+  formatSeconds,
+  getCooldownRemaining,
+  splitDuration,
+  toSeconds,
+} from '../trigger-state'
+
+describe('trigger-state', () => {
+  describe('splitDuration', () => {
+    it.each([
+      [86400, { amount: 1, unit: 'days' }],
+      [7200, { amount: 2, unit: 'hours' }],
+      [5400, { amount: 90, unit: 'minutes' }],
+      [0, { amount: 0, unit: 'minutes' }],
+    ])('should split %i seconds', (seconds, expected) => {
+      expect(splitDuration(seconds)).toEqual(expected)
+    })
+  })
+
+  describe('toSeconds', () => {
+    it('should convert units to seconds', () => {
+      expect(toSeconds(2, 'days')).toBe(172800)
+      expect(toSeconds(3, 'hours')).toBe(10800)
+      expect(toSeconds(15, 'minutes')).toBe(900)
+    })
+  })
+
+  describe('formatSeconds', () => {
+    it.each([
+      [45, '45s'],
+      [90, '1m 30s'],
+      [5400, '1h 30m'],
+      [90061, '1d 1h 1m 1s'],
+      [86400, '1d'],
+      [3600, '1h'],
+      [604800, '7d'],
+    ])('should format %i seconds as %s', (seconds, expected) => {
+      expect(formatSeconds(seconds)).toBe(expected)
+    })
+  })
+
+  describe('describeStateConfig', () => {
+    it('should describe a windowed per-agent counter', () => {
+      expect(
+        describeStateConfig({
+          ...DEFAULT_TRIGGER_STATE_CONFIG,
+          windowSeconds: 3600,
+          cooldownSeconds: 600,
+        })
+      ).toBe('3 matching events within 1h per agent, cooldown 10m, reset after firing')
+    })
+
+    it('should describe a trigger-wide counter without a window', () => {
+      expect(
+        describeStateConfig({
+          windowSeconds: null,
+          countThreshold: null,
+          cooldownSeconds: 0,
+          scope: 'trigger',
+          resetPolicy: 'manual',
+        })
+      ).toBe('1 matching event across all agents, manual reset')
+    })
+  })
+
+  describe('getCooldownRemaining', () => {
+    const entry = {
+      agentId: 42,
+      count: 0,
+      windowStartedAt: null,
+      lastMatchedAt: null,
+      lastFiredAt: null,
+      cooldownUntil: '2025-01-01T01:00:00Z',
+    }
+    const now = Date.parse('2025-01-01T00:30:00Z')
+
+    it('should return remaining seconds while cooling down', () => {
+      expect(getCooldownRemaining(entry, now)).toBe(1800)
+    })
+
+    it('should return 0 once the cooldown has passed', () => {
+      expect(getCooldownRemaining(entry, Date.parse('2025-01-01T02:00:00Z'))).toBe(0)
+    })
+
+    it('should return 0 without a cooldown', () => {
+      expect(getCooldownRemaining({ ...entry, cooldownUntil: null }, now)).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import {
+  BUILT_IN_TRIGGER_TEMPLATES,
+  findTemplatePlaceholders,
+  getBuiltInTriggerTemplate,
+  instantiateTriggerTemplate,
+  toTriggerTemplateBody,
+  validateTemplateParameters,
+} from '../trigger-templates'
+import { createTriggerRequestSchema } from '../validations/trigger'
+import { REDACTED_SECRET } from '../validations/trigger-bundle'
+import { createTriggerTemplateRequestSchema } from '../validations/trigger-template'
+
+const WATCHLIST_ID = '550e8400-e29b-41d4-a716-446655440010'
+
+/** Sample values for every built-in parameter */
+const SAMPLE_VALUES: Record<string, string> = {
+  threshold: '40',
+  chatId: '123456789',
+  webhookUrl: 'https://example.com/hooks/agents',
+  watchlist: WATCHLIST_ID,
+}
+
+/** Look up a built-in template that must exist */
+function builtIn(id: string) {
+  const template = getBuiltInTriggerTemplate(id)
+  if (!template) throw new Error(`Unknown template: ${id}`)
+  return template
+}
+
+describe('built-in trigger templates', () => {
+  it.each(
+    BUILT_IN_TRIGGER_TEMPLATES.map((t) => [t.id, t] as const)
+  )('%s should declare every placeholder it uses', (_, template) => {
+    const keys = template.parameters.map((p) => p.key)
+    expect(findTemplatePlaceholders(template.trigger).every((k) => keys.includes(k))).toBe(true)
+  })
+
+  it.each(
+    BUILT_IN_TRIGGER_TEMPLATES.map((t) => [t.id, t] as const)
+  )('%s should produce a valid trigger from sample values', (_, template) => {
+    expect(validateTemplateParameters(template, SAMPLE_VALUES)).toEqual({})
+    const values = instantiateTriggerTemplate(template, SAMPLE_VALUES)
+    expect(createTriggerRequestSchema.safeParse(values).success).toBe(true)
+  })
+})
+
+describe('findTemplatePlaceholders', () => {
+  it('should collect unique keys from nested values', () => {
+    expect(
+      findTemplatePlaceholders({
+        name: 'Below [[threshold]]',
+        conditions: [{ value: '[[threshold]]' }, { value: 'watchlist:[[watchlist]]' }],
+        actions: [{ config: { message: 'Agent {{agentId}}' } }],
+      })
+    ).toEqual(['threshold', 'watchlist'])
+  })
+})
+
+describe('validateTemplateParameters', () => {
+  const template = builtIn('reputation-drop')
+
+  it('should require parameters without a default', () => {
+    expect(validateTemplateParameters(template, {})).toEqual({
+      chatId: 'Telegram chat ID is required',
+    })
+  })
+
+  it('should check values against the parameter type', () => {
+    const errors = validateTemplateParameters(template, {
+      threshold: 'low',
+      chainId: '999',
+      chatId: '1',
+    })
+    expect(errors.threshold).toBe('Score threshold must be a number')
+    expect(errors.chainId).toBe('Unsupported chain')
+  })
+
+  it('should reject non-HTTP webhook URLs', () => {
+    const errors = validateTemplateParameters(builtIn('new-agent'), {
+      webhookUrl: 'ftp://example.com',
+    })
+    expect(errors.webhookUrl).toBe('Webhook URL must be an HTTP(S) URL')
+  })
+})
+
+describe('instantiateTriggerTemplate', () => {
+  it('should substitute placeholders and fall back to defaults', () => {
+    const values = instantiateTriggerTemplate(builtIn('reputation-drop'), {
+      chatId: '42',
+    })
+
+    expect(values.name).toBe('Reputation below 50')
+    expect(values.chainId).toBe(11155111)
+    expect(values.conditions[1]).toMatchObject({ field: 'reputation_score', value: '50' })
+    expect(values.actions[0]?.config).toEqual({
+      chatId: '42',
+      message: 'Agent #{{agentId}} reputation dropped to {{reputationScore}}',
+    })
+  })
+
+  it('should reference the chosen watchlist', () => {
+    const values = instantiateTriggerTemplate(builtIn('validation-webhook'), SAMPLE_VALUES)
+    expect(values.conditions[1]).toMatchObject({ value: `watchlist:${WATCHLIST_ID}` })
+  })
+})
+
+describe('toTriggerTemplateBody', () => {
+  it('should build a saveable template body from form values', () => {
+    const formValues = instantiateTriggerTemplate(builtIn('new-agent'), SAMPLE_VALUES)
+    const body = toTriggerTemplateBody({ ...formValues, description: '' })
+
+    expect(body).not.toHaveProperty('enabled')
+    expect(body.description).toBeUndefined()
+    expect(body.chainId).toBe(84532)
+    expect(
+      createTriggerTemplateRequestSchema.safeParse({
+        name: 'New agents',
+        category: 'identity',
+        parameters: [],
+        trigger: body,
+      }).success
+    ).toBe(true)
+  })
+
+  it('should redact action secrets', () => {
+    const formValues = instantiateTriggerTemplate(builtIn('new-agent'), SAMPLE_VALUES)
+    const body = toTriggerTemplateBody({
+      ...formValues,
+      actions: [
+        {
+          actionType: 'rest',
+          priority: 0,
+          config: {
+            method: 'POST',
+            url: 'https://api.example.com/hook?token=abc&v=2',
+            headers: { Authorization: 'Bearer abc' },
+          },
+        },
+        {
+          actionType: 'slack',
+          priority: 1,
+          config: {
+            webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX',
+            message: 'New agent {{agentId}}',
+          },
+        },
+      ],
+    })
+
+    expect(body.actions[0]).toMatchObject({
+      config: {
+        url: `https://api.example.com/hook?token=${REDACTED_SECRET}&v=2`,
+        headers: { Authorization: REDACTED_SECRET },
+      },
+    })
+    expect(body.actions[1]).toMatchObject({
+      config: { webhookUrl: REDACTED_SECRET, message: 'New agent {{agentId}}' },
+    })
+  })
+
+  it('should reject templates with undeclared placeholders', () => {
+    const template = builtIn('new-agent')
+    const result = createTriggerTemplateRequestSchema.safeParse({
+      name: 'New agents',
+      category: 'identity',
+      parameters: [],
+      trigger: template.trigger,
+    })
+    expect(result.success).toBe(false)
+    expect(result.error?.issues[0]?.message).toBe('Undeclared parameters: chainId, webhookUrl')
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  isAgentInWatchlist,
+  parseWatchlistCsv,
+  parseWatchlistReference,
+  resolveChainColumn,
+  supportsWatchlistReference,
+  toWatchlistReference,
+} from '../watchlists'
+
+const WATCHLIST_ID = '550e8400-e29b-41d4-a716-446655440010'
+
+describe('watchlist references', () => {
+  it('should round-trip watchlist references', () => {
+    expect(toWatchlistReference(WATCHLIST_ID)).toBe(`watchlist:${WATCHLIST_ID}`)
+    expect(parseWatchlistReference(` watchlist:${WATCHLIST_ID} `)).toBe(WATCHLIST_ID)
+  })
+
+  it('should ignore plain values', () => {
+    expect(parseWatchlistReference('1, 2, 3')).toBeNull()
+    expect(parseWatchlistReference('watchlist:')).toBeNull()
+    expect(parseWatchlistReference(undefined)).toBeNull()
+  })
+
+  it('should only allow references on agent ID fields', () => {
+    expect(supportsWatchlistReference('agentId')).toBe(true)
+    expect(supportsWatchlistReference('agent_id')).toBe(true)
+    expect(supportsWatchlistReference('agent_address')).toBe(false)
+    expect(supportsWatchlistReference(undefined)).toBe(false)
+  })
+
+  it('should check membership by agent ID and chain', () => {
+    const agents = [{ agentId: 42, chainId: 11155111 }]
+    expect(isAgentInWatchlist(agents, 42, 11155111)).toBe(true)
+    expect(isAgentInWatchlist(agents, 42, 84532)).toBe(false)
+  })
+})
+
+describe('resolveChainColumn', () => {
+  it.each([
+    ['11155111', 11155111],
+    ['sepolia', 11155111],
+    ['Base Sepolia', 84532],
+    ['BASE_SEPOLIA', 84532],
+    ['polygon-amoy', 80002],
+    ['999', null],
+    ['solana', null],
+  ] as const)('%s should resolve to %s', (value, expected) => {
+    expect(resolveChainColumn(value)).toBe(expected)
+  })
+})
+
+describe('parseWatchlistCsv', () => {
+  it('should parse agent and chain columns and skip the header', () => {
+    const result = parseWatchlistCsv('agent_id,chain\n42,sepolia\n"7";84532\n\n9\tbase sepolia')
+
+    expect(result.agents).toEqual([
+      { agentId: 42, chainId: 11155111 },
+      { agentId: 7, chainId: 84532 },
+      { agentId: 9, chainId: 84532 },
+    ])
+    expect(result.errors).toEqual([])
+  })
+
+  it('should use the default chain for single-column lines', () => {
+    const result = parseWatchlistCsv('42\r\n43', 84532)
+
+    expect(result.agents).toEqual([
+      { agentId: 42, chainId: 84532 },
+      { agentId: 43, chainId: 84532 },
+    ])
+  })
+
+  it('should report invalid lines with their line numbers', () => {
+    const result = parseWatchlistCsv('42\nabc,sepolia\n43,solana\n44,sepolia')
+
+    expect(result.agents).toEqual([{ agentId: 44, chainId: 11155111 }])
+    expect(result.errors).toEqual([
+      { line: 1, message: 'Missing chain' },
+      { line: 2, message: 'Invalid agent ID "abc"' },
+      { line: 3, message: 'Unsupported chain "solana"' },
+    ])
+  })
+
+  it('should count duplicate agents once', () => {
+    const result = parseWatchlistCsv('42,sepolia\n42,11155111\n42,base sepolia')
+
+    expect(result.agents).toHaveLength(2)
+    expect(result.duplicates).toBe(1)
+  })
+})
@@ -0,0 +1,283 @@
+/**
+ * Agent analytics aggregation
+ *
+ * Pure functions that turn an agent's indexed events into chart data for
+ * the agent analytics section:
+ * - Reputation score timeline (from `ReputationUpdated` events)
+ * - Feedback volume per hour (24h range) or per day
+ * - Validation pass/fail ratio (from `ValidationCompleted` responses)
+ * - Event type breakdown
+ *
+ * Deprecated event type names are normalized, so `ReputationChanged`
+ * counts as `ReputationUpdated`.
+ *
+ * @module lib/agent-analytics
+ *
+ * @example
+ * ```ts
+ * const analytics = summarizeAgentAnalytics(events, '7d')
+ * analytics.currentScore      // => 87
+ * analytics.validation.passRate // => 0.75
+ * ```
+ */
+
+import { normalizeEventType } from './event-catalog'
+import type { BlockchainEvent } from './validations/event'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+/** Selectable analytics time ranges */
+export const ANALYTICS_RANGES = ['24h', '7d', '30d', 'all'] as const
+
+export type AnalyticsRange = (typeof ANALYTICS_RANGES)[number]
+
+/** Label, duration (null = unbounded) and chart bucket size of each range */
+export const ANALYTICS_RANGE_INFO: Record<
+  AnalyticsRange,
+  { label: string; durationMs: number | null; bucketMs: number }
+> = {
+  '24h': { label: '24H', durationMs: DAY_MS, bucketMs: HOUR_MS },
+  '7d': { label: '7D', durationMs: 7 * DAY_MS, bucketMs: DAY_MS },
+  '30d': { label: '30D', durationMs: 30 * DAY_MS, bucketMs: DAY_MS },
+  all: { label: 'ALL', durationMs: null, bucketMs: DAY_MS },
+}
+
+/** Minimum validation response (0-100) counted as a pass */
+export const VALIDATION_PASS_THRESHOLD = 50
+
+/** Most buckets shown in the activity chart (older buckets are dropped) */
+export const MAX_ACTIVITY_BUCKETS = 365
+
+/**
+ * Reputation score at a point in time
+ */
+export interface ReputationPoint {
+  /** Event time (ISO 8601) */
+  timestamp: string
+  /** Score after the update */
+  score: number
+}
+
+/**
+ * Number of events in a time bucket
+ */
+export interface ActivityBucket {
+  /** Bucket start (ISO 8601) */
+  start: string
+  /** Events in the bucket */
+  count: number
+}
+
+/**
+ * Validation outcome counts
+ */
+export interface ValidationRatio {
+  passed: number
+  failed: number
+  total: number
+  /** Share of passed validations (0-1), or null without validations */
+  passRate: number | null
+}
+
+/**
+ * Event count for one event type
+ */
+export interface EventTypeCount {
+  eventType: string
+  count: number
+  /** Share of all events (0-1) */
+  share: number
+}
+
+/**
+ * Aggregated analytics for one agent and range
+ */
+export interface AgentAnalytics {
+  range: AnalyticsRange
+  /** Events in the range */
+  totalEvents: number
+  /** Score timeline, oldest first */
+  reputation: ReputationPoint[]
+  /** Most recent score in the range */
+  currentScore: number | null
+  /** Score change between the first and last update in the range */
+  scoreChange: number | null
+  /** Reputation updates per bucket, oldest first */
+  feedbackVolume: ActivityBucket[]
+  validation: ValidationRatio
+  /** Event types, most frequent first */
+  eventTypes: EventTypeCount[]
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
+
+function isEventType(event: BlockchainEvent, eventType: string): boolean {
+  return normalizeEventType(event.eventType) === eventType
+}
+
+/**
+ * Get the start of a range
+ *
+ * @param range - Analytics range
+ * @param now - Current time in milliseconds (defaults to `Date.now()`)
+ * @returns Range start, or null for `all`
+ */
+export function getRangeStart(range: AnalyticsRange, now = Date.now()): Date | null {
+  const { durationMs } = ANALYTICS_RANGE_INFO[range]
+  return durationMs === null ? null : new Date(now - durationMs)
+}
+
+/**
+ * Keep events inside a range
+ *
+ * @param events - Events to filter
+ * @param range - Analytics range
+ * @param now - Current time in milliseconds
+ * @returns Events at or after the range start
+ */
+export function filterEventsByRange(
+  events: BlockchainEvent[],
+  range: AnalyticsRange,
+  now = Date.now()
+): BlockchainEvent[] {
+  const start = getRangeStart(range, now)?.getTime()
+  if (start === undefined) return events
+  return events.filter((event) => Date.parse(event.timestamp) >= start)
+}
+
+/**
+ * Build the reputation score timeline
+ *
+ * @param events - Agent events (any order)
+ * @returns Scores of `ReputationUpdated` events, oldest first
+ */
+export function getReputationTimeline(events: BlockchainEvent[]): ReputationPoint[] {
+  return events
+    .filter((event) => isEventType(event, 'ReputationUpdated'))
+    .flatMap((event) => {
+      const score = toNumber(event.data.score ?? event.data.reputationScore)
+      return score === null ? [] : [{ timestamp: event.timestamp, score }]
+    })
+    .sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp))
+}
+
+/**
+ * Count events per time bucket
+ *
+ * Buckets are aligned to UTC hours (24h range) or days and include empty
+ * buckets, from the range start (or the oldest event for `all`) to `now`.
+ *
+ * @param events - Events to count
+ * @param range - Analytics range
+ * @param now - Current time in milliseconds
+ * @returns Buckets, oldest first (at most `MAX_ACTIVITY_BUCKETS`)
+ */
+export function getActivityBuckets(
+  events: BlockchainEvent[],
+  range: AnalyticsRange,
+  now = Date.now()
+): ActivityBucket[] {
+  const { bucketMs } = ANALYTICS_RANGE_INFO[range]
+  const times = events.map((event) => Date.parse(event.timestamp)).filter(Number.isFinite)
+  const rangeStart = getRangeStart(range, now)?.getTime() ?? Math.min(...times)
+  if (!Number.isFinite(rangeStart)) return []
+
+  const lastBucket = Math.floor(now / bucketMs)
+  const firstBucket = Math.max(
+    Math.floor(rangeStart / bucketMs),
+    lastBucket - MAX_ACTIVITY_BUCKETS + 1
+  )
+  const counts = new Array<number>(lastBucket - firstBucket + 1).fill(0)
+  for (const time of times) {
+    const index = Math.floor(time / bucketMs) - firstBucket
+    if (index >= 0 && index < counts.length) counts[index] = (counts[index] ?? 0) + 1
+  }
+
+  return counts.map((count, index) => ({
+    start: new Date((firstBucket + index) * bucketMs).toISOString(),
+    count,
+  }))
+}
+
+/**
+ * Count passed and failed validations
+ *
+ * @param events - Agent events
+ * @param threshold - Minimum passing response (defaults to `VALIDATION_PASS_THRESHOLD`)
+ * @returns Validation outcome counts
+ */
+export function getValidationRatio(
+  events: BlockchainEvent[],
+  threshold = VALIDATION_PASS_THRESHOLD
+): ValidationRatio {
+  let passed = 0
+  let failed = 0
+  for (const event of events) {
+    if (!isEventType(event, 'ValidationCompleted')) continue
+    const response = toNumber(event.data.response)
+    if (response === null) continue
+    if (response >= threshold) passed++
+    else failed++
+  }
+  const total = passed + failed
+  return { passed, failed, total, passRate: total > 0 ? passed / total : null }
+}
+
+/**
+ * Count events per event type
+ *
+ * @param events - Agent events
+ * @returns Event types, most frequent first
+ */
+export function getEventTypeBreakdown(events: BlockchainEvent[]): EventTypeCount[] {
+  const counts = new Map<string, number>()
+  for (const event of events) {
+    const eventType = normalizeEventType(event.eventType)
+    counts.set(eventType, (counts.get(eventType) ?? 0) + 1)
+  }
+  return [...counts.entries()]
+    .map(([eventType, count]) => ({ eventType, count, share: count / events.length }))
+    .sort((a, b) => b.count - a.count || a.eventType.localeCompare(b.eventType))
+}
+
+/**
+ * Aggregate all analytics for an agent
+ *
+ * @param events - Agent events (events outside the range are ignored)
+ * @param range - Analytics range
+ * @param now - Current time in milliseconds
+ * @returns Aggregated analytics
+ */
+export function summarizeAgentAnalytics(
+  events: BlockchainEvent[],
+  range: AnalyticsRange,
+  now = Date.now()
+): AgentAnalytics {
+  const inRange = filterEventsByRange(events, range, now)
+  const reputation = getReputationTimeline(inRange)
+  const first = reputation[0]
+  const last = reputation[reputation.length - 1]
+
+  return {
+    range,
+    totalEvents: inRange.length,
+    reputation,
+    currentScore: last?.score ?? null,
+    scoreChange: first && last ? last.score - first.score : null,
+    feedbackVolume: getActivityBuckets(
+      inRange.filter((event) => isEventType(event, 'ReputationUpdated')),
+      range,
+      now
+    ),
+    validation: getValidationRatio(inRange),
+    eventTypes: getEventTypeBreakdown(inRange),
+  }
+}
@@ -0,0 +1,397 @@
+/**
+ * Agent card helpers
+ *
+ * Validation, endpoint grouping and diffing for ERC-8004 agent
+ * registration files. Cards are fetched from arbitrary token URIs, so
+ * validation is lenient: each field is checked on its own, invalid fields
+ * are dropped with a warning, and the rest of the card is still rendered.
+ *
+ * @module lib/agent-card
+ *
+ * @example
+ * ```ts
+ * const { card, warnings } = validateAgentCard(raw, { agentId: 42, chainId: 11155111 })
+ * groupAgentCardEndpoints(card?.endpoints ?? []).MCP
+ * // => [{ name: 'MCP', endpoint: 'https://mcp.example.com', version: '2025-06-18' }]
+ * ```
+ */
+
+import type { z } from 'zod'
+import {
+  AGENT_CARD_TRUST_MODELS,
+  AGENT_CARD_TYPE,
+  type AgentCard,
+  type AgentCardEndpoint,
+  type AgentCardRegistration,
+  agentCardEndpointSchema,
+  agentCardRegistrationSchema,
+  agentCardSchema,
+} from './validations/agent-card'
+import type { BlockchainEvent } from './validations/event'
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/** Endpoint groups shown in the agent card viewer */
+export const AGENT_CARD_ENDPOINT_KINDS = ['A2A', 'MCP', 'ENS', 'DID', 'OTHER'] as const
+
+export type AgentCardEndpointKind = (typeof AGENT_CARD_ENDPOINT_KINDS)[number]
+
+/**
+ * Problem found while validating an agent card
+ */
+export interface AgentCardWarning {
+  /** Dotted path of the field (empty for the whole card) */
+  path: string
+  message: string
+  /** `error` for fields that were dropped, `warning` for suspicious values */
+  severity: 'error' | 'warning'
+}
+
+/**
+ * Result of validating an agent card
+ */
+export interface AgentCardValidation {
+  /** Typed card with invalid fields removed, null when nothing usable was found */
+  card: AgentCard | null
+  warnings: AgentCardWarning[]
+}
+
+/**
+ * Identity the card is expected to describe
+ */
+export interface AgentCardContext {
+  agentId?: number
+  chainId?: number
+  /** Token URI the card was fetched from (null or undefined when unset) */
+  tokenUri?: string | null
+}
+
+/**
+ * Single field change between two agent card versions
+ */
+export interface AgentCardChange {
+  /** Dotted path; endpoints are keyed by name, e.g. `endpoints.MCP.endpoint` */
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  before?: unknown
+  after?: unknown
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Validation
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+const ENS_NAME_REGEX = /^([a-z0-9-]+\.)+eth$/i
+const DID_REGEX = /^did:[a-z0-9]+:\S+$/
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Get the viewer group of an endpoint from its protocol name
+ *
+ * @param name - Endpoint name from the card (case-insensitive)
+ * @returns Endpoint kind, `OTHER` for unknown protocols
+ */
+export function getAgentCardEndpointKind(name: string): AgentCardEndpointKind {
+  const kind = name.toUpperCase()
+  return (AGENT_CARD_ENDPOINT_KINDS as readonly string[]).includes(kind)
+    ? (kind as AgentCardEndpointKind)
+    : 'OTHER'
+}
+
+function checkEndpoint(endpoint: AgentCardEndpoint): string | null {
+  switch (getAgentCardEndpointKind(endpoint.name)) {
+    case 'A2A':
+    case 'MCP':
+      return isHttpUrl(endpoint.endpoint)
+        ? null
+        : `${endpoint.name} endpoint must be an HTTP(S) URL`
+    case 'ENS':
+      return ENS_NAME_REGEX.test(endpoint.endpoint) ? null : 'ENS endpoint must be a .eth name'
+    case 'DID':
+      return DID_REGEX.test(endpoint.endpoint) ? null : 'DID endpoint must start with did:<method>:'
+    default:
+      return null
+  }
+}
+
+function readField<T>(
+  field: string,
+  result: z.ZodSafeParseResult<T>,
+  warnings: AgentCardWarning[]
+): T | undefined {
+  if (result.success) return result.data
+  warnings.push({
+    path: field,
+    message: result.error.issues[0]?.message ?? `Invalid ${field}`,
+    severity: 'error',
+  })
+  return undefined
+}
+
+function parseList<T>(
+  value: unknown,
+  field: string,
+  parseItem: (item: unknown) => { success: true; data: T } | { success: false },
+  warnings: AgentCardWarning[]
+): T[] {
+  if (value === undefined) return []
+  if (!Array.isArray(value)) {
+    warnings.push({ path: field, message: `${field} must be a list`, severity: 'error' })
+    return []
+  }
+
+  const items: T[] = []
+  value.forEach((item, index) => {
+    const result = parseItem(item)
+    if (result.success) {
+      items.push(result.data)
+    } else {
+      warnings.push({
+        path: `${field}.${index}`,
+        message: `Malformed ${field} entry ignored`,
+        severity: 'error',
+      })
+    }
+  })
+  return items
+}
+
+/**
+ * Validate an untrusted agent card
+ *
+ * Invalid fields are dropped with an `error` warning; values that are
+ * well-formed but suspicious (unknown trust models, endpoints that don't
+ * match their protocol, a card that doesn't list this agent) are kept with
+ * a `warning`.
+ *
+ * @param raw - Parsed JSON from the token URI (null when it could not be fetched)
+ * @param context - Identity the card is expected to describe
+ * @returns Typed card and warnings
+ */
+export function validateAgentCard(
+  raw: unknown,
+  context: AgentCardContext = {}
+): AgentCardValidation {
+  const warnings: AgentCardWarning[] = []
+
+  if (raw === null || raw === undefined) {
+    warnings.push(
+      context.tokenUri
+        ? {
+            path: '',
+            message: `Registration file at ${context.tokenUri} is unreachable or not valid JSON`,
+            severity: 'error',
+          }
+        : { path: '', message: 'Agent has no registration file URI', severity: 'warning' }
+    )
+    return { card: null, warnings }
+  }
+
+  if (!isRecord(raw)) {
+    warnings.push({
+      path: '',
+      message: 'Registration file must be a JSON object',
+      severity: 'error',
+    })
+    return { card: null, warnings }
+  }
+
+  const shape = agentCardSchema.shape
+  const type = readField('type', shape.type.safeParse(raw.type), warnings)
+  const name = readField('name', shape.name.safeParse(raw.name), warnings)
+  const description = readField(
+    'description',
+    shape.description.safeParse(raw.description),
+    warnings
+  )
+  const image = readField('image', shape.image.safeParse(raw.image), warnings)
+
+  const endpoints = parseList<AgentCardEndpoint>(
+    raw.endpoints,
+    'endpoints',
+    (item) => agentCardEndpointSchema.safeParse(item),
+    warnings
+  )
+  const registrations = parseList<AgentCardRegistration>(
+    raw.registrations,
+    'registrations',
+    (item) => agentCardRegistrationSchema.safeParse(item),
+    warnings
+  )
+  const supportedTrust = parseList<string>(
+    raw.supportedTrust,
+    'supportedTrust',
+    (item) => (typeof item === 'string' ? { success: true, data: item } : { success: false }),
+    warnings
+  )
+
+  if (type !== undefined && type !== AGENT_CARD_TYPE) {
+    warnings.push({
+      path: 'type',
+      message: `Unknown registration type ${type}`,
+      severity: 'warning',
+    })
+  }
+
+  endpoints.forEach((endpoint, index) => {
+    const problem = checkEndpoint(endpoint)
+    if (problem) {
+      warnings.push({ path: `endpoints.${index}`, message: problem, severity: 'warning' })
+    }
+  })
+
+  supportedTrust.forEach((model, index) => {
+    if (!(AGENT_CARD_TRUST_MODELS as readonly string[]).includes(model)) {
+      warnings.push({
+        path: `supportedTrust.${index}`,
+        message: `Unknown trust model ${model}`,
+        severity: 'warning',
+      })
+    }
+  })
+
+  if (context.agentId !== undefined && context.chainId !== undefined) {
+    const chainPrefix = `eip155:${context.chainId}:`
+    const listed = registrations.some(
+      (registration) =>
+        registration.agentId === context.agentId &&
+        registration.agentRegistry.startsWith(chainPrefix)
+    )
+    if (!listed) {
+      warnings.push({
+        path: 'registrations',
+        message: `Card does not list agent #${context.agentId} on chain ${context.chainId}`,
+        severity: 'warning',
+      })
+    }
+  }
+
+  if (name === undefined) {
+    return { card: null, warnings }
+  }
+
+  return {
+    card: { type, name, description, image, endpoints, registrations, supportedTrust },
+    warnings,
+  }
+}
+
+/**
+ * Group endpoints by protocol
+ *
+ * @param endpoints - Card endpoints
+ * @returns Endpoints per kind (every kind present, possibly empty)
+ */
+export function groupAgentCardEndpoints(
+  endpoints: readonly AgentCardEndpoint[]
+): Record<AgentCardEndpointKind, AgentCardEndpoint[]> {
+  const groups: Record<AgentCardEndpointKind, AgentCardEndpoint[]> = {
+    A2A: [],
+    MCP: [],
+    ENS: [],
+    DID: [],
+    OTHER: [],
+  }
+  for (const endpoint of endpoints) {
+    groups[getAgentCardEndpointKind(endpoint.name)].push(endpoint)
+  }
+  return groups
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Diffing
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>): void {
+  if (Array.isArray(value)) {
+    // Lists of named entries (endpoints) are keyed by name so reordering isn't a change
+    const named = value.every((item) => isRecord(item) && typeof item.name === 'string')
+    const keys = new Set<string>()
+    value.forEach((item, index) => {
+      let key = named ? String((item as { name: string }).name) : String(index)
+      while (keys.has(key)) key = `${key}~`
+      keys.add(key)
+      flatten(item, path ? `${path}.${key}` : key, out)
+    })
+    if (value.length === 0 && path) out.set(path, [])
+    return
+  }
+
+  if (isRecord(value)) {
+    const entries = Object.entries(value)
+    for (const [key, child] of entries) {
+      flatten(child, path ? `${path}.${key}` : key, out)
+    }
+    if (entries.length === 0 && path) out.set(path, {})
+    return
+  }
+
+  out.set(path, value)
+}
+
+/**
+ * List the field changes between two agent card versions
+ *
+ * @param before - Previous card JSON (null when there was none)
+ * @param after - New card JSON (null when it was removed)
+ * @returns Changes sorted by path
+ *
+ * @example
+ * ```ts
+ * diffAgentCards({ name: 'Old' }, { name: 'New' })
+ * // => [{ path: 'name', type: 'changed', before: 'Old', after: 'New' }]
+ * ```
+ */
+export function diffAgentCards(before: unknown, after: unknown): AgentCardChange[] {
+  const beforeFields = new Map<string, unknown>()
+  const afterFields = new Map<string, unknown>()
+  if (isRecord(before)) flatten(before, '', beforeFields)
+  if (isRecord(after)) flatten(after, '', afterFields)
+
+  const changes: AgentCardChange[] = []
+  for (const [path, value] of beforeFields) {
+    if (!afterFields.has(path)) {
+      changes.push({ path, type: 'removed', before: value })
+    } else if (JSON.stringify(afterFields.get(path)) !== JSON.stringify(value)) {
+      changes.push({ path, type: 'changed', before: value, after: afterFields.get(path) })
+    }
+  }
+  for (const [path, value] of afterFields) {
+    if (!beforeFields.has(path)) {
+      changes.push({ path, type: 'added', after: value })
+    }
+  }
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Read the card snapshots the indexer attaches to `AgentUpdated` events
+ *
+ * @param event - Blockchain event
+ * @returns Card before and after the update, or null for other events and
+ *   updates without snapshots
+ */
+export function getAgentCardSnapshots(
+  event: BlockchainEvent
+): { before: unknown; after: unknown } | null {
+  if (event.eventType !== 'AgentUpdated') return null
+  const before = event.data.previousAgentCard ?? null
+  const after = event.data.agentCard ?? null
+  if (before === null && after === null) return null
+  return { before, after }
+}
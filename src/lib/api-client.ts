@@ -184,8 +184,10 @@ let refreshPromise: Promise<boolean> | null = null
  * This function implements a mutex pattern:
  * - If a refresh is already in progress, all callers wait on the same promise
  * - Only one actual refresh request is made regardless of concurrent calls
+ *
+ * Also used by the event stream, which doesn't go through `request`.
  */
-async function attemptTokenRefresh(): Promise<boolean> {
+export async function attemptTokenRefresh(): Promise<boolean> {
   // If already refreshing, wait for the existing refresh to complete
   // This prevents race conditions when multiple requests fail simultaneously
   if (refreshPromise) {
@@ -234,7 +236,12 @@ async function attemptTokenRefresh(): Promise<boolean> {
   }
 }
 
-function buildUrl(endpoint: string, params?: ApiRequestOptions['params']): string {
+/**
+ * Build a full API URL for an endpoint
+ *
+ * Exported for transports that bypass `request()` (e.g. streaming responses).
+ */
+export function buildUrl(endpoint: string, params?: ApiRequestOptions['params']): string {
   const path = `/api/${API_VERSION}${endpoint}`
 
   // Handle both absolute URLs (production) and relative URLs (dev proxy)
@@ -0,0 +1,101 @@
+/**
+ * API key rotation
+ *
+ * Helpers for rotating keys with a grace period: the selectable grace
+ * periods and auto-rotation intervals, and the state of a rotated-out
+ * previous key, which is flagged once it expires within
+ * `PREVIOUS_KEY_WARNING_HOURS`.
+ *
+ * @module lib/api-key-rotation
+ *
+ * @example
+ * ```ts
+ * const previous = getPreviousKeyStatus(apiKey)
+ * if (previous?.expiringSoon) {
+ *   console.warn(`Old key expires in ${formatTimeRemaining(previous.remainingMs)}`)
+ * }
+ * ```
+ */
+
+import type { ApiKey } from '@/types/models'
+
+const HOUR_MS = 60 * 60 * 1000
+
+/** Selectable grace periods, in hours */
+export const API_KEY_GRACE_PERIOD_OPTIONS = [1, 6, 24, 72, 168] as const
+
+/** Grace period selected by default when rotating */
+export const DEFAULT_API_KEY_GRACE_PERIOD_HOURS = 24
+
+/** Selectable auto-rotation intervals, in days */
+export const API_KEY_ROTATION_INTERVAL_OPTIONS = [30, 60, 90, 180, 365] as const
+
+/** Interval selected by default when enabling auto-rotation */
+export const DEFAULT_API_KEY_ROTATION_INTERVAL_DAYS = 90
+
+/** A previous key expiring within this many hours is flagged */
+export const PREVIOUS_KEY_WARNING_HOURS = 24
+
+/**
+ * State of a previous key still in its grace period
+ */
+export interface PreviousKeyStatus {
+  keyPrefix: string
+  expiresAt: string
+  /** Time left before the previous key stops working */
+  remainingMs: number
+  /** Whether it expires within `PREVIOUS_KEY_WARNING_HOURS` */
+  expiringSoon: boolean
+}
+
+/**
+ * Describe a grace period, e.g. `1 hour`, `6 hours`, `3 days`
+ *
+ * @param hours - Grace period in hours
+ */
+export function formatGracePeriod(hours: number): string {
+  if (hours % 24 === 0) {
+    const days = hours / 24
+    return `${days} day${days !== 1 ? 's' : ''}`
+  }
+  return `${hours} hour${hours !== 1 ? 's' : ''}`
+}
+
+/**
+ * Describe a remaining time, e.g. `2d 4h`, `3h 20m`, `12m`
+ *
+ * @param ms - Remaining time in milliseconds
+ */
+export function formatTimeRemaining(ms: number): string {
+  const minutes = Math.floor(ms / 60_000)
+  if (minutes < 1) return '<1m'
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+  if (days > 0) return `${days}d ${hours % 24}h`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${minutes}m`
+}
+
+/**
+ * Status of a key's previous value
+ *
+ * @param apiKey - API key
+ * @param now - Current time in milliseconds (default: `Date.now()`)
+ * @returns The previous key status, or null when there is none or it has expired
+ */
+export function getPreviousKeyStatus(
+  apiKey: Pick<ApiKey, 'previousKey'>,
+  now: number = Date.now()
+): PreviousKeyStatus | null {
+  if (!apiKey.previousKey) return null
+
+  const remainingMs = new Date(apiKey.previousKey.expiresAt).getTime() - now
+  if (remainingMs <= 0) return null
+
+  return {
+    keyPrefix: apiKey.previousKey.keyPrefix,
+    expiresAt: apiKey.previousKey.expiresAt,
+    remainingMs,
+    expiringSoon: remainingMs <= PREVIOUS_KEY_WARNING_HOURS * HOUR_MS,
+  }
+}
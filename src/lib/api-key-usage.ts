@@ -0,0 +1,118 @@
+/**
+ * API key usage
+ *
+ * Helpers for the per-key usage view: error rates, status code classes
+ * and CSV exports of the request timeline and endpoint breakdown.
+ *
+ * @module lib/api-key-usage
+ *
+ * @example
+ * ```ts
+ * const usage = await apiKeysApi.getUsage(key.id, '7d')
+ * getUsageErrorRate(usage) // => 0.02
+ * toUsageTimelineCsv(usage) // => 'timestamp,requests,errors\r\n...'
+ * ```
+ */
+
+import { toCsv } from './csv'
+import type { ApiKeyUsage, ApiKeyUsageRange } from './validations/api-key'
+
+/** Labels of the selectable usage ranges */
+export const API_KEY_USAGE_RANGE_LABELS: Record<ApiKeyUsageRange, string> = {
+  '24h': '24H',
+  '7d': '7D',
+  '30d': '30D',
+}
+
+/** Exportable parts of the usage */
+export type ApiKeyUsageExport = 'timeline' | 'endpoints'
+
+/**
+ * Share of requests that failed
+ *
+ * @param usage - Key usage, or its request and error counts
+ * @returns Ratio between 0 and 1, or null without requests
+ */
+export function getUsageErrorRate(
+  usage: Pick<ApiKeyUsage, 'totalRequests' | 'errorRequests'>
+): number | null {
+  return usage.totalRequests > 0 ? usage.errorRequests / usage.totalRequests : null
+}
+
+/**
+ * Error rate as a percentage with one decimal, e.g. `2.5%`
+ *
+ * @param usage - Key usage, or its request and error counts
+ * @returns The formatted rate, or `--` without requests
+ */
+export function formatUsageErrorRate(
+  usage: Pick<ApiKeyUsage, 'totalRequests' | 'errorRequests'>
+): string {
+  const rate = getUsageErrorRate(usage)
+  return rate === null ? '--' : `${(rate * 100).toFixed(1)}%`
+}
+
+/**
+ * Group status codes by class (`2XX`, `4XX`...)
+ *
+ * @param statusCodes - Requests per status code
+ * @returns Classes in ascending order with their request counts
+ */
+export function groupStatusClasses(
+  statusCodes: ApiKeyUsage['statusCodes']
+): { label: string; count: number }[] {
+  const counts = new Map<string, number>()
+  for (const { status, count } of statusCodes) {
+    const label = `${Math.floor(status / 100)}XX`
+    counts.set(label, (counts.get(label) ?? 0) + count)
+  }
+  return [...counts]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, count]) => ({ label, count }))
+}
+
+/**
+ * CSV of requests and errors per bucket
+ */
+export function toUsageTimelineCsv(usage: ApiKeyUsage): string {
+  return toCsv([
+    ['timestamp', 'requests', 'errors'],
+    ...usage.series.map((point) => [point.timestamp, point.requests, point.errors]),
+  ])
+}
+
+/**
+ * CSV of the busiest endpoints
+ */
+export function toUsageEndpointsCsv(usage: ApiKeyUsage): string {
+  return toCsv([
+    ['method', 'path', 'requests', 'errors', 'p95_latency_ms'],
+    ...usage.topEndpoints.map((endpoint) => [
+      endpoint.method,
+      endpoint.path,
+      endpoint.requests,
+      endpoint.errors,
+      endpoint.p95LatencyMs,
+    ]),
+  ])
+}
+
+/**
+ * File name for a usage export, e.g. `production-key-usage-timeline-7d.csv`
+ *
+ * @param keyName - API key name
+ * @param usage - Exported usage
+ * @param part - Exported part
+ */
+export function getUsageCsvFilename(
+  keyName: string,
+  usage: Pick<ApiKeyUsage, 'range'>,
+  part: ApiKeyUsageExport
+): string {
+  const slug =
+    keyName
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'api-key'
+  return `${slug}-usage-${part}-${usage.range}.csv`
+}
@@ -332,4 +332,201 @@ describe('apiKeysApi', () => {
       await expect(apiKeysApi.regenerate(mockKeyId)).rejects.toThrow()
     })
   })
+
+  describe('rotate', () => {
+    it('should rotate API key with a grace period', async () => {
+      let body: unknown = null
+      server.use(
+        http.post(`${baseUrl}/api-keys/${mockKeyId}/rotate`, async ({ request }) => {
+          body = await request.json()
+          return HttpResponse.json({
+            apiKey: {
+              ...mockApiKey,
+              keyPrefix: '8004_newkey789',
+              previous_key: { key_prefix: '8004_abc123', expires_at: '2025-01-02T00:00:00Z' },
+            },
+            key: '8004_newkey789.newsecret123',
+          })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const result = await apiKeysApi.rotate(mockKeyId, { gracePeriodHours: 24 })
+
+      expect(body).toEqual({ gracePeriodHours: 24 })
+      expect(result.key).toBe('8004_newkey789.newsecret123')
+      expect(result.apiKey.previousKey).toEqual({
+        keyPrefix: '8004_abc123',
+        expiresAt: '2025-01-02T00:00:00Z',
+      })
+    })
+  })
+
+  describe('revokePreviousKey', () => {
+    it('should revoke the previous key', async () => {
+      server.use(
+        http.post(`${baseUrl}/api-keys/${mockKeyId}/previous-key/revoke`, () => {
+          return HttpResponse.json({ ...mockApiKey, previous_key: null })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const result = await apiKeysApi.revokePreviousKey(mockKeyId)
+
+      expect(result.previousKey).toBeNull()
+    })
+  })
+
+  describe('rotation policy', () => {
+    it('should set the rotation policy', async () => {
+      let body: unknown = null
+      server.use(
+        http.put(`${baseUrl}/api-keys/${mockKeyId}/rotation-policy`, async ({ request }) => {
+          body = await request.json()
+          return HttpResponse.json({
+            ...mockApiKey,
+            rotation_policy: {
+              interval_days: 30,
+              grace_period_hours: 6,
+              next_rotation_at: '2025-01-31T00:00:00Z',
+            },
+          })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const result = await apiKeysApi.setRotationPolicy(mockKeyId, {
+        intervalDays: 30,
+        gracePeriodHours: 6,
+      })
+
+      expect(body).toEqual({ intervalDays: 30, gracePeriodHours: 6 })
+      expect(result.rotationPolicy?.nextRotationAt).toBe('2025-01-31T00:00:00Z')
+    })
+
+    it('should disable the rotation policy', async () => {
+      let called = false
+      server.use(
+        http.delete(`${baseUrl}/api-keys/${mockKeyId}/rotation-policy`, () => {
+          called = true
+          return new HttpResponse(null, { status: 204 })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      await apiKeysApi.disableRotationPolicy(mockKeyId)
+
+      expect(called).toBe(true)
+    })
+  })
+
+  describe('listRotations', () => {
+    it('should list rotation events', async () => {
+      server.use(
+        http.get(`${baseUrl}/api-keys/${mockKeyId}/rotations`, () => {
+          return HttpResponse.json({
+            data: [
+              {
+                id: mockOrgId,
+                key_id: mockKeyId,
+                event_type: 'rotated',
+                actor: { id: mockOrgId, name: 'Alice' },
+                key_prefix: '8004_newkey789',
+                previous_key_prefix: '8004_abc123',
+                grace_period_hours: 24,
+                created_at: '2025-01-01T00:00:00Z',
+              },
+            ],
+            pagination: { total: 1, limit: 20, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const result = await apiKeysApi.listRotations(mockKeyId)
+
+      expect(result.pagination.hasMore).toBe(false)
+      expect(result.data[0]).toMatchObject({
+        eventType: 'rotated',
+        actor: { id: mockOrgId, name: 'Alice' },
+        previousKeyPrefix: '8004_abc123',
+      })
+    })
+  })
+
+  describe('getUsage', () => {
+    const mockUsageResponse = {
+      data: {
+        key_id: mockKeyId,
+        range: '7d',
+        total_requests: 120,
+        error_requests: 3,
+        rate_limited_requests: 1,
+        series: [{ timestamp: '2025-01-01T00:00:00Z', requests: 120, errors: 3 }],
+        top_endpoints: [
+          { method: 'GET', path: '/api/v1/events', requests: 120, errors: 3, p95_latency_ms: 85 },
+        ],
+        status_codes: { '500': 3, '200': 117 },
+        latency_ms: { p50: 20, p95: 85, p99: 150 },
+        last_seen: { at: '2025-01-07T12:00:00Z', ip: '203.0.113.7', user_agent: 'curl/8.5.0' },
+      },
+    }
+
+    it('should get usage for the requested range', async () => {
+      let range: string | null = null
+      server.use(
+        http.get(`${baseUrl}/api-keys/${mockKeyId}/usage`, ({ request }) => {
+          range = new URL(request.url).searchParams.get('range')
+          return HttpResponse.json(mockUsageResponse)
+        })
+      )
+
+      const result = await apiKeysApi.getUsage(mockKeyId, '7d')
+
+      expect(range).toBe('7d')
+      expect(result.totalRequests).toBe(120)
+      expect(result.topEndpoints[0]).toEqual({
+        method: 'GET',
+        path: '/api/v1/events',
+        requests: 120,
+        errors: 3,
+        p95LatencyMs: 85,
+      })
+      expect(result.statusCodes).toEqual([
+        { status: 200, count: 117 },
+        { status: 500, count: 3 },
+      ])
+      expect(result.latency).toEqual({ p50Ms: 20, p95Ms: 85, p99Ms: 150 })
+      expect(result.lastSeen).toEqual({
+        at: '2025-01-07T12:00:00Z',
+        ip: '203.0.113.7',
+        userAgent: 'curl/8.5.0',
+      })
+    })
+
+    it('should default to the last 24 hours', async () => {
+      let range: string | null = null
+      server.use(
+        http.get(`${baseUrl}/api-keys/${mockKeyId}/usage`, ({ request }) => {
+          range = new URL(request.url).searchParams.get('range')
+          return HttpResponse.json({
+            data: { ...mockUsageResponse.data, range: '24h', latency_ms: null, last_seen: null },
+          })
+        })
+      )
+
+      const result = await apiKeysApi.getUsage(mockKeyId)
+
+      expect(range).toBe('24h')
+      expect(result.latency).toBeNull()
+      expect(result.lastSeen).toBeNull()
+    })
+  })
 })
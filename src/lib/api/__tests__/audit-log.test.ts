@@ -0,0 +1,64 @@
+import { HttpResponse, http } from 'msw'
+import { describe, expect, it } from 'vitest'
+import { server } from '@/test/setup'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { auditLogApi } from '../audit-log'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+
+describe('auditLogApi', () => {
+  const mockOrgId = '550e8400-e29b-41d4-a716-446655440000'
+
+  const mockEntry = {
+    id: '550e8400-e29b-41d4-a716-446655440001',
+    organization_id: mockOrgId,
+    action: 'trigger.deleted',
+    actor: { id: '550e8400-e29b-41d4-a716-446655440002', username: 'alice' },
+    resource_type: 'trigger',
+    resource_id: '550e8400-e29b-41d4-a716-446655440003',
+    resource_name: 'Old trigger',
+    created_at: '2025-01-01T00:00:00Z',
+  }
+
+  describe('list', () => {
+    it('should list audit log entries', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/audit-log`, () => {
+          return HttpResponse.json({ data: [mockEntry], next_cursor: 'cursor_2' })
+        })
+      )
+
+      const result = await auditLogApi.list(mockOrgId)
+
+      expect(result.data).toHaveLength(1)
+      expect(result.data[0]?.resourceName).toBe('Old trigger')
+      expect(result.data[0]?.actor?.username).toBe('alice')
+      expect(result.nextCursor).toBe('cursor_2')
+    })
+
+    it('should pass filters and cursor as query parameters', async () => {
+      let searchParams: URLSearchParams | undefined
+
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/audit-log`, ({ request }) => {
+          searchParams = new URL(request.url).searchParams
+          return HttpResponse.json({ data: [], next_cursor: null })
+        })
+      )
+
+      await auditLogApi.list(mockOrgId, {
+        action: 'trigger.deleted',
+        resourceType: 'trigger',
+        fromDate: '2025-01-01T00:00:00Z',
+        cursor: 'cursor_2',
+        limit: 50,
+      })
+
+      expect(searchParams?.get('action')).toBe('trigger.deleted')
+      expect(searchParams?.get('resourceType')).toBe('trigger')
+      expect(searchParams?.get('fromDate')).toBe('2025-01-01T00:00:00Z')
+      expect(searchParams?.get('cursor')).toBe('cursor_2')
+      expect(searchParams?.get('limit')).toBe('50')
+    })
+  })
+})
@@ -0,0 +1,164 @@
+import { HttpResponse, http } from 'msw'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { server } from '@/test/setup'
+import { clearCsrfToken } from '@/lib/api-client'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { explorerApi } from '../explorer'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+
+describe('explorerApi', () => {
+  const mockOrgId = '550e8400-e29b-41d4-a716-446655440000'
+  const mockOwner = '0x1234567890123456789012345678901234567890'
+
+  const mockAgent = {
+    agentId: 42,
+    chainId: 11155111,
+    owner: mockOwner,
+    tokenUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+    registeredAt: '2025-01-01T00:00:00Z',
+    agentCard: { name: 'Test Agent', endpoints: [] },
+    reputation: { score: 87, feedbackCount: 12, lastUpdatedAt: '2025-01-05T00:00:00Z' },
+    validations: { total: 4, passed: 3, failed: 1, pending: 0 },
+  }
+
+  const mockWatch = {
+    id: '550e8400-e29b-41d4-a716-446655440001',
+    organizationId: mockOrgId,
+    agentId: 42,
+    chainId: 11155111,
+    createdAt: '2025-01-06T00:00:00Z',
+  }
+
+  beforeEach(() => {
+    clearCsrfToken()
+  })
+
+  afterEach(() => {
+    clearCsrfToken()
+  })
+
+  describe('getAgent', () => {
+    it('should get any agent by chain and ID', async () => {
+      server.use(
+        http.get(`${baseUrl}/explorer/agents/11155111/42`, () => {
+          return HttpResponse.json(mockAgent)
+        })
+      )
+
+      const result = await explorerApi.getAgent(11155111, 42)
+
+      expect(result.owner).toBe(mockOwner)
+      expect(result.agentCard).toEqual({ name: 'Test Agent', endpoints: [] })
+      expect(result.reputation.feedbackCount).toBe(12)
+      expect(result.validations.passed).toBe(3)
+    })
+
+    it('should handle unregistered agents', async () => {
+      server.use(
+        http.get(`${baseUrl}/explorer/agents/11155111/999`, () => {
+          return HttpResponse.json({ message: 'Agent not found' }, { status: 404 })
+        })
+      )
+
+      await expect(explorerApi.getAgent(11155111, 999)).rejects.toThrow()
+    })
+  })
+
+  describe('searchByOwner', () => {
+    it('should pass owner and chain filters', async () => {
+      let capturedUrl: URL | undefined
+
+      server.use(
+        http.get(`${baseUrl}/explorer/agents`, ({ request }) => {
+          capturedUrl = new URL(request.url)
+          return HttpResponse.json({
+            data: [mockAgent],
+            pagination: { total: 1, limit: 20, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const result = await explorerApi.searchByOwner(mockOwner, 11155111)
+
+      expect(capturedUrl?.searchParams.get('owner')).toBe(mockOwner)
+      expect(capturedUrl?.searchParams.get('chainId')).toBe('11155111')
+      expect(result.data[0]?.agentId).toBe(42)
+      expect(result.pagination.hasMore).toBe(false)
+    })
+  })
+
+  describe('listValidations', () => {
+    it('should list validation records', async () => {
+      server.use(
+        http.get(`${baseUrl}/explorer/agents/11155111/42/validations`, () => {
+          return HttpResponse.json({
+            data: [
+              {
+                requestHash: `0x${'a'.repeat(64)}`,
+                validatorAddress: mockOwner,
+                status: 'completed',
+                response: 90,
+                tag: null,
+                requestedAt: '2025-01-02T00:00:00Z',
+                completedAt: '2025-01-03T00:00:00Z',
+              },
+            ],
+            pagination: { total: 1, limit: 10, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const result = await explorerApi.listValidations(11155111, 42, { limit: 10 })
+
+      expect(result.data[0]?.response).toBe(90)
+      expect(result.data[0]?.status).toBe('completed')
+    })
+  })
+
+  describe('watches', () => {
+    it('should list watched agents', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/agent-watches`, () => {
+          return HttpResponse.json({ data: [mockWatch] })
+        })
+      )
+
+      const result = await explorerApi.listWatches(mockOrgId)
+
+      expect(result).toHaveLength(1)
+      expect(result[0]?.agentId).toBe(42)
+    })
+
+    it('should watch an agent', async () => {
+      server.use(
+        http.post(`${baseUrl}/organizations/${mockOrgId}/agent-watches`, async ({ request }) => {
+          const body = await request.json()
+          expect(body).toMatchObject({ agentId: 42, chainId: 11155111 })
+          return HttpResponse.json(mockWatch)
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const result = await explorerApi.watch(mockOrgId, { agentId: 42, chainId: 11155111 })
+
+      expect(result.id).toBe(mockWatch.id)
+    })
+
+    it('should stop watching an agent', async () => {
+      server.use(
+        http.delete(
+          `${baseUrl}/organizations/${mockOrgId}/agent-watches/${mockWatch.id}`,
+          () => new Response(null, { status: 204 })
+        ),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      await expect(explorerApi.unwatch(mockOrgId, mockWatch.id)).resolves.toBeUndefined()
+    })
+  })
+})
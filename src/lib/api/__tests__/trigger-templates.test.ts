@@ -0,0 +1,126 @@
+import { HttpResponse, http } from 'msw'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { server } from '@/test/setup'
+import { clearCsrfToken } from '@/lib/api-client'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { triggerTemplatesApi } from '../trigger-templates'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+
+describe('triggerTemplatesApi', () => {
+  const mockOrgId = '550e8400-e29b-41d4-a716-446655440000'
+  const mockTemplateId = '550e8400-e29b-41d4-a716-446655440020'
+
+  const mockTrigger = {
+    name: 'Low reputation',
+    chainId: 11155111,
+    registry: 'reputation',
+    isStateful: false,
+    conditions: [
+      {
+        conditionType: 'reputation_threshold',
+        field: 'reputation_score',
+        operator: 'lt',
+        value: '[[threshold]]',
+        config: {},
+      },
+    ],
+    actions: [{ actionType: 'telegram', priority: 0, config: { chatId: '123' } }],
+  }
+
+  const mockTemplate = {
+    id: mockTemplateId,
+    organizationId: mockOrgId,
+    name: 'Low reputation',
+    description: null,
+    category: 'reputation',
+    parameters: [{ key: 'threshold', label: 'Threshold', type: 'number', required: true }],
+    trigger: mockTrigger,
+    createdAt: '2025-01-01T00:00:00Z',
+  }
+
+  const csrfHandler = http.get(`${baseUrl}/csrf-token`, () => {
+    return HttpResponse.json({ token: 'test-csrf' })
+  })
+
+  beforeEach(() => {
+    clearCsrfToken()
+  })
+
+  afterEach(() => {
+    clearCsrfToken()
+  })
+
+  describe('list', () => {
+    it('should list organization templates', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/trigger-templates`, () => {
+          return HttpResponse.json({ data: [mockTemplate] })
+        })
+      )
+
+      const result = await triggerTemplatesApi.list(mockOrgId)
+
+      expect(result).toHaveLength(1)
+      expect(result[0]?.parameters[0]?.key).toBe('threshold')
+    })
+  })
+
+  describe('create', () => {
+    it('should save a template', async () => {
+      server.use(
+        http.post(
+          `${baseUrl}/organizations/${mockOrgId}/trigger-templates`,
+          async ({ request }) => {
+            const body = (await request.json()) as Record<string, unknown>
+            expect(body.name).toBe('Low reputation')
+            expect(body.trigger).toEqual(mockTrigger)
+            return HttpResponse.json(mockTemplate)
+          }
+        ),
+        csrfHandler
+      )
+
+      const result = await triggerTemplatesApi.create(mockOrgId, {
+        name: 'Low reputation',
+        category: 'reputation',
+        parameters: [{ key: 'threshold', label: 'Threshold', type: 'number' }],
+        trigger: { ...mockTrigger, registry: 'reputation' },
+      })
+
+      expect(result.id).toBe(mockTemplateId)
+    })
+
+    it('should handle duplicate names', async () => {
+      server.use(
+        http.post(`${baseUrl}/organizations/${mockOrgId}/trigger-templates`, () => {
+          return HttpResponse.json({ message: 'Template already exists' }, { status: 409 })
+        }),
+        csrfHandler
+      )
+
+      await expect(
+        triggerTemplatesApi.create(mockOrgId, {
+          name: 'Low reputation',
+          category: 'reputation',
+          parameters: [],
+          trigger: { ...mockTrigger, registry: 'reputation' },
+        })
+      ).rejects.toThrow()
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete a template', async () => {
+      server.use(
+        http.delete(
+          `${baseUrl}/organizations/${mockOrgId}/trigger-templates/${mockTemplateId}`,
+          () => new Response(null, { status: 204 })
+        ),
+        csrfHandler
+      )
+
+      await expect(triggerTemplatesApi.delete(mockOrgId, mockTemplateId)).resolves.toBeUndefined()
+    })
+  })
+})
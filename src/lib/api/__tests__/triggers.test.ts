@@ -315,4 +315,232 @@ describe('triggersApi', () => {
       expect(result.error).toBe('Condition not met')
     })
   })
+  describe('executions', () => {
+    const mockExecutionId = '550e8400-e29b-41d4-a716-446655440010'
+
+    const mockExecution = {
+      id: mockExecutionId,
+      triggerId: mockTriggerId,
+      status: 'failed',
+      eventId: '550e8400-e29b-41d4-a716-446655440020',
+      startedAt: '2025-01-01T00:00:00Z',
+      completedAt: '2025-01-01T00:00:01Z',
+      durationMs: 1200,
+      error: 'Webhook returned 500',
+      actionResults: [
+        {
+          actionId: '550e8400-e29b-41d4-a716-446655440030',
+          actionType: 'rest',
+          status: 'failed',
+          durationMs: 1100,
+          error: 'Internal Server Error',
+          httpStatus: 500,
+        },
+      ],
+    }
+
+    it('should list executions with filters', async () => {
+      let capturedUrl: URL | undefined
+
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTriggerId}/executions`, ({ request }) => {
+          capturedUrl = new URL(request.url)
+          return HttpResponse.json({
+            data: [mockExecution],
+            pagination: { total: 1, limit: 20, offset: 0, has_more: false },
+          })
+        })
+      )
+
+      const result = await triggersApi.listExecutions(mockTriggerId, {
+        status: 'failed',
+        limit: 20,
+      })
+
+      expect(result.data).toHaveLength(1)
+      expect(result.data[0]?.actionResults[0]?.httpStatus).toBe(500)
+      expect(result.data[0]?.replayOf).toBeNull()
+      expect(capturedUrl?.searchParams.get('status')).toBe('failed')
+    })
+
+    it('should get execution with matched event', async () => {
+      const mockEvent = {
+        id: '550e8400-e29b-41d4-a716-446655440020',
+        eventType: 'ReputationUpdated',
+        agentId: 123,
+        chainId: 1,
+        registry: 'reputation',
+        blockNumber: 12345678,
+        transactionHash: '0xabcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890',
+        data: { score: 95 },
+        timestamp: '2025-01-01T00:00:00Z',
+        createdAt: '2025-01-01T00:00:00Z',
+      }
+
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTriggerId}/executions/${mockExecutionId}`, () => {
+          return HttpResponse.json({ ...mockExecution, event: mockEvent })
+        })
+      )
+
+      const result = await triggersApi.getExecution(mockTriggerId, mockExecutionId)
+
+      expect(result.event?.eventType).toBe('ReputationUpdated')
+      expect(result.actionResults).toHaveLength(1)
+    })
+
+    it('should replay execution', async () => {
+      server.use(
+        http.post(
+          `${baseUrl}/triggers/${mockTriggerId}/executions/${mockExecutionId}/replay`,
+          () => {
+            return HttpResponse.json({
+              ...mockExecution,
+              id: '550e8400-e29b-41d4-a716-446655440011',
+              status: 'pending',
+              completedAt: null,
+              durationMs: null,
+              error: null,
+              actionResults: [],
+              replayOf: mockExecutionId,
+            })
+          }
+        ),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const result = await triggersApi.replayExecution(mockTriggerId, mockExecutionId)
+
+      expect(result.status).toBe('pending')
+      expect(result.replayOf).toBe(mockExecutionId)
+    })
+  })
+
+  describe('revisions', () => {
+    const mockRevision = {
+      id: '550e8400-e29b-41d4-a716-446655440040',
+      triggerId: mockTriggerId,
+      revision: 2,
+      changeType: 'updated',
+      author: { id: '550e8400-e29b-41d4-a716-446655440002', name: 'alice' },
+      createdAt: '2025-01-02T00:00:00Z',
+      snapshot: {
+        name: 'Test Trigger',
+        description: null,
+        chainId: 1,
+        registry: 'identity',
+        enabled: false,
+        isStateful: false,
+        conditions: [],
+        actions: [],
+      },
+    }
+
+    it('should list revisions', async () => {
+      let capturedUrl: URL | undefined
+
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTriggerId}/revisions`, ({ request }) => {
+          capturedUrl = new URL(request.url)
+          return HttpResponse.json({
+            data: [mockRevision],
+            pagination: { total: 2, limit: 1, offset: 0, has_more: true },
+          })
+        })
+      )
+
+      const result = await triggersApi.listRevisions(mockTriggerId, { limit: 1 })
+
+      expect(capturedUrl?.searchParams.get('limit')).toBe('1')
+      expect(result.data[0]?.author?.name).toBe('alice')
+      expect(result.data[0]?.rolledBackFrom).toBeNull()
+      expect(result.pagination.hasMore).toBe(true)
+    })
+
+    it('should roll back to a revision', async () => {
+      server.use(
+        http.post(`${baseUrl}/triggers/${mockTriggerId}/revisions/1/rollback`, () => {
+          return HttpResponse.json({ ...mockTrigger, name: 'Restored Trigger' })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const result = await triggersApi.rollback(mockTriggerId, 1)
+
+      expect(result.name).toBe('Restored Trigger')
+    })
+
+    it('should handle rollback conflict', async () => {
+      server.use(
+        http.post(`${baseUrl}/triggers/${mockTriggerId}/revisions/2/rollback`, () => {
+          return HttpResponse.json(
+            { message: 'Revision is already the current version' },
+            { status: 409 }
+          )
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      await expect(triggersApi.rollback(mockTriggerId, 2)).rejects.toThrow()
+    })
+  })
+
+  describe('state', () => {
+    const mockState = {
+      triggerId: mockTriggerId,
+      entries: [
+        {
+          agentId: 42,
+          count: 2,
+          windowStartedAt: '2025-01-01T00:00:00Z',
+          lastMatchedAt: '2025-01-01T06:00:00Z',
+          lastFiredAt: null,
+          cooldownUntil: null,
+        },
+      ],
+      lastResetAt: null,
+    }
+
+    it('should get trigger state', async () => {
+      server.use(
+        http.get(`${baseUrl}/triggers/${mockTriggerId}/state`, () => {
+          return HttpResponse.json(mockState)
+        })
+      )
+
+      const result = await triggersApi.getState(mockTriggerId)
+
+      expect(result.entries).toHaveLength(1)
+      expect(result.entries[0]?.count).toBe(2)
+    })
+
+    it('should reset state for a single agent', async () => {
+      let requestBody: unknown
+      server.use(
+        http.post(`${baseUrl}/triggers/${mockTriggerId}/state/reset`, async ({ request }) => {
+          requestBody = await request.json()
+          return HttpResponse.json({
+            ...mockState,
+            entries: [],
+            lastResetAt: '2025-01-02T00:00:00Z',
+          })
+        }),
+        http.get(`${baseUrl}/csrf-token`, () => {
+          return HttpResponse.json({ token: 'test-csrf' })
+        })
+      )
+
+      const result = await triggersApi.resetState(mockTriggerId, 42)
+
+      expect(requestBody).toEqual({ agentId: 42 })
+      expect(result.entries).toHaveLength(0)
+      expect(result.lastResetAt).toBe('2025-01-02T00:00:00Z')
+    })
+  })
 })
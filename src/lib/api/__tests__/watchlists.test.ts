@@ -0,0 +1,173 @@
+import { HttpResponse, http } from 'msw'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { server } from '@/test/setup'
+import { clearCsrfToken } from '@/lib/api-client'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
+import { watchlistsApi } from '../watchlists'
+
+const baseUrl = `${API_BASE_URL}/api/${API_VERSION}`
+
+describe('watchlistsApi', () => {
+  const mockOrgId = '550e8400-e29b-41d4-a716-446655440000'
+  const mockWatchlistId = '550e8400-e29b-41d4-a716-446655440010'
+
+  const mockWatchlist = {
+    id: mockWatchlistId,
+    organizationId: mockOrgId,
+    name: 'Production fleet',
+    description: null,
+    agents: [
+      { agentId: 42, chainId: 11155111 },
+      { agentId: 7, chainId: 84532 },
+    ],
+    createdAt: '2025-01-01T00:00:00Z',
+    updatedAt: '2025-01-02T00:00:00Z',
+  }
+
+  const csrfHandler = http.get(`${baseUrl}/csrf-token`, () => {
+    return HttpResponse.json({ token: 'test-csrf' })
+  })
+
+  beforeEach(() => {
+    clearCsrfToken()
+  })
+
+  afterEach(() => {
+    clearCsrfToken()
+  })
+
+  describe('list', () => {
+    it('should list organization watchlists', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/watchlists`, () => {
+          return HttpResponse.json({ data: [mockWatchlist] })
+        })
+      )
+
+      const result = await watchlistsApi.list(mockOrgId)
+
+      expect(result).toHaveLength(1)
+      expect(result[0]?.agents).toHaveLength(2)
+    })
+  })
+
+  describe('get', () => {
+    it('should get a watchlist', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/watchlists/${mockWatchlistId}`, () => {
+          return HttpResponse.json(mockWatchlist)
+        })
+      )
+
+      const result = await watchlistsApi.get(mockOrgId, mockWatchlistId)
+
+      expect(result.name).toBe('Production fleet')
+    })
+
+    it('should handle missing watchlists', async () => {
+      server.use(
+        http.get(`${baseUrl}/organizations/${mockOrgId}/watchlists/${mockWatchlistId}`, () => {
+          return HttpResponse.json({ message: 'Watchlist not found' }, { status: 404 })
+        })
+      )
+
+      await expect(watchlistsApi.get(mockOrgId, mockWatchlistId)).rejects.toThrow()
+    })
+  })
+
+  describe('create', () => {
+    it('should create a watchlist', async () => {
+      server.use(
+        http.post(`${baseUrl}/organizations/${mockOrgId}/watchlists`, async ({ request }) => {
+          const body = await request.json()
+          expect(body).toEqual({ name: 'Production fleet' })
+          return HttpResponse.json({ ...mockWatchlist, agents: [] })
+        }),
+        csrfHandler
+      )
+
+      const result = await watchlistsApi.create(mockOrgId, { name: 'Production fleet' })
+
+      expect(result.id).toBe(mockWatchlistId)
+      expect(result.agents).toEqual([])
+    })
+  })
+
+  describe('update', () => {
+    it('should rename a watchlist', async () => {
+      server.use(
+        http.patch(
+          `${baseUrl}/organizations/${mockOrgId}/watchlists/${mockWatchlistId}`,
+          async ({ request }) => {
+            const body = await request.json()
+            expect(body).toEqual({ name: 'Staging fleet' })
+            return HttpResponse.json({ ...mockWatchlist, name: 'Staging fleet' })
+          }
+        ),
+        csrfHandler
+      )
+
+      const result = await watchlistsApi.update(mockOrgId, mockWatchlistId, {
+        name: 'Staging fleet',
+      })
+
+      expect(result.name).toBe('Staging fleet')
+    })
+  })
+
+  describe('delete', () => {
+    it('should delete a watchlist', async () => {
+      server.use(
+        http.delete(
+          `${baseUrl}/organizations/${mockOrgId}/watchlists/${mockWatchlistId}`,
+          () => new Response(null, { status: 204 })
+        ),
+        csrfHandler
+      )
+
+      await expect(watchlistsApi.delete(mockOrgId, mockWatchlistId)).resolves.toBeUndefined()
+    })
+  })
+
+  describe('agents', () => {
+    it('should add agents in bulk', async () => {
+      const agents = [
+        { agentId: 1, chainId: 11155111 },
+        { agentId: 2, chainId: 11155111 },
+      ]
+
+      server.use(
+        http.post(
+          `${baseUrl}/organizations/${mockOrgId}/watchlists/${mockWatchlistId}/agents`,
+          async ({ request }) => {
+            const body = await request.json()
+            expect(body).toEqual({ agents })
+            return HttpResponse.json({
+              ...mockWatchlist,
+              agents: [...mockWatchlist.agents, ...agents],
+            })
+          }
+        ),
+        csrfHandler
+      )
+
+      const result = await watchlistsApi.addAgents(mockOrgId, mockWatchlistId, { agents })
+
+      expect(result.agents).toHaveLength(4)
+    })
+
+    it('should remove an agent by chain and ID', async () => {
+      server.use(
+        http.delete(
+          `${baseUrl}/organizations/${mockOrgId}/watchlists/${mockWatchlistId}/agents/84532/7`,
+          () => HttpResponse.json({ ...mockWatchlist, agents: [mockWatchlist.agents[0]] })
+        ),
+        csrfHandler
+      )
+
+      const result = await watchlistsApi.removeAgent(mockOrgId, mockWatchlistId, 84532, 7)
+
+      expect(result.agents).toEqual([{ agentId: 42, chainId: 11155111 }])
+    })
+  })
+})
@@ -1,13 +1,20 @@
 import { apiClient } from '@/lib/api-client'
 import {
   type ApiKey,
+  type ApiKeyRotationEvent,
+  type ApiKeyRotationPolicyRequest,
   type ApiKeyStats,
+  type ApiKeyUsage,
+  type ApiKeyUsageRange,
   apiKeyListResponseSchema,
+  apiKeyRotationEventListResponseSchema,
   apiKeySchema,
   apiKeyStatsSchema,
+  apiKeyUsageSchema,
   type CreateApiKeyRequest,
   type CreateApiKeyResponse,
   createApiKeyResponseSchema,
+  type RotateApiKeyRequest,
   type UpdateApiKeyRequest,
 } from '@/lib/validations'
 import type { PaginationParams } from '@/types/api'
@@ -84,7 +91,11 @@ export const apiKeysApi = {
    * ```ts
    * const result = await apiKeysApi.create('org-uuid', {
    *   name: 'Production Key',
+   *   tier: 'standard',
    *   expiresAt: '2025-12-31T23:59:59Z',
+   *   scopes: ['events:read', 'reputation:query'],
+   *   allowedIps: ['203.0.113.0/24'],
+   *   allowedOrigins: [],
    * })
    * // IMPORTANT: Store result.key securely - it won't be shown again!
    * console.log(`API Key: ${result.key}`)
@@ -101,8 +112,8 @@ export const apiKeysApi = {
   /**
    * Update API key metadata
    *
-   * Updates the name or expiration of an existing API key.
-   * The key value itself cannot be changed.
+   * Updates the name, expiration, scopes or allowlists of an existing
+   * API key. The key value itself cannot be changed.
    *
    * @param keyId - API key UUID
    * @param request - Fields to update
@@ -146,7 +157,8 @@ export const apiKeysApi = {
    * Regenerate API key
    *
    * Creates a new key value while preserving the key's metadata.
-   * The old key value is immediately invalidated.
+   * The old key value is immediately invalidated; use `rotate` to keep
+   * it working while integrations are updated.
    *
    * @param keyId - API key UUID to regenerate
    * @returns New key with fresh value
@@ -164,6 +176,123 @@ export const apiKeysApi = {
     return createApiKeyResponseSchema.parse(data)
   },
 
+  /**
+   * Rotate API key with a grace period
+   *
+   * Creates a new key value while the current one keeps working for
+   * `gracePeriodHours` (1 hour to 7 days), so integrations can switch
+   * over without downtime. The old value is returned as `previousKey`
+   * on the key. A previous key still in its grace period is revoked.
+   *
+   * @param keyId - API key UUID to rotate
+   * @param request - Grace period for the current key value
+   * @returns New key with fresh value
+   * @throws {ApiError} 400 - Invalid grace period
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Key not found
+   *
+   * @example
+   * ```ts
+   * const result = await apiKeysApi.rotate('key-uuid', { gracePeriodHours: 24 })
+   * // Deploy result.key; the old key stops working at result.apiKey.previousKey.expiresAt
+   * ```
+   */
+  async rotate(keyId: string, request: RotateApiKeyRequest): Promise<CreateApiKeyResponse> {
+    const data = await apiClient.post<CreateApiKeyResponse>(`/api-keys/${keyId}/rotate`, request)
+    return createApiKeyResponseSchema.parse(data)
+  },
+
+  /**
+   * Revoke the previous key value
+   *
+   * Ends the grace period of a rotation early: the previous key value
+   * stops working immediately.
+   *
+   * @param keyId - API key UUID
+   * @returns Updated API key without `previousKey`
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Key not found or no previous key
+   *
+   * @example
+   * ```ts
+   * await apiKeysApi.revokePreviousKey('key-uuid')
+   * ```
+   */
+  async revokePreviousKey(keyId: string): Promise<ApiKey> {
+    const data = await apiClient.post<ApiKey>(`/api-keys/${keyId}/previous-key/revoke`)
+    return apiKeySchema.parse(data)
+  },
+
+  /**
+   * Set the auto-rotation policy of an API key
+   *
+   * The key is rotated every `intervalDays`, each time keeping the
+   * previous value working for `gracePeriodHours`. Replaces any
+   * existing policy.
+   *
+   * @param keyId - API key UUID
+   * @param request - Rotation interval and grace period
+   * @returns Updated API key with its `rotationPolicy`
+   * @throws {ApiError} 400 - Invalid policy
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Key not found
+   *
+   * @example
+   * ```ts
+   * const key = await apiKeysApi.setRotationPolicy('key-uuid', {
+   *   intervalDays: 90,
+   *   gracePeriodHours: 24,
+   * })
+   * console.log(`Next rotation: ${key.rotationPolicy?.nextRotationAt}`)
+   * ```
+   */
+  async setRotationPolicy(keyId: string, request: ApiKeyRotationPolicyRequest): Promise<ApiKey> {
+    const data = await apiClient.put<ApiKey>(`/api-keys/${keyId}/rotation-policy`, request)
+    return apiKeySchema.parse(data)
+  },
+
+  /**
+   * Disable auto-rotation of an API key
+   *
+   * @param keyId - API key UUID
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Key not found
+   *
+   * @example
+   * ```ts
+   * await apiKeysApi.disableRotationPolicy('key-uuid')
+   * ```
+   */
+  async disableRotationPolicy(keyId: string): Promise<void> {
+    await apiClient.delete(`/api-keys/${keyId}/rotation-policy`)
+  },
+
+  /**
+   * List rotation history of an API key
+   *
+   * Returns the key's rotation audit trail, most recent first: manual
+   * and scheduled rotations, regenerations, revoked and expired previous
+   * keys, and policy changes.
+   *
+   * @param keyId - API key UUID
+   * @param params - Pagination parameters
+   * @returns Paginated list of rotation events
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Key not found
+   *
+   * @example
+   * ```ts
+   * const { data: events } = await apiKeysApi.listRotations('key-uuid', { limit: 20 })
+   * ```
+   */
+  async listRotations(
+    keyId: string,
+    params?: PaginationParams
+  ): Promise<{ data: ApiKeyRotationEvent[]; pagination: { total: number; hasMore: boolean } }> {
+    const data = await apiClient.get(`/api-keys/${keyId}/rotations`, { params })
+    return apiKeyRotationEventListResponseSchema.parse(data)
+  },
+
   /**
    * Get API key usage stats for organization
    *
@@ -184,4 +313,28 @@ export const apiKeysApi = {
     const data = await apiClient.get(`/organizations/${orgId}/api-keys/stats`)
     return apiKeyStatsSchema.parse(data)
   },
+
+  /**
+   * Get usage analytics for a single API key
+   *
+   * Returns request counts over time (hourly for `24h`, daily otherwise),
+   * the busiest endpoints, status code distribution, latency percentiles
+   * and the IP and user agent that last used the key.
+   *
+   * @param keyId - API key UUID
+   * @param range - Time range (default: `24h`)
+   * @returns Usage analytics for the key
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Key not found
+   *
+   * @example
+   * ```ts
+   * const usage = await apiKeysApi.getUsage('key-uuid', '7d')
+   * console.log(`${usage.totalRequests} requests, p95 ${usage.latency?.p95Ms}ms`)
+   * ```
+   */
+  async getUsage(keyId: string, range: ApiKeyUsageRange = '24h'): Promise<ApiKeyUsage> {
+    const data = await apiClient.get(`/api-keys/${keyId}/usage`, { params: { range } })
+    return apiKeyUsageSchema.parse(data)
+  },
 }
@@ -0,0 +1,47 @@
+import { apiClient } from '@/lib/api-client'
+import {
+  type AuditLogFilters,
+  type AuditLogPage,
+  auditLogPageSchema,
+} from '@/lib/validations/audit-log'
+
+/**
+ * Audit log API client
+ *
+ * The audit log records who changed what in an organization: member
+ * invitations and role changes, trigger edits, API key creation,
+ * regeneration and rotation, agent linking and organization changes.
+ * Entries are immutable and returned most recent first, with cursor
+ * pagination so new entries don't shift pages while browsing.
+ *
+ * @see https://docs.agentauri.ai/api/audit-log
+ */
+export const auditLogApi = {
+  /**
+   * List audit log entries of an organization
+   *
+   * Requires owner or admin role.
+   *
+   * @param orgId - Organization UUID
+   * @param params - Filters, page size and the cursor of the page to fetch
+   * @returns Page of entries and the cursor of the next page (null on the last page)
+   * @throws {ApiError} 400 - Invalid filters or cursor
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   *
+   * @example
+   * ```ts
+   * const first = await auditLogApi.list('org-uuid', { resourceType: 'api_key', limit: 50 })
+   * if (first.nextCursor) {
+   *   const second = await auditLogApi.list('org-uuid', { cursor: first.nextCursor, limit: 50 })
+   * }
+   * ```
+   */
+  async list(
+    orgId: string,
+    params?: AuditLogFilters & { cursor?: string; limit?: number }
+  ): Promise<AuditLogPage> {
+    const data = await apiClient.get(`/organizations/${orgId}/audit-log`, { params })
+    return auditLogPageSchema.parse(data)
+  },
+}
@@ -0,0 +1,169 @@
+import { apiClient } from '@/lib/api-client'
+import {
+  type AgentWatch,
+  agentWatchListResponseSchema,
+  agentWatchSchema,
+  type ExplorerAgent,
+  type ExplorerAgentSummary,
+  explorerAgentListResponseSchema,
+  explorerAgentSchema,
+  type ValidationRecord,
+  validationRecordListResponseSchema,
+  type WatchAgentRequest,
+} from '@/lib/validations/explorer'
+import type { PaginationParams } from '@/types/api'
+
+/**
+ * Agent explorer client for looking up any ERC-8004 agent
+ *
+ * Unlike `agentsApi`, the explorer is not limited to agents linked to the
+ * organization: it resolves identity registry records, agent cards,
+ * reputation summaries and validation history for any agent. Watches let
+ * an organization follow an agent's events without linking it.
+ *
+ * @see https://docs.agentauri.ai/api/explorer
+ */
+export const explorerApi = {
+  /**
+   * Get an agent by ID
+   *
+   * Resolves the identity registry record (owner, token URI), the agent
+   * card JSON behind the token URI, and reputation and validation summaries.
+   *
+   * @param chainId - Chain the agent is registered on
+   * @param agentId - On-chain agent ID
+   * @returns Explorer view of the agent
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Agent not registered on this chain
+   *
+   * @example
+   * ```ts
+   * const agent = await explorerApi.getAgent(11155111, 42)
+   * console.log(agent.owner, agent.reputation.score)
+   * ```
+   */
+  async getAgent(chainId: number, agentId: number): Promise<ExplorerAgent> {
+    const data = await apiClient.get<ExplorerAgent>(`/explorer/agents/${chainId}/${agentId}`)
+    return explorerAgentSchema.parse(data)
+  },
+
+  /**
+   * Find agents by owner
+   *
+   * Lists identity registry records owned by an address, across all
+   * supported chains unless `chainId` is given.
+   *
+   * @param owner - Owner address (0x...)
+   * @param chainId - Optional chain filter
+   * @param params - Pagination parameters
+   * @returns Paginated list of agents owned by the address
+   * @throws {ApiError} 400 - Invalid address
+   * @throws {ApiError} 401 - Unauthorized
+   *
+   * @example
+   * ```ts
+   * const { data: agents } = await explorerApi.searchByOwner('0x1234...')
+   * ```
+   */
+  async searchByOwner(
+    owner: string,
+    chainId?: number,
+    params?: PaginationParams
+  ): Promise<{ data: ExplorerAgentSummary[]; pagination: { total: number; hasMore: boolean } }> {
+    const data = await apiClient.get('/explorer/agents', {
+      params: { ...params, owner, chainId },
+    })
+    return explorerAgentListResponseSchema.parse(data)
+  },
+
+  /**
+   * List validation history of an agent
+   *
+   * Returns validation registry requests for the agent, newest first,
+   * including pending requests without a response.
+   *
+   * @param chainId - Chain the agent is registered on
+   * @param agentId - On-chain agent ID
+   * @param params - Pagination parameters
+   * @returns Paginated list of validation records
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Agent not registered on this chain
+   *
+   * @example
+   * ```ts
+   * const { data: validations } = await explorerApi.listValidations(11155111, 42, {
+   *   limit: 20,
+   * })
+   * ```
+   */
+  async listValidations(
+    chainId: number,
+    agentId: number,
+    params?: PaginationParams
+  ): Promise<{ data: ValidationRecord[]; pagination: { total: number; hasMore: boolean } }> {
+    const data = await apiClient.get(`/explorer/agents/${chainId}/${agentId}/validations`, {
+      params,
+    })
+    return validationRecordListResponseSchema.parse(data)
+  },
+
+  /**
+   * List watched agents
+   *
+   * @param orgId - Organization UUID
+   * @returns Agents the organization watches
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (not a member of organization)
+   *
+   * @example
+   * ```ts
+   * const watches = await explorerApi.listWatches('org-uuid')
+   * ```
+   */
+  async listWatches(orgId: string): Promise<AgentWatch[]> {
+    const data = await apiClient.get(`/organizations/${orgId}/agent-watches`)
+    return agentWatchListResponseSchema.parse(data).data
+  },
+
+  /**
+   * Watch an agent
+   *
+   * Creates a lightweight monitor: the agent's events are indexed for the
+   * organization without linking the agent (no ownership proof needed).
+   *
+   * @param orgId - Organization UUID
+   * @param request - Agent ID and chain
+   * @returns The created watch
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 404 - Agent not registered on this chain
+   * @throws {ApiError} 409 - Agent is already watched
+   *
+   * @example
+   * ```ts
+   * await explorerApi.watch('org-uuid', { agentId: 42, chainId: 11155111 })
+   * ```
+   */
+  async watch(orgId: string, request: WatchAgentRequest): Promise<AgentWatch> {
+    const data = await apiClient.post<AgentWatch>(`/organizations/${orgId}/agent-watches`, request)
+    return agentWatchSchema.parse(data)
+  },
+
+  /**
+   * Stop watching an agent
+   *
+   * @param orgId - Organization UUID
+   * @param watchId - Watch UUID
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 404 - Watch not found
+   *
+   * @example
+   * ```ts
+   * await explorerApi.unwatch('org-uuid', 'watch-uuid')
+   * ```
+   */
+  async unwatch(orgId: string, watchId: string): Promise<void> {
+    await apiClient.delete(`/organizations/${orgId}/agent-watches/${watchId}`)
+  },
+}
@@ -10,8 +10,12 @@
  * - organizationsApi: Workspace and team management
  * - agentsApi: ERC-8004 agent linking
  * - triggersApi: Automation triggers
+ * - triggerTemplatesApi: Reusable organization trigger templates
  * - eventsApi: Blockchain event queries
+ * - explorerApi: Public ERC-8004 agent lookup
+ * - watchlistsApi: Named sets of agents
  * - apiKeysApi: API key management
+ * - auditLogApi: Organization audit log
  * - billingApi: Credits and subscriptions
  * - healthApi: API health monitoring
  *
@@ -31,10 +35,14 @@
 
 export { agentsApi } from './agents'
 export { apiKeysApi } from './api-keys'
+export { auditLogApi } from './audit-log'
 export { authApi } from './auth'
 export { billingApi } from './billing'
 export { eventsApi } from './events'
+export { explorerApi } from './explorer'
 export { healthApi } from './health'
 export { organizationsApi } from './organizations'
+export { triggerTemplatesApi } from './trigger-templates'
 export { triggersApi } from './triggers'
 export { usersApi } from './users'
+export { watchlistsApi } from './watchlists'
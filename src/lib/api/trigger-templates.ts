@@ -0,0 +1,85 @@
+import { apiClient } from '@/lib/api-client'
+import {
+  type CreateTriggerTemplateRequest,
+  type TriggerTemplate,
+  triggerTemplateListResponseSchema,
+  triggerTemplateSchema,
+} from '@/lib/validations/trigger-template'
+
+/**
+ * Trigger templates API client for reusable organization templates
+ *
+ * An organization template is a trigger definition with optional
+ * `[[key]]` placeholders, shown in the template gallery next to the
+ * built-in templates (see `lib/trigger-templates`). Templates belong to
+ * an organization.
+ *
+ * @see https://docs.agentauri.ai/api/trigger-templates
+ */
+export const triggerTemplatesApi = {
+  /**
+   * List trigger templates
+   *
+   * @param orgId - Organization UUID
+   * @returns Templates saved by the organization
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (not a member of organization)
+   *
+   * @example
+   * ```ts
+   * const templates = await triggerTemplatesApi.list('org-uuid')
+   * ```
+   */
+  async list(orgId: string): Promise<TriggerTemplate[]> {
+    const data = await apiClient.get(`/organizations/${orgId}/trigger-templates`)
+    return triggerTemplateListResponseSchema.parse(data).data
+  },
+
+  /**
+   * Save a trigger template
+   *
+   * @param orgId - Organization UUID
+   * @param request - Name, category, parameters and trigger body
+   * @returns The created template
+   * @throws {ApiError} 400 - Validation error
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 409 - A template with this name already exists
+   *
+   * @example
+   * ```ts
+   * const template = await triggerTemplatesApi.create('org-uuid', {
+   *   name: 'Low reputation',
+   *   category: 'reputation',
+   *   parameters: [],
+   *   trigger: toTriggerTemplateBody(getTriggerFormDefaults(trigger)),
+   * })
+   * ```
+   */
+  async create(orgId: string, request: CreateTriggerTemplateRequest): Promise<TriggerTemplate> {
+    const data = await apiClient.post<TriggerTemplate>(
+      `/organizations/${orgId}/trigger-templates`,
+      request
+    )
+    return triggerTemplateSchema.parse(data)
+  },
+
+  /**
+   * Delete a trigger template
+   *
+   * Triggers created from the template are not affected.
+   *
+   * @param orgId - Organization UUID
+   * @param templateId - Template UUID
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 404 - Template not found
+   *
+   * @example
+   * ```ts
+   * await triggerTemplatesApi.delete('org-uuid', 'template-uuid')
+   * ```
+   */
+  async delete(orgId: string, templateId: string): Promise<void> {
+    await apiClient.delete(`/organizations/${orgId}/trigger-templates/${templateId}`)
+  },
+}
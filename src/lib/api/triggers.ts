@@ -2,9 +2,17 @@ import { apiClient } from '@/lib/api-client'
 import {
   type CreateTriggerRequest,
   type Trigger,
+  type TriggerExecution,
+  type TriggerExecutionFilters,
   type TriggerFilters,
+  type TriggerRevision,
+  type TriggerState,
+  triggerExecutionListResponseSchema,
+  triggerExecutionSchema,
   triggerListResponseSchema,
+  triggerRevisionListResponseSchema,
   triggerSchema,
+  triggerStateSchema,
   type UpdateTriggerRequest,
 } from '@/lib/validations'
 import type { PaginationParams } from '@/types/api'
@@ -192,6 +200,10 @@ export const triggersApi = {
    * or performing actual actions. Useful for validating trigger
    * configuration before enabling.
    *
+   * Only exercises actions; conditions are not evaluated. Use
+   * `dryRunConditions` from `@/lib/condition-evaluator` to check
+   * conditions against historical events.
+   *
    * @param triggerId - Trigger UUID to test
    * @returns Test result with success status and optional error
    * @throws {ApiError} 401 - Unauthorized
@@ -212,4 +224,183 @@ export const triggersApi = {
       `/triggers/${triggerId}/test`
     )
   },
+
+  /**
+   * List trigger executions
+   *
+   * Returns paginated execution history, most recent first.
+   *
+   * @param triggerId - Trigger UUID
+   * @param params - Pagination and filter parameters
+   * @returns Paginated list of executions
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Trigger not found
+   *
+   * @example
+   * ```ts
+   * const { data: runs } = await triggersApi.listExecutions('trigger-uuid', {
+   *   status: 'failed',
+   *   limit: 20,
+   * })
+   * ```
+   */
+  async listExecutions(
+    triggerId: string,
+    params?: PaginationParams & TriggerExecutionFilters
+  ): Promise<{ data: TriggerExecution[]; pagination: { total: number; hasMore: boolean } }> {
+    const data = await apiClient.get(`/triggers/${triggerId}/executions`, { params })
+    return triggerExecutionListResponseSchema.parse(data)
+  },
+
+  /**
+   * Get trigger execution by ID
+   *
+   * Retrieves a single execution including the matched event
+   * and per-action results.
+   *
+   * @param triggerId - Trigger UUID
+   * @param executionId - Execution UUID
+   * @returns Execution details
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Execution not found
+   *
+   * @example
+   * ```ts
+   * const run = await triggersApi.getExecution('trigger-uuid', 'execution-uuid')
+   * run.actionResults.forEach((r) => console.log(r.actionType, r.status))
+   * ```
+   */
+  async getExecution(triggerId: string, executionId: string): Promise<TriggerExecution> {
+    const data = await apiClient.get<TriggerExecution>(
+      `/triggers/${triggerId}/executions/${executionId}`
+    )
+    return triggerExecutionSchema.parse(data)
+  },
+
+  /**
+   * Replay trigger execution
+   *
+   * Re-runs the trigger's actions against the event of a previous
+   * execution. Creates a new execution linked via `replayOf`.
+   * Consumes credits like a regular execution.
+   *
+   * @param triggerId - Trigger UUID
+   * @param executionId - Execution UUID to replay
+   * @returns The new execution
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Execution not found
+   * @throws {ApiError} 409 - Execution cannot be replayed (e.g. still running)
+   *
+   * @example
+   * ```ts
+   * const replay = await triggersApi.replayExecution('trigger-uuid', 'execution-uuid')
+   * console.log(replay.replayOf) // 'execution-uuid'
+   * ```
+   */
+  async replayExecution(triggerId: string, executionId: string): Promise<TriggerExecution> {
+    const data = await apiClient.post<TriggerExecution>(
+      `/triggers/${triggerId}/executions/${executionId}/replay`
+    )
+    return triggerExecutionSchema.parse(data)
+  },
+
+  /**
+   * List trigger revisions
+   *
+   * Returns the saved versions of a trigger, most recent first.
+   * Every create, update, toggle and rollback adds a revision.
+   *
+   * @param triggerId - Trigger UUID
+   * @param params - Pagination parameters
+   * @returns Paginated list of revisions
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Trigger not found
+   *
+   * @example
+   * ```ts
+   * const { data: revisions } = await triggersApi.listRevisions('trigger-uuid', { limit: 10 })
+   * revisions.forEach((r) => console.log(r.revision, r.changeType, r.author?.name))
+   * ```
+   */
+  async listRevisions(
+    triggerId: string,
+    params?: PaginationParams
+  ): Promise<{ data: TriggerRevision[]; pagination: { total: number; hasMore: boolean } }> {
+    const data = await apiClient.get(`/triggers/${triggerId}/revisions`, { params })
+    return triggerRevisionListResponseSchema.parse(data)
+  },
+
+  /**
+   * Roll back trigger to a revision
+   *
+   * Restores the name, description, conditions, actions, settings and
+   * enabled state saved in a revision. The rollback is recorded as a new
+   * revision, so it can itself be undone.
+   *
+   * @param triggerId - Trigger UUID
+   * @param revision - Revision number to restore
+   * @returns The restored trigger
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Trigger or revision not found
+   * @throws {ApiError} 409 - Revision is already the current version
+   *
+   * @example
+   * ```ts
+   * const trigger = await triggersApi.rollback('trigger-uuid', 3)
+   * ```
+   */
+  async rollback(triggerId: string, revision: number): Promise<Trigger> {
+    const data = await apiClient.post<Trigger>(
+      `/triggers/${triggerId}/revisions/${revision}/rollback`
+    )
+    return triggerSchema.parse(data)
+  },
+
+  /**
+   * Get trigger state
+   *
+   * Returns the current counters and cooldowns of a stateful trigger,
+   * one entry per agent (or a single entry for trigger-wide state).
+   *
+   * @param triggerId - Trigger UUID
+   * @returns Current trigger state
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Trigger not found
+   *
+   * @example
+   * ```ts
+   * const state = await triggersApi.getState('trigger-uuid')
+   * state.entries.forEach((e) => console.log(e.agentId, e.count))
+   * ```
+   */
+  async getState(triggerId: string): Promise<TriggerState> {
+    const data = await apiClient.get<TriggerState>(`/triggers/${triggerId}/state`)
+    return triggerStateSchema.parse(data)
+  },
+
+  /**
+   * Reset trigger state
+   *
+   * Clears counters and cooldowns, for one agent or the whole trigger.
+   *
+   * @param triggerId - Trigger UUID
+   * @param agentId - Only reset this agent's state (omit to reset everything)
+   * @returns State after the reset
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 404 - Trigger not found
+   * @throws {ApiError} 409 - Trigger is not stateful
+   *
+   * @example
+   * ```ts
+   * await triggersApi.resetState('trigger-uuid')     // everything
+   * await triggersApi.resetState('trigger-uuid', 42) // agent 42 only
+   * ```
+   */
+  async resetState(triggerId: string, agentId?: number): Promise<TriggerState> {
+    const data = await apiClient.post<TriggerState>(
+      `/triggers/${triggerId}/state/reset`,
+      agentId !== undefined ? { agentId } : {}
+    )
+    return triggerStateSchema.parse(data)
+  },
 }
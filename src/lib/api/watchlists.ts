@@ -0,0 +1,192 @@
+import { apiClient } from '@/lib/api-client'
+import {
+  type AddWatchlistAgentsRequest,
+  type CreateWatchlistRequest,
+  type UpdateWatchlistRequest,
+  type Watchlist,
+  watchlistListResponseSchema,
+  watchlistSchema,
+} from '@/lib/validations/watchlist'
+
+/**
+ * Watchlists API client for named sets of agents
+ *
+ * A watchlist groups agent ID and chain pairs so a whole fleet can be
+ * targeted at once: trigger conditions reference it as `watchlist:<id>`
+ * and the events feed can be filtered by it. Watchlists belong to an
+ * organization.
+ *
+ * @see https://docs.agentauri.ai/api/watchlists
+ */
+export const watchlistsApi = {
+  /**
+   * List watchlists
+   *
+   * @param orgId - Organization UUID
+   * @returns Watchlists of the organization with their agents
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (not a member of organization)
+   *
+   * @example
+   * ```ts
+   * const watchlists = await watchlistsApi.list('org-uuid')
+   * ```
+   */
+  async list(orgId: string): Promise<Watchlist[]> {
+    const data = await apiClient.get(`/organizations/${orgId}/watchlists`)
+    return watchlistListResponseSchema.parse(data).data
+  },
+
+  /**
+   * Get a watchlist
+   *
+   * @param orgId - Organization UUID
+   * @param watchlistId - Watchlist UUID
+   * @returns Watchlist with its agents
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (not a member of organization)
+   * @throws {ApiError} 404 - Watchlist not found
+   *
+   * @example
+   * ```ts
+   * const watchlist = await watchlistsApi.get('org-uuid', 'watchlist-uuid')
+   * console.log(`${watchlist.name}: ${watchlist.agents.length} agents`)
+   * ```
+   */
+  async get(orgId: string, watchlistId: string): Promise<Watchlist> {
+    const data = await apiClient.get<Watchlist>(`/organizations/${orgId}/watchlists/${watchlistId}`)
+    return watchlistSchema.parse(data)
+  },
+
+  /**
+   * Create a watchlist
+   *
+   * @param orgId - Organization UUID
+   * @param request - Name, optional description and initial agents
+   * @returns The created watchlist
+   * @throws {ApiError} 400 - Validation error
+   * @throws {ApiError} 401 - Unauthorized
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 409 - A watchlist with this name already exists
+   *
+   * @example
+   * ```ts
+   * const watchlist = await watchlistsApi.create('org-uuid', {
+   *   name: 'Production fleet',
+   *   agents: [{ agentId: 42, chainId: 1 }],
+   * })
+   * ```
+   */
+  async create(orgId: string, request: CreateWatchlistRequest): Promise<Watchlist> {
+    const data = await apiClient.post<Watchlist>(`/organizations/${orgId}/watchlists`, request)
+    return watchlistSchema.parse(data)
+  },
+
+  /**
+   * Rename a watchlist or change its description
+   *
+   * @param orgId - Organization UUID
+   * @param watchlistId - Watchlist UUID
+   * @param request - Fields to update
+   * @returns The updated watchlist
+   * @throws {ApiError} 400 - Validation error
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 404 - Watchlist not found
+   *
+   * @example
+   * ```ts
+   * await watchlistsApi.update('org-uuid', 'watchlist-uuid', { name: 'Staging fleet' })
+   * ```
+   */
+  async update(
+    orgId: string,
+    watchlistId: string,
+    request: UpdateWatchlistRequest
+  ): Promise<Watchlist> {
+    const data = await apiClient.patch<Watchlist>(
+      `/organizations/${orgId}/watchlists/${watchlistId}`,
+      request
+    )
+    return watchlistSchema.parse(data)
+  },
+
+  /**
+   * Delete a watchlist
+   *
+   * Triggers referencing the watchlist stop matching on it.
+   *
+   * @param orgId - Organization UUID
+   * @param watchlistId - Watchlist UUID
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 404 - Watchlist not found
+   *
+   * @example
+   * ```ts
+   * await watchlistsApi.delete('org-uuid', 'watchlist-uuid')
+   * ```
+   */
+  async delete(orgId: string, watchlistId: string): Promise<void> {
+    await apiClient.delete(`/organizations/${orgId}/watchlists/${watchlistId}`)
+  },
+
+  /**
+   * Add agents to a watchlist
+   *
+   * Used for single additions and bulk CSV imports. Agents already in the
+   * watchlist are skipped.
+   *
+   * @param orgId - Organization UUID
+   * @param watchlistId - Watchlist UUID
+   * @param request - Agents to add
+   * @returns The updated watchlist
+   * @throws {ApiError} 400 - Validation error (e.g. too many agents)
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 404 - Watchlist not found
+   *
+   * @example
+   * ```ts
+   * await watchlistsApi.addAgents('org-uuid', 'watchlist-uuid', {
+   *   agents: [{ agentId: 42, chainId: 11155111 }, { agentId: 43, chainId: 11155111 }],
+   * })
+   * ```
+   */
+  async addAgents(
+    orgId: string,
+    watchlistId: string,
+    request: AddWatchlistAgentsRequest
+  ): Promise<Watchlist> {
+    const data = await apiClient.post<Watchlist>(
+      `/organizations/${orgId}/watchlists/${watchlistId}/agents`,
+      request
+    )
+    return watchlistSchema.parse(data)
+  },
+
+  /**
+   * Remove an agent from a watchlist
+   *
+   * @param orgId - Organization UUID
+   * @param watchlistId - Watchlist UUID
+   * @param chainId - Chain the agent is registered on
+   * @param agentId - Agent token ID
+   * @returns The updated watchlist
+   * @throws {ApiError} 403 - Forbidden (insufficient permissions)
+   * @throws {ApiError} 404 - Watchlist or agent not found
+   *
+   * @example
+   * ```ts
+   * await watchlistsApi.removeAgent('org-uuid', 'watchlist-uuid', 11155111, 42)
+   * ```
+   */
+  async removeAgent(
+    orgId: string,
+    watchlistId: string,
+    chainId: number,
+    agentId: number
+  ): Promise<Watchlist> {
+    const data = await apiClient.delete<Watchlist>(
+      `/organizations/${orgId}/watchlists/${watchlistId}/agents/${chainId}/${agentId}`
+    )
+    return watchlistSchema.parse(data)
+  },
+}
@@ -0,0 +1,153 @@
+/**
+ * Audit log
+ *
+ * Display and export helpers for the organization audit log: action and
+ * resource labels, field diffs of updates and CSV/JSON exports for
+ * compliance reviews.
+ *
+ * Diffs use the same flattened field comparison as agent card versions
+ * (see `diffAgentCards`), so nested settings show as dotted paths.
+ *
+ * @module lib/audit-log
+ *
+ * @example
+ * ```ts
+ * formatAuditAction('member.role_updated') // => 'MEMBER ROLE UPDATED'
+ * diffAuditLogEntry(entry)
+ * // => [{ path: 'role', type: 'changed', before: 'member', after: 'admin' }]
+ * ```
+ */
+
+import { type AgentCardChange, diffAgentCards } from './agent-card'
+import { toCsv } from './csv'
+import type { AuditLogEntry, AuditLogFilters, AuditLogResourceType } from './validations/audit-log'
+
+/** Export formats of the audit log */
+export type AuditLogExportFormat = 'csv' | 'json'
+
+/** Most entries fetched for one export */
+export const MAX_AUDIT_LOG_EXPORT_ENTRIES = 5000
+
+/** Labels of the audit log resource types */
+export const AUDIT_LOG_RESOURCE_LABELS: Record<AuditLogResourceType, string> = {
+  organization: 'ORGANIZATION',
+  member: 'MEMBER',
+  trigger: 'TRIGGER',
+  api_key: 'API KEY',
+  agent: 'AGENT',
+}
+
+/**
+ * Label of an action, e.g. `API KEY REGENERATED`
+ *
+ * @param action - Action as `<resource>.<verb>`
+ */
+export function formatAuditAction(action: string): string {
+  return action.replace(/[._]/g, ' ').toUpperCase()
+}
+
+/**
+ * Who performed an entry: username, email, or `SYSTEM` without actor
+ */
+export function formatAuditActor(entry: Pick<AuditLogEntry, 'actor'>): string {
+  if (!entry.actor) return 'SYSTEM'
+  return entry.actor.username ?? entry.actor.email ?? entry.actor.id
+}
+
+/**
+ * Field changes recorded by an entry
+ *
+ * @param entry - Audit log entry
+ * @returns Changes sorted by path; empty without snapshots
+ */
+export function diffAuditLogEntry(
+  entry: Pick<AuditLogEntry, 'before' | 'after'>
+): AgentCardChange[] {
+  if (!entry.before && !entry.after) return []
+  return diffAgentCards(entry.before, entry.after)
+}
+
+function formatChangeValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+/**
+ * One-line summary of changes, e.g. `role: member -> admin; +name: Bot`
+ */
+function summarizeChanges(changes: AgentCardChange[]): string {
+  return changes
+    .map((change) => {
+      if (change.type === 'added') return `+${change.path}: ${formatChangeValue(change.after)}`
+      if (change.type === 'removed') return `-${change.path}: ${formatChangeValue(change.before)}`
+      return `${change.path}: ${formatChangeValue(change.before)} -> ${formatChangeValue(change.after)}`
+    })
+    .join('; ')
+}
+
+/**
+ * CSV of audit log entries, one row per entry with changes summarized
+ */
+export function toAuditLogCsv(entries: AuditLogEntry[]): string {
+  return toCsv([
+    [
+      'created_at',
+      'action',
+      'actor_id',
+      'actor',
+      'resource_type',
+      'resource_id',
+      'resource_name',
+      'changes',
+      'ip_address',
+      'user_agent',
+    ],
+    ...entries.map((entry) => [
+      entry.createdAt,
+      entry.action,
+      entry.actor?.id,
+      entry.actor ? formatAuditActor(entry) : 'system',
+      entry.resourceType,
+      entry.resourceId,
+      entry.resourceName,
+      summarizeChanges(diffAuditLogEntry(entry)),
+      entry.ipAddress,
+      entry.userAgent,
+    ]),
+  ])
+}
+
+/**
+ * JSON export of audit log entries with the filters they were selected by
+ *
+ * @param organizationId - Organization UUID
+ * @param entries - Exported entries
+ * @param filters - Filters applied to the export
+ * @param exportedAt - Export time (default: now)
+ */
+export function toAuditLogJson(
+  organizationId: string,
+  entries: AuditLogEntry[],
+  filters: AuditLogFilters,
+  exportedAt: Date = new Date()
+): string {
+  return `${JSON.stringify(
+    { organizationId, exportedAt: exportedAt.toISOString(), filters, entries },
+    null,
+    2
+  )}\n`
+}
+
+/**
+ * File name of an export, e.g. `acme-audit-log-2026-01-31.csv`
+ *
+ * @param organizationSlug - Organization slug
+ * @param format - Export format
+ * @param exportedAt - Export time (default: now)
+ */
+export function getAuditLogFilename(
+  organizationSlug: string,
+  format: AuditLogExportFormat,
+  exportedAt: Date = new Date()
+): string {
+  return `${organizationSlug || 'organization'}-audit-log-${exportedAt.toISOString().slice(0, 10)}.${format}`
+}
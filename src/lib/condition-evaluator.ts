@@ -0,0 +1,400 @@
+/**
+ * Client-side trigger condition evaluator
+ *
+ * Pure re-implementation of the backend condition matching so triggers
+ * can be dry-run against historical events before they are enabled.
+ *
+ * Field resolution order:
+ * 1. Known aliases used by the condition builder (e.g. `event_type`, `reputation_score`)
+ * 2. Dot paths (e.g. `data.score`, `metadata.name` - resolved against `data` as fallback)
+ * 3. Top-level event fields, then `data` fields (snake_case names are also tried in camelCase)
+ *
+ * Comparison rules:
+ * - Numbers are compared numerically when both sides are numeric
+ * - ISO datetimes are compared as Unix seconds (matches `time_condition` input)
+ * - Hex strings (`0x...`) are compared case-insensitively
+ * - `in` takes a comma-separated list and matches if any entry equals the value,
+ *   or a watchlist reference (`watchlist:<id>`) matching the event's agent and chain
+ * - Deprecated event type names (e.g. `ReputationChanged`) equal their current name
+ * - Stateful fields (`match_count`, `seconds_since_last_match`) can't be checked
+ *   client-side and are assumed to match
+ *
+ * Top-level nodes are combined with AND. Groups evaluate their children with
+ * `and` (all match), `or` (any match) or `not` (none match).
+ *
+ * @module lib/condition-evaluator
+ *
+ * @example
+ * ```ts
+ * const result = evaluateConditions(
+ *   [{ field: 'event_type', operator: 'eq', value: 'ReputationChanged' }],
+ *   event
+ * )
+ * if (result.matched) console.log('Trigger would fire')
+ * ```
+ */
+
+import { type ConditionNodeLike, isConditionGroup } from './condition-tree'
+import { normalizeEventType } from './event-catalog'
+import type { BlockchainEvent } from './validations/event'
+import { STATEFUL_CONDITION_FIELDS, type TriggerCondition } from './validations/trigger'
+import type { WatchlistAgent } from './validations/watchlist'
+import { isAgentInWatchlist, parseWatchlistReference } from './watchlists'
+
+/** Condition operator */
+export type ConditionOperator = TriggerCondition['operator']
+
+/**
+ * Minimal condition shape accepted by the evaluator
+ *
+ * Works with persisted conditions as well as wizard form values.
+ */
+export type EvaluableCondition = Pick<TriggerCondition, 'field' | 'operator' | 'value'>
+
+/** Condition or AND/OR/NOT group accepted by the evaluator */
+export type EvaluableConditionNode = ConditionNodeLike<EvaluableCondition>
+
+/**
+ * Data conditions may reference besides the event itself
+ */
+export interface ConditionEvaluationContext {
+  /** Agents of each watchlist, keyed by watchlist ID */
+  watchlists?: Readonly<Record<string, readonly WatchlistAgent[]>>
+}
+
+/**
+ * Result of evaluating one condition (or group) against one event
+ */
+export interface ConditionEvaluation {
+  /** The evaluated condition or group */
+  condition: EvaluableConditionNode
+  /** Whether the condition holds */
+  matched: boolean
+  /** Resolved field value (undefined if the field is missing or for groups) */
+  actual: unknown
+  /** Why the condition failed to evaluate (missing field, non-numeric value, ...) */
+  reason?: string
+  /** Child results when the condition is a group */
+  children?: ConditionEvaluation[]
+}
+
+/**
+ * Result of evaluating all conditions against one event
+ */
+export interface EventEvaluation {
+  /** The evaluated event */
+  event: BlockchainEvent
+  /** True if every condition matched (AND logic) */
+  matched: boolean
+  /** Per-node results, in top-level order */
+  results: ConditionEvaluation[]
+  /** Number of top-level nodes that did not match */
+  failedCount: number
+}
+
+/**
+ * Aggregated per-condition statistics for a dry run
+ */
+export interface ConditionDryRunStats {
+  /** The top-level condition or group */
+  condition: EvaluableConditionNode
+  /** Events matching this condition on its own */
+  matched: number
+  /** Events where this was the only failing condition */
+  blockedAlone: number
+}
+
+/**
+ * Result of dry-running conditions against a set of events
+ */
+export interface DryRunResult {
+  /** Number of events evaluated */
+  total: number
+  /** Events that would have fired the trigger */
+  matches: EventEvaluation[]
+  /** Events that failed exactly one top-level node */
+  nearMisses: EventEvaluation[]
+  /** Per-node statistics, in top-level order */
+  conditions: ConditionDryRunStats[]
+}
+
+/**
+ * Field aliases used by the condition builder
+ *
+ * Each alias maps to candidate paths; the first one present on the event wins.
+ * Registry events don't share a payload shape, so e.g. reputation scores
+ * may arrive as `score` or `newScore`.
+ */
+const FIELD_ALIASES: Record<string, string[]> = {
+  event_type: ['eventType'],
+  event_timestamp: ['timestamp'],
+  agent_id: ['agentId'],
+  chain_id: ['chainId'],
+  block_number: ['blockNumber'],
+  transaction_hash: ['transactionHash'],
+  reputation_score: ['data.score', 'data.newScore', 'data.reputationScore'],
+  reputationScore: ['data.score', 'data.newScore', 'data.reputationScore'],
+  agent_address: ['data.agentAddress', 'data.owner', 'data.to'],
+}
+
+/** Fields holding the event type; deprecated names are matched to their current name */
+const EVENT_TYPE_FIELDS = new Set(['event_type', 'eventType'])
+
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/
+
+function snakeToCamel(value: string): string {
+  return value.replace(/_([a-z0-9])/g, (_, char: string) => char.toUpperCase())
+}
+
+function getPath(source: unknown, path: string): unknown {
+  let current = source
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+/**
+ * Resolve a condition field against an event
+ *
+ * @param event - Blockchain event
+ * @param field - Condition field (alias, dot path, or plain name)
+ * @returns Field value, or undefined if the event doesn't have it
+ *
+ * @example
+ * ```ts
+ * resolveConditionField(event, 'event_type')  // => 'ReputationChanged'
+ * resolveConditionField(event, 'data.score')  // => 85
+ * resolveConditionField(event, 'newScore')    // => 85 (falls back to data)
+ * ```
+ */
+export function resolveConditionField(event: BlockchainEvent, field: string): unknown {
+  const candidates = [...(FIELD_ALIASES[field] ?? []), field]
+  const camel = snakeToCamel(field)
+  if (camel !== field) candidates.push(camel)
+
+  for (const candidate of candidates) {
+    const value = getPath(event, candidate) ?? getPath(event.data, candidate)
+    if (value !== undefined && value !== null) return value
+  }
+  return undefined
+}
+
+/**
+ * Convert a value to a number for ordered comparisons
+ *
+ * ISO datetimes become Unix seconds. Returns null if not comparable.
+ */
+function toComparable(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'bigint') return Number(value)
+  if (typeof value !== 'string') return null
+
+  const trimmed = value.trim()
+  if (NUMERIC_PATTERN.test(trimmed)) return Number(trimmed)
+  if (ISO_DATE_PATTERN.test(trimmed)) {
+    const time = Date.parse(trimmed)
+    return Number.isNaN(time) ? null : Math.floor(time / 1000)
+  }
+  return null
+}
+
+/** Normalize a value for string comparisons */
+function toText(value: unknown): string {
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return text.startsWith('0x') || text.startsWith('0X') ? text.toLowerCase() : text
+}
+
+function isEqual(actual: unknown, expected: string): boolean {
+  const actualNumber = toComparable(actual)
+  const expectedNumber = toComparable(expected)
+  if (actualNumber !== null && expectedNumber !== null) {
+    return actualNumber === expectedNumber
+  }
+  return toText(actual) === toText(expected.trim())
+}
+
+/**
+ * Evaluate a single condition against an event
+ *
+ * @param condition - Condition to evaluate
+ * @param event - Blockchain event
+ * @param context - Watchlists referenced by `in` conditions
+ * @returns Evaluation result with the resolved value
+ *
+ * @example
+ * ```ts
+ * evaluateCondition({ field: 'reputation_score', operator: 'lt', value: '50' }, event)
+ * // => { matched: true, actual: 35, condition: {...} }
+ * ```
+ */
+export function evaluateCondition(
+  condition: EvaluableCondition,
+  event: BlockchainEvent,
+  context: ConditionEvaluationContext = {}
+): ConditionEvaluation {
+  const actual = resolveConditionField(event, condition.field)
+  const result = (matched: boolean, reason?: string): ConditionEvaluation => ({
+    condition,
+    matched,
+    actual,
+    ...(reason ? { reason } : {}),
+  })
+
+  if ((STATEFUL_CONDITION_FIELDS as readonly string[]).includes(condition.field)) {
+    // Counters and timings only exist on the backend; assume they hold
+    return result(true, 'Depends on trigger state (not evaluated)')
+  }
+
+  if (actual === undefined) {
+    // A missing field can never equal a value, so `ne` holds
+    return result(condition.operator === 'ne', 'Field not present on event')
+  }
+
+  const expected = condition.value
+  const equals = (value: string) =>
+    EVENT_TYPE_FIELDS.has(condition.field) && typeof actual === 'string'
+      ? normalizeEventType(actual) === normalizeEventType(value.trim())
+      : isEqual(actual, value)
+
+  switch (condition.operator) {
+    case 'eq':
+      return result(equals(expected))
+    case 'ne':
+      return result(!equals(expected))
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const left = toComparable(actual)
+      const right = toComparable(expected)
+      if (left === null || right === null) {
+        return result(false, 'Value is not numeric')
+      }
+      const matched =
+        condition.operator === 'gt'
+          ? left > right
+          : condition.operator === 'gte'
+            ? left >= right
+            : condition.operator === 'lt'
+              ? left < right
+              : left <= right
+      return result(matched)
+    }
+    case 'in': {
+      const watchlistId = parseWatchlistReference(expected)
+      if (watchlistId) {
+        const agents = context.watchlists?.[watchlistId]
+        if (!agents) return result(false, 'Watchlist not available')
+        const agentId = toComparable(actual)
+        return result(agentId !== null && isAgentInWatchlist(agents, agentId, event.chainId))
+      }
+      const options = expected
+        .split(',')
+        .map((option) => option.trim())
+        .filter(Boolean)
+      return result(options.some(equals))
+    }
+    case 'contains':
+      return result(toText(actual).includes(toText(expected)))
+    case 'startsWith':
+      return result(toText(actual).startsWith(toText(expected)))
+    case 'endsWith':
+      return result(toText(actual).endsWith(toText(expected)))
+    default:
+      return result(false, `Unsupported operator: ${String(condition.operator)}`)
+  }
+}
+
+/**
+ * Evaluate a condition or group against an event
+ *
+ * @param node - Condition or AND/OR/NOT group
+ * @param event - Blockchain event
+ * @param context - Watchlists referenced by `in` conditions
+ * @returns Evaluation result; groups include per-child results
+ *
+ * @example
+ * ```ts
+ * evaluateConditionNode(
+ *   { logic: 'or', conditions: [{ field: 'agent_id', operator: 'eq', value: '1' }, ...] },
+ *   event
+ * )
+ * ```
+ */
+export function evaluateConditionNode(
+  node: EvaluableConditionNode,
+  event: BlockchainEvent,
+  context: ConditionEvaluationContext = {}
+): ConditionEvaluation {
+  if (!isConditionGroup(node)) return evaluateCondition(node, event, context)
+
+  const children = node.conditions.map((child) => evaluateConditionNode(child, event, context))
+  const matched =
+    node.logic === 'and'
+      ? children.every((child) => child.matched)
+      : node.logic === 'or'
+        ? children.some((child) => child.matched)
+        : !children.some((child) => child.matched)
+
+  return { condition: node, matched, actual: undefined, children }
+}
+
+/**
+ * Evaluate all conditions against an event
+ *
+ * Top-level nodes are combined with AND logic. An empty condition list
+ * matches every event.
+ *
+ * @param conditions - Conditions or groups to evaluate
+ * @param event - Blockchain event
+ * @param context - Watchlists referenced by `in` conditions
+ * @returns Overall result with per-node details
+ */
+export function evaluateConditions(
+  conditions: EvaluableConditionNode[],
+  event: BlockchainEvent,
+  context: ConditionEvaluationContext = {}
+): EventEvaluation {
+  const results = conditions.map((condition) => evaluateConditionNode(condition, event, context))
+  const failedCount = results.filter((r) => !r.matched).length
+  return { event, matched: failedCount === 0, results, failedCount }
+}
+
+/**
+ * Dry-run conditions against historical events
+ *
+ * @param conditions - Conditions or groups to evaluate
+ * @param events - Events to replay (e.g. the most recent N for the trigger's chain)
+ * @param context - Watchlists referenced by `in` conditions
+ * @returns Matches, near-misses (exactly one failing top-level node), and per-node stats
+ *
+ * @example
+ * ```ts
+ * const { matches, nearMisses } = dryRunConditions(conditions, events)
+ * console.log(`${matches.length}/${events.length} would fire`)
+ * ```
+ */
+export function dryRunConditions(
+  conditions: EvaluableConditionNode[],
+  events: BlockchainEvent[],
+  context: ConditionEvaluationContext = {}
+): DryRunResult {
+  const evaluations = events.map((event) => evaluateConditions(conditions, event, context))
+
+  const stats = conditions.map((condition, index) => ({
+    condition,
+    matched: evaluations.filter((e) => e.results[index]?.matched).length,
+    blockedAlone: evaluations.filter((e) => e.failedCount === 1 && !e.results[index]?.matched)
+      .length,
+  }))
+
+  return {
+    total: events.length,
+    matches: evaluations.filter((e) => e.matched),
+    nearMisses: evaluations.filter((e) => e.failedCount === 1),
+    conditions: stats,
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Trigger condition tree helpers
+ *
+ * Trigger conditions are a list of nodes combined with AND, where each
+ * node is either a single condition or a group (`and`/`or`/`not`) of
+ * further nodes. A flat list of conditions is the simplest valid tree.
+ *
+ * Helpers are generic over the leaf type so they work with persisted
+ * conditions, wizard form values, and evaluator inputs alike.
+ *
+ * @module lib/condition-tree
+ *
+ * @example
+ * ```ts
+ * const conditions = [
+ *   { field: 'event_type', operator: 'eq', value: 'ReputationUpdated' },
+ *   {
+ *     logic: 'or',
+ *     conditions: [
+ *       { field: 'reputation_score', operator: 'lt', value: '50' },
+ *       { field: 'agent_id', operator: 'in', value: '1,2,3' },
+ *     ],
+ *   },
+ * ]
+ *
+ * formatConditionTree(conditions)
+ * // => 'event_type eq ReputationUpdated AND (reputation_score lt 50 OR agent_id in 1,2,3)'
+ * ```
+ */
+
+import type { ConditionGroupLogic } from './validations/trigger'
+
+/**
+ * Minimal group shape shared by all condition tree variants
+ */
+export interface ConditionGroupLike<TLeaf> {
+  logic: ConditionGroupLogic
+  conditions: Array<ConditionNodeLike<TLeaf>>
+}
+
+/** A condition tree node: a leaf condition or a group */
+export type ConditionNodeLike<TLeaf> = TLeaf | ConditionGroupLike<TLeaf>
+
+/** Display labels for group logic */
+export const CONDITION_GROUP_LOGIC_LABELS: Record<ConditionGroupLogic, string> = {
+  and: 'ALL OF (AND)',
+  or: 'ANY OF (OR)',
+  not: 'NONE OF (NOT)',
+}
+
+/**
+ * Check whether a node is a condition group
+ *
+ * @param node - Condition or group
+ * @returns True if the node is a group
+ */
+export function isConditionGroup<TLeaf>(
+  node: ConditionNodeLike<TLeaf>
+): node is ConditionGroupLike<TLeaf> {
+  return (
+    typeof node === 'object' &&
+    node !== null &&
+    'logic' in node &&
+    Array.isArray((node as { conditions?: unknown }).conditions)
+  )
+}
+
+/**
+ * Collect all leaf conditions of a tree in order
+ *
+ * @param nodes - Top-level nodes
+ * @returns Leaf conditions, depth-first
+ */
+export function flattenConditions<TLeaf>(nodes: Array<ConditionNodeLike<TLeaf>>): TLeaf[] {
+  return nodes.flatMap((node) =>
+    isConditionGroup(node) ? flattenConditions(node.conditions) : [node]
+  )
+}
+
+/**
+ * Count leaf conditions in a tree
+ *
+ * @param nodes - Top-level nodes (undefined counts as 0)
+ * @returns Number of leaf conditions
+ */
+export function countConditions<TLeaf>(nodes: Array<ConditionNodeLike<TLeaf>> | undefined): number {
+  return nodes ? flattenConditions(nodes).length : 0
+}
+
+/**
+ * Get the maximum group nesting depth of a tree
+ *
+ * @param nodes - Top-level nodes
+ * @returns 0 for a flat list, 1 if it contains groups, and so on
+ */
+export function getConditionDepth<TLeaf>(nodes: Array<ConditionNodeLike<TLeaf>>): number {
+  return nodes.reduce(
+    (depth, node) =>
+      isConditionGroup(node) ? Math.max(depth, 1 + getConditionDepth(node.conditions)) : depth,
+    0
+  )
+}
+
+/**
+ * Map every leaf of a tree, preserving group structure
+ *
+ * @param nodes - Top-level nodes
+ * @param mapLeaf - Leaf transform
+ * @param mapGroup - Optional transform applied to each rebuilt group
+ * @returns New tree with mapped leaves
+ *
+ * @example
+ * ```ts
+ * // Strip persisted fields before re-submitting
+ * mapConditionTree(trigger.conditions, ({ id, triggerId, createdAt, ...rest }) => rest)
+ * ```
+ */
+export function mapConditionTree<TLeaf, TResult>(
+  nodes: Array<ConditionNodeLike<TLeaf>>,
+  mapLeaf: (leaf: TLeaf) => TResult,
+  mapGroup: (group: ConditionGroupLike<TResult>) => ConditionGroupLike<TResult> = (group) => group
+): Array<ConditionNodeLike<TResult>> {
+  return nodes.map((node) =>
+    isConditionGroup(node)
+      ? mapGroup({
+          logic: node.logic,
+          conditions: mapConditionTree(node.conditions, mapLeaf, mapGroup),
+        })
+      : mapLeaf(node)
+  )
+}
+
+/**
+ * Format a single leaf condition
+ */
+function formatLeaf(leaf: unknown): string {
+  const { field, operator, value } = leaf as {
+    field?: unknown
+    operator?: unknown
+    value?: unknown
+  }
+  return `${String(field ?? '')} ${String(operator ?? '')} ${String(value ?? '')}`.trim()
+}
+
+/**
+ * Format one node as readable text
+ *
+ * Groups are parenthesized unless they are the outermost expression.
+ *
+ * @param node - Condition or group
+ * @param nested - Whether the node is inside another expression
+ * @returns Readable expression
+ */
+export function formatConditionNode<TLeaf>(node: ConditionNodeLike<TLeaf>, nested = false): string {
+  if (!isConditionGroup(node)) return formatLeaf(node)
+
+  const parts = node.conditions.map((child) => formatConditionNode(child, true))
+  if (node.logic === 'not') {
+    return `NOT (${parts.join(' OR ')})`
+  }
+  const expression = parts.join(node.logic === 'and' ? ' AND ' : ' OR ')
+  return nested && parts.length > 1 ? `(${expression})` : expression
+}
+
+/**
+ * Format a full condition tree as readable text
+ *
+ * @param nodes - Top-level nodes (combined with AND)
+ * @returns Readable expression
+ */
+export function formatConditionTree<TLeaf>(nodes: Array<ConditionNodeLike<TLeaf>>): string {
+  return nodes.map((node) => formatConditionNode(node, nodes.length > 1)).join(' AND ')
+}
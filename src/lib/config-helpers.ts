@@ -13,6 +13,7 @@
  */
 
 import { REGISTRIES, SUPPORTED_CHAINS, type Registry, type SupportedChainId } from './constants'
+import { type EventFieldType, getEventFields } from './event-schemas'
 
 /**
  * Get chain name from chain ID
@@ -176,13 +177,14 @@ export function getOperatorOptions(): Array<{ value: string; label: string }> {
 /**
  * Get action type display label
  *
- * @param actionType - Action type code (telegram, rest, mcp)
+ * @param actionType - Action type code (telegram, rest, mcp, email, slack, discord)
  * @returns Human-readable label
  *
  * @example
  * ```ts
  * getActionTypeLabel('telegram') // => 'Telegram Message'
  * getActionTypeLabel('rest')     // => 'REST API Call'
+ * getActionTypeLabel('slack')    // => 'Slack Message'
  * ```
  */
 export function getActionTypeLabel(actionType: string): string {
@@ -190,6 +192,9 @@ export function getActionTypeLabel(actionType: string): string {
     telegram: 'Telegram Message',
     rest: 'REST API Call',
     mcp: 'MCP Protocol',
+    email: 'Email',
+    slack: 'Slack Message',
+    discord: 'Discord Message',
   }
   return labels[actionType] ?? actionType.toUpperCase()
 }
@@ -204,6 +209,9 @@ export function getActionTypeOptions(): Array<{ value: string; label: string }>
     { value: 'telegram', label: 'Telegram Message' },
     { value: 'rest', label: 'REST API Call' },
     { value: 'mcp', label: 'MCP Protocol' },
+    { value: 'email', label: 'Email' },
+    { value: 'slack', label: 'Slack Message' },
+    { value: 'discord', label: 'Discord Message' },
   ]
 }
 
@@ -222,29 +230,45 @@ export function getConditionTypeOptions(): Array<{ value: string; label: string
   ]
 }
 
+/**
+ * Condition types mapped to the field types they can target
+ *
+ * Types not listed here (e.g. `field_comparison`) can use every field.
+ */
+const CONDITION_TYPE_FIELD_TYPES: Record<string, readonly EventFieldType[]> = {
+  event_filter: ['enum'],
+  agent_filter: ['address', 'numeric'],
+  reputation_threshold: ['numeric'],
+  time_condition: ['timestamp'],
+}
+
 /**
  * Get condition field options based on condition type
  *
- * Returns available fields for the given condition type.
- * Currently returns common fields for all types but can be
- * extended to return type-specific fields.
+ * Fields come from the event schema registry: the envelope fields every
+ * event has plus the payload fields of the selected event type (or of
+ * all event types when none is selected), filtered to the field types
+ * the condition type can target.
  *
- * @param _conditionType - The condition type (currently unused)
- * @returns Array of field options
+ * @param conditionType - The condition type (e.g. 'reputation_threshold')
+ * @param eventType - Optional event type to scope payload fields
+ * @returns Array of field options with their value type
+ *
+ * @example
+ * ```ts
+ * getConditionFieldOptions('reputation_threshold', 'ReputationUpdated')
+ * // => [{ value: 'agentId', ... }, { value: 'blockNumber', ... }, { value: 'score', label: 'Score', type: 'numeric' }]
+ * ```
  */
-export function getConditionFieldOptions(_conditionType: string): Array<{ value: string; label: string }> {
-  const commonFields = [
-    { value: 'eventType', label: 'Event Type' },
-    { value: 'agentId', label: 'Agent ID' },
-    { value: 'registry', label: 'Registry' },
-    { value: 'blockNumber', label: 'Block Number' },
-    { value: 'timestamp', label: 'Timestamp' },
-    { value: 'reputationScore', label: 'Reputation Score' },
-    { value: 'transactionHash', label: 'Transaction Hash' },
-  ]
+export function getConditionFieldOptions(
+  conditionType: string,
+  eventType?: string
+): Array<{ value: string; label: string; type: EventFieldType }> {
+  const allowedTypes = CONDITION_TYPE_FIELD_TYPES[conditionType]
 
-  // Could be extended to return different fields based on conditionType
-  return commonFields
+  return getEventFields(eventType)
+    .filter((field) => !allowedTypes || allowedTypes.includes(field.type))
+    .map((field) => ({ value: field.name, label: field.label, type: field.type }))
 }
 
 /**
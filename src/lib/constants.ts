@@ -86,60 +86,14 @@ export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number]
  * - `telegram`: Send message to Telegram bot
  * - `rest`: HTTP webhook call
  * - `mcp`: Model Context Protocol action
+ * - `email`: Send an email
+ * - `slack`: Post to a Slack incoming webhook
+ * - `discord`: Post to a Discord webhook
  */
-export const ACTION_TYPES = ['telegram', 'rest', 'mcp'] as const
+export const ACTION_TYPES = ['telegram', 'rest', 'mcp', 'email', 'slack', 'discord'] as const
 /** Type for action types */
 export type ActionType = (typeof ACTION_TYPES)[number]
 
-/**
- * Blockchain event types supported by the backend
- *
- * These events are indexed by Ponder and can trigger automations:
- * - `AgentRegistered`: New agent registered on-chain
- * - `AgentUpdated`: Agent metadata updated
- * - `ReputationUpdated`: Agent reputation score changed
- * - `ValidationCompleted`: Agent validation finished
- */
-export const EVENT_TYPES = {
-  AGENT_REGISTERED: 'AgentRegistered',
-  AGENT_UPDATED: 'AgentUpdated',
-  REPUTATION_UPDATED: 'ReputationUpdated',
-  VALIDATION_COMPLETED: 'ValidationCompleted',
-} as const
-
-export type EventType = (typeof EVENT_TYPES)[keyof typeof EVENT_TYPES]
-
-export const EVENT_TYPE_LIST = Object.values(EVENT_TYPES)
-
-/**
- * Event type metadata with registry mapping and descriptions
- */
-export const EVENT_TYPE_INFO: Record<
-  EventType,
-  { registry: Registry; description: string; icon: string }
-> = {
-  AgentRegistered: {
-    registry: 'identity',
-    description: 'New agent registered on-chain',
-    icon: 'agents',
-  },
-  AgentUpdated: {
-    registry: 'identity',
-    description: 'Agent metadata updated',
-    icon: 'edit',
-  },
-  ReputationUpdated: {
-    registry: 'reputation',
-    description: 'Agent reputation score changed',
-    icon: 'star',
-  },
-  ValidationCompleted: {
-    registry: 'validation',
-    description: 'Agent validation finished',
-    icon: 'check',
-  },
-}
-
 /**
  * Chains currently supported by the backend (testnet only)
  */
@@ -166,6 +120,26 @@ export const CHAIN_NAMES: Record<number, string> = {
 export const QUERY_TIERS = ['basic', 'standard', 'advanced', 'full'] as const
 export type QueryTier = (typeof QUERY_TIERS)[number]
 
+/**
+ * API key scopes
+ *
+ * Permissions granted to an API key, as `resource:access`:
+ * - `events:read`: Read indexed blockchain events
+ * - `agents:read` / `agents:write`: Read or link/unlink agents
+ * - `triggers:read` / `triggers:write`: Read or manage triggers
+ * - `reputation:query`: Run reputation queries (limited by the key's tier)
+ */
+export const API_KEY_SCOPES = [
+  'events:read',
+  'agents:read',
+  'agents:write',
+  'triggers:read',
+  'triggers:write',
+  'reputation:query',
+] as const
+/** Type for API key scopes */
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number]
+
 /**
  * Pagination defaults
  */
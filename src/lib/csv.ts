@@ -0,0 +1,42 @@
+/**
+ * CSV export
+ *
+ * Builds RFC 4180 CSV text for downloads: fields containing commas,
+ * quotes or line breaks are quoted, and text that a spreadsheet would
+ * run as a formula (`=`, `+`, `-`, `@`) is prefixed with `'`.
+ *
+ * @module lib/csv
+ *
+ * @example
+ * ```ts
+ * toCsv([
+ *   ['name', 'requests'],
+ *   ['Production, EU', 1520],
+ * ])
+ * // => 'name,requests\r\n"Production, EU",1520\r\n'
+ * ```
+ */
+
+/** Value of a single CSV field; null and undefined become empty fields */
+export type CsvValue = string | number | boolean | null | undefined
+
+/** Leading characters spreadsheets treat as the start of a formula */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeField(value: CsvValue): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value !== 'string') return String(value)
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Convert rows to CSV text
+ *
+ * @param rows - Rows of fields, the header row first
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(rows: readonly (readonly CsvValue[])[]): string {
+  return rows.map((row) => `${row.map(escapeField).join(',')}\r\n`).join('')
+}
@@ -0,0 +1,310 @@
+/**
+ * Event type catalog
+ *
+ * Single source of truth for the blockchain event types indexed from the
+ * ERC-8004 registries. Each entry carries the registry it comes from,
+ * display metadata (label, description, icon, tone), its payload schema
+ * (fields found in `BlockchainEvent.data`), and deprecated names the
+ * backend may still emit.
+ *
+ * Event types not in the catalog are passed through unchanged so new
+ * backend events render with a neutral fallback instead of failing
+ * validation.
+ *
+ * @module lib/event-catalog
+ *
+ * @example
+ * ```ts
+ * normalizeEventType('ReputationChanged') // => 'ReputationUpdated'
+ * getEventTypeInfo('AgentRegistered')?.registry // => 'identity'
+ * getEventTypeInfo('SomethingNew') // => undefined
+ * ```
+ */
+
+import type { Registry } from './constants'
+import type { EventFieldDefinition } from './event-schemas'
+
+/** Icon shown for an event type (subset of the Icon atom names) */
+export type EventTypeIcon = 'add' | 'edit' | 'close' | 'star' | 'check' | 'send'
+
+/** Badge color tone for an event type */
+export type EventTypeTone = 'success' | 'info' | 'danger' | 'warning' | 'accent' | 'caution'
+
+/**
+ * Catalog entry for one event type
+ */
+export interface EventTypeDefinition {
+  /** Registry that emits the event */
+  registry: Registry
+  /** Short uppercase label for badges */
+  label: string
+  /** Human-readable description */
+  description: string
+  /** Icon name */
+  icon: EventTypeIcon
+  /** Badge color tone */
+  tone: EventTypeTone
+  /** Payload fields in `BlockchainEvent.data` */
+  fields: readonly EventFieldDefinition[]
+  /** Deprecated names that map to this event type */
+  aliases?: readonly string[]
+}
+
+/**
+ * All known event types
+ */
+export const EVENT_CATALOG = {
+  AgentRegistered: {
+    registry: 'identity',
+    label: 'REGISTERED',
+    description: 'New agent registered on-chain',
+    icon: 'add',
+    tone: 'success',
+    fields: [
+      {
+        name: 'owner',
+        label: 'Owner',
+        type: 'address',
+        description: 'Address that registered the agent',
+        aliases: ['agent_address'],
+      },
+    ],
+  },
+  AgentUpdated: {
+    registry: 'identity',
+    label: 'UPDATED',
+    description: 'Agent metadata updated',
+    icon: 'edit',
+    tone: 'info',
+    fields: [
+      {
+        name: 'owner',
+        label: 'Owner',
+        type: 'address',
+        description: 'Current agent owner',
+        aliases: ['agent_address'],
+      },
+      {
+        name: 'updatedBy',
+        label: 'Updated By',
+        type: 'address',
+        description: 'Address that submitted the update',
+      },
+    ],
+  },
+  AgentDeregistered: {
+    registry: 'identity',
+    label: 'DEREGISTERED',
+    description: 'Agent removed from the identity registry',
+    icon: 'close',
+    tone: 'danger',
+    fields: [
+      {
+        name: 'owner',
+        label: 'Owner',
+        type: 'address',
+        description: 'Last agent owner',
+        aliases: ['agent_address'],
+      },
+    ],
+  },
+  ReputationUpdated: {
+    registry: 'reputation',
+    label: 'REPUTATION',
+    description: 'Agent reputation score changed',
+    icon: 'star',
+    tone: 'warning',
+    aliases: ['ReputationChanged'],
+    fields: [
+      {
+        name: 'score',
+        label: 'Score',
+        type: 'numeric',
+        description: 'New reputation score (0-100)',
+        aliases: ['reputation_score', 'reputationScore'],
+      },
+      {
+        name: 'clientAddress',
+        label: 'Client Address',
+        type: 'address',
+        description: 'Address that submitted the feedback',
+      },
+      { name: 'tag1', label: 'Tag 1', type: 'bytes32' },
+      { name: 'tag2', label: 'Tag 2', type: 'bytes32' },
+      { name: 'feedbackHash', label: 'Feedback Hash', type: 'bytes32' },
+    ],
+  },
+  NewFeedback: {
+    registry: 'reputation',
+    label: 'FEEDBACK',
+    description: 'Client feedback submitted for an agent',
+    icon: 'star',
+    tone: 'info',
+    aliases: ['FeedbackGiven'],
+    fields: [
+      {
+        name: 'score',
+        label: 'Score',
+        type: 'numeric',
+        description: 'Feedback score (0-100)',
+      },
+      {
+        name: 'clientAddress',
+        label: 'Client Address',
+        type: 'address',
+        description: 'Address that submitted the feedback',
+        aliases: ['client_address'],
+      },
+      { name: 'tag1', label: 'Tag 1', type: 'bytes32' },
+      { name: 'tag2', label: 'Tag 2', type: 'bytes32' },
+      { name: 'filehash', label: 'File Hash', type: 'bytes32', aliases: ['file_hash', 'fileHash'] },
+    ],
+  },
+  ValidationRequest: {
+    registry: 'validation',
+    label: 'VALIDATION REQ',
+    description: 'Validation of an agent requested from a validator',
+    icon: 'send',
+    tone: 'caution',
+    aliases: ['ValidationRequested'],
+    fields: [
+      {
+        name: 'validatorAddress',
+        label: 'Validator Address',
+        type: 'address',
+        description: 'Validator asked to respond',
+        aliases: ['validator_address'],
+      },
+      {
+        name: 'requestHash',
+        label: 'Request Hash',
+        type: 'bytes32',
+        aliases: ['request_hash'],
+      },
+    ],
+  },
+  ValidationCompleted: {
+    registry: 'validation',
+    label: 'VALIDATED',
+    description: 'Agent validation finished',
+    icon: 'check',
+    tone: 'success',
+    fields: [
+      {
+        name: 'response',
+        label: 'Response',
+        type: 'numeric',
+        description: 'Validation response score (0-100)',
+      },
+      {
+        name: 'validatorAddress',
+        label: 'Validator Address',
+        type: 'address',
+        description: 'Validator that responded',
+      },
+      { name: 'requestHash', label: 'Request Hash', type: 'bytes32' },
+      { name: 'tag', label: 'Tag', type: 'bytes32' },
+    ],
+  },
+  Transfer: {
+    registry: 'identity',
+    label: 'TRANSFER',
+    description: 'Agent NFT transferred to a new owner',
+    icon: 'send',
+    tone: 'accent',
+    fields: [
+      { name: 'from', label: 'From', type: 'address', description: 'Previous owner' },
+      {
+        name: 'to',
+        label: 'To',
+        type: 'address',
+        description: 'New owner',
+        aliases: ['agent_address'],
+      },
+      { name: 'tokenId', label: 'Token ID', type: 'numeric' },
+    ],
+  },
+  Mint: {
+    registry: 'identity',
+    label: 'MINT',
+    description: 'Agent NFT minted',
+    icon: 'add',
+    tone: 'success',
+    fields: [
+      {
+        name: 'to',
+        label: 'To',
+        type: 'address',
+        description: 'Recipient',
+        aliases: ['agent_address'],
+      },
+      { name: 'tokenId', label: 'Token ID', type: 'numeric' },
+    ],
+  },
+  Burn: {
+    registry: 'identity',
+    label: 'BURN',
+    description: 'Agent NFT burned',
+    icon: 'close',
+    tone: 'caution',
+    fields: [
+      { name: 'from', label: 'From', type: 'address', description: 'Last owner' },
+      { name: 'tokenId', label: 'Token ID', type: 'numeric' },
+    ],
+  },
+} as const satisfies Record<string, EventTypeDefinition>
+
+/** Known event type name */
+export type EventType = keyof typeof EVENT_CATALOG
+
+/** All known event types in catalog order */
+export const EVENT_TYPE_LIST = Object.keys(EVENT_CATALOG) as EventType[]
+
+/** Deprecated event type names mapped to their current name */
+const EVENT_TYPE_ALIASES: Record<string, EventType> = Object.fromEntries(
+  EVENT_TYPE_LIST.flatMap((type) => {
+    const definition: EventTypeDefinition = EVENT_CATALOG[type]
+    return (definition.aliases ?? []).map((alias) => [alias, type])
+  })
+)
+
+/**
+ * Check whether a value is a known (current) event type
+ *
+ * @param value - Event type name
+ * @returns True for catalog event types (aliases return false)
+ */
+export function isKnownEventType(value: string): value is EventType {
+  return Object.hasOwn(EVENT_CATALOG, value)
+}
+
+/**
+ * Map deprecated event type names to their current name
+ *
+ * @param value - Event type name from the backend or user input
+ * @returns Current name for aliases; other values unchanged
+ */
+export function normalizeEventType(value: string): string {
+  return EVENT_TYPE_ALIASES[value] ?? value
+}
+
+/**
+ * Get catalog metadata for an event type
+ *
+ * @param value - Event type name (aliases are resolved)
+ * @returns Catalog entry, or undefined for unknown event types
+ */
+export function getEventTypeInfo(value: string): EventTypeDefinition | undefined {
+  const type = normalizeEventType(value)
+  return isKnownEventType(type) ? EVENT_CATALOG[type] : undefined
+}
+
+/**
+ * Get event types emitted by a registry
+ *
+ * @param registry - Registry to filter by
+ * @returns Event types in catalog order
+ */
+export function getEventTypesForRegistry(registry: Registry): EventType[] {
+  return EVENT_TYPE_LIST.filter((type) => EVENT_CATALOG[type].registry === registry)
+}
@@ -0,0 +1,293 @@
+/**
+ * Event schema registry
+ *
+ * Describes the typed fields available to trigger conditions for each
+ * event type: the envelope fields every `BlockchainEvent` carries, plus
+ * the event-specific payload fields found in `BlockchainEvent.data`
+ * (defined per event type in `lib/event-catalog`).
+ *
+ * Field types drive which operators and inputs the condition builder
+ * offers, and how condition values are validated:
+ * - `numeric`: integer or decimal
+ * - `address`: 20-byte hex address (mixed case must be a valid checksum)
+ * - `bytes32`: 32-byte hex value (hashes, tags)
+ * - `timestamp`: Unix seconds (ISO 8601 date-times of older triggers are
+ *   also accepted; see `normalizeConditionValue`)
+ * - `enum`: one of a fixed set of options
+ *
+ * @module lib/event-schemas
+ *
+ * @example
+ * ```ts
+ * const field = findEventField('score', 'ReputationUpdated')
+ * // => { name: 'score', label: 'Score', type: 'numeric', ... }
+ *
+ * validateConditionValue(field, 'gt', 'abc')
+ * // => 'Value must be a number'
+ * ```
+ */
+
+import { isAddress } from 'viem'
+import { REGISTRIES, SUPPORTED_CHAINS } from './constants'
+import { EVENT_CATALOG, EVENT_TYPE_LIST, getEventTypeInfo } from './event-catalog'
+import type { TriggerCondition } from './validations/trigger'
+import { parseWatchlistReference, supportsWatchlistReference } from './watchlists'
+
+/** Supported event field types */
+export const EVENT_FIELD_TYPES = ['numeric', 'address', 'bytes32', 'timestamp', 'enum'] as const
+
+export type EventFieldType = (typeof EVENT_FIELD_TYPES)[number]
+
+type ConditionOperator = TriggerCondition['operator']
+
+/**
+ * Typed event field available to conditions
+ */
+export interface EventFieldDefinition {
+  /** Condition field name */
+  name: string
+  /** Display label */
+  label: string
+  /** Value type */
+  type: EventFieldType
+  /** Short help text */
+  description?: string
+  /** Alternative field names accepted for this field (e.g. builder snake_case names) */
+  aliases?: readonly string[]
+  /** Allowed values for `enum` fields */
+  options?: readonly string[]
+}
+
+/**
+ * Fields present on every event
+ */
+export const EVENT_ENVELOPE_FIELDS: readonly EventFieldDefinition[] = [
+  {
+    name: 'eventType',
+    label: 'Event Type',
+    type: 'enum',
+    aliases: ['event_type'],
+    options: EVENT_TYPE_LIST,
+  },
+  { name: 'agentId', label: 'Agent ID', type: 'numeric', aliases: ['agent_id'] },
+  {
+    name: 'chainId',
+    label: 'Chain ID',
+    type: 'enum',
+    aliases: ['chain_id'],
+    options: Object.values(SUPPORTED_CHAINS).map(String),
+  },
+  { name: 'registry', label: 'Registry', type: 'enum', options: REGISTRIES },
+  { name: 'blockNumber', label: 'Block Number', type: 'numeric', aliases: ['block_number'] },
+  {
+    name: 'timestamp',
+    label: 'Timestamp',
+    type: 'timestamp',
+    aliases: ['event_timestamp'],
+  },
+  {
+    name: 'transactionHash',
+    label: 'Transaction Hash',
+    type: 'bytes32',
+    aliases: ['transaction_hash'],
+  },
+]
+
+/**
+ * Operators valid for each field type
+ */
+export const FIELD_TYPE_OPERATORS: Record<EventFieldType, readonly ConditionOperator[]> = {
+  numeric: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in'],
+  timestamp: ['gt', 'gte', 'lt', 'lte', 'eq'],
+  address: ['eq', 'ne', 'in'],
+  bytes32: ['eq', 'ne', 'in'],
+  enum: ['eq', 'ne', 'in'],
+}
+
+const NUMERIC_PATTERN = /^-?\d+(\.\d+)?$/
+const UNIX_SECONDS_PATTERN = /^\d+$/
+const ISO_DATETIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/
+const BYTES32_PATTERN = /^0x[a-fA-F0-9]{64}$/
+
+/**
+ * Get the fields available for an event type
+ *
+ * @param eventType - Event type; when omitted or unknown, payload fields of all events are included
+ * @returns Envelope fields followed by payload fields (deduplicated by name)
+ */
+export function getEventFields(eventType?: string): EventFieldDefinition[] {
+  const payload =
+    (eventType ? getEventTypeInfo(eventType)?.fields : undefined) ??
+    EVENT_TYPE_LIST.flatMap((type): readonly EventFieldDefinition[] => EVENT_CATALOG[type].fields)
+
+  const fields = new Map<string, EventFieldDefinition>()
+  for (const field of [...EVENT_ENVELOPE_FIELDS, ...payload]) {
+    if (!fields.has(field.name)) fields.set(field.name, field)
+  }
+  return [...fields.values()]
+}
+
+/**
+ * Look up a condition field by name or alias
+ *
+ * @param field - Condition field name
+ * @param eventType - Optional event type to scope the lookup
+ * @returns Field definition, or undefined for unknown (free-form) fields
+ *
+ * @example
+ * ```ts
+ * findEventField('reputation_score')?.type // => 'numeric'
+ * findEventField('metadata_name')          // => undefined
+ * ```
+ */
+export function findEventField(
+  field: string,
+  eventType?: string
+): EventFieldDefinition | undefined {
+  return getEventFields(eventType).find(
+    (definition) => definition.name === field || definition.aliases?.includes(field)
+  )
+}
+
+/**
+ * Get the operators valid for a field
+ *
+ * @param field - Field definition (undefined allows every operator)
+ * @returns Allowed operators
+ */
+export function getFieldOperators(
+  field: EventFieldDefinition | undefined
+): readonly ConditionOperator[] {
+  return field
+    ? FIELD_TYPE_OPERATORS[field.type]
+    : ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'startsWith', 'endsWith']
+}
+
+/**
+ * Convert an ISO 8601 date-time to Unix seconds
+ *
+ * @returns Unix seconds as string, or empty string if not an ISO date-time
+ */
+function isoToUnix(value: string): string {
+  if (!ISO_DATETIME_PATTERN.test(value)) return ''
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? '' : String(Math.floor(time / 1000))
+}
+
+function validateSingleValue(field: EventFieldDefinition, value: string): string | null {
+  switch (field.type) {
+    case 'numeric':
+      return NUMERIC_PATTERN.test(value) ? null : 'Value must be a number'
+    case 'timestamp':
+      return UNIX_SECONDS_PATTERN.test(value) || isoToUnix(value)
+        ? null
+        : 'Value must be a Unix timestamp in seconds or an ISO 8601 date-time'
+    case 'address':
+      if (!/^0x[a-fA-F0-9]{40}$/.test(value)) return 'Invalid Ethereum address format'
+      return isAddress(value) ? null : 'Invalid address checksum'
+    case 'bytes32':
+      return BYTES32_PATTERN.test(value) ? null : 'Value must be a 32-byte hex string'
+    case 'enum':
+      return field.options?.includes(value)
+        ? null
+        : `Value must be one of: ${field.options?.join(', ') ?? ''}`
+  }
+}
+
+/**
+ * Validate a condition value against a field's type
+ *
+ * `in` values are split on commas and each entry is validated. Agent ID
+ * fields also accept a watchlist reference (`watchlist:<id>`).
+ *
+ * @param field - Field definition
+ * @param operator - Condition operator
+ * @param value - Raw condition value
+ * @returns Error message, or null if valid
+ *
+ * @example
+ * ```ts
+ * validateConditionValue(scoreField, 'gte', '80')        // => null
+ * validateConditionValue(scoreField, 'contains', '8')    // => 'Operator "contains" is not supported for numeric fields'
+ * validateConditionValue(ownerField, 'in', '0x12, 0x34') // => 'Invalid Ethereum address format'
+ * ```
+ */
+export function validateConditionValue(
+  field: EventFieldDefinition,
+  operator: ConditionOperator,
+  value: string
+): string | null {
+  if (!FIELD_TYPE_OPERATORS[field.type].includes(operator)) {
+    return `Operator "${operator}" is not supported for ${field.type} fields`
+  }
+
+  const trimmed = value.trim()
+  if (!trimmed) return 'Value is required'
+
+  if (parseWatchlistReference(trimmed)) {
+    if (operator !== 'in') return 'Watchlists can only be used with the "in" operator'
+    return supportsWatchlistReference(field.name) ? null : 'Watchlists only hold agent IDs'
+  }
+
+  const values =
+    operator === 'in'
+      ? trimmed
+          .split(',')
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+      : [trimmed]
+
+  for (const entry of values) {
+    const error = validateSingleValue(field, entry)
+    if (error) return error
+  }
+  return null
+}
+
+/**
+ * Normalize a stored condition value for editing
+ *
+ * Timestamp values saved as ISO 8601 date-times (before timestamps were
+ * typed) are converted to Unix seconds; other values are returned as-is.
+ *
+ * @param field - Condition field name
+ * @param value - Stored condition value
+ * @returns Value in the field's current format
+ *
+ * @example
+ * ```ts
+ * normalizeConditionValue('timestamp', '2024-01-01T00:00:00Z') // => '1704067200'
+ * normalizeConditionValue('score', '80')                       // => '80'
+ * ```
+ */
+export function normalizeConditionValue(field: string, value: string): string {
+  if (findEventField(field)?.type !== 'timestamp') return value
+  return value
+    .split(',')
+    .map((entry) => isoToUnix(entry.trim()) || entry)
+    .join(',')
+}
+
+/**
+ * Convert Unix seconds to a `datetime-local` input value (local time)
+ *
+ * @param seconds - Unix timestamp in seconds (as string)
+ * @returns `YYYY-MM-DDTHH:mm` string, or empty string if invalid
+ */
+export function unixToDateTimeInput(seconds: string): string {
+  if (!UNIX_SECONDS_PATTERN.test(seconds)) return ''
+  const date = new Date(Number(seconds) * 1000)
+  const offset = date.getTimezoneOffset() * 60_000
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16)
+}
+
+/**
+ * Convert a `datetime-local` input value (local time) to Unix seconds
+ *
+ * @param value - `YYYY-MM-DDTHH:mm` string
+ * @returns Unix seconds as string, or empty string if invalid
+ */
+export function dateTimeInputToUnix(value: string): string {
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? '' : String(Math.floor(time / 1000))
+}
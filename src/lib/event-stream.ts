@@ -0,0 +1,380 @@
+/**
+ * Real-time blockchain event stream client
+ *
+ * Subscribes to newly indexed events over Server-Sent Events. Uses `fetch`
+ * with a streamed body instead of `EventSource` so the request can carry
+ * the `X-Organization-ID` header and httpOnly auth cookies.
+ *
+ * Features:
+ * - Incremental SSE parsing (`id`, `event`, `data`, `retry` fields)
+ * - Automatic reconnect with exponential backoff and jitter; the backoff
+ *   resets once a connection delivers a message
+ * - One access token refresh when the server answers 401
+ * - Resume from the last received event via `Last-Event-ID`
+ * - Zod validation of every streamed event
+ *
+ * @module lib/event-stream
+ *
+ * @example
+ * ```ts
+ * const stream = createEventStream({
+ *   organizationId: 'org-uuid',
+ *   onEvent: (event) => console.log(event.eventType),
+ *   onStatusChange: (status) => console.log(status),
+ * })
+ *
+ * // Later
+ * stream.close()
+ * ```
+ */
+
+import { ApiError, attemptTokenRefresh, buildUrl } from './api-client'
+import { normalizeError, type AppError } from './error-handler'
+import { type BlockchainEvent, blockchainEventSchema, type EventFilters } from './validations/event'
+
+/** Endpoint serving the SSE event feed */
+export const EVENT_STREAM_ENDPOINT = '/events/stream'
+
+/**
+ * Connection lifecycle states
+ *
+ * - `connecting`: First connection attempt in progress
+ * - `open`: Stream established and receiving events
+ * - `reconnecting`: Waiting to retry after a dropped connection
+ * - `closed`: Stopped by the caller or by a non-retryable error
+ */
+export type EventStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed'
+
+/**
+ * A single parsed Server-Sent Events message
+ */
+export interface SseMessage {
+  /** Message ID (used for `Last-Event-ID` on reconnect) */
+  id?: string
+  /** Event name (defaults to `message`) */
+  event: string
+  /** Concatenated data lines */
+  data: string
+  /** Server-requested reconnect delay in ms */
+  retry?: number
+}
+
+/**
+ * Options for creating an event stream
+ */
+export interface EventStreamOptions {
+  /** Organization UUID (sent as header) */
+  organizationId: string
+  /** Optional server-side filters */
+  filters?: EventFilters
+  /** Called for every valid streamed event */
+  onEvent: (event: BlockchainEvent) => void
+  /** Called whenever the connection status changes */
+  onStatusChange?: (status: EventStreamStatus) => void
+  /** Called on connection errors (retryable or not) */
+  onError?: (error: AppError) => void
+  /** Initial reconnect delay in ms (default: 1000) */
+  initialDelay?: number
+  /** Maximum reconnect delay in ms (default: 30000) */
+  maxDelay?: number
+  /** Maximum consecutive reconnect attempts (default: unlimited) */
+  maxRetries?: number
+}
+
+/**
+ * Handle returned by `createEventStream`
+ */
+export interface EventStreamConnection {
+  /** Stop the stream and cancel any pending reconnect */
+  close: () => void
+  /** Current connection status */
+  readonly status: EventStreamStatus
+}
+
+/**
+ * Incremental SSE parser
+ *
+ * Feed it decoded text chunks as they arrive; it returns every message
+ * completed by the chunk and buffers any trailing partial message.
+ *
+ * @example
+ * ```ts
+ * const parser = new SseParser()
+ * parser.push('data: {"a":1}\n') // => []
+ * parser.push('\n')              // => [{ event: 'message', data: '{"a":1}' }]
+ * ```
+ */
+export class SseParser {
+  private buffer = ''
+  private current: { id?: string; event?: string; data: string[]; retry?: number } = { data: [] }
+
+  push(chunk: string): SseMessage[] {
+    this.buffer += chunk
+    const messages: SseMessage[] = []
+    const lines = this.buffer.split(/\r\n|\r|\n/)
+    // Last element is an incomplete line (or empty string after a newline)
+    this.buffer = lines.pop() ?? ''
+
+    for (const line of lines) {
+      if (line === '') {
+        if (this.current.data.length > 0) {
+          messages.push({
+            id: this.current.id,
+            event: this.current.event ?? 'message',
+            data: this.current.data.join('\n'),
+            retry: this.current.retry,
+          })
+        }
+        this.current = { data: [] }
+        continue
+      }
+
+      // Comment lines (used for keep-alive pings)
+      if (line.startsWith(':')) continue
+
+      const separator = line.indexOf(':')
+      const field = separator === -1 ? line : line.slice(0, separator)
+      let value = separator === -1 ? '' : line.slice(separator + 1)
+      if (value.startsWith(' ')) value = value.slice(1)
+
+      switch (field) {
+        case 'id':
+          this.current.id = value
+          break
+        case 'event':
+          this.current.event = value
+          break
+        case 'data':
+          this.current.data.push(value)
+          break
+        case 'retry': {
+          const retry = Number.parseInt(value, 10)
+          if (!Number.isNaN(retry)) this.current.retry = retry
+          break
+        }
+      }
+    }
+
+    return messages
+  }
+}
+
+/**
+ * Compute the reconnect delay for an attempt
+ *
+ * Exponential backoff capped at `maxDelay`, plus up to 30% jitter
+ * to avoid every client reconnecting at the same instant.
+ *
+ * @param attempt - Zero-based reconnect attempt
+ * @param initialDelay - Delay for the first attempt in ms
+ * @param maxDelay - Maximum delay in ms (before jitter)
+ * @returns Delay in ms
+ *
+ * @example
+ * ```ts
+ * getReconnectDelay(0, 1000, 30000) // ~1000-1300
+ * getReconnectDelay(3, 1000, 30000) // ~8000-10400
+ * ```
+ */
+export function getReconnectDelay(attempt: number, initialDelay: number, maxDelay: number): number {
+  const delay = Math.min(initialDelay * 2 ** attempt, maxDelay)
+  const jitter = Math.random() * 0.3 * delay
+  return delay + jitter
+}
+
+/**
+ * Open a real-time event stream
+ *
+ * Connects immediately and keeps reconnecting with backoff until
+ * `close()` is called, `maxRetries` is exhausted, or the server
+ * rejects the request with a 4xx error other than 429 (e.g. 401/403).
+ * A 401 first refreshes the access token and reconnects once.
+ *
+ * @param options - Stream configuration and callbacks
+ * @returns Connection handle
+ */
+export function createEventStream(options: EventStreamOptions): EventStreamConnection {
+  const {
+    organizationId,
+    filters,
+    onEvent,
+    onStatusChange,
+    onError,
+    initialDelay = 1000,
+    maxDelay = 30000,
+    maxRetries = Number.POSITIVE_INFINITY,
+  } = options
+
+  let status: EventStreamStatus = 'connecting'
+  let attempt = 0
+  let refreshedToken = false
+  let lastEventId: string | undefined
+  let serverRetryDelay: number | undefined
+  let controller: AbortController | null = null
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  let closed = false
+
+  const setStatus = (next: EventStreamStatus) => {
+    if (status === next) return
+    status = next
+    onStatusChange?.(next)
+  }
+
+  const handleMessage = (message: SseMessage) => {
+    if (message.id) lastEventId = message.id
+    if (message.retry !== undefined) serverRetryDelay = message.retry
+    if (message.event !== 'message' && message.event !== 'event') return
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(message.data)
+    } catch {
+      console.warn('[EventStream] Ignoring non-JSON message')
+      return
+    }
+
+    const parsed = blockchainEventSchema.safeParse(payload)
+    if (!parsed.success) {
+      console.warn('[EventStream] Ignoring invalid event payload:', parsed.error.issues[0]?.message)
+      return
+    }
+    onEvent(parsed.data)
+  }
+
+  const scheduleReconnect = () => {
+    if (closed) return
+    if (attempt >= maxRetries) {
+      closed = true
+      setStatus('closed')
+      return
+    }
+    setStatus('reconnecting')
+    const delay = serverRetryDelay ?? getReconnectDelay(attempt, initialDelay, maxDelay)
+    attempt++
+    reconnectTimer = setTimeout(connect, delay)
+  }
+
+  async function connect() {
+    reconnectTimer = null
+    if (closed) return
+
+    controller = new AbortController()
+    const headers = new Headers({
+      Accept: 'text/event-stream',
+      'X-Organization-ID': organizationId,
+    })
+    if (lastEventId) headers.set('Last-Event-ID', lastEventId)
+
+    try {
+      const response = await fetch(buildUrl(EVENT_STREAM_ENDPOINT, filters), {
+        headers,
+        credentials: 'include',
+        signal: controller.signal,
+      })
+
+      if (!response.ok || !response.body) {
+        throw new ApiError(response.status, `Event stream failed with status ${response.status}`)
+      }
+
+      setStatus('open')
+
+      reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      const parser = new SseParser()
+
+      while (true) {
+        const { done, value } = await reader.read()
+        // Not every transport honors the abort signal for an open body
+        if (done || closed) break
+        const messages = parser.push(decoder.decode(value, { stream: true }))
+        if (messages.length > 0) {
+          // Only a stream that delivers something counts as recovered; one
+          // that opens and closes right away keeps backing off
+          attempt = 0
+          refreshedToken = false
+        }
+        for (const message of messages) {
+          handleMessage(message)
+        }
+      }
+
+      // Server closed the stream - reconnect
+      scheduleReconnect()
+    } catch (error) {
+      if (closed) return
+
+      const appError = normalizeError(error)
+
+      // An expired access token is refreshed once, as api-client does
+      if (appError.status === 401 && !refreshedToken) {
+        refreshedToken = true
+        if (await attemptTokenRefresh()) return connect()
+      }
+      onError?.(appError)
+
+      // Dropped connections are always retried; only auth/validation rejections stop the stream
+      if (appError.isClientError && appError.status !== 429) {
+        closed = true
+        setStatus('closed')
+        return
+      }
+      scheduleReconnect()
+    }
+  }
+
+  onStatusChange?.(status)
+  void connect()
+
+  return {
+    close() {
+      if (closed && status === 'closed') return
+      closed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      controller?.abort()
+      reader?.cancel().catch(() => {})
+      setStatus('closed')
+    },
+    get status() {
+      return status
+    },
+  }
+}
+
+/**
+ * Check whether an event satisfies a set of list filters
+ *
+ * Used to decide which cached event lists a streamed event belongs to.
+ * `watchlistId` is not checked: watchlist membership isn't part of the
+ * event (see `mergeEventIntoCache`).
+ *
+ * @param event - Streamed event
+ * @param filters - Filters of a cached list query
+ * @returns True if the event would be returned by that query
+ */
+export function matchesEventFilters(
+  event: BlockchainEvent,
+  filters: Partial<EventFilters> & Record<string, unknown>
+): boolean {
+  if (filters.chainId !== undefined && Number(filters.chainId) !== event.chainId) return false
+  if (filters.registry !== undefined && filters.registry !== event.registry) return false
+  if (filters.eventType !== undefined && filters.eventType !== event.eventType) return false
+  if (filters.agentId !== undefined && Number(filters.agentId) !== event.agentId) return false
+  if (
+    filters.transactionHash !== undefined &&
+    filters.transactionHash.toLowerCase() !== event.transactionHash.toLowerCase()
+  ) {
+    return false
+  }
+  const timestamp = new Date(event.timestamp).getTime()
+  if (filters.fromDate !== undefined && timestamp < new Date(filters.fromDate).getTime()) return false
+  if (filters.toDate !== undefined && timestamp > new Date(filters.toDate).getTime()) return false
+  if (
+    typeof filters.search === 'string' &&
+    filters.search.length > 0 &&
+    !event.transactionHash.toLowerCase().includes(filters.search.toLowerCase())
+  ) {
+    return false
+  }
+  return true
+}
@@ -181,3 +181,24 @@ export function formatBalance(balance: number, currency = 'USD'): string {
 export function formatNumber(value: number): string {
   return value.toLocaleString()
 }
+
+/**
+ * Format a duration in milliseconds for display
+ *
+ * @param ms - Duration in milliseconds
+ * @returns Compact duration string
+ *
+ * @example
+ * ```ts
+ * formatDuration(850)    // => '850ms'
+ * formatDuration(12_400) // => '12.4s'
+ * formatDuration(95_000) // => '1m 35s'
+ * ```
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`
+  const minutes = Math.floor(ms / 60_000)
+  const seconds = Math.round((ms % 60_000) / 1000)
+  return `${minutes}m ${seconds}s`
+}
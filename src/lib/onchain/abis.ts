@@ -0,0 +1,156 @@
+/**
+ * ERC-8004 registry ABIs
+ *
+ * Subsets of the identity, reputation and validation registry interfaces
+ * the dashboard reads and writes, declared `as const` so viem infers
+ * argument and return types.
+ *
+ * @module lib/onchain/abis
+ */
+
+/** Identity registry (ERC-721 based): agent ownership and registration file */
+export const identityRegistryAbi = [
+  {
+    type: 'function',
+    name: 'ownerOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address' }],
+  },
+  {
+    type: 'function',
+    name: 'tokenURI',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'string' }],
+  },
+  {
+    type: 'function',
+    name: 'getMetadata',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'key', type: 'string' },
+    ],
+    outputs: [{ name: '', type: 'bytes' }],
+  },
+  {
+    type: 'error',
+    name: 'ERC721NonexistentToken',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+  },
+] as const
+
+/** Reputation registry: aggregated client feedback */
+export const reputationRegistryAbi = [
+  {
+    type: 'function',
+    name: 'getSummary',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'clientAddresses', type: 'address[]' },
+      { name: 'tag1', type: 'bytes32' },
+      { name: 'tag2', type: 'bytes32' },
+    ],
+    outputs: [
+      { name: 'count', type: 'uint64' },
+      { name: 'averageScore', type: 'uint8' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'giveFeedback',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'score', type: 'uint8' },
+      { name: 'tag1', type: 'bytes32' },
+      { name: 'tag2', type: 'bytes32' },
+      { name: 'fileuri', type: 'string' },
+      { name: 'filehash', type: 'bytes32' },
+      { name: 'feedbackAuth', type: 'bytes' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'event',
+    name: 'NewFeedback',
+    inputs: [
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'clientAddress', type: 'address', indexed: true },
+      { name: 'score', type: 'uint8', indexed: false },
+      { name: 'tag1', type: 'bytes32', indexed: true },
+      { name: 'tag2', type: 'bytes32', indexed: false },
+      { name: 'fileuri', type: 'string', indexed: false },
+      { name: 'filehash', type: 'bytes32', indexed: false },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'getIdentityRegistry',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+  },
+] as const
+
+/** Validation registry: validation requests and validator responses */
+export const validationRegistryAbi = [
+  {
+    type: 'function',
+    name: 'getValidationStatus',
+    stateMutability: 'view',
+    inputs: [{ name: 'requestHash', type: 'bytes32' }],
+    outputs: [
+      { name: 'validatorAddress', type: 'address' },
+      { name: 'agentId', type: 'uint256' },
+      { name: 'response', type: 'uint8' },
+      { name: 'tag', type: 'bytes32' },
+      { name: 'lastUpdate', type: 'uint256' },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'validationRequest',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'validatorAddress', type: 'address' },
+      { name: 'agentId', type: 'uint256' },
+      { name: 'requestUri', type: 'string' },
+      { name: 'requestHash', type: 'bytes32' },
+    ],
+    outputs: [],
+  },
+  {
+    type: 'event',
+    name: 'ValidationRequest',
+    inputs: [
+      { name: 'validatorAddress', type: 'address', indexed: true },
+      { name: 'agentId', type: 'uint256', indexed: true },
+      { name: 'requestUri', type: 'string', indexed: false },
+      { name: 'requestHash', type: 'bytes32', indexed: true },
+    ],
+  },
+  {
+    type: 'function',
+    name: 'getAgentValidations',
+    stateMutability: 'view',
+    inputs: [{ name: 'agentId', type: 'uint256' }],
+    outputs: [{ name: 'requestHashes', type: 'bytes32[]' }],
+  },
+  {
+    type: 'function',
+    name: 'getSummary',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'agentId', type: 'uint256' },
+      { name: 'validatorAddresses', type: 'address[]' },
+      { name: 'tag', type: 'bytes32' },
+    ],
+    outputs: [
+      { name: 'count', type: 'uint64' },
+      { name: 'avgResponse', type: 'uint8' },
+    ],
+  },
+] as const
@@ -0,0 +1,65 @@
+/**
+ * ERC-8004 registry deployments
+ *
+ * Registry contract addresses per supported chain. Testnets share one
+ * deployment address set, configured with:
+ * - `NEXT_PUBLIC_IDENTITY_REGISTRY_ADDRESS`
+ * - `NEXT_PUBLIC_REPUTATION_REGISTRY_ADDRESS`
+ * - `NEXT_PUBLIC_VALIDATION_REGISTRY_ADDRESS`
+ *
+ * Chains without a (configured) deployment map to null, and on-chain reads
+ * for them fail with `registry_not_configured`.
+ *
+ * @module lib/onchain/addresses
+ */
+
+import { type Address, isAddress } from 'viem'
+import { SUPPORTED_CHAINS, type SupportedChainId } from '@/lib/constants'
+
+/**
+ * Addresses of the three ERC-8004 registries on one chain
+ */
+export interface RegistryAddresses {
+  identity: Address
+  reputation: Address
+  validation: Address
+}
+
+/**
+ * Build a registry address set, or null unless all three are valid addresses
+ */
+export function toRegistryAddresses(
+  identity: string | undefined,
+  reputation: string | undefined,
+  validation: string | undefined
+): RegistryAddresses | null {
+  if (!identity || !reputation || !validation) return null
+  if (!isAddress(identity) || !isAddress(reputation) || !isAddress(validation)) return null
+  return { identity, reputation, validation }
+}
+
+const testnetRegistries = toRegistryAddresses(
+  process.env.NEXT_PUBLIC_IDENTITY_REGISTRY_ADDRESS,
+  process.env.NEXT_PUBLIC_REPUTATION_REGISTRY_ADDRESS,
+  process.env.NEXT_PUBLIC_VALIDATION_REGISTRY_ADDRESS
+)
+
+/** Registry deployments by chain (null until deployed and configured) */
+export const REGISTRY_ADDRESSES: Record<SupportedChainId, RegistryAddresses | null> = {
+  [SUPPORTED_CHAINS.MAINNET]: null,
+  [SUPPORTED_CHAINS.BASE]: null,
+  [SUPPORTED_CHAINS.SEPOLIA]: testnetRegistries,
+  [SUPPORTED_CHAINS.BASE_SEPOLIA]: testnetRegistries,
+  [SUPPORTED_CHAINS.LINEA_SEPOLIA]: testnetRegistries,
+  [SUPPORTED_CHAINS.POLYGON_AMOY]: testnetRegistries,
+}
+
+/**
+ * Get the registry addresses of a chain
+ *
+ * @param chainId - EIP-155 chain ID
+ * @returns Registry addresses, or null when the chain has no configured deployment
+ */
+export function getRegistryAddresses(chainId: number): RegistryAddresses | null {
+  return REGISTRY_ADDRESSES[chainId as SupportedChainId] ?? null
+}
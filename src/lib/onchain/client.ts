@@ -0,0 +1,24 @@
+/**
+ * Public clients for on-chain registry reads
+ *
+ * Reuses the wagmi config's chains and transports so registry reads hit the
+ * same RPC endpoints as the wallet connection.
+ *
+ * @module lib/onchain/client
+ */
+
+import type { PublicClient } from 'viem'
+import { getPublicClient } from 'wagmi/actions'
+import { isSupportedChain } from '@/lib/config-helpers'
+import { wagmiConfig } from '@/lib/wagmi-config'
+
+/**
+ * Get a viem public client for a chain
+ *
+ * @param chainId - EIP-155 chain ID
+ * @returns Public client, or null when the chain is not supported
+ */
+export function getRegistryClient(chainId: number): PublicClient | null {
+  if (!isSupportedChain(chainId)) return null
+  return getPublicClient(wagmiConfig, { chainId }) as PublicClient
+}
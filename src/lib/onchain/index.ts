@@ -0,0 +1,17 @@
+/**
+ * On-chain ERC-8004 registry access
+ *
+ * Direct viem access to the identity, reputation and validation registries:
+ * - ABIs of the registry functions the dashboard reads and writes
+ * - Registry deployments per supported chain
+ * - Typed read helpers with a mockable client
+ * - Feedback and validation request transactions from the connected wallet
+ *
+ * @module lib/onchain
+ */
+
+export * from './abis'
+export * from './addresses'
+export * from './client'
+export * from './registries'
+export * from './transactions'
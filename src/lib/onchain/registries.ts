@@ -0,0 +1,387 @@
+/**
+ * ERC-8004 registry read helpers
+ *
+ * Typed reads against the identity, reputation and validation registries,
+ * used as a fallback data source when the indexer is unavailable and to
+ * verify backend data against chain state.
+ *
+ * Every helper accepts an optional public client and address set, so the
+ * reads can be pointed at a local node or a mocked transport in tests.
+ *
+ * @module lib/onchain/registries
+ */
+
+import {
+  type Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  type Hex,
+  isAddressEqual,
+  type PublicClient,
+  zeroHash,
+} from 'viem'
+import { identityRegistryAbi, reputationRegistryAbi, validationRegistryAbi } from './abis'
+import { getRegistryAddresses, type RegistryAddresses } from './addresses'
+import { getRegistryClient } from './client'
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+export type OnchainErrorCode =
+  | 'unsupported_chain'
+  | 'registry_not_configured'
+  | 'agent_not_found'
+  | 'call_failed'
+  | 'wallet_not_connected'
+  | 'user_rejected'
+  | 'transaction_reverted'
+
+/**
+ * Error thrown when an on-chain registry read or write cannot be completed
+ */
+export class OnchainError extends Error {
+  constructor(
+    message: string,
+    public readonly code: OnchainErrorCode,
+    public readonly cause?: unknown
+  ) {
+    super(message)
+    this.name = 'OnchainError'
+  }
+}
+
+/**
+ * Overrides for the client and registry addresses used by a read
+ */
+export interface RegistryReadOptions {
+  /** Public client (defaults to the wagmi config's client for the chain) */
+  client?: PublicClient
+  /** Registry addresses (defaults to the configured deployment for the chain) */
+  addresses?: RegistryAddresses
+}
+
+/** Identity registry record of an agent */
+export interface OnchainAgentIdentity {
+  agentId: number
+  chainId: number
+  owner: Address
+  /** Registration file URI, null when unset */
+  tokenUri: string | null
+}
+
+/** Reputation registry summary of an agent */
+export interface OnchainReputationSummary {
+  feedbackCount: number
+  /** Average feedback score (0-100), null without feedback */
+  averageScore: number | null
+}
+
+/** Validation registry summary of an agent */
+export interface OnchainValidationSummary {
+  count: number
+  /** Average validator response (0-100), null without responses */
+  averageResponse: number | null
+}
+
+/** Validation registry status of a single request */
+export interface OnchainValidationStatus {
+  requestHash: Hex
+  validatorAddress: Address
+  agentId: number
+  response: number
+  tag: Hex
+  /** Time of the last response, null while pending */
+  lastUpdate: Date | null
+}
+
+/** Everything the registries know about an agent */
+export interface OnchainAgent extends OnchainAgentIdentity {
+  /** Null when the reputation registry read failed */
+  reputation: OnchainReputationSummary | null
+  /** Null when the validation registry read failed */
+  validation: OnchainValidationSummary | null
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Internals
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Resolve the public client and registry addresses for a chain
+ *
+ * @param chainId - EIP-155 chain ID
+ * @param options - Client and address overrides
+ * @returns Client and addresses
+ * @throws {OnchainError} `unsupported_chain` or `registry_not_configured`
+ */
+export function resolveRegistry(chainId: number, options: RegistryReadOptions = {}) {
+  const client = options.client ?? getRegistryClient(chainId)
+  if (!client) {
+    throw new OnchainError(`Chain ${chainId} is not supported`, 'unsupported_chain')
+  }
+
+  const addresses = options.addresses ?? getRegistryAddresses(chainId)
+  if (!addresses) {
+    throw new OnchainError(
+      `ERC-8004 registries are not configured for chain ${chainId}`,
+      'registry_not_configured'
+    )
+  }
+
+  return { client, addresses }
+}
+
+function isNonexistentToken(error: unknown): boolean {
+  if (!(error instanceof BaseError)) return false
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError)
+  return (
+    reverted instanceof ContractFunctionRevertedError &&
+    reverted.data?.errorName === 'ERC721NonexistentToken'
+  )
+}
+
+function toOnchainError(error: unknown, message: string): OnchainError {
+  if (error instanceof OnchainError) return error
+  return new OnchainError(message, 'call_failed', error)
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Identity Registry
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Read an agent's owner and registration file URI
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param options - Client and address overrides
+ * @returns Identity registry record
+ * @throws {OnchainError} `agent_not_found` when the token does not exist
+ *
+ * @example
+ * ```ts
+ * const { owner, tokenUri } = await readAgentIdentity(11155111, 42)
+ * ```
+ */
+export async function readAgentIdentity(
+  chainId: number,
+  agentId: number,
+  options: RegistryReadOptions = {}
+): Promise<OnchainAgentIdentity> {
+  const { client, addresses } = resolveRegistry(chainId, options)
+  const tokenId = BigInt(agentId)
+
+  try {
+    const [owner, tokenUri] = await Promise.all([
+      client.readContract({
+        address: addresses.identity,
+        abi: identityRegistryAbi,
+        functionName: 'ownerOf',
+        args: [tokenId],
+      }),
+      client.readContract({
+        address: addresses.identity,
+        abi: identityRegistryAbi,
+        functionName: 'tokenURI',
+        args: [tokenId],
+      }),
+    ])
+
+    return { agentId, chainId, owner, tokenUri: tokenUri || null }
+  } catch (error) {
+    if (isNonexistentToken(error)) {
+      throw new OnchainError(
+        `Agent #${agentId} is not registered on chain ${chainId}`,
+        'agent_not_found',
+        error
+      )
+    }
+    throw toOnchainError(error, `Failed to read agent #${agentId} from the identity registry`)
+  }
+}
+
+/**
+ * Check whether an address owns an agent on-chain
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param expectedOwner - Address to compare against
+ * @param options - Client and address overrides
+ * @returns True when the on-chain owner matches (case-insensitive)
+ * @throws {OnchainError}
+ */
+export async function verifyAgentOwner(
+  chainId: number,
+  agentId: number,
+  expectedOwner: Address,
+  options: RegistryReadOptions = {}
+): Promise<boolean> {
+  const { owner } = await readAgentIdentity(chainId, agentId, options)
+  return isAddressEqual(owner, expectedOwner)
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Reputation Registry
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Read an agent's aggregated feedback across all clients and tags
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param options - Client and address overrides
+ * @returns Feedback count and average score
+ * @throws {OnchainError}
+ */
+export async function readReputationSummary(
+  chainId: number,
+  agentId: number,
+  options: RegistryReadOptions = {}
+): Promise<OnchainReputationSummary> {
+  const { client, addresses } = resolveRegistry(chainId, options)
+
+  try {
+    const [count, averageScore] = await client.readContract({
+      address: addresses.reputation,
+      abi: reputationRegistryAbi,
+      functionName: 'getSummary',
+      args: [BigInt(agentId), [], zeroHash, zeroHash],
+    })
+
+    const feedbackCount = Number(count)
+    return { feedbackCount, averageScore: feedbackCount > 0 ? averageScore : null }
+  } catch (error) {
+    throw toOnchainError(error, `Failed to read reputation of agent #${agentId}`)
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Validation Registry
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Read an agent's aggregated validator responses across all validators
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param options - Client and address overrides
+ * @returns Response count and average response
+ * @throws {OnchainError}
+ */
+export async function readValidationSummary(
+  chainId: number,
+  agentId: number,
+  options: RegistryReadOptions = {}
+): Promise<OnchainValidationSummary> {
+  const { client, addresses } = resolveRegistry(chainId, options)
+
+  try {
+    const [count, avgResponse] = await client.readContract({
+      address: addresses.validation,
+      abi: validationRegistryAbi,
+      functionName: 'getSummary',
+      args: [BigInt(agentId), [], zeroHash],
+    })
+
+    const total = Number(count)
+    return { count: total, averageResponse: total > 0 ? avgResponse : null }
+  } catch (error) {
+    throw toOnchainError(error, `Failed to read validations of agent #${agentId}`)
+  }
+}
+
+/**
+ * Read the validation request hashes of an agent
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param options - Client and address overrides
+ * @returns Request hashes, oldest first
+ * @throws {OnchainError}
+ */
+export async function readAgentValidations(
+  chainId: number,
+  agentId: number,
+  options: RegistryReadOptions = {}
+): Promise<readonly Hex[]> {
+  const { client, addresses } = resolveRegistry(chainId, options)
+
+  try {
+    return await client.readContract({
+      address: addresses.validation,
+      abi: validationRegistryAbi,
+      functionName: 'getAgentValidations',
+      args: [BigInt(agentId)],
+    })
+  } catch (error) {
+    throw toOnchainError(error, `Failed to read validations of agent #${agentId}`)
+  }
+}
+
+/**
+ * Read the status of a single validation request
+ *
+ * @param chainId - Chain the request was made on
+ * @param requestHash - Validation request hash
+ * @param options - Client and address overrides
+ * @returns Validator, response and last update time
+ * @throws {OnchainError}
+ */
+export async function readValidationStatus(
+  chainId: number,
+  requestHash: Hex,
+  options: RegistryReadOptions = {}
+): Promise<OnchainValidationStatus> {
+  const { client, addresses } = resolveRegistry(chainId, options)
+
+  try {
+    const [validatorAddress, agentId, response, tag, lastUpdate] = await client.readContract({
+      address: addresses.validation,
+      abi: validationRegistryAbi,
+      functionName: 'getValidationStatus',
+      args: [requestHash],
+    })
+
+    return {
+      requestHash,
+      validatorAddress,
+      agentId: Number(agentId),
+      response,
+      tag,
+      lastUpdate: lastUpdate > 0n ? new Date(Number(lastUpdate) * 1000) : null,
+    }
+  } catch (error) {
+    throw toOnchainError(error, `Failed to read validation request ${requestHash}`)
+  }
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Combined
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Read an agent's identity along with its reputation and validation summaries
+ *
+ * The identity read must succeed; summary reads that fail resolve to null so
+ * the agent basics can still be shown.
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param options - Client and address overrides
+ * @returns Combined registry view of the agent
+ * @throws {OnchainError} When the identity read fails
+ */
+export async function readOnchainAgent(
+  chainId: number,
+  agentId: number,
+  options: RegistryReadOptions = {}
+): Promise<OnchainAgent> {
+  const [identity, reputation, validation] = await Promise.all([
+    readAgentIdentity(chainId, agentId, options),
+    readReputationSummary(chainId, agentId, options).catch(() => null),
+    readValidationSummary(chainId, agentId, options).catch(() => null),
+  ])
+
+  return { ...identity, reputation, validation }
+}
@@ -0,0 +1,276 @@
+/**
+ * ERC-8004 registry transactions
+ *
+ * Writes to the reputation and validation registries from the connected
+ * wallet. Each send switches the wallet to the agent's chain, estimates gas
+ * against the registry, submits through wagmi `writeContract` and waits for
+ * the receipt. Wallet and revert errors are mapped to `OnchainError` codes
+ * so callers can tell a rejected prompt from a failed transaction.
+ *
+ * @module lib/onchain/transactions
+ *
+ * @example
+ * ```ts
+ * const { hash } = await sendFeedback(11155111, 42, { score: 90, tag1: 'quality' }, {
+ *   onSubmitted: (hash) => toast.loading('Pending...', { id: hash }),
+ * })
+ * ```
+ */
+
+import {
+  type Address,
+  BaseError,
+  ContractFunctionRevertedError,
+  type Hash,
+  type Hex,
+  keccak256,
+  stringToHex,
+  type TransactionReceipt,
+  toBytes,
+  UserRejectedRequestError,
+  zeroHash,
+} from 'viem'
+import { getConnection, switchChain, waitForTransactionReceipt, writeContract } from 'wagmi/actions'
+import type { SupportedChainId } from '@/lib/constants'
+import type { CreateValidationRequest, GiveFeedbackRequest } from '@/lib/validations'
+import { wagmiConfig } from '@/lib/wagmi-config'
+import { reputationRegistryAbi, validationRegistryAbi } from './abis'
+import { OnchainError, type RegistryReadOptions, resolveRegistry } from './registries'
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/** Extra gas on top of the estimate, in percent */
+export const GAS_LIMIT_BUFFER_PERCENT = 20n
+
+/**
+ * Options for a registry transaction
+ */
+export interface RegistryWriteOptions extends RegistryReadOptions {
+  /** Called with the transaction hash once the wallet has submitted it */
+  onSubmitted?: (hash: Hash) => void
+}
+
+/**
+ * Confirmed registry transaction
+ */
+export interface RegistryTransactionResult {
+  hash: Hash
+  chainId: number
+  /** Gas limit the transaction was sent with */
+  gas: bigint
+  receipt: TransactionReceipt
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Arguments
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Encode a feedback tag as bytes32
+ *
+ * @param tag - UTF-8 tag (at most 32 bytes), empty or missing for none
+ * @returns Right-padded bytes32, zero hash without a tag
+ */
+export function encodeTag(tag?: string): Hex {
+  return tag ? stringToHex(tag, { size: 32 }) : zeroHash
+}
+
+/**
+ * Build the `giveFeedback` arguments from a validated form
+ *
+ * @param agentId - Agent token ID
+ * @param request - Parsed feedback form
+ * @returns Contract arguments
+ */
+export function buildGiveFeedbackArgs(agentId: number, request: GiveFeedbackRequest) {
+  return [
+    BigInt(agentId),
+    request.score,
+    encodeTag(request.tag1),
+    encodeTag(request.tag2),
+    request.feedbackUri ?? '',
+    (request.feedbackHash || zeroHash) as Hex,
+    (request.feedbackAuth || '0x') as Hex,
+  ] as const
+}
+
+/**
+ * Build the `validationRequest` arguments from a validated form
+ *
+ * The request hash defaults to the keccak256 of the request URI.
+ *
+ * @param agentId - Agent token ID
+ * @param request - Parsed validation request form
+ * @returns Contract arguments
+ */
+export function buildValidationRequestArgs(agentId: number, request: CreateValidationRequest) {
+  return [
+    request.validatorAddress as Address,
+    BigInt(agentId),
+    request.requestUri,
+    (request.requestHash || keccak256(toBytes(request.requestUri))) as Hex,
+  ] as const
+}
+
+/**
+ * Get the block explorer URL of a transaction
+ *
+ * @param chainId - Chain the transaction was sent on
+ * @param hash - Transaction hash
+ * @returns Explorer URL, or null when the chain has no known explorer
+ */
+export function getTransactionUrl(chainId: number, hash: Hash): string | null {
+  const chain = wagmiConfig.chains.find((c) => c.id === chainId)
+  const explorer = chain?.blockExplorers?.default.url
+  return explorer ? `${explorer}/tx/${hash}` : null
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Internals
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+function withGasBuffer(gas: bigint): bigint {
+  return (gas * (100n + GAS_LIMIT_BUFFER_PERCENT)) / 100n
+}
+
+/**
+ * Make sure a wallet is connected to the target chain
+ *
+ * @returns Connected account address
+ */
+async function prepareWallet(chainId: number): Promise<Address> {
+  const connection = getConnection(wagmiConfig)
+  if (!connection.address) {
+    throw new OnchainError('Connect a wallet to send transactions', 'wallet_not_connected')
+  }
+
+  if (connection.chainId !== chainId) {
+    await switchChain(wagmiConfig, { chainId: chainId as SupportedChainId })
+  }
+
+  return connection.address
+}
+
+function toWriteError(error: unknown, message: string): OnchainError {
+  if (error instanceof OnchainError) return error
+  if (!(error instanceof BaseError)) return new OnchainError(message, 'call_failed', error)
+
+  if (error.walk((e) => e instanceof UserRejectedRequestError)) {
+    return new OnchainError('Transaction rejected in wallet', 'user_rejected', error)
+  }
+
+  const reverted = error.walk((e) => e instanceof ContractFunctionRevertedError)
+  if (reverted instanceof ContractFunctionRevertedError) {
+    const reason = reverted.reason ?? reverted.data?.errorName
+    return new OnchainError(
+      reason ? `Transaction would revert: ${reason}` : 'Transaction would revert',
+      'transaction_reverted',
+      error
+    )
+  }
+
+  return new OnchainError(`${message}: ${error.shortMessage}`, 'call_failed', error)
+}
+
+async function confirmTransaction(
+  hash: Hash,
+  chainId: number,
+  gas: bigint
+): Promise<RegistryTransactionResult> {
+  const receipt = await waitForTransactionReceipt(wagmiConfig, {
+    hash,
+    chainId: chainId as SupportedChainId,
+  })
+  if (receipt.status !== 'success') {
+    throw new OnchainError(`Transaction ${hash} reverted`, 'transaction_reverted')
+  }
+  return { hash, chainId, gas, receipt }
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Transactions
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Give feedback for an agent on the reputation registry
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param request - Parsed feedback form
+ * @param options - Submission callback, client and address overrides
+ * @returns Confirmed transaction
+ * @throws {OnchainError} `wallet_not_connected`, `user_rejected`,
+ *   `transaction_reverted` or `call_failed`
+ */
+export async function sendFeedback(
+  chainId: number,
+  agentId: number,
+  request: GiveFeedbackRequest,
+  options: RegistryWriteOptions = {}
+): Promise<RegistryTransactionResult> {
+  const { client, addresses } = resolveRegistry(chainId, options)
+  const args = buildGiveFeedbackArgs(agentId, request)
+
+  try {
+    const account = await prepareWallet(chainId)
+    const contract = {
+      address: addresses.reputation,
+      abi: reputationRegistryAbi,
+      functionName: 'giveFeedback',
+      args,
+    } as const
+    const gas = withGasBuffer(await client.estimateContractGas({ ...contract, account }))
+    const hash = await writeContract(wagmiConfig, {
+      ...contract,
+      chainId: chainId as SupportedChainId,
+      gas,
+    })
+    options.onSubmitted?.(hash)
+    return await confirmTransaction(hash, chainId, gas)
+  } catch (error) {
+    throw toWriteError(error, `Failed to give feedback for agent #${agentId}`)
+  }
+}
+
+/**
+ * Request validation of an agent on the validation registry
+ *
+ * @param chainId - Chain the agent is registered on
+ * @param agentId - Agent token ID
+ * @param request - Parsed validation request form
+ * @param options - Submission callback, client and address overrides
+ * @returns Confirmed transaction
+ * @throws {OnchainError} `wallet_not_connected`, `user_rejected`,
+ *   `transaction_reverted` or `call_failed`
+ */
+export async function sendValidationRequest(
+  chainId: number,
+  agentId: number,
+  request: CreateValidationRequest,
+  options: RegistryWriteOptions = {}
+): Promise<RegistryTransactionResult> {
+  const { client, addresses } = resolveRegistry(chainId, options)
+  const args = buildValidationRequestArgs(agentId, request)
+
+  try {
+    const account = await prepareWallet(chainId)
+    const contract = {
+      address: addresses.validation,
+      abi: validationRegistryAbi,
+      functionName: 'validationRequest',
+      args,
+    } as const
+    const gas = withGasBuffer(await client.estimateContractGas({ ...contract, account }))
+    const hash = await writeContract(wagmiConfig, {
+      ...contract,
+      chainId: chainId as SupportedChainId,
+      gas,
+    })
+    options.onSubmitted?.(hash)
+    return await confirmTransaction(hash, chainId, gas)
+  } catch (error) {
+    throw toWriteError(error, `Failed to request validation of agent #${agentId}`)
+  }
+}
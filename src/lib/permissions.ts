@@ -0,0 +1,191 @@
+/**
+ * Permissions
+ *
+ * Permission matrix of the organization roles: which role may view,
+ * create, update or delete each kind of resource. The UI uses it to
+ * disable controls the current role can't use and explain why; the
+ * backend enforces the same rules.
+ *
+ * - `owner`: everything, including deleting the organization
+ * - `admin`: everything else, including members, billing and the audit log
+ * - `member`: manages triggers, watchlists, agents and API keys; views the rest
+ * - `viewer`: views triggers, watchlists, agents, API keys, members and billing
+ *
+ * @module lib/permissions
+ *
+ * @example
+ * ```ts
+ * can('viewer', 'create', 'trigger') // => false
+ * getPermissionDeniedReason('viewer', 'create', 'trigger')
+ * // => "Viewers can't create triggers. Requires the owner, admin or member role."
+ * ```
+ */
+
+import { ORGANIZATION_ROLES, type OrganizationRole } from './constants'
+
+/** Actions checked against the permission matrix */
+export const PERMISSION_ACTIONS = ['view', 'create', 'update', 'delete'] as const
+export type PermissionAction = (typeof PERMISSION_ACTIONS)[number]
+
+/** Resources of an organization covered by the permission matrix */
+export const PERMISSION_RESOURCES = [
+  'organization',
+  'member',
+  'trigger',
+  'watchlist',
+  'agent',
+  'api_key',
+  'billing',
+  'audit_log',
+] as const
+export type PermissionResource = (typeof PERMISSION_RESOURCES)[number]
+
+const ALL: readonly PermissionAction[] = PERMISSION_ACTIONS
+const VIEW: readonly PermissionAction[] = ['view']
+const NONE: readonly PermissionAction[] = []
+
+/**
+ * Actions each role may perform on each resource
+ *
+ * Billing `create` is buying credits; agent `create` and `delete` are
+ * linking and unlinking.
+ */
+export const PERMISSION_MATRIX: Record<
+  OrganizationRole,
+  Record<PermissionResource, readonly PermissionAction[]>
+> = {
+  owner: {
+    organization: ALL,
+    member: ALL,
+    trigger: ALL,
+    watchlist: ALL,
+    agent: ALL,
+    api_key: ALL,
+    billing: ALL,
+    audit_log: VIEW,
+  },
+  admin: {
+    organization: ['view', 'update'],
+    member: ALL,
+    trigger: ALL,
+    watchlist: ALL,
+    agent: ALL,
+    api_key: ALL,
+    billing: ['view', 'create'],
+    audit_log: VIEW,
+  },
+  member: {
+    organization: VIEW,
+    member: VIEW,
+    trigger: ALL,
+    watchlist: ALL,
+    agent: ALL,
+    api_key: ALL,
+    billing: VIEW,
+    audit_log: NONE,
+  },
+  viewer: {
+    organization: VIEW,
+    member: VIEW,
+    trigger: VIEW,
+    watchlist: VIEW,
+    agent: VIEW,
+    api_key: VIEW,
+    billing: VIEW,
+    audit_log: NONE,
+  },
+}
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: 'Owners',
+  admin: 'Admins',
+  member: 'Members',
+  viewer: 'Viewers',
+}
+
+const ACTION_VERBS: Record<PermissionAction, string> = {
+  view: 'view',
+  create: 'create',
+  update: 'edit',
+  delete: 'delete',
+}
+
+const RESOURCE_NOUNS: Record<PermissionResource, string> = {
+  organization: 'organization settings',
+  member: 'members',
+  trigger: 'triggers',
+  watchlist: 'watchlists',
+  agent: 'agents',
+  api_key: 'API keys',
+  billing: 'billing',
+  audit_log: 'the audit log',
+}
+
+/** Wording of actions that don't read well as `<verb> <resource>` */
+const DESCRIPTIONS: Partial<Record<`${PermissionResource}.${PermissionAction}`, string>> = {
+  'organization.delete': 'delete the organization',
+  'member.create': 'invite members',
+  'member.update': 'change member roles',
+  'member.delete': 'remove members',
+  'agent.create': 'link agents',
+  'agent.delete': 'unlink agents',
+  'billing.create': 'buy credits',
+}
+
+/**
+ * Whether a role may perform an action on a resource
+ *
+ * @param role - Role in the organization; no role has no permissions
+ * @param action - Action to perform
+ * @param resource - Resource to perform it on
+ */
+export function can(
+  role: OrganizationRole | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource
+): boolean {
+  if (!role) return false
+  return PERMISSION_MATRIX[role][resource].includes(action)
+}
+
+/**
+ * Roles allowed to perform an action on a resource, highest first
+ */
+export function getAllowedRoles(
+  action: PermissionAction,
+  resource: PermissionResource
+): OrganizationRole[] {
+  return ORGANIZATION_ROLES.filter((role) => can(role, action, resource))
+}
+
+/**
+ * Human-readable description of an action, e.g. `create triggers`
+ */
+export function describePermission(action: PermissionAction, resource: PermissionResource): string {
+  return (
+    DESCRIPTIONS[`${resource}.${action}`] ?? `${ACTION_VERBS[action]} ${RESOURCE_NOUNS[resource]}`
+  )
+}
+
+/**
+ * Why a role may not perform an action, for tooltips on disabled controls
+ *
+ * @param role - Role in the organization
+ * @param action - Action to perform
+ * @param resource - Resource to perform it on
+ * @returns Explanation, or null when the action is allowed
+ */
+export function getPermissionDeniedReason(
+  role: OrganizationRole | null | undefined,
+  action: PermissionAction,
+  resource: PermissionResource
+): string | null {
+  if (can(role, action, resource)) return null
+  if (!role) return `Select an organization to ${describePermission(action, resource)}.`
+
+  const allowed = getAllowedRoles(action, resource)
+  if (allowed.length === 0) return `No role can ${describePermission(action, resource)}.`
+  const roles =
+    allowed.length > 1 ? `${allowed.slice(0, -1).join(', ')} or ${allowed.at(-1)}` : allowed[0]
+  return `${ROLE_LABELS[role]} can't ${describePermission(action, resource)}. Requires the ${roles} role.`
+}
@@ -70,6 +70,17 @@ export const queryKeys = {
     detail: (id: string) => [...queryKeys.triggers.all, 'detail', id] as const,
     executions: (triggerId: string, filters?: Record<string, unknown>) =>
       [...queryKeys.triggers.all, 'executions', triggerId, filters ?? {}] as const,
+    execution: (triggerId: string, executionId: string) =>
+      [...queryKeys.triggers.all, 'execution', triggerId, executionId] as const,
+    state: (triggerId: string) => [...queryKeys.triggers.all, 'state', triggerId] as const,
+    revisions: (triggerId: string, filters?: Record<string, unknown>) =>
+      [...queryKeys.triggers.all, 'revisions', triggerId, filters ?? {}] as const,
+  },
+
+  // Trigger template queries
+  triggerTemplates: {
+    all: ['triggerTemplates'] as const,
+    list: (orgId: string) => [...queryKeys.triggerTemplates.all, 'list', orgId] as const,
   },
 
   // API Key queries
@@ -78,6 +89,17 @@ export const queryKeys = {
     list: (orgId: string) => [...queryKeys.apiKeys.all, 'list', orgId] as const,
     detail: (id: string) => [...queryKeys.apiKeys.all, 'detail', id] as const,
     stats: (orgId: string) => [...queryKeys.apiKeys.all, 'stats', orgId] as const,
+    usage: (keyId: string, range: string) =>
+      [...queryKeys.apiKeys.all, 'usage', keyId, range] as const,
+    rotations: (keyId: string, filters?: Record<string, unknown>) =>
+      [...queryKeys.apiKeys.all, 'rotations', keyId, filters ?? {}] as const,
+  },
+
+  // Audit log queries
+  auditLog: {
+    all: ['auditLog'] as const,
+    list: (orgId: string, filters?: Record<string, unknown>) =>
+      [...queryKeys.auditLog.all, 'list', orgId, filters ?? {}] as const,
   },
 
   // Agent queries
@@ -90,6 +112,33 @@ export const queryKeys = {
     linked: (orgId: string) => [...queryKeys.agents.all, 'linked', orgId] as const,
   },
 
+  // Explorer queries (any ERC-8004 agent, linked or not)
+  explorer: {
+    all: ['explorer'] as const,
+    agent: (chainId: number, agentId: number) =>
+      [...queryKeys.explorer.all, 'agent', chainId, agentId] as const,
+    byOwner: (owner: string, chainId?: number) =>
+      [...queryKeys.explorer.all, 'byOwner', owner, chainId ?? 'all'] as const,
+    validations: (chainId: number, agentId: number, filters?: Record<string, unknown>) =>
+      [...queryKeys.explorer.all, 'validations', chainId, agentId, filters ?? {}] as const,
+    watches: (orgId: string) => [...queryKeys.explorer.all, 'watches', orgId] as const,
+  },
+
+  // Watchlists (named sets of agents)
+  watchlists: {
+    all: ['watchlists'] as const,
+    list: (orgId: string) => [...queryKeys.watchlists.all, 'list', orgId] as const,
+    detail: (orgId: string, id: string) =>
+      [...queryKeys.watchlists.all, 'detail', orgId, id] as const,
+  },
+
+  // On-chain registry reads (viem, bypassing the indexer)
+  onchain: {
+    all: ['onchain'] as const,
+    agent: (chainId: number, agentId: number) =>
+      [...queryKeys.onchain.all, 'agent', chainId, agentId] as const,
+  },
+
   // Events queries
   events: {
     all: ['events'] as const,
@@ -98,6 +147,12 @@ export const queryKeys = {
     detail: (id: string) => [...queryKeys.events.all, 'detail', id] as const,
     byAgent: (agentId: number, chainId: number, filters?: Record<string, unknown>) =>
       [...queryKeys.events.all, 'byAgent', agentId, chainId, filters ?? {}] as const,
+    agentAnalytics: (agentId: number, chainId: number, range: string) =>
+      [...queryKeys.events.all, 'agentAnalytics', agentId, chainId, range] as const,
+    agentCardChange: (agentId: number, chainId: number) =>
+      [...queryKeys.events.all, 'agentCardChange', agentId, chainId] as const,
+    byTransaction: (chainId: number, transactionHash: string) =>
+      [...queryKeys.events.all, 'byTransaction', chainId, transactionHash] as const,
   },
 
   // Credits queries
@@ -1,4 +1,5 @@
 import DOMPurify from 'dompurify'
+import { validateTemplate } from './template-engine'
 
 /**
  * Security utilities for sanitizing user input
@@ -296,48 +297,40 @@ export function sanitizeConfigValue(value: unknown): string {
 /**
  * Validate template variable syntax
  *
- * Checks that template only uses allowed `{{variable}}` patterns.
+ * Checks a template with the action template engine (see
+ * `lib/template-engine`): only whitelisted variables, `data.*` payload
+ * paths, known filters and well-formed `{{#if}}` blocks are allowed.
  * Prevents template injection by restricting variable names.
  *
  * @param template - Template string with `{{variables}}`
- * @returns Validation result with any invalid variables found
+ * @returns Validation result with any invalid variables and all error messages
  *
  * @example
  * ```ts
  * validateTemplateVariables('Event: {{eventType}} for agent {{agentId}}')
- * // => { isValid: true, invalidVars: [] }
+ * // => { isValid: true, invalidVars: [], errors: [] }
  *
  * validateTemplateVariables('{{malicious}} payload')
- * // => { isValid: false, invalidVars: ['malicious'] }
+ * // => { isValid: false, invalidVars: ['malicious'], errors: ['Unknown variable "malicious"'] }
+ *
+ * validateTemplateVariables('{{data.owner | formatAddress}}')
+ * // => { isValid: true, invalidVars: [], errors: [] }
  * ```
  */
 export function validateTemplateVariables(template: string): {
   isValid: boolean
   invalidVars: string[]
+  errors: string[]
 } {
-  // Allowed template variables
-  const allowedVars = new Set([
-    'eventType',
-    'agentId',
-    'chainId',
-    'registry',
-    'blockNumber',
-    'transactionHash',
-    'timestamp',
-    'reputationScore',
-    'triggerId',
-    'triggerName',
-  ])
-
-  // Extract all {{variable}} patterns
-  const varRegex = /\{\{([^}]+)\}\}/g
-  const matches = Array.from(template.matchAll(varRegex))
-  const usedVars = matches.map((m) => m[1]?.trim() ?? '')
-  const invalidVars = usedVars.filter((v) => !allowedVars.has(v))
+  const issues = validateTemplate(template)
+  const invalidVars = issues
+    .filter((issue) => issue.code === 'unknown_variable')
+    .map((issue) => issue.expression?.split('|')[0]?.trim() ?? '')
 
   return {
-    isValid: invalidVars.length === 0,
+    isValid: issues.length === 0,
     invalidVars,
+    errors: issues.map((issue) => issue.message),
   }
 }
 
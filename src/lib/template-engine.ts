@@ -0,0 +1,658 @@
+/**
+ * Action template engine
+ *
+ * Renders the message templates of trigger actions (Telegram messages,
+ * email subjects and bodies, Slack/Discord content, REST bodies) against
+ * a fired event. The backend renders templates with the same rules; this
+ * module validates them in forms and powers the live preview.
+ *
+ * Syntax:
+ * - `{{ agentId }}`: top-level variable (see `TEMPLATE_VARIABLES`)
+ * - `{{ data.score }}`: dotted path into the event payload
+ * - `{{ data.owner | formatAddress }}`: filters, applied left to right
+ * - `{{ data.note | default("n/a") | truncate(40) }}`: filter arguments
+ *   are string or number literals
+ * - `{{#if data.tag}}...{{else}}...{{/if}}`: truthiness blocks, nestable
+ *
+ * The engine is sandboxed: there is no expression evaluation, only
+ * whitelisted variables and filters. Paths only read own properties and
+ * reject `__proto__`, `constructor` and `prototype`. Rendering is a single
+ * pass, so `{{...}}` inside event data is output as-is and never evaluated.
+ *
+ * Event data is untrusted, so rendered values are escaped for where the
+ * template is used (see `TemplateFormat` and `getTemplateFormat`): JSON
+ * bodies, Slack and Discord markdown and email subject lines. Telegram
+ * messages and plain-text email bodies need no escaping.
+ *
+ * @module lib/template-engine
+ *
+ * @example
+ * ```ts
+ * const context = createTemplateContext(event, { id: trigger.id, name: trigger.name })
+ * renderTemplate('{{eventType}}: {{data.score | default(0)}} on {{chainId | chainName}}', context)
+ * // => { output: 'ReputationUpdated: 85 on SEPOLIA', errors: [] }
+ *
+ * validateTemplate('{{data.score | round}}')
+ * // => [{ code: 'unknown_filter', message: 'Unknown filter "round"', expression: 'data.score | round' }]
+ * ```
+ */
+
+import { getChainName } from './config-helpers'
+import { SUPPORTED_CHAINS } from './constants'
+import { EVENT_CATALOG, EVENT_TYPE_LIST, getEventTypeInfo } from './event-catalog'
+import type { EventFieldDefinition } from './event-schemas'
+import { formatAddress, formatNumber } from './format'
+import type { BlockchainEvent } from './validations/event'
+
+/**
+ * Top-level template variables
+ *
+ * `data` gives access to the event payload through dotted paths.
+ */
+export const TEMPLATE_VARIABLES = [
+  { name: 'eventType', description: 'Event type (e.g. ReputationUpdated)' },
+  { name: 'agentId', description: 'Agent token ID' },
+  { name: 'chainId', description: 'Chain ID of the event' },
+  { name: 'registry', description: 'Registry that emitted the event' },
+  { name: 'blockNumber', description: 'Block the event was included in' },
+  { name: 'transactionHash', description: 'Transaction hash' },
+  { name: 'timestamp', description: 'Event time (ISO 8601)' },
+  { name: 'reputationScore', description: 'Reputation score (reputation events)' },
+  { name: 'triggerId', description: 'ID of the trigger that fired' },
+  { name: 'triggerName', description: 'Name of the trigger that fired' },
+  { name: 'data', description: 'Event payload, e.g. data.score' },
+] as const
+
+/** Template variable name */
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number]['name']
+
+/** Filter argument literal */
+type TemplateArgument = string | number
+
+/**
+ * Definition of a template filter
+ */
+interface TemplateFilterDefinition {
+  /** Usage shown in help text */
+  usage: string
+  /** Short description */
+  description: string
+  /** Maximum number of arguments */
+  maxArgs: number
+  /** Returns an error message for invalid arguments */
+  validateArgs?: (args: TemplateArgument[]) => string | null
+  /** Applies the filter */
+  apply: (value: unknown, args: TemplateArgument[]) => unknown
+}
+
+const DEFAULT_TRUNCATE_LENGTH = 32
+
+/**
+ * Available template filters
+ */
+export const TEMPLATE_FILTERS = {
+  default: {
+    usage: 'default("fallback")',
+    description: 'Fallback when the value is missing or empty',
+    maxArgs: 1,
+    validateArgs: (args) => (args.length === 1 ? null : 'default requires a fallback value'),
+    apply: (value, args) =>
+      value === undefined || value === null || value === '' ? args[0] : value,
+  },
+  truncate: {
+    usage: 'truncate(32)',
+    description: 'Shorten text to a maximum length',
+    maxArgs: 1,
+    validateArgs: (args) =>
+      args.length === 0 || (Number.isInteger(args[0]) && (args[0] as number) > 0)
+        ? null
+        : 'truncate length must be a positive whole number',
+    apply: (value, args) => {
+      const text = toText(value)
+      const length = (args[0] as number | undefined) ?? DEFAULT_TRUNCATE_LENGTH
+      return text.length > length ? `${text.slice(0, Math.max(length - 1, 0))}…` : text
+    },
+  },
+  formatAddress: {
+    usage: 'formatAddress',
+    description: 'Shorten an address or hash to 0x1234...5678',
+    maxArgs: 0,
+    apply: (value) =>
+      typeof value === 'string' && /^0x[a-fA-F0-9]{40,}$/.test(value)
+        ? formatAddress(value)
+        : value,
+  },
+  chainName: {
+    usage: 'chainName',
+    description: 'Chain name for a chain ID',
+    maxArgs: 0,
+    apply: (value) => {
+      const chainId = Number(value)
+      return value !== '' && Number.isInteger(chainId) ? getChainName(chainId) : value
+    },
+  },
+  number: {
+    usage: 'number',
+    description: 'Format a number with thousand separators',
+    maxArgs: 0,
+    apply: (value) => {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value
+      return typeof number === 'number' && Number.isFinite(number) ? formatNumber(number) : value
+    },
+  },
+  json: {
+    usage: 'json',
+    description: 'Encode as JSON (use in REST bodies)',
+    maxArgs: 0,
+    apply: (value) => JSON.stringify(value ?? null),
+  },
+  upper: {
+    usage: 'upper',
+    description: 'Uppercase text',
+    maxArgs: 0,
+    apply: (value) => toText(value).toUpperCase(),
+  },
+  lower: {
+    usage: 'lower',
+    description: 'Lowercase text',
+    maxArgs: 0,
+    apply: (value) => toText(value).toLowerCase(),
+  },
+} as const satisfies Record<string, TemplateFilterDefinition>
+
+/** Template filter name */
+export type TemplateFilterName = keyof typeof TEMPLATE_FILTERS
+
+/**
+ * Output format of a template, deciding how rendered values are escaped
+ *
+ * - `text`: no escaping (Telegram messages, plain-text email bodies)
+ * - `json`: JSON string escaping inside quotes, JSON-encoded elsewhere
+ *   (REST bodies, MCP parameters)
+ * - `slack`: `&`, `<` and `>` escaped, so values can't add mentions or links
+ * - `discord`: markdown and mentions escaped with backslashes
+ * - `header`: line breaks removed (email subjects)
+ */
+export type TemplateFormat = 'text' | 'json' | 'slack' | 'discord' | 'header'
+
+/** Format of each templated action config field; other fields are `text` */
+const ACTION_TEMPLATE_FORMATS: Record<string, TemplateFormat> = {
+  'rest.body': 'json',
+  'mcp.parameters': 'json',
+  'slack.message': 'slack',
+  'discord.content': 'discord',
+  'email.subject': 'header',
+}
+
+/**
+ * Output format of a templated action config field
+ *
+ * @param actionType - Action type, e.g. `rest`
+ * @param key - Config key, e.g. `body`
+ * @returns Format used to escape rendered values
+ */
+export function getTemplateFormat(actionType: string, key: string): TemplateFormat {
+  return ACTION_TEMPLATE_FORMATS[`${actionType}.${key}`] ?? 'text'
+}
+
+const SLACK_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+}
+
+/**
+ * Escape a rendered value for its output format
+ *
+ * @param value - Value of the expression
+ * @param format - Output format
+ * @param inJsonString - Whether a `json` value is output inside a string literal
+ * @param encoded - Whether the value is already JSON (ends with the `json` filter)
+ */
+function escapeValue(
+  value: unknown,
+  format: TemplateFormat,
+  inJsonString: boolean,
+  encoded: boolean
+): string {
+  switch (format) {
+    case 'json':
+      if (inJsonString) return JSON.stringify(toText(value)).slice(1, -1)
+      return encoded ? toText(value) : JSON.stringify(value ?? null)
+    case 'slack':
+      return toText(value).replace(/[&<>]/g, (char) => SLACK_ENTITIES[char] ?? char)
+    case 'discord':
+      return toText(value).replace(/[\\*_~`|>#@<[\]()-]/g, '\\$&')
+    case 'header':
+      return toText(value).replace(/[\r\n]+/g, ' ')
+    case 'text':
+      return toText(value)
+  }
+}
+
+/** Deepest supported `{{#if}}` nesting */
+export const MAX_TEMPLATE_BLOCK_DEPTH = 5
+
+/**
+ * Problem found in a template
+ *
+ * - `syntax`: malformed tag, expression or block
+ * - `unknown_variable`: variable or path that is not allowed
+ * - `unknown_filter`: filter that does not exist
+ * - `invalid_argument`: wrong filter arguments
+ * - `missing_value`: path not present on the rendered event (render only)
+ */
+export interface TemplateIssue {
+  code: 'syntax' | 'unknown_variable' | 'unknown_filter' | 'invalid_argument' | 'missing_value'
+  message: string
+  /** Expression inside the offending tag */
+  expression?: string
+}
+
+/** Filter call with its literal arguments */
+interface TemplateFilterCall {
+  name: TemplateFilterName
+  args: TemplateArgument[]
+}
+
+/** Parsed `{{ path | filter }}` expression */
+interface TemplateExpression {
+  source: string
+  path: string[]
+  filters: TemplateFilterCall[]
+}
+
+/** Parsed template node */
+type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'output'; expression: TemplateExpression; inJsonString: boolean }
+  | {
+      kind: 'if'
+      expression: TemplateExpression
+      body: TemplateNode[]
+      alternate: TemplateNode[]
+    }
+
+/** Values available to a template */
+export type TemplateContext = Partial<Record<TemplateVariable, unknown>>
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g
+const TOKEN_PATTERN =
+  /\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|(-?\d+(?:\.\d+)?)(?![\w.])|([A-Za-z_][\w.]*)|([|(),]))/y
+const SEGMENT_PATTERN = /^(?:[A-Za-z_]\w*|\d+)$/
+const BLOCKED_SEGMENTS = new Set(['__proto__', 'constructor', 'prototype'])
+const VARIABLE_NAMES = new Set<string>(TEMPLATE_VARIABLES.map((variable) => variable.name))
+
+function toText(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Whether JSON text ends inside a string literal
+ *
+ * @param text - Template text between tags
+ * @param inString - Whether the text starts inside a string literal
+ */
+function endsInJsonString(text: string, inString: boolean): boolean {
+  let escaped = false
+  for (const char of text) {
+    if (escaped) escaped = false
+    else if (char === '\\' && inString) escaped = true
+    else if (char === '"') inString = !inString
+  }
+  return inString
+}
+
+function isFilterName(name: string): name is TemplateFilterName {
+  return Object.hasOwn(TEMPLATE_FILTERS, name)
+}
+
+type Token =
+  | { type: 'string' | 'identifier' | 'punctuation'; value: string }
+  | { type: 'number'; value: number }
+
+function isPunctuation(token: Token | undefined, value: string): boolean {
+  return token?.type === 'punctuation' && token.value === value
+}
+
+function tokenize(source: string): Token[] | null {
+  const tokens: Token[] = []
+  TOKEN_PATTERN.lastIndex = 0
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    if (!source.slice(TOKEN_PATTERN.lastIndex).trim()) break
+    const match = TOKEN_PATTERN.exec(source)
+    if (!match) return null
+    const [, double, single, number, identifier, punctuation] = match
+    if (double !== undefined || single !== undefined) {
+      tokens.push({ type: 'string', value: (double ?? single ?? '').replace(/\\(.)/g, '$1') })
+    } else if (number !== undefined) {
+      tokens.push({ type: 'number', value: Number(number) })
+    } else if (identifier !== undefined) {
+      tokens.push({ type: 'identifier', value: identifier })
+    } else {
+      tokens.push({ type: 'punctuation', value: punctuation ?? '' })
+    }
+  }
+  return tokens
+}
+
+function validatePath(path: string, issues: TemplateIssue[], source: string): string[] | null {
+  const segments = path.split('.')
+  const [root] = segments
+  if (segments.some((segment) => !SEGMENT_PATTERN.test(segment) || BLOCKED_SEGMENTS.has(segment))) {
+    issues.push({
+      code: 'unknown_variable',
+      message: `Path "${path}" is not allowed`,
+      expression: source,
+    })
+    return null
+  }
+  if (!root || !VARIABLE_NAMES.has(root)) {
+    issues.push({
+      code: 'unknown_variable',
+      message: `Unknown variable "${path}"`,
+      expression: source,
+    })
+    return null
+  }
+  if (root !== 'data' && segments.length > 1) {
+    issues.push({
+      code: 'unknown_variable',
+      message: `"${root}" has no fields (use data.* for event payload fields)`,
+      expression: source,
+    })
+    return null
+  }
+  return segments
+}
+
+function parseExpression(source: string, issues: TemplateIssue[]): TemplateExpression | null {
+  const tokens = tokenize(source)
+  const [head, ...rest] = tokens ?? []
+  if (!tokens || head?.type !== 'identifier') {
+    issues.push({ code: 'syntax', message: `Invalid expression "${source}"`, expression: source })
+    return null
+  }
+
+  const path = validatePath(head.value, issues, source)
+  const filters: TemplateFilterCall[] = []
+  let index = 0
+  const next = () => rest[index++]
+  const syntaxError = () => {
+    issues.push({ code: 'syntax', message: `Invalid expression "${source}"`, expression: source })
+    return null
+  }
+
+  while (index < rest.length) {
+    if (!isPunctuation(next(), '|')) return syntaxError()
+    const name = next()
+    if (name?.type !== 'identifier') return syntaxError()
+
+    const args: TemplateArgument[] = []
+    if (isPunctuation(rest[index], '(')) {
+      index++
+      while (!isPunctuation(rest[index], ')')) {
+        const arg = next()
+        if (arg?.type !== 'string' && arg?.type !== 'number') return syntaxError()
+        args.push(arg.value)
+        if (isPunctuation(rest[index], ',')) index++
+        else if (!isPunctuation(rest[index], ')')) return syntaxError()
+      }
+      index++
+    }
+
+    if (!isFilterName(name.value)) {
+      issues.push({
+        code: 'unknown_filter',
+        message: `Unknown filter "${name.value}"`,
+        expression: source,
+      })
+      continue
+    }
+    const filter: TemplateFilterDefinition = TEMPLATE_FILTERS[name.value]
+    const argError =
+      args.length > filter.maxArgs
+        ? `${name.value} takes at most ${filter.maxArgs} argument${filter.maxArgs === 1 ? '' : 's'}`
+        : (filter.validateArgs?.(args) ?? null)
+    if (argError) {
+      issues.push({ code: 'invalid_argument', message: argError, expression: source })
+      continue
+    }
+    filters.push({ name: name.value, args })
+  }
+
+  return path ? { source, path, filters } : null
+}
+
+/**
+ * Parse a template into nodes
+ *
+ * @param template - Template string
+ * @returns Parsed nodes and any problems found (nodes with errors are dropped)
+ */
+function parseTemplate(template: string): { nodes: TemplateNode[]; issues: TemplateIssue[] } {
+  const issues: TemplateIssue[] = []
+  const root: TemplateNode[] = []
+  const stack: Array<Extract<TemplateNode, { kind: 'if' }> & { inElse: boolean }> = []
+  const current = () => {
+    const frame = stack[stack.length - 1]
+    return frame ? (frame.inElse ? frame.alternate : frame.body) : root
+  }
+  // Tracked in source order for `json` output; both branches of a block count
+  let inJsonString = false
+  const pushText = (value: string) => {
+    if (!value) return
+    if (value.includes('{{')) {
+      issues.push({ code: 'syntax', message: 'Unclosed "{{" tag' })
+    }
+    inJsonString = endsInJsonString(value, inJsonString)
+    current().push({ kind: 'text', value })
+  }
+
+  let lastIndex = 0
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    pushText(template.slice(lastIndex, match.index))
+    lastIndex = match.index + match[0].length
+    const source = (match[1] ?? '').trim()
+
+    if (source.startsWith('#if ') || source === '#if') {
+      const expression = parseExpression(source.slice(3).trim(), issues)
+      const block = {
+        kind: 'if' as const,
+        expression: expression ?? { source, path: [], filters: [] },
+        body: [],
+        alternate: [],
+        inElse: false,
+      }
+      current().push(block)
+      stack.push(block)
+      if (stack.length > MAX_TEMPLATE_BLOCK_DEPTH) {
+        issues.push({
+          code: 'syntax',
+          message: `{{#if}} blocks cannot be nested more than ${MAX_TEMPLATE_BLOCK_DEPTH} levels deep`,
+          expression: source,
+        })
+      }
+    } else if (source === 'else') {
+      const frame = stack[stack.length - 1]
+      if (!frame || frame.inElse) {
+        issues.push({ code: 'syntax', message: 'Unexpected {{else}}', expression: source })
+      } else {
+        frame.inElse = true
+      }
+    } else if (source === '/if') {
+      if (!stack.pop()) {
+        issues.push({ code: 'syntax', message: 'Unexpected {{/if}}', expression: source })
+      }
+    } else if (source.startsWith('#') || source.startsWith('/')) {
+      issues.push({ code: 'syntax', message: `Unknown block "${source}"`, expression: source })
+    } else {
+      const expression = parseExpression(source, issues)
+      if (expression) current().push({ kind: 'output', expression, inJsonString })
+    }
+  }
+  pushText(template.slice(lastIndex))
+
+  if (stack.length > 0) {
+    issues.push({ code: 'syntax', message: 'Unclosed {{#if}} block (missing {{/if}})' })
+  }
+  return { nodes: root, issues }
+}
+
+/**
+ * Check a template for syntax errors, unknown variables and filters
+ *
+ * @param template - Template string
+ * @returns Problems found (empty if the template is valid)
+ */
+export function validateTemplate(template: string): TemplateIssue[] {
+  return parseTemplate(template).issues
+}
+
+function resolvePath(context: TemplateContext, path: string[]): unknown {
+  let current: unknown = context
+  for (const segment of path) {
+    if (current === null || typeof current !== 'object' || !Object.hasOwn(current, segment)) {
+      return undefined
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+  return current
+}
+
+function evaluate(expression: TemplateExpression, context: TemplateContext): unknown {
+  return expression.filters.reduce<unknown>(
+    (value, filter) =>
+      (TEMPLATE_FILTERS[filter.name] as TemplateFilterDefinition).apply(value, filter.args),
+    resolvePath(context, expression.path)
+  )
+}
+
+function renderNodes(
+  nodes: TemplateNode[],
+  context: TemplateContext,
+  format: TemplateFormat,
+  issues: TemplateIssue[]
+) {
+  let output = ''
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.value
+    } else if (node.kind === 'if') {
+      const value = evaluate(node.expression, context)
+      const truthy =
+        value !== undefined && value !== null && value !== false && value !== '' && value !== 0
+      output += renderNodes(truthy ? node.body : node.alternate, context, format, issues)
+    } else {
+      const value = evaluate(node.expression, context)
+      if (value === undefined) {
+        issues.push({
+          code: 'missing_value',
+          message: `"${node.expression.path.join('.')}" is not present on this event`,
+          expression: node.expression.source,
+        })
+      }
+      const encoded = node.expression.filters.at(-1)?.name === 'json'
+      output += escapeValue(value, format, node.inJsonString, encoded)
+    }
+  }
+  return output
+}
+
+/**
+ * Render a template against a context
+ *
+ * Paths missing from the context render as empty text and are reported
+ * as `missing_value` (use `default(...)` or `{{#if}}` for optional fields).
+ *
+ * @param template - Template string
+ * @param context - Values from `createTemplateContext`
+ * @param format - Output format rendered values are escaped for (default: `text`)
+ * @returns Rendered output (empty if the template is invalid) and problems found
+ */
+export function renderTemplate(
+  template: string,
+  context: TemplateContext,
+  format: TemplateFormat = 'text'
+): { output: string; errors: TemplateIssue[] } {
+  const { nodes, issues } = parseTemplate(template)
+  if (issues.length > 0) return { output: '', errors: issues }
+
+  const errors: TemplateIssue[] = []
+  const output = renderNodes(nodes, context, format, errors)
+  return { output, errors }
+}
+
+/**
+ * Build the template context for an event
+ *
+ * @param event - Event the trigger fired on
+ * @param trigger - Trigger ID and name, if known
+ * @returns Template context
+ */
+export function createTemplateContext(
+  event: BlockchainEvent,
+  trigger?: { id?: string; name?: string }
+): TemplateContext {
+  return {
+    eventType: event.eventType,
+    agentId: event.agentId,
+    chainId: event.chainId,
+    registry: event.registry,
+    blockNumber: event.blockNumber,
+    transactionHash: event.transactionHash,
+    timestamp: event.timestamp,
+    reputationScore: event.data.score ?? event.data.reputationScore,
+    triggerId: trigger?.id,
+    triggerName: trigger?.name,
+    data: event.data,
+  }
+}
+
+function sampleFieldValue(field: EventFieldDefinition): unknown {
+  switch (field.type) {
+    case 'numeric':
+      return 85
+    case 'address':
+      return '0x1234567890abcdef1234567890abcdef12345678'
+    case 'bytes32':
+      return `0x${'ab'.repeat(32)}`
+    case 'timestamp':
+      return 1735689600
+    case 'enum':
+      return field.options?.[0] ?? ''
+  }
+}
+
+/**
+ * Create a sample event for template previews
+ *
+ * Payload fields come from the event catalog with placeholder values.
+ *
+ * @param eventType - Event type (defaults to the first catalog entry)
+ * @param chainId - Chain ID (defaults to Sepolia)
+ * @returns Sample event
+ */
+export function createSampleEvent(
+  eventType: string = EVENT_TYPE_LIST[0] ?? 'AgentRegistered',
+  chainId: number = SUPPORTED_CHAINS.SEPOLIA
+): BlockchainEvent {
+  const info = getEventTypeInfo(eventType)
+  return {
+    id: '00000000-0000-4000-8000-000000000000',
+    chainId,
+    registry: info?.registry ?? EVENT_CATALOG.AgentRegistered.registry,
+    eventType,
+    blockNumber: 12345678,
+    transactionHash: `0x${'1f'.repeat(32)}`,
+    agentId: 42,
+    data: Object.fromEntries(
+      (info?.fields ?? []).map((field) => [field.name, sampleFieldValue(field)])
+    ),
+    timestamp: '2025-01-01T00:00:00Z',
+    createdAt: '2025-01-01T00:00:00Z',
+  }
+}
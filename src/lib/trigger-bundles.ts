@@ -0,0 +1,523 @@
+/**
+ * Trigger bundles
+ *
+ * Export and import of triggers as versioned JSON or YAML bundles, to
+ * move triggers between organizations or environments.
+ *
+ * Exports strip server-side fields (IDs, counters, timestamps) and by
+ * default replace secrets in action configs with `REDACTED_SECRET`:
+ * REST headers, Slack and Discord webhook URLs, credentials and
+ * token-like query parameters of REST URLs, and any config key that
+ * looks like a credential (`token`, `secret`, `password`, `apiKey`,
+ * `authorization`...).
+ *
+ * Imports are planned before anything is created: every trigger is
+ * validated with `createTriggerRequestSchema`, matched by name against
+ * the organization's triggers and, for replacements, diffed against the
+ * existing trigger. Replacements keep the secrets of the trigger they
+ * replace; other triggers that still contain redacted secrets are
+ * imported disabled.
+ *
+ * @module lib/trigger-bundles
+ *
+ * @example
+ * ```ts
+ * const bundle = createTriggerBundle(triggers, { organizationId: org.id })
+ * const text = serializeTriggerBundle(bundle, 'yaml')
+ *
+ * const plan = planTriggerImport(parseTriggerBundle(text), existingTriggers, 'rename')
+ * plan.items.filter((item) => item.action === 'create')
+ * ```
+ */
+
+import { parse as parseYaml, stringify as toYaml } from 'yaml'
+import { mapConditionTree } from './condition-tree'
+import {
+  findRedactedSecretPaths,
+  REDACTED_SECRET,
+  SECRET_ACTION_KEYS,
+  SECRET_CONFIG_KEY_PATTERN,
+  SECRET_CONTAINER_KEYS,
+  SECRET_QUERY_PARAM_PATTERN,
+  SECRET_URL_ACTION_KEYS,
+  TRIGGER_BUNDLE_FORMAT,
+  TRIGGER_BUNDLE_VERSION,
+  type TriggerBundle,
+  type TriggerBundleFileFormat,
+  type TriggerImportConflictStrategy,
+  triggerBundleSchema,
+} from './validations/trigger-bundle'
+import {
+  type CreateTriggerRequest,
+  createTriggerRequestSchema,
+  type Trigger,
+  type TriggerCondition,
+  type TriggerRevisionSnapshot,
+} from './validations/trigger'
+
+/**
+ * Field change between an existing trigger and its replacement
+ */
+export interface TriggerChange {
+  /** Dotted path, e.g. `actions.0.config.url` */
+  path: string
+  type: 'added' | 'removed' | 'changed'
+  before?: unknown
+  after?: unknown
+}
+
+/**
+ * Planned outcome for one trigger of a bundle
+ *
+ * - `create`: created as a new trigger (possibly renamed)
+ * - `replace`: overwrites the existing trigger of the same name
+ * - `skip`: a trigger of the same name exists and is kept
+ * - `invalid`: fails validation and is not imported
+ */
+export interface TriggerImportItem {
+  /** Position in the bundle */
+  index: number
+  /** Name in the bundle */
+  name: string
+  action: 'create' | 'replace' | 'skip' | 'invalid'
+  /** Validated request to send; absent for invalid triggers */
+  request?: CreateTriggerRequest
+  /** Existing trigger with the same name */
+  conflict?: Trigger
+  /** Changes to the existing trigger, for replacements */
+  changes: TriggerChange[]
+  /** Validation errors, for invalid triggers */
+  errors: string[]
+  /** Paths of secrets still redacted; the trigger is imported disabled */
+  redactedPaths: string[]
+}
+
+/**
+ * Result of planning an import (the dry run)
+ */
+export interface TriggerImportPlan {
+  items: TriggerImportItem[]
+  /** Number of items per action */
+  counts: Record<TriggerImportItem['action'], number>
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Export
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Convert a trigger to the request that would recreate it
+ *
+ * @param trigger - Trigger with conditions and actions, or a revision snapshot
+ * @returns Create request without server-side fields
+ */
+export function toCreateTriggerRequest(
+  trigger: Trigger | TriggerRevisionSnapshot
+): CreateTriggerRequest {
+  return {
+    name: trigger.name,
+    description: trigger.description ?? undefined,
+    chainId: trigger.chainId,
+    registry: trigger.registry,
+    enabled: trigger.enabled,
+    isStateful: trigger.isStateful,
+    stateConfig: (trigger.isStateful && trigger.stateConfig) || undefined,
+    conditions: mapConditionTree(trigger.conditions ?? [], (c: TriggerCondition) => ({
+      conditionType: c.conditionType,
+      field: c.field,
+      operator: c.operator,
+      value: c.value,
+      config: c.config,
+    })),
+    actions: (trigger.actions ?? [])
+      .slice()
+      .sort((a, b) => b.priority - a.priority)
+      .map((a) => ({ actionType: a.actionType, priority: a.priority, config: a.config })),
+  }
+}
+
+function redactValue(value: unknown, path: string, redactAll: boolean, paths: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item, i) => redactValue(item, `${path}.${i}`, redactAll, paths))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        redactValue(
+          child,
+          `${path}.${key}`,
+          redactAll || SECRET_CONTAINER_KEYS.includes(key) || SECRET_CONFIG_KEY_PATTERN.test(key),
+          paths
+        ),
+      ])
+    )
+  }
+  if (redactAll && typeof value === 'string' && value !== '') {
+    paths.push(path)
+    return REDACTED_SECRET
+  }
+  return value
+}
+
+/**
+ * Replace the user info and token-like query parameter values of a URL
+ * with `REDACTED_SECRET`, keeping the rest readable
+ *
+ * @example
+ * ```ts
+ * redactUrlSecrets('https://api.example.com/hook?token=abc&v=2')
+ * // => 'https://api.example.com/hook?token=[REDACTED]&v=2'
+ * ```
+ */
+export function redactUrlSecrets(url: string): string {
+  return url
+    .replace(/^([a-z][\w+.-]*:\/\/)[^/?#@]+@/i, `$1${REDACTED_SECRET}@`)
+    .replace(/([?&])([^=&#]+)=([^&#]*)/g, (match, separator: string, key: string, value: string) =>
+      value !== '' && SECRET_QUERY_PARAM_PATTERN.test(key)
+        ? `${separator}${key}=${REDACTED_SECRET}`
+        : match
+    )
+}
+
+/**
+ * Trigger with actions to redact: a create request or trigger form values
+ */
+interface RedactableTrigger {
+  actions: { actionType: string; config?: Record<string, unknown> }[]
+}
+
+/**
+ * Replace secrets in action configs with `REDACTED_SECRET`
+ *
+ * @param request - Trigger request or form values
+ * @returns Redacted copy and the paths of the redacted values
+ *
+ * @example
+ * ```ts
+ * redactTriggerSecrets(request).redactedPaths
+ * // => ['actions.0.config.headers.Authorization']
+ * ```
+ */
+export function redactTriggerSecrets<T extends RedactableTrigger>(
+  request: T
+): {
+  request: T
+  redactedPaths: string[]
+} {
+  const redactedPaths: string[] = []
+  const actions = request.actions.map((action, i) => {
+    const path = `actions.${i}.config`
+    const redacted = redactValue(action.config ?? {}, path, false, redactedPaths)
+    const config = redacted as Record<string, unknown>
+    for (const key of SECRET_ACTION_KEYS[action.actionType] ?? []) {
+      const value = config[key]
+      if (typeof value === 'string' && value !== '' && value !== REDACTED_SECRET) {
+        config[key] = REDACTED_SECRET
+        redactedPaths.push(`${path}.${key}`)
+      }
+    }
+    for (const key of SECRET_URL_ACTION_KEYS[action.actionType] ?? []) {
+      const value = config[key]
+      if (typeof value !== 'string') continue
+      const url = redactUrlSecrets(value)
+      if (url !== value) {
+        config[key] = url
+        redactedPaths.push(`${path}.${key}`)
+      }
+    }
+    return { ...action, config }
+  })
+  return { request: { ...request, actions }, redactedPaths }
+}
+
+/**
+ * Build a bundle from triggers
+ *
+ * @param triggers - Triggers with their conditions and actions
+ * @param options - Source organization, and whether to keep secrets
+ * @returns Bundle ready to serialize
+ */
+export function createTriggerBundle(
+  triggers: Trigger[],
+  options: { organizationId?: string; organizationName?: string; includeSecrets?: boolean } = {}
+): TriggerBundle {
+  const redacted = !options.includeSecrets
+  return {
+    format: TRIGGER_BUNDLE_FORMAT,
+    version: TRIGGER_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      organizationId: options.organizationId,
+      organizationName: options.organizationName,
+    },
+    redacted,
+    triggers: triggers.map((trigger) => {
+      const request = toCreateTriggerRequest(trigger)
+      return redacted ? redactTriggerSecrets(request).request : request
+    }),
+  }
+}
+
+/**
+ * Serialize a bundle
+ *
+ * @param bundle - Bundle to write
+ * @param fileFormat - `json` (pretty-printed) or `yaml`
+ * @returns File contents
+ */
+export function serializeTriggerBundle(
+  bundle: TriggerBundle,
+  fileFormat: TriggerBundleFileFormat
+): string {
+  return fileFormat === 'yaml'
+    ? toYaml(bundle, { lineWidth: 0 })
+    : `${JSON.stringify(bundle, null, 2)}\n`
+}
+
+/**
+ * Suggested file name for a bundle, e.g. `triggers-2026-03-01.yaml`
+ *
+ * @param bundle - Bundle to write
+ * @param fileFormat - File format
+ * @returns File name
+ */
+export function getTriggerBundleFilename(
+  bundle: TriggerBundle,
+  fileFormat: TriggerBundleFileFormat
+): string {
+  return `triggers-${bundle.exportedAt.slice(0, 10)}.${fileFormat}`
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Import
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Parse and validate a bundle file
+ *
+ * JSON and YAML are both accepted; the format is detected from the content.
+ *
+ * @param text - File contents
+ * @returns Validated bundle (triggers are validated by `planTriggerImport`)
+ * @throws {Error} With a readable message when the file is not a valid bundle
+ */
+export function parseTriggerBundle(text: string): TriggerBundle {
+  let data: unknown
+  try {
+    data = parseYaml(text)
+  } catch (error) {
+    // YAML errors end with an excerpt of the file; keep the first line
+    const message = error instanceof Error ? error.message.split('\n')[0] : error
+    throw new Error(`Could not read bundle: ${message}`)
+  }
+
+  const result = triggerBundleSchema.safeParse(data)
+  if (!result.success) {
+    const issue = result.error.issues[0]
+    const path = issue?.path.join('.')
+    throw new Error(
+      `Invalid bundle: ${path ? `${path} - ` : ''}${issue?.message ?? 'unknown error'}`
+    )
+  }
+  return result.data
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>): void {
+  if (Array.isArray(value) || isRecord(value)) {
+    const entries = Array.isArray(value)
+      ? value.map((item, i) => [String(i), item] as const)
+      : Object.entries(value).filter(([, child]) => child !== undefined)
+    for (const [key, child] of entries) {
+      flatten(child, path ? `${path}.${key}` : key, out)
+    }
+    if (entries.length === 0 && path) out.set(path, Array.isArray(value) ? [] : {})
+    return
+  }
+  out.set(path, value)
+}
+
+/**
+ * List the field changes between two trigger requests
+ *
+ * @param before - Current trigger as a request
+ * @param after - Imported trigger
+ * @returns Changes sorted by path
+ */
+export function diffTriggerRequests(
+  before: CreateTriggerRequest,
+  after: CreateTriggerRequest
+): TriggerChange[] {
+  const beforeFields = new Map<string, unknown>()
+  const afterFields = new Map<string, unknown>()
+  flatten(before, '', beforeFields)
+  flatten(after, '', afterFields)
+
+  const changes: TriggerChange[] = []
+  for (const [path, value] of beforeFields) {
+    if (!afterFields.has(path)) {
+      changes.push({ path, type: 'removed', before: value })
+    } else if (JSON.stringify(afterFields.get(path)) !== JSON.stringify(value)) {
+      changes.push({ path, type: 'changed', before: value, after: afterFields.get(path) })
+    }
+  }
+  for (const [path, value] of afterFields) {
+    if (!beforeFields.has(path)) changes.push({ path, type: 'added', after: value })
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * Dotted paths of the redacted secrets in a trigger request
+ */
+function findRedactedPaths(request: unknown): string[] {
+  const actions = isRecord(request) ? request.actions : undefined
+  return findRedactedSecretPaths(actions).map((path) => path.join('.'))
+}
+
+function getPath(value: unknown, path: readonly (string | number)[]): unknown {
+  return path.reduce<unknown>(
+    (node, key) =>
+      isRecord(node) || Array.isArray(node) ? (node as Record<string, unknown>)[key] : undefined,
+    value
+  )
+}
+
+function setPath(value: unknown, path: readonly (string | number)[], next: unknown): unknown {
+  const [key, ...rest] = path
+  if (key === undefined) return next
+  if (Array.isArray(value)) {
+    return value.map((item, i) => (i === key ? setPath(item, rest, next) : item))
+  }
+  if (isRecord(value)) return { ...value, [key]: setPath(value[key], rest, next) }
+  return value
+}
+
+/**
+ * Put back secrets of the existing trigger at the paths that are redacted
+ */
+function restoreSecrets(
+  request: CreateTriggerRequest,
+  existing: CreateTriggerRequest
+): CreateTriggerRequest {
+  let restored: unknown = request
+  for (const path of findRedactedSecretPaths(request.actions)) {
+    const secret = getPath(existing, path)
+    if (typeof secret === 'string') restored = setPath(restored, path, secret)
+  }
+  return restored as CreateTriggerRequest
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+/**
+ * Find a free trigger name by appending a counter, e.g. `Alert 2`
+ */
+function getFreeName(name: string, taken: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const suffix = ` ${n}`
+    const candidate = `${name.slice(0, 100 - suffix.length)}${suffix}`
+    if (!taken.has(normalizeName(candidate))) return candidate
+  }
+}
+
+/**
+ * Plan an import without creating anything (dry run)
+ *
+ * @param bundle - Parsed bundle
+ * @param existing - Triggers of the target organization
+ * @param strategy - What to do when a trigger name already exists
+ * @returns Planned action for every trigger in the bundle
+ */
+export function planTriggerImport(
+  bundle: TriggerBundle,
+  existing: Trigger[],
+  strategy: TriggerImportConflictStrategy
+): TriggerImportPlan {
+  const existingByName = new Map(existing.map((t) => [normalizeName(t.name), t]))
+  const taken = new Set(existingByName.keys())
+  const seen = new Set<string>()
+
+  const items = bundle.triggers.map((raw, index): TriggerImportItem => {
+    const name = isRecord(raw) && typeof raw.name === 'string' ? raw.name : `Trigger ${index + 1}`
+    const item: TriggerImportItem = {
+      index,
+      name,
+      action: 'invalid',
+      changes: [],
+      errors: [],
+      redactedPaths: [],
+    }
+
+    // Enabled triggers can't contain redacted secrets: validate as disabled,
+    // and enable below once the secrets are restored
+    const requestedEnabled = !isRecord(raw) || raw.enabled !== false
+    const redactedInput = isRecord(raw) && findRedactedPaths(raw).length > 0
+    const result = createTriggerRequestSchema.safeParse(
+      redactedInput ? { ...raw, enabled: false } : raw
+    )
+    if (!result.success) {
+      item.errors = result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      )
+      return item
+    }
+
+    const key = normalizeName(result.data.name)
+    if (seen.has(key)) {
+      item.errors = ['Duplicate name in bundle']
+      return item
+    }
+    seen.add(key)
+
+    const conflict = existingByName.get(key)
+    let current: CreateTriggerRequest | undefined
+    let planned: TriggerImportItem
+    if (!conflict) {
+      planned = { ...item, action: 'create', request: result.data }
+    } else if (strategy === 'skip') {
+      planned = { ...item, action: 'skip', request: result.data, conflict }
+    } else if (strategy === 'rename') {
+      const renamed = getFreeName(result.data.name, taken)
+      taken.add(normalizeName(renamed))
+      planned = { ...item, action: 'create', request: { ...result.data, name: renamed }, conflict }
+    } else if (
+      result.data.chainId !== conflict.chainId ||
+      result.data.registry !== conflict.registry
+    ) {
+      // Updates can't move a trigger to another chain or registry
+      return {
+        ...item,
+        conflict,
+        errors: ['Chain or registry differs from the existing trigger; import it renamed instead'],
+      }
+    } else {
+      // Redacted secrets keep the values of the trigger being replaced
+      current = toCreateTriggerRequest(conflict)
+      const request = restoreSecrets(result.data, current)
+      planned = { ...item, action: 'replace', request, conflict }
+    }
+
+    if (planned.request) {
+      planned.redactedPaths = findRedactedPaths(planned.request)
+      planned.request = {
+        ...planned.request,
+        enabled: requestedEnabled && planned.redactedPaths.length === 0,
+      }
+    }
+    if (current && planned.request) {
+      planned.changes = diffTriggerRequests(current, planned.request)
+    }
+    return planned
+  })
+
+  const counts = { create: 0, replace: 0, skip: 0, invalid: 0 }
+  for (const item of items) counts[item.action]++
+  return { items, counts }
+}
@@ -0,0 +1,74 @@
+/**
+ * Trigger revisions
+ *
+ * Structured diffs between saved versions of a trigger, grouped by what
+ * changed: name, description, enabled state, conditions, actions and
+ * other settings (chain, registry, stateful config).
+ *
+ * Snapshots are compared as create requests (see `toCreateTriggerRequest`)
+ * so IDs and timestamps of conditions and actions don't show up as
+ * changes.
+ *
+ * @module lib/trigger-revisions
+ *
+ * @example
+ * ```ts
+ * const [latest, previous] = revisions
+ * diffTriggerRevisions(previous, latest)
+ * // => [{ section: 'enabled', changes: [{ path: 'enabled', type: 'changed', before: true, after: false }] }]
+ * ```
+ */
+
+import { diffTriggerRequests, type TriggerChange, toCreateTriggerRequest } from './trigger-bundles'
+import type { TriggerRevision } from './validations/trigger'
+
+/** Parts of a trigger a revision diff is grouped by, in display order */
+export const TRIGGER_REVISION_SECTIONS = [
+  'name',
+  'description',
+  'enabled',
+  'conditions',
+  'actions',
+  'settings',
+] as const
+
+export type TriggerRevisionSection = (typeof TRIGGER_REVISION_SECTIONS)[number]
+
+/**
+ * Changes to one part of a trigger
+ */
+export interface TriggerRevisionDiff {
+  section: TriggerRevisionSection
+  changes: TriggerChange[]
+}
+
+/**
+ * Section of a change path; fields without their own section are settings
+ */
+function getSection(path: string): TriggerRevisionSection {
+  const key = path.split('.')[0]
+  return TRIGGER_REVISION_SECTIONS.find((section) => section === key) ?? 'settings'
+}
+
+/**
+ * List what changed between a revision and the one before it
+ *
+ * @param previous - Revision before, or undefined for the first revision
+ * @param revision - Revision to describe
+ * @returns Non-empty sections in display order; empty for the first revision
+ */
+export function diffTriggerRevisions(
+  previous: TriggerRevision | undefined,
+  revision: TriggerRevision
+): TriggerRevisionDiff[] {
+  if (!previous) return []
+
+  const changes = diffTriggerRequests(
+    toCreateTriggerRequest(previous.snapshot),
+    toCreateTriggerRequest(revision.snapshot)
+  )
+  return TRIGGER_REVISION_SECTIONS.map((section) => ({
+    section,
+    changes: changes.filter((change) => getSection(change.path) === section),
+  })).filter((diff) => diff.changes.length > 0)
+}
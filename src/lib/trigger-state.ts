@@ -0,0 +1,161 @@
+/**
+ * Stateful trigger helpers
+ *
+ * A stateful trigger keeps counters and cooldowns between events, either
+ * per agent or once for the whole trigger. This module holds the defaults,
+ * labels and formatting shared by the trigger wizard, the review step and
+ * the trigger detail page.
+ *
+ * @module lib/trigger-state
+ *
+ * @example
+ * ```ts
+ * describeStateConfig({
+ *   windowSeconds: 86400,
+ *   countThreshold: 3,
+ *   cooldownSeconds: 3600,
+ *   scope: 'agent',
+ *   resetPolicy: 'on_fire',
+ * })
+ * // => '3 matching events within 24h per agent, cooldown 1h, reset after firing'
+ * ```
+ */
+
+import type {
+  TriggerStateConfig,
+  TriggerStateEntry,
+  TriggerStateResetPolicy,
+  TriggerStateScope,
+} from './validations/trigger'
+
+/** Settings applied when a trigger is first made stateful */
+export const DEFAULT_TRIGGER_STATE_CONFIG: TriggerStateConfig = {
+  windowSeconds: 24 * 60 * 60,
+  countThreshold: 3,
+  cooldownSeconds: 0,
+  scope: 'agent',
+  resetPolicy: 'on_fire',
+}
+
+/** Display labels and help text for reset policies */
+export const STATE_RESET_POLICY_INFO: Record<
+  TriggerStateResetPolicy,
+  { label: string; description: string }
+> = {
+  on_fire: {
+    label: 'RESET AFTER FIRING',
+    description: 'Counters start from zero every time the trigger fires',
+  },
+  window_expiry: {
+    label: 'ROLLING WINDOW',
+    description: 'Events drop out of the count once they are older than the window',
+  },
+  manual: {
+    label: 'MANUAL RESET',
+    description: 'Counters keep growing until the state is reset from the trigger page',
+  },
+}
+
+/** Display labels for state scopes */
+export const STATE_SCOPE_LABELS: Record<TriggerStateScope, string> = {
+  agent: 'PER AGENT',
+  trigger: 'WHOLE TRIGGER',
+}
+
+/** Units offered by duration inputs, largest first */
+export const DURATION_UNITS = [
+  { value: 'days', label: 'DAYS', seconds: 86400 },
+  { value: 'hours', label: 'HOURS', seconds: 3600 },
+  { value: 'minutes', label: 'MINUTES', seconds: 60 },
+] as const
+
+export type DurationUnit = (typeof DURATION_UNITS)[number]['value']
+
+/**
+ * Split seconds into an amount of the largest unit that divides it evenly
+ *
+ * @param seconds - Duration in seconds
+ * @returns Amount and unit (minutes for durations that don't divide evenly)
+ *
+ * @example
+ * ```ts
+ * splitDuration(86400) // => { amount: 1, unit: 'days' }
+ * splitDuration(5400)  // => { amount: 90, unit: 'minutes' }
+ * ```
+ */
+export function splitDuration(seconds: number): { amount: number; unit: DurationUnit } {
+  const unit =
+    DURATION_UNITS.find((candidate) => seconds > 0 && seconds % candidate.seconds === 0) ??
+    DURATION_UNITS[2] // minutes
+  return { amount: Math.round(seconds / unit.seconds), unit: unit.value }
+}
+
+/**
+ * Convert an amount of a unit to seconds
+ *
+ * @param amount - Amount of the unit
+ * @param unit - Duration unit
+ * @returns Duration in seconds
+ */
+export function toSeconds(amount: number, unit: DurationUnit): number {
+  const definition = DURATION_UNITS.find((candidate) => candidate.value === unit)
+  return Math.round(amount * (definition?.seconds ?? 1))
+}
+
+/**
+ * Format a duration in seconds compactly, without rounding
+ *
+ * @param seconds - Duration in seconds
+ * @returns e.g. '45s', '1m 30s', '1h 30m', '7d'
+ */
+export function formatSeconds(seconds: number): string {
+  const parts = [
+    [Math.floor(seconds / 86400), 'd'],
+    [Math.floor((seconds % 86400) / 3600), 'h'],
+    [Math.floor((seconds % 3600) / 60), 'm'],
+    [Math.round(seconds % 60), 's'],
+  ] as const
+  const filled = parts.filter(([amount]) => amount > 0)
+  return filled.length > 0 ? filled.map(([amount, unit]) => `${amount}${unit}`).join(' ') : '0s'
+}
+
+/**
+ * Summarize a stateful trigger configuration in one line
+ *
+ * @param config - State configuration
+ * @returns Readable summary
+ */
+export function describeStateConfig(config: TriggerStateConfig): string {
+  const scope = config.scope === 'agent' ? 'per agent' : 'across all agents'
+  const count = config.countThreshold ?? 1
+  const events = `${count} matching event${count === 1 ? '' : 's'}`
+  const parts = [
+    config.windowSeconds
+      ? `${events} within ${formatSeconds(config.windowSeconds)} ${scope}`
+      : `${events} ${scope}`,
+  ]
+  if (config.cooldownSeconds > 0) {
+    parts.push(`cooldown ${formatSeconds(config.cooldownSeconds)}`)
+  }
+  parts.push(
+    config.resetPolicy === 'on_fire'
+      ? 'reset after firing'
+      : config.resetPolicy === 'window_expiry'
+        ? 'rolling window'
+        : 'manual reset'
+  )
+  return parts.join(', ')
+}
+
+/**
+ * Remaining cooldown of a state entry
+ *
+ * @param entry - State entry
+ * @param now - Current time in milliseconds (defaults to `Date.now()`)
+ * @returns Remaining seconds, or 0 if not cooling down
+ */
+export function getCooldownRemaining(entry: TriggerStateEntry, now = Date.now()): number {
+  if (!entry.cooldownUntil) return 0
+  const remaining = Date.parse(entry.cooldownUntil) - now
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0
+}
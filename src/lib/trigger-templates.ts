@@ -0,0 +1,348 @@
+/**
+ * Trigger templates
+ *
+ * Built-in template catalog and placeholder substitution for the trigger
+ * template gallery.
+ *
+ * A template is a trigger definition whose strings may contain
+ * `[[key]]` placeholders, one per declared parameter. Using a template
+ * fills the placeholders with the entered values and yields the initial
+ * values of the trigger form. The double square brackets keep placeholders
+ * apart from `{{variable}}` expressions in action message templates, which
+ * are rendered when the trigger fires.
+ *
+ * @module lib/trigger-templates
+ *
+ * @example
+ * ```ts
+ * const template = getBuiltInTriggerTemplate('reputation-drop')!
+ * const errors = validateTemplateParameters(template, { threshold: '40', chatId: '123' })
+ * if (Object.keys(errors).length === 0) {
+ *   const values = instantiateTriggerTemplate(template, { threshold: '40', chatId: '123' })
+ *   // values.conditions[1].value === '40'
+ * }
+ * ```
+ */
+
+import { SUPPORTED_CHAINS } from './constants'
+import { redactTriggerSecrets } from './trigger-bundles'
+import { chainIdSchema } from './validations/common'
+import type { CreateTriggerFormValues } from './validations/trigger'
+import type {
+  TriggerTemplateBody,
+  TriggerTemplateDefinition,
+  TriggerTemplateParameter,
+} from './validations/trigger-template'
+
+/** Placeholder syntax: `[[key]]` */
+const PLACEHOLDER_PATTERN = /\[\[([a-zA-Z][a-zA-Z0-9_]*)\]\]/g
+
+/**
+ * Templates shipped with the dashboard
+ */
+export const BUILT_IN_TRIGGER_TEMPLATES: readonly TriggerTemplateDefinition[] = [
+  {
+    id: 'reputation-drop',
+    name: 'Reputation drop alert',
+    description: 'Send a Telegram message when an agent reputation score falls below a threshold.',
+    category: 'reputation',
+    parameters: [
+      {
+        key: 'threshold',
+        label: 'Score threshold',
+        type: 'number',
+        description: 'Alert when the new score is below this value',
+        defaultValue: '50',
+      },
+      {
+        key: 'chainId',
+        label: 'Chain',
+        type: 'chain',
+        defaultValue: `${SUPPORTED_CHAINS.SEPOLIA}`,
+      },
+      { key: 'chatId', label: 'Telegram chat ID', type: 'text' },
+    ],
+    trigger: {
+      name: 'Reputation below [[threshold]]',
+      description: 'Alerts when a reputation score drops below [[threshold]]',
+      chainId: '[[chainId]]',
+      registry: 'reputation',
+      conditions: [
+        {
+          conditionType: 'event_filter',
+          field: 'event_type',
+          operator: 'eq',
+          value: 'ReputationUpdated',
+          config: {},
+        },
+        {
+          conditionType: 'reputation_threshold',
+          field: 'reputation_score',
+          operator: 'lt',
+          value: '[[threshold]]',
+          config: {},
+        },
+      ],
+      actions: [
+        {
+          actionType: 'telegram',
+          priority: 0,
+          config: {
+            chatId: '[[chatId]]',
+            message: 'Agent #{{agentId}} reputation dropped to {{reputationScore}}',
+          },
+        },
+      ],
+    },
+  },
+  {
+    id: 'new-agent',
+    name: 'New agent registered',
+    description: 'Call a webhook whenever a new agent registers on a chain.',
+    category: 'identity',
+    parameters: [
+      {
+        key: 'chainId',
+        label: 'Chain',
+        type: 'chain',
+        defaultValue: `${SUPPORTED_CHAINS.BASE_SEPOLIA}`,
+      },
+      { key: 'webhookUrl', label: 'Webhook URL', type: 'url' },
+    ],
+    trigger: {
+      name: 'New agent registered',
+      description: 'Notifies a webhook of every new agent registration',
+      chainId: '[[chainId]]',
+      registry: 'identity',
+      conditions: [
+        {
+          conditionType: 'event_filter',
+          field: 'event_type',
+          operator: 'eq',
+          value: 'AgentRegistered',
+          config: {},
+        },
+      ],
+      actions: [
+        {
+          actionType: 'rest',
+          priority: 0,
+          config: { url: '[[webhookUrl]]', method: 'POST' },
+        },
+      ],
+    },
+  },
+  {
+    id: 'validation-webhook',
+    name: 'Validations for my agents',
+    description: 'Call a webhook on every completed validation of an agent in a watchlist.',
+    category: 'validation',
+    parameters: [
+      {
+        key: 'watchlist',
+        label: 'Watchlist',
+        type: 'watchlist',
+        description: 'Agents to watch',
+      },
+      {
+        key: 'chainId',
+        label: 'Chain',
+        type: 'chain',
+        defaultValue: `${SUPPORTED_CHAINS.SEPOLIA}`,
+      },
+      { key: 'webhookUrl', label: 'Webhook URL', type: 'url' },
+    ],
+    trigger: {
+      name: 'Validations for watched agents',
+      description: 'Notifies a webhook of every validation of a watched agent',
+      chainId: '[[chainId]]',
+      registry: 'validation',
+      conditions: [
+        {
+          conditionType: 'event_filter',
+          field: 'event_type',
+          operator: 'eq',
+          value: 'ValidationCompleted',
+          config: {},
+        },
+        {
+          conditionType: 'agent_filter',
+          field: 'agent_id',
+          operator: 'in',
+          value: 'watchlist:[[watchlist]]',
+          config: {},
+        },
+      ],
+      actions: [
+        {
+          actionType: 'rest',
+          priority: 0,
+          config: { url: '[[webhookUrl]]', method: 'POST' },
+        },
+      ],
+    },
+  },
+]
+
+/**
+ * Look up a built-in template
+ *
+ * @param id - Template ID, e.g. `reputation-drop`
+ * @returns The template, or undefined
+ */
+export function getBuiltInTriggerTemplate(id: string): TriggerTemplateDefinition | undefined {
+  return BUILT_IN_TRIGGER_TEMPLATES.find((template) => template.id === id)
+}
+
+/**
+ * Collect the placeholder keys used in a value
+ *
+ * @param value - Template body or any nested value
+ * @returns Unique placeholder keys, in order of appearance
+ *
+ * @example
+ * ```ts
+ * findTemplatePlaceholders({ value: '[[threshold]]', chainId: '[[chainId]]' })
+ * // => ['threshold', 'chainId']
+ * ```
+ */
+export function findTemplatePlaceholders(value: unknown): string[] {
+  const keys = new Set<string>()
+  const visit = (node: unknown) => {
+    if (typeof node === 'string') {
+      for (const match of node.matchAll(PLACEHOLDER_PATTERN)) {
+        if (match[1]) keys.add(match[1])
+      }
+    } else if (Array.isArray(node)) {
+      node.forEach(visit)
+    } else if (node && typeof node === 'object') {
+      Object.values(node).forEach(visit)
+    }
+  }
+  visit(value)
+  return [...keys]
+}
+
+/**
+ * Validate one parameter value
+ *
+ * @returns Error message, or null when valid
+ */
+function validateParameterValue(parameter: TriggerTemplateParameter, value: string): string | null {
+  if (!value) {
+    return parameter.required === false ? null : `${parameter.label} is required`
+  }
+
+  switch (parameter.type) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? null : `${parameter.label} must be a number`
+    case 'chain':
+      return chainIdSchema.safeParse(value).success ? null : 'Unsupported chain'
+    case 'url':
+      return /^https?:\/\/\S+$/.test(value) ? null : `${parameter.label} must be an HTTP(S) URL`
+    case 'watchlist':
+      return /^[a-zA-Z0-9-]+$/.test(value) ? null : 'Select a watchlist'
+    default:
+      return value.length > 500 ? `${parameter.label} is too long` : null
+  }
+}
+
+/**
+ * Resolve the value of each parameter, falling back to its default
+ */
+function resolveParameterValues(
+  parameters: readonly TriggerTemplateParameter[],
+  values: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    parameters.map((p) => [p.key, (values[p.key] ?? '').trim() || p.defaultValue || ''])
+  )
+}
+
+/**
+ * Validate the parameter values entered for a template
+ *
+ * Empty values fall back to the parameter default.
+ *
+ * @param template - Template to use
+ * @param values - Entered values by parameter key
+ * @returns Error messages by parameter key; empty when all values are valid
+ */
+export function validateTemplateParameters(
+  template: Pick<TriggerTemplateDefinition, 'parameters'>,
+  values: Record<string, string>
+): Record<string, string> {
+  const resolved = resolveParameterValues(template.parameters, values)
+  const errors: Record<string, string> = {}
+  for (const parameter of template.parameters) {
+    const error = validateParameterValue(parameter, resolved[parameter.key] ?? '')
+    if (error) errors[parameter.key] = error
+  }
+  return errors
+}
+
+/**
+ * Replace placeholders in every string of a value
+ */
+function substitutePlaceholders<T>(value: T, values: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(PLACEHOLDER_PATTERN, (_, key: string) => values[key] ?? '') as T
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substitutePlaceholders(item, values)) as T
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, substitutePlaceholders(v, values)])
+    ) as T
+  }
+  return value
+}
+
+/**
+ * Fill in a template and build trigger form values
+ *
+ * Placeholders without a value (and no default) become empty strings, so
+ * the trigger form reports them. Call `validateTemplateParameters` first.
+ *
+ * @param template - Template to use
+ * @param values - Entered values by parameter key
+ * @returns Initial values for the trigger form
+ */
+export function instantiateTriggerTemplate(
+  template: Pick<TriggerTemplateDefinition, 'parameters' | 'trigger'>,
+  values: Record<string, string>
+): CreateTriggerFormValues {
+  const resolved = resolveParameterValues(template.parameters, values)
+  const body = substitutePlaceholders(template.trigger, resolved)
+
+  return {
+    ...body,
+    chainId: Number(body.chainId),
+    enabled: true,
+    isStateful: body.isStateful ?? false,
+  } as CreateTriggerFormValues
+}
+
+/**
+ * Build a template body from trigger form values
+ *
+ * Used when saving a trigger as an organization template. The enabled
+ * flag is dropped: triggers created from a template start enabled.
+ * Action secrets are redacted as in bundle exports, so whoever uses the
+ * template is asked to enter their own.
+ *
+ * @param values - Trigger form values, e.g. from `getTriggerFormDefaults(trigger)`
+ * @returns Template body without parameters
+ */
+export function toTriggerTemplateBody(values: CreateTriggerFormValues): TriggerTemplateBody {
+  const { enabled: _enabled, chainId, description, ...rest } = values
+  const { request } = redactTriggerSecrets(values)
+  return {
+    ...rest,
+    actions: request.actions,
+    chainId: Number(chainId),
+    description: description || undefined,
+    stateConfig: (rest.isStateful && rest.stateConfig) || undefined,
+  } as TriggerTemplateBody
+}
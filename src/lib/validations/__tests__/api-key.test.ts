@@ -1,8 +1,12 @@
 import { describe, expect, it } from 'vitest'
+import { API_KEY_SCOPES } from '@/lib/constants'
 import {
   apiKeySchema,
   createApiKeyRequestSchema,
+  apiKeyRotationEventSchema,
+  apiKeyRotationPolicyRequestSchema,
   createApiKeyResponseSchema,
+  rotateApiKeyRequestSchema,
   updateApiKeyRequestSchema,
 } from '../api-key'
 
@@ -101,6 +105,107 @@ describe('API Key validation schemas', () => {
     it('should enforce name max length', () => {
       expect(() => apiKeySchema.parse({ ...validApiKey, name: 'a'.repeat(101) })).toThrow()
     })
+
+    it('should parse scopes and allowlists (snake_case from backend)', () => {
+      const result = apiKeySchema.parse({
+        ...validApiKeySnakeCase,
+        scopes: ['events:read', 'reputation:query'],
+        allowed_ips: ['10.0.0.0/8'],
+        allowed_origins: ['https://app.example.com'],
+      })
+      expect(result.scopes).toEqual(['events:read', 'reputation:query'])
+      expect(result.allowedIps).toEqual(['10.0.0.0/8'])
+      expect(result.allowedOrigins).toEqual(['https://app.example.com'])
+    })
+
+    it('should give keys without scopes full access', () => {
+      const result = apiKeySchema.parse(validApiKey)
+      expect(result.scopes).toEqual([...API_KEY_SCOPES])
+      expect(result.allowedIps).toEqual([])
+      expect(result.allowedOrigins).toEqual([])
+    })
+
+    it('should drop unknown scopes', () => {
+      const result = apiKeySchema.parse({
+        ...validApiKey,
+        scopes: ['agents:read', 'webhooks:admin'],
+      })
+      expect(result.scopes).toEqual(['agents:read'])
+    })
+  })
+
+  describe('rotation', () => {
+    it('should parse the previous key and rotation policy', () => {
+      const result = apiKeySchema.parse({
+        id: validUuid,
+        name: 'Production API Key',
+        previous_key: { key_prefix: '8004_old123', expires_at: validDatetime },
+        rotation_policy: {
+          interval_days: 90,
+          grace_period_hours: 24,
+          next_rotation_at: validDatetime,
+        },
+      })
+      expect(result.previousKey).toEqual({ keyPrefix: '8004_old123', expiresAt: validDatetime })
+      expect(result.rotationPolicy).toEqual({
+        intervalDays: 90,
+        gracePeriodHours: 24,
+        nextRotationAt: validDatetime,
+        lastRotatedAt: null,
+      })
+    })
+
+    it('should default to no previous key and no policy', () => {
+      const result = apiKeySchema.parse({ id: validUuid, name: 'Legacy Key' })
+      expect(result.previousKey).toBeNull()
+      expect(result.rotationPolicy).toBeNull()
+    })
+
+    it('should accept grace periods from 1 hour to 7 days', () => {
+      expect(rotateApiKeyRequestSchema.safeParse({ gracePeriodHours: 1 }).success).toBe(true)
+      expect(rotateApiKeyRequestSchema.safeParse({ gracePeriodHours: 168 }).success).toBe(true)
+      expect(rotateApiKeyRequestSchema.safeParse({ gracePeriodHours: 0 }).success).toBe(false)
+      expect(rotateApiKeyRequestSchema.safeParse({ gracePeriodHours: 169 }).success).toBe(false)
+      expect(rotateApiKeyRequestSchema.safeParse({ gracePeriodHours: 1.5 }).success).toBe(false)
+    })
+
+    it('should validate the rotation policy interval', () => {
+      expect(
+        apiKeyRotationPolicyRequestSchema.safeParse({ intervalDays: 90, gracePeriodHours: 24 })
+          .success
+      ).toBe(true)
+      expect(
+        apiKeyRotationPolicyRequestSchema.safeParse({ intervalDays: 0, gracePeriodHours: 24 })
+          .success
+      ).toBe(false)
+      expect(
+        apiKeyRotationPolicyRequestSchema.safeParse({ intervalDays: 366, gracePeriodHours: 24 })
+          .success
+      ).toBe(false)
+    })
+
+    it('should parse rotation events', () => {
+      const result = apiKeyRotationEventSchema.parse({
+        id: validUuid,
+        key_id: validUuid,
+        event_type: 'auto_rotated',
+        key_prefix: '8004_new456',
+        previous_key_prefix: '8004_old123',
+        grace_period_hours: 24,
+        created_at: validDatetime,
+      })
+      expect(result).toEqual({
+        id: validUuid,
+        keyId: validUuid,
+        eventType: 'auto_rotated',
+        actor: null,
+        keyPrefix: '8004_new456',
+        previousKeyPrefix: '8004_old123',
+        gracePeriodHours: 24,
+        intervalDays: null,
+        createdAt: validDatetime,
+      })
+    })
   })
 
   describe('createApiKeyRequestSchema', () => {
@@ -144,6 +249,57 @@ describe('API Key validation schemas', () => {
     it('should reject invalid expiresAt format', () => {
       expect(() => createApiKeyRequestSchema.parse({ ...validRequest, expiresAt: 'not-a-date' })).toThrow()
     })
+
+    it('should default to all scopes and no restrictions', () => {
+      const result = createApiKeyRequestSchema.parse(validRequest)
+      expect(result.scopes).toEqual([...API_KEY_SCOPES])
+      expect(result.allowedIps).toEqual([])
+      expect(result.allowedOrigins).toEqual([])
+    })
+
+    it('should reject empty or duplicate scopes', () => {
+      expect(() => createApiKeyRequestSchema.parse({ ...validRequest, scopes: [] })).toThrow()
+      expect(() =>
+        createApiKeyRequestSchema.parse({ ...validRequest, scopes: ['events:read', 'events:read'] })
+      ).toThrow()
+      expect(() =>
+        createApiKeyRequestSchema.parse({ ...validRequest, scopes: ['events:write'] })
+      ).toThrow()
+    })
+
+    it('should accept IP addresses and CIDR ranges', () => {
+      const allowedIps = ['203.0.113.10', '10.0.0.0/8', '::1', '2001:db8::/32']
+      const result = createApiKeyRequestSchema.parse({ ...validRequest, allowedIps })
+      expect(result.allowedIps).toEqual(allowedIps)
+    })
+
+    it.each(['example.com', '10.0.0.0/33', '300.1.1.1'])('should reject IP entry %s', (ip) => {
+      const result = createApiKeyRequestSchema.safeParse({ ...validRequest, allowedIps: [ip] })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.message).toContain(ip)
+    })
+
+    it('should accept origins without a path', () => {
+      const allowedOrigins = ['https://app.example.com', 'http://localhost:3000']
+      const result = createApiKeyRequestSchema.parse({ ...validRequest, allowedOrigins })
+      expect(result.allowedOrigins).toEqual(allowedOrigins)
+    })
+
+    it.each([
+      'https://app.example.com/',
+      'https://app.example.com/path',
+      'ftp://example.com',
+      'app.example.com',
+    ])('should reject origin %s', (origin) => {
+      expect(() =>
+        createApiKeyRequestSchema.parse({ ...validRequest, allowedOrigins: [origin] })
+      ).toThrow()
+    })
+
+    it('should limit the number of allowlist entries', () => {
+      const allowedIps = Array.from({ length: 21 }, (_, i) => `10.0.0.${i}`)
+      expect(() => createApiKeyRequestSchema.parse({ ...validRequest, allowedIps })).toThrow()
+    })
   })
 
   describe('createApiKeyResponseSchema', () => {
@@ -246,5 +402,15 @@ describe('API Key validation schemas', () => {
       expect(result.enabled).toBe(true)
       expect(result.expiresAt).toBe(validDatetime)
     })
+
+    it('should accept scope and allowlist updates', () => {
+      const result = updateApiKeyRequestSchema.parse({
+        scopes: ['triggers:read'],
+        allowedIps: [],
+        allowedOrigins: ['https://app.example.com'],
+      })
+      expect(result.scopes).toEqual(['triggers:read'])
+      expect(result.allowedOrigins).toEqual(['https://app.example.com'])
+    })
   })
 })
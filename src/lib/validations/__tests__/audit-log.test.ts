@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { auditLogEntrySchema, auditLogFiltersSchema, auditLogPageSchema } from '../audit-log'
+
+describe('Audit log validation schemas', () => {
+  const validUuid = '550e8400-e29b-41d4-a716-446655440000'
+  const validDatetime = '2025-01-01T00:00:00Z'
+
+  const rawEntry = {
+    id: validUuid,
+    organization_id: validUuid,
+    action: 'member.role_updated',
+    actor: { id: validUuid, username: 'alice', email: 'alice@example.com' },
+    resource_type: 'member',
+    resource_id: validUuid,
+    resource_name: 'bob',
+    before: { role: 'member' },
+    after: { role: 'admin' },
+    ip_address: '203.0.113.42',
+    user_agent: 'Mozilla/5.0',
+    created_at: validDatetime,
+  }
+
+  describe('auditLogEntrySchema', () => {
+    it('should transform snake_case to camelCase', () => {
+      const result = auditLogEntrySchema.parse(rawEntry)
+
+      expect(result.organizationId).toBe(validUuid)
+      expect(result.resourceType).toBe('member')
+      expect(result.resourceName).toBe('bob')
+      expect(result.after).toEqual({ role: 'admin' })
+      expect(result.ipAddress).toBe('203.0.113.42')
+      expect(result.userAgent).toBe('Mozilla/5.0')
+      expect(result.createdAt).toBe(validDatetime)
+    })
+
+    it('should default optional fields to null for system actions', () => {
+      const result = auditLogEntrySchema.parse({
+        id: validUuid,
+        organization_id: validUuid,
+        action: 'api_key.rotated',
+        resource_type: 'api_key',
+        created_at: validDatetime,
+      })
+
+      expect(result.actor).toBeNull()
+      expect(result.before).toBeNull()
+      expect(result.after).toBeNull()
+      expect(result.ipAddress).toBeNull()
+    })
+
+    it('should accept actions not known to the client', () => {
+      expect(
+        auditLogEntrySchema.safeParse({ ...rawEntry, action: 'webhook.created' }).success
+      ).toBe(true)
+    })
+  })
+
+  describe('auditLogPageSchema', () => {
+    it('should map next_cursor to nextCursor', () => {
+      expect(auditLogPageSchema.parse({ data: [rawEntry], next_cursor: 'abc' }).nextCursor).toBe(
+        'abc'
+      )
+      expect(auditLogPageSchema.parse({ data: [] }).nextCursor).toBeNull()
+    })
+  })
+
+  describe('auditLogFiltersSchema', () => {
+    it('should accept known actions and resource types', () => {
+      const result = auditLogFiltersSchema.safeParse({
+        actorId: validUuid,
+        action: 'trigger.updated',
+        resourceType: 'trigger',
+        fromDate: '2025-01-01T00:00:00Z',
+        toDate: '2025-01-31T23:59:59Z',
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject unknown actions', () => {
+      expect(auditLogFiltersSchema.safeParse({ action: 'trigger.exploded' }).success).toBe(false)
+    })
+
+    it('should reject a start date after the end date', () => {
+      const result = auditLogFiltersSchema.safeParse({
+        fromDate: '2025-02-01T00:00:00Z',
+        toDate: '2025-01-01T00:00:00Z',
+      })
+
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.path).toEqual(['toDate'])
+    })
+  })
+})
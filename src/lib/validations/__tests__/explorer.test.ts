@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { explorerAgentSchema, explorerSearchSchema, validationRecordSchema } from '../explorer'
+
+describe('Explorer validation schemas', () => {
+  const owner = '0xAb5801a7D398351b8bE11C439e05C5B3259aeC9B'
+
+  describe('explorerSearchSchema', () => {
+    it('should accept an agent ID with its chain', () => {
+      expect(explorerSearchSchema.parse({ agentId: '42', chainId: '11155111' })).toEqual({
+        agentId: 42,
+        chainId: 11155111,
+      })
+    })
+
+    it('should accept an owner address with or without a chain', () => {
+      expect(explorerSearchSchema.parse({ owner }).owner).toBe(owner.toLowerCase())
+      expect(explorerSearchSchema.safeParse({ owner, chainId: 84532 }).success).toBe(true)
+    })
+
+    it('should require an agent ID or owner', () => {
+      const result = explorerSearchSchema.safeParse({ chainId: 1 })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.message).toBe('Enter an agent ID or an owner address')
+    })
+
+    it('should require a chain for agent ID lookups', () => {
+      const result = explorerSearchSchema.safeParse({ agentId: 42 })
+      expect(result.error?.issues[0]?.path).toEqual(['chainId'])
+    })
+
+    it('should reject invalid owners and negative IDs', () => {
+      expect(explorerSearchSchema.safeParse({ owner: '0x123' }).success).toBe(false)
+      expect(explorerSearchSchema.safeParse({ agentId: -1, chainId: 1 }).success).toBe(false)
+    })
+  })
+
+  describe('explorerAgentSchema', () => {
+    it('should accept agents without a reachable agent card', () => {
+      const result = explorerAgentSchema.safeParse({
+        agentId: 42,
+        chainId: 11155111,
+        owner,
+        tokenUri: null,
+        registeredAt: null,
+        agentCard: null,
+        reputation: { score: null, feedbackCount: 0, lastUpdatedAt: null },
+        validations: { total: 0, passed: 0, failed: 0, pending: 0 },
+      })
+      expect(result.success).toBe(true)
+    })
+  })
+
+  describe('validationRecordSchema', () => {
+    it('should reject responses above 100', () => {
+      const result = validationRecordSchema.safeParse({
+        requestHash: `0x${'a'.repeat(64)}`,
+        validatorAddress: owner,
+        status: 'completed',
+        response: 101,
+        tag: null,
+        requestedAt: '2025-01-01T00:00:00Z',
+        completedAt: '2025-01-02T00:00:00Z',
+      })
+      expect(result.success).toBe(false)
+    })
+  })
+})
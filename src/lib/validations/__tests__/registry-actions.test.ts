@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { giveFeedbackSchema, validationRequestSchema } from '../registry-actions'
+
+describe('Registry action validation schemas', () => {
+  describe('giveFeedbackSchema', () => {
+    it('should accept a score with blank optional fields', () => {
+      const result = giveFeedbackSchema.safeParse({
+        score: '85',
+        tag1: '',
+        tag2: '',
+        feedbackUri: '',
+        feedbackHash: '',
+        feedbackAuth: '',
+      })
+
+      expect(result.success).toBe(true)
+      expect(result.data?.score).toBe(85)
+    })
+
+    it('should accept a full feedback form', () => {
+      const result = giveFeedbackSchema.safeParse({
+        score: 100,
+        tag1: 'quality',
+        tag2: 'latency',
+        feedbackUri: 'ipfs://bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi',
+        feedbackHash: `0x${'ab'.repeat(32)}`,
+        feedbackAuth: '0xdeadbeef',
+      })
+
+      expect(result.success).toBe(true)
+    })
+
+    it('should reject scores outside 0-100', () => {
+      expect(giveFeedbackSchema.safeParse({ score: 101 }).success).toBe(false)
+      expect(giveFeedbackSchema.safeParse({ score: -1 }).success).toBe(false)
+      expect(giveFeedbackSchema.safeParse({ score: 50.5 }).success).toBe(false)
+    })
+
+    it('should reject tags longer than 32 bytes', () => {
+      expect(giveFeedbackSchema.safeParse({ score: 50, tag1: 'a'.repeat(33) }).success).toBe(false)
+      // Multi-byte characters count by encoded size
+      expect(giveFeedbackSchema.safeParse({ score: 50, tag1: 'é'.repeat(17) }).success).toBe(false)
+    })
+
+    it('should reject unsupported feedback URIs and malformed hashes', () => {
+      expect(giveFeedbackSchema.safeParse({ score: 50, feedbackUri: 'ftp://x' }).success).toBe(
+        false
+      )
+      expect(giveFeedbackSchema.safeParse({ score: 50, feedbackHash: '0x1234' }).success).toBe(
+        false
+      )
+    })
+  })
+
+  describe('validationRequestSchema', () => {
+    const validRequest = {
+      validatorAddress: '0x4444444444444444444444444444444444444444',
+      requestUri: 'https://example.com/request.json',
+    }
+
+    it('should accept a request without a hash', () => {
+      expect(validationRequestSchema.safeParse({ ...validRequest, requestHash: '' }).success).toBe(
+        true
+      )
+    })
+
+    it('should require a validator address and request URI', () => {
+      expect(
+        validationRequestSchema.safeParse({ ...validRequest, validatorAddress: '0x123' }).success
+      ).toBe(false)
+      expect(validationRequestSchema.safeParse({ ...validRequest, requestUri: '' }).success).toBe(
+        false
+      )
+    })
+  })
+})
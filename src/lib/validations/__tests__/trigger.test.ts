@@ -4,9 +4,12 @@ import {
   createConditionInputSchema,
   createTriggerRequestSchema,
   triggerActionSchema,
+  triggerActionResultSchema,
   triggerConditionSchema,
+  triggerExecutionSchema,
   triggerFiltersSchema,
   triggerSchema,
+  triggerStateConfigSchema,
   updateTriggerRequestSchema,
 } from '../trigger'
 
@@ -191,6 +194,21 @@ describe('Trigger validation schemas', () => {
       expect(result.value).toBe('transfer')
     })
 
+    it('should validate values of known event fields against their type', () => {
+      expect(() =>
+        createConditionInputSchema.parse({ ...validInput, field: 'score', operator: 'gte', value: '80' })
+      ).not.toThrow()
+      expect(() =>
+        createConditionInputSchema.parse({ ...validInput, field: 'score', operator: 'gte', value: 'high' })
+      ).toThrow('Value must be a number')
+      expect(() =>
+        createConditionInputSchema.parse({ ...validInput, field: 'agent_address', operator: 'in', value: '0x1234' })
+      ).toThrow('Invalid Ethereum address format')
+      expect(() =>
+        createConditionInputSchema.parse({ ...validInput, field: 'customField', operator: 'contains', value: 'x' })
+      ).not.toThrow()
+    })
+
     it('should enforce max 10 keys in config', () => {
       const tooManyKeys: Record<string, string> = {}
       for (let i = 0; i < 11; i++) {
@@ -252,6 +270,70 @@ describe('Trigger validation schemas', () => {
       }
       expect(() => createActionInputSchema.parse({ ...validInput, config: okConfig })).not.toThrow()
     })
+
+    it('should validate email config', () => {
+      const email = {
+        actionType: 'email' as const,
+        config: {
+          to: ['ops@example.com'],
+          subject: '{{eventType}} for agent {{agentId}}',
+          body: 'Block {{blockNumber}}',
+        },
+      }
+      expect(() => createActionInputSchema.parse(email)).not.toThrow()
+
+      const result = createActionInputSchema.safeParse({
+        ...email,
+        config: { ...email.config, to: ['not-an-email'] },
+      })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.path).toEqual(['config', 'to', 0])
+    })
+
+    it('should reject unknown template variables in message bodies', () => {
+      const result = createActionInputSchema.safeParse({
+        actionType: 'discord',
+        config: {
+          webhookUrl: 'https://discord.com/api/webhooks/123/abc-DEF_1',
+          content: 'Agent {{agentId}} {{secret}}',
+        },
+      })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.message).toBe('Invalid template variables: secret')
+      expect(result.error?.issues[0]?.path).toEqual(['config', 'content'])
+    })
+
+    it('should validate Slack webhook URLs and channels', () => {
+      const slack = {
+        actionType: 'slack' as const,
+        config: {
+          webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX',
+          message: '{{eventType}}',
+        },
+      }
+      expect(() => createActionInputSchema.parse(slack)).not.toThrow()
+      expect(() =>
+        createActionInputSchema.parse({ ...slack, config: { ...slack.config, channel: '#alerts' } })
+      ).not.toThrow()
+      expect(() =>
+        createActionInputSchema.parse({
+          ...slack,
+          config: { ...slack.config, webhookUrl: 'https://example.com/hook' },
+        })
+      ).toThrow()
+      expect(() =>
+        createActionInputSchema.parse({ ...slack, config: { ...slack.config, channel: 'alerts' } })
+      ).toThrow()
+    })
+
+    it('should require a message for Discord actions', () => {
+      expect(() =>
+        createActionInputSchema.parse({
+          actionType: 'discord',
+          config: { webhookUrl: 'https://discord.com/api/webhooks/123/abc' },
+        })
+      ).toThrow()
+    })
   })
 
   describe('createTriggerRequestSchema', () => {
@@ -337,7 +419,7 @@ describe('Trigger validation schemas', () => {
     it('should allow conditions with different fields', () => {
       const differentConditions = [
         validCondition,
-        { ...validCondition, field: 'agentId' },
+        { ...validCondition, field: 'agentId', value: '42' },
       ]
       expect(() => createTriggerRequestSchema.parse({ ...validRequest, conditions: differentConditions })).not.toThrow()
     })
@@ -350,6 +432,63 @@ describe('Trigger validation schemas', () => {
       expect(() => createTriggerRequestSchema.parse({ ...validRequest, conditions: differentConditions })).not.toThrow()
     })
 
+    it('should accept nested condition groups alongside flat conditions', () => {
+      const conditions = [
+        validCondition,
+        {
+          logic: 'or' as const,
+          conditions: [
+            { ...validCondition, field: 'agentId', value: '1' },
+            { logic: 'not' as const, conditions: [{ ...validCondition, field: 'agentId', value: '2' }] },
+          ],
+        },
+      ]
+      const result = createTriggerRequestSchema.parse({ ...validRequest, conditions })
+      expect(result.conditions[1]).toMatchObject({ logic: 'or' })
+    })
+
+    it('should allow repeated fields inside groups', () => {
+      const conditions = [
+        validCondition,
+        {
+          logic: 'or' as const,
+          conditions: [
+            { ...validCondition, value: 'mint' },
+            { ...validCondition, value: 'burn' },
+          ],
+        },
+      ]
+      expect(() => createTriggerRequestSchema.parse({ ...validRequest, conditions })).not.toThrow()
+    })
+
+    it('should reject empty groups and invalid logic', () => {
+      expect(() =>
+        createTriggerRequestSchema.parse({ ...validRequest, conditions: [{ logic: 'or', conditions: [] }] })
+      ).toThrow()
+      expect(() =>
+        createTriggerRequestSchema.parse({
+          ...validRequest,
+          conditions: [{ logic: 'xor', conditions: [validCondition] }],
+        })
+      ).toThrow()
+    })
+
+    it('should enforce max group depth', () => {
+      const nest = (depth: number): unknown =>
+        depth === 0 ? validCondition : { logic: 'and', conditions: [nest(depth - 1)] }
+      expect(() => createTriggerRequestSchema.parse({ ...validRequest, conditions: [nest(3)] })).not.toThrow()
+      expect(() => createTriggerRequestSchema.parse({ ...validRequest, conditions: [nest(4)] })).toThrow()
+    })
+
+    it('should count grouped conditions towards the 20 condition limit', () => {
+      const grouped = Array(21).fill(null).map((_, i) => ({ ...validCondition, field: `field${i}` }))
+      const conditions = [
+        { logic: 'or' as const, conditions: grouped.slice(0, 15) },
+        { logic: 'or' as const, conditions: grouped.slice(15) },
+      ]
+      expect(() => createTriggerRequestSchema.parse({ ...validRequest, conditions })).toThrow()
+    })
+
     it('should validate chainId', () => {
       expect(() => createTriggerRequestSchema.parse({ ...validRequest, chainId: 999999 })).toThrow()
       expect(() => createTriggerRequestSchema.parse({ ...validRequest, chainId: 1 })).not.toThrow()
@@ -362,6 +501,119 @@ describe('Trigger validation schemas', () => {
       expect(() => createTriggerRequestSchema.parse({ ...validRequest, registry: 'reputation' })).not.toThrow()
       expect(() => createTriggerRequestSchema.parse({ ...validRequest, registry: 'validation' })).not.toThrow()
     })
+
+    it('should only accept redacted webhook URLs in disabled triggers', () => {
+      const redacted = {
+        ...validRequest,
+        actions: [
+          { actionType: 'slack' as const, config: { webhookUrl: '[REDACTED]', message: '{{eventType}}' } },
+        ],
+      }
+      expect(() => createTriggerRequestSchema.parse({ ...redacted, enabled: false })).not.toThrow()
+
+      const result = createTriggerRequestSchema.safeParse(redacted)
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.path).toEqual(['actions', 0, 'config', 'webhookUrl'])
+    })
+
+    it('should accept enabled triggers that merely mention the placeholder', () => {
+      const mentioned = {
+        ...validRequest,
+          actions: [
+          {
+            actionType: 'slack' as const,
+            config: {
+              webhookUrl: 'https://hooks.slack.com/services/T000/B000/XXXX',
+              message: 'Agent {{agentId}} [REDACTED]',
+            },
+          },
+        ],
+      }
+      expect(() => createTriggerRequestSchema.parse(mentioned)).not.toThrow()
+    })
+  })
+
+  describe('triggerStateConfigSchema', () => {
+    it('should apply defaults', () => {
+      const result = triggerStateConfigSchema.parse({})
+      expect(result).toEqual({
+        windowSeconds: null,
+        countThreshold: null,
+        cooldownSeconds: 0,
+        scope: 'agent',
+        resetPolicy: 'on_fire',
+      })
+    })
+
+    it('should reject windows shorter than a minute', () => {
+      expect(() => triggerStateConfigSchema.parse({ windowSeconds: 30 })).toThrow()
+    })
+
+    it('should require a window for the rolling window reset policy', () => {
+      const result = triggerStateConfigSchema.safeParse({ resetPolicy: 'window_expiry' })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.path).toEqual(['resetPolicy'])
+    })
+
+    it('should accept the rolling window reset policy with a window', () => {
+      const result = triggerStateConfigSchema.parse({
+        windowSeconds: 3600,
+        resetPolicy: 'window_expiry',
+      })
+      expect(result.windowSeconds).toBe(3600)
+    })
+  })
+
+  describe('createTriggerRequestSchema stateful settings', () => {
+    const baseRequest = {
+      name: 'Burst Alert',
+      chainId: 1,
+      registry: 'reputation' as const,
+      actions: [{ actionType: 'telegram' as const, config: { chatId: '123456' } }],
+    }
+
+    const thresholdCondition = {
+      conditionType: 'threshold',
+      field: 'match_count',
+      operator: 'gte' as const,
+      value: '3',
+    }
+
+    it('should accept state settings on a stateful trigger', () => {
+      const result = createTriggerRequestSchema.parse({
+        ...baseRequest,
+        isStateful: true,
+        conditions: [thresholdCondition],
+        stateConfig: { windowSeconds: 86400, countThreshold: 3 },
+      })
+      expect(result.stateConfig?.countThreshold).toBe(3)
+      expect(result.stateConfig?.resetPolicy).toBe('on_fire')
+    })
+
+    it('should reject state settings on a stateless trigger', () => {
+      const result = createTriggerRequestSchema.safeParse({
+        ...baseRequest,
+        conditions: [{ ...thresholdCondition, conditionType: 'event_filter', field: 'score' }],
+        stateConfig: { windowSeconds: 86400 },
+      })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.message).toBe('State settings require a stateful trigger')
+    })
+
+    it('should reject threshold conditions on a stateless trigger', () => {
+      const result = createTriggerRequestSchema.safeParse({
+        ...baseRequest,
+        conditions: [thresholdCondition],
+      })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.path).toEqual(['conditions'])
+    })
+
+    it('should require whole numbers for stateful condition values', () => {
+      const result = createConditionInputSchema.safeParse({ ...thresholdCondition, value: '2.5' })
+      expect(result.success).toBe(false)
+      expect(result.error?.issues[0]?.message).toBe('Value must be a whole number')
+    })
   })
 
   describe('updateTriggerRequestSchema', () => {
@@ -422,4 +674,51 @@ describe('Trigger validation schemas', () => {
       expect(() => triggerFiltersSchema.parse({ search: 'a'.repeat(101) })).toThrow()
     })
   })
+  describe('triggerActionResultSchema', () => {
+    it('should default optional fields', () => {
+      const result = triggerActionResultSchema.parse({
+        actionId: validUuid,
+        actionType: 'telegram',
+        status: 'success',
+        deliveryStatus: 'delivered',
+      })
+      expect(result.durationMs).toBeNull()
+      expect(result.error).toBeNull()
+      expect(result.deliveryStatus).toBe('delivered')
+    })
+
+    it('should reject invalid HTTP status', () => {
+      expect(() =>
+        triggerActionResultSchema.parse({
+          actionId: null,
+          actionType: 'rest',
+          status: 'failed',
+          httpStatus: 999,
+        })
+      ).toThrow()
+    })
+  })
+
+  describe('triggerExecutionSchema', () => {
+    const validExecution = {
+      id: validUuid,
+      triggerId: validUuid,
+      status: 'success',
+      eventId: null,
+      startedAt: validDatetime,
+      completedAt: validDatetime,
+      durationMs: 500,
+    }
+
+    it('should default action results and replay link', () => {
+      const result = triggerExecutionSchema.parse(validExecution)
+      expect(result.actionResults).toEqual([])
+      expect(result.replayOf).toBeNull()
+      expect(result.error).toBeNull()
+    })
+
+    it('should reject unknown status', () => {
+      expect(() => triggerExecutionSchema.parse({ ...validExecution, status: 'done' })).toThrow()
+    })
+  })
 })
@@ -0,0 +1,69 @@
+/**
+ * Agent card validation schemas
+ *
+ * Provides Zod schemas for the ERC-8004 agent registration file (the
+ * "agent card") an identity token URI points to:
+ * - Identity (name, description, image)
+ * - Endpoints (A2A, MCP, ENS, DID, wallets, ...)
+ * - Registrations linking the card back to on-chain identities
+ * - Supported trust models
+ *
+ * Use `validateAgentCard` from `lib/agent-card` to parse untrusted cards
+ * field by field with warnings instead of failing on the first issue.
+ *
+ * @module lib/validations/agent-card
+ */
+
+import { z } from 'zod'
+
+/** Registration file type for ERC-8004 v1 */
+export const AGENT_CARD_TYPE = 'https://eips.ethereum.org/EIPS/eip-8004#registration-v1'
+
+/** Trust models defined by ERC-8004 */
+export const AGENT_CARD_TRUST_MODELS = ['reputation', 'crypto-economic', 'tee-attestation'] as const
+
+/** CAIP-10 account ID, e.g. `eip155:11155111:0x...` */
+const caip10Regex = /^eip155:\d+:0x[a-fA-F0-9]{40}$/
+
+/**
+ * Agent card endpoint schema
+ *
+ * `name` identifies the protocol (A2A, MCP, ENS, DID, agentWallet, ...),
+ * `endpoint` is a URL, name or identifier depending on the protocol.
+ */
+export const agentCardEndpointSchema = z.object({
+  name: z.string().min(1, 'Endpoint name is required'),
+  endpoint: z.string().min(1, 'Endpoint value is required'),
+  version: z.string().optional(),
+})
+
+/**
+ * Agent card registration schema
+ *
+ * On-chain identity the card belongs to.
+ */
+export const agentCardRegistrationSchema = z.object({
+  agentId: z.number().int().min(0),
+  agentRegistry: z.string().regex(caip10Regex, 'Registry must be a CAIP-10 account ID'),
+})
+
+/**
+ * Agent card schema
+ */
+export const agentCardSchema = z.object({
+  type: z.string().optional(),
+  name: z.string().min(1, 'Agent name is required'),
+  description: z.string().optional(),
+  image: z.string().url('Image must be a URL').optional(),
+  endpoints: z.array(agentCardEndpointSchema).default([]),
+  registrations: z.array(agentCardRegistrationSchema).default([]),
+  supportedTrust: z.array(z.string()).default([]),
+})
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Inferred Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+export type AgentCardEndpoint = z.infer<typeof agentCardEndpointSchema>
+export type AgentCardRegistration = z.infer<typeof agentCardRegistrationSchema>
+export type AgentCard = z.infer<typeof agentCardSchema>
+export type AgentCardTrustModel = (typeof AGENT_CARD_TRUST_MODELS)[number]
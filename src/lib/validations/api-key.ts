@@ -3,20 +3,139 @@
  *
  * Provides Zod schemas for API key management:
  * - API key CRUD operations
+ * - Scopes, IP allowlists and allowed browser origins
+ * - Rotation with a grace period, auto-rotation policies and rotation history
  * - Key statistics and usage tracking
+ * - Per-key usage analytics (time series, endpoints, status codes, latency)
  * - Snake_case to camelCase transformation (backend compatibility)
  *
  * @module lib/validations/api-key
  */
 
 import { z } from 'zod'
-import { queryTierSchema, uuidSchema } from './common'
+import { API_KEY_SCOPES, type ApiKeyScope } from '@/lib/constants'
+import { paginatedResponseSchema, queryTierSchema, uuidSchema } from './common'
+
+/** Maximum number of IP allowlist entries or allowed origins per key */
+export const MAX_API_KEY_ALLOWLIST_ENTRIES = 20
+
+/** API key scope validation schema */
+export const apiKeyScopeSchema = z.enum(API_KEY_SCOPES)
+
+/**
+ * IP allowlist entry schema
+ *
+ * A single IPv4/IPv6 address or a CIDR range (`10.0.0.0/8`, `2001:db8::/32`).
+ */
+export const apiKeyAllowedIpSchema = z.union([z.ipv4(), z.ipv6(), z.cidrv4(), z.cidrv6()], {
+  error: (issue) => `Invalid IP address or CIDR range: ${String(issue.input)}`,
+})
+
+/**
+ * Allowed origin schema
+ *
+ * Browser origin allowed to use the key, as scheme and host without a
+ * path: `https://app.example.com` or `http://localhost:3000`.
+ */
+export const apiKeyAllowedOriginSchema = z.string().refine(
+  (value) => {
+    try {
+      const url = new URL(value)
+      return (url.protocol === 'https:' || url.protocol === 'http:') && url.origin === value
+    } catch {
+      return false
+    }
+  },
+  {
+    error: (issue) =>
+      `Invalid origin (expected e.g. https://app.example.com): ${String(issue.input)}`,
+  }
+)
+
+/** Scope list with at least one scope and no duplicates */
+const apiKeyScopesSchema = z
+  .array(apiKeyScopeSchema)
+  .min(1, 'Select at least one scope')
+  .refine((scopes) => new Set(scopes).size === scopes.length, 'Duplicate scopes')
+
+const apiKeyAllowedIpsSchema = z
+  .array(apiKeyAllowedIpSchema)
+  .max(MAX_API_KEY_ALLOWLIST_ENTRIES, `At most ${MAX_API_KEY_ALLOWLIST_ENTRIES} IP entries`)
+
+const apiKeyAllowedOriginsSchema = z
+  .array(apiKeyAllowedOriginSchema)
+  .max(MAX_API_KEY_ALLOWLIST_ENTRIES, `At most ${MAX_API_KEY_ALLOWLIST_ENTRIES} origins`)
+
+/** Grace period bounds for key rotation, in hours (1 hour to 7 days) */
+export const MIN_API_KEY_GRACE_PERIOD_HOURS = 1
+export const MAX_API_KEY_GRACE_PERIOD_HOURS = 7 * 24
+
+/** Auto-rotation interval bounds, in days */
+export const MIN_API_KEY_ROTATION_INTERVAL_DAYS = 1
+export const MAX_API_KEY_ROTATION_INTERVAL_DAYS = 365
+
+/** How long the previous key keeps working after a rotation */
+export const apiKeyGracePeriodHoursSchema = z
+  .number()
+  .int()
+  .min(MIN_API_KEY_GRACE_PERIOD_HOURS, 'Grace period must be at least 1 hour')
+  .max(MAX_API_KEY_GRACE_PERIOD_HOURS, 'Grace period must be at most 7 days')
+
+const apiKeyRotationIntervalDaysSchema = z
+  .number()
+  .int()
+  .min(MIN_API_KEY_ROTATION_INTERVAL_DAYS, 'Interval must be at least 1 day')
+  .max(MAX_API_KEY_ROTATION_INTERVAL_DAYS, 'Interval must be at most 365 days')
+
+/**
+ * Previous key schema
+ *
+ * Secret replaced by a rotation that still works until `expires_at`.
+ */
+const apiKeyPreviousKeySchema = z
+  .object({
+    key_prefix: z.string(),
+    expires_at: z.string().datetime(),
+  })
+  .transform((data) => ({
+    keyPrefix: data.key_prefix,
+    expiresAt: data.expires_at,
+  }))
+
+/**
+ * Auto-rotation policy schema
+ *
+ * The key is rotated every `interval_days`, keeping the previous secret
+ * valid for `grace_period_hours`.
+ */
+const apiKeyRotationPolicySchema = z
+  .object({
+    interval_days: apiKeyRotationIntervalDaysSchema,
+    grace_period_hours: apiKeyGracePeriodHoursSchema,
+    next_rotation_at: z.string().datetime().nullable().optional(),
+    last_rotated_at: z.string().datetime().nullable().optional(),
+  })
+  .transform((data) => ({
+    intervalDays: data.interval_days,
+    gracePeriodHours: data.grace_period_hours,
+    nextRotationAt: data.next_rotation_at ?? null,
+    lastRotatedAt: data.last_rotated_at ?? null,
+  }))
+
+function isApiKeyScope(scope: string): scope is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(scope)
+}
 
 /**
  * API key schema
  *
  * Handles both snake_case (backend) and camelCase (frontend) field names.
  * Transforms to consistent camelCase output.
+ *
+ * Keys created before scopes existed have no `scopes` and keep full
+ * access: they are given every scope. Unknown scopes from a newer backend
+ * are dropped. Empty `allowedIps`/`allowedOrigins` mean no restriction.
+ * `previousKey` is set while a rotated-out secret is in its grace period.
  */
 export const apiKeySchema = z.object({
   id: uuidSchema,
@@ -36,6 +155,13 @@ export const apiKeySchema = z.object({
   created_at: z.string().datetime().optional(),
   createdAt: z.string().datetime().optional(),
   updated_at: z.string().datetime().optional(),
+  scopes: z.array(z.string()).nullable().optional(),
+  allowed_ips: z.array(z.string()).nullable().optional(),
+  allowedIps: z.array(z.string()).nullable().optional(),
+  allowed_origins: z.array(z.string()).nullable().optional(),
+  allowedOrigins: z.array(z.string()).nullable().optional(),
+  previous_key: apiKeyPreviousKeySchema.nullable().optional(),
+  rotation_policy: apiKeyRotationPolicySchema.nullable().optional(),
 }).transform((data) => ({
   id: data.id,
   organizationId: data.organization_id ?? data.organizationId ?? '',
@@ -47,12 +173,18 @@ export const apiKeySchema = z.object({
   lastUsedAt: data.last_used_at ?? data.lastUsedAt ?? null,
   expiresAt: data.expires_at ?? data.expiresAt ?? null,
   createdAt: data.created_at ?? data.createdAt ?? new Date().toISOString(),
+  scopes: data.scopes ? data.scopes.filter(isApiKeyScope) : [...API_KEY_SCOPES],
+  allowedIps: data.allowed_ips ?? data.allowedIps ?? [],
+  allowedOrigins: data.allowed_origins ?? data.allowedOrigins ?? [],
+  previousKey: data.previous_key ?? null,
+  rotationPolicy: data.rotation_policy ?? null,
 }))
 
 /**
  * Create API key request schema
  *
- * Request body for creating a new API key.
+ * Request body for creating a new API key. Scopes default to all of
+ * them; leave `allowedIps`/`allowedOrigins` empty to allow any.
  */
 export const createApiKeyRequestSchema = z.object({
   name: z
@@ -61,6 +193,9 @@ export const createApiKeyRequestSchema = z.object({
     .max(100, 'Name must be at most 100 characters'),
   tier: queryTierSchema.default('basic'),
   expiresAt: z.string().datetime().optional(),
+  scopes: apiKeyScopesSchema.default([...API_KEY_SCOPES]),
+  allowedIps: apiKeyAllowedIpsSchema.default([]),
+  allowedOrigins: apiKeyAllowedOriginsSchema.default([]),
 })
 
 /**
@@ -84,8 +219,86 @@ export const updateApiKeyRequestSchema = z.object({
   tier: queryTierSchema.optional(),
   enabled: z.boolean().optional(),
   expiresAt: z.string().datetime().nullable().optional(),
+  scopes: apiKeyScopesSchema.optional(),
+  allowedIps: apiKeyAllowedIpsSchema.optional(),
+  allowedOrigins: apiKeyAllowedOriginsSchema.optional(),
+})
+
+/**
+ * Rotate API key request schema
+ *
+ * Issues a new secret while the current one keeps working for the
+ * grace period.
+ */
+export const rotateApiKeyRequestSchema = z.object({
+  gracePeriodHours: apiKeyGracePeriodHoursSchema,
 })
 
+/**
+ * API key rotation policy request schema
+ *
+ * Schedules automatic rotation every `intervalDays`.
+ */
+export const apiKeyRotationPolicyRequestSchema = z.object({
+  intervalDays: apiKeyRotationIntervalDaysSchema,
+  gracePeriodHours: apiKeyGracePeriodHoursSchema,
+})
+
+/** Kinds of entries in a key's rotation history */
+export const API_KEY_ROTATION_EVENT_TYPES = [
+  'rotated',
+  'auto_rotated',
+  'regenerated',
+  'previous_key_revoked',
+  'previous_key_expired',
+  'policy_updated',
+  'policy_disabled',
+] as const
+
+/** API key rotation event type validation schema */
+export const apiKeyRotationEventTypeSchema = z.enum(API_KEY_ROTATION_EVENT_TYPES)
+
+/**
+ * API key rotation event schema
+ *
+ * Entry of a key's rotation audit trail. `actor` is null for events the
+ * system performed (scheduled rotations, expirations).
+ * Transforms snake_case backend response to camelCase.
+ */
+export const apiKeyRotationEventSchema = z
+  .object({
+    id: uuidSchema,
+    key_id: uuidSchema,
+    event_type: apiKeyRotationEventTypeSchema,
+    actor: z
+      .object({
+        id: uuidSchema,
+        name: z.string().nullable().optional(),
+      })
+      .nullable()
+      .optional(),
+    key_prefix: z.string().nullable().optional(),
+    previous_key_prefix: z.string().nullable().optional(),
+    grace_period_hours: z.number().int().nullable().optional(),
+    interval_days: z.number().int().nullable().optional(),
+    created_at: z.string().datetime(),
+  })
+  .transform((data) => ({
+    id: data.id,
+    keyId: data.key_id,
+    eventType: data.event_type,
+    actor: data.actor ? { id: data.actor.id, name: data.actor.name ?? null } : null,
+    keyPrefix: data.key_prefix ?? null,
+    previousKeyPrefix: data.previous_key_prefix ?? null,
+    gracePeriodHours: data.grace_period_hours ?? null,
+    intervalDays: data.interval_days ?? null,
+    createdAt: data.created_at,
+  }))
+
+/** API key rotation history response schema */
+export const apiKeyRotationEventListResponseSchema =
+  paginatedResponseSchema(apiKeyRotationEventSchema)
+
 /**
  * API key list response schema
  *
@@ -158,6 +371,106 @@ export const apiKeyStatsSchema = z.object({
   keysByType: result.data.keys_by_type ?? {},
 }))
 
+/** Selectable API key usage ranges (24h is bucketed by hour, others by day) */
+export const API_KEY_USAGE_RANGES = ['24h', '7d', '30d'] as const
+
+/** API key usage range validation schema */
+export const apiKeyUsageRangeSchema = z.enum(API_KEY_USAGE_RANGES)
+
+const usageCountSchema = z.number().int().min(0)
+
+/**
+ * API key usage schema
+ *
+ * Usage of a single key over a range: requests over time, busiest
+ * endpoints, status code distribution, latency percentiles and the
+ * client that last used the key. Transforms snake_case backend response
+ * to camelCase.
+ */
+export const apiKeyUsageSchema = z
+  .object({
+    data: z.object({
+      key_id: uuidSchema,
+      range: apiKeyUsageRangeSchema,
+      total_requests: usageCountSchema,
+      error_requests: usageCountSchema.optional().default(0),
+      rate_limited_requests: usageCountSchema.optional().default(0),
+      series: z
+        .array(
+          z.object({
+            timestamp: z.string().datetime(),
+            requests: usageCountSchema,
+            errors: usageCountSchema.optional().default(0),
+          })
+        )
+        .optional()
+        .default([]),
+      top_endpoints: z
+        .array(
+          z.object({
+            method: z.string(),
+            path: z.string(),
+            requests: usageCountSchema,
+            errors: usageCountSchema.optional().default(0),
+            p95_latency_ms: z.number().min(0).nullable().optional(),
+          })
+        )
+        .optional()
+        .default([]),
+      // Keyed by HTTP status, e.g. { "200": 1520, "429": 12 }
+      status_codes: z.record(z.string(), usageCountSchema).optional().default({}),
+      latency_ms: z
+        .object({
+          p50: z.number().min(0).nullable(),
+          p95: z.number().min(0).nullable(),
+          p99: z.number().min(0).nullable(),
+        })
+        .nullable()
+        .optional(),
+      last_seen: z
+        .object({
+          at: z.string().datetime(),
+          ip: z.string().nullable().optional(),
+          user_agent: z.string().nullable().optional(),
+        })
+        .nullable()
+        .optional(),
+    }),
+  })
+  .transform(({ data }) => ({
+    keyId: data.key_id,
+    range: data.range,
+    totalRequests: data.total_requests,
+    errorRequests: data.error_requests,
+    rateLimitedRequests: data.rate_limited_requests,
+    series: data.series,
+    topEndpoints: data.top_endpoints.map((endpoint) => ({
+      method: endpoint.method,
+      path: endpoint.path,
+      requests: endpoint.requests,
+      errors: endpoint.errors,
+      p95LatencyMs: endpoint.p95_latency_ms ?? null,
+    })),
+    statusCodes: Object.entries(data.status_codes)
+      .map(([status, count]) => ({ status: Number(status), count }))
+      .filter((entry) => Number.isInteger(entry.status))
+      .sort((a, b) => a.status - b.status),
+    latency: data.latency_ms
+      ? {
+          p50Ms: data.latency_ms.p50,
+          p95Ms: data.latency_ms.p95,
+          p99Ms: data.latency_ms.p99,
+        }
+      : null,
+    lastSeen: data.last_seen
+      ? {
+          at: data.last_seen.at,
+          ip: data.last_seen.ip ?? null,
+          userAgent: data.last_seen.user_agent ?? null,
+        }
+      : null,
+  }))
+
 /* ─────────────────────────────────────────────────────────────────────────────
  * Inferred Types
  * ─────────────────────────────────────────────────────────────────────────────*/
@@ -166,3 +479,9 @@ export type CreateApiKeyRequest = z.infer<typeof createApiKeyRequestSchema>
 export type CreateApiKeyResponse = z.infer<typeof createApiKeyResponseSchema>
 export type UpdateApiKeyRequest = z.infer<typeof updateApiKeyRequestSchema>
 export type ApiKeyStats = z.infer<typeof apiKeyStatsSchema>
+export type ApiKeyUsageRange = z.infer<typeof apiKeyUsageRangeSchema>
+export type ApiKeyUsage = z.infer<typeof apiKeyUsageSchema>
+export type RotateApiKeyRequest = z.infer<typeof rotateApiKeyRequestSchema>
+export type ApiKeyRotationPolicyRequest = z.infer<typeof apiKeyRotationPolicyRequestSchema>
+export type ApiKeyRotationEventType = z.infer<typeof apiKeyRotationEventTypeSchema>
+export type ApiKeyRotationEvent = z.infer<typeof apiKeyRotationEventSchema>
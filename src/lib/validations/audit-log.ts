@@ -0,0 +1,153 @@
+/**
+ * Audit log validation schemas
+ *
+ * Provides Zod schemas for the organization audit log:
+ * - Audit log entries (actor, action, resource, before/after snapshots)
+ * - Cursor-paginated pages
+ * - Filters by actor, action type, resource and date range
+ * - Snake_case to camelCase transformation (backend compatibility)
+ *
+ * @module lib/validations/audit-log
+ */
+
+import { z } from 'zod'
+import { uuidSchema } from './common'
+
+/** Kinds of resources recorded in the audit log */
+export const AUDIT_LOG_RESOURCE_TYPES = [
+  'organization',
+  'member',
+  'trigger',
+  'api_key',
+  'agent',
+] as const
+
+/**
+ * Recorded actions, as `<resource>.<verb>`
+ *
+ * The backend may record actions added after this list; they are shown
+ * as-is and can't be selected as a filter.
+ */
+export const AUDIT_LOG_ACTIONS = [
+  'organization.updated',
+  'organization.deleted',
+  'member.invited',
+  'member.role_updated',
+  'member.removed',
+  'trigger.created',
+  'trigger.updated',
+  'trigger.enabled',
+  'trigger.disabled',
+  'trigger.deleted',
+  'api_key.created',
+  'api_key.updated',
+  'api_key.regenerated',
+  'api_key.rotated',
+  'api_key.deleted',
+  'agent.linked',
+  'agent.unlinked',
+] as const
+
+/** Audit log resource type validation schema */
+export const auditLogResourceTypeSchema = z.enum(AUDIT_LOG_RESOURCE_TYPES)
+
+/** Audit log action validation schema */
+export const auditLogActionSchema = z.enum(AUDIT_LOG_ACTIONS)
+
+/** Snapshot of a resource before or after a change */
+const auditLogSnapshotSchema = z.record(z.string(), z.unknown()).nullable().optional()
+
+/**
+ * Audit log entry schema
+ *
+ * Who did what to which resource, and when. Updates carry `before` and
+ * `after` snapshots of the changed fields. `actor` is null for actions
+ * the system performed (scheduled jobs, expirations).
+ * Transforms snake_case backend response to camelCase.
+ */
+export const auditLogEntrySchema = z
+  .object({
+    id: uuidSchema,
+    organization_id: uuidSchema,
+    action: z.string().min(1),
+    actor: z
+      .object({
+        id: uuidSchema,
+        username: z.string().nullable().optional(),
+        email: z.string().nullable().optional(),
+      })
+      .nullable()
+      .optional(),
+    resource_type: z.string().min(1),
+    resource_id: z.string().nullable().optional(),
+    resource_name: z.string().nullable().optional(),
+    before: auditLogSnapshotSchema,
+    after: auditLogSnapshotSchema,
+    ip_address: z.string().nullable().optional(),
+    user_agent: z.string().nullable().optional(),
+    created_at: z.string().datetime(),
+  })
+  .transform((data) => ({
+    id: data.id,
+    organizationId: data.organization_id,
+    action: data.action,
+    actor: data.actor
+      ? {
+          id: data.actor.id,
+          username: data.actor.username ?? null,
+          email: data.actor.email ?? null,
+        }
+      : null,
+    resourceType: data.resource_type,
+    resourceId: data.resource_id ?? null,
+    resourceName: data.resource_name ?? null,
+    before: data.before ?? null,
+    after: data.after ?? null,
+    ipAddress: data.ip_address ?? null,
+    userAgent: data.user_agent ?? null,
+    createdAt: data.created_at,
+  }))
+
+/**
+ * Audit log page schema
+ *
+ * Entries most recent first; `next_cursor` is null on the last page.
+ */
+export const auditLogPageSchema = z
+  .object({
+    data: z.array(auditLogEntrySchema),
+    next_cursor: z.string().nullable().optional(),
+  })
+  .transform((page) => ({
+    data: page.data,
+    nextCursor: page.next_cursor ?? null,
+  }))
+
+/**
+ * Audit log filters schema
+ *
+ * Query parameters for filtering the audit log. The date range is
+ * inclusive.
+ */
+export const auditLogFiltersSchema = z
+  .object({
+    actorId: uuidSchema.optional(),
+    action: auditLogActionSchema.optional(),
+    resourceType: auditLogResourceTypeSchema.optional(),
+    resourceId: z.string().max(100).optional(),
+    fromDate: z.string().datetime().optional(),
+    toDate: z.string().datetime().optional(),
+  })
+  .refine(
+    (filters) => !filters.fromDate || !filters.toDate || filters.fromDate <= filters.toDate,
+    { message: 'Start date must be before end date', path: ['toDate'] }
+  )
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Inferred Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+export type AuditLogResourceType = z.infer<typeof auditLogResourceTypeSchema>
+export type AuditLogAction = z.infer<typeof auditLogActionSchema>
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>
+export type AuditLogPage = z.infer<typeof auditLogPageSchema>
+export type AuditLogFilters = z.infer<typeof auditLogFiltersSchema>
@@ -106,7 +106,7 @@ export const organizationRoleSchema = z.enum(ORGANIZATION_ROLES)
 /**
  * Trigger action type validation schema
  *
- * Valid values: 'telegram', 'rest', 'mcp'
+ * Valid values: 'telegram', 'rest', 'mcp', 'email', 'slack', 'discord'
  */
 export const actionTypeSchema = z.enum(ACTION_TYPES)
 
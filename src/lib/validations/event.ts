@@ -2,7 +2,7 @@
  * Blockchain event validation schemas
  *
  * Provides Zod schemas for blockchain event operations:
- * - Event types (AgentRegistered, ReputationChanged, etc.)
+ * - Event types (known types live in `lib/event-catalog`; unknown types pass through)
  * - Blockchain event data with transaction details
  * - Event filtering by chain, registry, type, date range
  *
@@ -10,6 +10,7 @@
  */
 
 import { z } from 'zod'
+import { normalizeEventType } from '../event-catalog'
 import {
   chainIdSchema,
   paginatedResponseSchema,
@@ -18,23 +19,12 @@ import {
 } from './common'
 
 /**
- * Supported blockchain event types
+ * Event type validation schema
  *
- * Corresponds to ERC-8004 registry events.
+ * Accepts any non-empty name so event types added on the backend don't
+ * fail parsing; deprecated names are mapped to their current catalog name.
  */
-export const EVENT_TYPES = [
-  'AgentRegistered',
-  'AgentUpdated',
-  'AgentDeregistered',
-  'ReputationChanged',
-  'ValidationCompleted',
-  'Transfer',
-  'Mint',
-  'Burn',
-] as const
-
-/** Event type validation schema */
-export const eventTypeSchema = z.enum(EVENT_TYPES)
+export const eventTypeSchema = z.string().trim().min(1).max(100).transform(normalizeEventType)
 
 /**
  * Blockchain event schema
@@ -46,7 +36,7 @@ export const blockchainEventSchema = z.object({
   id: uuidSchema,
   chainId: chainIdSchema,
   registry: registrySchema,
-  eventType: z.string().min(1),
+  eventType: eventTypeSchema,
   blockNumber: z.number().int().min(0),
   transactionHash: z
     .string()
@@ -61,7 +51,8 @@ export const blockchainEventSchema = z.object({
  * Event filters schema
  *
  * Query parameters for filtering blockchain events.
- * Supports filtering by chain, registry, event type, agent, and date range.
+ * Supports filtering by chain, registry, event type, agent, watchlist, and
+ * date range.
  */
 export const eventFiltersSchema = z.object({
   chainId: chainIdSchema.optional(),
@@ -72,6 +63,8 @@ export const eventFiltersSchema = z.object({
     .string()
     .regex(/^0x[a-fA-F0-9]{64}$/)
     .optional(),
+  /** Only events of agents in this watchlist */
+  watchlistId: uuidSchema.optional(),
   fromDate: z.string().datetime().optional(),
   toDate: z.string().datetime().optional(),
   search: z.string().max(100).optional(),
@@ -85,4 +78,3 @@ export const eventListResponseSchema = paginatedResponseSchema(blockchainEventSc
  * ─────────────────────────────────────────────────────────────────────────────*/
 export type BlockchainEvent = z.infer<typeof blockchainEventSchema>
 export type EventFilters = z.infer<typeof eventFiltersSchema>
-export type EventType = (typeof EVENT_TYPES)[number]
@@ -0,0 +1,153 @@
+/**
+ * Agent explorer validation schemas
+ *
+ * Provides Zod schemas for looking up any ERC-8004 agent, linked or not:
+ * - Agent lookup by agent ID and chain, or by owner address
+ * - Identity registry record (owner, token URI, agent card JSON)
+ * - Reputation summary and validation history
+ * - Watches (lightweight monitors created from the explorer)
+ *
+ * @module lib/validations/explorer
+ */
+
+import { z } from 'zod'
+import { chainIdSchema, ethereumAddressSchema, paginatedResponseSchema, uuidSchema } from './common'
+
+/**
+ * Explorer search schema
+ *
+ * Either an agent ID with its chain, or an owner address (optionally
+ * limited to one chain).
+ */
+export const explorerSearchSchema = z
+  .object({
+    agentId: z.coerce.number().int().min(0, 'Agent ID must be a positive number').optional(),
+    chainId: chainIdSchema.optional(),
+    owner: ethereumAddressSchema.optional(),
+  })
+  .superRefine((value, ctx) => {
+    if (value.agentId === undefined && value.owner === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Enter an agent ID or an owner address',
+        path: ['agentId'],
+      })
+    }
+    if (value.agentId !== undefined && value.chainId === undefined) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Select the chain the agent is registered on',
+        path: ['chainId'],
+      })
+    }
+  })
+
+/**
+ * Explorer agent summary schema
+ *
+ * Identity registry record, as returned by owner searches.
+ */
+export const explorerAgentSummarySchema = z.object({
+  agentId: z.number().int().min(0),
+  chainId: chainIdSchema,
+  owner: ethereumAddressSchema,
+  tokenUri: z.string().nullable(),
+  registeredAt: z.string().datetime().nullable(),
+})
+
+/**
+ * Reputation summary schema
+ *
+ * Aggregated reputation registry data for an agent.
+ */
+export const reputationSummarySchema = z.object({
+  score: z.number().nullable(),
+  feedbackCount: z.number().int().min(0),
+  lastUpdatedAt: z.string().datetime().nullable(),
+})
+
+/**
+ * Validation summary schema
+ *
+ * Counts of validation registry requests for an agent.
+ */
+export const validationSummarySchema = z.object({
+  total: z.number().int().min(0),
+  passed: z.number().int().min(0),
+  failed: z.number().int().min(0),
+  pending: z.number().int().min(0),
+})
+
+/**
+ * Explorer agent schema
+ *
+ * Full explorer view of an agent: identity record, the agent card JSON
+ * fetched from the token URI (null when missing or unreachable), and
+ * reputation and validation summaries.
+ */
+export const explorerAgentSchema = explorerAgentSummarySchema.extend({
+  agentCard: z.record(z.string(), z.unknown()).nullable(),
+  reputation: reputationSummarySchema,
+  validations: validationSummarySchema,
+})
+
+/**
+ * Validation record schema
+ *
+ * A single validation registry request and its response, if any.
+ */
+export const validationRecordSchema = z.object({
+  requestHash: z.string().regex(/^0x[a-fA-F0-9]{64}$/, 'Invalid request hash'),
+  validatorAddress: ethereumAddressSchema,
+  status: z.enum(['pending', 'completed']),
+  /** Validator response (0-100), null while pending */
+  response: z.number().int().min(0).max(100).nullable(),
+  tag: z.string().nullable(),
+  requestedAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+})
+
+/**
+ * Agent watch schema
+ *
+ * Lightweight monitor for an agent that is not linked to the
+ * organization. Events of watched agents show up in the event feed.
+ */
+export const agentWatchSchema = z.object({
+  id: uuidSchema,
+  organizationId: uuidSchema,
+  agentId: z.number().int().min(0),
+  chainId: chainIdSchema,
+  createdAt: z.string().datetime(),
+})
+
+/**
+ * Watch agent request schema
+ */
+export const watchAgentRequestSchema = z.object({
+  agentId: z.number().int().min(0),
+  chainId: chainIdSchema,
+})
+
+/** Owner search response with pagination */
+export const explorerAgentListResponseSchema = paginatedResponseSchema(explorerAgentSummarySchema)
+
+/** Validation history response with pagination */
+export const validationRecordListResponseSchema = paginatedResponseSchema(validationRecordSchema)
+
+/** Agent watch list response */
+export const agentWatchListResponseSchema = z.object({
+  data: z.array(agentWatchSchema),
+})
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Inferred Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+export type ExplorerSearch = z.infer<typeof explorerSearchSchema>
+export type ExplorerAgentSummary = z.infer<typeof explorerAgentSummarySchema>
+export type ReputationSummary = z.infer<typeof reputationSummarySchema>
+export type ValidationSummary = z.infer<typeof validationSummarySchema>
+export type ExplorerAgent = z.infer<typeof explorerAgentSchema>
+export type ValidationRecord = z.infer<typeof validationRecordSchema>
+export type AgentWatch = z.infer<typeof agentWatchSchema>
+export type WatchAgentRequest = z.infer<typeof watchAgentRequestSchema>
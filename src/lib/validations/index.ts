@@ -8,9 +8,16 @@
  * - user: User profile management
  * - organization: Organization and member management
  * - agent: ERC-8004 agent linking
+ * - agent-card: ERC-8004 agent registration files
  * - trigger: Automation triggers with conditions/actions
+ * - trigger-template: Reusable trigger templates with parameters
+ * - trigger-bundle: Trigger import/export bundles
  * - event: Blockchain event filtering
+ * - explorer: Public agent lookup and watches
+ * - registry-actions: Feedback and validation request transactions
+ * - watchlist: Named sets of agents for triggers and event filters
  * - api-key: API key management
+ * - audit-log: Organization audit log
  * - billing: Credits and subscriptions
  *
  * @module lib/validations
@@ -18,12 +25,19 @@
 
 // Entity schemas
 export * from './agent'
+export * from './agent-card'
 export * from './api-key'
+export * from './audit-log'
 export * from './billing'
 export * from './event'
+export * from './explorer'
 export * from './organization'
+export * from './registry-actions'
 export * from './trigger'
+export * from './trigger-bundle'
+export * from './trigger-template'
 export * from './user'
+export * from './watchlist'
 
 // Auth schemas
 export * from './auth'
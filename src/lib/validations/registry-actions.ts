@@ -0,0 +1,77 @@
+/**
+ * Registry action validation schemas
+ *
+ * Provides Zod schemas for the on-chain transactions the dashboard can
+ * send from the connected wallet:
+ * - Feedback for an agent (reputation registry)
+ * - Validation requests (validation registry)
+ *
+ * Optional fields accept empty strings so form state can be parsed as-is.
+ *
+ * @module lib/validations/registry-actions
+ */
+
+import { z } from 'zod'
+import { ethereumAddressSchema } from './common'
+
+/** Maximum size of a feedback tag (stored as bytes32) */
+export const MAX_FEEDBACK_TAG_BYTES = 32
+
+const bytes32Regex = /^0x[a-fA-F0-9]{64}$/
+const fileUriRegex = /^(https?|ipfs|ar):\/\/\S+$/i
+
+/** Off-chain file URI (https, ipfs or arweave) */
+const fileUriSchema = z
+  .string()
+  .trim()
+  .max(2048, 'URI is too long')
+  .regex(fileUriRegex, 'Must be an https://, ipfs:// or ar:// URI')
+
+/** Accepts an empty string in place of a missing optional value */
+const blankable = <T extends z.ZodType>(schema: T) => z.union([z.literal(''), schema]).optional()
+
+const tagSchema = z
+  .string()
+  .trim()
+  .refine(
+    (value) => new TextEncoder().encode(value).length <= MAX_FEEDBACK_TAG_BYTES,
+    `Tag must be at most ${MAX_FEEDBACK_TAG_BYTES} bytes`
+  )
+
+/**
+ * Give feedback schema
+ *
+ * Score from 0 to 100, two optional tags, and an optional feedback file
+ * with its hash. `feedbackAuth` is the authorization the agent signed for
+ * this client, when the registry requires one.
+ */
+export const giveFeedbackSchema = z.object({
+  score: z.coerce
+    .number()
+    .int('Score must be a whole number')
+    .min(0, 'Score must be between 0 and 100')
+    .max(100, 'Score must be between 0 and 100'),
+  tag1: blankable(tagSchema),
+  tag2: blankable(tagSchema),
+  feedbackUri: blankable(fileUriSchema),
+  feedbackHash: blankable(z.string().regex(bytes32Regex, 'Hash must be 32 bytes of hex')),
+  feedbackAuth: blankable(z.string().regex(/^0x([a-fA-F0-9]{2})*$/, 'Must be hex-encoded bytes')),
+})
+
+/**
+ * Validation request schema
+ *
+ * The request file describes what the validator should check. Its hash is
+ * derived from the URI when not provided.
+ */
+export const validationRequestSchema = z.object({
+  validatorAddress: ethereumAddressSchema,
+  requestUri: fileUriSchema,
+  requestHash: blankable(z.string().regex(bytes32Regex, 'Hash must be 32 bytes of hex')),
+})
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Inferred Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+export type GiveFeedbackRequest = z.infer<typeof giveFeedbackSchema>
+export type CreateValidationRequest = z.infer<typeof validationRequestSchema>
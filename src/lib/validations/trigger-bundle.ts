@@ -0,0 +1,182 @@
+/**
+ * Trigger bundle validation schemas
+ *
+ * Provides Zod schemas for trigger import/export bundles:
+ * - Versioned envelope (format marker, version, export time, source)
+ * - Export options (file format, secret handling)
+ * - Import conflict strategies
+ * - Which action config values are secrets, redacted on export
+ *
+ * Triggers inside a bundle are validated one by one with
+ * `createTriggerRequestSchema` when planning an import, so a single
+ * invalid trigger doesn't reject the whole file (see `lib/trigger-bundles`).
+ *
+ * @module lib/validations/trigger-bundle
+ */
+
+import { z } from 'zod'
+import { uuidSchema } from './common'
+
+/** Format marker of trigger bundles */
+export const TRIGGER_BUNDLE_FORMAT = 'agentauri.triggers'
+
+/** Current bundle version; bundles from newer versions are rejected */
+export const TRIGGER_BUNDLE_VERSION = 1
+
+/** Maximum triggers in one bundle */
+export const MAX_TRIGGER_BUNDLE_SIZE = 100
+
+/** Value written in place of secrets on export */
+export const REDACTED_SECRET = '[REDACTED]'
+
+/** Action config keys whose values are treated as secrets */
+export const SECRET_CONFIG_KEY_PATTERN =
+  /token|secret|password|passphrase|api[-_]?key|authorization|credential/i
+
+/** Action config keys whose values are all secrets (e.g. REST auth headers) */
+export const SECRET_CONTAINER_KEYS: readonly string[] = ['headers']
+
+/** Action config keys that are secrets for one action type (webhook URLs embed their token) */
+export const SECRET_ACTION_KEYS: Partial<Record<string, readonly string[]>> = {
+  slack: ['webhookUrl'],
+  discord: ['webhookUrl'],
+}
+
+/** Action config keys holding URLs whose credentials and token-like query parameters are secrets */
+export const SECRET_URL_ACTION_KEYS: Partial<Record<string, readonly string[]>> = {
+  rest: ['url'],
+}
+
+/** Query parameters of URLs whose values are treated as secrets */
+export const SECRET_QUERY_PARAM_PATTERN = new RegExp(
+  `${SECRET_CONFIG_KEY_PATTERN.source}|^(key|sig|signature|code|auth|access[-_]?key)$`,
+  'i'
+)
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Whether a URL has a user info or secret query parameter value that is
+ * exactly `REDACTED_SECRET`, as written by `redactUrlSecrets`
+ */
+export function hasRedactedUrlSecret(url: string): boolean {
+  if (url.match(/^[a-z][\w+.-]*:\/\/([^/?#@]+)@/i)?.[1] === REDACTED_SECRET) return true
+  for (const [, key = '', value] of url.matchAll(/[?&]([^=&#]+)=([^&#]*)/g)) {
+    if (value === REDACTED_SECRET && SECRET_QUERY_PARAM_PATTERN.test(key)) return true
+  }
+  return false
+}
+
+/**
+ * Find the redacted secrets of trigger actions
+ *
+ * Only secret config values are checked, and they must be exactly
+ * `REDACTED_SECRET` (or a URL redacted by `redactUrlSecrets`); other text
+ * that merely contains the placeholder, e.g. in a message, is kept.
+ *
+ * @param actions - Actions of a trigger request; anything else has none
+ * @returns Paths of the redacted values, e.g. `['actions', 0, 'config', 'webhookUrl']`
+ */
+export function findRedactedSecretPaths(actions: unknown): (string | number)[][] {
+  if (!Array.isArray(actions)) return []
+  const paths: (string | number)[][] = []
+
+  const visit = (value: unknown, path: (string | number)[], secret: boolean) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => {
+        visit(item, [...path, i], secret)
+      })
+    } else if (isRecord(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        const childSecret =
+          secret || SECRET_CONTAINER_KEYS.includes(key) || SECRET_CONFIG_KEY_PATTERN.test(key)
+        visit(child, [...path, key], childSecret)
+      }
+    } else if (secret && value === REDACTED_SECRET) {
+      paths.push(path)
+    }
+  }
+
+  actions.forEach((action, i) => {
+    if (!isRecord(action) || !isRecord(action.config)) return
+    const actionType = String(action.actionType)
+    for (const [key, value] of Object.entries(action.config)) {
+      const path = ['actions', i, 'config', key]
+      if (SECRET_URL_ACTION_KEYS[actionType]?.includes(key)) {
+        if (typeof value === 'string' && hasRedactedUrlSecret(value)) paths.push(path)
+      } else {
+        const secret =
+          SECRET_ACTION_KEYS[actionType]?.includes(key) ||
+          SECRET_CONTAINER_KEYS.includes(key) ||
+          SECRET_CONFIG_KEY_PATTERN.test(key)
+        visit(value, path, secret)
+      }
+    }
+  })
+  return paths
+}
+
+/** Bundle file formats */
+export const TRIGGER_BUNDLE_FILE_FORMATS = ['json', 'yaml'] as const
+
+/**
+ * Import conflict strategies, applied when a trigger with the same name
+ * already exists in the organization
+ *
+ * - `skip`: keep the existing trigger
+ * - `rename`: create the imported trigger under a free name
+ * - `replace`: overwrite the existing trigger with the imported one
+ */
+export const TRIGGER_IMPORT_CONFLICT_STRATEGIES = ['skip', 'rename', 'replace'] as const
+
+/**
+ * Trigger bundle schema
+ */
+export const triggerBundleSchema = z.object({
+  format: z.literal(TRIGGER_BUNDLE_FORMAT, {
+    error: 'Not a trigger bundle',
+  }),
+  version: z
+    .number()
+    .int()
+    .positive()
+    .max(
+      TRIGGER_BUNDLE_VERSION,
+      `Bundle version is newer than supported (max ${TRIGGER_BUNDLE_VERSION})`
+    ),
+  exportedAt: z.string().datetime(),
+  source: z
+    .object({
+      organizationId: uuidSchema.optional(),
+      organizationName: z.string().optional(),
+    })
+    .optional(),
+  /** Whether secrets were replaced with `REDACTED_SECRET` */
+  redacted: z.boolean().default(true),
+  triggers: z
+    .array(z.unknown())
+    .min(1, 'Bundle contains no triggers')
+    .max(MAX_TRIGGER_BUNDLE_SIZE, `At most ${MAX_TRIGGER_BUNDLE_SIZE} triggers per bundle`),
+})
+
+/**
+ * Trigger export options schema
+ */
+export const triggerExportOptionsSchema = z.object({
+  fileFormat: z.enum(TRIGGER_BUNDLE_FILE_FORMATS).default('json'),
+  /** Keep secrets in the bundle, e.g. to move triggers within the same environment */
+  includeSecrets: z.boolean().default(false),
+})
+
+/** Import conflict strategy validation schema */
+export const triggerImportConflictStrategySchema = z.enum(TRIGGER_IMPORT_CONFLICT_STRATEGIES)
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Inferred Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+export type TriggerBundle = z.infer<typeof triggerBundleSchema>
+export type TriggerBundleFileFormat = (typeof TRIGGER_BUNDLE_FILE_FORMATS)[number]
+export type TriggerExportOptions = z.input<typeof triggerExportOptionsSchema>
+export type TriggerImportConflictStrategy = z.infer<typeof triggerImportConflictStrategySchema>
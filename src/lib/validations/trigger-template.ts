@@ -0,0 +1,170 @@
+/**
+ * Trigger template validation schemas
+ *
+ * Provides Zod schemas for reusable trigger templates:
+ * - Parameters (placeholders filled in when the template is used)
+ * - Template bodies (a trigger definition that may contain `[[key]]` placeholders)
+ * - Organization templates and create requests
+ *
+ * Built-in templates and placeholder substitution live in
+ * `lib/trigger-templates`.
+ *
+ * @module lib/validations/trigger-template
+ */
+
+import { z } from 'zod'
+import { findTemplatePlaceholders } from '../trigger-templates'
+import { registrySchema, uuidSchema } from './common'
+
+/** Template gallery categories */
+export const TRIGGER_TEMPLATE_CATEGORIES = [
+  'reputation',
+  'identity',
+  'validation',
+  'custom',
+] as const
+
+/** Template category validation schema */
+export const triggerTemplateCategorySchema = z.enum(TRIGGER_TEMPLATE_CATEGORIES)
+
+/**
+ * Template parameter types
+ *
+ * - `number`: numeric value, e.g. a score threshold
+ * - `chain`: supported chain ID, picked from a chain select
+ * - `text`: free-form text, e.g. a Telegram chat ID
+ * - `url`: HTTP(S) URL, e.g. a webhook endpoint
+ * - `watchlist`: watchlist ID of the current organization
+ */
+export const TRIGGER_TEMPLATE_PARAMETER_TYPES = [
+  'number',
+  'chain',
+  'text',
+  'url',
+  'watchlist',
+] as const
+
+/**
+ * Template parameter schema
+ *
+ * A parameter named `threshold` is referenced in the template body as
+ * `[[threshold]]`.
+ */
+export const triggerTemplateParameterSchema = z.object({
+  key: z
+    .string()
+    .min(1, 'Parameter key is required')
+    .max(50, 'Parameter key too long')
+    .regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, 'Parameter key must be alphanumeric'),
+  label: z.string().trim().min(1, 'Parameter label is required').max(100),
+  type: z.enum(TRIGGER_TEMPLATE_PARAMETER_TYPES),
+  description: z.string().max(500).optional(),
+  defaultValue: z.string().max(500).optional(),
+  required: z.boolean().default(true),
+})
+
+/**
+ * Template body schema
+ *
+ * The trigger created from the template. Validation is loose because
+ * placeholders are only replaced when the template is used; the resulting
+ * trigger is validated by the trigger form. `chainId` may itself be a
+ * placeholder.
+ */
+export const triggerTemplateBodySchema = z.object({
+  name: z.string().max(100),
+  description: z.string().max(500).optional(),
+  chainId: z.union([z.number().int().positive(), z.string().min(1)]),
+  registry: registrySchema,
+  isStateful: z.boolean().optional(),
+  stateConfig: z.record(z.string(), z.unknown()).optional(),
+  conditions: z.array(z.record(z.string(), z.unknown())).min(1).max(20),
+  actions: z.array(z.record(z.string(), z.unknown())).min(1).max(10),
+})
+
+/**
+ * Template definition schema
+ *
+ * Shared by built-in templates and organization templates.
+ */
+export const triggerTemplateDefinitionSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  description: z.string().nullable(),
+  category: triggerTemplateCategorySchema,
+  parameters: z.array(triggerTemplateParameterSchema),
+  trigger: triggerTemplateBodySchema,
+})
+
+/**
+ * Organization trigger template schema
+ */
+export const triggerTemplateSchema = triggerTemplateDefinitionSchema.extend({
+  id: uuidSchema,
+  organizationId: uuidSchema,
+  createdAt: z.string().datetime(),
+})
+
+/**
+ * Trigger template info schema
+ *
+ * Name, description and gallery category of a template being saved.
+ */
+export const triggerTemplateInfoSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(2, 'Name must be at least 2 characters')
+    .max(100, 'Name must be at most 100 characters'),
+  description: z.string().trim().max(500, 'Description must be at most 500 characters').optional(),
+  category: triggerTemplateCategorySchema,
+})
+
+/**
+ * Create trigger template request schema
+ *
+ * Parameter keys must be unique and every placeholder in the body must
+ * refer to a declared parameter.
+ */
+export const createTriggerTemplateRequestSchema = triggerTemplateInfoSchema
+  .extend({
+    parameters: z.array(triggerTemplateParameterSchema).max(10, 'Cannot exceed 10 parameters'),
+    trigger: triggerTemplateBodySchema,
+  })
+  .superRefine((template, ctx) => {
+    const keys = template.parameters.map((p) => p.key)
+    if (keys.length !== new Set(keys).size) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Duplicate parameter keys',
+        path: ['parameters'],
+      })
+    }
+    const undeclared = findTemplatePlaceholders(template.trigger).filter(
+      (key) => !keys.includes(key)
+    )
+    if (undeclared.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `Undeclared parameters: ${undeclared.join(', ')}`,
+        path: ['trigger'],
+      })
+    }
+  })
+
+/** Trigger template list response */
+export const triggerTemplateListResponseSchema = z.object({
+  data: z.array(triggerTemplateSchema),
+})
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Inferred Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+export type TriggerTemplateCategory = z.infer<typeof triggerTemplateCategorySchema>
+export type TriggerTemplateParameterType = (typeof TRIGGER_TEMPLATE_PARAMETER_TYPES)[number]
+export type TriggerTemplateParameter = z.input<typeof triggerTemplateParameterSchema>
+export type TriggerTemplateBody = z.infer<typeof triggerTemplateBodySchema>
+export type TriggerTemplateDefinition = z.input<typeof triggerTemplateDefinitionSchema>
+export type TriggerTemplate = z.infer<typeof triggerTemplateSchema>
+export type TriggerTemplateInfo = z.infer<typeof triggerTemplateInfoSchema>
+export type CreateTriggerTemplateRequest = z.input<typeof createTriggerTemplateRequestSchema>
@@ -4,7 +4,11 @@
  * Provides Zod schemas for automation trigger operations:
  * - Trigger CRUD with conditions and actions
  * - Condition configuration (field, operator, value)
- * - Action configuration (telegram, REST, MCP)
+ * - Nested condition groups (AND/OR/NOT)
+ * - Stateful trigger settings (time windows, counters, cooldowns, reset policy)
+ * - Action configuration (telegram, REST, MCP, email, Slack, Discord)
+ * - Execution history with per-action results
+ * - Revision history for rollback
  * - Security validations (size limits, duplicate detection)
  *
  * @module lib/validations/trigger
@@ -18,6 +22,16 @@ import {
   registrySchema,
   uuidSchema,
 } from './common'
+import {
+  countConditions,
+  flattenConditions,
+  getConditionDepth,
+  isConditionGroup,
+} from '../condition-tree'
+import { findEventField, validateConditionValue } from '../event-schemas'
+import { validateTemplateVariables } from '../sanitize'
+import { blockchainEventSchema } from './event'
+import { findRedactedSecretPaths, REDACTED_SECRET } from './trigger-bundle'
 
 /**
  * Trigger condition schema
@@ -46,6 +60,41 @@ export const triggerConditionSchema = z.object({
   createdAt: z.string().datetime(),
 })
 
+/** Logical operators for condition groups */
+export const CONDITION_GROUP_LOGIC = ['and', 'or', 'not'] as const
+
+/** Condition group logic validation schema */
+export const conditionGroupLogicSchema = z.enum(CONDITION_GROUP_LOGIC)
+
+/** Maximum nesting depth of condition groups (top-level list is depth 0) */
+export const MAX_CONDITION_GROUP_DEPTH = 3
+
+/**
+ * Trigger condition group schema
+ *
+ * Combines child conditions and groups:
+ * - `and`: every child matches
+ * - `or`: at least one child matches
+ * - `not`: no child matches
+ */
+export const triggerConditionGroupSchema = z.object({
+  id: uuidSchema.optional(),
+  logic: conditionGroupLogicSchema,
+  get conditions() {
+    return z.array(triggerConditionNodeSchema)
+  },
+})
+
+/**
+ * Trigger condition node schema
+ *
+ * Either a single condition or a condition group.
+ */
+export const triggerConditionNodeSchema = z.union([
+  triggerConditionSchema,
+  triggerConditionGroupSchema,
+])
+
 /**
  * Trigger action schema
  *
@@ -60,6 +109,94 @@ export const triggerActionSchema = z.object({
   createdAt: z.string().datetime(),
 })
 
+/** How trigger state is reset after it has been built up */
+export const TRIGGER_STATE_RESET_POLICIES = ['on_fire', 'window_expiry', 'manual'] as const
+
+/** Whether state is tracked per agent or once for the whole trigger */
+export const TRIGGER_STATE_SCOPES = ['agent', 'trigger'] as const
+
+/** Longest supported rolling window (30 days) */
+export const MAX_STATE_WINDOW_SECONDS = 30 * 24 * 60 * 60
+
+/** Longest supported cooldown (7 days) */
+export const MAX_STATE_COOLDOWN_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Condition fields that read trigger state instead of event data
+ *
+ * - `match_count`: number of matching events in the window (threshold conditions)
+ * - `seconds_since_last_match`: seconds since the previous matching event (time window conditions)
+ *
+ * They are only known to the backend, so client-side evaluation can't check them.
+ */
+export const STATEFUL_CONDITION_FIELDS = ['match_count', 'seconds_since_last_match'] as const
+
+/**
+ * Stateful trigger configuration schema
+ *
+ * - `windowSeconds`: rolling window events are counted in (null = no window)
+ * - `countThreshold`: matching events needed before the trigger fires (null = every match)
+ * - `cooldownSeconds`: minimum time between two fires (debounce)
+ * - `scope`: track counters and cooldowns per agent or for the whole trigger
+ * - `resetPolicy`: clear counters after firing (`on_fire`), let events age out of
+ *   the window (`window_expiry`), or only on request (`manual`)
+ */
+export const triggerStateConfigSchema = z
+  .object({
+    windowSeconds: z
+      .number()
+      .int()
+      .min(60, 'Window must be at least 1 minute')
+      .max(MAX_STATE_WINDOW_SECONDS, 'Window cannot exceed 30 days')
+      .nullable()
+      .default(null),
+    countThreshold: z
+      .number()
+      .int()
+      .min(1, 'Threshold must be at least 1')
+      .max(1000, 'Threshold cannot exceed 1000')
+      .nullable()
+      .default(null),
+    cooldownSeconds: z
+      .number()
+      .int()
+      .min(0, 'Cooldown cannot be negative')
+      .max(MAX_STATE_COOLDOWN_SECONDS, 'Cooldown cannot exceed 7 days')
+      .default(0),
+    scope: z.enum(TRIGGER_STATE_SCOPES).default('agent'),
+    resetPolicy: z.enum(TRIGGER_STATE_RESET_POLICIES).default('on_fire'),
+  })
+  .refine((config) => config.resetPolicy !== 'window_expiry' || config.windowSeconds !== null, {
+    message: 'Window expiry reset requires a time window',
+    path: ['resetPolicy'],
+  })
+
+/**
+ * Trigger state entry schema
+ *
+ * Runtime state for one scope key: an agent, or the whole trigger
+ * (`agentId: null`).
+ */
+export const triggerStateEntrySchema = z.object({
+  agentId: z.number().int().min(0).nullable(),
+  count: z.number().int().min(0),
+  windowStartedAt: z.string().datetime().nullable().default(null),
+  lastMatchedAt: z.string().datetime().nullable().default(null),
+  lastFiredAt: z.string().datetime().nullable().default(null),
+  cooldownUntil: z.string().datetime().nullable().default(null),
+})
+
+/**
+ * Trigger state schema
+ *
+ * Current counters and cooldowns of a stateful trigger.
+ */
+export const triggerStateSchema = z.object({
+  triggerId: uuidSchema,
+  entries: z.array(triggerStateEntrySchema).default([]),
+  lastResetAt: z.string().datetime().nullable().default(null),
+})
+
 /**
  * Trigger base schema
  *
@@ -75,11 +212,13 @@ export const triggerSchema = z.object({
   registry: registrySchema,
   enabled: z.boolean(),
   isStateful: z.boolean(),
+  stateConfig: triggerStateConfigSchema.nullable().optional(),
   executionCount: z.number().int().min(0),
   lastExecutedAt: z.string().datetime().nullable(),
   createdAt: z.string().datetime(),
   updatedAt: z.string().datetime(),
-  conditions: z.array(triggerConditionSchema).optional(),
+  /** Top-level conditions and groups, combined with AND */
+  conditions: z.array(triggerConditionNodeSchema).optional(),
   actions: z.array(triggerActionSchema).optional(),
 })
 
@@ -87,66 +226,234 @@ export const triggerSchema = z.object({
  * Create trigger condition input schema
  *
  * Input schema for creating new conditions with strict validation.
+ * Values for known event fields are validated against their type
+ * (see `lib/event-schemas`); unknown fields are accepted as free-form.
  */
-export const createConditionInputSchema = z.object({
-  conditionType: z
+export const createConditionInputSchema = z
+  .object({
+    _key: z.string().optional(), // Internal key for React list rendering (stripped before API)
+    conditionType: z
+      .string()
+      .min(1, 'Condition type is required')
+      .max(50, 'Condition type too long')
+      .regex(/^[a-z_]+$/, 'Condition type must be lowercase with underscores'),
+    field: z
+      .string()
+      .min(1, 'Field is required')
+      .max(50, 'Field name too long')
+      .regex(/^[a-zA-Z0-9_]+$/, 'Field name contains invalid characters'),
+    operator: z.enum([
+      'eq',
+      'ne',
+      'gt',
+      'gte',
+      'lt',
+      'lte',
+      'in',
+      'contains',
+      'startsWith',
+      'endsWith',
+    ]),
+    value: z.string().trim().max(500, 'Value too long'),
+    config: z
+      .record(z.string(), z.unknown())
+      .default({})
+      .refine((obj) => Object.keys(obj).length <= 10, {
+        message: 'Config cannot have more than 10 keys',
+      }),
+  })
+  .superRefine((condition, ctx) => {
+    // Typed fields from the event schema registry must carry a valid value.
+    // Enum membership is enforced by the builder's select inputs instead, so
+    // conditions on event types outside the local catalog still validate.
+    if ((STATEFUL_CONDITION_FIELDS as readonly string[]).includes(condition.field)) {
+      if (!/^\d+$/.test(condition.value)) {
+        ctx.addIssue({ code: 'custom', message: 'Value must be a whole number', path: ['value'] })
+      }
+      return
+    }
+
+    const field = findEventField(condition.field)
+    if (!field || field.type === 'enum') return
+    const error = validateConditionValue(field, condition.operator, condition.value)
+    if (error) {
+      ctx.addIssue({ code: 'custom', message: error, path: ['value'] })
+    }
+  })
+
+/**
+ * Create condition group input schema
+ *
+ * Groups must contain at least one child. Depth and total size are
+ * validated on the full request.
+ */
+export const createConditionGroupInputSchema = z.object({
+  _key: z.string().optional(), // Internal key for React list rendering (stripped before API)
+  logic: conditionGroupLogicSchema,
+  get conditions() {
+    return z
+      .array(createConditionNodeInputSchema)
+      .min(1, 'Condition group must contain at least one condition')
+      .max(20, 'Cannot exceed 20 conditions')
+  },
+})
+
+/**
+ * Create condition node input schema
+ *
+ * Accepts a single condition or a nested group, so the existing
+ * flat condition array remains valid.
+ */
+export const createConditionNodeInputSchema = z.union([
+  createConditionInputSchema,
+  createConditionGroupInputSchema,
+])
+
+/**
+ * Message template schema
+ *
+ * Non-empty string that is a valid action template: allowed variables,
+ * `data.*` paths, known filters and closed `{{#if}}` blocks.
+ *
+ * @param max - Maximum template length
+ */
+const messageTemplateSchema = (max: number) =>
+  z
     .string()
-    .min(1, 'Condition type is required')
-    .max(50, 'Condition type too long')
-    .regex(/^[a-z_]+$/, 'Condition type must be lowercase with underscores'),
-  field: z
+    .trim()
+    .min(1, 'Message is required')
+    .max(max, `Message must be at most ${max} characters`)
+    .superRefine((template, ctx) => {
+      const { isValid, invalidVars, errors } = validateTemplateVariables(template)
+      if (!isValid) {
+        ctx.addIssue({
+          code: 'custom',
+          message:
+            invalidVars.length > 0
+              ? `Invalid template variables: ${invalidVars.join(', ')}`
+              : (errors[0] ?? 'Invalid template'),
+        })
+      }
+    })
+
+/**
+ * Webhook URL schema
+ *
+ * Also accepts `REDACTED_SECRET`, the placeholder of redacted bundle
+ * exports; triggers containing it must stay disabled (see
+ * `createTriggerRequestSchema`).
+ *
+ * @param pattern - Pattern of the service's webhook URLs
+ * @param message - Error message for other URLs
+ */
+const webhookUrlSchema = (pattern: RegExp, message: string) =>
+  z
     .string()
-    .min(1, 'Field is required')
-    .max(50, 'Field name too long')
-    .regex(/^[a-zA-Z0-9_]+$/, 'Field name contains invalid characters'),
-  operator: z.enum([
-    'eq',
-    'ne',
-    'gt',
-    'gte',
-    'lt',
-    'lte',
-    'in',
-    'contains',
-    'startsWith',
-    'endsWith',
-  ]),
-  value: z.string().trim().max(500, 'Value too long'),
-  config: z
-    .record(z.string(), z.unknown())
-    .default({})
-    .refine((obj) => Object.keys(obj).length <= 10, {
-      message: 'Config cannot have more than 10 keys',
-    }),
+    .trim()
+    .refine((url) => url === REDACTED_SECRET || pattern.test(url), message)
+
+/**
+ * Email action config schema
+ *
+ * - `to`: 1-10 recipient addresses
+ * - `subject`: templated subject line
+ * - `body`: templated plain-text body
+ */
+export const emailActionConfigSchema = z.object({
+  to: z
+    .array(z.string().trim().email('Invalid email address'))
+    .min(1, 'At least one recipient is required')
+    .max(10, 'Cannot exceed 10 recipients'),
+  subject: messageTemplateSchema(200),
+  body: messageTemplateSchema(5000),
+})
+
+/**
+ * Slack action config schema
+ *
+ * Posts to a Slack incoming webhook. `channel` and `username` override
+ * the webhook defaults.
+ */
+export const slackActionConfigSchema = z.object({
+  webhookUrl: webhookUrlSchema(
+    /^https:\/\/hooks\.slack\.com\/services\/[\w/-]+$/,
+    'Invalid Slack webhook URL'
+  ),
+  message: messageTemplateSchema(3000),
+  channel: z
+    .string()
+    .trim()
+    .regex(/^[#@][\w.-]{1,80}$/, 'Channel must start with # or @')
+    .optional(),
+  username: z.string().trim().max(80).optional(),
 })
 
+/**
+ * Discord action config schema
+ *
+ * Posts to a Discord webhook. Content is capped at Discord's 2000
+ * character message limit.
+ */
+export const discordActionConfigSchema = z.object({
+  webhookUrl: webhookUrlSchema(
+    /^https:\/\/(discord|discordapp)\.com\/api\/webhooks\/\d+\/[\w-]+$/,
+    'Invalid Discord webhook URL'
+  ),
+  content: messageTemplateSchema(2000),
+  username: z.string().trim().max(80).optional(),
+})
+
+/**
+ * Config schemas for action types with a fixed config shape
+ *
+ * Other action types (telegram, rest, mcp) accept free-form config.
+ */
+export const ACTION_CONFIG_SCHEMAS = {
+  email: emailActionConfigSchema,
+  slack: slackActionConfigSchema,
+  discord: discordActionConfigSchema,
+} as const
+
 /**
  * Create trigger action input schema
  *
  * Input schema for creating new actions with size limits.
- * Config is limited to 20 keys and 10KB total size.
+ * Config is limited to 20 keys and 10KB total size, and is validated
+ * against `ACTION_CONFIG_SCHEMAS` for email, Slack and Discord actions.
  */
-export const createActionInputSchema = z.object({
-  _key: z.string().optional(), // Internal key for React list rendering (stripped before API)
-  actionType: actionTypeSchema,
-  priority: z.number().int().min(0).max(100).default(0),
-  config: z
-    .record(z.string(), z.unknown())
-    .refine((obj) => Object.keys(obj).length <= 20, {
-      message: 'Config cannot have more than 20 keys',
-    })
-    .refine((obj) => JSON.stringify(obj).length <= 10000, {
-      message: 'Config size cannot exceed 10KB',
-    }),
-})
+export const createActionInputSchema = z
+  .object({
+    _key: z.string().optional(), // Internal key for React list rendering (stripped before API)
+    actionType: actionTypeSchema,
+    priority: z.number().int().min(0).max(100).default(0),
+    config: z
+      .record(z.string(), z.unknown())
+      .refine((obj) => Object.keys(obj).length <= 20, {
+        message: 'Config cannot have more than 20 keys',
+      })
+      .refine((obj) => JSON.stringify(obj).length <= 10000, {
+        message: 'Config size cannot exceed 10KB',
+      }),
+  })
+  .superRefine((action, ctx) => {
+    if (!Object.hasOwn(ACTION_CONFIG_SCHEMAS, action.actionType)) return
+    const schema = ACTION_CONFIG_SCHEMAS[action.actionType as keyof typeof ACTION_CONFIG_SCHEMAS]
+    const result = schema.safeParse(action.config)
+    if (result.success) return
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ code: 'custom', message: issue.message, path: ['config', ...issue.path] })
+    }
+  })
 
 /**
  * Create trigger request schema
  *
  * Full request schema with security validations:
  * - Name: 2-100 chars, alphanumeric + common symbols
- * - Conditions: 1-20 required, no duplicates
+ * - Conditions: 1-20 required, no top-level duplicates, groups nested at most 3 deep
  * - Actions: 1-10 required
+ * - State settings and threshold/time window conditions require `isStateful`
+ * - Enabled triggers can't contain `REDACTED_SECRET` placeholders
  */
 export const createTriggerRequestSchema = z
   .object({
@@ -165,8 +472,9 @@ export const createTriggerRequestSchema = z
     registry: registrySchema,
     enabled: z.boolean().default(true),
     isStateful: z.boolean().default(false),
+    stateConfig: triggerStateConfigSchema.optional(),
     conditions: z
-      .array(createConditionInputSchema)
+      .array(createConditionNodeInputSchema)
       .min(1, 'At least one condition is required')
       .max(20, 'Cannot exceed 20 conditions'),
     actions: z
@@ -176,8 +484,10 @@ export const createTriggerRequestSchema = z
   })
   .refine(
     (data) => {
-      // Prevent duplicate condition fields
-      const fields = data.conditions.map((c) => `${c.conditionType}:${c.field}`)
+      // Prevent duplicate top-level condition fields (OR groups may repeat a field)
+      const fields = data.conditions.flatMap((c) =>
+        isConditionGroup(c) ? [] : [`${c.conditionType}:${c.field}`]
+      )
       return fields.length === new Set(fields).size
     },
     {
@@ -185,6 +495,39 @@ export const createTriggerRequestSchema = z
       path: ['conditions'],
     }
   )
+  .refine((data) => countConditions(data.conditions) <= 20, {
+    message: 'Cannot exceed 20 conditions',
+    path: ['conditions'],
+  })
+  .refine((data) => getConditionDepth(data.conditions) <= MAX_CONDITION_GROUP_DEPTH, {
+    message: `Condition groups cannot be nested more than ${MAX_CONDITION_GROUP_DEPTH} levels deep`,
+    path: ['conditions'],
+  })
+  .refine((data) => data.isStateful || !data.stateConfig, {
+    message: 'State settings require a stateful trigger',
+    path: ['stateConfig'],
+  })
+  .refine(
+    (data) =>
+      data.isStateful ||
+      !flattenConditions<z.infer<typeof createConditionInputSchema>>(data.conditions).some((c) =>
+        (STATEFUL_CONDITION_FIELDS as readonly string[]).includes(c.field)
+      ),
+    {
+      message: 'Threshold and time window conditions require a stateful trigger',
+      path: ['conditions'],
+    }
+  )
+  .superRefine((data, ctx) => {
+    if (!data.enabled) return
+    for (const path of findRedactedSecretPaths(data.actions)) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Re-enter the redacted secret, or keep the trigger disabled',
+        path,
+      })
+    }
+  })
 
 /**
  * Update trigger request schema
@@ -196,7 +539,8 @@ export const updateTriggerRequestSchema = z.object({
   description: z.string().max(500).nullable().optional(),
   enabled: z.boolean().optional(),
   isStateful: z.boolean().optional(),
-  conditions: z.array(createConditionInputSchema).optional(),
+  stateConfig: triggerStateConfigSchema.nullable().optional(),
+  conditions: z.array(createConditionNodeInputSchema).optional(),
   actions: z.array(createActionInputSchema).optional(),
 })
 
@@ -213,14 +557,171 @@ export const triggerFiltersSchema = z.object({
 /** Trigger list response with pagination */
 export const triggerListResponseSchema = paginatedResponseSchema(triggerSchema)
 
+/**
+ * Trigger execution status
+ *
+ * - `pending`/`running`: Execution in progress
+ * - `success`: All actions succeeded
+ * - `partial`: Some actions failed
+ * - `failed`: Execution or all actions failed
+ */
+export const TRIGGER_EXECUTION_STATUSES = [
+  'pending',
+  'running',
+  'success',
+  'partial',
+  'failed',
+] as const
+
+/** Trigger execution status validation schema */
+export const triggerExecutionStatusSchema = z.enum(TRIGGER_EXECUTION_STATUSES)
+
+/**
+ * Action result schema
+ *
+ * Outcome of a single action within an execution. Type-specific
+ * fields are only present for the matching action type:
+ * - `rest`, `slack`, `discord`: `httpStatus`, `responseBody`
+ * - `telegram`, `email`: `deliveryStatus`, `messageId`
+ * - `mcp`: `mcpResponse`
+ */
+export const triggerActionResultSchema = z.object({
+  actionId: uuidSchema.nullable(),
+  actionType: actionTypeSchema,
+  status: z.enum(['success', 'failed', 'skipped']),
+  durationMs: z.number().int().min(0).nullable().default(null),
+  error: z.string().nullable().default(null),
+  httpStatus: z.number().int().min(100).max(599).nullable().optional(),
+  responseBody: z.unknown().optional(),
+  deliveryStatus: z.enum(['delivered', 'failed', 'pending']).nullable().optional(),
+  messageId: z.string().nullable().optional(),
+  mcpResponse: z.unknown().optional(),
+})
+
+/**
+ * Trigger execution schema
+ *
+ * A single run of a trigger. `event` is the matched blockchain event
+ * (may be omitted in list responses - fetch the execution for details).
+ */
+export const triggerExecutionSchema = z.object({
+  id: uuidSchema,
+  triggerId: uuidSchema,
+  status: triggerExecutionStatusSchema,
+  eventId: z.string().nullable(),
+  event: blockchainEventSchema.nullable().optional(),
+  startedAt: z.string().datetime(),
+  completedAt: z.string().datetime().nullable(),
+  durationMs: z.number().int().min(0).nullable(),
+  error: z.string().nullable().default(null),
+  actionResults: z.array(triggerActionResultSchema).default([]),
+  replayOf: uuidSchema.nullable().default(null),
+})
+
+/**
+ * Trigger execution filters schema
+ */
+export const triggerExecutionFiltersSchema = z.object({
+  status: triggerExecutionStatusSchema.optional(),
+  fromDate: z.string().datetime().optional(),
+  toDate: z.string().datetime().optional(),
+})
+
+/** Trigger execution list response with pagination */
+export const triggerExecutionListResponseSchema = paginatedResponseSchema(triggerExecutionSchema)
+
+/**
+ * Trigger revision change types
+ *
+ * - `created`: First revision of the trigger
+ * - `updated`: Name, description, conditions, actions or settings edited
+ * - `enabled`/`disabled`: Trigger toggled
+ * - `rolled_back`: Content restored from an earlier revision (`rolledBackFrom`)
+ */
+export const TRIGGER_REVISION_CHANGE_TYPES = [
+  'created',
+  'updated',
+  'enabled',
+  'disabled',
+  'rolled_back',
+] as const
+
+/** Trigger revision change type validation schema */
+export const triggerRevisionChangeTypeSchema = z.enum(TRIGGER_REVISION_CHANGE_TYPES)
+
+/**
+ * Trigger revision snapshot schema
+ *
+ * The trigger's content as saved in a revision.
+ */
+export const triggerRevisionSnapshotSchema = triggerSchema.pick({
+  name: true,
+  description: true,
+  chainId: true,
+  registry: true,
+  enabled: true,
+  isStateful: true,
+  stateConfig: true,
+  conditions: true,
+  actions: true,
+})
+
+/**
+ * Trigger revision schema
+ *
+ * One saved version of a trigger. Revisions are numbered from 1 and
+ * never change; a rollback creates a new revision. `author` is null for
+ * changes made by the system or with an API key.
+ */
+export const triggerRevisionSchema = z.object({
+  id: uuidSchema,
+  triggerId: uuidSchema,
+  revision: z.number().int().min(1),
+  changeType: triggerRevisionChangeTypeSchema,
+  author: z
+    .object({
+      id: uuidSchema,
+      name: z.string().nullable(),
+    })
+    .nullable(),
+  createdAt: z.string().datetime(),
+  rolledBackFrom: z.number().int().min(1).nullable().default(null),
+  snapshot: triggerRevisionSnapshotSchema,
+})
+
+/** Trigger revision list response with pagination */
+export const triggerRevisionListResponseSchema = paginatedResponseSchema(triggerRevisionSchema)
+
 /* ─────────────────────────────────────────────────────────────────────────────
  * Inferred Types
  * ─────────────────────────────────────────────────────────────────────────────*/
 export type Trigger = z.infer<typeof triggerSchema>
 export type TriggerCondition = z.infer<typeof triggerConditionSchema>
+export type ConditionGroupLogic = z.infer<typeof conditionGroupLogicSchema>
+export type TriggerConditionGroup = z.infer<typeof triggerConditionGroupSchema>
+export type TriggerConditionNode = z.infer<typeof triggerConditionNodeSchema>
+export type CreateConditionInput = z.input<typeof createConditionInputSchema>
+export type CreateConditionGroupInput = z.input<typeof createConditionGroupInputSchema>
+export type CreateConditionNodeInput = z.input<typeof createConditionNodeInputSchema>
 export type TriggerAction = z.infer<typeof triggerActionSchema>
 export type CreateTriggerRequest = z.infer<typeof createTriggerRequestSchema>
 /** Form input type (before Zod transforms/coerces values) */
 export type CreateTriggerFormValues = z.input<typeof createTriggerRequestSchema>
 export type UpdateTriggerRequest = z.infer<typeof updateTriggerRequestSchema>
 export type TriggerFilters = z.infer<typeof triggerFiltersSchema>
+export type TriggerExecutionStatus = z.infer<typeof triggerExecutionStatusSchema>
+export type TriggerActionResult = z.infer<typeof triggerActionResultSchema>
+export type TriggerExecution = z.infer<typeof triggerExecutionSchema>
+export type TriggerExecutionFilters = z.infer<typeof triggerExecutionFiltersSchema>
+export type TriggerRevisionChangeType = z.infer<typeof triggerRevisionChangeTypeSchema>
+export type TriggerRevisionSnapshot = z.infer<typeof triggerRevisionSnapshotSchema>
+export type TriggerRevision = z.infer<typeof triggerRevisionSchema>
+export type TriggerStateResetPolicy = (typeof TRIGGER_STATE_RESET_POLICIES)[number]
+export type TriggerStateScope = (typeof TRIGGER_STATE_SCOPES)[number]
+export type TriggerStateConfig = z.infer<typeof triggerStateConfigSchema>
+export type TriggerStateConfigInput = z.input<typeof triggerStateConfigSchema>
+export type TriggerStateEntry = z.infer<typeof triggerStateEntrySchema>
+export type TriggerState = z.infer<typeof triggerStateSchema>
+export type EmailActionConfig = z.infer<typeof emailActionConfigSchema>
+export type SlackActionConfig = z.infer<typeof slackActionConfigSchema>
+export type DiscordActionConfig = z.infer<typeof discordActionConfigSchema>
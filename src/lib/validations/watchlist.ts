@@ -0,0 +1,88 @@
+/**
+ * Watchlist validation schemas
+ *
+ * Provides Zod schemas for agent watchlists:
+ * - Named sets of agent ID and chain pairs, managed per organization
+ * - Create/update requests
+ * - Bulk agent additions (e.g. from a CSV import)
+ *
+ * Watchlists are referenced from trigger conditions as `watchlist:<id>`
+ * (see `lib/watchlists`).
+ *
+ * @module lib/validations/watchlist
+ */
+
+import { z } from 'zod'
+import { chainIdSchema, uuidSchema } from './common'
+
+/** Maximum agents added in one bulk request */
+export const MAX_WATCHLIST_IMPORT_SIZE = 1000
+
+/**
+ * Watchlist agent schema
+ *
+ * An agent is identified by its token ID together with its chain.
+ */
+export const watchlistAgentSchema = z.object({
+  agentId: z.coerce.number().int().min(0, 'Agent ID must be a positive number'),
+  chainId: chainIdSchema,
+})
+
+/**
+ * Watchlist schema
+ */
+export const watchlistSchema = z.object({
+  id: uuidSchema,
+  organizationId: uuidSchema,
+  name: z.string(),
+  description: z.string().nullable(),
+  agents: z.array(watchlistAgentSchema),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+})
+
+/**
+ * Create watchlist request schema
+ */
+export const createWatchlistRequestSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Name is required')
+    .max(100, 'Name must be at most 100 characters'),
+  description: z.string().trim().max(500, 'Description must be at most 500 characters').optional(),
+  agents: z.array(watchlistAgentSchema).max(MAX_WATCHLIST_IMPORT_SIZE).optional(),
+})
+
+/**
+ * Update watchlist request schema
+ */
+export const updateWatchlistRequestSchema = createWatchlistRequestSchema
+  .pick({ name: true, description: true })
+  .partial()
+
+/**
+ * Add watchlist agents request schema
+ *
+ * Agents already in the watchlist are ignored by the backend.
+ */
+export const addWatchlistAgentsRequestSchema = z.object({
+  agents: z
+    .array(watchlistAgentSchema)
+    .min(1, 'Add at least one agent')
+    .max(MAX_WATCHLIST_IMPORT_SIZE, `At most ${MAX_WATCHLIST_IMPORT_SIZE} agents per import`),
+})
+
+/** Watchlist list response */
+export const watchlistListResponseSchema = z.object({
+  data: z.array(watchlistSchema),
+})
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Inferred Types
+ * ─────────────────────────────────────────────────────────────────────────────*/
+export type WatchlistAgent = z.infer<typeof watchlistAgentSchema>
+export type Watchlist = z.infer<typeof watchlistSchema>
+export type CreateWatchlistRequest = z.infer<typeof createWatchlistRequestSchema>
+export type UpdateWatchlistRequest = z.infer<typeof updateWatchlistRequestSchema>
+export type AddWatchlistAgentsRequest = z.infer<typeof addWatchlistAgentsRequestSchema>
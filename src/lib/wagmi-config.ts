@@ -14,16 +14,19 @@ import { coinbaseWallet, injected, walletConnect } from 'wagmi/connectors'
  * This config is intentionally minimal - we only need:
  * - Wallet connection (get user address)
  * - Message signing (EIP-191 for auth)
+ * - Direct ERC-8004 registry reads (see `lib/onchain`)
+ * - Feedback and validation request transactions (see `lib/onchain/transactions`)
  *
- * All blockchain reads (events, reputation, ownership) are handled
- * by the backend via Ponder indexers and API endpoints.
- *
- * RPC endpoints are not configured because:
+ * Blockchain reads (events, reputation, ownership) are primarily handled
+ * by the backend via Ponder indexers and API endpoints:
  * - Event reading → Backend (Ponder Indexers)
  * - Reputation queries → Backend API
  * - Ownership verification → Backend API
  *
- * The wallet provider handles signing without needing RPC.
+ * The public transports below also serve `lib/onchain`, which reads the
+ * registries directly to verify backend data and as a fallback while the
+ * indexer is down, and for gas estimation before registry transactions. The
+ * wallet provider signs and broadcasts.
  */
 
 // Build connectors list - WalletConnect uses indexedDB which requires browser
@@ -49,7 +52,7 @@ export const wagmiConfig = createConfig({
   connectors,
   transports: {
     // Using public RPC endpoints (rate-limited but sufficient for wallet ops)
-    // These are only used as fallback - wallet provider handles most operations
+    // Used for on-chain registry reads - wallet provider handles signing
     [mainnet.id]: http(),
     [base.id]: http(),
     [sepolia.id]: http(),
@@ -0,0 +1,198 @@
+/**
+ * Watchlist helpers
+ *
+ * Condition references and CSV import for agent watchlists.
+ *
+ * A trigger condition can match every agent of a watchlist with
+ * `agentId in watchlist:<id>`; the reference replaces the comma-separated
+ * list the `in` operator otherwise takes. Membership is checked per agent
+ * ID and chain pair.
+ *
+ * CSV imports accept one agent per line, either `agentId` alone (using a
+ * default chain) or `agentId,chain` where the chain is an ID or a name
+ * such as `sepolia` or `Base Sepolia`. A header row is skipped.
+ *
+ * @module lib/watchlists
+ *
+ * @example
+ * ```ts
+ * toWatchlistReference('550e8400-...')      // => 'watchlist:550e8400-...'
+ * parseWatchlistCsv('agent_id,chain\n42,sepolia').agents
+ * // => [{ agentId: 42, chainId: 11155111 }]
+ * ```
+ */
+
+import { CHAIN_NAMES, SUPPORTED_CHAINS } from './constants'
+import type { WatchlistAgent } from './validations/watchlist'
+
+/** Prefix of watchlist references in condition values */
+export const WATCHLIST_REFERENCE_PREFIX = 'watchlist:'
+
+/** Condition fields that accept a watchlist reference */
+export const WATCHLIST_CONDITION_FIELDS: readonly string[] = ['agentId', 'agent_id']
+
+const WATCHLIST_REFERENCE_PATTERN = /^watchlist:([a-zA-Z0-9-]+)$/
+
+/**
+ * Problem found on one line of a CSV import
+ */
+export interface WatchlistCsvError {
+  /** 1-based line number */
+  line: number
+  message: string
+}
+
+/**
+ * Result of parsing a CSV import
+ */
+export interface WatchlistCsvResult {
+  /** Unique agents, in file order */
+  agents: WatchlistAgent[]
+  /** Lines that could not be imported */
+  errors: WatchlistCsvError[]
+  /** Lines repeating an agent already in the file */
+  duplicates: number
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * Condition References
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+/**
+ * Build the condition value that refers to a watchlist
+ *
+ * @param watchlistId - Watchlist UUID
+ * @returns `watchlist:<id>`
+ */
+export function toWatchlistReference(watchlistId: string): string {
+  return `${WATCHLIST_REFERENCE_PREFIX}${watchlistId}`
+}
+
+/**
+ * Read the watchlist ID from a condition value
+ *
+ * @param value - Condition value
+ * @returns Watchlist ID, or null when the value is not a watchlist reference
+ */
+export function parseWatchlistReference(value: string | undefined): string | null {
+  return value?.trim().match(WATCHLIST_REFERENCE_PATTERN)?.[1] ?? null
+}
+
+/**
+ * Check whether a condition field accepts watchlist references
+ *
+ * @param field - Condition field name
+ */
+export function supportsWatchlistReference(field: string | undefined): boolean {
+  return field !== undefined && WATCHLIST_CONDITION_FIELDS.includes(field)
+}
+
+/**
+ * Check whether an agent is in a watchlist
+ *
+ * @param agents - Watchlist agents
+ * @param agentId - Agent token ID
+ * @param chainId - Chain the agent is registered on
+ */
+export function isAgentInWatchlist(
+  agents: readonly WatchlistAgent[],
+  agentId: number,
+  chainId: number
+): boolean {
+  return agents.some((agent) => agent.agentId === agentId && agent.chainId === chainId)
+}
+
+/* ─────────────────────────────────────────────────────────────────────────────
+ * CSV Import
+ * ─────────────────────────────────────────────────────────────────────────────*/
+
+const HEADER_PATTERN = /^\s*["']?(agent[\s_-]?id|agent|id)["']?\s*([,;\t]|$)/i
+
+function normalizeChainName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+const CHAIN_IDS_BY_NAME = new Map<string, number>([
+  ...Object.entries(CHAIN_NAMES).map(([id, name]): [string, number] => [
+    normalizeChainName(name),
+    Number(id),
+  ]),
+  ...Object.entries(SUPPORTED_CHAINS).map(([key, id]): [string, number] => [
+    normalizeChainName(key),
+    id,
+  ]),
+])
+
+/**
+ * Resolve a chain column to a supported chain ID
+ *
+ * @param value - Chain ID or chain name (case and separator insensitive)
+ * @returns Chain ID, or null for unknown chains
+ */
+export function resolveChainColumn(value: string): number | null {
+  const trimmed = value.trim()
+  if (/^\d+$/.test(trimmed)) {
+    const chainId = Number(trimmed)
+    return CHAIN_NAMES[chainId] ? chainId : null
+  }
+  return CHAIN_IDS_BY_NAME.get(normalizeChainName(trimmed)) ?? null
+}
+
+/**
+ * Parse a CSV file of agents for a watchlist import
+ *
+ * Columns are separated by commas, semicolons or tabs; surrounding quotes
+ * and blank lines are ignored.
+ *
+ * @param text - CSV contents
+ * @param defaultChainId - Chain for lines without a chain column
+ * @returns Unique agents, per-line errors and the number of duplicates
+ *
+ * @example
+ * ```ts
+ * parseWatchlistCsv('42\n43,base sepolia', 11155111)
+ * // => { agents: [{ agentId: 42, chainId: 11155111 }, { agentId: 43, chainId: 84532 }],
+ * //      errors: [], duplicates: 0 }
+ * ```
+ */
+export function parseWatchlistCsv(text: string, defaultChainId?: number): WatchlistCsvResult {
+  const agents: WatchlistAgent[] = []
+  const errors: WatchlistCsvError[] = []
+  const seen = new Set<string>()
+  let duplicates = 0
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    if (!raw.trim()) return
+    if (index === 0 && HEADER_PATTERN.test(raw)) return
+
+    const [idColumn = '', chainColumn = ''] = raw
+      .split(/[,;\t]/)
+      .map((column) => column.trim().replace(/^["']|["']$/g, ''))
+
+    if (!/^\d+$/.test(idColumn)) {
+      errors.push({ line, message: `Invalid agent ID "${idColumn}"` })
+      return
+    }
+
+    const chainId = chainColumn ? resolveChainColumn(chainColumn) : (defaultChainId ?? null)
+    if (chainId === null) {
+      errors.push({
+        line,
+        message: chainColumn ? `Unsupported chain "${chainColumn}"` : 'Missing chain',
+      })
+      return
+    }
+
+    const agentId = Number(idColumn)
+    const key = `${chainId}:${agentId}`
+    if (seen.has(key)) {
+      duplicates++
+      return
+    }
+    seen.add(key)
+    agents.push({ agentId, chainId })
+  })
+
+  return { agents, errors, duplicates }
+}
@@ -13,6 +13,7 @@
  * - Automatic DOM cleanup after each test
  * - MSW server for API mocking
  * - Default handlers for auth API routes
+ * - A controllable mock for the real-time event stream
  *
  * @example
  * ```ts
@@ -35,6 +36,7 @@ import { cleanup } from '@testing-library/react'
 import { http, HttpResponse } from 'msw'
 import { setupServer } from 'msw/node'
 import { afterAll, afterEach, beforeAll, vi } from 'vitest'
+import { API_BASE_URL, API_VERSION } from '@/lib/constants'
 
 // ============================================================================
 // Test Cleanup
@@ -93,10 +95,108 @@ const localApiHandlers = [
   }),
 ]
 
+/**
+ * Controllable mock of the SSE event stream (`GET /events/stream`)
+ *
+ * Every request opens a new stream connection. Tests push messages to all
+ * open connections and can drop them to exercise reconnect logic.
+ *
+ * @example
+ * ```ts
+ * import { mockEventStream } from '@/test/setup'
+ *
+ * await waitFor(() => expect(mockEventStream.connections).toBe(1))
+ * mockEventStream.push(mockEvent)
+ * mockEventStream.disconnect() // client should reconnect
+ * ```
+ */
+function createMockEventStream() {
+  const encoder = new TextEncoder()
+  const controllers = new Set<ReadableStreamDefaultController<Uint8Array>>()
+  let requestCount = 0
+  let lastRequest: Request | null = null
+
+  const send = (chunk: string) => {
+    for (const controller of controllers) {
+      try {
+        controller.enqueue(encoder.encode(chunk))
+      } catch {
+        controllers.delete(controller)
+      }
+    }
+  }
+
+  return {
+    handler: http.get(`${API_BASE_URL}/api/${API_VERSION}/events/stream`, ({ request }) => {
+      requestCount++
+      lastRequest = request
+      let streamController: ReadableStreamDefaultController<Uint8Array> | undefined
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          streamController = controller
+          controllers.add(controller)
+        },
+        cancel() {
+          if (streamController) controllers.delete(streamController)
+        },
+      })
+      return new HttpResponse(stream, {
+        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+      })
+    }),
+
+    /** Number of currently open connections */
+    get connections() {
+      return controllers.size
+    },
+
+    /** Total number of connection requests received */
+    get requestCount() {
+      return requestCount
+    },
+
+    /** Most recent connection request (for header assertions) */
+    get lastRequest() {
+      return lastRequest
+    },
+
+    /** Send an event as an SSE message to every open connection */
+    push(data: unknown, id?: string) {
+      send(`${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`)
+    },
+
+    /** Send raw SSE text (for malformed-input tests) */
+    pushRaw(chunk: string) {
+      send(chunk)
+    },
+
+    /** Close every open connection from the server side */
+    disconnect() {
+      for (const controller of controllers) {
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      }
+      controllers.clear()
+    },
+
+    /** Drop connections and reset counters */
+    reset() {
+      this.disconnect()
+      requestCount = 0
+      lastRequest = null
+    },
+  }
+}
+
+export const mockEventStream = createMockEventStream()
+
 /**
  * MSW mock server instance
  *
- * Pre-configured with default auth API handlers.
+ * Pre-configured with default auth API handlers and the mock event stream.
  * Use `server.use()` in individual tests to add custom handlers.
  *
  * @example
@@ -122,7 +222,7 @@ const localApiHandlers = [
  * )
  * ```
  */
-export const server = setupServer(...localApiHandlers)
+export const server = setupServer(...localApiHandlers, mockEventStream.handler)
 
 /**
  * Start MSW server before all tests
@@ -142,6 +242,7 @@ beforeAll(() => {
  */
 afterEach(() => {
   server.resetHandlers()
+  mockEventStream.reset()
 })
 
 /**
@@ -18,6 +18,7 @@
 
 import type {
   ActionType,
+  ApiKeyScope,
   OrganizationRole,
   QueryTier,
   Registry,
@@ -184,6 +185,8 @@ export interface Trigger {
   enabled: boolean
   /** Whether trigger maintains state between executions */
   isStateful: boolean
+  /** Windows, counters and cooldowns for stateful triggers */
+  stateConfig?: TriggerStateConfig | null
   /** Number of times this trigger has executed */
   executionCount: number
   /** Last execution timestamp (ISO 8601) */
@@ -192,8 +195,8 @@ export interface Trigger {
   createdAt: string
   /** Last update timestamp (ISO 8601) */
   updatedAt: string
-  /** Conditions that must match for trigger to fire */
-  conditions?: TriggerCondition[]
+  /** Conditions (or condition groups) that must match for trigger to fire */
+  conditions?: TriggerConditionNode[]
   /** Actions to execute when trigger fires */
   actions?: TriggerAction[]
 }
@@ -202,7 +205,8 @@ export interface Trigger {
  * Trigger condition
  *
  * A single condition that must be met for a trigger to fire.
- * Multiple conditions are combined with AND logic.
+ * Top-level conditions are combined with AND logic; use a
+ * {@link TriggerConditionGroup} for OR/NOT.
  *
  * @example
  * ```ts
@@ -237,6 +241,64 @@ export interface TriggerCondition {
   createdAt: string
 }
 
+/**
+ * Trigger condition group
+ *
+ * Combines nested conditions with AND (all), OR (any) or NOT (none).
+ * Groups can be nested up to three levels deep.
+ *
+ * @example
+ * ```ts
+ * const group: TriggerConditionGroup = {
+ *   logic: 'or',
+ *   conditions: [scoreBelow50, agentInWatchlist]
+ * }
+ * ```
+ */
+export interface TriggerConditionGroup {
+  /** Group identifier (assigned by the server) */
+  id?: string
+  /** How child conditions are combined */
+  logic: 'and' | 'or' | 'not'
+  /** Child conditions or groups */
+  conditions: TriggerConditionNode[]
+}
+
+/**
+ * A trigger condition or condition group
+ */
+export type TriggerConditionNode = TriggerCondition | TriggerConditionGroup
+
+/**
+ * Stateful trigger configuration
+ *
+ * Only used when `Trigger.isStateful` is true.
+ *
+ * @example
+ * ```ts
+ * // Fire on 3 matching events within 24h per agent, at most once per hour
+ * const stateConfig: TriggerStateConfig = {
+ *   windowSeconds: 86400,
+ *   countThreshold: 3,
+ *   cooldownSeconds: 3600,
+ *   scope: 'agent',
+ *   resetPolicy: 'on_fire'
+ * }
+ * ```
+ */
+export interface TriggerStateConfig {
+  /** Rolling window events are counted in (null = no window) */
+  windowSeconds: number | null
+  /** Matching events needed before the trigger fires (null = every match) */
+  countThreshold: number | null
+  /** Minimum seconds between two fires */
+  cooldownSeconds: number
+  /** Track state per agent or once for the whole trigger */
+  scope: 'agent' | 'trigger'
+  /** When counters are cleared */
+  resetPolicy: 'on_fire' | 'window_expiry' | 'manual'
+}
+
 /**
  * Trigger action
  *
@@ -278,7 +340,8 @@ export interface TriggerAction {
  * API Key model
  *
  * Authentication key for accessing the AgentAuri API.
- * Keys have tiers that determine rate limits and features.
+ * Keys have tiers that determine rate limits and features, and scopes
+ * that determine which resources they can access.
  *
  * @example
  * ```ts
@@ -291,7 +354,12 @@ export interface TriggerAction {
  *   enabled: true,
  *   lastUsedAt: '2024-06-01T12:00:00Z',
  *   expiresAt: null,
- *   createdAt: '2024-01-01T00:00:00Z'
+ *   createdAt: '2024-01-01T00:00:00Z',
+ *   scopes: ['events:read', 'agents:read'],
+ *   allowedIps: ['203.0.113.0/24'],
+ *   allowedOrigins: [],
+ *   previousKey: null,
+ *   rotationPolicy: { intervalDays: 90, gracePeriodHours: 24, nextRotationAt: '2024-09-01T00:00:00Z', lastRotatedAt: null }
  * }
  * ```
  */
@@ -314,6 +382,40 @@ export interface ApiKey {
   expiresAt: string | null
   /** Creation timestamp (ISO 8601) */
   createdAt: string
+  /** Resources and access the key is allowed */
+  scopes: ApiKeyScope[]
+  /** IP addresses or CIDR ranges allowed to use the key (empty = any) */
+  allowedIps: string[]
+  /** Browser origins allowed to use the key (empty = any) */
+  allowedOrigins: string[]
+  /** Secret replaced by the last rotation, valid until its grace period ends */
+  previousKey: ApiKeyPreviousKey | null
+  /** Scheduled auto-rotation (null = rotated manually only) */
+  rotationPolicy: ApiKeyRotationPolicy | null
+}
+
+/**
+ * Rotated-out API key secret that still works during its grace period
+ */
+export interface ApiKeyPreviousKey {
+  /** First characters of the previous key */
+  keyPrefix: string
+  /** When the previous key stops working (ISO 8601) */
+  expiresAt: string
+}
+
+/**
+ * API key auto-rotation policy
+ */
+export interface ApiKeyRotationPolicy {
+  /** Days between automatic rotations */
+  intervalDays: number
+  /** Hours the previous key keeps working after each rotation */
+  gracePeriodHours: number
+  /** Next scheduled rotation (ISO 8601) */
+  nextRotationAt: string | null
+  /** Last rotation, manual or scheduled (ISO 8601) */
+  lastRotatedAt: string | null
 }
 
 /**